@@ -12,6 +12,7 @@ import { ROUTES } from "@/config/routes";
 import Login from "@/pages/login";
 import ForgotPassword from "@/pages/forgot-password";
 import ResetPassword from "@/pages/reset-password";
+import ProofReview from "@/pages/proof-review";
 import SetPasswordPage from "@/pages/set-password";
 import ForcePasswordChange from "@/pages/force-password-change";
 import Home from "@/pages/home";
@@ -38,9 +39,13 @@ import MyOrders from "@/pages/portal/my-orders";
 import QuoteCheckout from "@/pages/portal/quote-checkout";
 import ProductionBoard from "@/pages/production";
 import ProductionJobDetailPage from "@/pages/production-job-detail";
+import ProductionKioskPage from "@/pages/production-kiosk";
+import JobProfitabilityReportPage from "@/pages/job-profitability-report";
 import JobDetail from "@/pages/job-detail";
 import ProductTypesSettings from "@/pages/settings/product-types";
 import PricingFormulasSettings from "@/pages/settings/pricing-formulas";
+import PricebookSettings from "@/pages/settings/pricebook";
+import PromotionsSettings from "@/pages/settings/promotions";
 import SettingsIntegrations from "@/pages/settings/integrations";
 import InvoicesListPage from "@/pages/invoices";
 import InvoiceDetailPage from "@/pages/invoice-detail";
@@ -75,6 +80,10 @@ function Router() {
         <Route path="/login" element={<Login />} />
         <Route path="/forgot-password" element={<ForgotPassword />} />
         <Route path="/reset-password" element={<ResetPassword />} />
+        <Route path="/proof/:token" element={<ProofReview />} />
+
+      {/* Shop-floor kiosk (full screen on a station login; operators sign in by badge/PIN) */}
+      <Route path={ROUTES.production.kiosk} element={<ProductionKioskPage />} />
         <Route path="*" element={<Navigate to="/login" replace />} />
       </Routes>
     );
@@ -105,6 +114,12 @@ function Router() {
       {/* Redirect login to dashboard if already authenticated */}
       <Route path="/login" element={<Navigate to="/dashboard" replace />} />
 
+      {/* Customer proof review (tokenized, same page whether or not signed in) */}
+      <Route path="/proof/:token" element={<ProofReview />} />
+
+      {/* Shop-floor kiosk (full screen on a station login; operators sign in by badge/PIN) */}
+      <Route path={ROUTES.production.kiosk} element={<ProductionKioskPage />} />
+
       {/* All authenticated routes share the AppLayout */}
       <Route element={<AppLayout />}>
         {/* Root redirect to dashboard */}
@@ -174,6 +189,10 @@ function Router() {
         <Route path="/production/jobs/:jobId" element={<ProductionJobDetailPage />} />
         <Route path="/jobs/:id" element={<JobDetail />} />
 
+        {/* Reports */}
+        <Route path={ROUTES.reports.root} element={<Navigate to={ROUTES.reports.jobProfitability} replace />} />
+        <Route path={ROUTES.reports.jobProfitability} element={<JobProfitabilityReportPage />} />
+
         {/* Product Catalog (standalone) */}
         <Route path="/products" element={<ProductsPage />} />
 
@@ -193,6 +212,8 @@ function Router() {
           <Route path="products" element={<ProductsPage />} />
           <Route path="product-types" element={<ProductTypesSettings />} />
           <Route path="pricing-formulas" element={<PricingFormulasSettings />} />
+          <Route path="pricebook" element={<PricebookSettings />} />
+          <Route path="promotions" element={<PromotionsSettings />} />
           <Route path="integrations" element={<SettingsIntegrations />} />
           <Route path="email" element={<EmailSettings />} />
           <Route path="production" element={<ProductionSettings />} />
@@ -2,13 +2,15 @@ import { useEffect, useMemo, useState } from "react";
 
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Download, FileText, ExternalLink, ChevronLeft, ChevronRight } from "lucide-react";
+import { Download, FileText, ExternalLink, ChevronLeft, ChevronRight, PenLine } from "lucide-react";
 import { getAttachmentDisplayName, isPdfAttachment } from "@/lib/attachments";
 import { AttachmentPreviewMeta } from "@/components/AttachmentPreviewMeta";
 import { downloadFileFromUrl } from "@/lib/downloadFile";
 import { buildPdfViewUrl, buildPdfDownloadUrl, isPdfFile, checkPdfUrlReachable } from "@/lib/pdfUrls";
 import { getThumbSrc } from "@/lib/getThumbSrc";
 import { cn } from "@/lib/utils";
+import AttachmentMarkup from "@/components/annotations/AttachmentMarkup";
+import type { AnnotationTarget } from "@/hooks/useAttachmentAnnotations";
 
 type AttachmentPage = {
   id: string;
@@ -39,6 +41,8 @@ type AttachmentData = {
   objectPath?: string | null;
   pageCount?: number | null;
   pages?: AttachmentPage[];
+  /** Line item files may be asset-pipeline links rather than attachment rows */
+  source?: 'attachment' | 'asset';
 };
 
 interface AttachmentViewerDialogProps {
@@ -53,6 +57,8 @@ interface AttachmentViewerDialogProps {
   onDownload?: (attachment: AttachmentData) => void;
   /** Hide bottom thumbnail filmstrip (default: true for list modal integration) */
   hideFilmstrip?: boolean;
+  /** Enables the Markup tool; tells which attachment table the file id belongs to */
+  annotationParent?: 'order' | 'quote';
 }
 
 /**
@@ -70,11 +76,13 @@ export function AttachmentViewerDialog({
   open, 
   onOpenChange,
   onDownload,
-  hideFilmstrip = true
+  hideFilmstrip = true,
+  annotationParent,
 }: AttachmentViewerDialogProps) {
   const isDev = import.meta.env.DEV;
   const [showFallback, setShowFallback] = useState(false);
   const [urlReachable, setUrlReachable] = useState<boolean | null>(null);
+  const [markupMode, setMarkupMode] = useState(false);
   
   // Gallery mode state
   const isGalleryMode = !!attachments && attachments.length > 0;
@@ -176,6 +184,7 @@ export function AttachmentViewerDialog({
   useEffect(() => {
     setShowFallback(false);
     setUrlReachable(null);
+    setMarkupMode(false);
   }, [isGalleryMode ? attachments?.[selectedIndex]?.id : singleAttachment?.id, open]);
   
   // Derive current attachment from gallery or single mode
@@ -226,6 +235,19 @@ export function AttachmentViewerDialog({
   
   const imageViewUrl = isImage ? (attachment.previewUrl ?? attachment.originalUrl ?? null) : null;
   
+  // Markup works on raster previews: the image itself, or one generated preview per PDF page
+  const markupTarget: AnnotationTarget | null = annotationParent && (isImage || isPdf)
+    ? {
+        type: attachment.source === 'asset' ? 'asset' : annotationParent === 'order' ? 'order_attachment' : 'quote_attachment',
+        id: attachment.id,
+      }
+    : null;
+  const markupPageUrls: Array<string | null> = isPdf
+    ? (attachment.pages && attachment.pages.length > 0
+        ? [...attachment.pages].sort((a, b) => a.pageIndex - b.pageIndex).map((p) => p.previewUrl ?? p.thumbUrl ?? null)
+        : [attachment.previewUrl ?? null])
+    : [imageViewUrl];
+
   // Fallback download URL for non-PDFs
   const genericDownloadUrl = !isPdf ? (attachment.originalUrl ?? null) : null;
 
@@ -269,7 +291,15 @@ export function AttachmentViewerDialog({
 
         <div className="flex-1 overflow-hidden space-y-4">
           {/* Gallery Navigation layout using 3-column grid to avoid padding stealing stage width */}
-          {isGalleryMode && (canGoPrev || canGoNext) ? (
+          {markupTarget && markupMode ? (
+            <AttachmentMarkup
+              key={markupTarget.id}
+              target={markupTarget}
+              fileName={fileName}
+              pageImageUrls={markupPageUrls}
+              allowCustomerVisibility={markupTarget.type === 'order_attachment'}
+            />
+          ) : isGalleryMode && (canGoPrev || canGoNext) ? (
             <div className="">
               {/* Images: standard img tag */}
               {imageViewUrl && isImage ? (
@@ -635,6 +665,13 @@ export function AttachmentViewerDialog({
               )}
             </div>
             
+            {markupTarget && (
+              <Button variant={markupMode ? "default" : "outline"} onClick={() => setMarkupMode((m) => !m)}>
+                <PenLine className="w-4 h-4 mr-2" />
+                {markupMode ? "Close markup" : "Markup"}
+              </Button>
+            )}
+
             {(pdfDownloadUrl || genericDownloadUrl) && (
               <div className="flex flex-col items-end gap-1 shrink-0">
                 <Button onClick={handleDownloadClick} variant="outline">
@@ -17,6 +17,7 @@ import { fileToBase64 } from "@/lib/uploads/fileToBase64";
 import { LargeFileLocalDevWarningDialog } from "@/components/LargeFileLocalDevWarningDialog";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import PrepressStatusBadge from "@/components/prepress/PrepressStatusBadge";
 
 type StorageTarget = "supabase" | "local_dev";
 
@@ -71,6 +72,14 @@ type LineItemAttachment = {
   // PDF multi-page support
   pageCount?: number | null;
   pages?: AttachmentPage[];
+  // Automatic preflight (order line item artwork, migration 0046)
+  prepressJobId?: string | null;
+  prepressStatus?: 'queued' | 'succeeded' | 'failed' | null;
+  prepressSummary?: {
+    score: number;
+    counts: { BLOCKER: number; WARNING: number; INFO: number };
+    pageCount: number;
+  } | null;
 };
 
 interface LineItemAttachmentsPanelProps {
@@ -951,6 +960,11 @@ export function LineItemAttachmentsPanel({
                               Pages: {pageCount}
                             </span>
                           )}
+                          <PrepressStatusBadge
+                            jobId={file.prepressJobId}
+                            status={file.prepressStatus}
+                            summary={file.prepressSummary}
+                          />
                         </div>
                         {isPdf && pageCount !== null && (
                           <span className="text-[10px] text-muted-foreground">
@@ -1086,6 +1100,7 @@ export function LineItemAttachmentsPanel({
 
       <AttachmentViewerDialog
         attachment={previewFile as any}
+        annotationParent={parentType}
         open={!!previewFile}
         onOpenChange={(open) => {
           if (!open) setPreviewFile(null);
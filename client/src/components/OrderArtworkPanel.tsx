@@ -532,6 +532,7 @@ export function OrderArtworkPanel({ orderId, isAdminOrOwner }: OrderArtworkPanel
 
       <AttachmentViewerDialog
         attachment={viewerFile as any}
+        annotationParent="order"
         open={viewerOpen}
         onOpenChange={(open) => {
           setViewerOpen(open);
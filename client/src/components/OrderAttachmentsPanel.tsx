@@ -483,6 +483,7 @@ export function OrderAttachmentsPanel({ orderId, locked = false }: { orderId: st
       <AttachmentViewerDialog
         attachments={viewerAttachments as any}
         initialIndex={viewerInitialIndex}
+        annotationParent="order"
         open={viewerOpen}
         onOpenChange={(open) => {
           setViewerOpen(open);
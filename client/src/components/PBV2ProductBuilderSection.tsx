@@ -49,7 +49,7 @@ type Pbv2TreeVersion = {
   id: string;
   organizationId: string;
   productId: string;
-  status: "DRAFT" | "ACTIVE" | "DEPRECATED" | "ARCHIVED";
+  status: "DRAFT" | "SCHEDULED" | "ACTIVE" | "DEPRECATED" | "ARCHIVED";
   schemaVersion: number;
   treeJson: unknown;
   publishedAt: string | null;
@@ -970,6 +970,7 @@ export default function PBV2ProductBuilderSection({
       inputBySelectionKey: {},
       computeByNodeId: {},
       envKeys: new Set<string>(["widthIn", "heightIn", "quantity", "sqft", "perimeterIn"]),
+      lookupTablesByKey: {},
     };
   }, []);
 
@@ -14,9 +14,9 @@ import { useEffect, useMemo, useState, useRef } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { usePricebookValues } from "@/hooks/usePricebook";
 import { DEFAULT_VALIDATE_OPTS, validateTreeForPublish } from "@shared/pbv2/validator";
 import { stringifyPbv2TreeJson } from "@shared/pbv2/starterTree";
-import { buildSymbolTable } from "@shared/pbv2/symbolTable";
 import { pbv2ToPricingAddons, pbv2ToWeightTotal } from "@shared/pbv2/pricingAdapter";
 import type { Finding } from "@shared/pbv2/findings";
 import type { ValidationResult } from "@shared/pbv2/validator/types";
@@ -27,7 +27,7 @@ import type { ValidationResult } from "@shared/pbv2/validator/types";
  * - Tree status must be DRAFT (allows any status during editing)
  * - Other publish-gate checks
  */
-function validateForEdit(tree: any): ValidationResult {
+function validateForEdit(tree: any, pricebookKeys?: readonly string[]): ValidationResult {
   if (!tree || typeof tree !== 'object') {
     return {
       ok: false,
@@ -39,7 +39,7 @@ function validateForEdit(tree: any): ValidationResult {
   }
 
   // Use publish validator but filter out publish-only errors
-  const publishResult = validateTreeForPublish(tree, DEFAULT_VALIDATE_OPTS);
+  const publishResult = validateTreeForPublish(tree, { ...DEFAULT_VALIDATE_OPTS, pricebookKeys });
   
   // Filter out publish-only validation errors
   const publishOnlyCodes = [
@@ -175,7 +175,7 @@ type Pbv2TreeVersion = {
   id: string;
   organizationId: string;
   productId: string;
-  status: "DRAFT" | "ACTIVE" | "DEPRECATED" | "ARCHIVED";
+  status: "DRAFT" | "SCHEDULED" | "ACTIVE" | "DEPRECATED" | "ARCHIVED";
   schemaVersion: number;
   treeJson: unknown;
   publishedAt: string | null;
@@ -255,6 +255,10 @@ export default function PBV2ProductBuilderSectionV2({
   const { toast } = useToast();
   const { isAdmin: isAdminUser } = useAuth();
   const queryClient = useQueryClient();
+  // Org pricebook: resolves pricebookRef in the preview and flags unknown keys in validation.
+  const { data: pricebookData } = usePricebookValues();
+  const pricebookKeys = pricebookData?.keys;
+  const pricebookValues = pricebookData?.values;
 
   // Core state
   const [localTreeJson, setLocalTreeJson] = useState<unknown>(null);
@@ -621,11 +625,11 @@ export default function PBV2ProductBuilderSectionV2({
     const normalizedTree = normalizeTreeJson(localTreeJson);
     
     try {
-      return validateForEdit(normalizedTree as any);
+      return validateForEdit(normalizedTree as any, pricebookKeys);
     } catch (err) {
       return { ok: false, errors: [{ severity: 'ERROR', message: String(err), code: 'VALIDATION_ERROR', path: 'tree' }], warnings: [], findings: [] };
     }
-  }, [localTreeJson]);
+  }, [localTreeJson, pricebookKeys]);
 
   useEffect(() => {
     setFindings(validationResult.findings as any);
@@ -662,8 +666,6 @@ export default function PBV2ProductBuilderSectionV2({
     if (!localTreeJson) return null;
 
     try {
-      const symbolTable = buildSymbolTable(localTreeJson as any, { pathBase: "tree" });
-      
       // Simplified preview environment
       const previewEnv = {
         widthIn: 24,
@@ -675,7 +677,7 @@ export default function PBV2ProductBuilderSectionV2({
 
       const selections = {}; // Empty selections for now
 
-      const addOns = pbv2ToPricingAddons(localTreeJson as any, symbolTable.table, previewEnv, selections);
+      const addOns = pbv2ToPricingAddons(localTreeJson as any, selections, previewEnv, { pricebook: pricebookValues });
       
       return {
         addOnCents: addOns.addOnCents,
@@ -688,7 +690,7 @@ export default function PBV2ProductBuilderSectionV2({
       console.error('Pricing preview error:', err);
       return null;
     }
-  }, [localTreeJson]);
+  }, [localTreeJson, pricebookValues]);
 
   // Compute weight preview
   const weightPreview = useMemo(() => {
@@ -1179,7 +1181,7 @@ export default function PBV2ProductBuilderSectionV2({
     }
 
     // Run STRICT publish validation (not edit validation)
-    const publishValidation = validateTreeForPublish(localTreeJson as any, DEFAULT_VALIDATE_OPTS);
+    const publishValidation = validateTreeForPublish(localTreeJson as any, { ...DEFAULT_VALIDATE_OPTS, pricebookKeys });
 
     // Check for errors
     if (publishValidation.errors.length > 0) {
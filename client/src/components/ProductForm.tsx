@@ -416,6 +416,48 @@ export const ProductForm = ({
                 </FormItem>
               )}
             />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="prepressBleedIn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-slate-400">Required bleed (in)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.0625"
+                        placeholder="None"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : e.target.value)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="prepressSafeZoneIn"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-xs text-slate-400">Safe zone (in)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.0625"
+                        placeholder="None"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value === "" ? null : e.target.value)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
           </div>
         </div>
         </div>
@@ -470,6 +470,7 @@ export function QuoteAttachmentsPanel({ quoteId, locked = false }: { quoteId: st
 
       <AttachmentViewerDialog
         attachment={viewerAttachment as any}
+        annotationParent="quote"
         open={viewerOpen}
         onOpenChange={(open) => {
           setViewerOpen(open);
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, Tag, X } from "lucide-react";
+import {
+  useApplyQuotePromotion,
+  useRemoveQuotePromotion,
+  type DiscountLine,
+  type QuoteDiscountLines,
+} from "@/hooks/usePromotions";
+
+type QuotePromotionsRowProps = {
+  quoteId: string | null;
+  discountLines: DiscountLine[];
+  removed?: QuoteDiscountLines["removed"];
+  readOnly?: boolean;
+  scope?: "staff" | "portal";
+};
+
+/**
+ * Promo code entry plus the applied discount lines. Amounts come from the server, which
+ * re-checks eligibility whenever the quote's lines change.
+ */
+export function QuotePromotionsRow({ quoteId, discountLines, removed = [], readOnly = false, scope = "staff" }: QuotePromotionsRowProps) {
+  const [code, setCode] = useState("");
+  const applyMutation = useApplyQuotePromotion(quoteId ?? "", scope);
+  const removeMutation = useRemoveQuotePromotion(quoteId ?? "", scope);
+
+  const handleApply = async () => {
+    const trimmed = code.trim();
+    if (!trimmed || !quoteId) return;
+    try {
+      await applyMutation.mutateAsync(trimmed);
+      setCode("");
+    } catch {
+      // toast handled by the mutation
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {discountLines.map((line) => (
+        <div key={line.id} className="flex items-center justify-between text-sm">
+          <span className="flex items-center gap-1.5 text-muted-foreground">
+            <Tag className="h-3.5 w-3.5" />
+            {line.description}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="font-mono text-green-600">-${(line.amountCents / 100).toFixed(2)}</span>
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                disabled={removeMutation.isPending}
+                onClick={() => removeMutation.mutate(line.id)}
+                aria-label={`Remove ${line.code ?? "promotion"}`}
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            )}
+          </span>
+        </div>
+      ))}
+
+      {removed.map((r, idx) => (
+        <p key={`${r.code}-${idx}`} className="text-xs text-amber-600">
+          {r.code ? `${r.code} removed: ` : "Promotion removed: "}
+          {r.reason}
+        </p>
+      ))}
+
+      {!readOnly && (
+        quoteId ? (
+          <div className="flex items-center gap-2">
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleApply();
+                }
+              }}
+              placeholder="Promo code"
+              className="h-8 font-mono uppercase"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8"
+              disabled={!code.trim() || applyMutation.isPending}
+              onClick={handleApply}
+            >
+              {applyMutation.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+              Apply
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Save the quote to apply a promo code.</p>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,395 @@
+import { useRef, useState, type PointerEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Check, ChevronLeft, ChevronRight, Download, MapPin, Pencil, RotateCcw, Square, Trash2 } from "lucide-react";
+import {
+  annotationExportUrl,
+  useAnnotationMutations,
+  useAttachmentAnnotations,
+  type AnnotationGeometry,
+  type AnnotationKind,
+  type AnnotationTarget,
+  type AttachmentAnnotation,
+} from "@/hooks/useAttachmentAnnotations";
+import { downloadFileFromUrl } from "@/lib/downloadFile";
+import { cn } from "@/lib/utils";
+
+type AttachmentMarkupProps = {
+  target: AnnotationTarget;
+  fileName: string;
+  /** Raster preview per page (index = 0-based page); null when a page has no preview yet */
+  pageImageUrls: Array<string | null>;
+  /** Offer the "customer can see" switch (proof files) */
+  allowCustomerVisibility?: boolean;
+};
+
+type Draft = { kind: AnnotationKind; geometry: AnnotationGeometry };
+
+const COLORS = ["#ef4444", "#f59e0b", "#2563eb", "#16a34a"];
+
+// Shapes smaller than this (normalized) are treated as a stray click
+const MIN_SIZE = 0.01;
+
+function clamp01(v: number) {
+  return Math.min(1, Math.max(0, v));
+}
+
+function Shape({ kind, geometry, color, faded }: Draft & { color: string; faded?: boolean }) {
+  const opacity = faded ? 0.4 : 1;
+  if (kind === "freehand" && "points" in geometry) {
+    return (
+      <polyline
+        points={geometry.points.map(([x, y]) => `${x * 100},${y * 100}`).join(" ")}
+        fill="none"
+        stroke={color}
+        strokeOpacity={opacity}
+        strokeWidth={2}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+        vectorEffect="non-scaling-stroke"
+      />
+    );
+  }
+  if (kind === "rect" && "w" in geometry) {
+    return (
+      <rect
+        x={geometry.x * 100}
+        y={geometry.y * 100}
+        width={geometry.w * 100}
+        height={geometry.h * 100}
+        fill={color}
+        fillOpacity={0.08 * opacity}
+        stroke={color}
+        strokeOpacity={opacity}
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    );
+  }
+  return null;
+}
+
+function anchorOf(geometry: AnnotationGeometry) {
+  if ("points" in geometry) {
+    return { x: Math.min(...geometry.points.map((p) => p[0])), y: Math.min(...geometry.points.map((p) => p[1])) };
+  }
+  return { x: geometry.x, y: geometry.y };
+}
+
+/**
+ * AttachmentMarkup - Pin / rectangle / freehand markup on attachment pages with comment threads.
+ * Geometry is stored normalized (0..1) against the page preview so it survives any zoom.
+ */
+export default function AttachmentMarkup({ target, fileName, pageImageUrls, allowCustomerVisibility }: AttachmentMarkupProps) {
+  const { data: annotations = [] } = useAttachmentAnnotations(target);
+  const { create, update, remove, reply } = useAnnotationMutations(target);
+
+  const [pageIndex, setPageIndex] = useState(0);
+  const [tool, setTool] = useState<AnnotationKind>("pin");
+  const [color, setColor] = useState(COLORS[0]);
+  const [drawing, setDrawing] = useState<Draft | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [draftBody, setDraftBody] = useState("");
+  const [draftVisible, setDraftVisible] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+  const startRef = useRef<{ x: number; y: number } | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  const pageCount = Math.max(1, pageImageUrls.length);
+  const imageUrl = pageImageUrls[pageIndex] ?? null;
+  const pageAnnotations = annotations.filter((a) => a.pageIndex === pageIndex);
+  // Numbering matches the flattened PDF export: by page, then creation order
+  const numberOf = new Map(annotations.map((a, i) => [a.id, i + 1]));
+
+  const pointFromEvent = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = stageRef.current!.getBoundingClientRect();
+    return { x: clamp01((e.clientX - rect.left) / rect.width), y: clamp01((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    if (draft) return;
+    const p = pointFromEvent(e);
+    if (tool === "pin") {
+      setDraft({ kind: "pin", geometry: p });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    startRef.current = p;
+    setDrawing(
+      tool === "rect"
+        ? { kind: "rect", geometry: { x: p.x, y: p.y, w: 0, h: 0 } }
+        : { kind: "freehand", geometry: { points: [[p.x, p.y]] } }
+    );
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const start = startRef.current;
+    if (!drawing || !start) return;
+    const p = pointFromEvent(e);
+    if (drawing.kind === "rect") {
+      setDrawing({
+        kind: "rect",
+        geometry: { x: Math.min(start.x, p.x), y: Math.min(start.y, p.y), w: Math.abs(p.x - start.x), h: Math.abs(p.y - start.y) },
+      });
+    } else if ("points" in drawing.geometry) {
+      setDrawing({ kind: "freehand", geometry: { points: [...drawing.geometry.points, [p.x, p.y]] } });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const shape = drawing;
+    startRef.current = null;
+    setDrawing(null);
+    if (!shape) return;
+    const g = shape.geometry;
+    const bigEnough =
+      "w" in g
+        ? g.w > MIN_SIZE && g.h > MIN_SIZE
+        : "points" in g && g.points.length >= 2 &&
+          Math.max(...g.points.map((p) => p[0])) - Math.min(...g.points.map((p) => p[0])) +
+            Math.max(...g.points.map((p) => p[1])) - Math.min(...g.points.map((p) => p[1])) > MIN_SIZE;
+    if (bigEnough) setDraft(shape);
+  };
+
+  const saveDraft = async () => {
+    if (!draft || !draftBody.trim()) return;
+    const created = await create
+      .mutateAsync({ pageIndex, ...draft, color, visibleToCustomer: draftVisible, body: draftBody.trim() })
+      .catch(() => null);
+    if (!created) return;
+    setDraft(null);
+    setDraftBody("");
+    setSelectedId(created.id);
+  };
+
+  const sendReply = async (annotation: AttachmentAnnotation) => {
+    if (!replyBody.trim()) return;
+    const ok = await reply.mutateAsync({ id: annotation.id, body: replyBody.trim() }).then(() => true, () => false);
+    if (ok) setReplyBody("");
+  };
+
+  const goToPage = (index: number) => {
+    setPageIndex(index);
+    setDraft(null);
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="grid min-h-0 gap-3 md:grid-cols-[1fr_300px]">
+      <div className="min-w-0 space-y-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup type="single" size="sm" value={tool} onValueChange={(v) => v && setTool(v as AnnotationKind)}>
+            <ToggleGroupItem value="pin" title="Pin">
+              <MapPin className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="rect" title="Rectangle">
+              <Square className="h-4 w-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="freehand" title="Freehand">
+              <Pencil className="h-4 w-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <div className="flex items-center gap-1">
+            {COLORS.map((c) => (
+              <button
+                key={c}
+                type="button"
+                title={c}
+                onClick={() => setColor(c)}
+                className={cn("h-5 w-5 rounded-full border-2", color === c ? "border-foreground" : "border-transparent")}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+          </div>
+          {pageCount > 1 && (
+            <div className="flex items-center gap-1 text-sm">
+              <Button type="button" variant="ghost" size="icon" className="h-7 w-7" disabled={pageIndex === 0} onClick={() => goToPage(pageIndex - 1)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              Page {pageIndex + 1} of {pageCount}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={pageIndex >= pageCount - 1}
+                onClick={() => goToPage(pageIndex + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="ml-auto"
+            disabled={annotations.length === 0}
+            onClick={() => void downloadFileFromUrl(annotationExportUrl(target), `${fileName.replace(/\.[^.]+$/, "")}-markup.pdf`)}
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Export PDF
+          </Button>
+        </div>
+
+        <div className="bg-muted/30 rounded-lg p-2 max-h-[calc(90vh-260px)] overflow-auto">
+          {imageUrl ? (
+            <div
+              ref={stageRef}
+              className="relative mx-auto w-fit cursor-crosshair touch-none select-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+            >
+              <img src={imageUrl} alt={fileName} className="block max-h-[calc(90vh-280px)] w-auto" draggable={false} />
+              <svg className="pointer-events-none absolute inset-0 h-full w-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+                {pageAnnotations.map((a) => (
+                  <Shape key={a.id} kind={a.kind} geometry={a.geometry} color={a.color} faded={!!a.resolvedAt} />
+                ))}
+                {drawing && <Shape {...drawing} color={color} />}
+                {draft && <Shape {...draft} color={color} />}
+              </svg>
+              {pageAnnotations.map((a) => {
+                const at = anchorOf(a.geometry);
+                return (
+                  <button
+                    key={a.id}
+                    type="button"
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => setSelectedId(a.id)}
+                    className={cn(
+                      "absolute flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-[10px] font-semibold text-white",
+                      a.kind === "pin" ? "-translate-x-1/2 -translate-y-1/2" : "-translate-y-full",
+                      selectedId === a.id && "ring-2 ring-foreground",
+                      a.resolvedAt && "opacity-40"
+                    )}
+                    style={{ left: `${at.x * 100}%`, top: `${at.y * 100}%`, backgroundColor: a.color }}
+                  >
+                    {numberOf.get(a.id)}
+                  </button>
+                );
+              })}
+              {draft?.kind === "pin" && "x" in draft.geometry && (
+                <div
+                  className="absolute h-4 w-4 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white"
+                  style={{ left: `${draft.geometry.x * 100}%`, top: `${draft.geometry.y * 100}%`, backgroundColor: color }}
+                />
+              )}
+            </div>
+          ) : (
+            <div className="py-12 text-center text-sm text-muted-foreground">
+              No preview for this page yet. Markup is available once the preview is generated.
+            </div>
+          )}
+        </div>
+      </div>
+
+      <ScrollArea className="max-h-[calc(90vh-240px)] pr-2">
+        <div className="space-y-3 text-sm">
+          {draft && (
+            <div className="space-y-2 rounded-md border p-2">
+              <div className="text-xs font-medium">New {draft.kind === "freehand" ? "drawing" : draft.kind}</div>
+              <Textarea
+                autoFocus
+                rows={3}
+                value={draftBody}
+                placeholder="Comment for the designer…"
+                onChange={(e) => setDraftBody(e.target.value)}
+              />
+              {allowCustomerVisibility && (
+                <div className="flex items-center gap-2">
+                  <Switch id="markup-customer-visible" checked={draftVisible} onCheckedChange={setDraftVisible} />
+                  <Label htmlFor="markup-customer-visible" className="text-xs">Show to customer on proof</Label>
+                </div>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button type="button" size="sm" disabled={!draftBody.trim() || create.isPending} onClick={() => void saveDraft()}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {pageAnnotations.length === 0 && !draft && (
+            <p className="text-xs text-muted-foreground">Click or drag on the page to add markup.</p>
+          )}
+
+          {pageAnnotations.map((a) => (
+            <div
+              key={a.id}
+              className={cn("space-y-2 rounded-md border p-2", selectedId === a.id && "border-foreground")}
+              onClick={() => setSelectedId(a.id)}
+            >
+              <div className="flex items-center gap-2">
+                <span
+                  className="flex h-5 min-w-5 items-center justify-center rounded-full px-1 text-[10px] font-semibold text-white"
+                  style={{ backgroundColor: a.color }}
+                >
+                  {numberOf.get(a.id)}
+                </span>
+                <span className={cn("flex-1 text-xs", a.resolvedAt && "line-through text-muted-foreground")}>
+                  {a.createdByName ?? "Unknown"}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title={a.resolvedAt ? "Reopen" : "Resolve"}
+                  onClick={() => update.mutate({ id: a.id, data: { resolved: !a.resolvedAt } })}
+                >
+                  {a.resolvedAt ? <RotateCcw className="h-3 w-3" /> : <Check className="h-3 w-3" />}
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-6 w-6" title="Delete" onClick={() => remove.mutate(a.id)}>
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              {a.comments.map((c) => (
+                <div key={c.id}>
+                  <div className="text-[10px] text-muted-foreground">
+                    {c.authorName ?? "Unknown"} • {new Date(c.createdAt).toLocaleString()}
+                  </div>
+                  <div className="whitespace-pre-wrap">{c.body}</div>
+                </div>
+              ))}
+              {allowCustomerVisibility && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id={`markup-visible-${a.id}`}
+                    checked={a.visibleToCustomer}
+                    onCheckedChange={(checked) => update.mutate({ id: a.id, data: { visibleToCustomer: checked } })}
+                  />
+                  <Label htmlFor={`markup-visible-${a.id}`} className="text-xs">Show to customer on proof</Label>
+                </div>
+              )}
+              {selectedId === a.id && (
+                <div className="flex gap-2">
+                  <Textarea rows={1} value={replyBody} placeholder="Reply…" onChange={(e) => setReplyBody(e.target.value)} />
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={!replyBody.trim() || reply.isPending}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      void sendReply(a);
+                    }}
+                  >
+                    Reply
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
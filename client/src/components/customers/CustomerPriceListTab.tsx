@@ -0,0 +1,341 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Pencil, Plus, Tags, Trash2 } from "lucide-react";
+import {
+  useCustomerPriceRules,
+  useCreateCustomerPriceRule,
+  useUpdateCustomerPriceRule,
+  useDeleteCustomerPriceRule,
+  type CustomerPriceRule,
+  type CustomerPriceRuleType,
+} from "@/hooks/useCustomerPriceRules";
+import { useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Product } from "@shared/schema";
+
+const RULE_TYPE_LABELS: Record<CustomerPriceRuleType, string> = {
+  FIXED_UNIT: "Fixed unit price",
+  PER_SQFT: "Per sq ft rate",
+  PERCENT_OFF: "Percent off",
+};
+
+type FormState = {
+  productId: string;
+  ruleType: CustomerPriceRuleType;
+  value: string;
+  minQuantity: string;
+  startsAt: string;
+  endsAt: string;
+  notes: string;
+};
+
+const emptyForm: FormState = {
+  productId: "",
+  ruleType: "FIXED_UNIT",
+  value: "",
+  minQuantity: "1",
+  startsAt: "",
+  endsAt: "",
+  notes: "",
+};
+
+function formatRuleValue(rule: Pick<CustomerPriceRule, "ruleType" | "value">): string {
+  const n = Number(rule.value);
+  if (!Number.isFinite(n)) return "—";
+  if (rule.ruleType === "PERCENT_OFF") return `${n}% off`;
+  return rule.ruleType === "PER_SQFT" ? `$${n.toFixed(2)}/sq ft` : `$${n.toFixed(2)}/ea`;
+}
+
+/** date inputs want "YYYY-MM-DD" in local time. */
+function toDateInput(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : format(d, "yyyy-MM-dd");
+}
+
+function getRuleStatus(rule: CustomerPriceRule, now: number): "active" | "scheduled" | "expired" {
+  if (Date.parse(rule.startsAt) > now) return "scheduled";
+  if (rule.endsAt && Date.parse(rule.endsAt) <= now) return "expired";
+  return "active";
+}
+
+/**
+ * Customer price list (contract pricing). Rules here are applied by the quote calculator
+ * before the customer's tier discount/markup.
+ */
+export function CustomerPriceListTab({ customerId }: { customerId: string }) {
+  const { isAdmin } = useAuth();
+  const { data: rules = [], isLoading } = useCustomerPriceRules(customerId);
+  const { data: products = [] } = useQuery<Product[]>({ queryKey: ["/api/products"] });
+  const createMutation = useCreateCustomerPriceRule(customerId);
+  const updateMutation = useUpdateCustomerPriceRule(customerId);
+  const deleteMutation = useDeleteCustomerPriceRule(customerId);
+
+  const [editing, setEditing] = useState<CustomerPriceRule | "new" | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm);
+
+  const now = Date.now();
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setEditing("new");
+  };
+
+  const openEdit = (rule: CustomerPriceRule) => {
+    setForm({
+      productId: rule.productId,
+      ruleType: rule.ruleType,
+      value: String(Number(rule.value)),
+      minQuantity: String(rule.minQuantity),
+      startsAt: toDateInput(rule.startsAt),
+      endsAt: rule.endsAt ? toDateInput(new Date(Date.parse(rule.endsAt) - 1).toISOString()) : "",
+      notes: rule.notes ?? "",
+    });
+    setEditing(rule);
+  };
+
+  const handleSave = async () => {
+    const payload = {
+      ruleType: form.ruleType,
+      value: Number(form.value),
+      minQuantity: Number.parseInt(form.minQuantity || "1", 10) || 1,
+      // Dates are whole days in local time; the end date is inclusive.
+      startsAt: form.startsAt ? new Date(`${form.startsAt}T00:00:00`).toISOString() : undefined,
+      endsAt: form.endsAt
+        ? new Date(new Date(`${form.endsAt}T00:00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString()
+        : null,
+      notes: form.notes.trim() || null,
+    };
+
+    if (editing === "new") {
+      await createMutation.mutateAsync({ productId: form.productId, ...payload });
+    } else if (editing) {
+      await updateMutation.mutateAsync({ id: editing.id, data: payload });
+    }
+    setEditing(null);
+  };
+
+  const canSave =
+    !!form.productId && form.value.trim() !== "" && Number.isFinite(Number(form.value)) && Number(form.value) >= 0;
+
+  if (isLoading) {
+    return (
+      <div className="p-8 text-center text-titan-text-secondary">
+        Loading price list...
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-titan-lg font-medium text-titan-text-primary">Contract Pricing</h3>
+          <p className="text-titan-sm text-titan-text-secondary">
+            Negotiated prices applied to quotes before this customer's tier discount or markup.
+          </p>
+        </div>
+        {isAdmin && (
+          <Button size="sm" onClick={openCreate}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Rule
+          </Button>
+        )}
+      </div>
+
+      {rules.length === 0 ? (
+        <div className="py-12 text-center text-titan-text-secondary">
+          <Tags className="w-10 h-10 mx-auto mb-3" />
+          No contract prices for this customer
+        </div>
+      ) : (
+        <div className="bg-titan-bg-card border border-titan-border-subtle rounded-titan-xl overflow-hidden">
+          <table className="w-full">
+            <thead>
+              <tr className="bg-titan-bg-card-elevated border-b border-titan-border-subtle">
+                {["Product", "Price", "Min Qty", "Starts", "Ends", "Status", ""].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-4 py-3 text-left text-titan-xs font-semibold text-titan-text-muted uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => {
+                const status = getRuleStatus(rule, now);
+                return (
+                  <tr key={rule.id} className="border-b border-titan-border-subtle last:border-b-0">
+                    <td className="px-4 py-3 text-titan-sm text-titan-text-primary">
+                      {rule.productName ?? rule.productId}
+                      {rule.notes && <div className="text-titan-xs text-titan-text-muted">{rule.notes}</div>}
+                    </td>
+                    <td className="px-4 py-3 text-titan-sm font-mono text-titan-text-primary">{formatRuleValue(rule)}</td>
+                    <td className="px-4 py-3 text-titan-sm text-titan-text-secondary">{rule.minQuantity}</td>
+                    <td className="px-4 py-3 text-titan-sm text-titan-text-secondary">
+                      {format(new Date(rule.startsAt), "MMM d, yyyy")}
+                    </td>
+                    <td className="px-4 py-3 text-titan-sm text-titan-text-secondary">
+                      {/* Stored end is exclusive (midnight after the last day) */}
+                      {rule.endsAt ? format(new Date(Date.parse(rule.endsAt) - 1), "MMM d, yyyy") : "Open"}
+                    </td>
+                    <td className="px-4 py-3">
+                      <Badge variant={status === "active" ? "default" : status === "scheduled" ? "secondary" : "outline"}>
+                        {status === "active" ? "Active" : status === "scheduled" ? "Scheduled" : "Expired"}
+                      </Badge>
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {isAdmin && (
+                        <>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(rule)}>
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => {
+                              if (confirm("Delete this price rule?")) deleteMutation.mutate(rule.id);
+                            }}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Contract Price" : "Edit Contract Price"}</DialogTitle>
+            <DialogDescription>
+              When several rules match, the one with the highest minimum quantity wins, then the most recent start date.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label>Product</Label>
+              <Select
+                value={form.productId}
+                onValueChange={(productId) => setForm((f) => ({ ...f, productId }))}
+                disabled={editing !== "new"}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>
+                      {p.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label>Rule</Label>
+                <Select
+                  value={form.ruleType}
+                  onValueChange={(ruleType) => setForm((f) => ({ ...f, ruleType: ruleType as CustomerPriceRuleType }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RULE_TYPE_LABELS) as CustomerPriceRuleType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {RULE_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>{form.ruleType === "PERCENT_OFF" ? "Percent" : "Price ($)"}</Label>
+                <Input
+                  inputMode="decimal"
+                  value={form.value}
+                  onChange={(e) => setForm((f) => ({ ...f, value: e.target.value }))}
+                  placeholder={form.ruleType === "PERCENT_OFF" ? "10" : "0.00"}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1.5">
+                <Label>Min Qty</Label>
+                <Input
+                  inputMode="numeric"
+                  value={form.minQuantity}
+                  onChange={(e) => setForm((f) => ({ ...f, minQuantity: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Starts</Label>
+                <Input type="date" value={form.startsAt} onChange={(e) => setForm((f) => ({ ...f, startsAt: e.target.value }))} />
+              </div>
+              <div className="space-y-1.5">
+                <Label>Ends</Label>
+                <Input type="date" value={form.endsAt} onChange={(e) => setForm((f) => ({ ...f, endsAt: e.target.value }))} />
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Notes</Label>
+              <Textarea
+                rows={2}
+                value={form.notes}
+                onChange={(e) => setForm((f) => ({ ...f, notes: e.target.value }))}
+                placeholder="Contract reference, terms..."
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -107,7 +107,7 @@ export const NAV_CONFIG: NavSectionConfig[] = [
     items: [
       { id: "fulfillment", name: "Fulfillment", icon: Truck, path: "/fulfillment" },
       { id: "shipping", name: "Shipping Labels", icon: Tag, path: "/shipping" },
-      { id: "reports", name: "Reports", icon: BarChart3, path: "/reports" },
+      { id: "reports", name: "Reports", icon: BarChart3, path: ROUTES.reports.root },
     ],
   },
   {
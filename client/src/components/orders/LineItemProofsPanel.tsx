@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ChevronRight, Copy, Loader2, Send } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useLineItemProofs,
+  useResendProof,
+  useSendProof,
+  type ProofStatus,
+  type ProofVersion,
+} from "@/hooks/useProofs";
+import { cn } from "@/lib/utils";
+
+type LineItemProofsPanelProps = {
+  orderId: string;
+  lineItemId: string;
+  readOnly?: boolean;
+};
+
+type ProofCandidate = { id: string; fileName: string; originalFilename: string | null; role: string | null };
+
+const STATUS_BADGES: Record<ProofStatus, { label: string; className: string }> = {
+  pending: { label: "Awaiting approval", className: "bg-amber-100 text-amber-800 border-amber-200" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800 border-green-200" },
+  changes_requested: { label: "Changes requested", className: "bg-red-100 text-red-800 border-red-200" },
+  superseded: { label: "Superseded", className: "bg-muted text-muted-foreground" },
+};
+
+const EVENT_LABELS: Record<string, string> = {
+  created: "Created",
+  sent: "Emailed",
+  viewed: "Opened by customer",
+  approved: "Approved",
+  changes_requested: "Changes requested",
+  superseded: "Superseded",
+};
+
+/**
+ * LineItemProofsPanel - Customer proof versions for an order line item.
+ * Production jobs for the line can't start until the latest version is approved.
+ */
+export default function LineItemProofsPanel({ orderId, lineItemId, readOnly }: LineItemProofsPanelProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: proofs = [], isLoading } = useLineItemProofs(orderId, lineItemId);
+  const sendProof = useSendProof(orderId, lineItemId);
+  const resendProof = useResendProof(orderId, lineItemId);
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [attachmentId, setAttachmentId] = useState("");
+  const [recipientEmail, setRecipientEmail] = useState("");
+  const [message, setMessage] = useState("");
+  const [reviewUrl, setReviewUrl] = useState<string | null>(null);
+
+  const filesApiPath = `/api/orders/${orderId}/line-items/${lineItemId}/files`;
+  const { data: candidates = [] } = useQuery<ProofCandidate[]>({
+    queryKey: [filesApiPath, "proof-candidates"],
+    queryFn: async () => {
+      const response = await fetch(filesApiPath, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to load line item files");
+      const json = await response.json();
+      return Array.isArray(json?.data) ? json.data : [];
+    },
+    enabled: dialogOpen,
+  });
+
+  const latest = proofs.find((p) => p.isLatest) ?? null;
+
+  const handleSend = async () => {
+    const candidate = candidates.find((c) => c.id === attachmentId);
+    if (!candidate) return;
+
+    // Proofs are order files with the 'proof' role; tag the chosen file if needed
+    if (candidate.role !== "proof") {
+      const response = await fetch(`/api/orders/${orderId}/files/${candidate.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ role: "proof" }),
+      });
+      if (!response.ok) {
+        toast({ title: "Error", description: "Failed to mark file as proof", variant: "destructive" });
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: [filesApiPath] });
+    }
+
+    const result = await sendProof
+      .mutateAsync({
+        orderAttachmentId: candidate.id,
+        recipientEmail: recipientEmail.trim() || null,
+        message: message.trim() || null,
+      })
+      .catch(() => null);
+    if (!result) return;
+    setReviewUrl(result.reviewUrl);
+    setDialogOpen(false);
+    setMessage("");
+  };
+
+  const handleResend = async (proof: ProofVersion) => {
+    const result = await resendProof.mutateAsync({ proofId: proof.id }).catch(() => null);
+    if (result) setReviewUrl(result.reviewUrl);
+  };
+
+  const copyReviewUrl = async () => {
+    if (!reviewUrl) return;
+    await navigator.clipboard.writeText(reviewUrl);
+    toast({ title: "Review link copied" });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium">Proofs</div>
+        {!readOnly && (
+          <Button type="button" variant="outline" size="sm" className="h-7" onClick={() => setDialogOpen(true)}>
+            <Send className="h-3 w-3 mr-1" />
+            {latest ? "Send new version" : "Send proof"}
+          </Button>
+        )}
+      </div>
+
+      {reviewUrl && (
+        <div className="flex items-center gap-2">
+          <Input readOnly value={reviewUrl} className="h-7 text-xs" onFocus={(e) => e.currentTarget.select()} />
+          <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={copyReviewUrl}>
+            <Copy className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-xs text-muted-foreground">Loading proofs…</div>
+      ) : proofs.length === 0 ? (
+        <div className="text-xs text-muted-foreground">No proofs sent. Production is not gated on approval.</div>
+      ) : (
+        <div className="space-y-1">
+          {proofs.map((proof) => (
+            <Collapsible key={proof.id} defaultOpen={proof.isLatest}>
+              <div className="flex items-center gap-2 text-sm">
+                <CollapsibleTrigger className="flex min-w-0 flex-1 items-center gap-1 text-left [&[data-state=open]>svg]:rotate-90">
+                  <ChevronRight className="h-3 w-3 shrink-0 transition-transform" />
+                  <span className="font-medium">v{proof.version}</span>
+                  <span className="truncate text-muted-foreground">{proof.fileName}</span>
+                </CollapsibleTrigger>
+                <Badge variant="outline" className={cn("h-4 px-1.5 text-[10px] shrink-0", STATUS_BADGES[proof.status].className)}>
+                  {STATUS_BADGES[proof.status].label}
+                </Badge>
+              </div>
+              <CollapsibleContent className="ml-4 mt-1 space-y-2 text-xs">
+                {proof.decidedAt && (
+                  <div>
+                    Signed by <span className="font-medium">{proof.signerName}</span> on {new Date(proof.decidedAt).toLocaleString()}
+                    {proof.signerIp ? ` from ${proof.signerIp}` : ""}
+                  </div>
+                )}
+                {proof.comments.length > 0 && (
+                  <ol className="list-decimal space-y-1 pl-4">
+                    {proof.comments.map((c) => (
+                      <li key={c.id} className="whitespace-pre-wrap">
+                        {c.body}
+                        {c.annotation && <span className="text-muted-foreground"> (marked area, page {c.annotation.page})</span>}
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                <ul className="space-y-0.5 text-muted-foreground">
+                  {proof.events.map((e) => (
+                    <li key={e.id}>
+                      {new Date(e.createdAt).toLocaleString()} — {EVENT_LABELS[e.type] ?? e.type}
+                      {e.actorName ? ` by ${e.actorName}` : ""}
+                      {e.actorType === "customer" && e.ip ? ` (${e.ip})` : ""}
+                    </li>
+                  ))}
+                </ul>
+                {!readOnly && proof.isLatest && proof.status === "pending" && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 text-xs"
+                    disabled={resendProof.isPending}
+                    onClick={() => void handleResend(proof)}
+                  >
+                    Resend link{proof.recipientEmail ? ` to ${proof.recipientEmail}` : ""}
+                  </Button>
+                )}
+              </CollapsibleContent>
+            </Collapsible>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{latest ? `Send proof v${latest.version + 1}` : "Send proof"}</DialogTitle>
+            <DialogDescription>
+              The customer reviews the file on a secure link and approves it or requests changes.
+              {latest?.status === "pending" ? " The pending version will be superseded." : ""}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label>Proof file</Label>
+              <Select value={attachmentId} onValueChange={setAttachmentId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={candidates.length ? "Choose a file" : "Upload the proof to this line item first"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>
+                      {c.originalFilename || c.fileName}
+                      {c.role === "proof" ? " (proof)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="proof-recipient">Customer email</Label>
+              <Input
+                id="proof-recipient"
+                type="email"
+                value={recipientEmail}
+                placeholder="Defaults to the order contact"
+                onChange={(e) => setRecipientEmail(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="proof-message">Message</Label>
+              <Textarea id="proof-message" rows={3} value={message} onChange={(e) => setMessage(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="button" disabled={!attachmentId || sendProof.isPending} onClick={() => void handleSend()}>
+              {sendProof.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useOrderJobCosting } from "@/hooks/useJobCosting";
+import { cn } from "@/lib/utils";
+import type { JobCostRollup } from "@shared/jobCosting";
+
+function formatMoney(amount: number) {
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatHours(seconds: number) {
+  return `${(seconds / 3600).toFixed(1)} h`;
+}
+
+function CostCells({ cost }: { cost: JobCostRollup }) {
+  return (
+    <>
+      <TableCell className="text-right">{formatMoney(cost.materialCost)}</TableCell>
+      <TableCell className="text-right">
+        {formatMoney(cost.laborCost)}
+        <div className="text-xs text-muted-foreground">{formatHours(cost.laborSeconds)}</div>
+      </TableCell>
+      <TableCell className="text-right">{formatMoney(cost.machineCost)}</TableCell>
+      <TableCell className="text-right">{formatMoney(cost.totalCost)}</TableCell>
+      <TableCell className="text-right">{formatMoney(cost.sellPrice)}</TableCell>
+      <TableCell className={cn("text-right", cost.margin < 0 && "text-destructive")}>
+        {formatMoney(cost.margin)}
+        {cost.marginPercent != null && (
+          <div className="text-xs text-muted-foreground">{cost.marginPercent.toFixed(1)}%</div>
+        )}
+      </TableCell>
+    </>
+  );
+}
+
+/**
+ * OrderJobCostingCard - Production cost of each line item (material used, labor and machine
+ * time) against its sell price. Managers and up.
+ */
+export function OrderJobCostingCard({ orderId }: { orderId: string }) {
+  const { data, isLoading, error } = useOrderJobCosting(orderId);
+  const unratedSeconds = data?.totals.unratedLaborSeconds ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-medium">Job Costing</CardTitle>
+        <CardDescription>Material used plus labor and machine time, against each line item's price.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error ? (
+          <div className="text-sm text-destructive">{(error as Error).message}</div>
+        ) : isLoading || !data ? (
+          <div className="text-sm text-muted-foreground">Loading job costing...</div>
+        ) : data.lineItems.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No line items.</div>
+        ) : (
+          <div className="space-y-2">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line item</TableHead>
+                  <TableHead className="text-right">Material</TableHead>
+                  <TableHead className="text-right">Labor</TableHead>
+                  <TableHead className="text-right">Machine</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.lineItems.map((item) => (
+                  <TableRow key={item.lineItemId}>
+                    <TableCell>
+                      <div className="max-w-[240px] truncate">{item.description}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Qty {item.quantity}
+                        {item.productionStatus ? ` · ${item.productionStatus.replace("_", " ")}` : " · no production job"}
+                      </div>
+                    </TableCell>
+                    <CostCells cost={item} />
+                  </TableRow>
+                ))}
+                <TableRow className="font-medium">
+                  <TableCell>Order total</TableCell>
+                  <CostCells cost={data.totals} />
+                </TableRow>
+              </TableBody>
+            </Table>
+            {unratedSeconds > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {formatHours(unratedSeconds)} of labor is by operators without a labor rate and is not costed.
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -39,6 +39,7 @@ import { getAttachmentDisplayName, getPdfPageCount, isPdfAttachment } from "@/li
 import { getThumbSrc } from "@/lib/getThumbSrc";
 import { AttachmentPreviewMeta } from "@/components/AttachmentPreviewMeta";
 import { LineItemAttachmentsPanel } from "@/components/LineItemAttachmentsPanel";
+import LineItemProofsPanel from "@/components/orders/LineItemProofsPanel";
 import { LineItemThumbnail } from "@/components/LineItemThumbnail";
 import { injectDerivedMaterialOptionIntoProductOptions } from "@shared/productOptionUi";
 import { useToast } from "@/hooks/use-toast";
@@ -777,6 +778,7 @@ export function OrderLineItemsSection({
         ...pbv2Payload,
         ...v1Payload,
         customerId,
+        orderId,
         debugSource: "OrderLineItemsSection.debounced",
       })
         .then((r) => r.json())
@@ -1501,6 +1503,7 @@ export function OrderLineItemsSection({
                                           height: heightForCalc,
                                           quantity: nextQtyInt,
                                           customerId,
+                                          orderId,
                                           debugSource: "OrderLineItemsSection.qtyChange",
                                         };
                                         
@@ -1860,6 +1863,10 @@ export function OrderLineItemsSection({
                                 />
                               </div>
 
+                              <div className="mt-2 rounded-md border border-border/40 p-3">
+                                <LineItemProofsPanel orderId={orderId} lineItemId={item.id} readOnly={readOnly} />
+                              </div>
+
                               {(() => {
                                 const policy =
                                   productArtworkPolicy === "required" || productArtworkPolicy === "not_required"
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { TrendingUp, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { Pbv2PriceImpactLine, Pbv2PriceImpactReport } from '@shared/pbv2/priceImpact';
+
+type PriceImpactResponse = {
+  success: boolean;
+  data: Pbv2PriceImpactReport & { limit: number; source: string; candidateTreeVersionId: string | null };
+};
+
+interface PriceImpactPanelProps {
+  productId: string | null;
+  /** Current editor tree (may include unsaved edits). Falls back to the saved DRAFT when null. */
+  treeJson: unknown;
+}
+
+const LIMIT_OPTIONS = ['25', '50', '100', '250'];
+
+function money(cents: number | null): string {
+  if (cents === null) return '—';
+  const sign = cents < 0 ? '-' : '';
+  return `${sign}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+function signedMoney(cents: number | null): string {
+  if (cents === null) return '—';
+  return cents > 0 ? `+${money(cents)}` : money(cents);
+}
+
+function deltaClass(cents: number | null): string {
+  if (!cents) return 'text-slate-400';
+  return cents > 0 ? 'text-emerald-300' : 'text-red-300';
+}
+
+function LineRow({ line }: { line: Pbv2PriceImpactLine }) {
+  return (
+    <tr className={`border-b border-[#334155] ${line.outlier ? 'bg-amber-950/30' : ''}`}>
+      <td className="py-1.5 pr-2 text-slate-300">
+        {line.source === 'quote' ? 'Quote' : 'Order'} {line.parentNumber ? `#${line.parentNumber}` : ''}
+        {line.outlier && <AlertTriangle className="inline h-3 w-3 ml-1 text-amber-400" />}
+      </td>
+      <td className="py-1.5 pr-2 text-slate-500">
+        {line.pricedAt ? new Date(line.pricedAt).toLocaleDateString() : '—'}
+      </td>
+      {line.error ? (
+        <td colSpan={4} className="py-1.5 text-xs text-red-400">
+          {line.error}
+        </td>
+      ) : (
+        <>
+          <td className="py-1.5 pr-2 text-right font-mono text-slate-300">{money(line.oldLinePriceCents)}</td>
+          <td className="py-1.5 pr-2 text-right font-mono text-slate-100">{money(line.newLinePriceCents)}</td>
+          <td className={`py-1.5 pr-2 text-right font-mono ${deltaClass(line.deltaCents)}`}>{signedMoney(line.deltaCents)}</td>
+          <td className={`py-1.5 text-right font-mono ${deltaClass(line.deltaCents)}`}>
+            {line.deltaPct === null ? '—' : `${line.deltaPct > 0 ? '+' : ''}${line.deltaPct.toFixed(1)}%`}
+          </td>
+        </>
+      )}
+    </tr>
+  );
+}
+
+export function PriceImpactPanel({ productId, treeJson }: PriceImpactPanelProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [limit, setLimit] = useState('50');
+  const [source, setSource] = useState<'all' | 'quotes' | 'orders'>('all');
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const body: Record<string, unknown> = { limit: Number(limit), source };
+      if (treeJson && typeof treeJson === 'object') body.treeJson = treeJson;
+      const res = await apiRequest('POST', `/api/products/${productId}/pbv2/price-impact`, body);
+      return (await res.json()) as PriceImpactResponse;
+    },
+    onSuccess: () => setOpen(true),
+    onError: (error: Error) => {
+      toast({ title: 'Price impact failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!productId) return null;
+
+  const report = runMutation.data?.data ?? null;
+  const maxBucket = report ? Math.max(1, ...report.distribution.map((b) => b.count)) : 1;
+
+  return (
+    <div className="border-t border-[#334155] bg-[#0f172a] p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <TrendingUp className="h-4 w-4 text-emerald-400" />
+        <h3 className="text-sm font-semibold text-slate-200 uppercase tracking-wide">Price Impact</h3>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <Select value={limit} onValueChange={setLimit}>
+          <SelectTrigger className="h-8 text-xs bg-[#1e293b] border-[#334155] text-slate-200">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LIMIT_OPTIONS.map((n) => (
+              <SelectItem key={n} value={n}>
+                Last {n} lines
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={source} onValueChange={(v) => setSource(v as typeof source)}>
+          <SelectTrigger className="h-8 text-xs bg-[#1e293b] border-[#334155] text-slate-200">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Quotes + orders</SelectItem>
+            <SelectItem value="quotes">Quotes only</SelectItem>
+            <SelectItem value="orders">Orders only</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        className="w-full h-8 text-xs border-slate-600 bg-slate-800 text-slate-200 hover:bg-slate-700"
+        disabled={runMutation.isPending}
+        onClick={() => runMutation.mutate()}
+      >
+        {runMutation.isPending ? 'Replaying…' : 'Run what-if on draft'}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-4xl bg-[#1e293b] border-[#334155] text-slate-200">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">Draft price impact</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Historical line items replayed through the current draft. Nothing is repriced.
+            </DialogDescription>
+          </DialogHeader>
+
+          {report && (
+            <ScrollArea className="max-h-[70vh] pr-3">
+              <div className="space-y-5">
+                <div className="grid grid-cols-4 gap-3">
+                  {[
+                    { label: 'Lines replayed', value: `${report.stats.evaluatedCount} / ${report.stats.sampleCount}` },
+                    { label: 'Total delta', value: signedMoney(report.stats.totalDeltaCents) },
+                    { label: 'Median delta', value: signedMoney(report.stats.medianDeltaCents) },
+                    { label: 'Range', value: `${signedMoney(report.stats.minDeltaCents)} … ${signedMoney(report.stats.maxDeltaCents)}` },
+                  ].map((s) => (
+                    <div key={s.label} className="rounded border border-[#334155] bg-[#0f172a] p-3">
+                      <div className="text-xs text-slate-500">{s.label}</div>
+                      <div className="text-sm font-mono text-slate-100">{s.value}</div>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap gap-1.5">
+                  <Badge variant="outline" className="text-xs border-emerald-500/40 text-emerald-300">{report.stats.increasedCount} up</Badge>
+                  <Badge variant="outline" className="text-xs border-red-500/40 text-red-300">{report.stats.decreasedCount} down</Badge>
+                  <Badge variant="outline" className="text-xs border-slate-500/40 text-slate-300">{report.stats.unchangedCount} unchanged</Badge>
+                  {report.stats.failedCount > 0 && (
+                    <Badge variant="outline" className="text-xs border-amber-500/40 text-amber-300">{report.stats.failedCount} not replayable</Badge>
+                  )}
+                </div>
+
+                <section className="space-y-1.5">
+                  <h4 className="text-xs font-bold uppercase tracking-wide text-slate-400">Delta distribution</h4>
+                  {report.distribution.map((b) => (
+                    <div key={b.key} className="grid grid-cols-[7rem_1fr_2.5rem] items-center gap-2 text-xs">
+                      <span className="text-slate-400">{b.label}</span>
+                      <div className="h-2.5 rounded bg-[#0f172a]">
+                        <div className="h-2.5 rounded bg-sky-500/70" style={{ width: `${(b.count / maxBucket) * 100}%` }} />
+                      </div>
+                      <span className="text-right font-mono text-slate-300">{b.count}</span>
+                    </div>
+                  ))}
+                </section>
+
+                {report.outliers.length > 0 && (
+                  <section className="space-y-1.5">
+                    <h4 className="text-xs font-bold uppercase tracking-wide text-amber-400">
+                      Outliers ({report.outliers.length})
+                    </h4>
+                    <table className="w-full text-xs">
+                      <tbody>
+                        {report.outliers.map((line) => (
+                          <LineRow key={`o-${line.source}-${line.lineItemId}`} line={line} />
+                        ))}
+                      </tbody>
+                    </table>
+                  </section>
+                )}
+
+                <section className="space-y-1.5">
+                  <h4 className="text-xs font-bold uppercase tracking-wide text-slate-400">Lines</h4>
+                  {report.lines.length === 0 ? (
+                    <div className="text-xs text-slate-500">No priced quote or order lines found for this product.</div>
+                  ) : (
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-slate-500 border-b border-[#334155]">
+                          <th className="py-1 text-left font-medium">Source</th>
+                          <th className="py-1 text-left font-medium">Priced</th>
+                          <th className="py-1 text-right font-medium">Old</th>
+                          <th className="py-1 text-right font-medium">New</th>
+                          <th className="py-1 text-right font-medium">Delta</th>
+                          <th className="py-1 text-right font-medium">%</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {report.lines.map((line) => (
+                          <LineRow key={`${line.source}-${line.lineItemId}`} line={line} />
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
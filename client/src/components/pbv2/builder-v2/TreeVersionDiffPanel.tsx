@@ -0,0 +1,304 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { GitCompare, ArrowRight, Plus, Minus, PenLine } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Pbv2TreeDiff } from '@shared/pbv2/treeVersionDiff';
+
+type TreeVersionSummary = {
+  id: string;
+  status: string;
+  publishedAt: string | null;
+  updatedAt: string;
+  isActive: boolean;
+  nodeCount: number;
+  edgeCount: number;
+};
+
+type TreeVersionListResponse = {
+  success: boolean;
+  data: { versions: TreeVersionSummary[]; activeTreeVersionId: string | null };
+};
+
+type TreeVersionDiffResponse = {
+  success: boolean;
+  data: {
+    base: TreeVersionSummary | null;
+    target: TreeVersionSummary;
+    diff: Pbv2TreeDiff;
+  };
+};
+
+interface TreeVersionDiffPanelProps {
+  productId: string | null;
+  /** Current DRAFT id; used as the default compare target. */
+  draftId: string | null;
+}
+
+const NO_BASE = '__none__';
+
+function versionLabel(v: TreeVersionSummary): string {
+  const when = new Date(v.publishedAt ?? v.updatedAt);
+  const date = Number.isNaN(when.getTime()) ? '' : when.toLocaleDateString();
+  return `${v.isActive ? 'ACTIVE' : v.status} · ${date} · ${v.id.slice(0, 8)}`;
+}
+
+function pretty(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return JSON.stringify(value, null, 2);
+}
+
+function DiffCell({ value, tone }: { value: unknown; tone: 'before' | 'after' }) {
+  return (
+    <pre
+      className={`text-xs font-mono whitespace-pre-wrap break-all rounded p-2 min-h-[2rem] ${
+        tone === 'before' ? 'bg-red-950/30 text-red-200' : 'bg-emerald-950/30 text-emerald-200'
+      }`}
+    >
+      {pretty(value)}
+    </pre>
+  );
+}
+
+function SideBySideRow({ title, before, after }: { title: string; before: unknown; after: unknown }) {
+  return (
+    <div className="space-y-1.5">
+      <div className="text-xs font-semibold text-slate-300 font-mono">{title}</div>
+      <div className="grid grid-cols-2 gap-2">
+        <DiffCell value={before} tone="before" />
+        <DiffCell value={after} tone="after" />
+      </div>
+    </div>
+  );
+}
+
+export function TreeVersionDiffPanel({ productId, draftId }: TreeVersionDiffPanelProps) {
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [compareOpen, setCompareOpen] = useState(false);
+
+  const { data: versionsRes } = useQuery<TreeVersionListResponse>({
+    queryKey: [`/api/products/${productId}/pbv2/tree-versions`],
+    enabled: !!productId,
+    staleTime: 0,
+  });
+
+  const versions = versionsRes?.data.versions ?? [];
+  const activeId = versionsRes?.data.activeTreeVersionId ?? null;
+
+  // Default: ACTIVE (base) vs current DRAFT (target)
+  useEffect(() => {
+    if (targetId === null && draftId) setTargetId(draftId);
+  }, [draftId, targetId]);
+  useEffect(() => {
+    if (baseId === null && activeId) setBaseId(activeId);
+  }, [activeId, baseId]);
+
+  const diffUrl = useMemo(() => {
+    if (!targetId) return null;
+    const qs = baseId && baseId !== NO_BASE ? `?against=${encodeURIComponent(baseId)}` : '';
+    return `/api/pbv2/tree-versions/${targetId}/diff${qs}`;
+  }, [baseId, targetId]);
+
+  const { data: diffRes, isLoading: diffLoading } = useQuery<TreeVersionDiffResponse>({
+    queryKey: [diffUrl],
+    enabled: !!diffUrl && baseId !== targetId,
+    staleTime: 0,
+  });
+
+  const diff = diffRes?.data.diff ?? null;
+
+  if (!productId) return null;
+
+  return (
+    <div className="border-t border-[#334155] bg-[#0f172a] p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <GitCompare className="h-4 w-4 text-sky-400" />
+        <h3 className="text-sm font-semibold text-slate-200 uppercase tracking-wide">Version Compare</h3>
+      </div>
+
+      <div className="grid grid-cols-[1fr_auto_1fr] items-center gap-2">
+        <Select value={baseId ?? NO_BASE} onValueChange={setBaseId}>
+          <SelectTrigger className="h-8 text-xs bg-[#1e293b] border-[#334155] text-slate-200">
+            <SelectValue placeholder="Base" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_BASE}>Empty tree</SelectItem>
+            {versions.map((v) => (
+              <SelectItem key={v.id} value={v.id}>
+                {versionLabel(v)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ArrowRight className="h-3.5 w-3.5 text-slate-500" />
+        <Select value={targetId ?? undefined} onValueChange={setTargetId}>
+          <SelectTrigger className="h-8 text-xs bg-[#1e293b] border-[#334155] text-slate-200">
+            <SelectValue placeholder="Target" />
+          </SelectTrigger>
+          <SelectContent>
+            {versions.map((v) => (
+              <SelectItem key={v.id} value={v.id}>
+                {versionLabel(v)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!targetId ? (
+        <div className="text-xs text-slate-500">Save a draft to compare it with the published version.</div>
+      ) : baseId === targetId ? (
+        <div className="text-xs text-slate-500">Pick two different versions to compare.</div>
+      ) : diffLoading || !diff ? (
+        <div className="text-xs text-slate-500">Computing diff…</div>
+      ) : !diff.summary.hasChanges ? (
+        <div className="text-xs text-emerald-400">No structural differences.</div>
+      ) : (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-1.5">
+            {diff.summary.nodesAdded > 0 && (
+              <Badge variant="outline" className="text-xs border-emerald-500/40 text-emerald-300">+{diff.summary.nodesAdded} nodes</Badge>
+            )}
+            {diff.summary.nodesRemoved > 0 && (
+              <Badge variant="outline" className="text-xs border-red-500/40 text-red-300">−{diff.summary.nodesRemoved} nodes</Badge>
+            )}
+            {diff.summary.nodesModified > 0 && (
+              <Badge variant="outline" className="text-xs border-amber-500/40 text-amber-300">{diff.summary.nodesModified} nodes changed</Badge>
+            )}
+            {diff.summary.edgesAdded + diff.summary.edgesRemoved + diff.edges.modified.length > 0 && (
+              <Badge variant="outline" className="text-xs border-sky-500/40 text-sky-300">
+                {diff.summary.edgesAdded + diff.summary.edgesRemoved + diff.edges.modified.length} edge changes
+              </Badge>
+            )}
+            {diff.summary.priceComponentsChanged > 0 && (
+              <Badge variant="outline" className="text-xs border-purple-500/40 text-purple-300">
+                {diff.summary.priceComponentsChanged} price components
+              </Badge>
+            )}
+            {diff.summary.conditionsChanged > 0 && (
+              <Badge variant="outline" className="text-xs border-slate-500/40 text-slate-300">
+                {diff.summary.conditionsChanged} conditions
+              </Badge>
+            )}
+          </div>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="w-full h-8 text-xs border-slate-600 bg-slate-800 text-slate-200 hover:bg-slate-700"
+            onClick={() => setCompareOpen(true)}
+          >
+            Open side-by-side review
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={compareOpen} onOpenChange={setCompareOpen}>
+        <DialogContent className="max-w-5xl bg-[#1e293b] border-[#334155] text-slate-200">
+          <DialogHeader>
+            <DialogTitle className="text-slate-100">Review tree changes</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              {diffRes?.data.base ? versionLabel(diffRes.data.base) : 'Empty tree'} → {diffRes ? versionLabel(diffRes.data.target) : ''}
+            </DialogDescription>
+          </DialogHeader>
+
+          {diff && (
+            <ScrollArea className="max-h-[70vh] pr-3">
+              <div className="space-y-6">
+                {(diff.nodes.added.length > 0 || diff.nodes.removed.length > 0 || diff.nodes.modified.length > 0) && (
+                  <section className="space-y-2">
+                    <h4 className="text-xs font-bold uppercase tracking-wide text-slate-400">Nodes</h4>
+                    {diff.nodes.added.map((n) => (
+                      <div key={`na-${n.nodeId}`} className="flex items-center gap-2 text-sm text-emerald-300">
+                        <Plus className="h-3.5 w-3.5" /> {n.label ?? n.key ?? n.nodeId} <span className="text-xs text-slate-500">{n.type}</span>
+                      </div>
+                    ))}
+                    {diff.nodes.removed.map((n) => (
+                      <div key={`nr-${n.nodeId}`} className="flex items-center gap-2 text-sm text-red-300">
+                        <Minus className="h-3.5 w-3.5" /> {n.label ?? n.key ?? n.nodeId} <span className="text-xs text-slate-500">{n.type}</span>
+                      </div>
+                    ))}
+                    {diff.nodes.modified.map((n) => (
+                      <div key={`nm-${n.nodeId}`} className="flex items-center gap-2 text-sm text-amber-300">
+                        <PenLine className="h-3.5 w-3.5" /> {n.after.label ?? n.after.key ?? n.nodeId}
+                        <span className="text-xs text-slate-500 font-mono">{n.changedFields.join(', ')}</span>
+                      </div>
+                    ))}
+                  </section>
+                )}
+
+                {diff.priceComponents.length > 0 && (
+                  <section className="space-y-3">
+                    <h4 className="text-xs font-bold uppercase tracking-wide text-slate-400">Price components</h4>
+                    {diff.priceComponents.map((c) => (
+                      <SideBySideRow
+                        key={`pc-${c.nodeId}-${c.componentIndex}`}
+                        title={`${c.nodeId} #${c.componentIndex} · ${c.change}${c.changedFields.length ? ` (${c.changedFields.join(', ')})` : ''}`}
+                        before={c.before}
+                        after={c.after}
+                      />
+                    ))}
+                  </section>
+                )}
+
+                {(diff.edges.added.length > 0 || diff.edges.removed.length > 0 || diff.edges.modified.length > 0) && (
+                  <section className="space-y-3">
+                    <h4 className="text-xs font-bold uppercase tracking-wide text-slate-400">Edges</h4>
+                    {diff.edges.added.map((e) => (
+                      <SideBySideRow key={`ea-${e.edgeId}`} title={`${e.edgeId} · added`} before={null} after={e} />
+                    ))}
+                    {diff.edges.removed.map((e) => (
+                      <SideBySideRow key={`er-${e.edgeId}`} title={`${e.edgeId} · removed`} before={e} after={null} />
+                    ))}
+                    {diff.edges.modified.map((e) => (
+                      <SideBySideRow
+                        key={`em-${e.edgeId}`}
+                        title={`${e.edgeId} · ${e.rewired ? 'rewired' : 'changed'} (${e.changedFields.join(', ')})`}
+                        before={e.before}
+                        after={e.after}
+                      />
+                    ))}
+                  </section>
+                )}
+
+                {diff.conditions.length > 0 && (
+                  <section className="space-y-3">
+                    <h4 className="text-xs font-bold uppercase tracking-wide text-slate-400">Conditions</h4>
+                    {diff.conditions.map((c) => (
+                      <SideBySideRow key={`c-${c.path}`} title={c.path} before={c.before} after={c.after} />
+                    ))}
+                  </section>
+                )}
+
+                {diff.tree.length > 0 && (
+                  <section className="space-y-3">
+                    <h4 className="text-xs font-bold uppercase tracking-wide text-slate-400">Tree settings</h4>
+                    {diff.tree.map((t) => (
+                      <SideBySideRow key={`t-${t.path}`} title={t.path} before={t.before} after={t.after} />
+                    ))}
+                  </section>
+                )}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { History, CalendarClock, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+type TreeVersionSummary = {
+  id: string;
+  status: string;
+  publishedAt: string | null;
+  effectiveFrom: string | null;
+  sourceTreeVersionId: string | null;
+  updatedAt: string;
+  isActive: boolean;
+};
+
+type TreeVersionListResponse = {
+  success: boolean;
+  data: { versions: TreeVersionSummary[]; activeTreeVersionId: string | null };
+};
+
+interface VersionHistoryPanelProps {
+  productId: string | null;
+  /** Current DRAFT id; scheduling publishes the saved draft. */
+  draftId: string | null;
+  /** Unsaved editor edits are not part of the saved draft, so scheduling is blocked until saved. */
+  hasUnsavedChanges: boolean;
+}
+
+const STATUS_CLASS: Record<string, string> = {
+  ACTIVE: 'border-emerald-500/40 text-emerald-300',
+  SCHEDULED: 'border-sky-500/40 text-sky-300',
+  DRAFT: 'border-amber-500/40 text-amber-300',
+  DEPRECATED: 'border-slate-500/40 text-slate-400',
+};
+
+function formatWhen(value: string | null): string {
+  if (!value) return '—';
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? '—' : d.toLocaleString();
+}
+
+export function VersionHistoryPanel({ productId, draftId, hasUnsavedChanges }: VersionHistoryPanelProps) {
+  const { toast } = useToast();
+  const [effectiveLocal, setEffectiveLocal] = useState('');
+  const [pendingWarnings, setPendingWarnings] = useState(0);
+
+  const versionsKey = `/api/products/${productId}/pbv2/tree-versions`;
+  const { data: versionsRes } = useQuery<TreeVersionListResponse>({
+    queryKey: [versionsKey],
+    enabled: !!productId,
+    staleTime: 0,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [versionsKey] });
+    queryClient.invalidateQueries({ queryKey: ['/api/products', productId, 'pbv2', 'tree'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/products'] });
+  };
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (confirmWarnings: boolean) => {
+      const effectiveFrom = new Date(effectiveLocal).toISOString();
+      const qs = confirmWarnings ? '?confirmWarnings=true' : '';
+      const res = await apiRequest('POST', `/api/pbv2/tree-versions/${draftId}/publish${qs}`, { effectiveFrom });
+      return (await res.json()) as { requiresWarningsConfirm?: boolean; scheduled?: boolean; findings?: Array<{ severity: string }> };
+    },
+    onSuccess: (json) => {
+      if (json.requiresWarningsConfirm) {
+        setPendingWarnings((json.findings ?? []).filter((f) => f.severity === 'WARNING').length || 1);
+        return;
+      }
+      setPendingWarnings(0);
+      setEffectiveLocal('');
+      toast({ title: json.scheduled ? 'Publish scheduled' : 'Published successfully' });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Schedule failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('POST', `/api/pbv2/tree-versions/${id}/rollback`);
+    },
+    onSuccess: () => {
+      toast({ title: 'Rolled back', description: 'The selected version is live again as a new ACTIVE version.' });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Rollback failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const unscheduleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('POST', `/api/pbv2/tree-versions/${id}/unschedule`);
+    },
+    onSuccess: () => {
+      toast({ title: 'Scheduled publish canceled' });
+      refresh();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Cancel failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  if (!productId) return null;
+
+  const versions = (versionsRes?.data.versions ?? []).filter((v) => v.status !== 'DRAFT');
+  const effectiveValid = !!effectiveLocal && !Number.isNaN(new Date(effectiveLocal).getTime());
+  const busy = rollbackMutation.isPending || unscheduleMutation.isPending;
+
+  return (
+    <div className="border-t border-[#334155] bg-[#0f172a] p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <History className="h-4 w-4 text-sky-400" />
+        <h3 className="text-sm font-semibold text-slate-200 uppercase tracking-wide">Version History</h3>
+      </div>
+
+      {draftId && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              type="datetime-local"
+              value={effectiveLocal}
+              onChange={(e) => {
+                setEffectiveLocal(e.target.value);
+                setPendingWarnings(0);
+              }}
+              className="h-8 text-xs bg-[#1e293b] border-[#334155] text-slate-200"
+            />
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              className="h-8 text-xs border-slate-600 bg-slate-800 text-slate-200 hover:bg-slate-700"
+              disabled={!effectiveValid || hasUnsavedChanges || scheduleMutation.isPending}
+              onClick={() => scheduleMutation.mutate(false)}
+            >
+              <CalendarClock className="h-3.5 w-3.5 mr-1" />
+              Schedule
+            </Button>
+          </div>
+          {hasUnsavedChanges && <div className="text-xs text-amber-400">Save the draft before scheduling it.</div>}
+          {pendingWarnings > 0 && (
+            <div className="flex items-center justify-between gap-2 text-xs text-amber-300">
+              <span>{pendingWarnings} validation warning(s).</span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs text-amber-300 hover:bg-amber-950/40"
+                disabled={scheduleMutation.isPending}
+                onClick={() => scheduleMutation.mutate(true)}
+              >
+                Schedule anyway
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {versions.length === 0 ? (
+        <div className="text-xs text-slate-500">No published versions yet.</div>
+      ) : (
+        <div className="space-y-1.5 max-h-64 overflow-y-auto">
+          {versions.map((v) => {
+            const status = v.isActive ? 'ACTIVE' : v.status;
+            return (
+              <div key={v.id} className="rounded border border-[#334155] bg-[#1e293b] px-2 py-1.5 text-xs">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={`text-[10px] ${STATUS_CLASS[status] ?? STATUS_CLASS.DEPRECATED}`}>
+                    {status}
+                  </Badge>
+                  <span className="font-mono text-slate-400">{v.id.slice(0, 8)}</span>
+                  <div className="ml-auto">
+                    {v.status === 'SCHEDULED' && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-2 text-xs text-slate-300 hover:bg-slate-700"
+                        disabled={busy || !!draftId}
+                        title={draftId ? 'Publish or discard the current draft first' : undefined}
+                        onClick={() => unscheduleMutation.mutate(v.id)}
+                      >
+                        <X className="h-3 w-3 mr-1" />
+                        Cancel
+                      </Button>
+                    )}
+                    {v.status === 'DEPRECATED' && v.publishedAt && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-2 text-xs text-slate-300 hover:bg-slate-700"
+                        disabled={busy}
+                        onClick={() => {
+                          if (window.confirm('Make this version live again? Pricing switches immediately.')) {
+                            rollbackMutation.mutate(v.id);
+                          }
+                        }}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Rollback
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="mt-1 text-slate-500">
+                  {v.status === 'SCHEDULED' ? 'Takes effect' : 'Effective'} {formatWhen(v.effectiveFrom ?? v.publishedAt)}
+                  {v.sourceTreeVersionId && <span> · rollback of {v.sourceTreeVersionId.slice(0, 8)}</span>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,447 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useProductTypes } from "@/hooks/useProductTypes";
+import {
+  DEFAULT_PREFLIGHT_RULES,
+  useDeletePreflightProfile,
+  usePreflightProfiles,
+  useSavePreflightProfile,
+  type PreflightColorSpace,
+  type PreflightProfile,
+} from "@/hooks/usePrepress";
+
+const COLOR_SPACES: Array<{ value: PreflightColorSpace; label: string }> = [
+  { value: "cmyk", label: "CMYK" },
+  { value: "rgb", label: "RGB" },
+  { value: "gray", label: "Gray" },
+];
+
+type FontPolicy = "report" | "required" | "ignore";
+
+type ProfileForm = {
+  id?: string;
+  name: string;
+  description: string;
+  productTypeId: string;
+  isDefault: boolean;
+  minEffectiveDpi: string;
+  restrictColorSpaces: boolean;
+  allowedColorSpaces: PreflightColorSpace[];
+  spotColorsAllowed: boolean;
+  maxInkCoveragePercent: string;
+  fontPolicy: FontPolicy;
+  cutContourRequired: boolean;
+  cutContourOffsetIn: string;
+  pageMin: string;
+  pageMax: string;
+  pageMultipleOf: string;
+  blockerPenalty: string;
+  warningPenalty: string;
+  infoPenalty: string;
+};
+
+const NO_PRODUCT_TYPE = "__none__";
+
+function toForm(profile?: PreflightProfile): ProfileForm {
+  const rules = profile?.rules ?? DEFAULT_PREFLIGHT_RULES;
+  const str = (value: number | null | undefined) => (value == null ? "" : String(value));
+  return {
+    id: profile?.id,
+    name: profile?.name ?? "",
+    description: profile?.description ?? "",
+    productTypeId: profile?.productTypeId ?? NO_PRODUCT_TYPE,
+    isDefault: profile?.isDefault ?? false,
+    minEffectiveDpi: str(rules.minEffectiveDpi),
+    restrictColorSpaces: rules.allowedColorSpaces != null,
+    allowedColorSpaces: rules.allowedColorSpaces ?? ["cmyk", "gray"],
+    spotColorsAllowed: rules.spotColorsAllowed,
+    maxInkCoveragePercent: str(rules.maxInkCoveragePercent),
+    fontPolicy: rules.fontEmbeddingRequired == null ? "report" : rules.fontEmbeddingRequired ? "required" : "ignore",
+    cutContourRequired: rules.cutContourRequired ?? false,
+    cutContourOffsetIn: str(rules.cutContourOffsetIn),
+    pageMin: str(rules.pageCount.min),
+    pageMax: str(rules.pageCount.max),
+    pageMultipleOf: str(rules.pageCount.multipleOf),
+    blockerPenalty: str(rules.scoring.blockerPenalty),
+    warningPenalty: str(rules.scoring.warningPenalty),
+    infoPenalty: str(rules.scoring.infoPenalty),
+  };
+}
+
+function optionalInt(value: string): number | null {
+  const parsed = parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+function optionalInches(value: string): number | null {
+  const parsed = Number(value);
+  return value.trim() !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+function penalty(value: string, fallback: number): number {
+  const parsed = Number(value);
+  return value.trim() !== "" && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+/**
+ * PreflightProfilesDialog - Org preflight profiles: which checks apply per product type
+ * (or as the org default) and how much each severity costs in the score.
+ */
+export default function PreflightProfilesDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const { data: profiles, isLoading, error } = usePreflightProfiles();
+  const { data: productTypes } = useProductTypes();
+  const saveMutation = useSavePreflightProfile();
+  const deleteMutation = useDeletePreflightProfile();
+
+  const productTypeName = (id: string | null) => productTypes?.find((t) => t.id === id)?.name ?? null;
+  const set = <K extends keyof ProfileForm>(key: K, value: ProfileForm[K]) =>
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+
+  const handleSave = async () => {
+    if (!form) return;
+    const defaults = DEFAULT_PREFLIGHT_RULES.scoring;
+    try {
+      await saveMutation.mutateAsync({
+        id: form.id,
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        productTypeId: form.productTypeId === NO_PRODUCT_TYPE ? null : form.productTypeId,
+        isDefault: form.isDefault,
+        rules: {
+          minEffectiveDpi: optionalInt(form.minEffectiveDpi),
+          allowedColorSpaces: form.restrictColorSpaces ? form.allowedColorSpaces : null,
+          spotColorsAllowed: form.spotColorsAllowed,
+          maxInkCoveragePercent: optionalInt(form.maxInkCoveragePercent),
+          fontEmbeddingRequired: form.fontPolicy === "report" ? null : form.fontPolicy === "required",
+          cutContourRequired: form.cutContourRequired,
+          cutContourOffsetIn: optionalInches(form.cutContourOffsetIn),
+          pageCount: {
+            min: optionalInt(form.pageMin),
+            max: optionalInt(form.pageMax),
+            multipleOf: optionalInt(form.pageMultipleOf),
+          },
+          scoring: {
+            blockerPenalty: penalty(form.blockerPenalty, defaults.blockerPenalty),
+            warningPenalty: penalty(form.warningPenalty, defaults.warningPenalty),
+            infoPenalty: penalty(form.infoPenalty, defaults.infoPenalty),
+          },
+        },
+      });
+      toast({ title: "Preflight profile saved" });
+      setForm(null);
+    } catch (err: any) {
+      toast({ title: "Could not save profile", description: err.message, variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (profile: PreflightProfile) => {
+    if (!window.confirm(`Delete preflight profile "${profile.name}"?`)) return;
+    try {
+      await deleteMutation.mutateAsync(profile.id);
+      toast({ title: "Preflight profile deleted" });
+    } catch (err: any) {
+      toast({ title: "Could not delete profile", description: err.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)}>
+        <SlidersHorizontal className="w-4 h-4 mr-2" />
+        Profiles
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (!next) setForm(null);
+        }}
+      >
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form ? (form.id ? "Edit preflight profile" : "New preflight profile") : "Preflight profiles"}</DialogTitle>
+          </DialogHeader>
+
+          {!form && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Jobs use the profile picked at upload, else the profile for the line item's product type, else the
+                default profile, else the built-in checks.
+              </p>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{(error as Error).message}</AlertDescription>
+                </Alert>
+              )}
+              {isLoading && <div className="text-sm text-muted-foreground">Loading profiles...</div>}
+              {profiles && profiles.length === 0 && (
+                <div className="text-sm text-muted-foreground py-4 text-center">No profiles yet.</div>
+              )}
+
+              {(profiles ?? []).map((profile) => (
+                <div key={profile.id} className="flex items-start justify-between gap-3 rounded border p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{profile.name}</span>
+                      {profile.isDefault && <Badge>Default</Badge>}
+                      {profile.productTypeId && (
+                        <Badge variant="secondary">{productTypeName(profile.productTypeId) ?? "Product type"}</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {profile.rules.minEffectiveDpi ? `${profile.rules.minEffectiveDpi} DPI min` : "Any DPI"}
+                      {" · "}
+                      {profile.rules.allowedColorSpaces
+                        ? profile.rules.allowedColorSpaces.map((c) => c.toUpperCase()).join("/")
+                        : "Any color"}
+                      {" · "}
+                      {profile.rules.spotColorsAllowed ? "Spots OK" : "No spots"}
+                      {profile.rules.maxInkCoveragePercent ? ` · TAC ≤ ${profile.rules.maxInkCoveragePercent}%` : ""}
+                      {profile.rules.cutContourRequired ? " · Cut path required" : ""}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => setForm(toForm(profile))}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(profile)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <Button onClick={() => setForm(toForm())}>
+                <Plus className="w-4 h-4 mr-2" />
+                New profile
+              </Button>
+            </div>
+          )}
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="profile-name">Name</Label>
+                  <Input id="profile-name" value={form.name} onChange={(e) => set("name", e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label>Product type</Label>
+                  <Select value={form.productTypeId} onValueChange={(v) => set("productTypeId", v)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_PRODUCT_TYPE}>None (pick per job)</SelectItem>
+                      {(productTypes ?? []).map((type) => (
+                        <SelectItem key={type.id} value={type.id}>
+                          {type.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="profile-description">Description</Label>
+                <Textarea
+                  id="profile-description"
+                  rows={2}
+                  value={form.description}
+                  onChange={(e) => set("description", e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="profile-default">Org default</Label>
+                <Switch id="profile-default" checked={form.isDefault} onCheckedChange={(v) => set("isDefault", v)} />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Minimum effective DPI</Label>
+                  <Input
+                    inputMode="numeric"
+                    placeholder="Not checked"
+                    value={form.minEffectiveDpi}
+                    onChange={(e) => set("minEffectiveDpi", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Max ink coverage (%)</Label>
+                  <Input
+                    inputMode="numeric"
+                    placeholder="Not checked"
+                    value={form.maxInkCoveragePercent}
+                    onChange={(e) => set("maxInkCoveragePercent", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="profile-restrict-color">Restrict color spaces</Label>
+                  <Switch
+                    id="profile-restrict-color"
+                    checked={form.restrictColorSpaces}
+                    onCheckedChange={(v) => set("restrictColorSpaces", v)}
+                  />
+                </div>
+                {form.restrictColorSpaces && (
+                  <div className="flex gap-4">
+                    {COLOR_SPACES.map((space) => (
+                      <label key={space.value} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={form.allowedColorSpaces.includes(space.value)}
+                          onCheckedChange={(checked) =>
+                            set(
+                              "allowedColorSpaces",
+                              checked
+                                ? [...form.allowedColorSpaces, space.value]
+                                : form.allowedColorSpaces.filter((c) => c !== space.value)
+                            )
+                          }
+                        />
+                        {space.label}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="profile-spots">Spot colors allowed</Label>
+                <Switch
+                  id="profile-spots"
+                  checked={form.spotColorsAllowed}
+                  onCheckedChange={(v) => set("spotColorsAllowed", v)}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 items-end">
+                <div className="flex items-center justify-between gap-2 pb-2">
+                  <Label htmlFor="profile-cut-required">Cut path required</Label>
+                  <Switch
+                    id="profile-cut-required"
+                    checked={form.cutContourRequired}
+                    onCheckedChange={(v) => set("cutContourRequired", v)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Trace PNG/TIF cut offset (in)</Label>
+                  <Input
+                    inputMode="decimal"
+                    placeholder="Off"
+                    value={form.cutContourOffsetIn}
+                    onChange={(e) => set("cutContourOffsetIn", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Unembedded fonts</Label>
+                <Select value={form.fontPolicy} onValueChange={(v) => set("fontPolicy", v as FontPolicy)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="report">Warn</SelectItem>
+                    <SelectItem value="required">Block (embedding required)</SelectItem>
+                    <SelectItem value="ignore">Info only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Min pages</Label>
+                  <Input inputMode="numeric" value={form.pageMin} onChange={(e) => set("pageMin", e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Max pages</Label>
+                  <Input inputMode="numeric" value={form.pageMax} onChange={(e) => set("pageMax", e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Pages multiple of</Label>
+                  <Input
+                    inputMode="numeric"
+                    value={form.pageMultipleOf}
+                    onChange={(e) => set("pageMultipleOf", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label>Score penalty per issue</Label>
+                <div className="grid grid-cols-3 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">Blocker</Label>
+                    <Input
+                      inputMode="decimal"
+                      value={form.blockerPenalty}
+                      onChange={(e) => set("blockerPenalty", e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Warning</Label>
+                    <Input
+                      inputMode="decimal"
+                      value={form.warningPenalty}
+                      onChange={(e) => set("warningPenalty", e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Info</Label>
+                    <Input
+                      inputMode="decimal"
+                      value={form.infoPenalty}
+                      onChange={(e) => set("infoPenalty", e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={
+                    !form.name.trim() ||
+                    saveMutation.isPending ||
+                    (form.restrictColorSpaces && form.allowedColorSpaces.length === 0)
+                  }
+                >
+                  {saveMutation.isPending ? "Saving..." : "Save profile"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
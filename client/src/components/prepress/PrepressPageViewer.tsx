@@ -0,0 +1,208 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, FileText } from "lucide-react";
+import {
+  prepressPagePreviewUrl,
+  type PrepressIssueSeverity,
+  type PrepressPageIssue,
+  type PrepressReportV2,
+} from "@/hooks/usePrepress";
+
+const SEVERITIES: PrepressIssueSeverity[] = ["BLOCKER", "WARNING", "INFO"];
+
+const SEVERITY_STYLES: Record<PrepressIssueSeverity, { box: string; row: string; active: string }> = {
+  BLOCKER: { box: "border-red-600 bg-red-500/20", row: "border-red-200 bg-red-50", active: "bg-red-600 text-white hover:bg-red-700" },
+  WARNING: { box: "border-yellow-500 bg-yellow-400/20", row: "border-yellow-200 bg-yellow-50", active: "bg-yellow-500 text-white hover:bg-yellow-600" },
+  INFO: { box: "border-blue-500 bg-blue-400/20", row: "border-blue-200 bg-blue-50", active: "bg-blue-600 text-white hover:bg-blue-700" },
+};
+
+type PrepressPageViewerProps = {
+  jobId: string;
+  report: PrepressReportV2;
+};
+
+/**
+ * PrepressPageViewer - Page previews with issue bboxes drawn on top, filterable by severity.
+ * Issues without a page are listed under "Document".
+ */
+export default function PrepressPageViewer({ jobId, report }: PrepressPageViewerProps) {
+  const [pageNumber, setPageNumber] = useState(report.pages[0]?.page ?? 1);
+  const [visible, setVisible] = useState<Set<PrepressIssueSeverity>>(new Set(SEVERITIES));
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [failedPreviews, setFailedPreviews] = useState<Set<number>>(new Set());
+
+  const page = report.pages.find((p) => p.page === pageNumber) ?? report.pages[0];
+  const pageIndex = page ? report.pages.indexOf(page) : -1;
+
+  const documentIssues = useMemo(
+    () => report.issues.filter((issue) => issue.page == null && visible.has(issue.severity)),
+    [report.issues, visible]
+  );
+  const pageIssues = (page?.issues ?? []).filter((issue) => visible.has(issue.severity));
+
+  const countsBySeverity = useMemo(() => {
+    const counts: Record<PrepressIssueSeverity, number> = { BLOCKER: 0, WARNING: 0, INFO: 0 };
+    for (const issue of report.issues) counts[issue.severity]++;
+    return counts;
+  }, [report.issues]);
+
+  const toggleSeverity = (severity: PrepressIssueSeverity) =>
+    setVisible((prev) => {
+      const next = new Set(prev);
+      if (next.has(severity)) next.delete(severity);
+      else next.add(severity);
+      return next;
+    });
+
+  const visibleCountOnPage = (issues: PrepressPageIssue[]) => issues.filter((i) => visible.has(i.severity)).length;
+
+  if (!page) {
+    return <div className="text-sm text-muted-foreground">No pages to show.</div>;
+  }
+
+  const showPreview = page.previewAvailable && !failedPreviews.has(page.page);
+  const aspect = page.widthPt > 0 && page.heightPt > 0 ? page.widthPt / page.heightPt : 8.5 / 11;
+
+  return (
+    <div className="space-y-3">
+      {/* Severity filter */}
+      <div className="flex flex-wrap items-center gap-2">
+        {SEVERITIES.map((severity) => (
+          <Button
+            key={severity}
+            size="sm"
+            variant="outline"
+            className={visible.has(severity) ? SEVERITY_STYLES[severity].active : ""}
+            onClick={() => toggleSeverity(severity)}
+          >
+            {severity} ({countsBySeverity[severity]})
+          </Button>
+        ))}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-[120px_1fr]">
+        {/* Thumbnails */}
+        <div className="flex md:flex-col gap-2 overflow-auto md:max-h-[600px]">
+          {report.pages.map((p) => {
+            const count = visibleCountOnPage(p.issues);
+            return (
+              <button
+                key={p.page}
+                type="button"
+                onClick={() => setPageNumber(p.page)}
+                className={`relative shrink-0 w-24 rounded border p-1 text-xs ${p.page === page.page ? "ring-2 ring-primary" : ""}`}
+              >
+                {p.previewAvailable && !failedPreviews.has(p.page) ? (
+                  <img src={prepressPagePreviewUrl(jobId, p.page)} alt={`Page ${p.page}`} className="w-full" loading="lazy" />
+                ) : (
+                  <div className="flex aspect-[3/4] items-center justify-center bg-muted">
+                    <FileText className="w-6 h-6 text-muted-foreground" />
+                  </div>
+                )}
+                <div className="mt-1">Page {p.page}</div>
+                {count > 0 && (
+                  <Badge variant="destructive" className="absolute -top-2 -right-2 px-1.5 text-[10px]">
+                    {count}
+                  </Badge>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Selected page with overlays */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Button size="sm" variant="ghost" disabled={pageIndex <= 0} onClick={() => setPageNumber(report.pages[pageIndex - 1].page)}>
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page.page} of {report.pages.length}
+              {page.widthPt > 0 && ` • ${(page.widthPt / 72).toFixed(2)}" × ${(page.heightPt / 72).toFixed(2)}"`}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              disabled={pageIndex >= report.pages.length - 1}
+              onClick={() => setPageNumber(report.pages[pageIndex + 1].page)}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <div className="relative mx-auto w-full max-w-xl border bg-white" style={{ aspectRatio: String(aspect) }}>
+            {showPreview ? (
+              <img
+                src={prepressPagePreviewUrl(jobId, page.page)}
+                alt={`Page ${page.page} preview`}
+                className="absolute inset-0 h-full w-full"
+                onError={() => setFailedPreviews((prev) => new Set(prev).add(page.page))}
+              />
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center text-sm text-muted-foreground">
+                No preview available
+              </div>
+            )}
+            {pageIssues
+              .filter((issue) => issue.displayBbox)
+              .map((issue) => {
+                const box = issue.displayBbox!;
+                return (
+                  <div
+                    key={issue.index}
+                    title={`${issue.code}: ${issue.message}`}
+                    onMouseEnter={() => setHighlighted(issue.index)}
+                    onMouseLeave={() => setHighlighted(null)}
+                    className={`absolute border-2 ${SEVERITY_STYLES[issue.severity].box} ${highlighted === issue.index ? "ring-2 ring-offset-1 ring-black" : ""}`}
+                    style={{
+                      left: `${box.x * 100}%`,
+                      top: `${box.y * 100}%`,
+                      width: `${box.w * 100}%`,
+                      height: `${box.h * 100}%`,
+                    }}
+                  />
+                );
+              })}
+          </div>
+
+          {/* Issues for this page, then document-level issues */}
+          <div className="space-y-2 max-h-60 overflow-y-auto text-sm">
+            {pageIssues.length === 0 && documentIssues.length === 0 && (
+              <div className="text-muted-foreground">No issues match the filter on this page.</div>
+            )}
+            {pageIssues.map((issue) => (
+              <div
+                key={issue.index}
+                onMouseEnter={() => setHighlighted(issue.index)}
+                onMouseLeave={() => setHighlighted(null)}
+                className={`p-2 rounded border ${SEVERITY_STYLES[issue.severity].row} ${highlighted === issue.index ? "ring-1 ring-black" : ""}`}
+              >
+                <Badge variant={issue.severity === "BLOCKER" ? "destructive" : "secondary"} className="text-xs mr-2">
+                  {issue.severity}
+                </Badge>
+                <span className="font-medium">{issue.code}</span>
+                {!issue.displayBbox && <span className="text-xs text-muted-foreground"> (whole page)</span>}
+                <div className="text-muted-foreground">{issue.message}</div>
+              </div>
+            ))}
+            {documentIssues.length > 0 && (
+              <>
+                <div className="pt-2 font-semibold">Document</div>
+                {documentIssues.map((issue, idx) => (
+                  <div key={`doc-${idx}`} className={`p-2 rounded border ${SEVERITY_STYLES[issue.severity].row}`}>
+                    <Badge variant={issue.severity === "BLOCKER" ? "destructive" : "secondary"} className="text-xs mr-2">
+                      {issue.severity}
+                    </Badge>
+                    <span className="font-medium">{issue.code}</span>
+                    <div className="text-muted-foreground">{issue.message}</div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
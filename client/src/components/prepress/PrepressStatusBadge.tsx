@@ -0,0 +1,72 @@
+import { Link } from "react-router-dom";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from "@/lib/utils";
+
+type PrepressStatusBadgeProps = {
+  jobId?: string | null;
+  status?: string | null;
+  summary?: {
+    score: number;
+    counts: { BLOCKER: number; WARNING: number; INFO: number };
+    pageCount: number;
+  } | null;
+};
+
+/**
+ * PrepressStatusBadge - Result of automatic preflight on a line item artwork file.
+ * Links to the full report while the prepress job is still retained.
+ */
+export default function PrepressStatusBadge({ jobId, status, summary }: PrepressStatusBadgeProps) {
+  if (!status) return null;
+
+  let label: string;
+  let tooltip: string;
+  let className: string;
+
+  if (status === "queued") {
+    label = "Preflight…";
+    tooltip = "Preflight is running";
+    className = "bg-muted text-muted-foreground";
+  } else if (status === "failed" || !summary) {
+    label = "Preflight failed";
+    tooltip = "Preflight could not be run on this file";
+    className = "bg-muted text-muted-foreground";
+  } else {
+    const { BLOCKER, WARNING } = summary.counts;
+    tooltip = `Score ${summary.score} • ${BLOCKER} blocker${BLOCKER === 1 ? "" : "s"}, ${WARNING} warning${WARNING === 1 ? "" : "s"}`;
+    if (BLOCKER > 0) {
+      label = `${BLOCKER} blocker${BLOCKER === 1 ? "" : "s"}`;
+      className = "bg-red-100 text-red-800 border-red-200";
+    } else if (WARNING > 0) {
+      label = `Preflight ${summary.score}`;
+      className = "bg-amber-100 text-amber-800 border-amber-200";
+    } else {
+      label = `Preflight ${summary.score}`;
+      className = "bg-green-100 text-green-800 border-green-200";
+    }
+  }
+
+  const badge = (
+    <Badge variant="outline" className={cn("h-4 px-1.5 text-[10px] shrink-0", className)}>
+      {label}
+    </Badge>
+  );
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          {status === "succeeded" && jobId ? (
+            <Link to={`/prepress?jobId=${encodeURIComponent(jobId)}`} onClick={(e) => e.stopPropagation()}>
+              {badge}
+            </Link>
+          ) : (
+            badge
+          )}
+        </TooltipTrigger>
+        <TooltipContent>{tooltip}</TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
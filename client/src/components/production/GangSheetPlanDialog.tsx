@@ -0,0 +1,363 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Layers } from "lucide-react";
+import {
+  nestingLayoutUrl,
+  usePlanGangSheet,
+  type GangSheetPlan,
+  type ProductionJobListItem,
+  type ProductionOrderLineItemSummary,
+} from "@/hooks/useProduction";
+import type { SheetNestingMode } from "@shared/sheetNesting";
+
+const ITEM_COLORS = ["#2563eb", "#16a34a", "#d97706", "#9333ea", "#dc2626", "#0891b2", "#65a30d", "#db2777"];
+
+type NestableJob = {
+  jobId: string;
+  lineItem: ProductionOrderLineItemSummary;
+  orderNumber: string;
+  customerName: string;
+};
+
+function jobLineItem(job: ProductionJobListItem): ProductionOrderLineItemSummary | null {
+  const items = job.order.lineItems?.items ?? [];
+  return items.find((item) => item.id === job.lineItemId) ?? job.order.lineItems?.primary ?? null;
+}
+
+function parseOptionalInches(value: string): number | undefined {
+  const n = Number(value);
+  return value.trim() && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * SheetLayoutPreview - Scaled SVG of one nested sheet. Trim boxes are filled per line item;
+ * the dashed border marks the sheet margin.
+ */
+export function SheetLayoutPreview({
+  plan,
+  sheetIndex,
+  colorFor,
+}: {
+  plan: GangSheetPlan;
+  sheetIndex: number;
+  colorFor: (itemId: string) => string;
+}) {
+  const sheet = plan.sheets[sheetIndex];
+  const { sheetWidthIn: w, sheetHeightIn: h, marginIn } = plan;
+  const labelSize = Math.max(Math.min(w, h) / 40, 0.6);
+
+  return (
+    <svg viewBox={`0 0 ${w} ${h}`} className="w-full h-auto max-h-[60vh] border border-titan-border-subtle bg-white">
+      {marginIn > 0 ? (
+        <rect
+          x={marginIn}
+          y={marginIn}
+          width={w - 2 * marginIn}
+          height={h - 2 * marginIn}
+          fill="none"
+          stroke="#94a3b8"
+          strokeWidth={0.1}
+          strokeDasharray="0.5 0.5"
+        />
+      ) : null}
+      {sheet.placements.map((p) => (
+        <g key={`${p.itemId}-${p.copy}`}>
+          {plan.bleedIn > 0 ? (
+            <rect
+              x={p.x - plan.bleedIn}
+              y={p.y - plan.bleedIn}
+              width={p.width + 2 * plan.bleedIn}
+              height={p.height + 2 * plan.bleedIn}
+              fill={colorFor(p.itemId)}
+              fillOpacity={0.12}
+            />
+          ) : null}
+          <rect x={p.x} y={p.y} width={p.width} height={p.height} fill={colorFor(p.itemId)} fillOpacity={0.35} stroke={colorFor(p.itemId)} strokeWidth={0.1} />
+          {Math.min(p.width, p.height) >= labelSize * 2 ? (
+            <text
+              x={p.x + p.width / 2}
+              y={p.y + p.height / 2}
+              fontSize={labelSize}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fill="#0f172a"
+            >
+              {p.width}×{p.height}
+              {p.rotated ? " ↻" : ""}
+            </text>
+          ) : null}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * GangSheetPlanDialog - Lets the operator pick queued flatbed jobs on one material and shows
+ * the proposed gang sheet (mixed sizes nested together) with yield per sheet.
+ */
+export default function GangSheetPlanDialog({ jobs }: { jobs: ProductionJobListItem[] }) {
+  const [open, setOpen] = useState(false);
+  const [materialKey, setMaterialKey] = useState<string>("");
+  const [selectedLineItemIds, setSelectedLineItemIds] = useState<string[]>([]);
+  const [mode, setMode] = useState<SheetNestingMode>("free_rect");
+  const [allowRotation, setAllowRotation] = useState(true);
+  const [gutterIn, setGutterIn] = useState("0.25");
+  const [bleedIn, setBleedIn] = useState("0");
+  const [marginIn, setMarginIn] = useState("0");
+  const [sheetWidthIn, setSheetWidthIn] = useState("");
+  const [sheetHeightIn, setSheetHeightIn] = useState("");
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const planMutation = usePlanGangSheet();
+  const plan = planMutation.data ?? null;
+
+  const materialGroups = useMemo(() => {
+    const groups = new Map<string, { name: string; jobs: NestableJob[] }>();
+    for (const job of jobs) {
+      if (job.status === "done") continue;
+      const lineItem = jobLineItem(job);
+      if (!lineItem || !lineItem.width || !lineItem.height) continue;
+      const key = lineItem.materialId ?? "none";
+      const group = groups.get(key) ?? { name: lineItem.materialName || "No material", jobs: [] };
+      if (!group.jobs.some((j) => j.lineItem.id === lineItem.id)) {
+        group.jobs.push({ jobId: job.id, lineItem, orderNumber: job.order.orderNumber, customerName: job.order.customerName });
+      }
+      groups.set(key, group);
+    }
+    return groups;
+  }, [jobs]);
+
+  useEffect(() => {
+    if (!open) return;
+    if (materialKey && materialGroups.has(materialKey)) return;
+    const first = Array.from(materialGroups.keys())[0] ?? "";
+    setMaterialKey(first);
+  }, [open, materialGroups, materialKey]);
+
+  useEffect(() => {
+    const group = materialGroups.get(materialKey);
+    setSelectedLineItemIds(group ? group.jobs.map((j) => j.lineItem.id) : []);
+    planMutation.reset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [materialKey]);
+
+  const colorByItemId = useMemo(() => {
+    const map = new Map<string, string>();
+    (plan?.items ?? []).forEach((item, i) => map.set(item.itemId, ITEM_COLORS[i % ITEM_COLORS.length]));
+    return map;
+  }, [plan]);
+
+  const group = materialGroups.get(materialKey);
+
+  const planOptions = {
+    mode,
+    allowRotation,
+    gutterIn: Number(gutterIn) || 0,
+    bleedIn: Number(bleedIn) || 0,
+    marginIn: Number(marginIn) || 0,
+    sheetWidthIn: parseOptionalInches(sheetWidthIn),
+    sheetHeightIn: parseOptionalInches(sheetHeightIn),
+  };
+
+  const runPlan = () => {
+    setSheetIndex(0);
+    planMutation.mutate({ lineItemIds: selectedLineItemIds, ...planOptions });
+  };
+
+  const exportParams = {
+    jobIds: (group?.jobs ?? []).filter((j) => selectedLineItemIds.includes(j.lineItem.id)).map((j) => j.jobId),
+    kind: "sheet" as const,
+    ...planOptions,
+  };
+
+  return (
+    <>
+      <Button size="sm" variant="outline" onClick={() => setOpen(true)} disabled={materialGroups.size === 0}>
+        <Layers className="h-4 w-4 mr-1" />
+        Gang sheet
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Gang sheet plan</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-[280px_1fr] gap-4">
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label>Material</Label>
+                <Select value={materialKey} onValueChange={setMaterialKey}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select material" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(materialGroups.entries()).map(([key, g]) => (
+                      <SelectItem key={key} value={key}>
+                        {g.name} ({g.jobs.length})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1 max-h-48 overflow-y-auto rounded border border-titan-border-subtle p-2">
+                {(group?.jobs ?? []).map((j) => (
+                  <label key={j.lineItem.id} className="flex items-start gap-2 text-sm py-1">
+                    <Checkbox
+                      checked={selectedLineItemIds.includes(j.lineItem.id)}
+                      onCheckedChange={(checked) =>
+                        setSelectedLineItemIds((prev) =>
+                          checked ? [...prev, j.lineItem.id] : prev.filter((id) => id !== j.lineItem.id)
+                        )
+                      }
+                    />
+                    <span>
+                      <span className="font-medium">#{j.orderNumber}</span> {j.customerName}
+                      <span className="block text-xs text-titan-text-muted">
+                        {j.lineItem.width}×{j.lineItem.height} in · qty {j.lineItem.quantity}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <Label>Mode</Label>
+                <Select value={mode} onValueChange={(v) => setMode(v as SheetNestingMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="free_rect">Free rectangle (densest)</SelectItem>
+                    <SelectItem value="guillotine">Guillotine (edge-to-edge cuts)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="gang-rotate">Allow rotation</Label>
+                <Switch id="gang-rotate" checked={allowRotation} onCheckedChange={setAllowRotation} />
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Gutter (in)</Label>
+                  <Input value={gutterIn} onChange={(e) => setGutterIn(e.target.value)} inputMode="decimal" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Bleed (in)</Label>
+                  <Input value={bleedIn} onChange={(e) => setBleedIn(e.target.value)} inputMode="decimal" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Margin (in)</Label>
+                  <Input value={marginIn} onChange={(e) => setMarginIn(e.target.value)} inputMode="decimal" />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Sheet W (in)</Label>
+                  <Input value={sheetWidthIn} onChange={(e) => setSheetWidthIn(e.target.value)} placeholder="Material" inputMode="decimal" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Sheet H (in)</Label>
+                  <Input value={sheetHeightIn} onChange={(e) => setSheetHeightIn(e.target.value)} placeholder="Material" inputMode="decimal" />
+                </div>
+              </div>
+
+              <Button className="w-full" onClick={runPlan} disabled={selectedLineItemIds.length === 0 || planMutation.isPending}>
+                {planMutation.isPending ? "Planning…" : "Plan gang sheet"}
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              {!plan ? (
+                <div className="text-sm text-titan-text-muted">
+                  Select line items on the same material and plan to see the proposed layout.
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="secondary">
+                      {plan.totalSheets} sheet{plan.totalSheets === 1 ? "" : "s"} · {plan.sheetWidthIn}×{plan.sheetHeightIn} in
+                    </Badge>
+                    <Badge variant="secondary">Yield {plan.yieldPercent}%</Badge>
+                    <Badge variant="secondary">
+                      {plan.placedPieces}/{plan.totalPieces} pieces
+                    </Badge>
+                    {plan.material ? <span className="text-titan-text-muted">{plan.material.name}</span> : null}
+                    {plan.sheets.length > 0 ? (
+                      <div className="ml-auto flex gap-2">
+                        <Button asChild size="sm" variant="outline">
+                          <a href={nestingLayoutUrl("svg", { ...exportParams, sheet: Math.min(sheetIndex, plan.sheets.length - 1) })}>
+                            <Download className="h-4 w-4 mr-1" />
+                            SVG
+                          </a>
+                        </Button>
+                        <Button asChild size="sm" variant="outline">
+                          <a href={nestingLayoutUrl("pdf", exportParams)}>
+                            <Download className="h-4 w-4 mr-1" />
+                            PDF
+                          </a>
+                        </Button>
+                      </div>
+                    ) : null}
+                  </div>
+
+                  {plan.warnings.map((warning) => (
+                    <div key={warning} className="text-sm text-amber-600">
+                      {warning}
+                    </div>
+                  ))}
+
+                  {plan.sheets.length > 0 ? (
+                    <>
+                      <div className="flex flex-wrap gap-1">
+                        {plan.sheets.map((sheet) => (
+                          <Button
+                            key={sheet.index}
+                            size="sm"
+                            variant={sheet.index === sheetIndex ? "default" : "outline"}
+                            onClick={() => setSheetIndex(sheet.index)}
+                          >
+                            Sheet {sheet.index + 1} · {sheet.yieldPercent}%
+                          </Button>
+                        ))}
+                      </div>
+                      <SheetLayoutPreview
+                        plan={plan}
+                        sheetIndex={Math.min(sheetIndex, plan.sheets.length - 1)}
+                        colorFor={(id) => colorByItemId.get(id) ?? ITEM_COLORS[0]}
+                      />
+                    </>
+                  ) : null}
+
+                  <div className="space-y-1">
+                    {plan.items.map((item) => (
+                      <div key={item.itemId} className="flex items-center gap-2 text-sm">
+                        <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: colorByItemId.get(item.itemId) }} />
+                        <span className="flex-1 truncate">{item.label}</span>
+                        <span className="text-titan-text-muted">
+                          {item.placed}/{item.quantity} on sheet{item.sheetIndexes.length === 1 ? "" : "s"}{" "}
+                          {item.sheetIndexes.map((i) => i + 1).join(", ") || "—"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
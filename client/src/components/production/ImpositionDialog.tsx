@@ -0,0 +1,261 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Grid3x3 } from "lucide-react";
+import { impositionPdfUrl, useJobImposition, type ImpositionParams, type JobImposition } from "@/hooks/useProduction";
+import type { ImpositionMode } from "@shared/imposition";
+
+const DESIGN_COLORS = ["#2563eb", "#16a34a", "#d97706", "#9333ea", "#dc2626", "#0891b2", "#65a30d", "#db2777"];
+
+const SHEET_SOURCE_LABELS: Record<JobImposition["sheetSource"], string> = {
+  request: "entered size",
+  product: "product flat goods config",
+  pricing_formula: "pricing formula config",
+  product_legacy: "product sheet size",
+};
+
+function parseOptionalInches(value: string): number | undefined {
+  const n = Number(value);
+  return value.trim() && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * ImpositionSheetPreview - Scaled SVG of one imposed sheet. Slots are tinted per design and
+ * numbered with the artwork page (front page when duplex); blank slots stay empty.
+ */
+function ImpositionSheetPreview({ imposition, sheetIndex }: { imposition: JobImposition; sheetIndex: number }) {
+  const { plan, duplex } = imposition;
+  const sheet = plan.sheets[sheetIndex];
+  const { sheetWidthIn: w, sheetHeightIn: h, marginIn } = plan;
+  const labelSize = Math.max(Math.min(w, h) / 40, 0.3);
+
+  return (
+    <svg viewBox={`0 0 ${w} ${h}`} className="w-full h-auto max-h-[60vh] border border-titan-border-subtle bg-white">
+      {marginIn > 0 ? (
+        <rect
+          x={marginIn}
+          y={marginIn}
+          width={w - 2 * marginIn}
+          height={h - 2 * marginIn}
+          fill="none"
+          stroke="#94a3b8"
+          strokeWidth={0.05}
+          strokeDasharray="0.25 0.25"
+        />
+      ) : null}
+      {plan.slots.map((slot) => {
+        const design = sheet.designs[slot.index];
+        if (design === null) {
+          return <rect key={slot.index} x={slot.x} y={slot.y} width={slot.width} height={slot.height} fill="none" stroke="#cbd5e1" strokeWidth={0.03} />;
+        }
+        const color = DESIGN_COLORS[design % DESIGN_COLORS.length];
+        return (
+          <g key={slot.index}>
+            <rect
+              x={slot.x - slot.bleed.left}
+              y={slot.y - slot.bleed.top}
+              width={slot.width + slot.bleed.left + slot.bleed.right}
+              height={slot.height + slot.bleed.top + slot.bleed.bottom}
+              fill={color}
+              fillOpacity={0.12}
+            />
+            <rect x={slot.x} y={slot.y} width={slot.width} height={slot.height} fill={color} fillOpacity={0.35} stroke={color} strokeWidth={0.03} />
+            <text
+              x={slot.x + slot.width / 2}
+              y={slot.y + slot.height / 2}
+              fontSize={labelSize}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fill="#0f172a"
+            >
+              p{duplex ? design * 2 + 1 : design + 1}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/**
+ * ImpositionDialog - Imposes a job's line item artwork onto the product's press sheet
+ * (step & repeat, n-up or cut & stack) and downloads the press PDF with crop marks and slug.
+ */
+export default function ImpositionDialog({ jobId }: { jobId: string }) {
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<ImpositionMode>("step_and_repeat");
+  const [duplex, setDuplex] = useState(false);
+  const [allowRotation, setAllowRotation] = useState(true);
+  const [gutterIn, setGutterIn] = useState("0.25");
+  const [bleedIn, setBleedIn] = useState("0.125");
+  const [marginIn, setMarginIn] = useState("0.375");
+  const [sheetWidthIn, setSheetWidthIn] = useState("");
+  const [sheetHeightIn, setSheetHeightIn] = useState("");
+  const [sheetIndex, setSheetIndex] = useState(0);
+  // Planning downloads the artwork server-side, so only plan on request
+  const [submitted, setSubmitted] = useState<ImpositionParams | null>(null);
+
+  const params: ImpositionParams = {
+    mode,
+    duplex,
+    allowRotation,
+    gutterIn: Number(gutterIn) || 0,
+    bleedIn: Number(bleedIn) || 0,
+    marginIn: Number(marginIn) || 0,
+    sheetWidthIn: parseOptionalInches(sheetWidthIn),
+    sheetHeightIn: parseOptionalInches(sheetHeightIn),
+  };
+
+  const query = useJobImposition(jobId, submitted ?? params, open && !!submitted);
+  const imposition = submitted ? (query.data ?? null) : null;
+  const plan = imposition?.plan ?? null;
+
+  const runPlan = () => {
+    setSheetIndex(0);
+    setSubmitted(params);
+  };
+
+  return (
+    <>
+      <Button size="sm" variant="outline" className="gap-1.5" onClick={() => setOpen(true)}>
+        <Grid3x3 className="w-4 h-4" /> Impose
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Imposition</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-[280px_1fr] gap-4">
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label>Layout</Label>
+                <Select value={mode} onValueChange={(v) => setMode(v as ImpositionMode)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="step_and_repeat">Step & repeat (one design per sheet)</SelectItem>
+                    <SelectItem value="n_up">N-up (designs in page order)</SelectItem>
+                    <SelectItem value="cut_and_stack">Cut & stack (sequence by stack)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="impose-duplex">Duplex (front/back page pairs)</Label>
+                <Switch id="impose-duplex" checked={duplex} onCheckedChange={setDuplex} />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="impose-rotate">Allow rotation</Label>
+                <Switch id="impose-rotate" checked={allowRotation} onCheckedChange={setAllowRotation} />
+              </div>
+
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Gutter (in)</Label>
+                  <Input value={gutterIn} onChange={(e) => setGutterIn(e.target.value)} inputMode="decimal" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Bleed (in)</Label>
+                  <Input value={bleedIn} onChange={(e) => setBleedIn(e.target.value)} inputMode="decimal" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Margin (in)</Label>
+                  <Input value={marginIn} onChange={(e) => setMarginIn(e.target.value)} inputMode="decimal" />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Sheet W (in)</Label>
+                  <Input value={sheetWidthIn} onChange={(e) => setSheetWidthIn(e.target.value)} placeholder="Product" inputMode="decimal" />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Sheet H (in)</Label>
+                  <Input value={sheetHeightIn} onChange={(e) => setSheetHeightIn(e.target.value)} placeholder="Product" inputMode="decimal" />
+                </div>
+              </div>
+
+              <Button className="w-full" onClick={runPlan} disabled={query.isFetching}>
+                {query.isFetching ? "Planning…" : "Plan imposition"}
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              {query.isError && submitted ? (
+                <div className="text-sm text-destructive">{(query.error as Error).message}</div>
+              ) : !imposition || !plan ? (
+                <div className="text-sm text-titan-text-muted">
+                  Plan to lay out this job's artwork on the product's press sheet.
+                </div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="secondary">
+                      {plan.columns * plan.rows}-up{plan.rotated ? " (rotated)" : ""} · {plan.trimWidthIn}×{plan.trimHeightIn} in
+                    </Badge>
+                    <Badge variant="secondary">
+                      {plan.totalSheets} press sheet{plan.totalSheets === 1 ? "" : "s"} · {plan.sheetWidthIn}×{plan.sheetHeightIn} in
+                    </Badge>
+                    <Badge variant="secondary">Yield {plan.yieldPercent}%</Badge>
+                    {plan.overs > 0 ? <Badge variant="secondary">{plan.overs} overs</Badge> : null}
+                    <span className="text-titan-text-muted">
+                      {imposition.artwork.fileName} · sheet from {SHEET_SOURCE_LABELS[imposition.sheetSource]}
+                    </span>
+                    {plan.sheets.length > 0 && submitted ? (
+                      <Button asChild size="sm" variant="outline" className="ml-auto">
+                        <a href={impositionPdfUrl(jobId, submitted)}>
+                          <Download className="h-4 w-4 mr-1" />
+                          PDF
+                        </a>
+                      </Button>
+                    ) : null}
+                  </div>
+
+                  {plan.warnings.map((warning) => (
+                    <div key={warning} className="text-sm text-amber-600">
+                      {warning}
+                    </div>
+                  ))}
+
+                  {plan.sheets.length > 0 ? (
+                    <>
+                      {plan.sheets.length > 1 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {plan.sheets.map((sheet) => (
+                            <Button
+                              key={sheet.index}
+                              size="sm"
+                              variant={sheet.index === sheetIndex ? "default" : "outline"}
+                              onClick={() => setSheetIndex(sheet.index)}
+                            >
+                              {sheet.index + 1} ×{sheet.copies}
+                            </Button>
+                          ))}
+                        </div>
+                      ) : null}
+                      <ImpositionSheetPreview imposition={imposition} sheetIndex={Math.min(sheetIndex, plan.sheets.length - 1)} />
+                      <div className="text-xs text-titan-text-muted">
+                        Sheet {Math.min(sheetIndex, plan.sheets.length - 1) + 1} of {plan.sheets.length}, run ×
+                        {plan.sheets[Math.min(sheetIndex, plan.sheets.length - 1)].copies}
+                        {imposition.duplex ? " (front shown; backs are work-and-turn)" : ""}
+                      </div>
+                    </>
+                  ) : null}
+                </>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
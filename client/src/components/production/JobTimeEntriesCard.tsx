@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useProductionOperators } from "@/hooks/useProduction";
+import {
+  useCreateTimeEntry,
+  useDeleteTimeEntry,
+  useJobTimeEntries,
+  useUpdateTimeEntry,
+  type ProductionTimeEntry,
+} from "@/hooks/useJobCosting";
+
+type EntryForm = {
+  entryId?: string;
+  operatorUserId: string;
+  startedAt: string;
+  minutes: string;
+  stationKey: string;
+  note: string;
+};
+
+function formatMoney(amount: number | null) {
+  return amount == null ? "—" : `$${amount.toFixed(2)}`;
+}
+
+function formatDuration(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.round((totalSeconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function toForm(stationKey: string, entry?: ProductionTimeEntry): EntryForm {
+  return {
+    entryId: entry?.id,
+    operatorUserId: entry?.operatorUserId ?? "",
+    startedAt: format(entry ? new Date(entry.startedAt) : new Date(), "yyyy-MM-dd'T'HH:mm"),
+    minutes: entry ? String(Math.max(1, Math.round(entry.seconds / 60))) : "",
+    stationKey: entry?.stationKey ?? stationKey,
+    note: entry?.note ?? "",
+  };
+}
+
+/**
+ * JobTimeEntriesCard - Who worked on the job, where and for how long, with the labor and
+ * machine cost of each run. Timer runs are booked automatically; admins add time worked off
+ * the timer and correct entries.
+ */
+export function JobTimeEntriesCard({ jobId, stationKey, canEdit }: { jobId: string; stationKey: string; canEdit: boolean }) {
+  const { data: entries, isLoading, error } = useJobTimeEntries(jobId);
+  const [form, setForm] = useState<EntryForm | null>(null);
+  const { data: operators } = useProductionOperators(canEdit && !!form);
+  const createMutation = useCreateTimeEntry(jobId);
+  const updateMutation = useUpdateTimeEntry(jobId);
+  const deleteMutation = useDeleteTimeEntry(jobId);
+
+  const totals = (entries ?? []).reduce(
+    (acc, e) => ({
+      seconds: acc.seconds + e.seconds,
+      labor: acc.labor + (e.laborCost ?? 0),
+      machine: acc.machine + (e.machineCost ?? 0),
+    }),
+    { seconds: 0, labor: 0, machine: 0 }
+  );
+
+  const minutes = form ? parseInt(form.minutes, 10) : NaN;
+  const formValid = !!form && !!form.operatorUserId && !!form.startedAt && minutes >= 1 && minutes <= 24 * 60;
+
+  const handleSave = async () => {
+    if (!form || !formValid) return;
+    const input = {
+      operatorUserId: form.operatorUserId,
+      startedAt: new Date(form.startedAt).toISOString(),
+      minutes,
+      stationKey: form.stationKey.trim() || undefined,
+      note: form.note.trim() || null,
+    };
+    try {
+      if (form.entryId) await updateMutation.mutateAsync({ entryId: form.entryId, ...input });
+      else await createMutation.mutateAsync(input);
+      setForm(null);
+    } catch {
+      // toast from the mutation
+    }
+  };
+
+  const handleDelete = async (entry: ProductionTimeEntry) => {
+    if (!window.confirm("Delete this time entry? Its cost comes off the job.")) return;
+    await deleteMutation.mutateAsync(entry.id).catch(() => undefined);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="p-4 pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Labor Time</CardTitle>
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={() => setForm(toForm(stationKey))}>
+              <Plus className="w-4 h-4 mr-1.5" />
+              Add time
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        {error ? (
+          <div className="text-sm text-destructive">{(error as Error).message}</div>
+        ) : isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading time entries...</div>
+        ) : !entries || entries.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No time recorded yet.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Operator</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead>Station</TableHead>
+                <TableHead className="text-right">Time</TableHead>
+                <TableHead className="text-right">Labor</TableHead>
+                <TableHead className="text-right">Machine</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <div>{entry.operatorName ?? "Unknown"}</div>
+                    {entry.note && <div className="text-xs text-muted-foreground">{entry.note}</div>}
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {format(new Date(entry.startedAt), "MMM d, h:mm a")}
+                    {entry.source === "manual" && (
+                      <Badge variant="outline" className="ml-1.5">
+                        Manual
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{entry.stationKey}</TableCell>
+                  <TableCell className="text-right">{formatDuration(entry.seconds)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(entry.laborCost)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(entry.machineCost)}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="sm" onClick={() => setForm(toForm(stationKey, entry))}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(entry)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              <TableRow className="font-medium">
+                <TableCell colSpan={3}>Total</TableCell>
+                <TableCell className="text-right">{formatDuration(totals.seconds)}</TableCell>
+                <TableCell className="text-right">{formatMoney(totals.labor)}</TableCell>
+                <TableCell className="text-right">{formatMoney(totals.machine)}</TableCell>
+                {canEdit && <TableCell />}
+              </TableRow>
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(next) => !next && setForm(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{form?.entryId ? "Edit time entry" : "Add time entry"}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label>Operator</Label>
+                <Select value={form.operatorUserId} onValueChange={(value) => setForm({ ...form, operatorUserId: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select operator" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(operators ?? []).map((operator) => (
+                      <SelectItem key={operator.userId} value={operator.userId}>
+                        {operator.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="time-entry-start">Started</Label>
+                  <Input
+                    id="time-entry-start"
+                    type="datetime-local"
+                    value={form.startedAt}
+                    onChange={(e) => setForm({ ...form, startedAt: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="time-entry-minutes">Minutes</Label>
+                  <Input
+                    id="time-entry-minutes"
+                    type="number"
+                    min={1}
+                    max={24 * 60}
+                    value={form.minutes}
+                    onChange={(e) => setForm({ ...form, minutes: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="time-entry-station">Station key</Label>
+                <Input
+                  id="time-entry-station"
+                  value={form.stationKey}
+                  onChange={(e) => setForm({ ...form, stationKey: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="time-entry-note">Note</Label>
+                <Input
+                  id="time-entry-note"
+                  placeholder="Optional"
+                  value={form.note}
+                  onChange={(e) => setForm({ ...form, note: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!formValid || createMutation.isPending || updateMutation.isPending}
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
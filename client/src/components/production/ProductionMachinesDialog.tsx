@@ -0,0 +1,394 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Factory, Pencil, Plus, Trash2, X } from "lucide-react";
+import {
+  useDeleteProductionMachine,
+  useProductionMachines,
+  useSaveProductionMachine,
+  type ProductionMachine,
+} from "@/hooks/useProduction";
+import { useSaveStationRate, useStationRates } from "@/hooks/useJobCosting";
+import { DEFAULT_MACHINE_SHIFTS, type MachineShift, type MachineThroughputUnit } from "@shared/productionCapacity";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const UNIT_LABELS: Record<MachineThroughputUnit, string> = {
+  sqft_per_hour: "sq ft / hr",
+  sheets_per_hour: "sheets / hr",
+  pieces_per_hour: "pieces / hr",
+};
+
+type MachineForm = {
+  id?: string;
+  name: string;
+  stationKey: string;
+  throughputUnit: MachineThroughputUnit;
+  throughputRate: string;
+  setupMinutes: string;
+  timezone: string;
+  workingHours: MachineShift[];
+  closedDates: string;
+  isActive: boolean;
+};
+
+function toForm(machine?: ProductionMachine): MachineForm {
+  return {
+    id: machine?.id,
+    name: machine?.name ?? "",
+    stationKey: machine?.stationKey ?? "flatbed",
+    throughputUnit: machine?.throughputUnit ?? "sqft_per_hour",
+    throughputRate: machine ? String(Number(machine.throughputRate)) : "",
+    setupMinutes: String(machine?.setupMinutes ?? 0),
+    timezone: machine?.timezone ?? "",
+    workingHours: machine?.workingHours ?? DEFAULT_MACHINE_SHIFTS,
+    closedDates: (machine?.closedDates ?? []).join("\n"),
+    isActive: machine?.isActive ?? true,
+  };
+}
+
+function shiftSummary(shifts: MachineShift[]): string {
+  if (shifts.length === 0) return "No working hours";
+  const days = Array.from(new Set(shifts.map((s) => s.day))).sort();
+  const times = Array.from(new Set(shifts.map((s) => `${s.start}–${s.end}`)));
+  return `${days.map((d) => DAY_LABELS[d]).join(" ")} · ${times.join(", ")}`;
+}
+
+/** Machine-hour rate per station, charged on every hour worked there in job costing. */
+function StationRatesSection({ stationKeys }: { stationKeys: string[] }) {
+  const { data: rates } = useStationRates();
+  const saveMutation = useSaveStationRate();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const rateByStation = new Map((rates ?? []).map((r) => [r.stationKey, String(Number(r.machineRatePerHour))]));
+  const stations = Array.from(new Set([...stationKeys, ...Array.from(rateByStation.keys())])).sort();
+  if (stations.length === 0) return null;
+
+  const handleSave = async (stationKey: string) => {
+    const draft = (drafts[stationKey] ?? "").trim();
+    try {
+      await saveMutation.mutateAsync({ stationKey, machineRatePerHour: draft === "" ? null : Number(draft) });
+      setDrafts((prev) => {
+        const { [stationKey]: _saved, ...rest } = prev;
+        return rest;
+      });
+    } catch {
+      // toast from the mutation
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t pt-3">
+      <div className="text-sm font-medium">Machine-hour rates</div>
+      <p className="text-xs text-muted-foreground">
+        Charged on time worked at the station in job costing. Blank means the station's time is not costed.
+      </p>
+      {stations.map((stationKey) => {
+        const saved = rateByStation.get(stationKey) ?? "";
+        const value = drafts[stationKey] ?? saved;
+        const dirty = value.trim() !== saved && (value.trim() === "" || Number(value) >= 0);
+        return (
+          <div key={stationKey} className="flex items-center gap-2">
+            <Badge variant="secondary" className="w-32 justify-center">
+              {stationKey}
+            </Badge>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder="$ / hour"
+              className="h-8 w-32"
+              value={value}
+              onChange={(e) => setDrafts((prev) => ({ ...prev, [stationKey]: e.target.value }))}
+            />
+            <span className="text-xs text-muted-foreground">/ hour</span>
+            {dirty && (
+              <Button size="sm" variant="outline" className="h-8" disabled={saveMutation.isPending} onClick={() => handleSave(stationKey)}>
+                Save
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * ProductionMachinesDialog - Machines behind each station: throughput rate, setup time and the
+ * weekly shift calendar the capacity scheduler plans jobs into, and each station's machine-hour
+ * rate for job costing.
+ */
+export default function ProductionMachinesDialog() {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<MachineForm | null>(null);
+  const { data: machines, isLoading, error } = useProductionMachines();
+  const saveMutation = useSaveProductionMachine();
+  const deleteMutation = useDeleteProductionMachine();
+
+  const set = <K extends keyof MachineForm>(key: K, value: MachineForm[K]) =>
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+  const setShift = (index: number, patch: Partial<MachineShift>) =>
+    setForm((prev) =>
+      prev ? { ...prev, workingHours: prev.workingHours.map((s, i) => (i === index ? { ...s, ...patch } : s)) } : prev
+    );
+
+  const handleSave = async () => {
+    if (!form) return;
+    try {
+      await saveMutation.mutateAsync({
+        id: form.id,
+        name: form.name.trim(),
+        stationKey: form.stationKey.trim(),
+        throughputUnit: form.throughputUnit,
+        throughputRate: Number(form.throughputRate),
+        setupMinutes: parseInt(form.setupMinutes, 10) || 0,
+        timezone: form.timezone.trim() || null,
+        workingHours: form.workingHours,
+        closedDates: form.closedDates
+          .split(/[\s,]+/)
+          .map((d) => d.trim())
+          .filter(Boolean),
+        isActive: form.isActive,
+      });
+      setForm(null);
+    } catch {
+      // toast from the mutation
+    }
+  };
+
+  const handleDelete = async (machine: ProductionMachine) => {
+    if (!window.confirm(`Delete machine "${machine.name}"? Its jobs are re-planned on the remaining machines.`)) return;
+    await deleteMutation.mutateAsync(machine.id).catch(() => undefined);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} className="h-9">
+        <Factory className="w-4 h-4 mr-1.5" />
+        Machines
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (!next) setForm(null);
+        }}
+      >
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form ? (form.id ? "Edit machine" : "New machine") : "Production machines"}</DialogTitle>
+          </DialogHeader>
+
+          {!form && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                Jobs are planned onto the active machines of their station in priority and due-date order. Run time is
+                the line item's size and quantity at the machine's rate, plus setup.
+              </p>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{(error as Error).message}</AlertDescription>
+                </Alert>
+              )}
+              {isLoading && <div className="text-sm text-muted-foreground">Loading machines...</div>}
+              {machines && machines.length === 0 && (
+                <div className="text-sm text-muted-foreground py-4 text-center">
+                  No machines yet. Jobs are not scheduled until their station has one.
+                </div>
+              )}
+
+              {(machines ?? []).map((machine) => (
+                <div key={machine.id} className="flex items-start justify-between gap-3 rounded border p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{machine.name}</span>
+                      <Badge variant="secondary">{machine.stationKey}</Badge>
+                      {!machine.isActive && <Badge variant="outline">Inactive</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {Number(machine.throughputRate)} {UNIT_LABELS[machine.throughputUnit]}
+                      {machine.setupMinutes > 0 ? ` · ${machine.setupMinutes} min setup` : ""}
+                      {" · "}
+                      {shiftSummary(machine.workingHours)}
+                      {machine.timezone ? ` (${machine.timezone})` : ""}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => setForm(toForm(machine))}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(machine)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <Button onClick={() => setForm(toForm())}>
+                <Plus className="w-4 h-4 mr-2" />
+                New machine
+              </Button>
+
+              <StationRatesSection stationKeys={(machines ?? []).map((m) => m.stationKey)} />
+            </div>
+          )}
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="machine-name">Name</Label>
+                  <Input id="machine-name" value={form.name} onChange={(e) => set("name", e.target.value)} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="machine-station">Station key</Label>
+                  <Input
+                    id="machine-station"
+                    placeholder="flatbed"
+                    value={form.stationKey}
+                    onChange={(e) => set("stationKey", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label className="text-xs">Rate</Label>
+                  <Input
+                    inputMode="decimal"
+                    value={form.throughputRate}
+                    onChange={(e) => set("throughputRate", e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Unit</Label>
+                  <Select value={form.throughputUnit} onValueChange={(v) => set("throughputUnit", v as MachineThroughputUnit)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(UNIT_LABELS) as MachineThroughputUnit[]).map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {UNIT_LABELS[unit]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Setup per job (min)</Label>
+                  <Input
+                    inputMode="numeric"
+                    value={form.setupMinutes}
+                    onChange={(e) => set("setupMinutes", e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="machine-timezone">Timezone</Label>
+                <Input
+                  id="machine-timezone"
+                  placeholder="Organization timezone"
+                  value={form.timezone}
+                  onChange={(e) => set("timezone", e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Working hours</Label>
+                {form.workingHours.map((shift, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={String(shift.day)} onValueChange={(v) => setShift(index, { day: Number(v) })}>
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DAY_LABELS.map((label, day) => (
+                          <SelectItem key={day} value={String(day)}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="w-32"
+                      placeholder="08:00"
+                      value={shift.start}
+                      onChange={(e) => setShift(index, { start: e.target.value })}
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      className="w-32"
+                      placeholder="17:00"
+                      value={shift.end}
+                      onChange={(e) => setShift(index, { end: e.target.value })}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => set("workingHours", form.workingHours.filter((_, i) => i !== index))}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => set("workingHours", [...form.workingHours, { day: 1, start: "08:00", end: "17:00" }])}
+                >
+                  <Plus className="w-4 h-4 mr-1.5" />
+                  Add shift
+                </Button>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="machine-closed">Closed dates</Label>
+                <Textarea
+                  id="machine-closed"
+                  rows={2}
+                  placeholder="2026-12-25, 2027-01-01"
+                  value={form.closedDates}
+                  onChange={(e) => set("closedDates", e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="machine-active">Active</Label>
+                <Switch id="machine-active" checked={form.isActive} onCheckedChange={(v) => set("isActive", v)} />
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleSave}
+                  disabled={saveMutation.isPending || !form.name.trim() || !form.stationKey.trim() || !(Number(form.throughputRate) > 0)}
+                >
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { IdCard, MonitorSmartphone, Pencil } from "lucide-react";
+import { ROUTES } from "@/config/routes";
+import { useProductionOperators, useSaveOperatorCredentials, type ProductionOperator } from "@/hooks/useProduction";
+import { useSaveLaborRate } from "@/hooks/useJobCosting";
+
+type OperatorForm = {
+  operator: ProductionOperator;
+  pin: string;
+  clearPin: boolean;
+  badgeCode: string;
+  laborRate: string;
+};
+
+/**
+ * ProductionOperatorsDialog - Kiosk sign-in per operator: a 4-8 digit PIN and/or a badge
+ * barcode. Operators sign in at the shop-floor kiosk with either before scanning job tickets.
+ * Also the operator's hourly labor rate, which costs their time entries.
+ */
+export default function ProductionOperatorsDialog() {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<OperatorForm | null>(null);
+  const { data: operators, isLoading, error } = useProductionOperators(open);
+  const saveMutation = useSaveOperatorCredentials();
+  const laborRateMutation = useSaveLaborRate();
+
+  const pinValid = form ? form.pin === "" || /^\d{4,8}$/.test(form.pin) : false;
+  const laborRateValid = form ? form.laborRate.trim() === "" || Number(form.laborRate) >= 0 : false;
+
+  const handleSave = async () => {
+    if (!form) return;
+    const badgeCode = form.badgeCode.trim();
+    const laborRate = form.laborRate.trim() === "" ? null : Number(form.laborRate);
+    const currentLaborRate = form.operator.laborRatePerHour == null ? null : Number(form.operator.laborRatePerHour);
+    try {
+      if (laborRate !== currentLaborRate) {
+        await laborRateMutation.mutateAsync({ userId: form.operator.userId, laborRatePerHour: laborRate });
+      }
+      await saveMutation.mutateAsync({
+        userId: form.operator.userId,
+        ...(form.clearPin ? { pin: null } : form.pin ? { pin: form.pin } : {}),
+        badgeCode: badgeCode || null,
+      });
+      setForm(null);
+    } catch {
+      // toast from the mutation
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} className="h-9">
+        <IdCard className="w-4 h-4 mr-1.5" />
+        Operators
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (!next) setForm(null);
+        }}
+      >
+        <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form ? `Kiosk sign-in · ${form.operator.name}` : "Kiosk operators"}</DialogTitle>
+          </DialogHeader>
+
+          {!form && (
+            <div className="space-y-3">
+              <div className="flex items-start justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  Operators sign in at the kiosk with their badge or PIN, then scan job tickets to start, pause or
+                  complete work. Timer events record who did it.
+                </p>
+                <Button asChild variant="outline" size="sm" className="shrink-0">
+                  <Link to={ROUTES.production.kiosk}>
+                    <MonitorSmartphone className="w-4 h-4 mr-1.5" />
+                    Open kiosk
+                  </Link>
+                </Button>
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{(error as Error).message}</AlertDescription>
+                </Alert>
+              )}
+              {isLoading && <div className="text-sm text-muted-foreground">Loading operators...</div>}
+
+              {(operators ?? []).map((operator) => (
+                <div key={operator.userId} className="flex items-center justify-between gap-3 rounded border p-3">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{operator.name}</span>
+                      <Badge variant="secondary">{operator.role}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {operator.hasPin ? "PIN set" : "No PIN"}
+                      {" · "}
+                      {operator.badgeCode ? `Badge ${operator.badgeCode}` : "No badge"}
+                      {" · "}
+                      {operator.laborRatePerHour != null ? `$${Number(operator.laborRatePerHour).toFixed(2)}/h` : "No labor rate"}
+                    </div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      setForm({
+                        operator,
+                        pin: "",
+                        clearPin: false,
+                        badgeCode: operator.badgeCode ?? "",
+                        laborRate: operator.laborRatePerHour ?? "",
+                      })
+                    }
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="operator-pin">{form.operator.hasPin ? "New PIN" : "PIN"}</Label>
+                <Input
+                  id="operator-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="new-password"
+                  maxLength={8}
+                  placeholder={form.operator.hasPin ? "Leave blank to keep the current PIN" : "4 to 8 digits"}
+                  value={form.pin}
+                  disabled={form.clearPin}
+                  onChange={(e) => setForm({ ...form, pin: e.target.value.replace(/\D/g, "") })}
+                />
+                {!pinValid && <p className="text-xs text-destructive">PIN must be 4 to 8 digits</p>}
+                {form.operator.hasPin && (
+                  <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={form.clearPin}
+                      onChange={(e) => setForm({ ...form, clearPin: e.target.checked, pin: "" })}
+                    />
+                    Remove PIN sign-in
+                  </label>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="operator-badge">Badge code</Label>
+                <Input
+                  id="operator-badge"
+                  placeholder="Scan or type the badge barcode"
+                  value={form.badgeCode}
+                  onChange={(e) => setForm({ ...form, badgeCode: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">At least 8 characters. Leave blank for no badge sign-in.</p>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="operator-labor-rate">Labor rate ($/hour)</Label>
+                <Input
+                  id="operator-labor-rate"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="Not costed"
+                  value={form.laborRate}
+                  onChange={(e) => setForm({ ...form, laborRate: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Costs this operator's time from now on; earlier entries keep the rate they were recorded at.
+                </p>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={saveMutation.isPending || laborRateMutation.isPending || !pinValid || !laborRateValid}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,445 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Pencil, Plus, Route, Trash2, X } from "lucide-react";
+import {
+  useDeleteProductionRouting,
+  useProductionRoutings,
+  useSaveProductionRouting,
+  type ProductionRouting,
+} from "@/hooks/useProduction";
+import { useProductTypes } from "@/hooks/useProductTypes";
+import type { MachineThroughputUnit } from "@shared/productionCapacity";
+import type { RoutingOperation } from "@shared/productionRouting";
+
+const UNIT_LABELS: Record<MachineThroughputUnit, string> = {
+  sqft_per_hour: "sq ft / hr",
+  sheets_per_hour: "sheets / hr",
+  pieces_per_hour: "pieces / hr",
+};
+
+type OperationForm = {
+  key: string;
+  name: string;
+  stationKey: string;
+  setupMinutes: string;
+  runRate: string;
+  runRateUnit: MachineThroughputUnit;
+  optionId: string;
+  optionValues: string;
+};
+
+type RoutingForm = {
+  id?: string;
+  name: string;
+  description: string;
+  isActive: boolean;
+  operations: OperationForm[];
+  productIds: string[];
+  productTypeIds: string[];
+};
+
+type ProductSummary = { id: string; name: string; productTypeId: string | null };
+
+function toOperationForm(op?: RoutingOperation): OperationForm {
+  return {
+    key: op?.key ?? "",
+    name: op?.name ?? "",
+    stationKey: op?.stationKey ?? "",
+    setupMinutes: op?.setupMinutes != null ? String(op.setupMinutes) : "",
+    runRate: op?.runRate != null ? String(op.runRate) : "",
+    runRateUnit: op?.runRateUnit ?? "sqft_per_hour",
+    optionId: op?.condition?.optionId ?? "",
+    optionValues: (op?.condition?.values ?? []).join(", "),
+  };
+}
+
+function toForm(routing?: ProductionRouting): RoutingForm {
+  return {
+    id: routing?.id,
+    name: routing?.name ?? "",
+    description: routing?.description ?? "",
+    isActive: routing?.isActive ?? true,
+    operations: routing ? routing.operations.map(toOperationForm) : [toOperationForm()],
+    productIds: routing?.productIds ?? [],
+    productTypeIds: routing?.productTypeIds ?? [],
+  };
+}
+
+function toOperation(op: OperationForm): RoutingOperation {
+  const optionId = op.optionId.trim();
+  return {
+    key: op.key.trim(),
+    name: op.name.trim() || op.key.trim(),
+    stationKey: op.stationKey.trim(),
+    setupMinutes: op.setupMinutes.trim() === "" ? null : parseInt(op.setupMinutes, 10) || 0,
+    runRate: Number(op.runRate) > 0 ? Number(op.runRate) : null,
+    runRateUnit: op.runRateUnit,
+    condition: optionId
+      ? {
+          optionId,
+          values: op.optionValues
+            .split(",")
+            .map((v) => v.trim())
+            .filter(Boolean),
+        }
+      : null,
+  };
+}
+
+function toggle(list: string[], id: string, on: boolean): string[] {
+  return on ? Array.from(new Set([...list, id])) : list.filter((x) => x !== id);
+}
+
+/**
+ * ProductionRoutingsDialog - Multi-step routing templates: ordered operations with station,
+ * setup time, run rate and an optional PBV2 option gate, attached to products or product types.
+ */
+export default function ProductionRoutingsDialog() {
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<RoutingForm | null>(null);
+  const [productSearch, setProductSearch] = useState("");
+  const { data: routings, isLoading, error } = useProductionRoutings();
+  const { data: productTypes } = useProductTypes();
+  const { data: productsResponse } = useQuery<any>({
+    queryKey: ["/api/products"],
+    queryFn: async () => {
+      const response = await fetch("/api/products", { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to fetch products");
+      return response.json();
+    },
+    enabled: open,
+  });
+  const saveMutation = useSaveProductionRouting();
+  const deleteMutation = useDeleteProductionRouting();
+
+  const products = (productsResponse?.data || productsResponse || []) as ProductSummary[];
+  const visibleProducts = useMemo(() => {
+    const q = productSearch.trim().toLowerCase();
+    return q ? products.filter((p) => p.name.toLowerCase().includes(q)) : products;
+  }, [products, productSearch]);
+
+  const set = <K extends keyof RoutingForm>(key: K, value: RoutingForm[K]) =>
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+  const setOperation = (index: number, patch: Partial<OperationForm>) =>
+    setForm((prev) =>
+      prev ? { ...prev, operations: prev.operations.map((op, i) => (i === index ? { ...op, ...patch } : op)) } : prev
+    );
+  const moveOperation = (index: number, delta: number) =>
+    setForm((prev) => {
+      if (!prev) return prev;
+      const target = index + delta;
+      if (target < 0 || target >= prev.operations.length) return prev;
+      const operations = [...prev.operations];
+      [operations[index], operations[target]] = [operations[target], operations[index]];
+      return { ...prev, operations };
+    });
+
+  const canSave =
+    !!form &&
+    !!form.name.trim() &&
+    form.operations.length > 0 &&
+    form.operations.every((op) => op.key.trim() && op.stationKey.trim());
+
+  const handleSave = async () => {
+    if (!form) return;
+    try {
+      await saveMutation.mutateAsync({
+        id: form.id,
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        isActive: form.isActive,
+        operations: form.operations.map(toOperation),
+        productIds: form.productIds,
+        productTypeIds: form.productTypeIds,
+      });
+      setForm(null);
+    } catch {
+      // toast from the mutation
+    }
+  };
+
+  const handleDelete = async (routing: ProductionRouting) => {
+    if (!window.confirm(`Delete routing "${routing.name}"? Jobs already created keep their operations.`)) return;
+    await deleteMutation.mutateAsync(routing.id).catch(() => undefined);
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => setOpen(true)} className="h-9">
+        <Route className="w-4 h-4 mr-1.5" />
+        Routings
+      </Button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (!next) setForm(null);
+        }}
+      >
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form ? (form.id ? "Edit routing" : "New routing") : "Production routings"}</DialogTitle>
+          </DialogHeader>
+
+          {!form && (
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                New jobs for a product follow its routing (or its product type's) one operation at a time. Each station
+                sees a job only after the operation before it is completed.
+              </p>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{(error as Error).message}</AlertDescription>
+                </Alert>
+              )}
+              {isLoading && <div className="text-sm text-muted-foreground">Loading routings...</div>}
+              {routings && routings.length === 0 && (
+                <div className="text-sm text-muted-foreground py-4 text-center">
+                  No routings yet. Jobs use the line item status rules for a single station.
+                </div>
+              )}
+
+              {(routings ?? []).map((routing) => (
+                <div key={routing.id} className="flex items-start justify-between gap-3 rounded border p-3">
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{routing.name}</span>
+                      {!routing.isActive && <Badge variant="outline">Inactive</Badge>}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-1 text-xs">
+                      {routing.operations.map((op, i) => (
+                        <span key={op.key} className="flex items-center gap-1">
+                          {i > 0 && <span className="text-muted-foreground">→</span>}
+                          <Badge variant={op.condition ? "outline" : "secondary"} title={op.stationKey}>
+                            {op.name}
+                          </Badge>
+                        </span>
+                      ))}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {routing.productIds.length} products · {routing.productTypeIds.length} product types
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => setForm(toForm(routing))}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(routing)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <Button onClick={() => setForm(toForm())}>
+                <Plus className="w-4 h-4 mr-2" />
+                New routing
+              </Button>
+            </div>
+          )}
+
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="routing-name">Name</Label>
+                  <Input id="routing-name" value={form.name} onChange={(e) => set("name", e.target.value)} />
+                </div>
+                <div className="flex items-end justify-end gap-2 pb-2">
+                  <Label htmlFor="routing-active">Active</Label>
+                  <Switch id="routing-active" checked={form.isActive} onCheckedChange={(v) => set("isActive", v)} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="routing-description">Description</Label>
+                <Textarea
+                  id="routing-description"
+                  rows={2}
+                  value={form.description}
+                  onChange={(e) => set("description", e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Operations</Label>
+                {form.operations.map((op, index) => (
+                  <div key={index} className="rounded border p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-medium text-muted-foreground w-5">{index + 1}.</span>
+                      <Input
+                        className="w-28"
+                        placeholder="key"
+                        value={op.key}
+                        onChange={(e) => setOperation(index, { key: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Name (e.g. Laminate)"
+                        value={op.name}
+                        onChange={(e) => setOperation(index, { name: e.target.value })}
+                      />
+                      <Input
+                        className="w-32"
+                        placeholder="station"
+                        value={op.stationKey}
+                        onChange={(e) => setOperation(index, { stationKey: e.target.value })}
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => moveOperation(index, -1)} disabled={index === 0}>
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => moveOperation(index, 1)}
+                        disabled={index === form.operations.length - 1}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => set("operations", form.operations.filter((_, i) => i !== index))}
+                        disabled={form.operations.length === 1}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-4 gap-2 pl-7">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Setup (min)</Label>
+                        <Input
+                          inputMode="numeric"
+                          placeholder="Machine's"
+                          value={op.setupMinutes}
+                          onChange={(e) => setOperation(index, { setupMinutes: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Run rate</Label>
+                        <Input
+                          inputMode="decimal"
+                          placeholder="Machine's"
+                          value={op.runRate}
+                          onChange={(e) => setOperation(index, { runRate: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Unit</Label>
+                        <Select
+                          value={op.runRateUnit}
+                          onValueChange={(v) => setOperation(index, { runRateUnit: v as MachineThroughputUnit })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(UNIT_LABELS) as MachineThroughputUnit[]).map((unit) => (
+                              <SelectItem key={unit} value={unit}>
+                                {UNIT_LABELS[unit]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs">Only if option</Label>
+                        <Input
+                          placeholder="Option node id"
+                          value={op.optionId}
+                          onChange={(e) => setOperation(index, { optionId: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    {op.optionId.trim() && (
+                      <div className="pl-7 space-y-1">
+                        <Label className="text-xs">Is one of (comma separated; empty = any selection)</Label>
+                        <Input
+                          placeholder="Gloss, Matte"
+                          value={op.optionValues}
+                          onChange={(e) => setOperation(index, { optionValues: e.target.value })}
+                        />
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => set("operations", [...form.operations, toOperationForm()])}
+                >
+                  <Plus className="w-4 h-4 mr-1.5" />
+                  Add operation
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Product types</Label>
+                  <div className="max-h-48 overflow-y-auto rounded border p-2 space-y-1.5">
+                    {(productTypes ?? []).length === 0 && (
+                      <div className="text-xs text-muted-foreground">No product types</div>
+                    )}
+                    {(productTypes ?? []).map((type) => (
+                      <label key={type.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={form.productTypeIds.includes(type.id)}
+                          onCheckedChange={(v) => set("productTypeIds", toggle(form.productTypeIds, type.id, v === true))}
+                        />
+                        {type.name}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>Products (override their type)</Label>
+                  <Input
+                    placeholder="Search products"
+                    value={productSearch}
+                    onChange={(e) => setProductSearch(e.target.value)}
+                    className="h-8"
+                  />
+                  <div className="max-h-40 overflow-y-auto rounded border p-2 space-y-1.5">
+                    {visibleProducts.map((product) => (
+                      <label key={product.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                        <Checkbox
+                          checked={form.productIds.includes(product.id)}
+                          onCheckedChange={(v) => set("productIds", toggle(form.productIds, product.id, v === true))}
+                        />
+                        <span className="truncate">{product.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => setForm(null)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSave} disabled={saveMutation.isPending || !canSave}>
+                  Save
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
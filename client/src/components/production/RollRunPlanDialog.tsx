@@ -0,0 +1,316 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, Printer, Ruler, ScrollText } from "lucide-react";
+import {
+  nestingLayoutUrl,
+  usePlanRollRun,
+  useRecordRollRunMediaUsed,
+  type ProductionJobListItem,
+  type ProductionOrderLineItemSummary,
+  type RollRunPlan,
+} from "@/hooks/useProduction";
+
+const ITEM_COLORS = ["#2563eb", "#16a34a", "#d97706", "#9333ea", "#dc2626", "#0891b2", "#65a30d", "#db2777"];
+
+type RunnableJob = {
+  jobId: string;
+  lineItem: ProductionOrderLineItemSummary;
+  orderNumber: string;
+  customerName: string;
+};
+
+function newRunId(): string {
+  const cryptoAny = (globalThis as any).crypto;
+  return typeof cryptoAny?.randomUUID === "function"
+    ? cryptoAny.randomUUID()
+    : `${Date.now()}_${Math.random().toString(16).slice(2)}`;
+}
+
+function jobLineItem(job: ProductionJobListItem): ProductionOrderLineItemSummary | null {
+  const items = job.order.lineItems?.items ?? [];
+  return items.find((item) => item.id === job.lineItemId) ?? job.order.lineItems?.primary ?? null;
+}
+
+/**
+ * RollRunPreview - The run drawn top-to-bottom in feed direction: edge waste shaded at the
+ * sides, lead/tail waste shaded at the ends, pieces filled per job.
+ */
+function RollRunPreview({ plan, colorFor }: { plan: RollRunPlan; colorFor: (jobId: string) => string }) {
+  const leadIn = plan.leadWasteFt * 12;
+  const tailIn = plan.tailWasteFt * 12;
+  const w = plan.rollWidthIn;
+  const h = Math.max(plan.printedLengthIn + leadIn + tailIn, 1);
+  const labelSize = Math.max(w / 30, 0.8);
+
+  return (
+    <svg viewBox={`0 0 ${w} ${h}`} className="w-full max-w-md mx-auto h-auto border border-slate-300 bg-white" preserveAspectRatio="xMidYMin meet">
+      {leadIn > 0 ? <rect x={0} y={0} width={w} height={leadIn} fill="#e2e8f0" /> : null}
+      {tailIn > 0 ? <rect x={0} y={h - tailIn} width={w} height={tailIn} fill="#e2e8f0" /> : null}
+      {plan.edgeWasteInPerSide > 0 ? (
+        <>
+          <rect x={0} y={0} width={plan.edgeWasteInPerSide} height={h} fill="#f1f5f9" />
+          <rect x={w - plan.edgeWasteInPerSide} y={0} width={plan.edgeWasteInPerSide} height={h} fill="#f1f5f9" />
+        </>
+      ) : null}
+      {plan.placements.map((p) => (
+        <g key={`${p.itemId}-${p.copy}`}>
+          <rect
+            x={p.x}
+            y={leadIn + p.y}
+            width={p.width}
+            height={p.height}
+            fill={colorFor(p.itemId)}
+            fillOpacity={0.35}
+            stroke={colorFor(p.itemId)}
+            strokeWidth={0.15}
+          />
+          {Math.min(p.width, p.height) >= labelSize * 2 ? (
+            <text
+              x={p.x + p.width / 2}
+              y={leadIn + p.y + p.height / 2}
+              fontSize={labelSize}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fill="#0f172a"
+            >
+              {p.width}×{p.height}
+              {p.rotated ? " ↻" : ""}
+            </text>
+          ) : null}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+/**
+ * RollRunPlanDialog - Packs queued roll jobs on one material into a single run, shows lanes,
+ * linear feet and waste, prints a run sheet and records media used on each job.
+ */
+export default function RollRunPlanDialog({ jobs }: { jobs: ProductionJobListItem[] }) {
+  const [open, setOpen] = useState(false);
+  const [materialKey, setMaterialKey] = useState<string>("");
+  const [selectedJobIds, setSelectedJobIds] = useState<string[]>([]);
+  const [allowRotation, setAllowRotation] = useState(true);
+  const [gutterIn, setGutterIn] = useState("0.25");
+  const planMutation = usePlanRollRun();
+  const recordMutation = useRecordRollRunMediaUsed();
+  const runSheetRef = useRef<HTMLDivElement>(null);
+  const plan = planMutation.data ?? null;
+  // One id per computed plan: recording the same plan again (double click, retry) is a no-op
+  const runId = useMemo(() => newRunId(), [plan]);
+
+  const materialGroups = useMemo(() => {
+    const groups = new Map<string, { name: string; jobs: RunnableJob[] }>();
+    for (const job of jobs) {
+      if (job.status === "done") continue;
+      const lineItem = jobLineItem(job);
+      if (!lineItem?.materialId || !lineItem.width || !lineItem.height) continue;
+      const group = groups.get(lineItem.materialId) ?? { name: lineItem.materialName || "Material", jobs: [] };
+      group.jobs.push({ jobId: job.id, lineItem, orderNumber: job.order.orderNumber, customerName: job.order.customerName });
+      groups.set(lineItem.materialId, group);
+    }
+    return groups;
+  }, [jobs]);
+
+  useEffect(() => {
+    if (!open) return;
+    if (materialKey && materialGroups.has(materialKey)) return;
+    setMaterialKey(Array.from(materialGroups.keys())[0] ?? "");
+  }, [open, materialGroups, materialKey]);
+
+  useEffect(() => {
+    const group = materialGroups.get(materialKey);
+    setSelectedJobIds(group ? group.jobs.map((j) => j.jobId) : []);
+    planMutation.reset();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [materialKey]);
+
+  const colorByJobId = useMemo(() => {
+    const map = new Map<string, string>();
+    (plan?.items ?? []).forEach((item, i) => map.set(item.itemId, ITEM_COLORS[i % ITEM_COLORS.length]));
+    return map;
+  }, [plan]);
+
+  const group = materialGroups.get(materialKey);
+  const request = { jobIds: selectedJobIds, allowRotation, gutterIn: Number(gutterIn) || 0 };
+
+  const handlePrint = () => {
+    if (!runSheetRef.current) return;
+    const printWindow = window.open("", "_blank");
+    if (printWindow) {
+      printWindow.document.write(
+        `<html><head><title>Roll run sheet</title><style>body{font-family:sans-serif;font-size:12px;margin:16px}table{border-collapse:collapse;width:100%}td,th{border:1px solid #cbd5e1;padding:4px;text-align:left}svg{max-height:80vh;display:block;margin:12px auto}</style></head><body>${runSheetRef.current.innerHTML}</body></html>`
+      );
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+    }
+  };
+
+  return (
+    <>
+      <Button size="sm" variant="outline" onClick={() => setOpen(true)} disabled={materialGroups.size === 0}>
+        <ScrollText className="h-4 w-4 mr-1" />
+        Roll run
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Roll run plan</DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-1 md:grid-cols-[280px_1fr] gap-4">
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label>Material</Label>
+                <Select value={materialKey} onValueChange={setMaterialKey}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select material" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(materialGroups.entries()).map(([key, g]) => (
+                      <SelectItem key={key} value={key}>
+                        {g.name} ({g.jobs.length})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-1 max-h-48 overflow-y-auto rounded border border-titan-border-subtle p-2">
+                {(group?.jobs ?? []).map((j) => (
+                  <label key={j.jobId} className="flex items-start gap-2 text-sm py-1">
+                    <Checkbox
+                      checked={selectedJobIds.includes(j.jobId)}
+                      onCheckedChange={(checked) =>
+                        setSelectedJobIds((prev) => (checked ? [...prev, j.jobId] : prev.filter((id) => id !== j.jobId)))
+                      }
+                    />
+                    <span>
+                      <span className="font-medium">#{j.orderNumber}</span> {j.customerName}
+                      <span className="block text-xs text-titan-text-muted">
+                        {j.lineItem.width}×{j.lineItem.height} in · qty {j.lineItem.quantity}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="roll-rotate">Allow rotation</Label>
+                <Switch id="roll-rotate" checked={allowRotation} onCheckedChange={setAllowRotation} />
+              </div>
+
+              <div className="space-y-1">
+                <Label className="text-xs">Gutter (in)</Label>
+                <Input value={gutterIn} onChange={(e) => setGutterIn(e.target.value)} inputMode="decimal" />
+              </div>
+
+              <Button className="w-full" onClick={() => planMutation.mutate(request)} disabled={selectedJobIds.length === 0 || planMutation.isPending}>
+                <Ruler className="h-4 w-4 mr-1" />
+                {planMutation.isPending ? "Planning…" : "Plan run"}
+              </Button>
+            </div>
+
+            <div className="space-y-3">
+              {!plan ? (
+                <div className="text-sm text-titan-text-muted">Select roll jobs on the same material and plan the run.</div>
+              ) : (
+                <>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="secondary">{plan.totalLinearFt} linear ft</Badge>
+                    <Badge variant="secondary">
+                      {plan.lanes.length} lane{plan.lanes.length === 1 ? "" : "s"} · {plan.printableWidthIn}" printable
+                    </Badge>
+                    <Badge variant={plan.exceedsRollLength ? "destructive" : "secondary"}>Waste {plan.wastePercent}%</Badge>
+                    <div className="ml-auto flex gap-2">
+                      <Button asChild size="sm" variant="outline">
+                        <a href={nestingLayoutUrl("pdf", { ...request, kind: "roll" })}>
+                          <Download className="h-4 w-4 mr-1" />
+                          PDF
+                        </a>
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={handlePrint}>
+                        <Printer className="h-4 w-4 mr-1" />
+                        Print run sheet
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={() => recordMutation.mutate({ ...request, runId })}
+                        disabled={recordMutation.isPending || plan.totalLinearFt <= 0}
+                      >
+                        {recordMutation.isPending ? "Saving…" : "Record media used"}
+                      </Button>
+                    </div>
+                  </div>
+
+                  {plan.warnings.map((warning) => (
+                    <div key={warning} className="text-sm text-amber-600">
+                      {warning}
+                    </div>
+                  ))}
+
+                  <div ref={runSheetRef} className="space-y-3">
+                    <h3 className="text-sm font-semibold">
+                      Run sheet · {plan.material.name} ({plan.material.sku}) · {plan.rollWidthIn}" roll
+                    </h3>
+                    <div className="text-xs text-titan-text-muted">
+                      Printed {Math.round((plan.printedLengthIn / 12) * 100) / 100} ft + lead {plan.leadWasteFt} ft + tail{" "}
+                      {plan.tailWasteFt} ft = {plan.totalLinearFt} ft · {plan.printedAreaSqFt} of {plan.mediaAreaSqFt} sq ft printed
+                    </div>
+                    <RollRunPreview plan={plan} colorFor={(id) => colorByJobId.get(id) ?? ITEM_COLORS[0]} />
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-titan-text-muted">
+                          <th className="py-1"></th>
+                          <th className="py-1">Order</th>
+                          <th className="py-1">Job</th>
+                          <th className="py-1">Pieces</th>
+                          <th className="py-1">Lanes</th>
+                          <th className="py-1">Media (ft)</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {plan.items.map((item) => {
+                          const job = plan.jobs.find((j) => j.jobId === item.itemId);
+                          const lanes = Array.from(
+                            new Set(plan.placements.filter((p) => p.itemId === item.itemId).map((p) => p.lane + 1))
+                          );
+                          return (
+                            <tr key={item.itemId}>
+                              <td className="py-1">
+                                <span className="inline-block h-3 w-3 rounded-sm" style={{ backgroundColor: colorByJobId.get(item.itemId) }} />
+                              </td>
+                              <td className="py-1">
+                                #{job?.orderNumber} {job?.customerName}
+                              </td>
+                              <td className="py-1">{job?.description}</td>
+                              <td className="py-1">
+                                {item.placed}/{item.quantity}
+                              </td>
+                              <td className="py-1">{lanes.join(", ") || "—"}</td>
+                              <td className="py-1">{item.linearFt}</td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -56,8 +56,13 @@
  * 
  * PRODUCTION:
  * - /production → ProductionBoard (kanban view)
+ * - /production/kiosk → ProductionKioskPage (shop-floor scan station, full screen)
  * - /jobs/:id → JobDetail (job detail)
  * 
+ * REPORTS:
+ * - /reports → redirects to /reports/job-profitability
+ * - /reports/job-profitability → JobProfitabilityReportPage (job cost vs. sell price)
+ * 
  * PRODUCTS & ADMIN:
  * - /products → ProductsPage (catalog)
  * - /admin → Admin (admin home)
@@ -84,7 +89,6 @@
  * 
  * REFERENCED IN NAV BUT NOT IMPLEMENTED:
  * - /fulfillment → [TODO: Route missing, nav item exists]
- * - /reports → [TODO: Route missing, nav item exists]
  * 
  * DEAD / UNUSED ROUTES:
  * - None identified yet
@@ -164,6 +168,13 @@ export const ROUTES = {
   production: {
     board: "/production",
     jobDetail: (jobId: string) => `/production/jobs/${jobId}`,
+    kiosk: "/production/kiosk",
+  },
+
+  // Reports
+  reports: {
+    root: "/reports",
+    jobProfitability: "/reports/job-profitability",
   },
   
   jobs: {
@@ -203,7 +214,6 @@ export const ROUTES = {
 
   // TODO: These routes are referenced in nav but not implemented
   // fulfillment: "/fulfillment",
-  // reports: "/reports",
 
   // Misc
   debugUser: "/debug-user",
@@ -3,6 +3,7 @@ import { useNavigate, Link } from "react-router-dom";
 import { formatDistanceToNow, format } from "date-fns";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import CustomerForm from "@/components/customer-form";
+import { CustomerPriceListTab } from "@/components/customers/CustomerPriceListTab";
 import {
   Building2,
   Mail,
@@ -78,7 +79,7 @@ import { cn } from "@/lib/utils";
 // TYPE DEFINITIONS
 // ============================================================
 
-type TabType = "orders" | "quotes" | "invoices" | "statement";
+type TabType = "orders" | "quotes" | "invoices" | "statement" | "pricing";
 type TimePeriod = "month" | "year" | "all";
 type LayoutMode = "full" | "embedded";
 
@@ -1875,6 +1876,7 @@ export default function EnhancedCustomerView({
     { key: "quotes" as const, label: "Quotes", count: quotes.length },
     { key: "invoices" as const, label: "Invoices", count: invoices.length },
     ...(!isEmbedded ? [{ key: "statement" as const, label: "Statement" }] : []),
+    ...(!isEmbedded ? [{ key: "pricing" as const, label: "Price List" }] : []),
   ];
 
   // Loading state
@@ -1938,7 +1940,7 @@ export default function EnhancedCustomerView({
         <div className="flex items-center justify-between gap-4 rounded-t-2xl bg-[#111827] border border-slate-800 px-4 py-2">
           {/* Left: Search Input */}
           <div className="flex items-center">
-            {activeTab !== "statement" && (
+            {activeTab !== "statement" && activeTab !== "pricing" && (
               <div className="relative w-64 max-w-xs">
                 <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
                 <Input
@@ -1990,7 +1992,7 @@ export default function EnhancedCustomerView({
 
           {/* Right: Status Filter */}
           <div className="flex items-center">
-            {activeTab !== "statement" && (
+            {activeTab !== "statement" && activeTab !== "pricing" && (
               <Select value={statusFilter} onValueChange={setStatusFilter}>
                 <SelectTrigger className="w-[140px] h-9 text-sm bg-slate-900/50 border-slate-700 text-white rounded-lg">
                   <SelectValue placeholder="All Status" />
@@ -2067,6 +2069,7 @@ export default function EnhancedCustomerView({
               )
             )}
             {activeTab === "statement" && <StatementTab customer={customer} />}
+            {activeTab === "pricing" && <CustomerPriceListTab customerId={customer.id} />}
           </div>
         </div>
       </div>
@@ -79,3 +79,14 @@ export function computeUrgency(dueDate: string | null): 'overdue' | 'due_today'
   if (dueDay.getTime() === today.getTime()) return 'due_today';
   return 'normal';
 }
+
+/**
+ * Schedule board bar colors by due-date risk (see scheduleRisk in @shared/productionCapacity)
+ */
+export const scheduleRiskColors = {
+  late: 'bg-red-500/85 border-red-700 text-white',
+  at_risk: 'bg-amber-400/90 border-amber-600 text-amber-950',
+  on_track: 'bg-emerald-500/80 border-emerald-700 text-white',
+  no_due_date: 'bg-slate-400/80 border-slate-600 text-white',
+  unscheduled: 'bg-muted border-border text-muted-foreground',
+} as const;
@@ -61,6 +61,7 @@ import {
   Trash2,
 } from "lucide-react";
 import ZoomPanImageViewer from "@/components/production/ZoomPanImageViewer";
+import GangSheetPlanDialog from "@/components/production/GangSheetPlanDialog";
 import { formatFileSize, getFileTypeLabel, buildDownloadUrl } from "@/lib/fileUtils";
 
 type ProductionStatus = "queued" | "in_progress" | "done";
@@ -1318,7 +1319,10 @@ export default function FlatbedProductionView(props: { viewKey: string; status:
         ) : null}
 
         <div>
-          <div className="text-sm font-semibold text-titan-text-primary">JOB QUEUE</div>
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold text-titan-text-primary">JOB QUEUE</div>
+            {props.status !== "done" ? <GangSheetPlanDialog jobs={sortedJobs} /> : null}
+          </div>
           <div className="mt-2 rounded-lg border border-titan-border-subtle bg-titan-bg-card overflow-hidden">
             <Table>
               <TableHeader>
@@ -40,10 +40,16 @@ import {
   Eye,
   EyeOff,
   Maximize2,
+  CalendarClock,
+  GanttChart,
+  ScanBarcode,
 } from "lucide-react";
 import { 
   useProductionJobs, 
+  useProductionSchedule,
+  useRunProductionScheduler,
   useUpdateProductionJobStatus,
+  jobTicketsPdfUrl,
   type ProductionJobListItem,
   type ProductionOrderArtworkSummary 
 } from "@/hooks/useProduction";
@@ -51,6 +57,10 @@ import { format, isPast, parseISO } from "date-fns";
 import { cn } from "@/lib/utils";
 import { ROUTES } from "@/config/routes";
 import ZoomPanImageViewer from "@/components/production/ZoomPanImageViewer";
+import ProductionMachinesDialog from "@/components/production/ProductionMachinesDialog";
+import ProductionRoutingsDialog from "@/components/production/ProductionRoutingsDialog";
+import ProductionOperatorsDialog from "@/components/production/ProductionOperatorsDialog";
+import ProductionScheduleBoard from "./ProductionScheduleBoard";
 import { productionCardTheme, computeUrgency, statusColors } from "../theme/productionCardTheme";
 import {
   DropdownMenu,
@@ -70,7 +80,7 @@ import {
   useDraggable,
 } from "@dnd-kit/core";
 
-type ViewMode = "board" | "list";
+type ViewMode = "board" | "list" | "schedule";
 
 // Column configuration with visibility, order, and width management
 type ColumnId = "artwork" | "dueDate" | "customer" | "orderNumber" | "jobDescription" | "media" | "qty" | "sides" | "status" | "station";
@@ -284,11 +294,13 @@ export default function ProductionOverviewPage() {
   // Fetch ALL production jobs (no station/status filter for overview)
   // This shows jobs across all production modules (flatbed, roll, apparel)
   const { data: allJobs, isLoading, error } = useProductionJobs({});
+  const { data: schedule } = useProductionSchedule();
+  const runScheduler = useRunProductionScheduler();
   
   // View mode toggle (persist in localStorage)
   const [viewMode, setViewMode] = useState<ViewMode>(() => {
     const saved = localStorage.getItem("productionOverviewViewMode");
-    return (saved === "board" || saved === "list") ? saved : "board";
+    return (saved === "board" || saved === "list" || saved === "schedule") ? saved : "board";
   });
 
   const handleViewModeChange = (mode: ViewMode) => {
@@ -878,6 +890,12 @@ export default function ProductionOverviewPage() {
     return sorted;
   }, [jobs, sort.field, sort.direction]);
 
+  // Tickets for every open job in list order (the server prints at most 200 per PDF)
+  const openJobIds = useMemo(
+    () => sortedJobs.filter((job) => job.status !== "done").slice(0, 200).map((job) => job.id),
+    [sortedJobs]
+  );
+
   // Helper: Determine which column a job belongs to (SAFE fallback guaranteed)
   const getJobColumn = (job: ProductionJobListItem): string => {
     // Normalize stepKey to known column IDs
@@ -1082,6 +1100,45 @@ export default function ProductionOverviewPage() {
               <List className="w-4 h-4 mr-1.5" />
               List
             </Button>
+            <Button
+              variant={viewMode === "schedule" ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => handleViewModeChange("schedule")}
+              className="h-8"
+            >
+              <GanttChart className="w-4 h-4 mr-1.5" />
+              Schedule
+            </Button>
+          </div>
+
+          {/* Capacity schedule: machines + re-plan, with jobs projected to miss their due date */}
+          <div className="flex items-center gap-2">
+            <ProductionMachinesDialog />
+            <ProductionRoutingsDialog />
+            <ProductionOperatorsDialog />
+            {openJobIds.length > 0 && (
+              <Button asChild variant="outline" size="sm" className="gap-2 h-9">
+                <a href={jobTicketsPdfUrl(openJobIds)} target="_blank" rel="noreferrer">
+                  <ScanBarcode className="w-4 h-4" />
+                  Print Tickets
+                </a>
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => runScheduler.mutate()}
+              disabled={runScheduler.isPending}
+              className="gap-2 h-9"
+            >
+              <CalendarClock className="w-4 h-4" />
+              {runScheduler.isPending ? "Scheduling..." : "Run Scheduler"}
+            </Button>
+            {(schedule?.lateCount ?? 0) > 0 && (
+              <Badge variant="destructive" className="whitespace-nowrap">
+                {schedule!.lateCount} late
+              </Badge>
+            )}
           </div>
 
           {/* Board-specific controls */}
@@ -1354,6 +1411,9 @@ export default function ProductionOverviewPage() {
         </>
       )}
 
+      {/* Schedule view: Gantt by station and machine */}
+      {viewMode === "schedule" && <ProductionScheduleBoard />}
+
       {/* List view */}
       {viewMode === "list" && (
         <Card>
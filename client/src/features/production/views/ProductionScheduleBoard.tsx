@@ -0,0 +1,480 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  DndContext,
+  DragEndEvent,
+  DragStartEvent,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+} from "@dnd-kit/core";
+import { addDays, addHours, format, startOfDay } from "date-fns";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, ChevronLeft, ChevronRight, Pin, Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { ROUTES } from "@/config/routes";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  useMoveScheduledJob,
+  useProductionSchedule,
+  type ProductionMachine,
+  type ProductionScheduleJob,
+} from "@/hooks/useProduction";
+import { scheduleRisk, type ScheduleRisk } from "@shared/productionCapacity";
+import { scheduleRiskColors } from "../theme/productionCardTheme";
+
+const ZOOMS = {
+  day: { label: "Day", days: 1, pxPerHour: 80, tickHours: 1 },
+  three_days: { label: "3 days", days: 3, pxPerHour: 32, tickHours: 3 },
+  week: { label: "Week", days: 7, pxPerHour: 14, tickHours: 6 },
+} as const;
+type ZoomKey = keyof typeof ZOOMS;
+
+const SNAP_MINUTES = 15;
+const ROW_HEIGHT = 44;
+const LABEL_WIDTH = 180;
+const MINUTE_MS = 60_000;
+
+const RISK_LABELS: Record<ScheduleRisk, string> = {
+  late: "Late",
+  at_risk: "At risk",
+  on_track: "On track",
+  no_due_date: "No due date",
+  unscheduled: "Unscheduled",
+};
+
+type StationLane = {
+  stationKey: string;
+  machines: ProductionMachine[];
+  unscheduled: ProductionScheduleJob[];
+};
+
+function jobRisk(job: ProductionScheduleJob, now: Date): ScheduleRisk {
+  return scheduleRisk(
+    {
+      endAt: job.scheduledEndAt ? new Date(job.scheduledEndAt) : null,
+      dueAt: job.dueAt ? new Date(job.dueAt) : null,
+    },
+    now
+  );
+}
+
+function jobTitle(job: ProductionScheduleJob, risk: ScheduleRisk): string {
+  const lines = [
+    `#${job.orderNumber}${job.customerName ? ` · ${job.customerName}` : ""}`,
+    job.description ?? "",
+    job.scheduledStartAt && job.scheduledEndAt
+      ? `${format(new Date(job.scheduledStartAt), "EEE MMM d, h:mm a")} – ${format(new Date(job.scheduledEndAt), "EEE h:mm a")}`
+      : "Not scheduled",
+    job.estimatedMinutes != null ? `Est. ${Math.floor(job.estimatedMinutes / 60)}h ${job.estimatedMinutes % 60}m` : "",
+    job.dueAt ? `Due ${format(new Date(job.dueAt), "EEE MMM d, h:mm a")} (${RISK_LABELS[risk]})` : "No production due date",
+    job.priority !== "normal" ? `Priority: ${job.priority}` : "",
+    job.plannedStartAt ? `Planned start ${format(new Date(job.plannedStartAt), "EEE h:mm a")}` : "",
+    job.scheduleConflict ? "Cannot start at the planned time: machine busy or not working" : "",
+  ];
+  return lines.filter(Boolean).join("\n");
+}
+
+/**
+ * ScheduleBar - One job on a machine row. Queued jobs drag to another time or machine on the
+ * same station; the pin unpins a board placement and hands the job back to the scheduler.
+ */
+function ScheduleBar({
+  job,
+  left,
+  width,
+  now,
+  canRearrange,
+  onOpen,
+  onUnpin,
+}: {
+  job: ProductionScheduleJob;
+  left: number;
+  width: number;
+  now: Date;
+  canRearrange: boolean;
+  onOpen: () => void;
+  onUnpin: () => void;
+}) {
+  const movable = canRearrange && job.status === "queued";
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: job.jobId,
+    disabled: !movable,
+  });
+  const risk = jobRisk(job, now);
+
+  return (
+    <div
+      ref={setNodeRef}
+      {...attributes}
+      {...listeners}
+      title={jobTitle(job, risk)}
+      onClick={onOpen}
+      className={cn(
+        "absolute top-1.5 bottom-1.5 rounded border px-1.5 text-xs flex items-center gap-1 overflow-hidden whitespace-nowrap select-none",
+        scheduleRiskColors[risk],
+        movable ? "cursor-grab active:cursor-grabbing" : "cursor-pointer",
+        job.scheduleConflict && "ring-2 ring-offset-1 ring-red-600 border-dashed",
+        isDragging && "opacity-70 shadow-lg z-20"
+      )}
+      style={{
+        left,
+        width,
+        transform: transform ? `translate3d(${transform.x}px, ${transform.y}px, 0)` : undefined,
+      }}
+    >
+      {job.status === "in_progress" && <Play className="w-3 h-3 shrink-0" />}
+      {job.scheduleConflict && <AlertTriangle className="w-3 h-3 shrink-0" />}
+      {job.plannedStartAt && !canRearrange && <Pin className="w-3 h-3 shrink-0" />}
+      {job.plannedStartAt && canRearrange && (
+        <button
+          type="button"
+          data-no-dnd="true"
+          className="shrink-0 hover:opacity-70"
+          title="Unpin: let the scheduler place this job"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            onUnpin();
+          }}
+        >
+          <Pin className="w-3 h-3" />
+        </button>
+      )}
+      <span className="truncate">
+        #{job.orderNumber} {job.customerName ?? ""}
+      </span>
+    </div>
+  );
+}
+
+function MachineRow({
+  machine,
+  jobs,
+  rangeStart,
+  rangeEnd,
+  pxPerMinute,
+  now,
+  dragging,
+  canRearrange,
+  onOpen,
+  onUnpin,
+}: {
+  machine: ProductionMachine;
+  jobs: ProductionScheduleJob[];
+  rangeStart: Date;
+  rangeEnd: Date;
+  pxPerMinute: number;
+  now: Date;
+  dragging: ProductionScheduleJob | null;
+  canRearrange: boolean;
+  onOpen: (job: ProductionScheduleJob) => void;
+  onUnpin: (job: ProductionScheduleJob) => void;
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: machine.id });
+  const canDrop = !dragging || (dragging.stationKey === machine.stationKey && machine.isActive);
+
+  return (
+    <div className="flex border-b last:border-b-0" style={{ height: ROW_HEIGHT }}>
+      <div
+        className="shrink-0 sticky left-0 z-10 bg-background border-r px-3 flex flex-col justify-center"
+        style={{ width: LABEL_WIDTH }}
+      >
+        <span className="text-sm font-medium truncate">{machine.name}</span>
+        {!machine.isActive && <span className="text-[10px] text-muted-foreground">Inactive</span>}
+      </div>
+      <div
+        ref={setNodeRef}
+        className={cn(
+          "relative flex-1 transition-colors",
+          dragging && !canDrop && "opacity-40",
+          isOver && canDrop && "bg-primary/5",
+          isOver && !canDrop && "bg-destructive/10"
+        )}
+      >
+        {jobs.map((job) => {
+          const start = new Date(job.scheduledStartAt!);
+          const end = new Date(job.scheduledEndAt!);
+          if (end <= rangeStart || start >= rangeEnd) return null;
+          const left = Math.max(0, (start.getTime() - rangeStart.getTime()) / MINUTE_MS) * pxPerMinute;
+          const right = (Math.min(end.getTime(), rangeEnd.getTime()) - rangeStart.getTime()) / MINUTE_MS * pxPerMinute;
+          return (
+            <ScheduleBar
+              key={job.jobId}
+              job={job}
+              left={left}
+              width={Math.max(6, right - left)}
+              now={now}
+              canRearrange={canRearrange}
+              onOpen={() => onOpen(job)}
+              onUnpin={() => onUnpin(job)}
+            />
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * ProductionScheduleBoard - Gantt of the capacity schedule: one swimlane per station, one row
+ * per machine. Dragging a queued job pins it to that machine and (snapped) start time; the
+ * server re-plans everything around it. Bars are colored by live due-date risk, and placements
+ * the machine cannot honor are outlined. Only managers and up can drag or unpin.
+ */
+export default function ProductionScheduleBoard() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { data: schedule, isLoading, error } = useProductionSchedule({ refetchInterval: 30_000 });
+  const moveJob = useMoveScheduledJob();
+  const { user } = useAuth();
+  const canRearrange = ["owner", "admin", "manager"].includes(user?.role ?? "");
+
+  const [zoom, setZoom] = useState<ZoomKey>(() => {
+    const saved = localStorage.getItem("productionScheduleZoom");
+    return saved && saved in ZOOMS ? (saved as ZoomKey) : "three_days";
+  });
+  const [rangeStart, setRangeStart] = useState(() => startOfDay(new Date()));
+  const [now, setNow] = useState(() => new Date());
+  const [dragging, setDragging] = useState<ProductionScheduleJob | null>(null);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { days, pxPerHour, tickHours } = ZOOMS[zoom];
+  const pxPerMinute = pxPerHour / 60;
+  const rangeEnd = addDays(rangeStart, days);
+  const timelineWidth = days * 24 * pxPerHour;
+
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: { distance: 6 },
+      onActivation: (event) => !(event.event.target as HTMLElement).closest('[data-no-dnd="true"]'),
+    })
+  );
+
+  const lanes = useMemo<StationLane[]>(() => {
+    const byStation = new Map<string, StationLane>();
+    const lane = (stationKey: string) => {
+      let entry = byStation.get(stationKey);
+      if (!entry) {
+        entry = { stationKey, machines: [], unscheduled: [] };
+        byStation.set(stationKey, entry);
+      }
+      return entry;
+    };
+    for (const machine of schedule?.machines ?? []) lane(machine.stationKey).machines.push(machine);
+    for (const job of schedule?.jobs ?? []) {
+      if (!job.machineId || !job.scheduledStartAt || !job.scheduledEndAt) lane(job.stationKey).unscheduled.push(job);
+    }
+    return Array.from(byStation.values()).sort((a, b) => a.stationKey.localeCompare(b.stationKey));
+  }, [schedule]);
+
+  const jobsByMachine = useMemo(() => {
+    const map = new Map<string, ProductionScheduleJob[]>();
+    for (const job of schedule?.jobs ?? []) {
+      if (!job.machineId || !job.scheduledStartAt || !job.scheduledEndAt) continue;
+      const list = map.get(job.machineId) ?? [];
+      list.push(job);
+      map.set(job.machineId, list);
+    }
+    return map;
+  }, [schedule]);
+
+  const changeZoom = (next: ZoomKey) => {
+    setZoom(next);
+    localStorage.setItem("productionScheduleZoom", next);
+  };
+
+  const openJob = (job: ProductionScheduleJob) => navigate(ROUTES.production.jobDetail(job.jobId));
+
+  const unpinJob = (job: ProductionScheduleJob) => {
+    if (!job.machineId) return;
+    moveJob.mutate({ jobId: job.jobId, machineId: job.machineId, plannedStartAt: null });
+  };
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setDragging(schedule?.jobs.find((j) => j.jobId === event.active.id) ?? null);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const job = dragging;
+    setDragging(null);
+    if (!job?.scheduledStartAt || !event.over) return;
+
+    const machine = schedule?.machines.find((m) => m.id === event.over!.id);
+    if (!machine) return;
+    if (machine.stationKey !== job.stationKey) {
+      toast({
+        title: "Different station",
+        description: `Job #${job.orderNumber} is routed to ${job.stationKey}; change its routing to run it on ${machine.name}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!machine.isActive) {
+      toast({ title: "Machine inactive", description: `${machine.name} is not taking work.`, variant: "destructive" });
+      return;
+    }
+
+    const snapMs = SNAP_MINUTES * MINUTE_MS;
+    const dropped = new Date(job.scheduledStartAt).getTime() + (event.delta.x / pxPerMinute) * MINUTE_MS;
+    const plannedStartAt = new Date(Math.round(dropped / snapMs) * snapMs);
+    if (machine.id === job.machineId && plannedStartAt.getTime() === new Date(job.scheduledStartAt).getTime()) return;
+
+    moveJob.mutate({ jobId: job.jobId, machineId: machine.id, plannedStartAt: plannedStartAt.toISOString() });
+  };
+
+  const ticks = useMemo(() => {
+    const list: Date[] = [];
+    for (let t = rangeStart; t < rangeEnd; t = addHours(t, tickHours)) list.push(t);
+    return list;
+  }, [rangeStart, rangeEnd, tickHours]);
+
+  const nowOffset =
+    now >= rangeStart && now < rangeEnd ? ((now.getTime() - rangeStart.getTime()) / MINUTE_MS) * pxPerMinute : null;
+
+  if (isLoading) return <div className="text-sm text-muted-foreground p-6">Loading schedule...</div>;
+  if (error) return <div className="text-sm text-destructive p-6">{(error as Error).message}</div>;
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <div className="flex flex-wrap items-center gap-2 p-3 border-b">
+          <Button variant="outline" size="sm" className="h-8" onClick={() => setRangeStart(addDays(rangeStart, -days))}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-8" onClick={() => setRangeStart(startOfDay(new Date()))}>
+            Today
+          </Button>
+          <Button variant="outline" size="sm" className="h-8" onClick={() => setRangeStart(addDays(rangeStart, days))}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <span className="text-sm font-medium">
+            {format(rangeStart, "MMM d")}
+            {days > 1 ? ` – ${format(addDays(rangeEnd, -1), "MMM d")}` : ""}
+          </span>
+          <Select value={zoom} onValueChange={(v) => changeZoom(v as ZoomKey)}>
+            <SelectTrigger className="w-[110px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ZOOMS) as ZoomKey[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {ZOOMS[key].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="ml-auto flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+            {(["late", "at_risk", "on_track", "no_due_date"] as const).map((risk) => (
+              <span key={risk} className="flex items-center gap-1">
+                <span className={cn("inline-block w-3 h-3 rounded border", scheduleRiskColors[risk])} />
+                {RISK_LABELS[risk]}
+              </span>
+            ))}
+            <span className="flex items-center gap-1">
+              <span className="inline-block w-3 h-3 rounded border border-dashed ring-1 ring-red-600" />
+              Off planned start
+            </span>
+            {(schedule?.conflictCount ?? 0) > 0 && <Badge variant="destructive">{schedule!.conflictCount} conflicts</Badge>}
+          </div>
+        </div>
+
+        {lanes.length === 0 ? (
+          <div className="text-sm text-muted-foreground text-center py-10">
+            No machines or open jobs. Add machines to plan production against their working hours.
+          </div>
+        ) : (
+          <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setDragging(null)}>
+            <div className="overflow-x-auto">
+              <div className="relative" style={{ width: LABEL_WIDTH + timelineWidth }}>
+                {/* Time axis */}
+                <div className="flex border-b sticky top-0 z-20 bg-background">
+                  <div className="shrink-0 sticky left-0 z-10 bg-background border-r" style={{ width: LABEL_WIDTH }} />
+                  <div className="relative h-10" style={{ width: timelineWidth }}>
+                    {ticks.map((tick) => {
+                      const isDayStart = tick.getHours() === 0;
+                      return (
+                        <div
+                          key={tick.getTime()}
+                          className={cn("absolute top-0 bottom-0 border-l pl-1 text-[10px] text-muted-foreground", isDayStart && "border-foreground/30")}
+                          style={{ left: ((tick.getTime() - rangeStart.getTime()) / MINUTE_MS) * pxPerMinute }}
+                        >
+                          {isDayStart ? <span className="font-medium text-foreground">{format(tick, "EEE MMM d")}</span> : format(tick, "ha")}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {lanes.map((lane) => (
+                  <div key={lane.stationKey} className="border-b">
+                    <div className="flex items-center gap-2 bg-muted/50 px-3 py-1.5 sticky left-0" style={{ width: LABEL_WIDTH + timelineWidth }}>
+                      <span className="text-xs font-semibold uppercase tracking-wide">{lane.stationKey}</span>
+                      <Badge variant="secondary" className="text-[10px]">
+                        {lane.machines.length} {lane.machines.length === 1 ? "machine" : "machines"}
+                      </Badge>
+                    </div>
+                    {lane.machines.length === 0 && (
+                      <div className="px-3 py-2 text-xs text-muted-foreground">
+                        No machines on this station; its jobs are not scheduled.
+                      </div>
+                    )}
+                    {lane.machines.map((machine) => (
+                      <MachineRow
+                        key={machine.id}
+                        machine={machine}
+                        jobs={jobsByMachine.get(machine.id) ?? []}
+                        rangeStart={rangeStart}
+                        rangeEnd={rangeEnd}
+                        pxPerMinute={pxPerMinute}
+                        now={now}
+                        dragging={dragging}
+                        canRearrange={canRearrange}
+                        onOpen={openJob}
+                        onUnpin={unpinJob}
+                      />
+                    ))}
+                    {lane.unscheduled.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-1.5 px-3 py-2 border-t sticky left-0" style={{ maxWidth: LABEL_WIDTH + timelineWidth }}>
+                        <span className="text-xs text-muted-foreground mr-1">Unscheduled:</span>
+                        {lane.unscheduled.map((job) => (
+                          <Badge
+                            key={job.jobId}
+                            variant="outline"
+                            className="cursor-pointer"
+                            title={jobTitle(job, "unscheduled")}
+                            onClick={() => openJob(job)}
+                          >
+                            #{job.orderNumber}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+
+                {nowOffset !== null && (
+                  <div
+                    className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none z-10"
+                    style={{ left: LABEL_WIDTH + nowOffset }}
+                  />
+                )}
+              </div>
+            </div>
+          </DndContext>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
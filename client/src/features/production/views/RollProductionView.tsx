@@ -61,6 +61,7 @@ import {
   Trash2,
 } from "lucide-react";
 import ZoomPanImageViewer from "@/components/production/ZoomPanImageViewer";
+import RollRunPlanDialog from "@/components/production/RollRunPlanDialog";
 import { formatFileSize, getFileTypeLabel, buildDownloadUrl } from "@/lib/fileUtils";
 
 type ProductionStatus = "queued" | "in_progress" | "done";
@@ -1349,7 +1350,10 @@ export default function RollProductionView(props: { viewKey: string; status: Pro
         ) : null}
 
         <div>
-          <div className="text-sm font-semibold text-titan-text-primary">JOB QUEUE</div>
+          <div className="flex items-center justify-between">
+            <div className="text-sm font-semibold text-titan-text-primary">JOB QUEUE</div>
+            {props.status !== "done" ? <RollRunPlanDialog jobs={sortedJobs} /> : null}
+          </div>
           <div className="mt-2 rounded-lg border border-titan-border-subtle bg-titan-bg-card overflow-hidden">
             <Table>
               <TableHeader>
@@ -985,6 +985,9 @@ export function QuoteEditorPage({ mode = "edit", createTarget = "quote" }: Quote
                             grandTotal={state.grandTotal}
                             effectiveTaxRate={state.effectiveTaxRate}
                             discountAmount={state.discountAmount}
+                            quoteId={state.quoteId}
+                            promotionDiscountLines={state.promotionDiscountLines}
+                            promotionRemovals={state.promotionRemovals}
                             shippingCents={state.shippingCents}
                             deliveryMethod={state.deliveryMethod}
                             selectedCustomer={state.selectedCustomer}
@@ -668,6 +668,9 @@ export function LineItemsSection({
                   ...(expandedItem.priceBreakdown || {}),
                   basePrice: price,
                   total: price,
+                  lineTotalCents: Math.round(price * 100),
+                  // Which rule priced the line (contract price list, customer discount/markup, or standard)
+                  pricingRule: data?.pricingRule ?? null,
                 } as any),
               ...(snapshotSelectedOptions ? { selectedOptions: snapshotSelectedOptions } : {}),
               // Store PBV2 snapshot from /calculate for future reference
@@ -744,6 +747,8 @@ export function LineItemsSection({
                     // Meta indicators (best effort with existing fields)
                     const hasNote = !!(item.notes || (item.specsJson as any)?.notes);
                     const hasOverride = !!((item as any).priceOverride || (item as any).manualPrice);
+                    const pricingRule = (item.priceBreakdown as any)?.pricingRule as { source?: string; label?: string } | null | undefined;
+                    const hasPricingRule = !!pricingRule?.label && pricingRule.source !== "base";
 
                     return (
                       <SortableLineItemWrapper key={itemKey} id={itemKey}>
@@ -827,7 +832,7 @@ export function LineItemsSection({
                               </div>
 
                               {/* Optional Meta Row (only if relevant) */}
-                              {(hasNote || hasOverride) && (
+                              {(hasNote || hasOverride || hasPricingRule) && (
                                 <div className="mt-1.5 flex items-center gap-2 text-[11px] text-muted-foreground/70">
                                   {hasNote && <span>Note</span>}
                                   {hasOverride && (
@@ -836,6 +841,14 @@ export function LineItemsSection({
                                       <span>Overridden</span>
                                     </>
                                   )}
+                                  {hasPricingRule && (
+                                    <>
+                                      {(hasNote || hasOverride) && <span>·</span>}
+                                      <span className={cn(pricingRule?.source === "contract" && "text-emerald-600 dark:text-emerald-400")}>
+                                        {pricingRule?.label}
+                                      </span>
+                                    </>
+                                  )}
                                 </div>
                               )}
                             </button>
@@ -911,6 +924,11 @@ export function LineItemsSection({
                             <div className="ml-auto text-right min-h-[60px]">
                               <div className="text-xs text-muted-foreground">Total</div>
                               <div className="font-mono text-lg font-bold">{formatMoney(expandedItem?.linePrice ?? item.linePrice)}</div>
+                              {(expandedItem?.priceBreakdown as any)?.pricingRule?.label && (
+                                <div className="text-[11px] text-muted-foreground">
+                                  Priced by: {(expandedItem?.priceBreakdown as any).pricingRule.label}
+                                </div>
+                              )}
                               <div className="h-5 flex items-center justify-end">
                                 {isCalculating && <div className="text-[11px] text-muted-foreground">Calculating…</div>}
                                 {!!calcError && calcError === "PBV2_SCHEMA_MISMATCH" && (
@@ -18,6 +18,8 @@ import type { Product } from "@shared/schema";
 import type { QuoteLineItemDraft } from "../types";
 import type { CustomerWithContacts } from "@/components/CustomerSelect";
 import type { AfterSaveNavigation } from "@/hooks/useUserPreferences";
+import type { DiscountLine, QuoteDiscountLines } from "@/hooks/usePromotions";
+import { QuotePromotionsRow } from "@/components/QuotePromotionsRow";
 
 type SummaryCardProps = {
     lineItems: QuoteLineItemDraft[];
@@ -27,6 +29,9 @@ type SummaryCardProps = {
     grandTotal: number;
     effectiveTaxRate: number;
     discountAmount: number;
+    quoteId?: string | null;
+    promotionDiscountLines?: DiscountLine[];
+    promotionRemovals?: QuoteDiscountLines["removed"];
     shippingCents?: number | null;
     deliveryMethod: string;
     selectedCustomer: CustomerWithContacts | undefined;
@@ -74,6 +79,9 @@ export function SummaryCard({
     grandTotal,
     effectiveTaxRate,
     discountAmount,
+    quoteId = null,
+    promotionDiscountLines = [],
+    promotionRemovals = [],
     shippingCents,
     deliveryMethod,
     selectedCustomer,
@@ -202,6 +210,13 @@ export function SummaryCard({
                     )}
                 </div>
 
+                <QuotePromotionsRow
+                    quoteId={quoteId}
+                    discountLines={promotionDiscountLines}
+                    removed={promotionRemovals}
+                    readOnly={readOnly}
+                />
+
                 <Separator />
 
                 {/* Shipping (before Tax) */}
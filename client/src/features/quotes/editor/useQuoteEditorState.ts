@@ -5,6 +5,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { useConvertQuoteToOrder } from "@/hooks/useOrders";
+import { useQuotePromotions } from "@/hooks/usePromotions";
 import { ROUTES } from "@/config/routes";
 import type { CustomerWithContacts } from "@/components/CustomerSelect";
 import type { Product, ProductVariant, QuoteWithRelations, ProductOptionItem, Organization } from "@shared/schema";
@@ -426,6 +427,15 @@ export function useQuoteEditorState() {
         [discountAmount]
     );
 
+    // Applied promo codes; re-read when persisted line pricing changes so amounts follow the lines
+    const promotionPricingKey = useMemo(
+        () => activeLineItems.map((li) => `${li.id ?? ""}:${li.quantity}:${li.linePrice}`).join("|"),
+        [activeLineItems]
+    );
+    const { data: quotePromotions } = useQuotePromotions(quoteId, { pricingKey: promotionPricingKey });
+    const promotionDiscountLines = quotePromotions?.discountLines ?? [];
+    const promotionDiscountCents = promotionDiscountLines.reduce((sum, line) => sum + line.amountCents, 0);
+
     // Single source of truth: computedTotals derived from current editor state
     const computedTotals = useMemo(() => {
         // Subtotal = sum of current lineItems in CENTS (PBV2-compatible)
@@ -471,9 +481,9 @@ export function useQuoteEditorState() {
             return sum + itemCents;
         }, 0);
 
-        // Discount in cents (clamped to not exceed subtotal)
+        // Discount in cents: manual + promotions (clamped to not exceed subtotal)
         const discountCents = Math.min(
-            Math.round((effectiveDiscount ?? 0) * 100),
+            Math.round((effectiveDiscount ?? 0) * 100) + promotionDiscountCents,
             subtotalCents
         );
 
@@ -492,7 +502,7 @@ export function useQuoteEditorState() {
             tax: taxCents / 100,
             grandTotal: grandTotalCents / 100,
         };
-    }, [activeLineItems, effectiveDiscount, effectiveTaxRate, shippingCents]);
+    }, [activeLineItems, effectiveDiscount, promotionDiscountCents, effectiveTaxRate, shippingCents]);
 
     // Extract individual values for backward compatibility
     const subtotal = computedTotals.subtotal;
@@ -788,6 +798,7 @@ export function useQuoteEditorState() {
                             ...(item.priceBreakdown || {}),
                             basePrice: restored,
                             total: restored,
+                            lineTotalCents: Math.round(restored * 100),
                         },
                     };
                 }
@@ -805,6 +816,7 @@ export function useQuoteEditorState() {
                         ...(item.priceBreakdown || {}),
                         basePrice: sanitized,
                         total: sanitized,
+                        lineTotalCents: Math.round(sanitized * 100),
                     },
                 };
             })
@@ -2696,6 +2708,8 @@ export function useQuoteEditorState() {
         jobLabel,
         requestedDueDate,
         discountAmount,
+        promotionDiscountLines,
+        promotionRemovals: quotePromotions?.removed ?? [],
         tags,
         quoteTaxExempt,
         quoteTaxRateOverride,
@@ -0,0 +1,138 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+export type AnnotationTargetType = "order_attachment" | "quote_attachment" | "asset";
+
+export type AnnotationKind = "pin" | "rect" | "freehand";
+
+export type AnnotationGeometry =
+  | { x: number; y: number }
+  | { x: number; y: number; w: number; h: number }
+  | { points: Array<[number, number]> };
+
+export interface AnnotationComment {
+  id: string;
+  annotationId: string;
+  authorName: string | null;
+  body: string;
+  createdAt: string;
+}
+
+export interface AttachmentAnnotation {
+  id: string;
+  targetType: AnnotationTargetType;
+  targetId: string;
+  pageIndex: number;
+  kind: AnnotationKind;
+  geometry: AnnotationGeometry;
+  color: string;
+  visibleToCustomer: boolean;
+  resolvedAt: string | null;
+  createdByName: string | null;
+  createdAt: string;
+  comments: AnnotationComment[];
+}
+
+export interface AnnotationTarget {
+  type: AnnotationTargetType;
+  id: string;
+}
+
+export interface CreateAnnotationInput {
+  pageIndex: number;
+  kind: AnnotationKind;
+  geometry: AnnotationGeometry;
+  color?: string;
+  visibleToCustomer?: boolean;
+  body: string;
+}
+
+async function readEnvelope<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json().catch(() => null);
+  if (!response.ok || !json?.success) throw new Error(json?.message || fallback);
+  return json.data as T;
+}
+
+function targetPath(target: AnnotationTarget) {
+  return `/api/annotation-targets/${target.type}/${target.id}`;
+}
+
+export function annotationExportUrl(target: AnnotationTarget) {
+  return `${targetPath(target)}/export.pdf`;
+}
+
+export function useAttachmentAnnotations(target: AnnotationTarget | null) {
+  return useQuery<AttachmentAnnotation[]>({
+    queryKey: [target ? `${targetPath(target)}/annotations` : "disabled-annotations"],
+    queryFn: async () => {
+      const response = await fetch(`${targetPath(target!)}/annotations`, { credentials: "include" });
+      return readEnvelope<AttachmentAnnotation[]>(response, "Failed to fetch annotations");
+    },
+    enabled: !!target,
+  });
+}
+
+/**
+ * Mutations for one target's annotations; every success refetches the target's list.
+ */
+export function useAnnotationMutations(target: AnnotationTarget) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const listKey = [`${targetPath(target)}/annotations`];
+
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: listKey });
+  const onError = (error: Error) => toast({ title: "Error", description: error.message, variant: "destructive" });
+
+  const create = useMutation({
+    mutationFn: async (data: CreateAnnotationInput) => {
+      const response = await fetch(`${targetPath(target)}/annotations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      return readEnvelope<AttachmentAnnotation>(response, "Failed to create annotation");
+    },
+    onSuccess,
+    onError,
+  });
+
+  const update = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: { visibleToCustomer?: boolean; resolved?: boolean } }) => {
+      const response = await fetch(`/api/annotations/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      return readEnvelope<AttachmentAnnotation>(response, "Failed to update annotation");
+    },
+    onSuccess,
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/annotations/${id}`, { method: "DELETE", credentials: "include" });
+      await readEnvelope<unknown>(response, "Failed to delete annotation");
+    },
+    onSuccess,
+    onError,
+  });
+
+  const reply = useMutation({
+    mutationFn: async ({ id, body }: { id: string; body: string }) => {
+      const response = await fetch(`/api/annotations/${id}/comments`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ body }),
+      });
+      return readEnvelope<AnnotationComment>(response, "Failed to add comment");
+    },
+    onSuccess,
+    onError,
+  });
+
+  return { create, update, remove, reply };
+}
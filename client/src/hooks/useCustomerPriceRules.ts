@@ -0,0 +1,122 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+export type CustomerPriceRuleType = "FIXED_UNIT" | "PER_SQFT" | "PERCENT_OFF";
+
+export interface CustomerPriceRule {
+  id: string;
+  organizationId: string;
+  customerId: string;
+  productId: string;
+  productName: string | null;
+  ruleType: CustomerPriceRuleType;
+  value: string;
+  minQuantity: number;
+  startsAt: string;
+  endsAt: string | null;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CustomerPriceRuleInput {
+  productId: string;
+  ruleType: CustomerPriceRuleType;
+  value: number;
+  minQuantity?: number;
+  startsAt?: string;
+  endsAt?: string | null;
+  notes?: string | null;
+}
+
+export type CustomerPriceRuleUpdate = Partial<Omit<CustomerPriceRuleInput, "productId">>;
+
+async function readEnvelope<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json().catch(() => null);
+  if (!response.ok || !json?.success) throw new Error(json?.message || fallback);
+  return json.data as T;
+}
+
+const rulesKey = (customerId: string) => ["/api/customers", customerId, "price-rules"];
+
+export function useCustomerPriceRules(customerId: string | null | undefined) {
+  return useQuery<CustomerPriceRule[]>({
+    queryKey: rulesKey(customerId ?? ""),
+    enabled: !!customerId,
+    queryFn: async () => {
+      const response = await fetch(`/api/customers/${customerId}/price-rules`, { credentials: "include" });
+      return readEnvelope<CustomerPriceRule[]>(response, "Failed to fetch price list");
+    },
+  });
+}
+
+export function useCreateCustomerPriceRule(customerId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: CustomerPriceRuleInput) => {
+      const response = await fetch(`/api/customers/${customerId}/price-rules`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      return readEnvelope<CustomerPriceRule>(response, "Failed to create price rule");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesKey(customerId) });
+      toast({ title: "Price rule saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUpdateCustomerPriceRule(customerId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: CustomerPriceRuleUpdate }) => {
+      const response = await fetch(`/api/customers/${customerId}/price-rules/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      return readEnvelope<CustomerPriceRule>(response, "Failed to update price rule");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesKey(customerId) });
+      toast({ title: "Price rule updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteCustomerPriceRule(customerId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/customers/${customerId}/price-rules/${id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const json = await response.json().catch(() => null);
+      if (!response.ok || !json?.success) throw new Error(json?.message || "Failed to delete price rule");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesKey(customerId) });
+      toast({ title: "Price rule deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
@@ -0,0 +1,237 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import type { JobCostRollup } from "@shared/jobCosting";
+
+export type StationRate = {
+  organizationId: string;
+  stationKey: string;
+  machineRatePerHour: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ProductionTimeEntry = {
+  id: string;
+  productionJobId: string;
+  jobOperationId: string | null;
+  operatorUserId: string | null;
+  operatorName: string | null;
+  stationKey: string;
+  machineId: string | null;
+  startedAt: string;
+  endedAt: string;
+  seconds: number;
+  laborRatePerHour: string | null;
+  machineRatePerHour: string | null;
+  laborCost: number | null;
+  machineCost: number | null;
+  source: "timer" | "manual";
+  note: string | null;
+  createdAt: string;
+};
+
+export type TimeEntryInput = {
+  operatorUserId: string;
+  startedAt: string;
+  minutes: number;
+  stationKey?: string;
+  note?: string | null;
+};
+
+export type LineItemCosting = JobCostRollup & {
+  lineItemId: string;
+  orderId: string;
+  orderNumber: string;
+  customerName: string | null;
+  description: string;
+  quantity: number;
+  productionJobIds: string[];
+  productionStatus: "queued" | "in_progress" | "done" | null;
+  completedAt: string | null;
+};
+
+export type JobCostingSummary = { lineItems: LineItemCosting[]; totals: JobCostRollup };
+
+export type JobProfitabilityReport = JobCostingSummary & { from: string; to: string; truncated: boolean };
+
+export type JobProfitabilityQuery = { from?: string; to?: string; status: "done" | "all" };
+
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok || !json.success) throw new Error(json.message || fallback);
+  return json.data as T;
+}
+
+function invalidateCosting(qc: ReturnType<typeof useQueryClient>, jobId?: string) {
+  if (jobId) qc.invalidateQueries({ queryKey: ["/api/production/jobs", jobId, "time-entries"] });
+  qc.invalidateQueries({ queryKey: ["/api/orders"] });
+  qc.invalidateQueries({ queryKey: ["/api/reports/job-profitability"] });
+}
+
+// ── Rates ───────────────────────────────────────────────────────────────────
+
+export function useStationRates(enabled = true) {
+  return useQuery<StationRate[]>({
+    queryKey: ["/api/production/station-rates"],
+    queryFn: async () => {
+      const res = await fetch("/api/production/station-rates", { credentials: "include" });
+      return readJson<StationRate[]>(res, "Failed to fetch station rates");
+    },
+    enabled,
+  });
+}
+
+/** Set a station's machine-hour rate, or clear it with null. */
+export function useSaveStationRate() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async ({ stationKey, machineRatePerHour }: { stationKey: string; machineRatePerHour: number | null }) => {
+      const url = `/api/production/station-rates/${encodeURIComponent(stationKey)}`;
+      const res =
+        machineRatePerHour == null
+          ? await fetch(url, { method: "DELETE", credentials: "include" })
+          : await fetch(url, {
+              method: "PUT",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ machineRatePerHour }),
+              credentials: "include",
+            });
+      return readJson(res, "Failed to save station rate");
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/production/station-rates"] });
+      invalidateCosting(qc);
+      toast({ title: "Station rate saved" });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Save failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useSaveLaborRate() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async ({ userId, laborRatePerHour }: { userId: string; laborRatePerHour: number | null }) => {
+      const res = await fetch(`/api/production/operators/${userId}/labor-rate`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ laborRatePerHour }),
+        credentials: "include",
+      });
+      return readJson(res, "Failed to save labor rate");
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/production/operators"] });
+      invalidateCosting(qc);
+    },
+    onError: (e: Error) => {
+      toast({ title: "Save failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+// ── Time entries ────────────────────────────────────────────────────────────
+
+export function useJobTimeEntries(jobId: string | undefined, enabled = true) {
+  return useQuery<ProductionTimeEntry[]>({
+    queryKey: ["/api/production/jobs", jobId, "time-entries"],
+    queryFn: async () => {
+      const res = await fetch(`/api/production/jobs/${jobId}/time-entries`, { credentials: "include" });
+      return readJson<ProductionTimeEntry[]>(res, "Failed to fetch time entries");
+    },
+    enabled: Boolean(jobId) && enabled,
+  });
+}
+
+export function useCreateTimeEntry(jobId: string) {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (input: TimeEntryInput) => {
+      const res = await fetch(`/api/production/jobs/${jobId}/time-entries`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+        credentials: "include",
+      });
+      return readJson(res, "Failed to add time entry");
+    },
+    onSuccess: () => {
+      invalidateCosting(qc, jobId);
+      toast({ title: "Time entry added" });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Add failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUpdateTimeEntry(jobId: string) {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async ({ entryId, ...input }: Partial<TimeEntryInput> & { entryId: string }) => {
+      const res = await fetch(`/api/production/time-entries/${entryId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+        credentials: "include",
+      });
+      return readJson(res, "Failed to update time entry");
+    },
+    onSuccess: () => {
+      invalidateCosting(qc, jobId);
+      toast({ title: "Time entry updated" });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Update failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteTimeEntry(jobId: string) {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (entryId: string) => {
+      const res = await fetch(`/api/production/time-entries/${entryId}`, { method: "DELETE", credentials: "include" });
+      return readJson(res, "Failed to delete time entry");
+    },
+    onSuccess: () => {
+      invalidateCosting(qc, jobId);
+      toast({ title: "Time entry deleted" });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Delete failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+// ── Costing ─────────────────────────────────────────────────────────────────
+
+export function useOrderJobCosting(orderId: string | undefined, enabled = true) {
+  return useQuery<JobCostingSummary>({
+    queryKey: ["/api/orders", orderId, "job-costing"],
+    queryFn: async () => {
+      const res = await fetch(`/api/orders/${orderId}/job-costing`, { credentials: "include" });
+      return readJson<JobCostingSummary>(res, "Failed to fetch job costing");
+    },
+    enabled: Boolean(orderId) && enabled,
+  });
+}
+
+export function useJobProfitabilityReport(query: JobProfitabilityQuery) {
+  return useQuery<JobProfitabilityReport>({
+    queryKey: ["/api/reports/job-profitability", query],
+    queryFn: async () => {
+      const params = new URLSearchParams({ status: query.status });
+      if (query.from) params.set("from", query.from);
+      if (query.to) params.set("to", query.to);
+      const res = await fetch(`/api/reports/job-profitability?${params.toString()}`, { credentials: "include" });
+      return readJson<JobProfitabilityReport>(res, "Failed to load job profitability report");
+    },
+  });
+}
@@ -15,6 +15,7 @@ export interface OrgPreferences {
     requireDueDateForProduction?: boolean;
     requireBillingAddressForProduction?: boolean;
     requireShippingAddressForProduction?: boolean;
+    blockProductionOnPreflightBlockers?: boolean;
     allowCompletedOrderEdits?: boolean;
     requireAllLineItemsDoneToComplete?: boolean;
     requireLineItemsDoneToComplete?: boolean;
@@ -29,14 +29,46 @@ export interface PrepressJob {
     report_json: boolean;
     proof_png: boolean;
     fixed_pdf?: boolean;
+    heatmap_png?: boolean;
+    cut_svg?: boolean;
+    cut_dxf?: boolean;
   } | null;
   error: {
     message: string;
     code: string;
   } | null;
   progressMessage: string | null;
+  orderLineItemId?: string | null;
+  profileId?: string | null;
+  requestedFixes?: PrepressFixKey[] | null;
 }
 
+/**
+ * Auto-fix catalog (check_and_fix); the server applies selected fixes in this order
+ */
+export type PrepressFixKey =
+  | 'rotate_to_orientation'
+  | 'scale_to_trim'
+  | 'add_bleed_mirror'
+  | 'add_bleed_stretch'
+  | 'rgb_to_cmyk'
+  | 'flatten_transparency'
+  | 'embed_fonts'
+  | 'outline_fonts'
+  | 'normalize_via_ghostscript';
+
+export const PREPRESS_FIX_OPTIONS: Array<{ key: PrepressFixKey; label: string; hint: string }> = [
+  { key: 'rotate_to_orientation', label: 'Rotate to orientation', hint: 'Needs a linked order line item' },
+  { key: 'scale_to_trim', label: 'Scale to trim', hint: 'Proportional; needs a linked order line item' },
+  { key: 'add_bleed_mirror', label: 'Add bleed (mirrored)', hint: 'Mirrors the edge artwork into the bleed' },
+  { key: 'add_bleed_stretch', label: 'Add bleed (stretched)', hint: 'Stretches the outermost edge into the bleed' },
+  { key: 'rgb_to_cmyk', label: 'Convert RGB to CMYK', hint: 'Uses the configured CMYK ICC profile' },
+  { key: 'flatten_transparency', label: 'Flatten transparency', hint: 'Writes PDF 1.3' },
+  { key: 'embed_fonts', label: 'Embed fonts', hint: 'Embeds every font that can be resolved' },
+  { key: 'outline_fonts', label: 'Outline fonts', hint: 'Converts remaining text to outlines' },
+  { key: 'normalize_via_ghostscript', label: 'Normalize PDF', hint: 'Default when nothing else is selected' },
+];
+
 /**
  * Fetch list of all prepress jobs for current org
  */
@@ -67,10 +99,25 @@ export function useCreatePrepressJob() {
   const queryClient = useQueryClient();
   
   return useMutation({
-    mutationFn: async (data: { file: File; mode: 'check' | 'check_and_fix' }) => {
+    mutationFn: async (data: {
+      file: File;
+      mode: 'check' | 'check_and_fix';
+      orderLineItemId?: string | null;
+      profileId?: string | null;
+      fixes?: PrepressFixKey[];
+    }) => {
       const formData = new FormData();
       formData.append('file', data.file);
       formData.append('mode', data.mode);
+      if (data.orderLineItemId) {
+        formData.append('orderLineItemId', data.orderLineItemId);
+      }
+      if (data.profileId) {
+        formData.append('profileId', data.profileId);
+      }
+      if (data.mode === 'check_and_fix' && data.fixes && data.fixes.length > 0) {
+        formData.append('fixes', data.fixes.join(','));
+      }
       
       const response = await fetch('/api/prepress/jobs', {
         method: 'POST',
@@ -138,10 +185,70 @@ export function usePrepressReport(jobId: string | null) {
   });
 }
 
+/**
+ * Report v2: per-page view with issue bboxes mapped onto the page previews
+ */
+export type PrepressIssueSeverity = 'BLOCKER' | 'WARNING' | 'INFO';
+
+export interface PrepressBBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface PrepressPageIssue {
+  index: number;
+  severity: PrepressIssueSeverity;
+  code: string;
+  message: string;
+  page?: number;
+  bbox?: PrepressBBox;
+  displayBbox?: PrepressBBox;
+}
+
+export interface PrepressReportPage {
+  page: number;
+  widthPt: number;
+  heightPt: number;
+  rotation: number;
+  previewAvailable: boolean;
+  issues: PrepressPageIssue[];
+}
+
+export interface PrepressReportV2 {
+  version: 'prepress_report_v2';
+  jobId: string;
+  issues: Array<Omit<PrepressPageIssue, 'index' | 'displayBbox'>>;
+  pages: PrepressReportPage[];
+}
+
+export function usePrepressReportV2(jobId: string | null) {
+  return useQuery({
+    queryKey: ['prepress', 'report-v2', jobId],
+    queryFn: async () => {
+      if (!jobId) return null;
+      
+      const response = await fetch(`/api/prepress/jobs/${jobId}/report/v2`);
+      
+      if (!response.ok) {
+        throw new Error('Failed to fetch report');
+      }
+      
+      return await response.json() as PrepressReportV2;
+    },
+    enabled: !!jobId,
+  });
+}
+
+export function prepressPagePreviewUrl(jobId: string, page: number) {
+  return `/api/prepress/jobs/${jobId}/pages/${page}/preview`;
+}
+
 /**
  * Download output file
  */
-export function downloadPrepressOutput(jobId: string, kind: 'report_json' | 'proof_png' | 'fixed_pdf') {
+export function downloadPrepressOutput(jobId: string, kind: 'report_json' | 'proof_png' | 'heatmap_png' | 'cut_svg' | 'cut_dxf' | 'fixed_pdf') {
   const url = `/api/prepress/jobs/${jobId}/download/${kind}`;
   const link = document.createElement('a');
   link.href = url;
@@ -225,3 +332,110 @@ export interface PrepressFixLog {
   afterSnapshot?: any;
   createdAt: string;
 }
+
+/**
+ * Preflight profiles (org-defined rules and score weights)
+ */
+export type PreflightColorSpace = 'cmyk' | 'rgb' | 'gray';
+
+export interface PreflightProfileRules {
+  minEffectiveDpi: number | null;
+  allowedColorSpaces: PreflightColorSpace[] | null;
+  spotColorsAllowed: boolean;
+  maxInkCoveragePercent: number | null;
+  fontEmbeddingRequired: boolean | null;
+  cutContourRequired: boolean;
+  cutContourOffsetIn: number | null;
+  pageCount: {
+    min: number | null;
+    max: number | null;
+    multipleOf: number | null;
+  };
+  scoring: {
+    blockerPenalty: number;
+    warningPenalty: number;
+    infoPenalty: number;
+  };
+}
+
+export interface PreflightProfile {
+  id: string;
+  name: string;
+  description: string | null;
+  productTypeId: string | null;
+  isDefault: boolean;
+  rules: PreflightProfileRules;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PreflightProfileInput = Pick<PreflightProfile, 'name' | 'description' | 'productTypeId' | 'isDefault' | 'rules'>;
+
+export const DEFAULT_PREFLIGHT_RULES: PreflightProfileRules = {
+  minEffectiveDpi: null,
+  allowedColorSpaces: null,
+  spotColorsAllowed: true,
+  maxInkCoveragePercent: null,
+  fontEmbeddingRequired: null,
+  cutContourRequired: false,
+  cutContourOffsetIn: null,
+  pageCount: { min: null, max: null, multipleOf: null },
+  scoring: { blockerPenalty: 10, warningPenalty: 2, infoPenalty: 0.5 },
+};
+
+export function usePreflightProfiles() {
+  return useQuery({
+    queryKey: ['prepress', 'profiles'],
+    queryFn: async () => {
+      const response = await fetch('/api/prepress/profiles', { credentials: 'include' });
+      const json = await response.json().catch(() => null);
+      if (!response.ok || !json?.success) {
+        throw new Error(json?.message || 'Failed to fetch preflight profiles');
+      }
+      return json.data as PreflightProfile[];
+    },
+  });
+}
+
+export function useSavePreflightProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: PreflightProfileInput & { id?: string }) => {
+      const response = await fetch(id ? `/api/prepress/profiles/${id}` : '/api/prepress/profiles', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(input),
+      });
+      const json = await response.json().catch(() => null);
+      if (!response.ok || !json?.success) {
+        throw new Error(json?.message || 'Failed to save preflight profile');
+      }
+      return json.data as PreflightProfile;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prepress', 'profiles'] });
+    },
+  });
+}
+
+export function useDeletePreflightProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/prepress/profiles/${id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+      const json = await response.json().catch(() => null);
+      if (!response.ok || !json?.success) {
+        throw new Error(json?.message || 'Failed to delete preflight profile');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['prepress', 'profiles'] });
+    },
+  });
+}
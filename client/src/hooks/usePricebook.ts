@@ -0,0 +1,133 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import type { PricebookValueType } from "@shared/pbv2/pricebook";
+
+export interface PricebookEntry {
+  id: string;
+  organizationId: string;
+  key: string;
+  label: string | null;
+  description: string | null;
+  valueType: PricebookValueType;
+  value: string;
+  effectiveFrom: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PricebookEntryInput {
+  key: string;
+  label?: string | null;
+  description?: string | null;
+  valueType: PricebookValueType;
+  value: number;
+  effectiveFrom?: string;
+}
+
+export type PricebookEntryUpdate = Partial<Omit<PricebookEntryInput, "key" | "valueType">>;
+
+async function readEnvelope<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json().catch(() => null);
+  if (!response.ok || !json?.success) throw new Error(json?.message || fallback);
+  return json.data as T;
+}
+
+export function usePricebookEntries() {
+  return useQuery<PricebookEntry[]>({
+    queryKey: ["/api/pricebook"],
+    queryFn: async () => {
+      const response = await fetch("/api/pricebook", { credentials: "include" });
+      return readEnvelope<PricebookEntry[]>(response, "Failed to fetch pricebook");
+    },
+  });
+}
+
+/** Values resolved as of now, plus every defined key (for validator findings). */
+export function usePricebookValues() {
+  return useQuery<{ values: Record<string, number>; keys: string[] }>({
+    queryKey: ["/api/pricebook/values"],
+    queryFn: async () => {
+      const response = await fetch("/api/pricebook/values", { credentials: "include" });
+      return readEnvelope(response, "Failed to fetch pricebook values");
+    },
+  });
+}
+
+function useInvalidatePricebook() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/pricebook"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/pricebook/values"] });
+  };
+}
+
+export function useCreatePricebookEntry() {
+  const invalidate = useInvalidatePricebook();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: PricebookEntryInput) => {
+      const response = await fetch("/api/pricebook", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      return readEnvelope<PricebookEntry>(response, "Failed to create pricebook entry");
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Pricebook entry saved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUpdatePricebookEntry() {
+  const invalidate = useInvalidatePricebook();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: PricebookEntryUpdate }) => {
+      const response = await fetch(`/api/pricebook/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      return readEnvelope<PricebookEntry>(response, "Failed to update pricebook entry");
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Pricebook entry updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeletePricebookEntry() {
+  const invalidate = useInvalidatePricebook();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/pricebook/${id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const json = await response.json().catch(() => null);
+      if (!response.ok || !json?.success) throw new Error(json?.message || "Failed to delete pricebook entry");
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Pricebook entry deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
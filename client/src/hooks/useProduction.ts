@@ -1,5 +1,10 @@
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
+import type { SheetNestingMode, SheetNestingPlan } from "@shared/sheetNesting";
+import type { RollNestingPlan } from "@shared/rollNesting";
+import type { ImpositionMode, ImpositionPlan } from "@shared/imposition";
+import type { MachineShift, MachineThroughputUnit } from "@shared/productionCapacity";
+import type { JobOperationStatus, RoutingOperation } from "@shared/productionRouting";
 
 export type ProductionConfig = {
   enabledViews: string[];
@@ -104,8 +109,12 @@ export type ProductionEvent = {
     | "reprint_incremented"
     | "media_used_set"
     | "intake"
-    | "routing_override";
+    | "routing_override"
+    | "operation_completed";
   payload: any;
+  /** Who triggered the event: the signed-in user, or the operator at the kiosk. */
+  operatorUserId?: string | null;
+  operatorName?: string | null;
   createdAt: string;
 };
 
@@ -125,9 +134,27 @@ export type ProductionOtherJobInOrder = {
   createdAt: string;
 };
 
+/** One step of a multi-step routing instantiated on a job (see shared/productionRouting.ts). */
+export type ProductionJobOperation = {
+  id: string;
+  sequence: number;
+  operationKey: string;
+  name: string;
+  stationKey: string;
+  setupMinutes: number | null;
+  runRate: string | null;
+  runRateUnit: MachineThroughputUnit;
+  status: JobOperationStatus;
+  startedAt: string | null;
+  completedAt: string | null;
+  totalSeconds: number;
+};
+
 export type ProductionJobDetail = Omit<ProductionJobListItem, "view"> & {
   events: ProductionEvent[];
   otherJobsInOrder?: ProductionOtherJobInOrder[];
+  /** Routing operations in order; empty for single-step jobs. */
+  operations?: ProductionJobOperation[];
 };
 
 export function useProductionConfig() {
@@ -250,6 +277,7 @@ export function useScheduleOrderLineItemsForProduction(orderId: string) {
 
 function invalidateProduction(qc: ReturnType<typeof useQueryClient>, jobId?: string) {
   qc.invalidateQueries({ queryKey: ["/api/production/jobs"] });
+  qc.invalidateQueries({ queryKey: ["/api/production/schedule"] });
   if (jobId) qc.invalidateQueries({ queryKey: ["/api/production/jobs", jobId] });
 }
 
@@ -516,3 +544,604 @@ export function useOverrideProductionJobRouting() {
     },
   });
 }
+
+export type GangSheetPlanRequest = {
+  lineItemIds: string[];
+  mode?: SheetNestingMode;
+  allowRotation?: boolean;
+  gutterIn?: number;
+  bleedIn?: number;
+  marginIn?: number;
+  sheetWidthIn?: number;
+  sheetHeightIn?: number;
+};
+
+export type GangSheetPlan = SheetNestingPlan & {
+  material: { id: string; name: string; sku: string } | null;
+  lineItems: Array<{
+    id: string;
+    orderId: string;
+    orderNumber: string;
+    description: string;
+    widthIn: number | null;
+    heightIn: number | null;
+    quantity: number;
+  }>;
+};
+
+export type NestingLayoutExportParams = {
+  jobIds: string[];
+  kind?: "sheet" | "roll";
+  mode?: SheetNestingMode;
+  allowRotation?: boolean;
+  gutterIn?: number;
+  bleedIn?: number;
+  marginIn?: number;
+  sheetWidthIn?: number;
+  sheetHeightIn?: number;
+  /** SVG only: 0-based sheet to export. */
+  sheet?: number;
+};
+
+/** Download URL for a nesting layout (SVG = one sheet at true size, PDF = every sheet). */
+export function nestingLayoutUrl(format: "svg" | "pdf", params: NestingLayoutExportParams, download = true): string {
+  const search = new URLSearchParams({ jobIds: params.jobIds.join(",") });
+  for (const [key, value] of Object.entries(params)) {
+    if (key === "jobIds" || value === undefined || value === null) continue;
+    search.set(key, String(value));
+  }
+  if (download) search.set("download", "1");
+  return `/api/production/nesting/layout.${format}?${search.toString()}`;
+}
+
+/** Proposed gang sheet for line items sharing a material (computed on demand, not saved). */
+export function usePlanGangSheet() {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (data: GangSheetPlanRequest) => {
+      const res = await fetch("/api/production/nesting/sheet-plan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to plan gang sheet");
+      return json.data as GangSheetPlan;
+    },
+    onError: (e: Error) => {
+      toast({ title: "Gang sheet failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+export type RollRunPlanRequest = {
+  jobIds: string[];
+  allowRotation?: boolean;
+  gutterIn?: number;
+};
+
+export type RollRunPlan = RollNestingPlan & {
+  material: { id: string; name: string; sku: string; rollLengthFt: number | null };
+  jobs: Array<{
+    jobId: string;
+    orderId: string;
+    orderNumber: string;
+    customerName: string;
+    description: string;
+    widthIn: number | null;
+    heightIn: number | null;
+    quantity: number;
+  }>;
+};
+
+/** Packed roll run (lanes across the width) for roll jobs sharing a material. */
+export function usePlanRollRun() {
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (data: RollRunPlanRequest) => {
+      const res = await fetch("/api/production/nesting/roll-plan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to plan roll run");
+      return json.data as RollRunPlan;
+    },
+    onError: (e: Error) => {
+      toast({ title: "Roll run failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+/**
+ * Record each job's share of a planned roll run as media used (linear feet). `runId` identifies
+ * the plan; re-posting the same run id records nothing twice.
+ */
+export function useRecordRollRunMediaUsed() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (data: RollRunPlanRequest & { runId: string }) => {
+      const res = await fetch("/api/production/nesting/roll-plan/media-used", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to record media used");
+      return json.data as { plan: RollRunPlan; recordedJobIds: string[]; skippedJobIds: string[] };
+    },
+    onSuccess: (result) => {
+      invalidateProduction(qc);
+      for (const jobId of result.recordedJobIds) qc.invalidateQueries({ queryKey: ["/api/production/jobs", jobId] });
+      const skipped = result.skippedJobIds.length > 0 ? `, ${result.skippedJobIds.length} already recorded for this run` : "";
+      toast({ title: "Media used recorded", description: `${result.recordedJobIds.length} job(s) updated${skipped}` });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Save failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+export type ImpositionParams = {
+  mode: ImpositionMode;
+  duplex?: boolean;
+  allowRotation?: boolean;
+  gutterIn?: number;
+  bleedIn?: number;
+  marginIn?: number;
+  sheetWidthIn?: number;
+  sheetHeightIn?: number;
+  quantity?: number;
+};
+
+export type JobImposition = {
+  plan: ImpositionPlan;
+  duplex: boolean;
+  sheetSource: "request" | "product" | "pricing_formula" | "product_legacy";
+  artwork: { attachmentId: string; fileName: string; pageCount: number };
+  fileBase: string;
+};
+
+function impositionSearch(params: ImpositionParams): URLSearchParams {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined || value === null) continue;
+    search.set(key, String(value));
+  }
+  return search;
+}
+
+/** Download URL for a job's imposed press sheets (PDF). */
+export function impositionPdfUrl(jobId: string, params: ImpositionParams, download = true): string {
+  const search = impositionSearch(params);
+  if (download) search.set("download", "1");
+  return `/api/production/jobs/${jobId}/imposition.pdf?${search.toString()}`;
+}
+
+/** Imposition plan for a job's artwork (n-up, sheet count, warnings); computed on demand. */
+export function useJobImposition(jobId: string | undefined, params: ImpositionParams, enabled = true) {
+  const url = `/api/production/jobs/${jobId}/imposition?${impositionSearch(params).toString()}`;
+  return useQuery<JobImposition>({
+    queryKey: [url],
+    queryFn: async () => {
+      const res = await fetch(url, { credentials: "include" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to plan imposition");
+      return json.data as JobImposition;
+    },
+    enabled: !!jobId && enabled,
+    retry: false,
+  });
+}
+
+export type ProductionMachine = {
+  id: string;
+  stationKey: string;
+  name: string;
+  throughputUnit: MachineThroughputUnit;
+  throughputRate: string;
+  setupMinutes: number;
+  timezone: string | null;
+  workingHours: MachineShift[];
+  closedDates: string[];
+  isActive: boolean;
+};
+
+export type ProductionMachineInput = Omit<ProductionMachine, "id" | "throughputRate"> & { throughputRate: number };
+
+export type ProductionScheduleJob = {
+  jobId: string;
+  orderId: string;
+  orderNumber: string;
+  customerName: string | null;
+  lineItemId: string | null;
+  description: string | null;
+  stationKey: string;
+  status: "queued" | "in_progress";
+  priority: string;
+  productionDueDate: string | null;
+  machineId: string | null;
+  estimatedMinutes: number | null;
+  scheduledStartAt: string | null;
+  scheduledEndAt: string | null;
+  scheduledLate: boolean;
+  plannedStartAt: string | null;
+  scheduleSequence: number | null;
+  dueAt: string | null;
+  scheduleConflict: boolean;
+};
+
+export type ProductionSchedule = {
+  machines: ProductionMachine[];
+  jobs: ProductionScheduleJob[];
+  lateCount: number;
+  conflictCount: number;
+};
+
+export type ProductionScheduleRun = {
+  ranAt: string;
+  scheduledCount: number;
+  lateCount: number;
+  conflictCount: number;
+  unscheduled: Array<{ jobId: string; reason: string }>;
+};
+
+export function useProductionMachines() {
+  return useQuery<ProductionMachine[]>({
+    queryKey: ["/api/production/machines"],
+    queryFn: async () => {
+      const res = await fetch("/api/production/machines", { credentials: "include" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to fetch machines");
+      return json.data as ProductionMachine[];
+    },
+  });
+}
+
+/** Create (no id) or update a machine; the server re-plans the schedule either way. */
+export function useSaveProductionMachine() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async ({ id, ...data }: Partial<ProductionMachineInput> & { id?: string }) => {
+      const res = await fetch(id ? `/api/production/machines/${id}` : "/api/production/machines", {
+        method: id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to save machine");
+      return json.data as ProductionMachine;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/production/machines"] });
+      qc.invalidateQueries({ queryKey: ["/api/production/schedule"] });
+      toast({ title: "Machine saved" });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Save failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteProductionMachine() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/production/machines/${id}`, { method: "DELETE", credentials: "include" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to delete machine");
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/production/machines"] });
+      qc.invalidateQueries({ queryKey: ["/api/production/schedule"] });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Delete failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+export type ProductionRouting = {
+  id: string;
+  name: string;
+  description: string | null;
+  operations: RoutingOperation[];
+  isActive: boolean;
+  productIds: string[];
+  productTypeIds: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ProductionRoutingInput = Pick<
+  ProductionRouting,
+  "name" | "description" | "operations" | "isActive" | "productIds" | "productTypeIds"
+>;
+
+/** Multi-step routing templates with the products and product types attached to each. */
+export function useProductionRoutings() {
+  return useQuery<ProductionRouting[]>({
+    queryKey: ["/api/production/routings"],
+    queryFn: async () => {
+      const res = await fetch("/api/production/routings", { credentials: "include" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to fetch routings");
+      return json.data as ProductionRouting[];
+    },
+  });
+}
+
+/** Create (no id) or update a routing; applies to jobs created afterwards. */
+export function useSaveProductionRouting() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async ({ id, ...data }: Partial<ProductionRoutingInput> & { id?: string }) => {
+      const res = await fetch(id ? `/api/production/routings/${id}` : "/api/production/routings", {
+        method: id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to save routing");
+      return json.data as ProductionRouting;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/production/routings"] });
+      toast({ title: "Routing saved" });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Save failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeleteProductionRouting() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/production/routings/${id}`, { method: "DELETE", credentials: "include" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to delete routing");
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/production/routings"] });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Delete failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+/** Stored capacity schedule: open jobs with machine, estimate and start/finish slot. */
+export function useProductionSchedule(options?: { enabled?: boolean; refetchInterval?: number }) {
+  return useQuery<ProductionSchedule>({
+    queryKey: ["/api/production/schedule"],
+    queryFn: async () => {
+      const res = await fetch("/api/production/schedule", { credentials: "include" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to fetch production schedule");
+      return json.data as ProductionSchedule;
+    },
+    staleTime: 10_000,
+    refetchInterval: options?.refetchInterval,
+    enabled: options?.enabled !== false,
+  });
+}
+
+/**
+ * Drag on the schedule board: pin a queued job to a machine and planned start (or unpin with
+ * plannedStartAt null). The bar moves at once; the server re-plans and the board refetches.
+ */
+export function useMoveScheduledJob() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async (data: { jobId: string; machineId: string; plannedStartAt: string | null }) => {
+      const res = await fetch(`/api/production/schedule/jobs/${data.jobId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ machineId: data.machineId, plannedStartAt: data.plannedStartAt }),
+        credentials: "include",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to move job");
+      return json.data as ProductionScheduleRun;
+    },
+    onMutate: async (data) => {
+      await qc.cancelQueries({ queryKey: ["/api/production/schedule"] });
+      const previous = qc.getQueryData<ProductionSchedule>(["/api/production/schedule"]);
+      if (previous && data.plannedStartAt) {
+        qc.setQueryData<ProductionSchedule>(["/api/production/schedule"], {
+          ...previous,
+          jobs: previous.jobs.map((job) => {
+            if (job.jobId !== data.jobId || !job.scheduledStartAt || !job.scheduledEndAt) return job;
+            const duration = new Date(job.scheduledEndAt).getTime() - new Date(job.scheduledStartAt).getTime();
+            return {
+              ...job,
+              machineId: data.machineId,
+              plannedStartAt: data.plannedStartAt,
+              scheduledStartAt: data.plannedStartAt,
+              scheduledEndAt: new Date(new Date(data.plannedStartAt!).getTime() + duration).toISOString(),
+            };
+          }),
+        });
+      }
+      return { previous };
+    },
+    onError: (e: Error, _data, context) => {
+      if (context?.previous) qc.setQueryData(["/api/production/schedule"], context.previous);
+      toast({ title: "Move failed", description: e.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: ["/api/production/schedule"] });
+    },
+  });
+}
+
+export function useRunProductionScheduler() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async () => {
+      const res = await fetch("/api/production/schedule/run", { method: "POST", credentials: "include" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to run scheduler");
+      return json.data as ProductionScheduleRun;
+    },
+    onSuccess: (run) => {
+      qc.invalidateQueries({ queryKey: ["/api/production/schedule"] });
+      qc.invalidateQueries({ queryKey: ["/api/production/jobs"] });
+      const parts = [`${run.scheduledCount} scheduled`];
+      if (run.lateCount > 0) parts.push(`${run.lateCount} late`);
+      if (run.conflictCount > 0) parts.push(`${run.conflictCount} off their planned start`);
+      if (run.unscheduled.length > 0) parts.push(`${run.unscheduled.length} without a machine`);
+      toast({ title: "Schedule updated", description: parts.join(", ") });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Scheduler failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
+
+/** Printable job ticket(s) with the barcode the kiosk scans (PDF, one page per job). */
+export function jobTicketsPdfUrl(jobIds: string[], download = false): string {
+  const base =
+    jobIds.length === 1
+      ? `/api/production/jobs/${jobIds[0]}/ticket.pdf`
+      : `/api/production/tickets.pdf?jobIds=${encodeURIComponent(jobIds.join(","))}`;
+  if (!download) return base;
+  return `${base}${base.includes("?") ? "&" : "?"}download=1`;
+}
+
+export type KioskOperator = { userId: string; name: string };
+
+export type KioskAction = "start" | "pause" | "complete";
+
+export type KioskJob = {
+  id: string;
+  orderNumber: string | null;
+  customerName: string | null;
+  description: string | null;
+  quantity: number | null;
+  stationKey: string;
+  stepKey: string;
+  status: ProductionJobListItem["status"];
+  isRunning: boolean;
+  totalSeconds: number;
+  operation: { name: string; sequence: number; count: number } | null;
+};
+
+export type KioskSession = { operator: KioskOperator; operatorToken: string; expiresAt: string };
+
+export type KioskScanResult = KioskSession & { action: KioskAction; job: KioskJob };
+
+export type ProductionOperator = KioskOperator & {
+  email: string | null;
+  role: string;
+  hasPin: boolean;
+  badgeCode: string | null;
+  laborRatePerHour: string | null;
+};
+
+/** Operators that have a kiosk PIN, for the kiosk sign-in picker. */
+export function useKioskOperators() {
+  return useQuery<KioskOperator[]>({
+    queryKey: ["/api/production/kiosk/operators"],
+    queryFn: async () => {
+      const res = await fetch("/api/production/kiosk/operators", { credentials: "include" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to fetch operators");
+      return json.data as KioskOperator[];
+    },
+  });
+}
+
+/** Kiosk sign-in by badge or PIN. No toasts: the kiosk shows errors full-size. */
+export function useKioskIdentify() {
+  return useMutation({
+    mutationFn: async (data: { badgeCode: string } | { userId: string; pin: string }) => {
+      const res = await fetch("/api/production/kiosk/identify", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Sign-in failed");
+      return json.data as KioskSession;
+    },
+  });
+}
+
+/** Start, pause or complete a scanned ticket's job as the signed-in kiosk operator. */
+export function useKioskScan() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: { operatorToken: string; code: string; action: KioskAction }) => {
+      const res = await fetch("/api/production/kiosk/scan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) {
+        throw Object.assign(new Error(json.message || "Scan failed"), { status: res.status });
+      }
+      return json.data as KioskScanResult;
+    },
+    onSuccess: (result) => invalidateProduction(qc, result.job.id),
+  });
+}
+
+/** Staff with their kiosk PIN / badge status (admin). */
+export function useProductionOperators(enabled = true) {
+  return useQuery<ProductionOperator[]>({
+    queryKey: ["/api/production/operators"],
+    queryFn: async () => {
+      const res = await fetch("/api/production/operators", { credentials: "include" });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to fetch operators");
+      return json.data as ProductionOperator[];
+    },
+    enabled,
+  });
+}
+
+/** Set or clear an operator's kiosk PIN and badge; null clears, omitted keeps. */
+export function useSaveOperatorCredentials() {
+  const qc = useQueryClient();
+  const { toast } = useToast();
+  return useMutation({
+    mutationFn: async ({ userId, ...data }: { userId: string; pin?: string | null; badgeCode?: string | null }) => {
+      const res = await fetch(`/api/production/operators/${userId}/kiosk-credentials`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      const json = await res.json().catch(() => ({}));
+      if (!res.ok || !json.success) throw new Error(json.message || "Failed to save kiosk sign-in");
+      return json.data as ProductionOperator;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: ["/api/production/operators"] });
+      qc.invalidateQueries({ queryKey: ["/api/production/kiosk/operators"] });
+      toast({ title: "Kiosk sign-in saved" });
+    },
+    onError: (e: Error) => {
+      toast({ title: "Save failed", description: e.message, variant: "destructive" });
+    },
+  });
+}
@@ -0,0 +1,245 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import type { PromotionDiscountType } from "@shared/promotions";
+
+export interface Promotion {
+  id: string;
+  organizationId: string;
+  code: string;
+  name: string;
+  description: string | null;
+  discountType: PromotionDiscountType;
+  discountValue: string;
+  optionName: string | null;
+  productTypeIds: string[];
+  customerTiers: string[];
+  minSubtotal: string | null;
+  minQuantity: number | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  maxRedemptions: number | null;
+  maxRedemptionsPerCustomer: number | null;
+  isActive: boolean;
+  redemptionCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PromotionInput {
+  code: string;
+  name: string;
+  description?: string | null;
+  discountType: PromotionDiscountType;
+  discountValue: number;
+  optionName?: string | null;
+  productTypeIds?: string[];
+  customerTiers?: string[];
+  minSubtotal?: number | null;
+  minQuantity?: number | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerCustomer?: number | null;
+  isActive?: boolean;
+}
+
+export interface DiscountLine {
+  id: string;
+  promotionId: string | null;
+  code: string | null;
+  description: string;
+  amountCents: number;
+  sortOrder: number;
+}
+
+export interface QuoteDiscountLines {
+  discountLines: DiscountLine[];
+  removed: Array<{ code: string | null; reason: string }>;
+}
+
+async function readEnvelope<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json().catch(() => null);
+  if (!response.ok || !json?.success) throw new Error(json?.message || fallback);
+  return json.data as T;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Promotion definitions (settings)
+// ────────────────────────────────────────────────────────────────────────────
+
+export function usePromotions() {
+  return useQuery<Promotion[]>({
+    queryKey: ["/api/promotions"],
+    queryFn: async () => {
+      const response = await fetch("/api/promotions", { credentials: "include" });
+      return readEnvelope<Promotion[]>(response, "Failed to fetch promotions");
+    },
+  });
+}
+
+export function useCreatePromotion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: PromotionInput) => {
+      const response = await fetch("/api/promotions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      return readEnvelope<Promotion>(response, "Failed to create promotion");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      toast({ title: "Promotion created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useUpdatePromotion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: Partial<PromotionInput> }) => {
+      const response = await fetch(`/api/promotions/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      return readEnvelope<Promotion>(response, "Failed to update promotion");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      toast({ title: "Promotion updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useDeletePromotion() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/promotions/${id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const json = await response.json().catch(() => null);
+      if (!response.ok || !json?.success) throw new Error(json?.message || "Failed to delete promotion");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/promotions"] });
+      toast({ title: "Promotion deleted" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Quote discount lines (quote editor + portal checkout)
+// ────────────────────────────────────────────────────────────────────────────
+
+type QuotePromotionScope = "staff" | "portal";
+
+function quotePromotionsUrl(scope: QuotePromotionScope, quoteId: string) {
+  return scope === "portal" ? `/api/portal/quotes/${quoteId}/promotions` : `/api/quotes/${quoteId}/promotions`;
+}
+
+/**
+ * Applied promotions for a quote. The server re-evaluates them on every read, so pass a
+ * `pricingKey` that changes when line totals change to pick up new amounts.
+ */
+export function useQuotePromotions(
+  quoteId: string | null | undefined,
+  options: { scope?: QuotePromotionScope; pricingKey?: string | number } = {}
+) {
+  const scope = options.scope ?? "staff";
+  return useQuery<QuoteDiscountLines>({
+    queryKey: [quotePromotionsUrl(scope, quoteId ?? ""), options.pricingKey ?? null],
+    queryFn: async () => {
+      const response = await fetch(quotePromotionsUrl(scope, quoteId!), { credentials: "include" });
+      return readEnvelope<QuoteDiscountLines>(response, "Failed to fetch promotions");
+    },
+    enabled: !!quoteId,
+  });
+}
+
+function useInvalidateQuotePromotions(scope: QuotePromotionScope, quoteId: string) {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: [quotePromotionsUrl(scope, quoteId)] });
+    // Quote totals are rewritten server-side when discounts change
+    queryClient.invalidateQueries({ queryKey: scope === "portal" ? ["quotes", quoteId] : ["/api/quotes", quoteId] });
+  };
+}
+
+export function useApplyQuotePromotion(quoteId: string, scope: QuotePromotionScope = "staff") {
+  const invalidate = useInvalidateQuotePromotions(scope, quoteId);
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (code: string) => {
+      const response = await fetch(quotePromotionsUrl(scope, quoteId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ code }),
+      });
+      return readEnvelope<QuoteDiscountLines>(response, "Failed to apply promotion");
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Promotion applied" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Promotion not applied", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useRemoveQuotePromotion(quoteId: string, scope: QuotePromotionScope = "staff") {
+  const invalidate = useInvalidateQuotePromotions(scope, quoteId);
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (discountLineId: string) => {
+      const response = await fetch(`${quotePromotionsUrl(scope, quoteId)}/${discountLineId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      return readEnvelope<QuoteDiscountLines>(response, "Failed to remove promotion");
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Promotion removed" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+/** Discount lines carried onto an order or invoice (read-only). */
+export function useDocumentDiscountLines(kind: "orders" | "invoices", id: string | null | undefined) {
+  return useQuery<DiscountLine[]>({
+    queryKey: [`/api/${kind}`, id, "discount-lines"],
+    queryFn: async () => {
+      const response = await fetch(`/api/${kind}/${id}/discount-lines`, { credentials: "include" });
+      return readEnvelope<DiscountLine[]>(response, "Failed to fetch discounts");
+    },
+    enabled: !!id,
+  });
+}
@@ -0,0 +1,138 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+
+export type ProofStatus = "pending" | "approved" | "changes_requested" | "superseded";
+
+export interface ProofAnnotation {
+  page: number;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface ProofEvent {
+  id: string;
+  type: string;
+  actorType: "staff" | "customer";
+  actorName: string | null;
+  ip: string | null;
+  createdAt: string;
+}
+
+export interface ProofComment {
+  id: string;
+  authorType: "staff" | "customer";
+  authorName: string | null;
+  body: string;
+  annotation: ProofAnnotation | null;
+  createdAt: string;
+}
+
+export interface ProofVersion {
+  id: string;
+  orderLineItemId: string;
+  version: number;
+  status: ProofStatus;
+  isLatest: boolean;
+  orderAttachmentId: string | null;
+  fileName: string;
+  message: string | null;
+  recipientEmail: string | null;
+  sentAt: string | null;
+  tokenExpiresAt: string;
+  decidedAt: string | null;
+  signerName: string | null;
+  signerIp: string | null;
+  createdByName: string | null;
+  createdAt: string;
+  events: ProofEvent[];
+  comments: ProofComment[];
+}
+
+export interface ProofSendResult {
+  proof: ProofVersion;
+  reviewUrl: string;
+  emailSent: boolean;
+}
+
+export interface SendProofInput {
+  orderAttachmentId: string;
+  recipientEmail?: string | null;
+  message?: string | null;
+}
+
+async function readEnvelope<T>(response: Response, fallback: string): Promise<T> {
+  const json = await response.json().catch(() => null);
+  if (!response.ok || !json?.success) throw new Error(json?.message || fallback);
+  return json.data as T;
+}
+
+function proofsPath(orderId: string, lineItemId: string) {
+  return `/api/orders/${orderId}/line-items/${lineItemId}/proofs`;
+}
+
+function sentToast(result: ProofSendResult) {
+  return result.emailSent
+    ? { title: `Proof v${result.proof.version} sent`, description: `Emailed to ${result.proof.recipientEmail}` }
+    : { title: `Proof v${result.proof.version} ready`, description: "Email was not sent; copy the review link to share it." };
+}
+
+export function useLineItemProofs(orderId: string | undefined, lineItemId: string | undefined) {
+  return useQuery<ProofVersion[]>({
+    queryKey: [orderId && lineItemId ? proofsPath(orderId, lineItemId) : "disabled-proofs"],
+    queryFn: async () => {
+      const response = await fetch(proofsPath(orderId!, lineItemId!), { credentials: "include" });
+      return readEnvelope<ProofVersion[]>(response, "Failed to fetch proofs");
+    },
+    enabled: !!orderId && !!lineItemId,
+  });
+}
+
+export function useSendProof(orderId: string, lineItemId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: SendProofInput) => {
+      const response = await fetch(proofsPath(orderId, lineItemId), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify(data),
+      });
+      return readEnvelope<ProofSendResult>(response, "Failed to send proof");
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [proofsPath(orderId, lineItemId)] });
+      toast(sentToast(result));
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
+
+export function useResendProof(orderId: string, lineItemId: string) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ proofId, recipientEmail }: { proofId: string; recipientEmail?: string | null }) => {
+      const response = await fetch(`/api/proofs/${proofId}/resend`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ recipientEmail }),
+      });
+      return readEnvelope<ProofSendResult>(response, "Failed to resend proof");
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: [proofsPath(orderId, lineItemId)] });
+      toast(sentToast(result));
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+}
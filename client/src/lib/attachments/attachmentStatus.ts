@@ -13,6 +13,7 @@ type AttachmentWithStatus = {
   mimeType?: string | null;
   fileName?: string;
   pages?: Array<{ thumbStatus?: ThumbStatus | string | null }>;
+  prepressStatus?: string | null;
 };
 
 /**
@@ -74,11 +75,21 @@ function arePageThumbsTerminal(att: AttachmentWithStatus | null | undefined): bo
   });
 }
 
+/**
+ * Check if automatic preflight is complete (line item artwork only)
+ * Non-terminal: 'queued'
+ * Fail-soft: missing prepressStatus treated as terminal
+ */
+export function isPrepressTerminal(att: AttachmentWithStatus | null | undefined): boolean {
+  return att?.prepressStatus !== 'queued';
+}
+
 /**
  * Check if attachment has reached fully settled state
  * Returns true when:
  * - Both thumb and pageCount are terminal
  * - All per-page thumbs are terminal (for PDFs)
+ * - Automatic preflight is terminal
  * Fail-soft: missing fields treated as terminal
  */
 export function isAttachmentSettled(att: AttachmentWithStatus | null | undefined): boolean {
@@ -87,8 +98,9 @@ export function isAttachmentSettled(att: AttachmentWithStatus | null | undefined
   const thumbDone = isThumbTerminal(att);
   const pageCountDone = isPageCountTerminal(att);
   const pageThumbsDone = arePageThumbsTerminal(att);
+  const prepressDone = isPrepressTerminal(att);
   
-  return thumbDone && pageCountDone && pageThumbsDone;
+  return thumbDone && pageCountDone && pageThumbsDone && prepressDone;
 }
 
 /**
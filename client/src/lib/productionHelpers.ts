@@ -129,3 +129,16 @@ export function isFlatbedJob(stationKey: string | null | undefined): boolean {
   const key = String(stationKey).toLowerCase();
   return key === "flatbed" || key.includes("flatbed");
 }
+
+/**
+ * Progress through a multi-step routing, e.g. "Step 2 of 5 · Laminate"; null for single-step jobs
+ */
+export function formatOperationProgress(
+  operations: Array<{ sequence: number; name: string; status: string }> | null | undefined
+): string | null {
+  if (!operations || operations.length === 0) return null;
+  const applicable = operations.filter((op) => op.status !== "skipped").sort((a, b) => a.sequence - b.sequence);
+  const currentIndex = applicable.findIndex((op) => op.status !== "done");
+  if (currentIndex === -1) return `All ${applicable.length} steps done`;
+  return `Step ${currentIndex + 1} of ${applicable.length} · ${applicable[currentIndex].name}`;
+}
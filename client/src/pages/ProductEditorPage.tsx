@@ -37,6 +37,9 @@ import { optionsHaveInvalidChoices } from "@/lib/optionChoiceValidation";
 import PBV2ProductBuilderSectionV2 from "@/components/PBV2ProductBuilderSectionV2";
 import { ensureRootNodeIds, normalizeTreeJson } from "@/lib/pbv2/pbv2ViewModel";
 import { PricingValidationPanel } from "@/components/pbv2/builder-v2/PricingValidationPanel";
+import { TreeVersionDiffPanel } from "@/components/pbv2/builder-v2/TreeVersionDiffPanel";
+import { PriceImpactPanel } from "@/components/pbv2/builder-v2/PriceImpactPanel";
+import { VersionHistoryPanel } from "@/components/pbv2/builder-v2/VersionHistoryPanel";
 
 interface ProductFormData extends Omit<InsertProduct, 'optionsJson'> {
   optionsJson: ProductOptionItem[] | null;
@@ -120,6 +123,8 @@ const ProductEditorPage = () => {
       nestingVolumePricing: { enabled: false, tiers: [] },
       isActive: true,
       requiresProductionJob: true,
+      prepressBleedIn: null,
+      prepressSafeZoneIn: null,
       isTaxable: true,
     },
   });
@@ -161,6 +166,8 @@ const ProductEditorPage = () => {
         isActive: product.isActive ?? true,
         productTypeId: product.productTypeId || undefined,
         requiresProductionJob: product.requiresProductionJob ?? true,
+        prepressBleedIn: product.prepressBleedIn != null ? Number(product.prepressBleedIn) : null,
+        prepressSafeZoneIn: product.prepressSafeZoneIn != null ? Number(product.prepressSafeZoneIn) : null,
         isTaxable: product.isTaxable ?? true,
       };
       lastLoadedRef.current = nextValues;
@@ -898,11 +905,22 @@ const ProductEditorPage = () => {
           </div>
         }
         right={
-          <PricingValidationPanel
-            pricingPreview={pbv2PricingData.pricingPreview}
-            weightPreview={pbv2PricingData.weightPreview}
-            findings={pbv2PricingData.findings}
-          />
+          <div className="h-full flex flex-col">
+            <div className="flex-1 min-h-0">
+              <PricingValidationPanel
+                pricingPreview={pbv2PricingData.pricingPreview}
+                weightPreview={pbv2PricingData.weightPreview}
+                findings={pbv2PricingData.findings}
+              />
+            </div>
+            <VersionHistoryPanel
+              productId={productId ?? null}
+              draftId={pbv2State?.draftId ?? null}
+              hasUnsavedChanges={pbv2State?.hasChanges ?? false}
+            />
+            <TreeVersionDiffPanel productId={productId ?? null} draftId={pbv2State?.draftId ?? null} />
+            <PriceImpactPanel productId={productId ?? null} treeJson={pbv2State?.treeJson ?? null} />
+          </div>
         }
       />
       </div>
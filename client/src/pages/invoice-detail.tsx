@@ -28,6 +28,7 @@ import { computeInvoicePaymentRollup, getInvoicePaymentStatusLabel } from "@shar
 import { useAuth } from "@/hooks/useAuth";
 import { useInvoice, useBillInvoice, useRetryInvoiceQbSync, useSendInvoice, useRefreshInvoiceStatus, useDeleteInvoice, useMarkInvoiceSent, useUpdateInvoice, useInvoicePayments, useRecordManualInvoicePayment, useVoidInvoicePayment } from "@/hooks/useInvoices";
 import { useOrder } from "@/hooks/useOrders";
+import { useDocumentDiscountLines } from "@/hooks/usePromotions";
 import { useToast } from "@/hooks/use-toast";
 import { Page } from "@/components/titan/Page";
 import { format } from "date-fns";
@@ -131,6 +132,7 @@ export default function InvoiceDetailPage() {
   const queryClient = useQueryClient();
 
   const { data, isLoading, refetch } = useInvoice(invoiceId);
+  const { data: discountLines = [] } = useDocumentDiscountLines("invoices", invoiceId);
   const billInvoice = useBillInvoice();
   const retryQbSync = useRetryInvoiceQbSync();
   const sendInvoice = useSendInvoice();
@@ -1961,6 +1963,12 @@ export default function InvoiceDetailPage() {
                 </div>
 
                 <div className="space-y-2 rounded-md border p-3">
+                  {discountLines.map((line) => (
+                    <div key={line.id} className="flex items-center justify-between gap-4">
+                      <span className="text-sm text-muted-foreground">{line.description}</span>
+                      <span className="text-sm font-medium text-green-600">-{formatCurrencyFromCents(line.amountCents)}</span>
+                    </div>
+                  ))}
                   <div className="flex items-center justify-between gap-4">
                     <span className="text-sm text-muted-foreground">Total</span>
                     <span className="text-sm font-medium">{formatCurrency(invoice.total)}</span>
@@ -0,0 +1,175 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { format, subDays } from "date-fns";
+import { Page, PageHeader, ContentLayout } from "@/components/titan";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useJobProfitabilityReport, type JobProfitabilityQuery } from "@/hooks/useJobCosting";
+import { ROUTES } from "@/config/routes";
+import { cn } from "@/lib/utils";
+import type { JobCostRollup } from "@shared/jobCosting";
+
+function formatMoney(amount: number) {
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatHours(seconds: number) {
+  return `${(seconds / 3600).toFixed(1)} h`;
+}
+
+function formatMargin(cost: JobCostRollup) {
+  return cost.marginPercent == null ? "—" : `${cost.marginPercent.toFixed(1)}%`;
+}
+
+function SummaryTile({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="text-xs uppercase tracking-wide text-muted-foreground">{label}</div>
+        <div className={cn("text-xl font-semibold", className)}>{value}</div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * JobProfitabilityReportPage - Production jobs costed (material, labor and machine time)
+ * against their line item's sell price, for jobs finished (or started) in a date range.
+ */
+export default function JobProfitabilityReportPage() {
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 30), "yyyy-MM-dd"));
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [status, setStatus] = useState<JobProfitabilityQuery["status"]>("done");
+
+  // Whole days in local time; `to` is inclusive
+  const query = useMemo<JobProfitabilityQuery>(() => {
+    const toEnd = to ? new Date(`${to}T00:00:00`) : null;
+    if (toEnd) toEnd.setDate(toEnd.getDate() + 1);
+    return {
+      status,
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+      to: toEnd ? toEnd.toISOString() : undefined,
+    };
+  }, [from, to, status]);
+
+  const { data, isLoading, error } = useJobProfitabilityReport(query);
+  const totals = data?.totals;
+
+  return (
+    <Page maxWidth="full">
+      <PageHeader
+        title="Job Profitability"
+        subtitle="Material, labor and machine cost of production jobs against what was charged"
+      />
+      <ContentLayout>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="report-from">From</Label>
+            <Input id="report-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-to">To</Label>
+            <Input id="report-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-9" />
+          </div>
+          <div className="space-y-1">
+            <Label>Jobs</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as JobProfitabilityQuery["status"])}>
+              <SelectTrigger className="h-9 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="done">Completed in range</SelectItem>
+                <SelectItem value="all">Started in range</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {totals && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <SummaryTile label="Revenue" value={formatMoney(totals.sellPrice)} />
+            <SummaryTile label="Material" value={formatMoney(totals.materialCost)} />
+            <SummaryTile label="Labor + machine" value={formatMoney(totals.laborCost + totals.machineCost)} />
+            <SummaryTile
+              label="Margin"
+              value={formatMoney(totals.margin)}
+              className={totals.margin < 0 ? "text-destructive" : undefined}
+            />
+            <SummaryTile label="Margin %" value={formatMargin(totals)} />
+          </div>
+        )}
+
+        <Card>
+          <CardContent className="p-0">
+            {error ? (
+              <div className="p-4 text-sm text-destructive">{(error as Error).message}</div>
+            ) : isLoading || !data ? (
+              <div className="p-4 text-sm text-muted-foreground">Loading report...</div>
+            ) : data.lineItems.length === 0 ? (
+              <div className="p-4 text-sm text-muted-foreground">No production jobs in this range.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Order</TableHead>
+                    <TableHead>Line item</TableHead>
+                    <TableHead>Completed</TableHead>
+                    <TableHead className="text-right">Material</TableHead>
+                    <TableHead className="text-right">Labor</TableHead>
+                    <TableHead className="text-right">Machine</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Margin</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.lineItems.map((item) => (
+                    <TableRow key={item.lineItemId}>
+                      <TableCell>
+                        <Link to={ROUTES.orders.detail(item.orderId)} className="font-medium hover:underline">
+                          {item.orderNumber}
+                        </Link>
+                        <div className="text-xs text-muted-foreground">{item.customerName ?? ""}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="max-w-[280px] truncate">{item.description}</div>
+                        <div className="text-xs text-muted-foreground">Qty {item.quantity}</div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {item.completedAt ? format(new Date(item.completedAt), "MMM d, yyyy") : item.productionStatus?.replace("_", " ") ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(item.materialCost)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(item.laborCost)}
+                        <div className="text-xs text-muted-foreground">{formatHours(item.laborSeconds)}</div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(item.machineCost)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(item.totalCost)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(item.sellPrice)}</TableCell>
+                      <TableCell className={cn("text-right", item.margin < 0 && "text-destructive")}>
+                        {formatMoney(item.margin)}
+                        <div className="text-xs text-muted-foreground">{formatMargin(item)}</div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {data?.truncated && (
+          <p className="text-xs text-muted-foreground">Showing the first 1,000 line items; narrow the date range to see all.</p>
+        )}
+        {totals && totals.unratedLaborSeconds > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {formatHours(totals.unratedLaborSeconds)} of labor is by operators without a labor rate and is not costed.
+          </p>
+        )}
+      </ContentLayout>
+    </Page>
+  );
+}
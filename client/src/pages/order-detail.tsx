@@ -36,6 +36,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useOrgPreferences } from "@/hooks/useOrgPreferences";
 import { useOrder, useDeleteOrder, useUpdateOrder, useBulkUpdateOrderLineItemStatus, useTransitionOrderStatus, getAllowedNextStatuses, areLineItemsEditable, isOrderEditable } from "@/hooks/useOrders";
 import { useCreateOrderInvoice, useInvoices } from "@/hooks/useInvoices";
+import { useDocumentDiscountLines } from "@/hooks/usePromotions";
 import { OrderAttachmentsPanel } from "@/components/OrderAttachmentsPanel";
 import { useQuery } from "@tanstack/react-query";
 import type { OrderLineItem as HookOrderLineItem, OrderWithRelations as HookOrderWithRelations } from "@/hooks/useOrders";
@@ -65,6 +66,7 @@ import type { OrderState } from "@/hooks/useOrderState";
 import { isTerminalState as checkIfTerminalState } from "@/hooks/useOrderState";
 import { OrderLineItemsSection } from "@/components/orders/OrderLineItemsSection";
 import { ManualReservationsCard } from "@/components/orders/ManualReservationsCard";
+import { OrderJobCostingCard } from "@/components/orders/OrderJobCostingCard";
 
 /**
  * OrderDetail renders some legacy "bill to / ship to / shipping" snapshot fields
@@ -217,6 +219,7 @@ export default function OrderDetail() {
   const updateOrder = useUpdateOrder(orderId!);
   const transitionStatus = useTransitionOrderStatus(orderId!);
   const bulkUpdateLineItemStatus = useBulkUpdateOrderLineItemStatus(orderId!);
+  const { data: discountLines = [] } = useDocumentDiscountLines("orders", orderId);
 
   // Fulfillment hooks
   const { data: shipments = [] } = useShipments(orderId!);
@@ -2086,6 +2089,8 @@ export default function OrderDetail() {
                 <ManualReservationsCard orderId={orderId} enabled={inventoryReservationsEnabled} />
               ) : null}
 
+              {orderId && isManagerOrHigher ? <OrderJobCostingCard orderId={orderId} /> : null}
+
               {/* Totals */}
               <Card>
                 <CardHeader>
@@ -2097,7 +2102,14 @@ export default function OrderDetail() {
                       <span className="text-muted-foreground">Subtotal</span>
                       <span>{formatCurrency(order.subtotal)}</span>
                     </div>
-                    {parseFloat(order.discount) > 0 && (
+                    {discountLines.length > 0 ? (
+                      discountLines.map((line) => (
+                        <div key={line.id} className="flex justify-between text-sm text-red-500">
+                          <span>{line.description}</span>
+                          <span>-{formatCurrency(line.amountCents / 100)}</span>
+                        </div>
+                      ))
+                    ) : parseFloat(order.discount) > 0 && (
                       <div className="flex justify-between text-sm text-red-500">
                         <span>Discount</span>
                         <span>-{formatCurrency(order.discount)}</span>
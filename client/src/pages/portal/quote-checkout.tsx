@@ -9,6 +9,8 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Loader2, Upload, X, FileIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useQuotePromotions } from "@/hooks/usePromotions";
+import { QuotePromotionsRow } from "@/components/QuotePromotionsRow";
 
 export default function QuoteCheckout() {
   const { id: quoteId } = useParams<{ id: string }>();
@@ -16,6 +18,7 @@ export default function QuoteCheckout() {
   const { toast } = useToast();
 
   const { data: quote, isLoading } = useQuoteCheckout(quoteId);
+  const { data: promotions } = useQuotePromotions(quoteId, { scope: "portal" });
   const convertMutation = useConvertPortalQuoteToOrder();
 
   const [priority, setPriority] = useState("normal");
@@ -180,6 +183,12 @@ export default function QuoteCheckout() {
                   </div>
                 </div>
               ))}
+              <QuotePromotionsRow
+                quoteId={quoteId ?? null}
+                discountLines={promotions?.discountLines ?? []}
+                removed={promotions?.removed ?? []}
+                scope="portal"
+              />
               <div className="flex justify-between items-center pt-4 border-t-2">
                 <p className="text-lg font-bold">Total</p>
                 <p className="text-2xl font-bold">${parseFloat(quote.totalPrice || 0).toFixed(2)}</p>
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,7 +7,11 @@ import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { useCreatePrepressJob, usePrepressJob, usePrepressReport, usePrepressFindings, usePrepressFixLogs, usePrepressJobList, downloadPrepressOutput } from "@/hooks/usePrepress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCreatePrepressJob, usePrepressJob, usePrepressReport, usePrepressReportV2, usePrepressFindings, usePrepressFixLogs, usePrepressJobList, usePreflightProfiles, downloadPrepressOutput, PREPRESS_FIX_OPTIONS, type PrepressFixKey } from "@/hooks/usePrepress";
+import { Checkbox } from "@/components/ui/checkbox";
+import PreflightProfilesDialog from "@/components/prepress/PreflightProfilesDialog";
+import PrepressPageViewer from "@/components/prepress/PrepressPageViewer";
 import { FileUp, Download, CheckCircle2, XCircle, Clock, AlertTriangle, FileText, Search, Wrench, ArrowLeft, Eye } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
@@ -15,19 +20,34 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
  * 
  * Standalone PDF preflight tool interface.
  * Upload PDFs, run checks, and download results.
+ * Opened with `?orderLineItemId=` the upload is also verified against the ordered size.
  */
 
+const PROFILE_SOURCE_LABELS: Record<string, string> = {
+  job: 'Selected for this job',
+  product_type: 'Product type profile',
+  org_default: 'Organization default',
+  builtin: 'Built-in checks',
+};
+
 export default function PrepressPage() {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [mode, setMode] = useState<'check' | 'check_and_fix'>('check');
-  const [currentJobId, setCurrentJobId] = useState<string | null>(null);
+  const [searchParams] = useSearchParams();
+  // ?jobId= opens a job directly (e.g. from a line item artwork preflight badge)
+  const [currentJobId, setCurrentJobId] = useState<string | null>(() => searchParams.get('jobId'));
+  const [profileId, setProfileId] = useState<string>('auto');
+  const [fixes, setFixes] = useState<PrepressFixKey[]>([]);
+  const orderLineItemId = searchParams.get('orderLineItemId');
   
   const createJob = useCreatePrepressJob();
   const { data: jobsList, isLoading: jobsListLoading, isError: jobsListError } = usePrepressJobList();
   const { data: job, isError: jobError } = usePrepressJob(currentJobId);
   const { data: report } = usePrepressReport(job?.status === 'succeeded' ? currentJobId : null);
+  const { data: reportV2 } = usePrepressReportV2(job?.status === 'succeeded' ? currentJobId : null);
   const { data: findings } = usePrepressFindings(currentJobId);
   const { data: fixLogs } = usePrepressFixLogs(currentJobId);
+  const { data: profiles } = usePreflightProfiles();
   
   // Handle stale job selection (job not found or access denied)
   if (currentJobId && jobError) {
@@ -45,7 +65,13 @@ export default function PrepressPage() {
     if (!selectedFile) return;
     
     try {
-      const result = await createJob.mutateAsync({ file: selectedFile, mode });
+      const result = await createJob.mutateAsync({
+        file: selectedFile,
+        mode,
+        orderLineItemId,
+        profileId: profileId === 'auto' ? null : profileId,
+        fixes,
+      });
       setCurrentJobId(result.data.jobId);
     } catch (error) {
       console.error('Failed to create job:', error);
@@ -153,6 +179,66 @@ export default function PrepressPage() {
               </RadioGroup>
             </div>
             
+            {mode === 'check_and_fix' && (
+              <div>
+                <Label>Fixes to Apply</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Fixes run in this order and are skipped when the file doesn't need them. None selected runs Normalize PDF.
+                </p>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {PREPRESS_FIX_OPTIONS.map((option) => (
+                    <label key={option.key} className="flex items-start gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        className="mt-0.5"
+                        checked={fixes.includes(option.key)}
+                        onCheckedChange={(checked) =>
+                          setFixes((prev) => {
+                            const next = checked ? [...prev, option.key] : prev.filter((key) => key !== option.key);
+                            // Mirrored and stretched bleed are alternatives
+                            if (checked && option.key === 'add_bleed_mirror') return next.filter((key) => key !== 'add_bleed_stretch');
+                            if (checked && option.key === 'add_bleed_stretch') return next.filter((key) => key !== 'add_bleed_mirror');
+                            return next;
+                          })
+                        }
+                      />
+                      <span>
+                        {option.label}
+                        <span className="block text-xs text-muted-foreground">{option.hint}</span>
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            
+            <div>
+              <div className="flex items-center justify-between">
+                <Label>Preflight Profile</Label>
+                <PreflightProfilesDialog />
+              </div>
+              <Select value={profileId} onValueChange={setProfileId}>
+                <SelectTrigger className="mt-2">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Automatic (product type or org default)</SelectItem>
+                  {(profiles ?? []).map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            {orderLineItemId && (
+              <Alert>
+                <AlertDescription>
+                  Linked to an order line item: trim size, bleed and safe zone will be checked against what was ordered.
+                </AlertDescription>
+              </Alert>
+            )}
+            
             <Button
               onClick={handleSubmit}
               disabled={!selectedFile || createJob.isPending}
@@ -390,6 +476,130 @@ export default function PrepressPage() {
               </div>
             )}
             
+            {/* Applied Profile */}
+            {report && report.profile && (
+              <div className="p-4 bg-muted rounded-lg space-y-1 text-sm">
+                <h3 className="font-semibold">Preflight Profile</h3>
+                <div>
+                  <strong>{report.profile.name}</strong>
+                  {' • '}
+                  {PROFILE_SOURCE_LABELS[report.profile.source] ?? report.profile.source}
+                </div>
+              </div>
+            )}
+            
+            {/* Page Viewer */}
+            {reportV2 && reportV2.pages.length > 0 && (
+              <div className="p-4 bg-muted rounded-lg space-y-2">
+                <h3 className="font-semibold">Page Viewer</h3>
+                <PrepressPageViewer jobId={currentJobId} report={reportV2} />
+              </div>
+            )}
+            
+            {/* Ink Coverage / Separations */}
+            {report && report.analysis?.separations && (
+              <div className="p-4 bg-muted rounded-lg space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">Ink Coverage</h3>
+                  <span className={report.analysis.separations.maxTacPercent > report.analysis.separations.limitPercent ? 'text-red-600 font-semibold' : ''}>
+                    Max TAC {report.analysis.separations.maxTacPercent}% (limit {report.analysis.separations.limitPercent}%)
+                  </span>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Page</TableHead>
+                      {report.analysis.separations.colorants.map((colorant: string) => (
+                        <TableHead key={colorant} className="text-right">{colorant}</TableHead>
+                      ))}
+                      <TableHead className="text-right">Max TAC</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.analysis.separations.pages.map((page: any) => (
+                      <TableRow key={page.page}>
+                        <TableCell>{page.page}</TableCell>
+                        {report.analysis.separations.colorants.map((colorant: string) => (
+                          <TableCell key={colorant} className="text-right">
+                            {page.coverage[colorant] != null ? `${page.coverage[colorant]}%` : '—'}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right">{page.maxTacPercent}%</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {job.outputManifest?.heatmap_png && (
+                  <img
+                    src={`/api/prepress/jobs/${currentJobId}/download/heatmap_png`}
+                    alt="Total ink coverage heatmap, page 1"
+                    className="max-h-64 mx-auto border rounded"
+                  />
+                )}
+              </div>
+            )}
+            
+            {/* Cut Contour */}
+            {report && report.analysis?.cutContour && (report.analysis.cutContour.spotNames.length > 0 || report.profile?.rules?.cutContourRequired) && (
+              <div className="p-4 bg-muted rounded-lg space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">Cut Contour</h3>
+                  <span>
+                    {report.analysis.cutContour.spotNames.length > 0
+                      ? report.analysis.cutContour.spotNames.join(', ')
+                      : 'No cut separation'}
+                  </span>
+                </div>
+                {report.normalization?.generatedCutContour && (
+                  <div className="text-xs text-muted-foreground">
+                    Traced from the image transparency, {report.normalization.generatedCutContour.offsetIn}" outside the artwork
+                  </div>
+                )}
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Page</TableHead>
+                      <TableHead className="text-right">Paths</TableHead>
+                      <TableHead className="text-right">Cut size</TableHead>
+                      <TableHead className="text-right">Within bleed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.analysis.cutContour.pages.map((page: any) => {
+                      const outside = report.issues.some((issue: any) => issue.code === 'CUT_CONTOUR_OUTSIDE_BLEED' && issue.page === page.page);
+                      return (
+                        <TableRow key={page.page}>
+                          <TableCell>{page.page}</TableCell>
+                          <TableCell className="text-right">{page.pathCount}</TableCell>
+                          <TableCell className="text-right">
+                            {page.bbox ? `${(page.bbox.width / 72).toFixed(2)}" × ${(page.bbox.height / 72).toFixed(2)}"` : '—'}
+                          </TableCell>
+                          <TableCell className={`text-right ${outside ? 'text-red-600 font-semibold' : ''}`}>
+                            {page.bbox ? (outside ? 'No' : 'Yes') : '—'}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            
+            {/* Ordered Size */}
+            {report && report.sizeProfile && (
+              <div className="p-4 bg-muted rounded-lg space-y-1 text-sm">
+                <h3 className="font-semibold">Checked Against Order</h3>
+                <div>
+                  <strong>Trim:</strong> {report.sizeProfile.trimWidthIn}" × {report.sizeProfile.trimHeightIn}"
+                </div>
+                <div>
+                  <strong>Bleed:</strong> {report.sizeProfile.bleedIn > 0 ? `${report.sizeProfile.bleedIn}"` : 'not required'}
+                  {' • '}
+                  <strong>Safe zone:</strong> {report.sizeProfile.safeZoneIn > 0 ? `${report.sizeProfile.safeZoneIn}"` : 'not set'}
+                </div>
+              </div>
+            )}
+            
             {/* Issues List */}
             {report && report.issues && report.issues.length > 0 && (
               <div>
@@ -468,6 +678,43 @@ export default function PrepressPage() {
               </div>
             )}
             
+            {/* Auto-Fix Steps */}
+            {report && report.fix && (
+              <div>
+                <div className="flex items-center gap-2 mb-3">
+                  <Wrench className="w-4 h-4" />
+                  <h3 className="font-semibold">Auto-Fix</h3>
+                  <span className="text-sm text-muted-foreground">
+                    Score {report.fix.before.score} → {report.fix.after.score}
+                  </span>
+                </div>
+                {report.fix.steps && report.fix.steps.length > 0 && (
+                  <div className="space-y-1 text-sm">
+                    {report.fix.steps.map((step: any) => (
+                      <div key={step.fix} className="flex items-center justify-between gap-2 p-2 rounded border">
+                        <div>
+                          <span className="font-medium">
+                            {PREPRESS_FIX_OPTIONS.find((option) => option.key === step.fix)?.label ?? step.fix}
+                          </span>
+                          {step.note && <span className="text-muted-foreground"> — {step.note}</span>}
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {step.before && step.after && (
+                            <span className="text-xs text-muted-foreground">
+                              {step.before.score} → {step.after.score}
+                            </span>
+                          )}
+                          <Badge variant={step.status === 'applied' ? 'default' : step.status === 'failed' ? 'destructive' : 'secondary'}>
+                            {step.status}
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            
             {/* Fix History Section */}
             {fixLogs && fixLogs.length > 0 && (
               <div>
@@ -531,6 +778,39 @@ export default function PrepressPage() {
                   </Button>
                 )}
                 
+                {job.outputManifest?.heatmap_png && (
+                  <Button
+                    variant="outline"
+                    onClick={() => downloadPrepressOutput(currentJobId, 'heatmap_png')}
+                    className="w-full"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Ink Heatmap
+                  </Button>
+                )}
+                
+                {job.outputManifest?.cut_svg && (
+                  <Button
+                    variant="outline"
+                    onClick={() => downloadPrepressOutput(currentJobId, 'cut_svg')}
+                    className="w-full"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Cut Path (SVG)
+                  </Button>
+                )}
+                
+                {job.outputManifest?.cut_dxf && (
+                  <Button
+                    variant="outline"
+                    onClick={() => downloadPrepressOutput(currentJobId, 'cut_dxf')}
+                    className="w-full"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Cut Path (DXF)
+                  </Button>
+                )}
+                
                 {job.outputManifest?.fixed_pdf && (
                   <Button
                     variant="outline"
@@ -25,8 +25,13 @@ import {
   useStopProductionTimer,
   useUpdateProductionJobStatus,
   ProductionOrderArtworkSummary,
+  jobTicketsPdfUrl,
+  nestingLayoutUrl,
 } from "@/hooks/useProduction";
-import { deriveLaminationDisplay, isRollJob, formatDimensions } from "@/lib/productionHelpers";
+import { deriveLaminationDisplay, isRollJob, formatDimensions, formatOperationProgress } from "@/lib/productionHelpers";
+import ImpositionDialog from "@/components/production/ImpositionDialog";
+import { JobTimeEntriesCard } from "@/components/production/JobTimeEntriesCard";
+import { useAuth } from "@/hooks/useAuth";
 import {
   Play,
   Square,
@@ -39,6 +44,8 @@ import {
   ChevronDown,
   AlertTriangle,
   Clock,
+  Download,
+  ScanBarcode,
 } from "lucide-react";
 
 function formatSeconds(totalSeconds: number) {
@@ -60,6 +67,8 @@ function formatEventLabel(type: string) {
       return "Reprint recorded";
     case "media_used_set":
       return "Media used set";
+    case "operation_completed":
+      return "Operation completed";
     case "note":
       return "Note";
     default:
@@ -189,6 +198,8 @@ function normalizeArtworkForSides(
 export default function ProductionJobDetailPage() {
   const { jobId } = useParams<{ jobId: string }>();
   const navigate = useNavigate();
+  const { user, isAdmin } = useAuth();
+  const canSeeCosts = ["owner", "admin", "manager"].includes(user?.role ?? "");
 
   const { data, isLoading, error } = useProductionJob(jobId);
 
@@ -291,6 +302,11 @@ export default function ProductionJobDetailPage() {
   const doneCount = otherJobsInOrder.filter((j) => isProductionJobDone(j.status)).length;
   const totalCount = otherJobsInOrder.length;
   const progressPct = totalCount > 0 ? Math.round((doneCount / totalCount) * 100) : 0;
+  const operations = data.operations || [];
+  const operationProgress = formatOperationProgress(operations);
+  const openOperations = operations.filter((op) => op.status === "queued" || op.status === "in_progress");
+  const openOperationCount = openOperations.length;
+  const currentOperationId = openOperations[0]?.id ?? null;
 
   // Get first artwork file URL for "Open File" button
   const firstArtworkFile = (data.order.artwork || [])[0];
@@ -418,7 +434,7 @@ export default function ProductionJobDetailPage() {
                       disabled={isBusy}
                       className="gap-1.5"
                     >
-                      <CheckCircle2 className="w-4 h-4" /> Complete
+                      <CheckCircle2 className="w-4 h-4" /> {openOperationCount > 1 ? "Complete Step" : "Complete"}
                     </Button>
                   )}
 
@@ -426,6 +442,12 @@ export default function ProductionJobDetailPage() {
                     <Printer className="w-4 h-4" /> Reprint
                   </Button>
 
+                  <Button asChild variant="outline" className="gap-1.5">
+                    <a href={jobTicketsPdfUrl([data.id])} target="_blank" rel="noreferrer">
+                      <ScanBarcode className="w-4 h-4" /> Job Ticket
+                    </a>
+                  </Button>
+
                   <Button variant="outline" disabled className="gap-1.5">
                     <AlertTriangle className="w-4 h-4" /> Log Waste (soon)
                   </Button>
@@ -434,9 +456,30 @@ export default function ProductionJobDetailPage() {
                 <div className="text-xs text-muted-foreground pt-1">
                   Reprints: <span className="font-medium">{data.reprintCount}</span>
                 </div>
+
+                {data.lineItemId ? (
+                  <div className="flex items-center gap-2 flex-wrap pt-2 border-t">
+                    <span className="text-xs text-muted-foreground">Nesting layout for cutter / RIP:</span>
+                    <Button asChild size="sm" variant="outline" className="gap-1.5">
+                      <a href={nestingLayoutUrl("svg", { jobIds: [data.id] })}>
+                        <Download className="w-4 h-4" /> SVG
+                      </a>
+                    </Button>
+                    <Button asChild size="sm" variant="outline" className="gap-1.5">
+                      <a href={nestingLayoutUrl("pdf", { jobIds: [data.id] })}>
+                        <Download className="w-4 h-4" /> PDF
+                      </a>
+                    </Button>
+                    {!isRollJob(data.stationKey) ? <ImpositionDialog jobId={data.id} /> : null}
+                  </div>
+                ) : null}
               </CardContent>
             </Card>
 
+            {canSeeCosts && (
+              <JobTimeEntriesCard jobId={data.id} stationKey={data.stationKey ?? ""} canEdit={isAdmin} />
+            )}
+
             {/* TIMELINE - Collapsible */}
             <Collapsible open={timelineOpen} onOpenChange={setTimelineOpen}>
               <Card>
@@ -459,7 +502,12 @@ export default function ProductionJobDetailPage() {
                         {data.events.map((e) => (
                           <div key={e.id} className="border rounded-md p-3">
                             <div className="flex items-center justify-between gap-3">
-                              <div className="text-sm font-medium">{formatEventLabel(e.type)}</div>
+                              <div className="text-sm font-medium">
+                                {formatEventLabel(e.type)}
+                                {e.operatorName ? (
+                                  <span className="font-normal text-muted-foreground"> · {e.operatorName}</span>
+                                ) : null}
+                              </div>
                               <div className="text-xs text-muted-foreground">
                                 {new Date(e.createdAt).toLocaleString()}
                               </div>
@@ -657,6 +705,51 @@ export default function ProductionJobDetailPage() {
               </CardContent>
             </Card>
 
+            {/* ROUTING (multi-step jobs) */}
+            {operations.length > 0 && (
+              <Card>
+                <CardHeader className="p-4 pb-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <CardTitle className="text-base">Routing</CardTitle>
+                    <span className="text-sm font-normal text-muted-foreground">{operationProgress}</span>
+                  </div>
+                </CardHeader>
+                <CardContent className="p-4 pt-0">
+                  <ol className="space-y-2">
+                    {operations.map((op) => {
+                      const isCurrentStep = op.id === currentOperationId;
+                      return (
+                        <li
+                          key={op.id}
+                          className={`flex items-center justify-between gap-3 p-2.5 rounded-lg border ${
+                            isCurrentStep ? "border-primary bg-primary/5" : "border-border"
+                          } ${op.status === "skipped" ? "opacity-50" : ""}`}
+                        >
+                          <div className="flex items-center gap-2 min-w-0">
+                            <span className="text-xs text-muted-foreground w-5">{op.sequence}.</span>
+                            <span className={`font-medium truncate ${op.status === "skipped" ? "line-through" : ""}`}>
+                              {op.name}
+                            </span>
+                            <Badge variant="secondary" className="capitalize">
+                              {op.stationKey}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center gap-2 shrink-0">
+                            {op.status === "done" && (
+                              <span className="text-xs text-muted-foreground">{formatSeconds(op.totalSeconds)}</span>
+                            )}
+                            <Badge variant={op.status === "done" ? "default" : "outline"} className="capitalize">
+                              {op.status.replaceAll("_", " ")}
+                            </Badge>
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </CardContent>
+              </Card>
+            )}
+
             {/* ORDER JOBS */}
             <Card>
               <CardHeader className="p-4 pb-3">
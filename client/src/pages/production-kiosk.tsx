@@ -0,0 +1,337 @@
+import { useCallback, useEffect, useRef, useState, type FormEvent } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, CheckCircle2, Delete, LogOut, Pause, Play, ScanBarcode, UserRound } from "lucide-react";
+import {
+  useKioskIdentify,
+  useKioskOperators,
+  useKioskScan,
+  type KioskAction,
+  type KioskOperator,
+  type KioskScanResult,
+  type KioskSession,
+} from "@/hooks/useProduction";
+import { ROUTES } from "@/config/routes";
+import { cn } from "@/lib/utils";
+
+/** Sign the operator out after this long without a scan or tap. */
+const IDLE_SIGN_OUT_MS = 2 * 60 * 1000;
+
+const ACTIONS: Array<{ action: KioskAction; label: string; icon: typeof Play; className: string }> = [
+  { action: "start", label: "Start", icon: Play, className: "bg-emerald-600 hover:bg-emerald-700" },
+  { action: "pause", label: "Pause", icon: Pause, className: "bg-amber-500 hover:bg-amber-600" },
+  { action: "complete", label: "Complete", icon: CheckCircle2, className: "bg-blue-600 hover:bg-blue-700" },
+];
+
+const RESULT_LABELS: Record<KioskAction, string> = {
+  start: "Started",
+  pause: "Paused",
+  complete: "Completed",
+};
+
+function formatDuration(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function PinPad({
+  operator,
+  onSubmit,
+  onCancel,
+  disabled,
+}: {
+  operator: KioskOperator;
+  onSubmit: (pin: string) => void;
+  onCancel: () => void;
+  disabled: boolean;
+}) {
+  const [pin, setPin] = useState("");
+  const press = (digit: string) => setPin((prev) => (prev.length < 8 ? prev + digit : prev));
+
+  return (
+    <div className="mx-auto w-full max-w-sm space-y-4">
+      <div className="text-center">
+        <div className="text-2xl font-semibold">{operator.name}</div>
+        <div className="mt-3 h-12 rounded-lg border bg-background text-3xl tracking-[0.5em] flex items-center justify-center">
+          {"•".repeat(pin.length)}
+        </div>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {["1", "2", "3", "4", "5", "6", "7", "8", "9"].map((digit) => (
+          <Button key={digit} variant="outline" className="h-16 text-2xl" onClick={() => press(digit)}>
+            {digit}
+          </Button>
+        ))}
+        <Button variant="outline" className="h-16" onClick={() => setPin((prev) => prev.slice(0, -1))}>
+          <Delete className="w-6 h-6" />
+        </Button>
+        <Button variant="outline" className="h-16 text-2xl" onClick={() => press("0")}>
+          0
+        </Button>
+        <Button className="h-16 text-lg" disabled={disabled || pin.length < 4} onClick={() => onSubmit(pin)}>
+          OK
+        </Button>
+      </div>
+      <Button variant="ghost" className="w-full h-12 text-base" onClick={onCancel}>
+        Back
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * ProductionKioskPage - Full-screen shop-floor station. Operators sign in by scanning their
+ * badge or with a PIN, pick Start / Pause / Complete and scan a job ticket to apply it. USB
+ * scanners type the barcode followed by Enter into the always-focused scan field.
+ */
+export default function ProductionKioskPage() {
+  const [session, setSession] = useState<KioskSession | null>(null);
+  const [pinOperator, setPinOperator] = useState<KioskOperator | null>(null);
+  const [mode, setMode] = useState<KioskAction>("start");
+  const [scanValue, setScanValue] = useState("");
+  const [result, setResult] = useState<(KioskScanResult & { code: string }) | null>(null);
+  const [message, setMessage] = useState<{ tone: "error" | "info"; text: string } | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const lastActivity = useRef(Date.now());
+
+  const { data: operators } = useKioskOperators();
+  const identify = useKioskIdentify();
+  const scan = useKioskScan();
+
+  const signOut = useCallback((text?: string) => {
+    setSession(null);
+    setPinOperator(null);
+    setResult(null);
+    setMode("start");
+    setMessage(text ? { tone: "info", text } : null);
+  }, []);
+
+  const touch = () => {
+    lastActivity.current = Date.now();
+  };
+
+  // Keep the scan field focused so a scanner works without tapping it first
+  useEffect(() => {
+    if (pinOperator) return;
+    const focus = () => scanInputRef.current?.focus();
+    focus();
+    const timer = window.setInterval(() => {
+      if (document.activeElement !== scanInputRef.current) focus();
+    }, 1000);
+    return () => window.clearInterval(timer);
+  }, [pinOperator, session]);
+
+  useEffect(() => {
+    if (!session) return;
+    const timer = window.setInterval(() => {
+      if (Date.now() - lastActivity.current > IDLE_SIGN_OUT_MS) signOut("Signed out after inactivity");
+    }, 5000);
+    return () => window.clearInterval(timer);
+  }, [session, signOut]);
+
+  const signIn = async (input: { badgeCode: string } | { userId: string; pin: string }) => {
+    touch();
+    setMessage(null);
+    try {
+      const next = await identify.mutateAsync(input);
+      setSession(next);
+      setPinOperator(null);
+      setResult(null);
+    } catch (error: any) {
+      setMessage({ tone: "error", text: error.message });
+    }
+  };
+
+  const applyAction = async (code: string, action: KioskAction) => {
+    if (!session) return;
+    touch();
+    setMessage(null);
+    try {
+      const next = await scan.mutateAsync({ operatorToken: session.operatorToken, code, action });
+      setSession({ operator: next.operator, operatorToken: next.operatorToken, expiresAt: next.expiresAt });
+      setResult({ ...next, code });
+    } catch (error: any) {
+      if (error.status === 401) return signOut(error.message);
+      setMessage({ tone: "error", text: error.message });
+    }
+  };
+
+  const handleScanSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const code = scanValue.trim();
+    setScanValue("");
+    if (!code || identify.isPending || scan.isPending) return;
+    if (session) void applyAction(code, mode);
+    else void signIn({ badgeCode: code });
+  };
+
+  const busy = identify.isPending || scan.isPending;
+  const job = result?.job;
+
+  return (
+    <div className="min-h-screen bg-muted/40 flex flex-col" onPointerDown={touch}>
+      <header className="flex items-center justify-between gap-4 border-b bg-background px-6 py-4">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm">
+            <Link to={ROUTES.production.board}>
+              <ArrowLeft className="w-4 h-4 mr-1.5" />
+              Production
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-semibold">Shop Floor Kiosk</h1>
+        </div>
+        {session && (
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-2 text-lg">
+              <UserRound className="w-5 h-5" />
+              {session.operator.name}
+            </div>
+            <Button variant="outline" className="h-11" onClick={() => signOut()}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out
+            </Button>
+          </div>
+        )}
+      </header>
+
+      <main className="flex-1 p-6 space-y-6">
+        <form onSubmit={handleScanSubmit}>
+          <div className="mx-auto max-w-2xl flex items-center gap-3">
+            <ScanBarcode className="w-8 h-8 text-muted-foreground shrink-0" />
+            <Input
+              ref={scanInputRef}
+              value={scanValue}
+              onChange={(e) => setScanValue(e.target.value)}
+              placeholder={session ? "Scan a job ticket" : "Scan your badge"}
+              className="h-14 text-xl"
+              autoComplete="off"
+              disabled={!!pinOperator}
+            />
+          </div>
+        </form>
+
+        {message && (
+          <div
+            className={cn(
+              "mx-auto max-w-2xl rounded-lg px-5 py-4 text-lg font-medium",
+              message.tone === "error" ? "bg-destructive text-destructive-foreground" : "bg-background border"
+            )}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {!session && !pinOperator && (
+          <div className="mx-auto max-w-4xl space-y-4">
+            <p className="text-center text-lg text-muted-foreground">Scan your badge, or tap your name to use your PIN.</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {(operators ?? []).map((operator) => (
+                <Button
+                  key={operator.userId}
+                  variant="outline"
+                  className="h-20 text-lg whitespace-normal"
+                  onClick={() => {
+                    touch();
+                    setMessage(null);
+                    setPinOperator(operator);
+                  }}
+                >
+                  {operator.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {!session && pinOperator && (
+          <PinPad
+            operator={pinOperator}
+            disabled={busy}
+            onSubmit={(pin) => signIn({ userId: pinOperator.userId, pin })}
+            onCancel={() => setPinOperator(null)}
+          />
+        )}
+
+        {session && (
+          <div className="mx-auto max-w-4xl space-y-6">
+            <div className="grid grid-cols-3 gap-4">
+              {ACTIONS.map(({ action, label, icon: Icon, className }) => (
+                <Button
+                  key={action}
+                  onClick={() => {
+                    touch();
+                    setMode(action);
+                  }}
+                  className={cn(
+                    "h-28 text-2xl text-white flex-col gap-2",
+                    className,
+                    mode === action ? "ring-4 ring-offset-2 ring-foreground" : "opacity-60"
+                  )}
+                >
+                  <Icon className="w-8 h-8" />
+                  {label}
+                </Button>
+              ))}
+            </div>
+            <p className="text-center text-lg text-muted-foreground">
+              Scan a job ticket to <span className="font-semibold text-foreground">{mode}</span> it.
+            </p>
+
+            {job && result && (
+              <div className="rounded-xl border bg-background p-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <div className="text-sm uppercase tracking-wide text-muted-foreground">
+                      {RESULT_LABELS[result.action]}
+                    </div>
+                    <div className="text-3xl font-bold">Order {job.orderNumber ?? "—"}</div>
+                    <div className="text-lg">{job.customerName ?? ""}</div>
+                    <div className="text-muted-foreground">
+                      {job.description ?? "Line item"}
+                      {job.quantity != null ? ` · Qty ${job.quantity}` : ""}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div
+                      className={cn(
+                        "inline-block rounded-full px-4 py-1.5 text-lg font-semibold text-white",
+                        job.status === "done" ? "bg-blue-600" : job.isRunning ? "bg-emerald-600" : "bg-amber-500"
+                      )}
+                    >
+                      {job.status === "done" ? "Done" : job.isRunning ? "Running" : job.status === "queued" ? "Queued" : "Paused"}
+                    </div>
+                    <div className="mt-2 text-muted-foreground">{formatDuration(job.totalSeconds)} logged</div>
+                  </div>
+                </div>
+                <div className="text-lg">
+                  {job.operation
+                    ? `Step ${job.operation.sequence} of ${job.operation.count} · ${job.operation.name} (${job.stationKey})`
+                    : `${job.stationKey} / ${job.stepKey}`}
+                </div>
+                {job.status !== "done" && (
+                  <div className="flex gap-3">
+                    {ACTIONS.filter(({ action }) =>
+                      action === "start" ? !job.isRunning : action === "pause" ? job.isRunning : job.status !== "queued"
+                    ).map(({ action, label, icon: Icon, className }) => (
+                      <Button
+                        key={action}
+                        disabled={busy}
+                        onClick={() => applyAction(result.code, action)}
+                        className={cn("h-14 px-6 text-lg text-white", className)}
+                      >
+                        <Icon className="w-5 h-5 mr-2" />
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
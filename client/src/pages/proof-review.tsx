@@ -0,0 +1,445 @@
+import { useCallback, useEffect, useRef, useState, type PointerEvent } from "react";
+import { useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, CheckCircle2, Loader2, MessageSquare, SquareDashedMousePointer, Trash2 } from "lucide-react";
+import { getApiUrl } from "@/lib/apiConfig";
+import { cn } from "@/lib/utils";
+
+type ProofAnnotation = { page: number; x: number; y: number; w: number; h: number };
+
+type MarkupGeometry =
+  | { x: number; y: number }
+  | { x: number; y: number; w: number; h: number }
+  | { points: Array<[number, number]> };
+
+type PublicProof = {
+  id: string;
+  version: number;
+  status: "pending" | "approved" | "changes_requested" | "superseded";
+  isLatest: boolean;
+  fileName: string;
+  mimeType: string | null;
+  message: string | null;
+  organizationName: string;
+  orderNumber: string;
+  lineItemDescription: string;
+  decidedAt: string | null;
+  signerName: string | null;
+  comments: Array<{ id: string; authorName: string | null; body: string; annotation: ProofAnnotation | null }>;
+  markup: Array<{
+    id: string;
+    pageIndex: number;
+    kind: "pin" | "rect" | "freehand";
+    geometry: MarkupGeometry;
+    color: string;
+    comments: Array<{ authorName: string | null; body: string }>;
+  }>;
+};
+
+type DraftComment = { body: string; annotation: ProofAnnotation | null };
+
+const STATUS_LABELS: Record<PublicProof["status"], string> = {
+  pending: "Awaiting your review",
+  approved: "Approved",
+  changes_requested: "Changes requested",
+  superseded: "Replaced by a newer proof",
+};
+
+// Drags smaller than this (normalized) are treated as clicks and ignored
+const MIN_REGION = 0.01;
+
+/**
+ * ProofReview - Customer-facing proof page reached from the emailed link (no login).
+ * Drag on the proof to mark a region, describe the change, then approve or request changes.
+ */
+export default function ProofReview() {
+  const { token = "" } = useParams();
+  const [proof, setProof] = useState<PublicProof | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const [signerName, setSignerName] = useState("");
+  const [comments, setComments] = useState<DraftComment[]>([]);
+  const [annotating, setAnnotating] = useState(false);
+  const [page, setPage] = useState(1);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragRect, setDragRect] = useState<Omit<ProofAnnotation, "page"> | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  const apiBase = getApiUrl(`/api/public/proofs/${encodeURIComponent(token)}`);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(apiBase)
+      .then(async (response) => {
+        const data = await response.json();
+        if (cancelled) return;
+        if (!response.ok || !data.success) throw new Error(data.message || "Failed to load proof");
+        setProof(data.data);
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setLoadError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [apiBase]);
+
+  const pointFromEvent = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    const rect = overlayRef.current!.getBoundingClientRect();
+    const clamp = (v: number) => Math.min(1, Math.max(0, v));
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  }, []);
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(pointFromEvent(e));
+    setDragRect(null);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const p = pointFromEvent(e);
+    setDragRect({
+      x: Math.min(dragStart.x, p.x),
+      y: Math.min(dragStart.y, p.y),
+      w: Math.abs(p.x - dragStart.x),
+      h: Math.abs(p.y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (dragRect && dragRect.w > MIN_REGION && dragRect.h > MIN_REGION) {
+      setComments((prev) => [...prev, { body: "", annotation: { page, ...dragRect } }]);
+      setAnnotating(false);
+    }
+    setDragStart(null);
+    setDragRect(null);
+  };
+
+  const submit = async (decision: "approve" | "request_changes") => {
+    setSubmitError(null);
+    setSubmitting(true);
+    try {
+      const response = await fetch(`${apiBase}/decision`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          decision,
+          signerName,
+          comments: comments.filter((c) => c.body.trim().length > 0),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) throw new Error(data.message || "Failed to submit");
+      setProof(data.data);
+      setComments([]);
+    } catch (error: any) {
+      setSubmitError(error.message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-4">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{loadError}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!proof) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const isPdf = proof.mimeType === "application/pdf" || proof.fileName.toLowerCase().endsWith(".pdf");
+  const canDecide = proof.status === "pending" && proof.isLatest;
+  const hasComments = comments.some((c) => c.body.trim().length > 0);
+  const shownAnnotations = canDecide
+    ? comments.map((c) => c.annotation)
+    : proof.comments.map((c) => c.annotation);
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <div className="mx-auto max-w-6xl p-4 md:p-8 space-y-4">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <div className="text-sm text-muted-foreground">{proof.organizationName}</div>
+            <h1 className="text-2xl font-semibold">
+              Proof v{proof.version} — Order #{proof.orderNumber}
+            </h1>
+            <div className="text-sm text-muted-foreground">{proof.lineItemDescription}</div>
+          </div>
+          <Badge variant={proof.status === "approved" ? "default" : "secondary"}>{STATUS_LABELS[proof.status]}</Badge>
+        </div>
+
+        {proof.message && (
+          <Alert>
+            <MessageSquare className="h-4 w-4" />
+            <AlertDescription className="whitespace-pre-wrap">{proof.message}</AlertDescription>
+          </Alert>
+        )}
+
+        {proof.markup.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Notes from {proof.organizationName || "the print shop"}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {proof.markup.map((m) => (
+                <div key={m.id} className="flex gap-2">
+                  <span className="mt-1 h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: m.color }} />
+                  <div>
+                    {isPdf && <span className="text-xs text-muted-foreground">Page {m.pageIndex + 1} • </span>}
+                    {m.comments.map((c, i) => (
+                      <div key={i} className="whitespace-pre-wrap">
+                        {c.body}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-4 lg:grid-cols-[1fr_360px]">
+          <Card className="overflow-hidden">
+            <CardContent className="p-2">
+              <div className="relative">
+                {isPdf ? (
+                  <iframe src={`${apiBase}/file`} title={proof.fileName} className="w-full h-[75vh] border-0" />
+                ) : (
+                  <img src={`${apiBase}/file`} alt={proof.fileName} className="w-full h-auto select-none" draggable={false} />
+                )}
+
+                <div
+                  ref={overlayRef}
+                  className={cn("absolute inset-0", annotating ? "cursor-crosshair bg-primary/5" : "pointer-events-none")}
+                  onPointerDown={annotating ? handlePointerDown : undefined}
+                  onPointerMove={annotating ? handlePointerMove : undefined}
+                  onPointerUp={annotating ? handlePointerUp : undefined}
+                >
+                  <svg className="absolute inset-0 h-full w-full" viewBox="0 0 100 100" preserveAspectRatio="none">
+                    {proof.markup
+                      .filter((m) => !isPdf || m.pageIndex + 1 === page)
+                      .map((m) => {
+                        const g = m.geometry;
+                        if ("points" in g) {
+                          return (
+                            <polyline
+                              key={m.id}
+                              points={g.points.map(([x, y]) => `${x * 100},${y * 100}`).join(" ")}
+                              fill="none"
+                              stroke={m.color}
+                              strokeWidth={2}
+                              vectorEffect="non-scaling-stroke"
+                            />
+                          );
+                        }
+                        if ("w" in g) {
+                          return (
+                            <rect
+                              key={m.id}
+                              x={g.x * 100}
+                              y={g.y * 100}
+                              width={g.w * 100}
+                              height={g.h * 100}
+                              fill={m.color}
+                              fillOpacity={0.08}
+                              stroke={m.color}
+                              strokeWidth={2}
+                              vectorEffect="non-scaling-stroke"
+                            />
+                          );
+                        }
+                        return null;
+                      })}
+                  </svg>
+                  {proof.markup
+                    .filter((m) => (!isPdf || m.pageIndex + 1 === page) && !("points" in m.geometry) && !("w" in m.geometry))
+                    .map((m) => {
+                      const g = m.geometry as { x: number; y: number };
+                      return (
+                        <div
+                          key={m.id}
+                          className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white"
+                          style={{ left: `${g.x * 100}%`, top: `${g.y * 100}%`, backgroundColor: m.color }}
+                          title={m.comments[0]?.body}
+                        />
+                      );
+                    })}
+                  {shownAnnotations.map((a, i) =>
+                    a && (!isPdf || a.page === page) ? (
+                      <div
+                        key={i}
+                        className="absolute border-2 border-red-500 bg-red-500/10"
+                        style={{ left: `${a.x * 100}%`, top: `${a.y * 100}%`, width: `${a.w * 100}%`, height: `${a.h * 100}%` }}
+                      >
+                        <span className="absolute -top-5 left-0 rounded bg-red-500 px-1 text-[10px] text-white">{i + 1}</span>
+                      </div>
+                    ) : null
+                  )}
+                  {dragRect && (
+                    <div
+                      className="absolute border-2 border-dashed border-primary"
+                      style={{
+                        left: `${dragRect.x * 100}%`,
+                        top: `${dragRect.y * 100}%`,
+                        width: `${dragRect.w * 100}%`,
+                        height: `${dragRect.h * 100}%`,
+                      }}
+                    />
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{canDecide ? "Your review" : "Review"}</CardTitle>
+              <CardDescription>
+                {canDecide
+                  ? "Mark areas on the proof and describe any changes, or approve it for production."
+                  : proof.decidedAt
+                    ? `${STATUS_LABELS[proof.status]} by ${proof.signerName ?? "customer"} on ${new Date(proof.decidedAt).toLocaleString()}`
+                    : STATUS_LABELS[proof.status]}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {canDecide ? (
+                <>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      type="button"
+                      variant={annotating ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setAnnotating((v) => !v)}
+                    >
+                      <SquareDashedMousePointer className="h-4 w-4 mr-1" />
+                      {annotating ? "Drag on the proof…" : "Mark an area"}
+                    </Button>
+                    {isPdf && (
+                      <div className="flex items-center gap-1 text-sm">
+                        <Label htmlFor="proof-page">Page</Label>
+                        <Input
+                          id="proof-page"
+                          type="number"
+                          min={1}
+                          value={page}
+                          onChange={(e) => setPage(Math.max(1, Number(e.target.value) || 1))}
+                          className="h-8 w-16"
+                        />
+                      </div>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setComments((prev) => [...prev, { body: "", annotation: null }])}
+                    >
+                      Add comment
+                    </Button>
+                  </div>
+
+                  {comments.map((comment, i) => (
+                    <div key={i} className="space-y-1">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>
+                          #{i + 1}
+                          {comment.annotation ? ` • marked area${isPdf ? ` on page ${comment.annotation.page}` : ""}` : ""}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => setComments((prev) => prev.filter((_, j) => j !== i))}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <Textarea
+                        value={comment.body}
+                        placeholder="What should change?"
+                        rows={2}
+                        onChange={(e) =>
+                          setComments((prev) => prev.map((c, j) => (j === i ? { ...c, body: e.target.value } : c)))
+                        }
+                      />
+                    </div>
+                  ))}
+
+                  <div className="space-y-1">
+                    <Label htmlFor="signer-name">Your full name</Label>
+                    <Input id="signer-name" value={signerName} onChange={(e) => setSignerName(e.target.value)} />
+                    <p className="text-xs text-muted-foreground">
+                      Your name, IP address and the time are recorded with your decision.
+                    </p>
+                  </div>
+
+                  {submitError && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{submitError}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="flex flex-col gap-2">
+                    <Button
+                      type="button"
+                      disabled={submitting || !signerName.trim()}
+                      onClick={() => submit("approve")}
+                    >
+                      {submitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle2 className="h-4 w-4 mr-2" />}
+                      Approve for production
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      disabled={submitting || !signerName.trim() || !hasComments}
+                      onClick={() => submit("request_changes")}
+                    >
+                      Request changes
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <div className="space-y-2">
+                  {!proof.isLatest && proof.status === "pending" && (
+                    <p className="text-sm text-muted-foreground">A newer version of this proof has been sent.</p>
+                  )}
+                  {proof.comments.map((c, i) => (
+                    <div key={c.id} className="rounded border p-2 text-sm">
+                      <div className="text-xs text-muted-foreground">
+                        #{i + 1} {c.authorName}
+                        {c.annotation && isPdf ? ` • page ${c.annotation.page}` : ""}
+                      </div>
+                      <div className="whitespace-pre-wrap">{c.body}</div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -44,6 +44,8 @@ import {
   PlugZap,
   Sliders,
   Mail,
+  BookOpen,
+  TicketPercent,
   type LucideIcon,
 } from "lucide-react";
 
@@ -106,6 +108,18 @@ const SETTINGS_NAV_ITEMS: SettingsNavItem[] = [
     icon: DollarSign,
     description: "Pricing calculation rules"
   },
+  { 
+    label: "Pricebook", 
+    path: "/settings/pricebook", 
+    icon: BookOpen,
+    description: "Shared costs and rates for option trees"
+  },
+  { 
+    label: "Promotions", 
+    path: "/settings/promotions", 
+    icon: TicketPercent,
+    description: "Coupon codes and discounts"
+  },
   { 
     label: "Accounting & Integrations", 
     path: "/settings/integrations", 
@@ -764,6 +778,23 @@ export function PreferencesSettings() {
               />
             </div>
 
+            <div className="flex items-start justify-between gap-4 rounded-titan-lg border border-titan-border-subtle p-4">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="block-preflight-blockers" className="text-titan-sm font-medium text-titan-text-primary cursor-pointer">
+                  Block production on preflight blockers
+                </Label>
+                <p className="text-titan-xs text-titan-text-muted">
+                  When enabled, orders cannot be moved to production while any line item artwork has preflight blockers. Otherwise blockers only show a warning.
+                </p>
+              </div>
+              <Switch
+                id="block-preflight-blockers"
+                checked={preferences?.orders?.blockProductionOnPreflightBlockers ?? false}
+                onCheckedChange={(checked) => handleOrderToggle('blockProductionOnPreflightBlockers', checked)}
+                disabled={isUpdating}
+              />
+            </div>
+
             <div className="flex items-start justify-between gap-4 rounded-titan-lg border border-titan-border-subtle p-4">
               <div className="flex-1 space-y-1">
                 <Label htmlFor="require-line-items-done" className="text-titan-sm font-medium text-titan-text-primary cursor-pointer">
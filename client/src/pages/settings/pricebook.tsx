@@ -0,0 +1,411 @@
+import { Fragment, useMemo, useState } from "react";
+import {
+  usePricebookEntries,
+  useCreatePricebookEntry,
+  useUpdatePricebookEntry,
+  useDeletePricebookEntry,
+  type PricebookEntry,
+} from "@/hooks/usePricebook";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, Pencil, Trash2, BookOpen, History } from "lucide-react";
+import { TitanCard } from "@/components/ui/TitanCard";
+import { isValidPricebookKey, type PricebookValueType } from "@shared/pbv2/pricebook";
+
+type EditorMode =
+  | { kind: "create" }
+  | { kind: "newValue"; key: string; valueType: PricebookValueType; label: string | null }
+  | { kind: "edit"; entry: PricebookEntry };
+
+type FormState = {
+  key: string;
+  label: string;
+  description: string;
+  valueType: PricebookValueType;
+  value: string;
+  effectiveFrom: string;
+};
+
+const emptyForm: FormState = {
+  key: "",
+  label: "",
+  description: "",
+  valueType: "CENTS",
+  value: "",
+  effectiveFrom: "",
+};
+
+type KeyGroup = {
+  key: string;
+  label: string | null;
+  valueType: PricebookValueType;
+  current: PricebookEntry | null;
+  next: PricebookEntry | null;
+  entries: PricebookEntry[];
+};
+
+function formatValue(valueType: PricebookValueType, value: string | number): string {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return "—";
+  return valueType === "CENTS" ? `$${(n / 100).toFixed(2)}` : String(n);
+}
+
+/** datetime-local wants "YYYY-MM-DDTHH:mm" in local time. */
+function toLocalInput(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function groupEntries(entries: PricebookEntry[], now: number): KeyGroup[] {
+  const byKey = new Map<string, PricebookEntry[]>();
+  for (const e of entries) {
+    const arr = byKey.get(e.key);
+    if (arr) arr.push(e);
+    else byKey.set(e.key, [e]);
+  }
+
+  return Array.from(byKey.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, list]) => {
+      const sorted = list.slice().sort((a, b) => Date.parse(b.effectiveFrom) - Date.parse(a.effectiveFrom));
+      const current = sorted.find((e) => Date.parse(e.effectiveFrom) <= now) ?? null;
+      const future = sorted.filter((e) => Date.parse(e.effectiveFrom) > now);
+      return {
+        key,
+        label: sorted.find((e) => e.label)?.label ?? null,
+        valueType: sorted[0].valueType,
+        current,
+        next: future.length ? future[future.length - 1] : null,
+        entries: sorted,
+      };
+    });
+}
+
+export default function PricebookSettings() {
+  const { data: entries, isLoading } = usePricebookEntries();
+  const createMutation = useCreatePricebookEntry();
+  const updateMutation = useUpdatePricebookEntry();
+  const deleteMutation = useDeletePricebookEntry();
+
+  const [mode, setMode] = useState<EditorMode | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const groups = useMemo(() => groupEntries(entries ?? [], Date.now()), [entries]);
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setMode({ kind: "create" });
+  };
+
+  const openNewValue = (group: KeyGroup) => {
+    setForm({ ...emptyForm, key: group.key, valueType: group.valueType, label: group.label ?? "" });
+    setMode({ kind: "newValue", key: group.key, valueType: group.valueType, label: group.label });
+  };
+
+  const openEdit = (entry: PricebookEntry) => {
+    const n = Number(entry.value);
+    setForm({
+      key: entry.key,
+      label: entry.label ?? "",
+      description: entry.description ?? "",
+      valueType: entry.valueType,
+      value: entry.valueType === "CENTS" ? (n / 100).toFixed(2) : String(n),
+      effectiveFrom: toLocalInput(entry.effectiveFrom),
+    });
+    setMode({ kind: "edit", entry });
+  };
+
+  // CENTS keys are entered in dollars.
+  const parsedValue = (() => {
+    if (form.value.trim() === "") return null;
+    const n = Number(form.value);
+    if (!Number.isFinite(n)) return null;
+    return form.valueType === "CENTS" ? Math.round(n * 100) : n;
+  })();
+
+  const keyValid = mode?.kind !== "create" || isValidPricebookKey(form.key.trim());
+  const canSave = parsedValue !== null && keyValid;
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  const handleSave = async () => {
+    if (!mode || parsedValue === null) return;
+    const effectiveFrom = form.effectiveFrom ? new Date(form.effectiveFrom).toISOString() : undefined;
+
+    if (mode.kind === "edit") {
+      await updateMutation.mutateAsync({
+        id: mode.entry.id,
+        data: {
+          label: form.label || null,
+          description: form.description || null,
+          value: parsedValue,
+          ...(effectiveFrom ? { effectiveFrom } : {}),
+        },
+      });
+    } else {
+      await createMutation.mutateAsync({
+        key: form.key.trim(),
+        label: form.label || null,
+        description: form.description || null,
+        valueType: form.valueType,
+        value: parsedValue,
+        effectiveFrom,
+      });
+    }
+    setMode(null);
+  };
+
+  const handleDelete = (entry: PricebookEntry) => {
+    if (!confirm(`Delete the ${formatValue(entry.valueType, entry.value)} value of '${entry.key}'? Trees referencing this key use the remaining values.`)) return;
+    deleteMutation.mutate(entry.id);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Pricebook</h1>
+          <p className="text-muted-foreground text-sm">
+            Shared costs and rates referenced by product option trees (pricebook keys). Change a value once and every tree using it reprices.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Key
+        </Button>
+      </div>
+
+      <TitanCard className="p-0 overflow-hidden">
+        {groups.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Key</TableHead>
+                <TableHead>Label</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Current</TableHead>
+                <TableHead>Upcoming</TableHead>
+                <TableHead className="w-40">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map((group) => (
+                <Fragment key={group.key}>
+                  <TableRow>
+                    <TableCell>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {group.key}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{group.label || "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{group.valueType === "CENTS" ? "Money" : "Number"}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">
+                      {group.current ? formatValue(group.valueType, group.current.value) : "—"}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {group.next
+                        ? `${formatValue(group.valueType, group.next.value)} from ${new Date(group.next.effectiveFrom).toLocaleString()}`
+                        : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openNewValue(group)} title="Add a new effective-dated value">
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedKey(expandedKey === group.key ? null : group.key)}
+                          title="Value history"
+                        >
+                          <History className="h-4 w-4" />
+                          <span className="ml-1 text-xs">{group.entries.length}</span>
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                  {expandedKey === group.key &&
+                    group.entries.map((entry) => (
+                      <TableRow key={entry.id} className="bg-muted/40">
+                        <TableCell />
+                        <TableCell colSpan={2} className="text-sm text-muted-foreground">
+                          Effective {new Date(entry.effectiveFrom).toLocaleString()}
+                          {entry.id === group.current?.id && (
+                            <Badge variant="outline" className="ml-2 text-xs">current</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-sm">{formatValue(entry.valueType, entry.value)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground truncate max-w-xs">{entry.description || ""}</TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openEdit(entry)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(entry)}
+                              disabled={deleteMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            <BookOpen className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="text-lg font-medium mb-2">No pricebook keys yet</p>
+            <p className="text-sm">
+              Add keys like <span className="font-mono">ink.cost_per_sqft</span> or <span className="font-mono">labor.hourly</span>, then reference them from option trees.
+            </p>
+          </div>
+        )}
+      </TitanCard>
+
+      <Dialog open={!!mode} onOpenChange={(open) => !open && setMode(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {mode?.kind === "create" ? "Add Pricebook Key" : mode?.kind === "newValue" ? "New Value" : "Edit Value"}
+            </DialogTitle>
+            <DialogDescription>
+              {mode?.kind === "create"
+                ? "Keys are dot-separated, e.g. ink.cost_per_sqft. The type is fixed once the key exists."
+                : "Values take effect at their effective date; earlier quotes and orders keep the value that applied then."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="pricebook-key">Key</Label>
+                <Input
+                  id="pricebook-key"
+                  className="font-mono"
+                  value={form.key}
+                  disabled={mode?.kind !== "create"}
+                  onChange={(e) => setForm({ ...form, key: e.target.value })}
+                  placeholder="ink.cost_per_sqft"
+                />
+                {!keyValid && form.key && <p className="text-xs text-destructive">Use letters, digits, _ and dots.</p>}
+              </div>
+              <div className="space-y-1.5">
+                <Label>Type</Label>
+                <Select
+                  value={form.valueType}
+                  disabled={mode?.kind !== "create"}
+                  onValueChange={(v) => setForm({ ...form, valueType: v as PricebookValueType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="CENTS">Money</SelectItem>
+                    <SelectItem value="NUMBER">Number (rate, factor)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="pricebook-label">Label</Label>
+              <Input
+                id="pricebook-label"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="Ink cost per sq ft"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="pricebook-value">{form.valueType === "CENTS" ? "Value ($)" : "Value"}</Label>
+                <Input
+                  id="pricebook-value"
+                  type="number"
+                  step={form.valueType === "CENTS" ? "0.01" : "any"}
+                  value={form.value}
+                  onChange={(e) => setForm({ ...form, value: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="pricebook-effective">Effective from</Label>
+                <Input
+                  id="pricebook-effective"
+                  type="datetime-local"
+                  value={form.effectiveFrom}
+                  onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">Leave blank for now.</p>
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="pricebook-description">Notes</Label>
+              <Textarea
+                id="pricebook-description"
+                rows={2}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setMode(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,512 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import {
+  usePromotions,
+  useCreatePromotion,
+  useUpdatePromotion,
+  useDeletePromotion,
+  type Promotion,
+  type PromotionInput,
+} from "@/hooks/usePromotions";
+import { useProductTypes } from "@/hooks/useProductTypes";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Plus, Pencil, Trash2, TicketPercent } from "lucide-react";
+import { TitanCard } from "@/components/ui/TitanCard";
+import { PROMOTION_CODE_PATTERN, describePromotion, type PromotionDiscountType } from "@shared/promotions";
+
+const DISCOUNT_TYPE_LABELS: Record<PromotionDiscountType, string> = {
+  PERCENT_OFF: "Percent off",
+  AMOUNT_OFF: "Amount off",
+  FREE_OPTION: "Free option",
+};
+
+const CUSTOMER_TIERS = [
+  { value: "default", label: "Default" },
+  { value: "wholesale", label: "Wholesale" },
+  { value: "retail", label: "Retail" },
+];
+
+type FormState = {
+  code: string;
+  name: string;
+  description: string;
+  discountType: PromotionDiscountType;
+  discountValue: string;
+  optionName: string;
+  productTypeIds: string[];
+  customerTiers: string[];
+  minSubtotal: string;
+  minQuantity: string;
+  startsAt: string;
+  endsAt: string;
+  maxRedemptions: string;
+  maxRedemptionsPerCustomer: string;
+  isActive: boolean;
+};
+
+const emptyForm: FormState = {
+  code: "",
+  name: "",
+  description: "",
+  discountType: "PERCENT_OFF",
+  discountValue: "",
+  optionName: "",
+  productTypeIds: [],
+  customerTiers: [],
+  minSubtotal: "",
+  minQuantity: "",
+  startsAt: "",
+  endsAt: "",
+  maxRedemptions: "",
+  maxRedemptionsPerCustomer: "",
+  isActive: true,
+};
+
+/** datetime-local wants "YYYY-MM-DDTHH:mm" in local time. */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : format(d, "yyyy-MM-dd'T'HH:mm");
+}
+
+function optionalNumber(value: string): number | null {
+  if (value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function getStatus(promotion: Promotion, now: number): { label: string; variant: "default" | "secondary" | "outline" } {
+  if (!promotion.isActive) return { label: "Inactive", variant: "outline" };
+  if (promotion.startsAt && Date.parse(promotion.startsAt) > now) return { label: "Scheduled", variant: "secondary" };
+  if (promotion.endsAt && Date.parse(promotion.endsAt) <= now) return { label: "Expired", variant: "outline" };
+  if (promotion.maxRedemptions != null && promotion.redemptionCount >= promotion.maxRedemptions) {
+    return { label: "Used up", variant: "outline" };
+  }
+  return { label: "Active", variant: "default" };
+}
+
+function toggle(list: string[], value: string): string[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+export default function PromotionsSettings() {
+  const { data: promotions, isLoading } = usePromotions();
+  const { data: productTypes = [] } = useProductTypes();
+  const createMutation = useCreatePromotion();
+  const updateMutation = useUpdatePromotion();
+  const deleteMutation = useDeletePromotion();
+
+  const [editing, setEditing] = useState<Promotion | "new" | null>(null);
+  const [form, setForm] = useState<FormState>(emptyForm);
+
+  const now = Date.now();
+  const productTypeNames = new Map(productTypes.map((t) => [t.id, t.name]));
+
+  const openCreate = () => {
+    setForm(emptyForm);
+    setEditing("new");
+  };
+
+  const openEdit = (promotion: Promotion) => {
+    setForm({
+      code: promotion.code,
+      name: promotion.name,
+      description: promotion.description ?? "",
+      discountType: promotion.discountType,
+      discountValue: String(Number(promotion.discountValue)),
+      optionName: promotion.optionName ?? "",
+      productTypeIds: promotion.productTypeIds ?? [],
+      customerTiers: promotion.customerTiers ?? [],
+      minSubtotal: promotion.minSubtotal != null ? String(Number(promotion.minSubtotal)) : "",
+      minQuantity: promotion.minQuantity != null ? String(promotion.minQuantity) : "",
+      startsAt: toLocalInput(promotion.startsAt),
+      endsAt: toLocalInput(promotion.endsAt),
+      maxRedemptions: promotion.maxRedemptions != null ? String(promotion.maxRedemptions) : "",
+      maxRedemptionsPerCustomer: promotion.maxRedemptionsPerCustomer != null ? String(promotion.maxRedemptionsPerCustomer) : "",
+      isActive: promotion.isActive,
+    });
+    setEditing(promotion);
+  };
+
+  const codeValid = PROMOTION_CODE_PATTERN.test(form.code.trim().toUpperCase());
+  const valueValid = form.discountType === "FREE_OPTION" || optionalNumber(form.discountValue) != null;
+  const canSave =
+    codeValid &&
+    form.name.trim() !== "" &&
+    valueValid &&
+    (form.discountType !== "FREE_OPTION" || form.optionName.trim() !== "");
+  const saving = createMutation.isPending || updateMutation.isPending;
+
+  const handleSave = async () => {
+    if (!editing) return;
+    const payload: PromotionInput = {
+      code: form.code.trim().toUpperCase(),
+      name: form.name.trim(),
+      description: form.description.trim() || null,
+      discountType: form.discountType,
+      discountValue: form.discountType === "FREE_OPTION" ? 0 : optionalNumber(form.discountValue) ?? 0,
+      optionName: form.discountType === "FREE_OPTION" ? form.optionName.trim() : null,
+      productTypeIds: form.productTypeIds,
+      customerTiers: form.customerTiers,
+      minSubtotal: optionalNumber(form.minSubtotal),
+      minQuantity: optionalNumber(form.minQuantity),
+      startsAt: form.startsAt ? new Date(form.startsAt).toISOString() : null,
+      endsAt: form.endsAt ? new Date(form.endsAt).toISOString() : null,
+      maxRedemptions: optionalNumber(form.maxRedemptions),
+      maxRedemptionsPerCustomer: optionalNumber(form.maxRedemptionsPerCustomer),
+      isActive: form.isActive,
+    };
+
+    if (editing === "new") {
+      await createMutation.mutateAsync(payload);
+    } else {
+      await updateMutation.mutateAsync({ id: editing.id, data: payload });
+    }
+    setEditing(null);
+  };
+
+  const handleDelete = (promotion: Promotion) => {
+    if (!confirm(`Delete promotion ${promotion.code}? Orders and invoices that already used it keep their discount.`)) return;
+    deleteMutation.mutate(promotion.id);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Promotions</h1>
+          <p className="text-muted-foreground text-sm">
+            Coupon codes for quotes and portal checkout. Discounts carry onto the order and invoice as separate lines.
+          </p>
+        </div>
+        <Button onClick={openCreate}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Promotion
+        </Button>
+      </div>
+
+      <TitanCard className="p-0 overflow-hidden">
+        {promotions && promotions.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead>Window</TableHead>
+                <TableHead className="text-right">Used</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-28">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promotions.map((promotion) => {
+                const status = getStatus(promotion, now);
+                const appliesTo = [
+                  promotion.productTypeIds.length
+                    ? promotion.productTypeIds.map((id) => productTypeNames.get(id) ?? "Unknown type").join(", ")
+                    : "All products",
+                  promotion.customerTiers.length ? `${promotion.customerTiers.join(", ")} customers` : null,
+                  promotion.minQuantity ? `qty ≥ ${promotion.minQuantity}` : null,
+                  promotion.minSubtotal ? `over $${Number(promotion.minSubtotal).toFixed(2)}` : null,
+                ].filter(Boolean);
+                return (
+                  <TableRow key={promotion.id}>
+                    <TableCell>
+                      <Badge variant="outline" className="font-mono text-xs">
+                        {promotion.code}
+                      </Badge>
+                      <div className="text-xs text-muted-foreground mt-1">{promotion.name}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{describePromotion(promotion).replace(`${promotion.code}: `, "")}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{appliesTo.join(" · ")}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {promotion.startsAt ? format(new Date(promotion.startsAt), "MMM d, yyyy") : "Now"}
+                      {" – "}
+                      {promotion.endsAt ? format(new Date(promotion.endsAt), "MMM d, yyyy") : "Open"}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      {promotion.redemptionCount}
+                      {promotion.maxRedemptions != null ? ` / ${promotion.maxRedemptions}` : ""}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEdit(promotion)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(promotion)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-12 text-muted-foreground">
+            <TicketPercent className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p className="text-lg font-medium mb-2">No promotions yet</p>
+            <p className="text-sm">
+              Create codes like <span className="font-mono">SIGNS10</span> for 10% off yard signs or{" "}
+              <span className="font-mono">GROMMETS50</span> for free grommets over 50 pieces.
+            </p>
+          </div>
+        )}
+      </TitanCard>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Promotion" : "Edit Promotion"}</DialogTitle>
+            <DialogDescription>
+              Leave a restriction empty to apply it to everyone. Discounts are calculated on the qualifying items only.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="promotion-code">Code</Label>
+                <Input
+                  id="promotion-code"
+                  className="font-mono uppercase"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="SIGNS10"
+                />
+                {!codeValid && form.code && (
+                  <p className="text-xs text-destructive">2-50 letters, numbers, dashes or underscores.</p>
+                )}
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="promotion-name">Name</Label>
+                <Input
+                  id="promotion-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="10% off yard signs this week"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label>Discount</Label>
+                <Select
+                  value={form.discountType}
+                  onValueChange={(v) => setForm({ ...form, discountType: v as PromotionDiscountType })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(DISCOUNT_TYPE_LABELS) as PromotionDiscountType[]).map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {DISCOUNT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.discountType === "FREE_OPTION" ? (
+                <div className="space-y-1.5">
+                  <Label htmlFor="promotion-option">Option name</Label>
+                  <Input
+                    id="promotion-option"
+                    value={form.optionName}
+                    onChange={(e) => setForm({ ...form, optionName: e.target.value })}
+                    placeholder="Grommets"
+                  />
+                  <p className="text-xs text-muted-foreground">Matches any option whose name contains this text.</p>
+                </div>
+              ) : (
+                <div className="space-y-1.5">
+                  <Label htmlFor="promotion-value">{form.discountType === "PERCENT_OFF" ? "Percent" : "Amount ($)"}</Label>
+                  <Input
+                    id="promotion-value"
+                    type="number"
+                    step={form.discountType === "PERCENT_OFF" ? "1" : "0.01"}
+                    value={form.discountValue}
+                    onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+                  />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Product types</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-2 rounded-md border p-3">
+                {productTypes.length === 0 && <span className="text-sm text-muted-foreground">No product types defined</span>}
+                {productTypes.map((type) => (
+                  <label key={type.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.productTypeIds.includes(type.id)}
+                      onCheckedChange={() => setForm({ ...form, productTypeIds: toggle(form.productTypeIds, type.id) })}
+                    />
+                    {type.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label>Customer tiers</Label>
+              <div className="flex flex-wrap gap-x-4 gap-y-2">
+                {CUSTOMER_TIERS.map((tier) => (
+                  <label key={tier.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.customerTiers.includes(tier.value)}
+                      onCheckedChange={() => setForm({ ...form, customerTiers: toggle(form.customerTiers, tier.value) })}
+                    />
+                    {tier.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="promotion-min-subtotal">Minimum subtotal ($)</Label>
+                <Input
+                  id="promotion-min-subtotal"
+                  type="number"
+                  step="0.01"
+                  value={form.minSubtotal}
+                  onChange={(e) => setForm({ ...form, minSubtotal: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="promotion-min-qty">Minimum quantity per item</Label>
+                <Input
+                  id="promotion-min-qty"
+                  type="number"
+                  step="1"
+                  value={form.minQuantity}
+                  onChange={(e) => setForm({ ...form, minQuantity: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="promotion-starts">Starts</Label>
+                <Input
+                  id="promotion-starts"
+                  type="datetime-local"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="promotion-ends">Ends</Label>
+                <Input
+                  id="promotion-ends"
+                  type="datetime-local"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="promotion-max">Total uses</Label>
+                <Input
+                  id="promotion-max"
+                  type="number"
+                  step="1"
+                  value={form.maxRedemptions}
+                  onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="promotion-max-customer">Uses per customer</Label>
+                <Input
+                  id="promotion-max-customer"
+                  type="number"
+                  step="1"
+                  value={form.maxRedemptionsPerCustomer}
+                  onChange={(e) => setForm({ ...form, maxRedemptionsPerCustomer: e.target.value })}
+                  placeholder="Unlimited"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="promotion-description">Notes</Label>
+              <Textarea
+                id="promotion-description"
+                rows={2}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm">
+              <Switch checked={form.isActive} onCheckedChange={(isActive) => setForm({ ...form, isActive })} />
+              Active
+            </label>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
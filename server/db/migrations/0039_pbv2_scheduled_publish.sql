@@ -0,0 +1,19 @@
+-- Migration 0039: PBV2 scheduled publish + rollback
+-- - SCHEDULED status for versions published with a future effective_from
+-- - effective_from: when a published version starts pricing (history for as-of resolution)
+-- - source_tree_version_id: rollback copies point at the version they re-activate
+
+ALTER TYPE pbv2_tree_version_status ADD VALUE IF NOT EXISTS 'SCHEDULED';
+
+ALTER TABLE pbv2_tree_versions
+  ADD COLUMN IF NOT EXISTS effective_from TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS source_tree_version_id VARCHAR;
+
+-- Backfill: existing published versions became effective when they were published.
+UPDATE pbv2_tree_versions
+SET effective_from = COALESCE(published_at, updated_at)
+WHERE effective_from IS NULL
+  AND status IN ('ACTIVE', 'DEPRECATED');
+
+CREATE INDEX IF NOT EXISTS pbv2_tree_versions_product_effective_from_idx
+  ON pbv2_tree_versions (product_id, effective_from);
@@ -0,0 +1,28 @@
+-- Migration 0040: Org pricebook behind PBV2 `pricebookRef`
+-- Keyed, typed, effective-dated values (e.g. ink.cost_per_sqft, labor.hourly).
+-- A key's value at time T is the entry with the latest effective_from <= T.
+
+DO $$ BEGIN
+  CREATE TYPE pricebook_value_type AS ENUM ('CENTS', 'NUMBER');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS pricebook_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  key VARCHAR(150) NOT NULL,
+  label VARCHAR(255),
+  description TEXT,
+  value_type pricebook_value_type NOT NULL DEFAULT 'CENTS',
+  value DECIMAL(18, 6) NOT NULL,
+  effective_from TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_by_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  updated_by_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS pricebook_entries_org_id_idx ON pricebook_entries (organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS pricebook_entries_org_key_effective_from_uidx
+  ON pricebook_entries (organization_id, key, effective_from);
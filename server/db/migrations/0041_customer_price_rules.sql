@@ -0,0 +1,29 @@
+-- Migration 0041: Customer price lists (contract pricing)
+-- Negotiated per-customer, per-product prices with start/end dates.
+-- The quote calculator applies a matching rule before the customer's tier discount/markup.
+
+DO $$ BEGIN
+  CREATE TYPE customer_price_rule_type AS ENUM ('FIXED_UNIT', 'PER_SQFT', 'PERCENT_OFF');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS customer_price_rules (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_id VARCHAR NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  product_id VARCHAR NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  rule_type customer_price_rule_type NOT NULL,
+  value DECIMAL(12, 4) NOT NULL,
+  min_quantity INTEGER NOT NULL DEFAULT 1,
+  starts_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ends_at TIMESTAMPTZ,
+  notes TEXT,
+  created_by_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  updated_by_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS customer_price_rules_org_id_idx ON customer_price_rules (organization_id);
+CREATE INDEX IF NOT EXISTS customer_price_rules_customer_product_idx ON customer_price_rules (customer_id, product_id);
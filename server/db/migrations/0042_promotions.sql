@@ -0,0 +1,58 @@
+-- Migration 0042: Promotions / coupon codes
+-- Promotion definitions with eligibility rules, plus explicit discount lines that are attached
+-- to a quote and copied onto the order and invoice when the quote converts.
+
+DO $$ BEGIN
+  CREATE TYPE promotion_discount_type AS ENUM ('PERCENT_OFF', 'AMOUNT_OFF', 'FREE_OPTION');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  code VARCHAR(50) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  discount_type promotion_discount_type NOT NULL,
+  discount_value DECIMAL(12, 4) NOT NULL DEFAULT 0,
+  option_name VARCHAR(255),
+  product_type_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  customer_tiers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  min_subtotal DECIMAL(10, 2),
+  min_quantity INTEGER,
+  starts_at TIMESTAMPTZ,
+  ends_at TIMESTAMPTZ,
+  max_redemptions INTEGER,
+  max_redemptions_per_customer INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  updated_by_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS promotions_org_id_idx ON promotions (organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS promotions_org_code_uidx ON promotions (organization_id, code);
+
+CREATE TABLE IF NOT EXISTS discount_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  quote_id VARCHAR REFERENCES quotes(id) ON DELETE CASCADE,
+  order_id VARCHAR REFERENCES orders(id) ON DELETE CASCADE,
+  invoice_id VARCHAR REFERENCES invoices(id) ON DELETE CASCADE,
+  promotion_id VARCHAR REFERENCES promotions(id) ON DELETE SET NULL,
+  code VARCHAR(50),
+  description TEXT NOT NULL,
+  amount_cents INTEGER NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS discount_lines_quote_id_idx ON discount_lines (quote_id);
+CREATE INDEX IF NOT EXISTS discount_lines_order_id_idx ON discount_lines (order_id);
+CREATE INDEX IF NOT EXISTS discount_lines_invoice_id_idx ON discount_lines (invoice_id);
+CREATE INDEX IF NOT EXISTS discount_lines_promotion_id_idx ON discount_lines (promotion_id);
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS discount DECIMAL(10, 2) NOT NULL DEFAULT 0;
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS discount_cents INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,10 @@
+-- Migration 0043: Prepress trim/bleed verification
+-- Links a preflight job to the order line item it was run for, and lets each product declare
+-- the bleed and safe zone its artwork must carry. Both are optional; jobs without a line item
+-- (standalone uploads) keep the existing checks only.
+
+ALTER TABLE prepress_jobs ADD COLUMN IF NOT EXISTS order_line_item_id VARCHAR;
+CREATE INDEX IF NOT EXISTS prepress_jobs_order_line_item_idx ON prepress_jobs(order_line_item_id);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS prepress_bleed_in DECIMAL(6, 3);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS prepress_safe_zone_in DECIMAL(6, 3);
@@ -0,0 +1,24 @@
+-- Migration 0044: Preflight profiles
+-- Org-defined preflight rules (DPI, color spaces, spot colors, ink coverage, fonts, page count,
+-- score weights). A job uses its explicit profile, else the profile for its product type,
+-- else the org default, else the built-in rules.
+
+CREATE TABLE IF NOT EXISTS prepress_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  product_type_id VARCHAR REFERENCES product_types(id) ON DELETE SET NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  rules JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS prepress_profiles_org_idx ON prepress_profiles(organization_id);
+CREATE UNIQUE INDEX IF NOT EXISTS prepress_profiles_org_product_type_uidx
+  ON prepress_profiles(organization_id, product_type_id) WHERE product_type_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS prepress_profiles_org_default_uidx
+  ON prepress_profiles(organization_id) WHERE is_default;
+
+ALTER TABLE prepress_jobs ADD COLUMN IF NOT EXISTS profile_id UUID REFERENCES prepress_profiles(id) ON DELETE SET NULL;
@@ -0,0 +1,11 @@
+-- Migration 0045: Prepress auto-fix catalog
+-- check_and_fix jobs can pick discrete fixes instead of only the Ghostscript normalize pass.
+-- New fix types are logged to prepress_fix_logs like the existing ones.
+
+ALTER TYPE prepress_fix_type ADD VALUE IF NOT EXISTS 'add_bleed';
+ALTER TYPE prepress_fix_type ADD VALUE IF NOT EXISTS 'scale_to_trim';
+ALTER TYPE prepress_fix_type ADD VALUE IF NOT EXISTS 'outline_fonts';
+ALTER TYPE prepress_fix_type ADD VALUE IF NOT EXISTS 'rotate_pages';
+
+-- Fix keys requested at upload (NULL = default normalize pass)
+ALTER TABLE prepress_jobs ADD COLUMN IF NOT EXISTS requested_fixes JSONB;
@@ -0,0 +1,9 @@
+-- Migration 0046: Automatic prepress on line item artwork
+-- Artwork attached to an order line item is queued for preflight. The result is
+-- copied onto the attachment because prepress jobs are deleted after their TTL.
+
+ALTER TABLE order_attachments ADD COLUMN IF NOT EXISTS prepress_job_id VARCHAR;
+ALTER TABLE order_attachments ADD COLUMN IF NOT EXISTS prepress_status VARCHAR(20);
+ALTER TABLE order_attachments ADD COLUMN IF NOT EXISTS prepress_summary JSONB;
+
+CREATE INDEX IF NOT EXISTS order_attachments_prepress_job_id_idx ON order_attachments(prepress_job_id);
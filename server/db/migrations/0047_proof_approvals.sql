@@ -0,0 +1,66 @@
+-- Migration 0047: Customer proof approval
+-- Versioned proofs per order line item, reviewed on a tokenized customer page.
+-- Production jobs for a line can't start until its latest proof is approved.
+
+DO $$ BEGIN
+  CREATE TYPE proof_status AS ENUM ('pending', 'approved', 'changes_requested', 'superseded');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS proof_versions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  order_id VARCHAR NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  order_line_item_id VARCHAR NOT NULL REFERENCES order_line_items(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  status proof_status NOT NULL DEFAULT 'pending',
+  order_attachment_id VARCHAR REFERENCES order_attachments(id) ON DELETE SET NULL,
+  file_name VARCHAR(500) NOT NULL,
+  message TEXT,
+  token_hash TEXT NOT NULL,
+  token_expires_at TIMESTAMPTZ NOT NULL,
+  recipient_email VARCHAR(255),
+  sent_at TIMESTAMPTZ,
+  decided_at TIMESTAMPTZ,
+  signer_name VARCHAR(255),
+  signer_ip VARCHAR(64),
+  signer_user_agent TEXT,
+  created_by_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS proof_versions_org_id_idx ON proof_versions (organization_id);
+CREATE INDEX IF NOT EXISTS proof_versions_order_id_idx ON proof_versions (order_id);
+CREATE UNIQUE INDEX IF NOT EXISTS proof_versions_line_item_version_unique ON proof_versions (order_line_item_id, version);
+CREATE UNIQUE INDEX IF NOT EXISTS proof_versions_token_hash_unique ON proof_versions (token_hash);
+
+CREATE TABLE IF NOT EXISTS proof_events (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  proof_version_id VARCHAR NOT NULL REFERENCES proof_versions(id) ON DELETE CASCADE,
+  type VARCHAR(40) NOT NULL,
+  actor_type VARCHAR(20) NOT NULL,
+  actor_name VARCHAR(255),
+  ip VARCHAR(64),
+  user_agent TEXT,
+  payload JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS proof_events_proof_version_id_idx ON proof_events (proof_version_id, created_at);
+
+CREATE TABLE IF NOT EXISTS proof_comments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  proof_version_id VARCHAR NOT NULL REFERENCES proof_versions(id) ON DELETE CASCADE,
+  author_type VARCHAR(20) NOT NULL,
+  author_name VARCHAR(255),
+  body TEXT NOT NULL,
+  annotation JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS proof_comments_proof_version_id_idx ON proof_comments (proof_version_id);
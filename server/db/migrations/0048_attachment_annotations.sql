@@ -0,0 +1,46 @@
+-- Migration 0048: Attachment annotations
+-- Pin / rectangle / freehand markup per attachment page with comment threads.
+-- target_id is polymorphic (order attachment, quote attachment or asset), like asset_links.parent_id.
+
+DO $$ BEGIN
+  CREATE TYPE annotation_target_type AS ENUM ('order_attachment', 'quote_attachment', 'asset');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE annotation_kind AS ENUM ('pin', 'rect', 'freehand');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS attachment_annotations (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  target_type annotation_target_type NOT NULL,
+  target_id VARCHAR NOT NULL,
+  page_index INTEGER NOT NULL DEFAULT 0,
+  kind annotation_kind NOT NULL,
+  geometry JSONB NOT NULL,
+  color VARCHAR(20) NOT NULL DEFAULT '#ef4444',
+  visible_to_customer BOOLEAN NOT NULL DEFAULT false,
+  resolved_at TIMESTAMPTZ,
+  created_by_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_by_name VARCHAR(255),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS attachment_annotations_target_idx ON attachment_annotations (organization_id, target_type, target_id);
+
+CREATE TABLE IF NOT EXISTS attachment_annotation_comments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  annotation_id VARCHAR NOT NULL REFERENCES attachment_annotations(id) ON DELETE CASCADE,
+  author_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  author_name VARCHAR(255),
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS attachment_annotation_comments_annotation_id_idx ON attachment_annotation_comments (annotation_id, created_at);
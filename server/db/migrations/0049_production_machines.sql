@@ -0,0 +1,33 @@
+-- Migration 0049: Production machines and capacity schedule
+-- Machines work a station (production_jobs.station_key) at a throughput rate on a weekly shift
+-- calendar. The scheduler writes each open job's machine, estimate and start/finish slot.
+
+DO $$ BEGIN
+  CREATE TYPE production_throughput_unit AS ENUM ('sqft_per_hour', 'sheets_per_hour', 'pieces_per_hour');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS production_machines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  station_key VARCHAR(40) NOT NULL,
+  name VARCHAR(120) NOT NULL,
+  throughput_unit production_throughput_unit NOT NULL DEFAULT 'sqft_per_hour',
+  throughput_rate DECIMAL(10, 2) NOT NULL,
+  setup_minutes INTEGER NOT NULL DEFAULT 0,
+  timezone VARCHAR(64),
+  working_hours JSONB NOT NULL DEFAULT '[]'::jsonb,
+  closed_dates JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS production_machines_org_station_idx ON production_machines (organization_id, station_key);
+
+ALTER TABLE production_jobs ADD COLUMN IF NOT EXISTS machine_id VARCHAR REFERENCES production_machines(id) ON DELETE SET NULL;
+ALTER TABLE production_jobs ADD COLUMN IF NOT EXISTS estimated_minutes INTEGER;
+ALTER TABLE production_jobs ADD COLUMN IF NOT EXISTS scheduled_start_at TIMESTAMPTZ;
+ALTER TABLE production_jobs ADD COLUMN IF NOT EXISTS scheduled_end_at TIMESTAMPTZ;
+ALTER TABLE production_jobs ADD COLUMN IF NOT EXISTS scheduled_late BOOLEAN NOT NULL DEFAULT false;
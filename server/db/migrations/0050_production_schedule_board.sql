@@ -0,0 +1,10 @@
+-- Migration 0050: Production schedule board placements
+-- A supervisor can drag a job to a machine and start time; the scheduler keeps that machine,
+-- starts the job no earlier than planned_start_at and orders same-time placements by sequence.
+-- schedule_conflict is set by the scheduler when a placement cannot start at its planned time.
+
+ALTER TABLE production_jobs ADD COLUMN IF NOT EXISTS planned_start_at TIMESTAMPTZ;
+ALTER TABLE production_jobs ADD COLUMN IF NOT EXISTS schedule_sequence INTEGER;
+ALTER TABLE production_jobs ADD COLUMN IF NOT EXISTS schedule_conflict BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS production_jobs_machine_planned_idx ON production_jobs (machine_id, planned_start_at);
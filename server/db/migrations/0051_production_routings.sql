@@ -0,0 +1,43 @@
+-- Migration 0051: Multi-step production routings
+-- A routing is an ordered list of operations (station, setup, run rate, optional PBV2 option
+-- gate) attached to products or product types. Jobs get one operation row per step that
+-- applies to their line item and sit at the station of the current one.
+
+CREATE TABLE IF NOT EXISTS production_routings (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(120) NOT NULL,
+  description TEXT,
+  operations JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS production_routings_org_idx ON production_routings (organization_id);
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS production_routing_id VARCHAR REFERENCES production_routings(id) ON DELETE SET NULL;
+ALTER TABLE product_types ADD COLUMN IF NOT EXISTS production_routing_id VARCHAR REFERENCES production_routings(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS production_job_operations (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  production_job_id VARCHAR NOT NULL REFERENCES production_jobs(id) ON DELETE CASCADE,
+  routing_id VARCHAR REFERENCES production_routings(id) ON DELETE SET NULL,
+  sequence INTEGER NOT NULL,
+  operation_key VARCHAR(40) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  station_key VARCHAR(40) NOT NULL,
+  setup_minutes INTEGER,
+  run_rate DECIMAL(10, 2),
+  run_rate_unit production_throughput_unit NOT NULL DEFAULT 'sqft_per_hour',
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  total_seconds INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS production_job_operations_job_sequence_idx ON production_job_operations (production_job_id, sequence);
+CREATE INDEX IF NOT EXISTS production_job_operations_org_station_status_idx ON production_job_operations (organization_id, station_key, status);
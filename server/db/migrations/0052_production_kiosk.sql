@@ -0,0 +1,14 @@
+-- Migration 0052: Shop-floor kiosk and operator attribution
+-- Operators sign in at the kiosk with a badge barcode or a PIN kept per organization
+-- membership; every production event records the operator who triggered it.
+
+ALTER TABLE user_organizations ADD COLUMN IF NOT EXISTS kiosk_pin_hash TEXT;
+ALTER TABLE user_organizations ADD COLUMN IF NOT EXISTS kiosk_badge_code VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_organizations_org_kiosk_badge_unique
+  ON user_organizations (organization_id, kiosk_badge_code);
+
+ALTER TABLE production_events ADD COLUMN IF NOT EXISTS operator_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS production_events_org_operator_created_idx
+  ON production_events (organization_id, operator_user_id, created_at);
@@ -0,0 +1,40 @@
+-- Migration 0053: Labor time tracking and job costing
+-- Per-operator time entries (one per timer run, plus manual corrections) with the labor and
+-- machine-hour rates in force when recorded; hourly labor rates per organization member and
+-- machine-hour rates per station.
+
+ALTER TABLE user_organizations ADD COLUMN IF NOT EXISTS labor_rate_per_hour DECIMAL(10, 2);
+
+CREATE TABLE IF NOT EXISTS production_station_rates (
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  station_key VARCHAR(40) NOT NULL,
+  machine_rate_per_hour DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, station_key)
+);
+
+CREATE TABLE IF NOT EXISTS production_time_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id VARCHAR NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  production_job_id VARCHAR NOT NULL REFERENCES production_jobs(id) ON DELETE CASCADE,
+  job_operation_id VARCHAR REFERENCES production_job_operations(id) ON DELETE SET NULL,
+  operator_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  station_key VARCHAR(40) NOT NULL,
+  machine_id VARCHAR REFERENCES production_machines(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL,
+  seconds INTEGER NOT NULL,
+  labor_rate_per_hour DECIMAL(10, 2),
+  machine_rate_per_hour DECIMAL(10, 2),
+  source VARCHAR(20) NOT NULL DEFAULT 'timer',
+  note TEXT,
+  created_by_user_id VARCHAR REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS production_time_entries_org_job_idx
+  ON production_time_entries (organization_id, production_job_id);
+CREATE INDEX IF NOT EXISTS production_time_entries_org_operator_started_idx
+  ON production_time_entries (organization_id, operator_user_id, started_at);
@@ -3,6 +3,7 @@ import { invoices, invoiceLineItems, payments, orders, orderLineItems, globalVar
 import { eq, and, sql } from 'drizzle-orm';
 import { InsertInvoice, InsertInvoiceLineItem, InsertPayment } from '../shared/schema';
 import { computeInvoicePaymentRollup } from '../shared/rollups/invoicePaymentRollup';
+import { copyDiscountLines, listDocumentDiscountLines, sumDiscountLineCents } from './services/promotions';
 
 // Map payment terms to days offset
 const TERM_OFFSETS: Record<string, number> = {
@@ -74,11 +75,15 @@ async function createInvoiceFromOrderImpl(
     const tax = Number(order.tax || '0');
     const shippingCents = Number((order as any).shippingCents ?? 0) || 0;
     const shipping = shippingCents / 100;
-    const total = subtotal + tax + shipping;
+    // Promotion discount lines carry over from the order as explicit lines
+    const orderDiscountLines = await listDocumentDiscountLines(organizationId, { orderId }, tx);
+    const discountCents = sumDiscountLineCents(orderDiscountLines);
+    const discount = discountCents / 100;
+    const total = subtotal - discount + tax + shipping;
 
     const subtotalCents = toCents(subtotal);
     const taxCents = toCents(tax);
-    const totalCents = Math.max(0, subtotalCents + taxCents + shippingCents);
+    const totalCents = Math.max(0, subtotalCents - discountCents + taxCents + shippingCents);
 
     const invoiceInsert: InsertInvoice = {
       organizationId,
@@ -93,10 +98,12 @@ async function createInvoiceFromOrderImpl(
       dueDate: dueDate || undefined,
       subtotal: subtotal.toFixed(2) as any,
       tax: tax.toFixed(2) as any,
+      discount: discount.toFixed(2) as any,
       total: total.toFixed(2) as any,
       subtotalCents,
       taxCents,
       shippingCents,
+      discountCents,
       totalCents,
       currency: ((order as any)?.currency as any) || 'USD',
       notesPublic: undefined,
@@ -108,6 +115,7 @@ async function createInvoiceFromOrderImpl(
     } as any; // cast due to extended schema types differences
 
     const [invoice] = await tx.insert(invoices).values(invoiceInsert as any).returning();
+    await copyDiscountLines(orderDiscountLines, { invoiceId: invoice.id }, tx);
 
     // Snapshot line items
     if (lineItems.length) {
@@ -0,0 +1,200 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import sharp from 'sharp';
+
+import type { AttachmentAnnotationGeometry } from '@shared/schema';
+
+/**
+ * Flattened annotation export for the designer.
+ *
+ * Markup is drawn straight onto the artwork: PDF sources keep their vector pages, image sources
+ * are placed on a page of the same pixel size. Geometry is normalized against the visible page
+ * (CropBox), origin top-left. Each annotation gets a numbered tag, and the comment threads are
+ * listed on appended pages under the same numbers.
+ */
+
+export type FlattenAnnotation = {
+  pageIndex: number;
+  kind: 'pin' | 'rect' | 'freehand';
+  geometry: AttachmentAnnotationGeometry;
+  color: string;
+  resolved: boolean;
+  comments: Array<{ authorName: string | null; body: string; createdAt: Date }>;
+};
+
+export type FlattenSource = {
+  bytes: Uint8Array;
+  mimeType: string | null;
+  fileName: string;
+};
+
+const PIN_RADIUS_PT = 7;
+const STROKE_PT = 2;
+const TAG_SIZE_PT = 9;
+const LIST_MARGIN_PT = 54;
+
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function hexToRgb(hex: string): RGB {
+  const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!m) return rgb(0.94, 0.27, 0.27);
+  return rgb(parseInt(m[1], 16) / 255, parseInt(m[2], 16) / 255, parseInt(m[3], 16) / 255);
+}
+
+export function isPdfSource(source: Pick<FlattenSource, 'mimeType' | 'fileName'>): boolean {
+  return source.mimeType === 'application/pdf' || source.fileName.toLowerCase().endsWith('.pdf');
+}
+
+export function isImageSource(source: Pick<FlattenSource, 'mimeType' | 'fileName'>): boolean {
+  return (source.mimeType ?? '').startsWith('image/') || /\.(png|jpe?g|webp|gif|tiff?)$/i.test(source.fileName);
+}
+
+/** Point in PDF user space (origin bottom-left) for a normalized point on the page. */
+function mapPoint(box: { x: number; y: number; width: number; height: number }, nx: number, ny: number) {
+  return { x: box.x + nx * box.width, y: box.y + (1 - ny) * box.height };
+}
+
+/** Anchor for the numbered tag: top-left corner of the shape. */
+export function annotationAnchor(geometry: AttachmentAnnotationGeometry): { x: number; y: number } {
+  if ('points' in geometry) {
+    return {
+      x: Math.min(...geometry.points.map((p) => p[0])),
+      y: Math.min(...geometry.points.map((p) => p[1])),
+    };
+  }
+  return { x: geometry.x, y: geometry.y };
+}
+
+function drawAnnotation(page: PDFPage, annotation: FlattenAnnotation, number: number, font: PDFFont) {
+  const box = page.getCropBox();
+  const color = hexToRgb(annotation.color);
+  const opacity = annotation.resolved ? 0.4 : 1;
+  const g = annotation.geometry;
+
+  if (annotation.kind === 'rect' && 'w' in g) {
+    const topLeft = mapPoint(box, g.x, g.y);
+    page.drawRectangle({
+      x: topLeft.x,
+      y: topLeft.y - g.h * box.height,
+      width: g.w * box.width,
+      height: g.h * box.height,
+      borderColor: color,
+      borderWidth: STROKE_PT,
+      borderOpacity: opacity,
+      color,
+      opacity: 0.08 * opacity,
+    });
+  } else if (annotation.kind === 'freehand' && 'points' in g) {
+    for (let i = 1; i < g.points.length; i++) {
+      page.drawLine({
+        start: mapPoint(box, g.points[i - 1][0], g.points[i - 1][1]),
+        end: mapPoint(box, g.points[i][0], g.points[i][1]),
+        thickness: STROKE_PT,
+        color,
+        opacity,
+      });
+    }
+  } else if ('x' in g) {
+    const center = mapPoint(box, g.x, g.y);
+    page.drawCircle({ ...center, size: PIN_RADIUS_PT, color, opacity });
+    const label = String(number);
+    page.drawText(label, {
+      x: center.x - font.widthOfTextAtSize(label, TAG_SIZE_PT) / 2,
+      y: center.y - TAG_SIZE_PT * 0.35,
+      size: TAG_SIZE_PT,
+      font,
+      color: rgb(1, 1, 1),
+    });
+    return;
+  }
+
+  // Numbered tag above the shape's top-left corner
+  const anchor = annotationAnchor(g);
+  const at = mapPoint(box, anchor.x, anchor.y);
+  const label = String(number);
+  const width = font.widthOfTextAtSize(label, TAG_SIZE_PT) + 6;
+  page.drawRectangle({ x: at.x, y: at.y + 1, width, height: TAG_SIZE_PT + 4, color, opacity });
+  page.drawText(label, { x: at.x + 3, y: at.y + 3.5, size: TAG_SIZE_PT, font, color: rgb(1, 1, 1) });
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of toWinAnsi(text).split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const next = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(next, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = next;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function drawCommentList(pdfDoc: PDFDocument, annotations: FlattenAnnotation[], title: string, font: PDFFont, bold: PDFFont) {
+  const [width, height] = [612, 792];
+  const maxWidth = width - LIST_MARGIN_PT * 2;
+  let page = pdfDoc.addPage([width, height]);
+  let y = height - LIST_MARGIN_PT;
+
+  const line = (text: string, options: { size: number; font: PDFFont; indent?: number; color?: RGB }) => {
+    if (y < LIST_MARGIN_PT) {
+      page = pdfDoc.addPage([width, height]);
+      y = height - LIST_MARGIN_PT;
+    }
+    page.drawText(text, { x: LIST_MARGIN_PT + (options.indent ?? 0), y, size: options.size, font: options.font, color: options.color ?? rgb(0, 0, 0) });
+    y -= options.size * 1.4;
+  };
+
+  line(toWinAnsi(`Markup: ${title}`), { size: 14, font: bold });
+  y -= 6;
+
+  annotations.forEach((annotation, i) => {
+    const heading = `#${i + 1}  Page ${annotation.pageIndex + 1} - ${annotation.kind}${annotation.resolved ? ' (resolved)' : ''}`;
+    line(heading, { size: 11, font: bold, color: hexToRgb(annotation.color) });
+    for (const comment of annotation.comments) {
+      const who = `${comment.authorName ?? 'Unknown'}, ${comment.createdAt.toISOString().slice(0, 16).replace('T', ' ')}`;
+      line(toWinAnsi(who), { size: 8, font, indent: 12, color: rgb(0.4, 0.4, 0.4) });
+      for (const text of wrapText(comment.body, font, 10, maxWidth - 12)) line(text, { size: 10, font, indent: 12 });
+    }
+    y -= 8;
+  });
+}
+
+async function loadSourcePdf(source: FlattenSource): Promise<PDFDocument> {
+  if (isPdfSource(source)) return PDFDocument.load(source.bytes, { ignoreEncryption: true });
+
+  // Images: place at 72dpi-equivalent size (1px = 1pt); normalize anything but JPEG/PNG to PNG
+  const pdfDoc = await PDFDocument.create();
+  const isJpeg = source.mimeType === 'image/jpeg' || /\.jpe?g$/i.test(source.fileName);
+  const isPng = source.mimeType === 'image/png' || /\.png$/i.test(source.fileName);
+  const image = isJpeg
+    ? await pdfDoc.embedJpg(source.bytes)
+    : await pdfDoc.embedPng(isPng ? source.bytes : await sharp(Buffer.from(source.bytes)).png().toBuffer());
+  const page = pdfDoc.addPage([image.width, image.height]);
+  page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+  return pdfDoc;
+}
+
+export async function flattenAnnotationsToPdf(source: FlattenSource, annotations: FlattenAnnotation[]): Promise<Uint8Array> {
+  const pdfDoc = await loadSourcePdf(source);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const pages = pdfDoc.getPages();
+
+  // Numbering follows the comment list order: by page, then creation order
+  const ordered = [...annotations].sort((a, b) => a.pageIndex - b.pageIndex);
+  ordered.forEach((annotation, i) => {
+    const page = pages[annotation.pageIndex];
+    if (page) drawAnnotation(page, annotation, i + 1, font);
+  });
+
+  if (ordered.length > 0) drawCommentList(pdfDoc, ordered, source.fileName, font, bold);
+
+  return pdfDoc.save({ useObjectStreams: false });
+}
@@ -63,6 +63,8 @@ export function buildDuplicatedProductInsert(original: Product): Omit<InsertProd
     variantLabel: original.variantLabel ?? "Variant",
 
     requiresProductionJob: original.requiresProductionJob ?? true,
+    prepressBleedIn: parseOptionalNumber(original.prepressBleedIn),
+    prepressSafeZoneIn: parseOptionalNumber(original.prepressSafeZoneIn),
     isTaxable: original.isTaxable ?? true,
 
     // Duplicates are created as a draft (not active) by default.
@@ -0,0 +1,28 @@
+import type { Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+/**
+ * Errors services throw for the route to answer with: `statusCode` is the HTTP status and
+ * `message` is safe to show the caller.
+ */
+export function httpError(statusCode: number, message: string): Error & { statusCode: number } {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+/**
+ * Answer a failed service call: zod errors and httpError 4xx go back as
+ * `{ success: false, message }` with their status; anything else is logged and answered 500
+ * with `fallback`.
+ */
+export function sendServiceError(res: Response, error: any, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ success: false, message: fromZodError(error).message });
+  }
+  const statusCode = Number(error?.statusCode);
+  if (statusCode >= 400 && statusCode < 500) {
+    return res.status(statusCode).json({ success: false, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
@@ -69,6 +69,8 @@ type InvoicePdfParams = {
     statusLabel?: string | null;
   };
   lineItems: InvoiceLineItemLike[];
+  // Explicit discount lines (promotions), shown between Subtotal and Tax
+  discountLines?: Array<{ description: string; amountCents: number }> | null;
   job?: {
     poNumber?: string | null;
     jobNumber?: string | null;
@@ -818,7 +820,9 @@ export async function generateInvoicePdfBytes(
   const totalsBoxW = 240;
   const totalsX = width - margin - totalsBoxW;
 
-  const totalsNeeded = 110 + (taxCents > 0 ? 14 : 0) + (shippingCents > 0 ? 14 : 0) + (paidCents > 0 ? 14 : 0) + (dueCents > 0 ? 14 : 0);
+  const discountRows = (params.discountLines || []).filter((d) => toSafeCents(d.amountCents) > 0);
+
+  const totalsNeeded = 110 + discountRows.length * 14 + (taxCents > 0 ? 14 : 0) + (shippingCents > 0 ? 14 : 0) + (paidCents > 0 ? 14 : 0) + (dueCents > 0 ? 14 : 0);
   if (y < bottomSafeY + totalsNeeded) {
     newPage();
   }
@@ -833,6 +837,10 @@ export async function generateInvoicePdfBytes(
   };
 
   drawTotalRow('Subtotal', fmtMoney(subtotalCents, currency), { muted: true });
+  for (const d of discountRows) {
+    const label = d.description.length > 34 ? `${d.description.slice(0, 33)}…` : d.description;
+    drawTotalRow(label, `-${fmtMoney(d.amountCents, currency)}`, { muted: true });
+  }
   if (taxCents > 0) drawTotalRow('Tax', fmtMoney(taxCents, currency), { muted: true });
   if (shippingCents > 0) drawTotalRow('Shipping', fmtMoney(shippingCents, currency), { muted: true });
 
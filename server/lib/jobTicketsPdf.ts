@@ -0,0 +1,132 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "pdf-lib";
+import { CODE128_QUIET_ZONE, code128Modules } from "@shared/code128";
+
+/**
+ * Job ticket PDF layout.
+ *
+ * One half-letter page per job: order, customer, line item, due date, the routing steps with
+ * check boxes, and a Code 128 barcode of the production job id for the kiosk to scan. Loading
+ * the tickets lives in server/services/productionTickets.
+ */
+
+export type JobTicket = {
+  jobId: string;
+  orderNumber: string;
+  customerName: string | null;
+  description: string | null;
+  quantity: number | null;
+  dueDate: string | null;
+  priority: string | null;
+  stationKey: string;
+  stepKey: string;
+  operations: Array<{ sequence: number; name: string; stationKey: string; status: string }>;
+};
+
+// Half letter, landscape
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 396;
+const MARGIN = 36;
+const BARCODE_HEIGHT = 64;
+const MAX_MODULE_WIDTH = 1.5;
+const BLACK = rgb(0, 0, 0);
+const GREY = rgb(0.4, 0.4, 0.4);
+
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+function fitText(font: PDFFont, text: string, size: number, maxWidth: number): string {
+  let value = toWinAnsi(text);
+  if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+  while (value.length > 1 && font.widthOfTextAtSize(`${value}...`, size) > maxWidth) value = value.slice(0, -1);
+  return `${value}...`;
+}
+
+/** Draw the Code 128 symbol for `text` centred in `width`, bottom edge at `y`. */
+function drawBarcode(page: PDFPage, text: string, x: number, y: number, width: number, height: number) {
+  const modules = code128Modules(text);
+  const total = modules.reduce((sum, w) => sum + w, 0) + 2 * CODE128_QUIET_ZONE;
+  const moduleWidth = Math.min(MAX_MODULE_WIDTH, width / total);
+  let cursor = x + (width - total * moduleWidth) / 2 + CODE128_QUIET_ZONE * moduleWidth;
+  modules.forEach((w, index) => {
+    if (index % 2 === 0) page.drawRectangle({ x: cursor, y, width: w * moduleWidth, height, color: BLACK });
+    cursor += w * moduleWidth;
+  });
+}
+
+function formatDueDate(value: string | null): string {
+  if (!value) return "No due date";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "No due date";
+  return `Due ${date.toLocaleDateString("en-US", { weekday: "short", month: "short", day: "numeric", year: "numeric" })}`;
+}
+
+function drawTicket(page: PDFPage, ticket: JobTicket, fonts: { regular: PDFFont; bold: PDFFont }) {
+  const { regular, bold } = fonts;
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  page.drawText("PRODUCTION JOB TICKET", { x: MARGIN, y: y - 9, size: 9, font: bold, color: GREY });
+  if (ticket.priority === "rush") {
+    const label = "RUSH";
+    const labelWidth = bold.widthOfTextAtSize(label, 14);
+    page.drawRectangle({ x: PAGE_WIDTH - MARGIN - labelWidth - 12, y: y - 18, width: labelWidth + 12, height: 20, color: BLACK });
+    page.drawText(label, { x: PAGE_WIDTH - MARGIN - labelWidth - 6, y: y - 13, size: 14, font: bold, color: rgb(1, 1, 1) });
+  }
+  y -= 40;
+
+  page.drawText(fitText(bold, `Order ${ticket.orderNumber}`, 26, contentWidth), { x: MARGIN, y, size: 26, font: bold, color: BLACK });
+  y -= 20;
+  page.drawText(fitText(regular, ticket.customerName || "No customer", 13, contentWidth), { x: MARGIN, y, size: 13, font: regular, color: BLACK });
+  y -= 22;
+
+  const item = [ticket.description || "Line item", ticket.quantity != null ? `Qty ${ticket.quantity}` : null].filter(Boolean).join("  |  ");
+  page.drawText(fitText(bold, item, 12, contentWidth), { x: MARGIN, y, size: 12, font: bold, color: BLACK });
+  y -= 16;
+  page.drawText(fitText(regular, formatDueDate(ticket.dueDate), 11, contentWidth), { x: MARGIN, y, size: 11, font: regular, color: BLACK });
+  y -= 24;
+
+  // Routing steps with boxes to tick by hand; a job without a routing shows its station
+  const steps = ticket.operations.filter((op) => op.status !== "skipped");
+  const lines = steps.length
+    ? steps.map((op, index) => ({ text: `${index + 1}. ${op.name}  (${op.stationKey})`, done: op.status === "done" }))
+    : [{ text: `${ticket.stationKey} / ${ticket.stepKey}`, done: false }];
+  const maxLines = Math.floor((y - (MARGIN + BARCODE_HEIGHT + 28)) / 15);
+  const columns = lines.length > maxLines ? 2 : 1;
+  const perColumn = Math.max(1, maxLines);
+  const columnWidth = contentWidth / columns;
+  lines.slice(0, perColumn * columns).forEach((line, index) => {
+    const column = Math.floor(index / perColumn);
+    const rowY = y - (index % perColumn) * 15;
+    const x = MARGIN + column * columnWidth;
+    page.drawRectangle({ x, y: rowY - 1, width: 9, height: 9, borderColor: BLACK, borderWidth: 0.8 });
+    if (line.done) page.drawText("x", { x: x + 2, y: rowY, size: 9, font: bold, color: BLACK });
+    page.drawText(fitText(regular, line.text, 10, columnWidth - 20), { x: x + 15, y: rowY, size: 10, font: regular, color: BLACK });
+  });
+
+  const barcodeY = MARGIN + 14;
+  drawBarcode(page, ticket.jobId, MARGIN, barcodeY, contentWidth, BARCODE_HEIGHT);
+  const caption = toWinAnsi(ticket.jobId);
+  page.drawText(caption, {
+    x: MARGIN + (contentWidth - regular.widthOfTextAtSize(caption, 9)) / 2,
+    y: MARGIN,
+    size: 9,
+    font: regular,
+    color: BLACK,
+  });
+}
+
+/** One ticket page per job, in the order given. */
+export async function renderJobTicketsPdf(tickets: JobTicket[]): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+  pdf.setTitle(tickets.length === 1 ? toWinAnsi(`Job ticket - order ${tickets[0].orderNumber}`) : "Production job tickets");
+
+  for (const ticket of tickets) {
+    drawTicket(pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]), ticket, fonts);
+  }
+  return pdf.save();
+}
@@ -0,0 +1,53 @@
+import crypto from "crypto";
+
+/**
+ * Shop-floor kiosk tokens and ticket codes.
+ *
+ * An operator token is `kiosk:<org>:<user>:<expires>:<hmac>`, signed with SESSION_SECRET and
+ * good for 15 minutes; the kiosk sends it with every scan. Sign-in and scanning live in
+ * server/services/productionKiosk.
+ */
+
+const OPERATOR_TOKEN_TTL_MS = 15 * 60 * 1000;
+
+function tokenSecret(): string {
+  const secret = String(process.env.SESSION_SECRET || "").trim();
+  if (!secret) throw new Error("SESSION_SECRET is not configured");
+  return secret;
+}
+
+function signToken(data: string): string {
+  return crypto.createHmac("sha256", tokenSecret()).update(data).digest("hex").slice(0, 32);
+}
+
+export function buildOperatorToken(organizationId: string, userId: string, now = Date.now()): { token: string; expiresAt: Date } {
+  const expiresAt = now + OPERATOR_TOKEN_TTL_MS;
+  const data = `${organizationId}:${userId}:${expiresAt}`;
+  return { token: `kiosk:${data}:${signToken(data)}`, expiresAt: new Date(expiresAt) };
+}
+
+/** The operator's user id, if the token is signed for this organization and unexpired. */
+export function parseOperatorToken(organizationId: string, token: string, now = Date.now()): string | null {
+  const parts = token.split(":");
+  if (parts.length !== 5 || parts[0] !== "kiosk") return null;
+  const [, tokenOrgId, userId, expiresRaw, sig] = parts;
+  if (tokenOrgId !== organizationId || !userId) return null;
+
+  const expiresAt = Number(expiresRaw);
+  if (!Number.isFinite(expiresAt) || expiresAt < now) return null;
+
+  const expected = Buffer.from(signToken(`${tokenOrgId}:${userId}:${expiresRaw}`));
+  const actual = Buffer.from(sig);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+  return userId;
+}
+
+/**
+ * Job id from a scanned ticket: the barcode holds the bare id; a scanned job page link
+ * (`…/production/jobs/<id>`) works too.
+ */
+export function parseJobTicketCode(code: string): string {
+  const trimmed = code.trim();
+  const fromUrl = /\/production\/jobs\/([^/?#\s]+)/.exec(trimmed);
+  return fromUrl ? decodeURIComponent(fromUrl[1]) : trimmed;
+}
@@ -0,0 +1,304 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib';
+
+import type { SheetNestingPlan } from '@shared/sheetNesting';
+import type { RollNestingPlan } from '@shared/rollNesting';
+
+/**
+ * Nesting layout export for the cutter / RIP.
+ *
+ * Sheet and roll plans are first normalized into pages of true-size geometry (inches, origin
+ * top-left), then rendered as SVG (one page, physical units) or PDF (every page, 72pt/in).
+ * Output is deterministic for a given plan so repeated exports diff cleanly.
+ */
+
+export type NestingLayoutPiece = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label: string;
+  detail: string;
+};
+
+export type NestingLayoutGuide = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: string;
+};
+
+export type NestingLayoutPage = {
+  title: string;
+  widthIn: number;
+  heightIn: number;
+  pieces: NestingLayoutPiece[];
+  /** Dashed reference areas: sheet margin, roll edge waste, lead/tail waste. */
+  guides: NestingLayoutGuide[];
+  footer: string;
+};
+
+export type NestingLayoutDocument = {
+  title: string;
+  pages: NestingLayoutPage[];
+};
+
+/** Registration mark geometry, inches from each sheet corner. */
+const MARK_INSET_IN = 0.25;
+const MARK_RADIUS_IN = 0.125;
+const MARK_ARM_IN = 0.2;
+
+/** Largest page side most PDF consumers accept (200in); larger layouts are scaled down. */
+const MAX_PDF_PAGE_PT = 14400;
+
+const PT_PER_IN = 72;
+
+function fmt(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function pieceDims(width: number, height: number, rotated: boolean): string {
+  return `${fmt(width)} x ${fmt(height)} in${rotated ? ' (rotated)' : ''}`;
+}
+
+export function sheetPlanToLayout(plan: SheetNestingPlan, title: string): NestingLayoutDocument {
+  const { sheetWidthIn: w, sheetHeightIn: h, marginIn } = plan;
+  return {
+    title,
+    pages: plan.sheets.map((sheet) => ({
+      title: `${title} - sheet ${sheet.index + 1} of ${plan.totalSheets}`,
+      widthIn: w,
+      heightIn: h,
+      pieces: sheet.placements.map((p) => ({
+        x: p.x,
+        y: p.y,
+        width: p.width,
+        height: p.height,
+        label: `${p.label} #${p.copy}`,
+        detail: pieceDims(p.width, p.height, p.rotated),
+      })),
+      guides: marginIn > 0 ? [{ x: marginIn, y: marginIn, width: w - 2 * marginIn, height: h - 2 * marginIn }] : [],
+      footer: `${fmt(w)} x ${fmt(h)} in sheet, ${sheet.placements.length} pieces, yield ${sheet.yieldPercent}% (${plan.mode}, gutter ${fmt(plan.gutterIn)} in, bleed ${fmt(plan.bleedIn)} in)`,
+    })),
+  };
+}
+
+export function rollPlanToLayout(plan: RollNestingPlan, title: string): NestingLayoutDocument {
+  const leadIn = plan.leadWasteFt * 12;
+  const tailIn = plan.tailWasteFt * 12;
+  const w = plan.rollWidthIn;
+  const h = leadIn + plan.printedLengthIn + tailIn;
+  if (plan.placements.length === 0) return { title, pages: [] };
+
+  const guides: NestingLayoutGuide[] = [];
+  if (leadIn > 0) guides.push({ x: 0, y: 0, width: w, height: leadIn, label: `LEAD ${fmt(plan.leadWasteFt)} ft` });
+  if (tailIn > 0) guides.push({ x: 0, y: h - tailIn, width: w, height: tailIn, label: `TAIL ${fmt(plan.tailWasteFt)} ft` });
+  if (plan.edgeWasteInPerSide > 0) {
+    guides.push({ x: plan.edgeWasteInPerSide, y: 0, width: plan.printableWidthIn, height: h });
+  }
+
+  return {
+    title,
+    pages: [
+      {
+        title: `${title} - roll run`,
+        widthIn: w,
+        heightIn: h,
+        pieces: plan.placements.map((p) => ({
+          x: p.x,
+          y: leadIn + p.y,
+          width: p.width,
+          height: p.height,
+          label: `${p.label} #${p.copy}`,
+          detail: `${pieceDims(p.width, p.height, p.rotated)}, lane ${p.lane + 1}`,
+        })),
+        guides,
+        footer: `${fmt(w)} in roll, ${plan.lanes.length} lanes, ${fmt(plan.totalLinearFt)} linear ft, waste ${plan.wastePercent}%`,
+      },
+    ],
+  };
+}
+
+function registrationMarkCenters(page: NestingLayoutPage): Array<[number, number]> {
+  const offset = MARK_INSET_IN + MARK_RADIUS_IN;
+  return [
+    [offset, offset],
+    [page.widthIn - offset, offset],
+    [offset, page.heightIn - offset],
+    [page.widthIn - offset, page.heightIn - offset],
+  ];
+}
+
+function labelFontSizeIn(piece: NestingLayoutPiece): number {
+  return Math.max(Math.min(piece.height / 5, piece.width / 12, 0.5), 0.08);
+}
+
+/** Rough Helvetica width (0.55em/char) for SVG truncation; PDF measures exactly. */
+function truncateToWidth(text: string, maxWidth: number, size: number): string {
+  const maxChars = Math.floor(maxWidth / (size * 0.55));
+  if (text.length <= maxChars) return text;
+  return maxChars > 1 ? `${text.slice(0, maxChars - 1)}…` : '';
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Render one page as SVG in physical inches so RIP/cutter software imports it at true size. */
+export function renderNestingLayoutSvg(page: NestingLayoutPage): string {
+  const out: string[] = [];
+  out.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(page.widthIn)}in" height="${fmt(page.heightIn)}in" viewBox="0 0 ${fmt(page.widthIn)} ${fmt(page.heightIn)}">`
+  );
+  out.push(`<title>${escapeXml(page.title)}</title>`);
+  out.push(`<rect id="sheet-border" x="0" y="0" width="${fmt(page.widthIn)}" height="${fmt(page.heightIn)}" fill="none" stroke="#000" stroke-width="0.02"/>`);
+
+  for (const guide of page.guides) {
+    out.push(
+      `<rect x="${fmt(guide.x)}" y="${fmt(guide.y)}" width="${fmt(guide.width)}" height="${fmt(guide.height)}" fill="none" stroke="#888" stroke-width="0.02" stroke-dasharray="0.2 0.2"/>`
+    );
+    if (guide.label) {
+      out.push(
+        `<text x="${fmt(guide.x + 0.5)}" y="${fmt(guide.y + Math.min(guide.height / 2, 1))}" font-family="Helvetica, Arial, sans-serif" font-size="0.4" fill="#888">${escapeXml(guide.label)}</text>`
+      );
+    }
+  }
+
+  out.push('<g id="pieces">');
+  for (const piece of page.pieces) {
+    const size = labelFontSizeIn(piece);
+    out.push(
+      `<rect x="${fmt(piece.x)}" y="${fmt(piece.y)}" width="${fmt(piece.width)}" height="${fmt(piece.height)}" fill="none" stroke="#e6007e" stroke-width="0.02"/>`
+    );
+    const cx = piece.x + piece.width / 2;
+    const cy = piece.y + piece.height / 2;
+    const maxWidth = piece.width * 0.9;
+    out.push(
+      `<text x="${fmt(cx)}" y="${fmt(cy - size * 0.2)}" text-anchor="middle" font-family="Helvetica, Arial, sans-serif" font-size="${fmt(size)}">${escapeXml(truncateToWidth(piece.label, maxWidth, size))}</text>`
+    );
+    out.push(
+      `<text x="${fmt(cx)}" y="${fmt(cy + size)}" text-anchor="middle" font-family="Helvetica, Arial, sans-serif" font-size="${fmt(size * 0.8)}" fill="#555">${escapeXml(truncateToWidth(piece.detail, maxWidth, size * 0.8))}</text>`
+    );
+  }
+  out.push('</g>');
+
+  out.push('<g id="registration-marks" stroke="#000" stroke-width="0.02" fill="none">');
+  for (const [x, y] of registrationMarkCenters(page)) {
+    out.push(`<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(MARK_RADIUS_IN)}"/>`);
+    out.push(`<line x1="${fmt(x - MARK_ARM_IN)}" y1="${fmt(y)}" x2="${fmt(x + MARK_ARM_IN)}" y2="${fmt(y)}"/>`);
+    out.push(`<line x1="${fmt(x)}" y1="${fmt(y - MARK_ARM_IN)}" x2="${fmt(x)}" y2="${fmt(y + MARK_ARM_IN)}"/>`);
+  }
+  out.push('</g>');
+
+  out.push(
+    `<text x="${fmt(MARK_INSET_IN * 2 + MARK_RADIUS_IN * 2)}" y="${fmt(page.heightIn - MARK_INSET_IN)}" font-family="Helvetica, Arial, sans-serif" font-size="0.2" fill="#555">${escapeXml(page.footer)}</text>`
+  );
+  out.push('</svg>');
+  return out.join('\n');
+}
+
+/** Standard PDF fonts only encode WinAnsi; replace anything else so labels never throw. */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
+
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  let value = toWinAnsi(text);
+  if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+  while (value.length > 1 && font.widthOfTextAtSize(`${value}...`, size) > maxWidth) value = value.slice(0, -1);
+  return value.length > 1 ? `${value}...` : '';
+}
+
+function drawPdfPage(pdfPage: PDFPage, page: NestingLayoutPage, scale: number, font: PDFFont) {
+  const s = PT_PER_IN * scale;
+  const pageHeightPt = page.heightIn * s;
+  // Layout coordinates are top-left origin; PDF is bottom-left
+  const rect = (x: number, y: number, width: number, height: number) => ({
+    x: x * s,
+    y: pageHeightPt - (y + height) * s,
+    width: width * s,
+    height: height * s,
+  });
+  const grey = rgb(0.53, 0.53, 0.53);
+  const magenta = rgb(0.9, 0, 0.49);
+  const black = rgb(0, 0, 0);
+
+  pdfPage.drawRectangle({ ...rect(0, 0, page.widthIn, page.heightIn), borderColor: black, borderWidth: 1 });
+
+  for (const guide of page.guides) {
+    pdfPage.drawRectangle({ ...rect(guide.x, guide.y, guide.width, guide.height), borderColor: grey, borderWidth: 0.75, borderDashArray: [6, 6] });
+    if (guide.label) {
+      pdfPage.drawText(toWinAnsi(guide.label), {
+        x: (guide.x + 0.5) * s,
+        y: pageHeightPt - (guide.y + Math.min(guide.height / 2, 1)) * s,
+        size: 0.4 * s,
+        font,
+        color: grey,
+      });
+    }
+  }
+
+  for (const piece of page.pieces) {
+    pdfPage.drawRectangle({ ...rect(piece.x, piece.y, piece.width, piece.height), borderColor: magenta, borderWidth: 0.75 });
+    const size = labelFontSizeIn(piece) * s;
+    const maxWidth = piece.width * 0.9 * s;
+    const cx = (piece.x + piece.width / 2) * s;
+    const cy = pageHeightPt - (piece.y + piece.height / 2) * s;
+    const label = fitText(piece.label, font, size, maxWidth);
+    const detail = fitText(piece.detail, font, size * 0.8, maxWidth);
+    if (label) pdfPage.drawText(label, { x: cx - font.widthOfTextAtSize(label, size) / 2, y: cy + size * 0.2, size, font, color: black });
+    if (detail) {
+      pdfPage.drawText(detail, { x: cx - font.widthOfTextAtSize(detail, size * 0.8) / 2, y: cy - size, size: size * 0.8, font, color: grey });
+    }
+  }
+
+  for (const [x, y] of registrationMarkCenters(page)) {
+    const px = x * s;
+    const py = pageHeightPt - y * s;
+    pdfPage.drawCircle({ x: px, y: py, size: MARK_RADIUS_IN * s, borderColor: black, borderWidth: 0.75 });
+    pdfPage.drawLine({ start: { x: px - MARK_ARM_IN * s, y: py }, end: { x: px + MARK_ARM_IN * s, y: py }, thickness: 0.75, color: black });
+    pdfPage.drawLine({ start: { x: px, y: py - MARK_ARM_IN * s }, end: { x: px, y: py + MARK_ARM_IN * s }, thickness: 0.75, color: black });
+  }
+
+  const footer = scale < 1 ? `${page.footer} - scaled to ${Math.round(scale * 1000) / 10}%` : page.footer;
+  pdfPage.drawText(toWinAnsi(footer), {
+    x: (MARK_INSET_IN * 2 + MARK_RADIUS_IN * 2) * s,
+    y: MARK_INSET_IN * s,
+    size: Math.max(0.2 * s, 4),
+    font,
+    color: grey,
+  });
+}
+
+/** One PDF page per layout page at 1:1 (72pt/in) unless the page exceeds 200in. */
+export async function generateNestingLayoutPdfBytes(doc: NestingLayoutDocument): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+
+  // Deterministic metadata (do not leak wall-clock time into output).
+  const fixedDate = new Date('2000-01-01T00:00:00.000Z');
+  try {
+    pdfDoc.setTitle(toWinAnsi(doc.title));
+    pdfDoc.setCreator('QuoteVaultPro');
+    pdfDoc.setProducer('QuoteVaultPro');
+    pdfDoc.setCreationDate(fixedDate);
+    pdfDoc.setModificationDate(fixedDate);
+  } catch {
+    // ignore - metadata setters are optional
+  }
+
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+  for (const page of doc.pages) {
+    const largestSidePt = Math.max(page.widthIn, page.heightIn) * PT_PER_IN;
+    const scale = largestSidePt > MAX_PDF_PAGE_PT ? MAX_PDF_PAGE_PT / largestSidePt : 1;
+    const pdfPage = pdfDoc.addPage([page.widthIn * PT_PER_IN * scale, page.heightIn * PT_PER_IN * scale]);
+    drawPdfPage(pdfPage, page, scale, font);
+  }
+
+  if (doc.pages.length === 0) {
+    const pdfPage = pdfDoc.addPage([612, 792]);
+    pdfPage.drawText('Nothing to lay out: no pieces fit this material.', { x: 72, y: 720, size: 12, font });
+  }
+
+  return pdfDoc.save({ useObjectStreams: false });
+}
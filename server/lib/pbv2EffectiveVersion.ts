@@ -0,0 +1,75 @@
+/**
+ * PBV2 effective-dated version selection (pure helpers; DB access lives in services/pbv2TreeVersionLifecycle).
+ *
+ * A published version prices from its `effectiveFrom` until the next published version's `effectiveFrom`.
+ * Rollbacks create a new version (copy) so earlier windows stay intact for as-of lookups.
+ */
+
+export type Pbv2EffectiveVersionRow = {
+  id: string;
+  status: string;
+  effectiveFrom: Date | string | null;
+};
+
+// Statuses that have been (or are scheduled to be) live.
+const PUBLISHED_STATUSES = new Set(["ACTIVE", "DEPRECATED", "SCHEDULED"]);
+
+// Clock skew allowance: an effectiveFrom within this window of "now" publishes immediately.
+export const PBV2_SCHEDULE_MIN_LEAD_MS = 60_000;
+
+function toTime(value: Date | string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  const t = value instanceof Date ? value.getTime() : Date.parse(value);
+  return Number.isFinite(t) ? t : null;
+}
+
+/**
+ * Pick the version effective at `at`: the published row with the latest effectiveFrom <= at.
+ * Returns null when nothing had taken effect yet (callers fall back to the product's ACTIVE pointer).
+ */
+export function selectEffectivePbv2TreeVersionId(rows: Pbv2EffectiveVersionRow[], at: Date): string | null {
+  const atMs = at.getTime();
+  let best: { id: string; t: number } | null = null;
+
+  for (const row of rows) {
+    if (!PUBLISHED_STATUSES.has(String(row.status).toUpperCase())) continue;
+    const t = toTime(row.effectiveFrom);
+    if (t === null || t > atMs) continue;
+    if (!best || t > best.t) best = { id: row.id, t };
+  }
+
+  return best ? best.id : null;
+}
+
+/**
+ * Parse a publish request's `effectiveFrom`.
+ * - absent/empty => publish now
+ * - within PBV2_SCHEDULE_MIN_LEAD_MS of now (or in the past) => publish now
+ * - otherwise => schedule
+ */
+export function parsePbv2PublishEffectiveFrom(
+  value: unknown,
+  now: Date
+): { mode: "now"; effectiveFrom: Date } | { mode: "scheduled"; effectiveFrom: Date } {
+  if (value === undefined || value === null || value === "") return { mode: "now", effectiveFrom: now };
+
+  const t = typeof value === "string" || value instanceof Date ? toTime(value as any) : null;
+  if (t === null) {
+    const err: any = new Error("effectiveFrom must be an ISO date-time");
+    err.statusCode = 400;
+    throw err;
+  }
+
+  if (t - now.getTime() <= PBV2_SCHEDULE_MIN_LEAD_MS) return { mode: "now", effectiveFrom: now };
+  return { mode: "scheduled", effectiveFrom: new Date(t) };
+}
+
+/**
+ * Relevant pricing time from request fields: explicit `pricingAt` wins, then the parent document's date.
+ */
+export function resolvePbv2PricingAt(args: { pricingAt?: unknown; documentCreatedAt?: Date | string | null }): Date | null {
+  const explicit = typeof args.pricingAt === "string" || args.pricingAt instanceof Date ? toTime(args.pricingAt as any) : null;
+  if (explicit !== null) return new Date(explicit);
+  const doc = toTime(args.documentCreatedAt ?? null);
+  return doc !== null ? new Date(doc) : null;
+}
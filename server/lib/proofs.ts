@@ -0,0 +1,43 @@
+import crypto from "crypto";
+import type { ProofVersion } from "@shared/schema";
+
+/**
+ * Customer proof approval: review tokens and the production gate.
+ *
+ * The customer reviews a proof through a tokenized link; only the token's hash is stored.
+ * Production jobs for a line item stay gated until its latest proof version is approved.
+ * Persistence and email live in server/services/proofs.
+ */
+
+const APP_URL = (process.env.PUBLIC_APP_URL || "https://www.printershero.com").replace(/\/+$/, "");
+
+export type ProofGate = {
+  open: boolean;
+  reason: string | null;
+  latestVersion: number | null;
+  latestStatus: ProofVersion["status"] | null;
+};
+
+export function hashProofToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function buildProofReviewUrl(token: string): string {
+  return `${APP_URL}/proof/${token}`;
+}
+
+/**
+ * Whether production may start for a line item given its latest proof version.
+ * Lines that were never proofed are open; otherwise the latest version must be approved.
+ */
+export function evaluateProofGate(latest: Pick<ProofVersion, "version" | "status"> | null): ProofGate {
+  if (!latest) return { open: true, reason: null, latestVersion: null, latestStatus: null };
+  if (latest.status === "approved") {
+    return { open: true, reason: null, latestVersion: latest.version, latestStatus: latest.status };
+  }
+  const reason =
+    latest.status === "changes_requested"
+      ? `Customer requested changes on proof v${latest.version}; send a new proof first`
+      : `Proof v${latest.version} is awaiting customer approval`;
+  return { open: false, reason, latestVersion: latest.version, latestStatus: latest.status };
+}
@@ -0,0 +1,23 @@
+import type { NextFunction, Request, Response } from "express";
+
+/**
+ * Role gates for staff-only routes. Run after isAuthenticated (and tenantContext); customer
+ * portal users and anyone without a role get 403.
+ */
+
+export const INTERNAL_ROLES = ["owner", "admin", "manager", "employee"];
+export const MANAGER_ROLES = ["owner", "admin", "manager"];
+
+export function requireInternalUser(req: Request, res: Response, next: NextFunction) {
+  if (!INTERNAL_ROLES.includes((req.user as any)?.role)) {
+    return res.status(403).json({ success: false, message: "Staff access required" });
+  }
+  next();
+}
+
+export function requireManager(req: Request, res: Response, next: NextFunction) {
+  if (!MANAGER_ROLES.includes((req.user as any)?.role)) {
+    return res.status(403).json({ success: false, message: "Manager, Admin, or Owner role required" });
+  }
+  next();
+}
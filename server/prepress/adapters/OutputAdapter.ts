@@ -1,4 +1,4 @@
-import { writeFile, getJobPaths } from "../storage";
+import { writeFile, getJobPaths, getPagePreviewPath } from "../storage";
 
 /**
  * Output Adapter Interface
@@ -11,14 +11,15 @@ export interface OutputAdapter {
   /**
    * Store output file for a job
    * @param jobId - Job identifier
-   * @param kind - Output type (proof_png, fixed_pdf, report_json)
+   * @param kind - Output type (proof_png, heatmap_png, cut_svg, cut_dxf, page_png, fixed_pdf, report_json, report_v2_json)
    * @param buffer - File content as Buffer
+   * @param options.page - Page number, required for page_png
    * @throws Error if output cannot be stored
    */
-  storeOutput(jobId: string, kind: OutputKind, buffer: Buffer): Promise<void>;
+  storeOutput(jobId: string, kind: OutputKind, buffer: Buffer, options?: { page?: number }): Promise<void>;
 }
 
-export type OutputKind = 'proof_png' | 'fixed_pdf' | 'report_json';
+export type OutputKind = 'proof_png' | 'heatmap_png' | 'cut_svg' | 'cut_dxf' | 'page_png' | 'fixed_pdf' | 'report_json' | 'report_v2_json';
 
 /**
  * Local Output Adapter
@@ -29,7 +30,7 @@ export type OutputKind = 'proof_png' | 'fixed_pdf' | 'report_json';
  * Files are retained until expiresAt, then deleted by TTL cleanup.
  */
 export class LocalOutputAdapter implements OutputAdapter {
-  async storeOutput(jobId: string, kind: OutputKind, buffer: Buffer): Promise<void> {
+  async storeOutput(jobId: string, kind: OutputKind, buffer: Buffer, options: { page?: number } = {}): Promise<void> {
     const paths = getJobPaths(jobId);
     
     let targetPath: string;
@@ -37,12 +38,28 @@ export class LocalOutputAdapter implements OutputAdapter {
       case 'proof_png':
         targetPath = paths.proofPng;
         break;
+      case 'heatmap_png':
+        targetPath = paths.heatmapPng;
+        break;
+      case 'cut_svg':
+        targetPath = paths.cutSvg;
+        break;
+      case 'cut_dxf':
+        targetPath = paths.cutDxf;
+        break;
       case 'fixed_pdf':
         targetPath = paths.fixedPdf;
         break;
       case 'report_json':
         targetPath = paths.reportJson;
         break;
+      case 'report_v2_json':
+        targetPath = paths.reportV2Json;
+        break;
+      case 'page_png':
+        if (!options.page) throw new Error('page_png output requires a page number');
+        targetPath = getPagePreviewPath(jobId, options.page);
+        break;
       default:
         throw new Error(`Unknown output kind: ${kind}`);
     }
@@ -58,7 +75,7 @@ export class LocalOutputAdapter implements OutputAdapter {
  * Not implemented yet - placeholder for future integration.
  */
 export class SignedUrlOutputAdapter implements OutputAdapter {
-  async storeOutput(jobId: string, kind: OutputKind, buffer: Buffer): Promise<void> {
+  async storeOutput(jobId: string, kind: OutputKind, buffer: Buffer, options?: { page?: number }): Promise<void> {
     // Future implementation:
     // 1. Look up signed PUT URL for this output kind from job metadata
     // 2. Upload via HTTP PUT
@@ -0,0 +1,132 @@
+import { db } from "../db";
+import {
+  orderAttachments,
+  type AttachmentPrepressStatus,
+  type AttachmentPrepressSummary,
+  type OrderAttachment,
+} from "@shared/schema";
+import { prepressJobs } from "./schema";
+import { and, eq, isNotNull } from "drizzle-orm";
+import { initializeJobDirectory, writeFile, getJobPaths } from "./storage";
+import { downloadOriginalFile } from "../services/thumbnailGenerator";
+
+/**
+ * Line Item Artwork Preflight
+ *
+ * Artwork attached to an order line item is queued as a prepress job (check mode,
+ * linked to the line item so it is verified against the ordered size). When the
+ * job finishes its status and summary are copied onto the attachment, which keeps
+ * the badge after the job itself expires.
+ */
+
+const JOB_TTL_HOURS = parseInt(process.env.PREPRESS_JOB_TTL_HOURS || '12');
+
+const PREFLIGHT_EXTENSIONS = ['.pdf', '.jpg', '.jpeg', '.png', '.tif', '.tiff', '.ai', '.psd'];
+const PREFLIGHT_ROLES = ['artwork', 'other'];
+
+type PreflightCandidate = Pick<OrderAttachment, 'orderLineItemId' | 'fileName' | 'originalFilename' | 'role'>;
+
+/**
+ * Whether an attachment should be preflighted: line item artwork in a format the pipeline accepts.
+ * Proofs, POs and other reference files are left alone.
+ */
+export function isPreflightableAttachment(attachment: PreflightCandidate): boolean {
+  if (!attachment.orderLineItemId) return false;
+  if (!PREFLIGHT_ROLES.includes(attachment.role ?? 'other')) return false;
+  const name = (attachment.originalFilename || attachment.fileName || '').toLowerCase();
+  return PREFLIGHT_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+/**
+ * Number of attachments whose last preflight found blockers
+ */
+export function countAttachmentsWithBlockers(
+  attachments: Array<Pick<OrderAttachment, 'prepressStatus' | 'prepressSummary'>>
+): number {
+  return attachments.filter(
+    (a) => a.prepressStatus === 'succeeded' && (a.prepressSummary?.counts?.BLOCKER ?? 0) > 0
+  ).length;
+}
+
+async function setAttachmentPrepress(
+  attachmentId: string,
+  values: { prepressJobId?: string | null; prepressStatus: AttachmentPrepressStatus; prepressSummary?: AttachmentPrepressSummary | null }
+): Promise<void> {
+  await db
+    .update(orderAttachments)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(orderAttachments.id, attachmentId));
+}
+
+/**
+ * Queue a prepress job for a newly attached line item file
+ *
+ * Fail-soft: errors are logged and recorded on the attachment, never thrown,
+ * so an upload is never rejected because preflight could not start.
+ *
+ * @returns Prepress job ID, or null when the file is not preflighted
+ */
+export async function queueAttachmentPreflight(
+  organizationId: string,
+  attachment: OrderAttachment
+): Promise<string | null> {
+  if (!isPreflightableAttachment(attachment)) return null;
+
+  try {
+    const fileKey = attachment.relativePath || attachment.fileUrl;
+    const buffer = await downloadOriginalFile(fileKey, attachment.storageProvider || 'local');
+    if (!buffer || buffer.length === 0) {
+      console.warn(`[Prepress Attachments] Could not read attachment ${attachment.id} for preflight`);
+      await setAttachmentPrepress(attachment.id, { prepressStatus: 'failed', prepressSummary: null });
+      return null;
+    }
+
+    const [job] = await db.insert(prepressJobs).values({
+      organizationId,
+      status: 'queued',
+      mode: 'check',
+      originalFilename: attachment.originalFilename || attachment.fileName,
+      contentType: attachment.mimeType || 'application/octet-stream',
+      sizeBytes: buffer.length,
+      expiresAt: new Date(Date.now() + JOB_TTL_HOURS * 60 * 60 * 1000),
+      orderLineItemId: attachment.orderLineItemId,
+    }).returning();
+
+    await initializeJobDirectory(job.id);
+    await writeFile(getJobPaths(job.id).inputFile, buffer);
+
+    await setAttachmentPrepress(attachment.id, { prepressJobId: job.id, prepressStatus: 'queued', prepressSummary: null });
+
+    console.log(`[Prepress Attachments] Queued job ${job.id} for attachment ${attachment.id}`);
+    return job.id;
+  } catch (error) {
+    console.error(`[Prepress Attachments] Failed to queue preflight for attachment ${attachment.id}:`, error);
+    await setAttachmentPrepress(attachment.id, { prepressStatus: 'failed', prepressSummary: null }).catch(() => {});
+    return null;
+  }
+}
+
+/**
+ * Copy a finished job's outcome onto the attachment it was queued for (no-op for standalone jobs)
+ */
+export async function syncAttachmentPreflight(
+  jobId: string,
+  status: Exclude<AttachmentPrepressStatus, 'queued'>,
+  summary: AttachmentPrepressSummary | null
+): Promise<void> {
+  await db
+    .update(orderAttachments)
+    .set({ prepressStatus: status, prepressSummary: summary, updatedAt: new Date() })
+    .where(eq(orderAttachments.prepressJobId, jobId));
+}
+
+/**
+ * Number of line item artwork files on an order whose preflight found blockers
+ */
+export async function countOrderPreflightBlockers(orderId: string): Promise<number> {
+  const rows = await db
+    .select({ prepressStatus: orderAttachments.prepressStatus, prepressSummary: orderAttachments.prepressSummary })
+    .from(orderAttachments)
+    .where(and(eq(orderAttachments.orderId, orderId), isNotNull(orderAttachments.prepressJobId)));
+  return countAttachmentsWithBlockers(rows);
+}
@@ -0,0 +1,400 @@
+import { PREPRESS_FIX_KEYS, type InsertPrepressFixLog, type PrepressFixKey, type PrepressJob } from "./schema";
+import type {
+  AppliedPreflightProfile,
+  IssueCounts,
+  PageBoxes,
+  PdfRect,
+  PreflightSizeProfile,
+  PrepressAnalysis,
+  PrepressFixResult,
+  PrepressFixStep,
+  PrepressIssue,
+  ToolAvailability,
+} from "./types";
+import { runQPDF } from "./toolchain/qpdf";
+import { runPDFFonts, runPDFImages } from "./toolchain/pdfinfo";
+import {
+  normalizeViaGhostscript,
+  convertToCmykViaGhostscript,
+  flattenTransparencyViaGhostscript,
+  embedFontsViaGhostscript,
+  outlineFontsViaGhostscript,
+  measureContentBoxes,
+} from "./toolchain/ghostscript";
+import { analyzeSeparations } from "./toolchain/separations";
+import { readPageBoxes } from "./toolchain/pageBoxes";
+import { analyzeColorUsage } from "./toolchain/colorAnalysis";
+import { extractCutContour } from "./toolchain/cutContour";
+import { addBleed, rotateToOrientation, scaleToTrim } from "./toolchain/pageGeometry";
+import { checkPageSizes, resolveTrim } from "./sizeChecks";
+import { applyFontPolicy, checkProfileRules, computeProfileScore } from "./profileChecks";
+import { logFix } from "./findings-service";
+
+/**
+ * Prepress Auto-Fix Catalog
+ *
+ * Discrete fixes a check_and_fix job can request. Fixes run in catalog order
+ * on the output of the previous one; each is re-checked so the report shows
+ * the score before and after every step.
+ */
+
+const PT_PER_IN = 72;
+
+export interface PrepressFixDefinition {
+  label: string;
+  description: string;
+  fixType: InsertPrepressFixLog['fixType'];
+  requiresGhostscript: boolean;
+}
+
+export const PREPRESS_FIX_CATALOG: Record<PrepressFixKey, PrepressFixDefinition> = {
+  rotate_to_orientation: {
+    label: 'Rotate to orientation',
+    description: 'Rotated pages to match the ordered orientation',
+    fixType: 'rotate_pages',
+    requiresGhostscript: false,
+  },
+  scale_to_trim: {
+    label: 'Scale to trim',
+    description: 'Scaled page content proportionally to the ordered trim size',
+    fixType: 'scale_to_trim',
+    requiresGhostscript: false,
+  },
+  add_bleed_mirror: {
+    label: 'Add bleed (mirrored)',
+    description: 'Added bleed by mirroring the content along the trim edges',
+    fixType: 'add_bleed',
+    requiresGhostscript: false,
+  },
+  add_bleed_stretch: {
+    label: 'Add bleed (stretched)',
+    description: 'Added bleed by stretching the outermost edge of the artwork',
+    fixType: 'add_bleed',
+    requiresGhostscript: false,
+  },
+  rgb_to_cmyk: {
+    label: 'Convert RGB to CMYK',
+    description: 'Converted RGB color to CMYK',
+    fixType: 'rgb_to_cmyk',
+    requiresGhostscript: true,
+  },
+  flatten_transparency: {
+    label: 'Flatten transparency',
+    description: 'Flattened live transparency (PDF 1.3 output)',
+    fixType: 'flatten_transparency',
+    requiresGhostscript: true,
+  },
+  embed_fonts: {
+    label: 'Embed fonts',
+    description: 'Embedded and subset all resolvable fonts',
+    fixType: 'embed_fonts',
+    requiresGhostscript: true,
+  },
+  outline_fonts: {
+    label: 'Outline fonts',
+    description: 'Converted text to outlines',
+    fixType: 'outline_fonts',
+    requiresGhostscript: true,
+  },
+  normalize_via_ghostscript: {
+    label: 'Normalize PDF',
+    description: 'Normalized PDF via Ghostscript with /prepress settings',
+    fixType: 'pdf_normalize',
+    requiresGhostscript: true,
+  },
+};
+
+/**
+ * Requested fixes in catalog order. Nothing requested keeps the original
+ * check_and_fix behaviour (one Ghostscript normalize pass).
+ */
+export function orderRequestedFixes(requested: readonly PrepressFixKey[] | null | undefined): PrepressFixKey[] {
+  if (!requested || requested.length === 0) return ['normalize_via_ghostscript'];
+  return PREPRESS_FIX_KEYS.filter((key) => requested.includes(key));
+}
+
+/**
+ * Parse the multipart `fixes` field (comma-separated catalog keys)
+ */
+export function parseRequestedFixes(raw: string | undefined): { fixes: PrepressFixKey[] | null; error?: string } {
+  const keys = (raw ?? '').split(',').map((key) => key.trim()).filter(Boolean);
+  if (keys.length === 0) return { fixes: null };
+
+  const unknown = keys.filter((key) => !(PREPRESS_FIX_KEYS as readonly string[]).includes(key));
+  if (unknown.length > 0) return { fixes: null, error: `Unknown fix: ${unknown.join(', ')}` };
+
+  const fixes = orderRequestedFixes(keys as PrepressFixKey[]);
+  if (fixes.includes('add_bleed_mirror') && fixes.includes('add_bleed_stretch')) {
+    return { fixes: null, error: 'Choose either mirrored or stretched bleed, not both' };
+  }
+  return { fixes };
+}
+
+/**
+ * What a fix needs to know about the file it is about to change
+ */
+export interface FixState {
+  issues: PrepressIssue[];
+  fontsEmbedded: PrepressAnalysis['fontsEmbedded'];
+  colorSpace: PrepressAnalysis['colorSpace'];
+  pageBoxes: PageBoxes[];
+}
+
+/**
+ * Trim rects for pages that have an issue with the given code (null for the rest)
+ */
+function trimsForIssue(state: FixState, sizeProfile: PreflightSizeProfile, code: string): Array<PdfRect | null> {
+  const pages = new Set(state.issues.filter((issue) => issue.code === code).map((issue) => issue.page));
+  return state.pageBoxes.map((page) => (pages.has(page.page) ? resolveTrim(page, sizeProfile).rect : null));
+}
+
+/**
+ * Why a fix would do nothing to this file, or null when it should run
+ */
+export function fixSkipReason(
+  key: PrepressFixKey,
+  state: FixState,
+  sizeProfile: PreflightSizeProfile | null
+): string | null {
+  switch (key) {
+    case 'rotate_to_orientation':
+      if (!sizeProfile) return 'No ordered size to orient to';
+      if (sizeProfile.trimWidthIn === sizeProfile.trimHeightIn) return 'Ordered size is square';
+      return null;
+    case 'scale_to_trim':
+      if (!sizeProfile) return 'No ordered size to scale to';
+      if (!state.issues.some((issue) => issue.code === 'SIZE_MISMATCH')) return 'Pages already match the ordered size';
+      return null;
+    case 'add_bleed_mirror':
+    case 'add_bleed_stretch':
+      if (!sizeProfile || sizeProfile.bleedIn <= 0) return 'No bleed required for this item';
+      if (!state.issues.some((issue) => issue.code === 'MISSING_BLEED')) return 'Bleed already present';
+      return null;
+    case 'rgb_to_cmyk':
+      if (state.colorSpace !== 'not_analyzed' && !state.colorSpace.hasRGB) return 'No RGB color found';
+      return null;
+    case 'embed_fonts':
+    case 'outline_fonts':
+      if (state.fontsEmbedded === true) return 'All fonts are already embedded';
+      return null;
+    default:
+      return null;
+  }
+}
+
+interface AutoFixContext {
+  job: PrepressJob;
+  profile: AppliedPreflightProfile;
+  sizeProfile: PreflightSizeProfile | null;
+  toolAvailability: ToolAvailability;
+}
+
+function countIssues(issues: PrepressIssue[]): IssueCounts {
+  const counts: IssueCounts = { BLOCKER: 0, WARNING: 0, INFO: 0 };
+  for (const issue of issues) counts[issue.severity]++;
+  return counts;
+}
+
+/**
+ * Re-run the checks a fix can change (structure, fonts, color, profile rules, size)
+ */
+async function recheck(pdfBuffer: Buffer, ctx: AutoFixContext): Promise<FixState> {
+  const { toolAvailability: tools, profile, sizeProfile } = ctx;
+  const rules = profile.rules;
+  const issues: PrepressIssue[] = [];
+  let fontsEmbedded: FixState['fontsEmbedded'] = 'unknown';
+
+  if (tools.qpdf) {
+    issues.push(...(await runQPDF(pdfBuffer)).issues);
+  }
+
+  if (tools.pdffonts) {
+    const fonts = await runPDFFonts(pdfBuffer);
+    fontsEmbedded = fonts.allEmbedded;
+    issues.push(...applyFontPolicy(fonts.issues, rules));
+  }
+
+  const boxes = await readPageBoxes(pdfBuffer);
+  issues.push(...boxes.issues);
+  if (sizeProfile) {
+    if (sizeProfile.safeZoneIn > 0 && tools.ghostscript) {
+      try {
+        const contentBoxes = await measureContentBoxes(pdfBuffer);
+        boxes.pages.forEach((page, index) => {
+          page.contentBox = contentBoxes[index] ?? undefined;
+        });
+      } catch {
+        // Safe zone is re-checked only when bounds can be measured
+      }
+    }
+    issues.push(...checkPageSizes(boxes.pages, sizeProfile));
+  }
+
+  const images = tools.pdfimages ? await runPDFImages(pdfBuffer) : null;
+  const colorUsage = await analyzeColorUsage(pdfBuffer);
+  // Separations only when a TAC limit applies (unmeasured = rule skipped for this step)
+  const separations = rules.maxInkCoveragePercent != null && tools.ghostscript
+    ? (await analyzeSeparations(pdfBuffer, { limitPercent: rules.maxInkCoveragePercent })).separations ?? undefined
+    : undefined;
+  const cutContour = await extractCutContour(pdfBuffer);
+
+  issues.push(...checkProfileRules(rules, {
+    pageCount: boxes.pages.length,
+    images: images ? images.images : 'not_analyzed',
+    colorSpace: colorUsage.colorSpace,
+    maxInkCoveragePercent: separations?.maxTacPercent,
+    separations,
+    cutContour: cutContour.cutContour ?? undefined,
+  }));
+
+  return { issues, fontsEmbedded, colorSpace: colorUsage.colorSpace, pageBoxes: boxes.pages };
+}
+
+/**
+ * Apply one fix. Returns the new PDF and a note on what changed, or a skip reason.
+ */
+async function applyFix(
+  key: PrepressFixKey,
+  pdfBuffer: Buffer,
+  state: FixState,
+  ctx: AutoFixContext
+): Promise<{ buffer: Buffer; note: string } | { skipped: string }> {
+  const sizeProfile = ctx.sizeProfile;
+  const pagesNote = (pages: number[]) => `page${pages.length === 1 ? '' : 's'} ${pages.join(', ')}`;
+
+  switch (key) {
+    case 'rotate_to_orientation': {
+      const landscape = sizeProfile!.trimWidthIn > sizeProfile!.trimHeightIn;
+      const result = await rotateToOrientation(pdfBuffer, landscape);
+      if (result.changedPages.length === 0) return { skipped: 'Pages already match the ordered orientation' };
+      return { buffer: result.buffer, note: `Rotated ${pagesNote(result.changedPages)}` };
+    }
+    case 'scale_to_trim': {
+      const result = await scaleToTrim(pdfBuffer, trimsForIssue(state, sizeProfile!, 'SIZE_MISMATCH'), {
+        widthPt: sizeProfile!.trimWidthIn * PT_PER_IN,
+        heightPt: sizeProfile!.trimHeightIn * PT_PER_IN,
+      });
+      if (result.changedPages.length === 0) return { skipped: 'No pages to scale' };
+      return {
+        buffer: result.buffer,
+        note: `Scaled ${pagesNote(result.changedPages)} to ${sizeProfile!.trimWidthIn}" × ${sizeProfile!.trimHeightIn}"`,
+      };
+    }
+    case 'add_bleed_mirror':
+    case 'add_bleed_stretch': {
+      const mode = key === 'add_bleed_mirror' ? 'mirror' : 'stretch';
+      const bleedPt = sizeProfile!.bleedIn * PT_PER_IN;
+      const result = await addBleed(pdfBuffer, trimsForIssue(state, sizeProfile!, 'MISSING_BLEED'), bleedPt, mode);
+      if (result.changedPages.length === 0) return { skipped: 'No pages need bleed' };
+      return { buffer: result.buffer, note: `Added ${sizeProfile!.bleedIn}" ${mode}ed bleed on ${pagesNote(result.changedPages)}` };
+    }
+    case 'rgb_to_cmyk': {
+      const iccProfilePath = process.env.PREPRESS_CMYK_ICC_PROFILE || null;
+      const buffer = await convertToCmykViaGhostscript(pdfBuffer, { iccProfilePath });
+      return { buffer, note: iccProfilePath ? `Converted with ICC profile ${iccProfilePath}` : 'Converted with the default CMYK profile' };
+    }
+    case 'flatten_transparency':
+      return { buffer: await flattenTransparencyViaGhostscript(pdfBuffer), note: 'Transparency flattened' };
+    case 'embed_fonts':
+      return { buffer: await embedFontsViaGhostscript(pdfBuffer), note: 'Fonts embedded where available' };
+    case 'outline_fonts':
+      return { buffer: await outlineFontsViaGhostscript(pdfBuffer), note: 'Text converted to outlines' };
+    case 'normalize_via_ghostscript':
+      return { buffer: await normalizeViaGhostscript(pdfBuffer), note: 'Normalized with /prepress settings' };
+  }
+}
+
+/**
+ * Run the requested fixes on a PDF
+ *
+ * @returns Fixed PDF (null when nothing was applied), the fix result for the
+ *          report (before = the full preflight score), and issues to add to the report
+ */
+export async function runAutoFixes(
+  pdfBuffer: Buffer,
+  before: PrepressFixResult['before'],
+  ctx: AutoFixContext
+): Promise<{ fixedPdf: Buffer | null; fix: PrepressFixResult; issues: PrepressIssue[] }> {
+  const { job, profile, toolAvailability } = ctx;
+  const organizationId = job.organizationId || 'standalone';
+  const scoring = profile.rules.scoring;
+  const score = (state: FixState) => {
+    const counts = countIssues(state.issues);
+    return { score: computeProfileScore(counts, scoring), counts };
+  };
+
+  const issues: PrepressIssue[] = [];
+  const steps: PrepressFixStep[] = [];
+  const applied: string[] = [];
+  let current = pdfBuffer;
+  let state = await recheck(current, ctx);
+
+  for (const key of orderRequestedFixes(job.requestedFixes)) {
+    const definition = PREPRESS_FIX_CATALOG[key];
+
+    if (definition.requiresGhostscript && !toolAvailability.ghostscript) {
+      steps.push({ fix: key, status: 'skipped', note: 'Ghostscript is not available' });
+      continue;
+    }
+
+    const skipReason = fixSkipReason(key, state, ctx.sizeProfile);
+    if (skipReason) {
+      steps.push({ fix: key, status: 'skipped', note: skipReason });
+      continue;
+    }
+
+    const stepBefore = score(state);
+    try {
+      const outcome = await applyFix(key, current, state, ctx);
+      if ('skipped' in outcome) {
+        steps.push({ fix: key, status: 'skipped', note: outcome.skipped });
+        continue;
+      }
+
+      current = outcome.buffer;
+      state = await recheck(current, ctx);
+      const stepAfter = score(state);
+      applied.push(key);
+      steps.push({ fix: key, status: 'applied', note: outcome.note, before: stepBefore, after: stepAfter });
+
+      try {
+        await logFix(job.id, organizationId, {
+          fixType: definition.fixType,
+          description: `${definition.description}. ${outcome.note}`,
+          fixedByUserId: null, // Automated fix
+          beforeSnapshot: { fix: key, ...stepBefore },
+          afterSnapshot: { fix: key, ...stepAfter },
+        });
+      } catch (error: any) {
+        console.error(`[Prepress AutoFix] Failed to log fix ${key}:`, error);
+        // Fail soft
+      }
+
+      console.log(`[Prepress AutoFix] ${key} applied to job ${job.id}. Score: ${stepBefore.score} → ${stepAfter.score}`);
+
+    } catch (error: any) {
+      steps.push({ fix: key, status: 'failed', note: error.message, before: stepBefore });
+      issues.push({
+        severity: 'WARNING',
+        code: 'AUTO_FIX_FAILED',
+        message: `Auto-fix '${definition.label}' failed: ${error.message}`,
+        meta: { fix: key },
+      });
+    }
+  }
+
+  if (applied.length === 0 && steps.some((step) => step.note === 'Ghostscript is not available')) {
+    issues.push({
+      severity: 'WARNING',
+      code: 'AUTO_FIX_UNAVAILABLE',
+      message: 'Auto-fix requested but Ghostscript is not available',
+    });
+  }
+
+  return {
+    fixedPdf: applied.length > 0 ? current : null,
+    fix: { before, after: score(state), applied, steps },
+    issues,
+  };
+}
+
@@ -1,6 +1,9 @@
 import { db } from "../db";
 import { prepressFindings, prepressFixLogs, type InsertPrepressFinding, type InsertPrepressFixLog } from "./schema";
 import { eq, and } from "drizzle-orm";
+import { isOperationalSpotColor } from "./spotColors";
+
+export { isOperationalSpotColor };
 
 /**
  * Prepress Findings and Fix Logs Service
@@ -90,24 +93,8 @@ export async function logMissingDpi(
 /**
  * Helper: Log spot color detection
  * 
- * Excludes operational spot colors:
- * - CutContour
- * - SpotWhite
- * - White
- * - (add more as needed)
+ * Excludes operational spot colors (see ./spotColors)
  */
-const OPERATIONAL_SPOT_COLORS = [
-  'cutcontour',
-  'spotwhite',
-  'white',
-  'cut',
-  'dieline',
-];
-
-export function isOperationalSpotColor(colorName: string): boolean {
-  return OPERATIONAL_SPOT_COLORS.includes(colorName.toLowerCase().trim());
-}
-
 export async function logSpotColor(
   jobId: string,
   organizationId: string,
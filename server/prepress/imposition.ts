@@ -0,0 +1,259 @@
+import { PDFDocument, StandardFonts, cmyk, degrees, type PDFEmbeddedPage, type PDFFont, type PDFPage } from "pdf-lib";
+import type { ImpositionBleed, ImpositionPlan, ImpositionSlot } from "@shared/imposition";
+import { normalizeFile } from "./toolchain/normalizer";
+import { rewriteViaQPDF } from "./toolchain/qpdf";
+
+/**
+ * Imposition Renderer
+ *
+ * Places artwork pages on press sheets following a shared `ImpositionPlan`. Each piece is the
+ * page's TrimBox plus whatever bleed the plan allows on that side (clipped to the MediaBox when
+ * the artwork carries less). Crop marks sit outside the grid on every cut line, in registration
+ * colour; a slug line identifies order, line item, customer and sheet.
+ *
+ * Duplex artwork is read as front/back page pairs. Backs are laid out work-and-turn: mirrored
+ * left to right, with rotated pieces turned the other way so fronts and backs back up.
+ */
+
+const PT_PER_IN = 72;
+const MARK_OFFSET_IN = 1 / 16;
+const MARK_LENGTH_IN = 0.25;
+const MARK_THICKNESS_PT = 0.25;
+const SLUG_SIZE_PT = 6;
+const SLUG_INSET_IN = 0.1;
+
+const REGISTRATION = cmyk(1, 1, 1, 1);
+const BLACK = cmyk(0, 0, 0, 1);
+
+export interface ImpositionArtworkInfo {
+  pageCount: number;
+  /** TrimBox of the first page, inches. */
+  trimWidthIn: number;
+  trimHeightIn: number;
+  /** 1-based pages whose trim differs from the first page. */
+  mismatchedPages: number[];
+}
+
+export interface ImpositionSlug {
+  orderNumber: string;
+  lineItem: string;
+  customer: string;
+}
+
+type Rotation = 0 | 90 | 270;
+
+type PtRect = { left: number; bottom: number; right: number; top: number };
+
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+/**
+ * Artwork as a PDF pdf-lib can embed: rasters and AI/PSD go through the normalizer;
+ * encrypted or damaged PDFs are rewritten by qpdf.
+ */
+export async function prepareArtworkPdf(buffer: Buffer, mimeType: string, fileName: string): Promise<Buffer> {
+  const normalized = await normalizeFile(buffer, mimeType, fileName);
+  if (!normalized.normalizedBuffer) {
+    throw new Error(normalized.issues[0]?.message || `Cannot convert ${fileName} to PDF`);
+  }
+
+  let pdf = normalized.normalizedBuffer;
+  const needsRewrite = await PDFDocument.load(pdf, { ignoreEncryption: true, updateMetadata: false })
+    .then((doc) => doc.isEncrypted)
+    .catch(() => true);
+  if (needsRewrite) pdf = await rewriteViaQPDF(pdf);
+  return pdf;
+}
+
+export async function readArtworkInfo(pdfBuffer: Buffer): Promise<ImpositionArtworkInfo> {
+  const doc = await PDFDocument.load(pdfBuffer, { updateMetadata: false });
+  const pages = doc.getPages();
+  if (pages.length === 0) throw new Error("Artwork PDF has no pages");
+
+  const sizes = pages.map((page) => {
+    const trim = page.getTrimBox();
+    return { w: trim.width / PT_PER_IN, h: trim.height / PT_PER_IN };
+  });
+  const [first] = sizes;
+  const mismatchedPages = sizes
+    .map((size, index) => (Math.abs(size.w - first.w) > 0.01 || Math.abs(size.h - first.h) > 0.01 ? index + 1 : 0))
+    .filter(Boolean);
+
+  return {
+    pageCount: pages.length,
+    trimWidthIn: Math.round(first.w * 1000) / 1000,
+    trimHeightIn: Math.round(first.h * 1000) / 1000,
+    mismatchedPages,
+  };
+}
+
+/** Sheet-side bleed expressed on the artwork's own sides for a given rotation. */
+function sourceBleed(bleed: ImpositionBleed, rotation: Rotation): ImpositionBleed {
+  if (rotation === 90) return { top: bleed.left, bottom: bleed.right, left: bleed.bottom, right: bleed.top };
+  if (rotation === 270) return { top: bleed.right, bottom: bleed.left, left: bleed.top, right: bleed.bottom };
+  return bleed;
+}
+
+/** Slot as seen from the back of a work-and-turn sheet. */
+function mirrorSlot(slot: ImpositionSlot, sheetWidthIn: number): ImpositionSlot {
+  return {
+    ...slot,
+    x: sheetWidthIn - slot.x - slot.width,
+    bleed: { ...slot.bleed, left: slot.bleed.right, right: slot.bleed.left },
+  };
+}
+
+class PieceEmbedder {
+  private cache = new Map<string, { embedded: PDFEmbeddedPage; left: number; bottom: number }>();
+
+  constructor(
+    private readonly target: PDFDocument,
+    private readonly sourcePages: PDFPage[],
+  ) {}
+
+  /** Embedded XObject for a page clipped to trim + bleed, with how much bleed survived. */
+  async get(pageIndex: number, bleedIn: ImpositionBleed) {
+    const key = `${pageIndex}:${bleedIn.left}:${bleedIn.right}:${bleedIn.top}:${bleedIn.bottom}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const page = this.sourcePages[pageIndex];
+    const trim = page.getTrimBox();
+    const media = page.getMediaBox();
+    const box = {
+      left: Math.max(media.x, trim.x - bleedIn.left * PT_PER_IN),
+      bottom: Math.max(media.y, trim.y - bleedIn.bottom * PT_PER_IN),
+      right: Math.min(media.x + media.width, trim.x + trim.width + bleedIn.right * PT_PER_IN),
+      top: Math.min(media.y + media.height, trim.y + trim.height + bleedIn.top * PT_PER_IN),
+    };
+    const entry = {
+      embedded: await this.target.embedPage(page, box),
+      left: trim.x - box.left,
+      bottom: trim.y - box.bottom,
+    };
+    this.cache.set(key, entry);
+    return entry;
+  }
+}
+
+async function drawPiece(
+  sheet: PDFPage,
+  embedder: PieceEmbedder,
+  pageIndex: number,
+  trim: PtRect,
+  bleed: ImpositionBleed,
+  rotation: Rotation,
+) {
+  const { embedded, left, bottom } = await embedder.get(pageIndex, sourceBleed(bleed, rotation));
+  if (rotation === 90) {
+    sheet.drawPage(embedded, { x: trim.right + bottom, y: trim.bottom - left, rotate: degrees(90) });
+  } else if (rotation === 270) {
+    sheet.drawPage(embedded, { x: trim.left - bottom, y: trim.top + left, rotate: degrees(-90) });
+  } else {
+    sheet.drawPage(embedded, { x: trim.left - left, y: trim.bottom - bottom });
+  }
+}
+
+function drawCropMarks(sheet: PDFPage, plan: ImpositionPlan) {
+  const { sheetWidthIn: w, sheetHeightIn: h, bleedIn, slots } = plan;
+  const gridLeft = Math.min(...slots.map((s) => s.x));
+  const gridRight = Math.max(...slots.map((s) => s.x + s.width));
+  const gridTop = Math.min(...slots.map((s) => s.y));
+  const gridBottom = Math.max(...slots.map((s) => s.y + s.height));
+  const cutsX = Array.from(new Set(slots.flatMap((s) => [s.x, s.x + s.width].map((v) => v.toFixed(3))))).map(Number);
+  const cutsY = Array.from(new Set(slots.flatMap((s) => [s.y, s.y + s.height].map((v) => v.toFixed(3))))).map(Number);
+  const offset = bleedIn + MARK_OFFSET_IN;
+
+  // Top-left inches → PDF points
+  const line = (x1: number, y1: number, x2: number, y2: number) =>
+    sheet.drawLine({
+      start: { x: x1 * PT_PER_IN, y: (h - y1) * PT_PER_IN },
+      end: { x: x2 * PT_PER_IN, y: (h - y2) * PT_PER_IN },
+      thickness: MARK_THICKNESS_PT,
+      color: REGISTRATION,
+    });
+
+  const topRoom = Math.min(MARK_LENGTH_IN, gridTop - offset);
+  const bottomRoom = Math.min(MARK_LENGTH_IN, h - gridBottom - offset);
+  const leftRoom = Math.min(MARK_LENGTH_IN, gridLeft - offset);
+  const rightRoom = Math.min(MARK_LENGTH_IN, w - gridRight - offset);
+
+  for (const x of cutsX) {
+    if (topRoom > 0) line(x, gridTop - offset, x, gridTop - offset - topRoom);
+    if (bottomRoom > 0) line(x, gridBottom + offset, x, gridBottom + offset + bottomRoom);
+  }
+  for (const y of cutsY) {
+    if (leftRoom > 0) line(gridLeft - offset, y, gridLeft - offset - leftRoom, y);
+    if (rightRoom > 0) line(gridRight + offset, y, gridRight + offset + rightRoom, y);
+  }
+}
+
+function drawSlug(sheet: PDFPage, font: PDFFont, text: string, sheetWidthIn: number) {
+  const maxWidth = (sheetWidthIn - 2 * SLUG_INSET_IN) * PT_PER_IN;
+  let value = toWinAnsi(text);
+  while (value.length > 1 && font.widthOfTextAtSize(value, SLUG_SIZE_PT) > maxWidth) value = value.slice(0, -2);
+  sheet.drawText(value, {
+    x: SLUG_INSET_IN * PT_PER_IN,
+    y: SLUG_INSET_IN * PT_PER_IN,
+    size: SLUG_SIZE_PT,
+    font,
+    color: BLACK,
+  });
+}
+
+const MODE_LABELS: Record<ImpositionPlan["mode"], string> = {
+  step_and_repeat: "step & repeat",
+  n_up: "n-up",
+  cut_and_stack: "cut & stack",
+};
+
+/**
+ * Render every sheet of the plan (front then back when duplex).
+ *
+ * @param artworkPdf - Artwork from `prepareArtworkPdf`
+ * @returns PDF bytes, one page per distinct sheet side
+ */
+export async function renderImpositionPdf(
+  artworkPdf: Buffer,
+  plan: ImpositionPlan,
+  options: { duplex: boolean; slug: ImpositionSlug },
+): Promise<Uint8Array> {
+  const source = await PDFDocument.load(artworkPdf, { updateMetadata: false });
+  const target = await PDFDocument.create();
+  const font = await target.embedFont(StandardFonts.Helvetica);
+  const embedder = new PieceEmbedder(target, source.getPages());
+  const { sheetWidthIn: w, sheetHeightIn: h } = plan;
+  const sides: Array<"front" | "back"> = options.duplex ? ["front", "back"] : ["front"];
+  const slugBase = `Order ${options.slug.orderNumber} | ${options.slug.lineItem} | ${options.slug.customer} | ${MODE_LABELS[plan.mode]} ${plan.columns * plan.rows}-up, ${plan.trimWidthIn} x ${plan.trimHeightIn} in`;
+
+  target.setTitle(toWinAnsi(`Order ${options.slug.orderNumber} imposition`));
+
+  for (const sheet of plan.sheets) {
+    for (const side of sides) {
+      const page = target.addPage([w * PT_PER_IN, h * PT_PER_IN]);
+      const back = side === "back";
+
+      for (const planSlot of plan.slots) {
+        const design = sheet.designs[planSlot.index];
+        if (design === null) continue;
+        const slot = back ? mirrorSlot(planSlot, w) : planSlot;
+        const trim: PtRect = {
+          left: slot.x * PT_PER_IN,
+          right: (slot.x + slot.width) * PT_PER_IN,
+          top: (h - slot.y) * PT_PER_IN,
+          bottom: (h - slot.y - slot.height) * PT_PER_IN,
+        };
+        const pageIndex = options.duplex ? design * 2 + (back ? 1 : 0) : design;
+        const rotation: Rotation = plan.rotated ? (back ? 270 : 90) : 0;
+        await drawPiece(page, embedder, pageIndex, trim, slot.bleed, rotation);
+      }
+
+      drawCropMarks(page, plan);
+      const sideLabel = options.duplex ? ` | ${back ? "Back" : "Front"}` : "";
+      drawSlug(page, font, `${slugBase} | Sheet ${sheet.index + 1} of ${plan.sheets.length}, run x${sheet.copies}${sideLabel}`, w);
+    }
+  }
+
+  return target.save();
+}
@@ -12,13 +12,23 @@ import type {
 import type { PrepressJob } from "./schema";
 import { detectTools, detectToolVersions, logToolAvailability } from "./toolchain/detector";
 import { runQPDF } from "./toolchain/qpdf";
-import { runPDFInfo, runPDFFonts } from "./toolchain/pdfinfo";
-import { normalizeViaGhostscript } from "./toolchain/ghostscript";
+import { runPDFInfo, runPDFFonts, runPDFImages } from "./toolchain/pdfinfo";
+import { measureContentBoxes } from "./toolchain/ghostscript";
+import { analyzeSeparations } from "./toolchain/separations";
+import { readPageBoxes } from "./toolchain/pageBoxes";
+import { analyzeColorUsage } from "./toolchain/colorAnalysis";
+import { cutContourToDxf, cutContourToSvg, extractCutContour } from "./toolchain/cutContour";
 import { renderProof } from "./toolchain/renderer";
 import { normalizeFile, detectFileFormat } from "./toolchain/normalizer";
 import { createInputAdapter } from "./adapters/InputAdapter";
-import { createOutputAdapter } from "./adapters/OutputAdapter";
-import { logMissingDpi, logSpotColor, logFix } from "./findings-service";
+import { createOutputAdapter, type OutputAdapter } from "./adapters/OutputAdapter";
+import { logMissingDpi, logSpotColor } from "./findings-service";
+import { resolveSizeProfile } from "./sizeProfile";
+import { checkPageSizes } from "./sizeChecks";
+import { resolvePreflightProfile } from "./profiles-service";
+import { applyFontPolicy, checkProfileRules, computeProfileScore } from "./profileChecks";
+import { runAutoFixes } from "./autoFix";
+import { buildReportV2 } from "./reportV2";
 
 /**
  * Prepress Pipeline Orchestrator
@@ -27,6 +37,10 @@ import { logMissingDpi, logSpotColor, logFix } from "./findings-service";
  * Fail-soft: missing tools produce warnings, not failures.
  */
 
+// Page previews for the v2 viewer: bounded count and size
+const MAX_PREVIEW_PAGES = 50;
+const PREVIEW_LONG_SIDE_PX = 1000;
+
 /**
  * Create a "tool missing" warning issue
  */
@@ -39,15 +53,6 @@ function toolMissingWarning(toolName: string): PrepressIssue {
   };
 }
 
-/**
- * Compute score from issue counts
- * Score = 100 - (BLOCKER * 10) - (WARNING * 2) - (INFO * 0.5)
- */
-function computeScore(counts: IssueCounts): number {
-  const penalties = (counts.BLOCKER * 10) + (counts.WARNING * 2) + (counts.INFO * 0.5);
-  return Math.max(0, Math.min(100, 100 - penalties));
-}
-
 /**
  * Count issues by severity
  */
@@ -61,6 +66,19 @@ function countIssues(issues: PrepressIssue[]): IssueCounts {
   );
 }
 
+/**
+ * Store the v1 report and the v2 per-page report next to it
+ */
+async function storeReports(
+  outputAdapter: OutputAdapter,
+  report: PrepressReport,
+  v2Options: Parameters<typeof buildReportV2>[1]
+): Promise<void> {
+  await outputAdapter.storeOutput(report.jobId, 'report_json', Buffer.from(JSON.stringify(report, null, 2), 'utf-8'));
+  const reportV2 = buildReportV2(report, v2Options);
+  await outputAdapter.storeOutput(report.jobId, 'report_v2_json', Buffer.from(JSON.stringify(reportV2, null, 2), 'utf-8'));
+}
+
 /**
  * Run preflight pipeline on a file (supports PDF, JPG, PNG, TIF, AI, PSD)
  * 
@@ -81,11 +99,18 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
   // Fetch input file
   const inputBuffer = await inputAdapter.fetchInput(job.id);
   
+  // Resolve the preflight profile (rules + score weights) for this job;
+  // normalization needs it for the generated cut contour
+  const profileResult = await resolvePreflightProfile(job);
+  const profile = profileResult.profile;
+  const rules = profile.rules;
+  
   // Detect file format and normalize if needed
   const normalizationResult = await normalizeFile(
     inputBuffer,
     job.contentType,
-    job.originalFilename
+    job.originalFilename,
+    { cutContourOffsetIn: rules.cutContourOffsetIn }
   );
   
   // Track normalization info for the report
@@ -96,6 +121,7 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
       normalizedFormat: normalizationResult.normalizedFormat,
       notes: normalizationResult.notes,
       metadata: normalizationResult.metadata,
+      generatedCutContour: normalizationResult.generatedCutContour,
     };
   }
   
@@ -107,6 +133,7 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
   
   // Add normalization issues (if any)
   issues.push(...normalizationResult.issues);
+  issues.push(...profileResult.issues);
   
   const analysis: PrepressAnalysis = {
     pageCount: 0,
@@ -121,7 +148,7 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
     console.log(`[Prepress Pipeline] Normalization failed for job ${job.id}, skipping PDF preflight`);
     
     const counts = countIssues(issues);
-    const score = computeScore(counts);
+    const score = computeProfileScore(counts, rules.scoring);
     
     const report: PrepressReport = {
       version: "prepress_report_v1",
@@ -142,11 +169,11 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
       toolAvailability,
       toolVersions,
       normalization: normalizationInfo,
+      profile,
     };
     
-    // Store report JSON
-    const reportJson = JSON.stringify(report, null, 2);
-    await outputAdapter.storeOutput(job.id, 'report_json', Buffer.from(reportJson, 'utf-8'));
+    // Store report JSON (v1 + v2)
+    await storeReports(outputAdapter, report, {});
     
     return report;
   }
@@ -173,14 +200,45 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
     issues.push(toolMissingWarning('pdfinfo'));
   }
   
-  // TODO: Detect and log missing DPI (temporary placeholder)
-  // This is informational only for now. Future enforcement will:
-  // 1. Extract actual DPI from images in PDF
-  // 2. Compare against required DPI (default 300)
-  // 3. Optionally block job if DPI too low
+  // 2b. Trim/bleed/safe-zone verification against the ordered size (linked jobs only)
+  const sizeProfileResult = await resolveSizeProfile(job);
+  const sizeProfile = sizeProfileResult.profile;
+  issues.push(...sizeProfileResult.issues);
+  
+  if (sizeProfile) {
+    const boxes = await readPageBoxes(pdfBuffer);
+    issues.push(...boxes.issues);
+    
+    if (sizeProfile.safeZoneIn > 0 && toolAvailability.ghostscript) {
+      try {
+        const contentBoxes = await measureContentBoxes(pdfBuffer);
+        boxes.pages.forEach((page, index) => {
+          page.contentBox = contentBoxes[index] ?? undefined;
+        });
+      } catch (error: any) {
+        issues.push({
+          severity: "WARNING",
+          code: "CONTENT_BOUNDS_FAILED",
+          message: `Could not measure content bounds; safe zone not checked: ${error.message}`,
+        });
+      }
+    } else if (sizeProfile.safeZoneIn > 0) {
+      issues.push({
+        severity: "INFO",
+        code: "SAFE_ZONE_CHECK_SKIPPED",
+        message: "Safe zone not checked: Ghostscript is not available to measure content bounds",
+      });
+    }
+    
+    analysis.pageBoxes = boxes.pages;
+    issues.push(...checkPageSizes(boxes.pages, sizeProfile));
+  }
+  
+  // Log missing DPI finding for normalized raster inputs
+  // (profile enforcement of placed-image DPI happens in step 3b)
   if (normalizationInfo && normalizationInfo.metadata?.dpi) {
     const detectedDpi = normalizationInfo.metadata.dpi;
-    const requiredDpi = 300; // TODO: Make configurable
+    const requiredDpi = rules.minEffectiveDpi ?? 300;
     
     if (detectedDpi < requiredDpi) {
       try {
@@ -197,20 +255,91 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
     }
   }
   
-  // TODO: Spot color detection
-  // Future implementation will use pdfimages or similar to extract color info
-  // For now, this is a placeholder for the detection logic
-  // When implemented, call: await logSpotColor(job.id, orgId, { spotColorName, ... })
-  
   // 3. Font analysis (if available)
   if (toolAvailability.pdffonts) {
     const fonts = await runPDFFonts(pdfBuffer);
     analysis.fontsEmbedded = fonts.allEmbedded;
-    issues.push(...fonts.issues);
+    issues.push(...applyFontPolicy(fonts.issues, rules));
   } else {
     issues.push(toolMissingWarning('pdffonts'));
   }
   
+  // 3b. Image resolution, color usage and ink coverage for the profile rules
+  if (toolAvailability.pdfimages) {
+    const images = await runPDFImages(pdfBuffer);
+    analysis.images = images.images;
+    issues.push(...images.issues);
+  } else if (rules.minEffectiveDpi != null) {
+    issues.push(toolMissingWarning('pdfimages'));
+  }
+  
+  const colorUsage = await analyzeColorUsage(pdfBuffer);
+  analysis.colorSpace = colorUsage.colorSpace;
+  issues.push(...colorUsage.issues);
+  
+  if (colorUsage.colorSpace !== "not_analyzed") {
+    for (const spotColorName of colorUsage.colorSpace.spotColors ?? []) {
+      try {
+        await logSpotColor(job.id, job.organizationId || 'standalone', { spotColorName });
+      } catch (error: any) {
+        console.error(`[Prepress Pipeline] Failed to log spot color finding:`, error);
+        // Fail soft
+      }
+    }
+  }
+  
+  // 3c. Separations: per-colorant coverage, TAC and the TAC heatmap
+  if (toolAvailability.ghostscript) {
+    const separations = await analyzeSeparations(pdfBuffer, { limitPercent: rules.maxInkCoveragePercent });
+    issues.push(...separations.issues);
+    
+    if (separations.separations) {
+      analysis.separations = separations.separations;
+      analysis.maxInkCoveragePercent = separations.separations.maxTacPercent;
+      
+      if (separations.heatmapPng) {
+        try {
+          await outputAdapter.storeOutput(job.id, 'heatmap_png', separations.heatmapPng);
+          analysis.separations.heatmapPage = 1;
+        } catch (error: any) {
+          console.error(`[Prepress Pipeline] Failed to store ink heatmap for job ${job.id}:`, error);
+          // Fail soft
+        }
+      }
+    }
+  } else if (rules.maxInkCoveragePercent != null) {
+    issues.push(toolMissingWarning('ghostscript'));
+  }
+  
+  // 3d. Cut contour: cut-line separations, cut path geometry and the cutter exports
+  const cutContour = await extractCutContour(pdfBuffer);
+  issues.push(...cutContour.issues);
+  
+  if (cutContour.cutContour) {
+    analysis.cutContour = cutContour.cutContour;
+    
+    const exportPaths = cutContour.pages.find((page) => page.page === cutContour.cutContour!.exportPage);
+    if (exportPaths) {
+      try {
+        await outputAdapter.storeOutput(job.id, 'cut_svg', Buffer.from(cutContourToSvg(exportPaths), 'utf-8'));
+        await outputAdapter.storeOutput(job.id, 'cut_dxf', Buffer.from(cutContourToDxf(exportPaths), 'utf-8'));
+      } catch (error: any) {
+        console.error(`[Prepress Pipeline] Failed to store cut path exports for job ${job.id}:`, error);
+        analysis.cutContour.exportPage = undefined;
+        // Fail soft
+      }
+    }
+  }
+  
+  issues.push(...checkProfileRules(rules, {
+    pageCount: analysis.pageCount,
+    images: analysis.images,
+    colorSpace: analysis.colorSpace,
+    maxInkCoveragePercent: analysis.maxInkCoveragePercent,
+    separations: analysis.separations,
+    cutContour: analysis.cutContour,
+  }));
+  
   // 4. Render proof (if available)
   if (toolAvailability.pdftocairo) {
     try {
@@ -228,9 +357,27 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
     issues.push(toolMissingWarning('pdftocairo'));
   }
   
+  // 4b. Per-page previews for the report v2 viewer (fail soft, first MAX_PREVIEW_PAGES pages)
+  const pageBoxes = analysis.pageBoxes ?? (await readPageBoxes(pdfBuffer)).pages;
+  const previewPages: number[] = [];
+  if (toolAvailability.pdftocairo) {
+    for (const page of pageBoxes.slice(0, MAX_PREVIEW_PAGES)) {
+      try {
+        const longSideIn = Math.max(page.mediaBox.width, page.mediaBox.height) / 72;
+        const dpi = Math.max(4, Math.min(72, Math.floor(PREVIEW_LONG_SIDE_PX / longSideIn)));
+        const png = await renderProof(pdfBuffer, { page: page.page, dpi });
+        await outputAdapter.storeOutput(job.id, 'page_png', png, { page: page.page });
+        previewPages.push(page.page);
+      } catch (error: any) {
+        console.error(`[Prepress Pipeline] Failed to render preview of page ${page.page} for job ${job.id}:`, error);
+        // Fail soft - the viewer shows the page without an image
+      }
+    }
+  }
+  
   // Compute summary
   const counts = countIssues(issues);
-  const score = computeScore(counts);
+  const score = computeProfileScore(counts, rules.scoring);
   
   // Build base report
   const report: PrepressReport = {
@@ -252,60 +399,32 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
     toolAvailability,
     toolVersions,
     normalization: normalizationInfo,
+    sizeProfile: sizeProfile ?? undefined,
+    profile,
   };
   
-  // 5. Auto-fix (if mode === check_and_fix && ghostscript available)
-  if (job.mode === 'check_and_fix' && toolAvailability.ghostscript) {
+  // 5. Auto-fix catalog (if mode === check_and_fix); each requested fix is re-checked and logged
+  if (job.mode === 'check_and_fix') {
     try {
       console.log(`[Prepress Pipeline] Running auto-fix for job ${job.id}`);
       
-      const fixedPdfBuffer = await normalizeViaGhostscript(pdfBuffer);
-      await outputAdapter.storeOutput(job.id, 'fixed_pdf', fixedPdfBuffer);
-      
-      // Log the fix action
-      try {
-        await logFix(job.id, job.organizationId || 'standalone', {
-          fixType: 'pdf_normalize',
-          description: 'Normalized PDF via Ghostscript with /prepress settings',
-          fixedByUserId: null, // Automated fix
-          beforeSnapshot: { 
-            tool: 'original',
-            issues: issues.length,
-          },
-          afterSnapshot: {
-            tool: 'ghostscript',
-            settings: '/prepress',
-          },
-        });
-        console.log(`[Prepress Pipeline] Logged fix action for job ${job.id}`);
-      } catch (error: any) {
-        console.error(`[Prepress Pipeline] Failed to log fix action:`, error);
-        // Fail soft
-      }
-      
-      // Re-analyze fixed PDF
-      const afterIssues: PrepressIssue[] = [];
+      const fixRun = await runAutoFixes(pdfBuffer, { score, counts }, {
+        job,
+        profile,
+        sizeProfile,
+        toolAvailability,
+      });
       
-      if (toolAvailability.qpdf) {
-        const qpdfResult = await runQPDF(fixedPdfBuffer);
-        afterIssues.push(...qpdfResult.issues);
+      if (fixRun.fixedPdf) {
+        await outputAdapter.storeOutput(job.id, 'fixed_pdf', fixRun.fixedPdf);
       }
-      
-      if (toolAvailability.pdffonts) {
-        const fonts = await runPDFFonts(fixedPdfBuffer);
-        afterIssues.push(...fonts.issues);
+      report.fix = fixRun.fix;
+      issues.push(...fixRun.issues);
+      if (!toolAvailability.ghostscript && fixRun.fix.steps?.some((step) => step.note === 'Ghostscript is not available')) {
+        issues.push(toolMissingWarning('ghostscript'));
       }
       
-      const afterCounts = countIssues(afterIssues);
-      const afterScore = computeScore(afterCounts);
-      
-      report.fix = {
-        before: { score, counts },
-        after: { score: afterScore, counts: afterCounts },
-        applied: ['normalize_via_ghostscript'],
-      };
-      
-      console.log(`[Prepress Pipeline] Auto-fix complete for job ${job.id}. Score: ${score} → ${afterScore}`);
+      console.log(`[Prepress Pipeline] Auto-fix complete for job ${job.id}. Score: ${score} → ${fixRun.fix.after.score}`);
       
     } catch (error: any) {
       issues.push({
@@ -314,18 +433,10 @@ export async function runPreflightPipeline(job: PrepressJob): Promise<PrepressRe
         message: `Auto-fix failed: ${error.message}`,
       });
     }
-  } else if (job.mode === 'check_and_fix' && !toolAvailability.ghostscript) {
-    issues.push(toolMissingWarning('ghostscript'));
-    issues.push({
-      severity: "WARNING",
-      code: "AUTO_FIX_UNAVAILABLE",
-      message: "Auto-fix requested but Ghostscript is not available",
-    });
   }
   
-  // Store report JSON
-  const reportJson = JSON.stringify(report, null, 2);
-  await outputAdapter.storeOutput(job.id, 'report_json', Buffer.from(reportJson, 'utf-8'));
+  // Store report JSON (v1 + v2)
+  await storeReports(outputAdapter, report, { pageBoxes, previewPages });
   
   return report;
 }
@@ -348,6 +459,9 @@ export function buildOutputManifest(report: PrepressReport): OutputManifest {
   return {
     report_json: true, // Always generated
     proof_png: report.toolAvailability.pdftocairo, // Only if renderer available
-    fixed_pdf: report.mode === 'check_and_fix' && report.toolAvailability.ghostscript,
+    fixed_pdf: Boolean(report.fix && report.fix.applied.length > 0), // Only when a fix was applied
+    heatmap_png: report.analysis.separations?.heatmapPage != null, // Only when separations were analyzed
+    cut_svg: report.analysis.cutContour?.exportPage != null, // Only when a cut path was found
+    cut_dxf: report.analysis.cutContour?.exportPage != null,
   };
 }
@@ -0,0 +1,241 @@
+import { prepressProfileRulesSchema, type PrepressProfileRules } from "./schema";
+import { isOperationalSpotColor } from "./spotColors";
+import type {
+  AppliedPreflightProfile,
+  ColorSpaceInfo,
+  CutContourAnalysis,
+  ImageAnalysis,
+  IssueCounts,
+  PrepressIssue,
+  SeparationsAnalysis,
+} from "./types";
+
+/**
+ * Preflight Profile Checks
+ *
+ * Applies a profile's rules to the collected analysis and scores the result
+ * with the profile's weights. Pure, so a banner profile and a business-card
+ * profile can be compared in tests without the toolchain.
+ */
+
+export const BUILTIN_PREFLIGHT_PROFILE: AppliedPreflightProfile = {
+  id: null,
+  name: "Built-in",
+  source: "builtin",
+  rules: prepressProfileRulesSchema.parse({}),
+};
+
+export interface ProfileCheckInput {
+  pageCount: number;
+  images: ImageAnalysis[] | "not_analyzed";
+  colorSpace: ColorSpaceInfo | "not_analyzed";
+  maxInkCoveragePercent?: number;
+  separations?: SeparationsAnalysis;
+  cutContour?: CutContourAnalysis;
+}
+
+// Cut paths may touch the bleed edge; allow for rounding in the drawing app
+const CUT_BLEED_TOLERANCE_PT = 0.5;
+
+/**
+ * Score = 100 - (BLOCKER * blockerPenalty) - (WARNING * warningPenalty) - (INFO * infoPenalty)
+ */
+export function computeProfileScore(counts: IssueCounts, scoring: PrepressProfileRules["scoring"]): number {
+  const penalties =
+    counts.BLOCKER * scoring.blockerPenalty +
+    counts.WARNING * scoring.warningPenalty +
+    counts.INFO * scoring.infoPenalty;
+  return Math.max(0, Math.min(100, 100 - penalties));
+}
+
+/**
+ * Re-grade font embedding issues: BLOCKER when the profile requires embedding,
+ * INFO when it explicitly does not (e.g. RIP-substituted fonts on wide format).
+ */
+export function applyFontPolicy(issues: PrepressIssue[], rules: PrepressProfileRules): PrepressIssue[] {
+  if (rules.fontEmbeddingRequired == null) return issues;
+  return issues.map((issue): PrepressIssue =>
+    issue.code === "FONT_NOT_EMBEDDED"
+      ? { ...issue, severity: rules.fontEmbeddingRequired ? "BLOCKER" : "INFO" }
+      : issue
+  );
+}
+
+function checkPageCount(pageCount: number, rules: PrepressProfileRules): PrepressIssue[] {
+  const { min, max, multipleOf } = rules.pageCount;
+  if (pageCount <= 0) return []; // Unknown (pdfinfo unavailable)
+
+  const problems: string[] = [];
+  if (min != null && pageCount < min) problems.push(`at least ${min}`);
+  if (max != null && pageCount > max) problems.push(`at most ${max}`);
+  if (multipleOf != null && pageCount % multipleOf !== 0) problems.push(`a multiple of ${multipleOf}`);
+  if (problems.length === 0) return [];
+
+  return [{
+    severity: "BLOCKER",
+    code: "PAGE_COUNT_MISMATCH",
+    message: `File has ${pageCount} page${pageCount === 1 ? "" : "s"}; this profile requires ${problems.join(" and ")}`,
+    meta: { pageCount, min, max, multipleOf },
+  }];
+}
+
+/**
+ * Below the minimum is a WARNING; below half of it is a BLOCKER (visibly soft at any viewing distance)
+ */
+function checkImageResolution(images: ProfileCheckInput["images"], rules: PrepressProfileRules): PrepressIssue[] {
+  const minDpi = rules.minEffectiveDpi;
+  if (minDpi == null || images === "not_analyzed") return [];
+
+  return images
+    .filter((image) => image.dpi < minDpi)
+    .map((image): PrepressIssue => ({
+      severity: image.dpi < minDpi / 2 ? "BLOCKER" : "WARNING",
+      code: "LOW_RESOLUTION_IMAGE",
+      message: `Image on page ${image.page} is ${Math.round(image.dpi)} DPI at placed size (minimum ${minDpi})`,
+      page: image.page,
+      meta: { dpi: image.dpi, requiredDpi: minDpi, width: image.width, height: image.height },
+    }));
+}
+
+function checkColor(colorSpace: ProfileCheckInput["colorSpace"], rules: PrepressProfileRules): PrepressIssue[] {
+  if (colorSpace === "not_analyzed") return [];
+  const issues: PrepressIssue[] = [];
+
+  if (rules.allowedColorSpaces) {
+    const used: Array<[boolean | undefined, "rgb" | "cmyk" | "gray"]> = [
+      [colorSpace.hasRGB, "rgb"],
+      [colorSpace.hasCMYK, "cmyk"],
+      [colorSpace.hasGray, "gray"],
+    ];
+    for (const [present, space] of used) {
+      if (present && !rules.allowedColorSpaces.includes(space)) {
+        issues.push({
+          severity: "BLOCKER",
+          code: "COLOR_SPACE_NOT_ALLOWED",
+          message: `File uses ${space.toUpperCase()}; this profile allows ${rules.allowedColorSpaces.map((s) => s.toUpperCase()).join(", ")}`,
+          meta: { colorSpace: space, allowed: rules.allowedColorSpaces },
+        });
+      }
+    }
+  }
+
+  // CutContour, white ink etc. are finishing instructions, not spot inks
+  const printedSpots = (colorSpace.spotColors ?? []).filter((name) => !isOperationalSpotColor(name));
+  if (!rules.spotColorsAllowed && colorSpace.hasSpot && (printedSpots.length > 0 || !colorSpace.spotColors)) {
+    const names = printedSpots;
+    issues.push({
+      severity: "BLOCKER",
+      code: "SPOT_COLOR_NOT_ALLOWED",
+      message: names.length > 0
+        ? `Spot colors are not allowed: ${names.join(", ")}`
+        : "Spot colors are not allowed",
+      meta: { spotColors: names },
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * One issue per page over the limit when separations were measured (with the
+ * over-limit area as bbox); otherwise one document-level issue
+ */
+function checkInkCoverage(
+  measured: number | undefined,
+  separations: SeparationsAnalysis | undefined,
+  rules: PrepressProfileRules
+): PrepressIssue[] {
+  const limit = rules.maxInkCoveragePercent;
+  if (limit == null) return [];
+
+  if (separations) {
+    return separations.pages
+      .filter((page) => page.maxTacPercent > limit)
+      .map((page): PrepressIssue => ({
+        severity: "BLOCKER",
+        code: "INK_COVERAGE_EXCEEDED",
+        message: `Total ink coverage on page ${page.page} reaches ${page.maxTacPercent}% (limit ${limit}%)`,
+        page: page.page,
+        bbox: separations.limitPercent === limit && page.overLimitBBox ? page.overLimitBBox : undefined,
+        meta: { maxInkCoveragePercent: page.maxTacPercent, limitPercent: limit },
+      }));
+  }
+
+  if (measured == null || measured <= limit) return [];
+
+  return [{
+    severity: "BLOCKER",
+    code: "INK_COVERAGE_EXCEEDED",
+    message: `Total ink coverage reaches ${measured}% (limit ${limit}%)`,
+    meta: { maxInkCoveragePercent: measured, limitPercent: limit },
+  }];
+}
+
+/**
+ * A cut path must exist when the profile requires one (contour-cut products) and,
+ * wherever there is one, it must lie within the bleed
+ */
+function checkCutContour(cutContour: CutContourAnalysis | undefined, rules: PrepressProfileRules): PrepressIssue[] {
+  if (!cutContour) return [];
+  const issues: PrepressIssue[] = [];
+  const cutPages = cutContour.pages.filter((page) => page.pathCount > 0);
+
+  if (cutPages.length === 0) {
+    if (cutContour.spotNames.length > 0) {
+      issues.push({
+        severity: rules.cutContourRequired ? "BLOCKER" : "WARNING",
+        code: "CUT_CONTOUR_EMPTY",
+        message: `Cut separation ${cutContour.spotNames.join(", ")} is defined but nothing is drawn in it`,
+        meta: { spotNames: cutContour.spotNames },
+      });
+    } else if (rules.cutContourRequired) {
+      issues.push({
+        severity: "BLOCKER",
+        code: "CUT_CONTOUR_MISSING",
+        message: "No cut path found; contour-cut products need the cut line stroked in a spot color named CutContour",
+      });
+    }
+    return issues;
+  }
+
+  for (const page of cutPages) {
+    const { bbox, bleedBox, mediaBox } = page;
+    if (!bbox) continue;
+    const outside =
+      bbox.x < bleedBox.x - CUT_BLEED_TOLERANCE_PT ||
+      bbox.y < bleedBox.y - CUT_BLEED_TOLERANCE_PT ||
+      bbox.x + bbox.width > bleedBox.x + bleedBox.width + CUT_BLEED_TOLERANCE_PT ||
+      bbox.y + bbox.height > bleedBox.y + bleedBox.height + CUT_BLEED_TOLERANCE_PT;
+    if (!outside) continue;
+
+    // Normalized to the MediaBox, top-left origin, clamped to the page
+    const clamp = (value: number) => Math.max(0, Math.min(1, value));
+    const x0 = clamp((bbox.x - mediaBox.x) / mediaBox.width);
+    const x1 = clamp((bbox.x + bbox.width - mediaBox.x) / mediaBox.width);
+    const y0 = clamp((mediaBox.y + mediaBox.height - bbox.y - bbox.height) / mediaBox.height);
+    const y1 = clamp((mediaBox.y + mediaBox.height - bbox.y) / mediaBox.height);
+    issues.push({
+      severity: "BLOCKER",
+      code: "CUT_CONTOUR_OUTSIDE_BLEED",
+      message: `Cut path on page ${page.page} extends beyond the bleed`,
+      page: page.page,
+      bbox: { x: x0, y: y0, w: x1 - x0, h: y1 - y0 },
+      meta: { spotNames: page.spotNames, cutBox: bbox, bleedBox },
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Run every rule in the profile against the analysis
+ */
+export function checkProfileRules(rules: PrepressProfileRules, input: ProfileCheckInput): PrepressIssue[] {
+  return [
+    ...checkPageCount(input.pageCount, rules),
+    ...checkImageResolution(input.images, rules),
+    ...checkColor(input.colorSpace, rules),
+    ...checkInkCoverage(input.maxInkCoveragePercent, input.separations, rules),
+    ...checkCutContour(input.cutContour, rules),
+  ];
+}
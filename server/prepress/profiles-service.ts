@@ -0,0 +1,198 @@
+import { db } from "../db";
+import { orderLineItems, orders, products, productTypes } from "@shared/schema";
+import {
+  prepressProfiles,
+  prepressProfileRulesSchema,
+  type InsertPrepressProfile,
+  type PrepressJob,
+  type PrepressProfile,
+  type UpdatePrepressProfile,
+} from "./schema";
+import { and, asc, desc, eq, ne } from "drizzle-orm";
+import type { AppliedPreflightProfile, PrepressIssue } from "./types";
+import { BUILTIN_PREFLIGHT_PROFILE } from "./profileChecks";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Preflight Profiles Service
+ *
+ * Org-defined rule sets. Resolution order for a job:
+ * explicit job.profileId → profile for the linked line item's product type → org default → built-in.
+ */
+
+/** Stored rules are re-parsed so rows written before a rule existed pick up its default */
+function withParsedRules(profile: PrepressProfile): PrepressProfile {
+  return { ...profile, rules: prepressProfileRulesSchema.parse(profile.rules ?? {}) };
+}
+
+async function assertProductTypeInOrg(organizationId: string, productTypeId: string) {
+  const [row] = await db
+    .select({ id: productTypes.id })
+    .from(productTypes)
+    .where(and(eq(productTypes.id, productTypeId), eq(productTypes.organizationId, organizationId)))
+    .limit(1);
+  if (!row) throw httpError(400, "Product type not found");
+}
+
+async function assertProductTypeFree(organizationId: string, productTypeId: string, exceptId?: string) {
+  const [row] = await db
+    .select({ id: prepressProfiles.id, name: prepressProfiles.name })
+    .from(prepressProfiles)
+    .where(
+      and(
+        eq(prepressProfiles.organizationId, organizationId),
+        eq(prepressProfiles.productTypeId, productTypeId),
+        exceptId ? ne(prepressProfiles.id, exceptId) : undefined
+      )
+    )
+    .limit(1);
+  if (row) throw httpError(409, `Profile "${row.name}" already applies to this product type`);
+}
+
+export async function listPrepressProfiles(organizationId: string): Promise<PrepressProfile[]> {
+  const rows = await db
+    .select()
+    .from(prepressProfiles)
+    .where(eq(prepressProfiles.organizationId, organizationId))
+    .orderBy(desc(prepressProfiles.isDefault), asc(prepressProfiles.name));
+  return rows.map(withParsedRules);
+}
+
+export async function getPrepressProfile(organizationId: string, id: string): Promise<PrepressProfile | null> {
+  const [row] = await db
+    .select()
+    .from(prepressProfiles)
+    .where(and(eq(prepressProfiles.organizationId, organizationId), eq(prepressProfiles.id, id)))
+    .limit(1);
+  return row ? withParsedRules(row) : null;
+}
+
+export async function createPrepressProfile(organizationId: string, input: InsertPrepressProfile): Promise<PrepressProfile> {
+  const productTypeId = input.productTypeId ?? null;
+  if (productTypeId) {
+    await assertProductTypeInOrg(organizationId, productTypeId);
+    await assertProductTypeFree(organizationId, productTypeId);
+  }
+
+  return await db.transaction(async (tx) => {
+    if (input.isDefault) {
+      await tx
+        .update(prepressProfiles)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(and(eq(prepressProfiles.organizationId, organizationId), eq(prepressProfiles.isDefault, true)));
+    }
+
+    const [created] = await tx
+      .insert(prepressProfiles)
+      .values({
+        organizationId,
+        name: input.name,
+        description: input.description ?? null,
+        productTypeId,
+        isDefault: input.isDefault,
+        rules: input.rules,
+      })
+      .returning();
+    return withParsedRules(created);
+  });
+}
+
+export async function updatePrepressProfile(
+  organizationId: string,
+  id: string,
+  input: UpdatePrepressProfile
+): Promise<PrepressProfile | null> {
+  const existing = await getPrepressProfile(organizationId, id);
+  if (!existing) return null;
+
+  if (input.productTypeId) {
+    await assertProductTypeInOrg(organizationId, input.productTypeId);
+    await assertProductTypeFree(organizationId, input.productTypeId, id);
+  }
+
+  return await db.transaction(async (tx) => {
+    if (input.isDefault) {
+      await tx
+        .update(prepressProfiles)
+        .set({ isDefault: false, updatedAt: new Date() })
+        .where(
+          and(
+            eq(prepressProfiles.organizationId, organizationId),
+            eq(prepressProfiles.isDefault, true),
+            ne(prepressProfiles.id, id)
+          )
+        );
+    }
+
+    const [updated] = await tx
+      .update(prepressProfiles)
+      .set({ ...input, updatedAt: new Date() })
+      .where(and(eq(prepressProfiles.organizationId, organizationId), eq(prepressProfiles.id, id)))
+      .returning();
+    return updated ? withParsedRules(updated) : null;
+  });
+}
+
+export async function deletePrepressProfile(organizationId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(prepressProfiles)
+    .where(and(eq(prepressProfiles.organizationId, organizationId), eq(prepressProfiles.id, id)))
+    .returning({ id: prepressProfiles.id });
+  return deleted.length > 0;
+}
+
+async function productTypeForLineItem(job: PrepressJob): Promise<string | null> {
+  if (!job.orderLineItemId || !job.organizationId) return null;
+  const [row] = await db
+    .select({ productTypeId: products.productTypeId })
+    .from(orderLineItems)
+    .innerJoin(orders, eq(orderLineItems.orderId, orders.id))
+    .innerJoin(products, eq(orderLineItems.productId, products.id))
+    .where(and(eq(orderLineItems.id, job.orderLineItemId), eq(orders.organizationId, job.organizationId)))
+    .limit(1);
+  return row?.productTypeId ?? null;
+}
+
+function toApplied(profile: PrepressProfile, source: AppliedPreflightProfile["source"]): AppliedPreflightProfile {
+  return { id: profile.id, name: profile.name, source, rules: prepressProfileRulesSchema.parse(profile.rules ?? {}) };
+}
+
+/**
+ * Resolve the profile a job runs with. Fail-soft: lookup errors fall back to the built-in profile.
+ */
+export async function resolvePreflightProfile(
+  job: PrepressJob
+): Promise<{ profile: AppliedPreflightProfile; issues: PrepressIssue[] }> {
+  const organizationId = job.organizationId;
+  if (!organizationId) {
+    return { profile: BUILTIN_PREFLIGHT_PROFILE, issues: [] };
+  }
+
+  try {
+    if (job.profileId) {
+      const explicit = await getPrepressProfile(organizationId, job.profileId);
+      if (explicit) return { profile: toApplied(explicit, "job"), issues: [] };
+    }
+
+    const productTypeId = await productTypeForLineItem(job);
+    const candidates = await listPrepressProfiles(organizationId);
+
+    const byType = productTypeId ? candidates.find((p) => p.productTypeId === productTypeId) : undefined;
+    if (byType) return { profile: toApplied(byType, "product_type"), issues: [] };
+
+    const orgDefault = candidates.find((p) => p.isDefault);
+    if (orgDefault) return { profile: toApplied(orgDefault, "org_default"), issues: [] };
+
+    return { profile: BUILTIN_PREFLIGHT_PROFILE, issues: [] };
+
+  } catch (error: any) {
+    return {
+      profile: BUILTIN_PREFLIGHT_PROFILE,
+      issues: [{
+        severity: "WARNING",
+        code: "PROFILE_LOAD_FAILED",
+        message: `Could not load the preflight profile; built-in checks were used: ${error.message}`,
+      }],
+    };
+  }
+}
@@ -0,0 +1,85 @@
+import type {
+  PageBoxes,
+  PrepressIssue,
+  PrepressPageIssue,
+  PrepressReport,
+  PrepressReportPage,
+  PrepressReportV2,
+} from "./types";
+
+/**
+ * Prepress Report v2
+ *
+ * Derives the per-page view from a v1 report. Pure, so the route can also
+ * build v2 for jobs that finished before v2 was written.
+ */
+
+type BBox = NonNullable<PrepressIssue["bbox"]>;
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Map a bbox (normalized to the unrotated MediaBox, top-left origin) onto the
+ * page as displayed with /Rotate applied (clockwise), which is how previews render.
+ */
+export function displayBBox(bbox: BBox, rotation: number): BBox {
+  const { x, y, w, h } = bbox;
+  switch (((rotation % 360) + 360) % 360) {
+    case 90:
+      return { x: round3(1 - y - h), y: x, w: h, h: w };
+    case 180:
+      return { x: round3(1 - x - w), y: round3(1 - y - h), w, h };
+    case 270:
+      return { x: y, y: round3(1 - x - w), w: h, h: w };
+    default:
+      return bbox;
+  }
+}
+
+/**
+ * Build the v2 report
+ *
+ * @param report - v1 report
+ * @param options.pageBoxes - Page boxes for every page (sizes and rotation)
+ * @param options.previewPages - Pages with a stored preview PNG
+ */
+export function buildReportV2(
+  report: PrepressReport,
+  options: { pageBoxes?: PageBoxes[]; previewPages?: number[] } = {}
+): PrepressReportV2 {
+  const boxes = options.pageBoxes ?? report.analysis.pageBoxes ?? [];
+  const previews = new Set(options.previewPages ?? []);
+  const pageCount = Math.max(report.input.pageCount, boxes.length);
+
+  const pages: PrepressReportPage[] = [];
+  for (let page = 1; page <= pageCount; page++) {
+    const box = boxes.find((b) => b.page === page);
+    const size = report.analysis.pageSizes[page - 1];
+    const rotation = box?.rotation ?? 0;
+    const media = box ? { width: box.mediaBox.width, height: box.mediaBox.height } : size ?? { width: 0, height: 0 };
+    const turned = rotation % 180 !== 0;
+
+    const issues: PrepressPageIssue[] = [];
+    report.issues.forEach((issue, index) => {
+      if (issue.page !== page) return;
+      issues.push({
+        ...issue,
+        index,
+        displayBbox: issue.bbox ? displayBBox(issue.bbox, rotation) : undefined,
+      });
+    });
+
+    pages.push({
+      page,
+      widthPt: turned ? media.height : media.width,
+      heightPt: turned ? media.width : media.height,
+      rotation,
+      previewAvailable: previews.has(page),
+      issues,
+    });
+  }
+
+  return { ...report, version: "prepress_report_v2", pages };
+}
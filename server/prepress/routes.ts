@@ -3,19 +3,32 @@ import busboy from "busboy";
 import { db } from "../db";
 import { prepressJobs } from "./schema";
 import { eq, sql, and, desc } from "drizzle-orm";
-import { initializeJobDirectory, writeFile, getJobPaths, fileExists, readFile } from "./storage";
+import { initializeJobDirectory, writeFile, getJobPaths, getPagePreviewPath, fileExists, readFile } from "./storage";
 import { getJobFindings, getJobFixLogs } from "./findings-service";
+import { getPrepressProfile } from "./profiles-service";
+import { parseRequestedFixes } from "./autoFix";
+import { buildReportV2 } from "./reportV2";
+import { orderLineItems, orders } from "@shared/schema";
 import { z } from "zod";
 import path from "path";
+import { getRequestOrganizationId } from "../tenantContext";
+import { requireInternalUser } from "../lib/staffAccess";
 
 /**
  * Prepress API Routes
  * 
  * Endpoints for PDF preflight job lifecycle:
  * - POST /api/prepress/jobs - Create job with file upload
+ *   (optional `orderLineItemId` field verifies artwork against the ordered size,
+ *   optional `profileId` overrides the product type / org default preflight profile,
+ *   optional `fixes` picks auto-fixes from the catalog for check_and_fix)
  * - GET /api/prepress/jobs/:jobId - Get job status
- * - GET /api/prepress/jobs/:jobId/report - Get full report JSON
+ * - GET /api/prepress/jobs/:jobId/report - Get full report JSON (v1)
+ * - GET /api/prepress/jobs/:jobId/report/v2 - Report v2 with per-page issue view
+ * - GET /api/prepress/jobs/:jobId/pages/:page/preview - Page preview PNG
  * - GET /api/prepress/jobs/:jobId/download/:kind - Download output files
+ *
+ * Staff-only and tenant-scoped: every job lookup filters by the caller's organization.
  */
 
 const MAX_FILE_SIZE_MB = parseInt(process.env.PREPRESS_MAX_FILE_SIZE_MB || '250');
@@ -90,21 +103,26 @@ async function parseMultipartUpload(req: Request): Promise<{
 /**
  * Register prepress routes on Express app
  */
-export function registerPrepressRoutes(app: Express): void {
+export function registerPrepressRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+  }
+): void {
+  const { isAuthenticated, tenantContext } = deps;
+
   // GET /api/prepress/jobs - List all jobs for current org
-  app.get('/api/prepress/jobs', async (req: Request, res: Response) => {
+  app.get('/api/prepress/jobs', isAuthenticated, tenantContext, requireInternalUser, async (req: Request, res: Response) => {
     try {
-      const organizationId = (req as any).organizationId || 'standalone';
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: 'Missing organization context' });
       
       // Query jobs for this organization, newest first
-      const jobs = organizationId !== 'standalone'
-        ? await db.select().from(prepressJobs)
-            .where(eq(prepressJobs.organizationId, organizationId))
-            .orderBy(desc(prepressJobs.createdAt))
-            .limit(100)
-        : await db.select().from(prepressJobs)
-            .orderBy(desc(prepressJobs.createdAt))
-            .limit(100);
+      const jobs = await db.select().from(prepressJobs)
+        .where(eq(prepressJobs.organizationId, organizationId))
+        .orderBy(desc(prepressJobs.createdAt))
+        .limit(100);
       
       return res.json({
         success: true,
@@ -118,6 +136,9 @@ export function registerPrepressRoutes(app: Express): void {
           finishedAt: job.finishedAt,
           reportSummary: job.reportSummary,
           error: job.error,
+          orderLineItemId: job.orderLineItemId,
+          profileId: job.profileId,
+          requestedFixes: job.requestedFixes,
         })),
       });
       
@@ -131,7 +152,7 @@ export function registerPrepressRoutes(app: Express): void {
   });
   
   // POST /api/prepress/jobs - Create new preflight job
-  app.post('/api/prepress/jobs', async (req: Request, res: Response) => {
+  app.post('/api/prepress/jobs', isAuthenticated, tenantContext, requireInternalUser, async (req: Request, res: Response) => {
     try {
       // Parse multipart upload
       const { file, fields } = await parseMultipartUpload(req);
@@ -165,7 +186,46 @@ export function registerPrepressRoutes(app: Express): void {
       
       // Create job record
       const expiresAt = new Date(Date.now() + JOB_TTL_HOURS * 60 * 60 * 1000);
-      const organizationId = (req as any).organizationId || null; // Optional for standalone
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: 'Missing organization context' });
+      
+      // Optional order linkage (must belong to the caller's org)
+      const orderLineItemId = fields.orderLineItemId?.trim() || null;
+      if (orderLineItemId) {
+        const [lineItem] = await db
+          .select({ id: orderLineItems.id })
+          .from(orderLineItems)
+          .innerJoin(orders, eq(orderLineItems.orderId, orders.id))
+          .where(and(eq(orderLineItems.id, orderLineItemId), eq(orders.organizationId, organizationId)))
+          .limit(1);
+        
+        if (!lineItem) {
+          return res.status(400).json({
+            message: 'Order line item not found',
+          });
+        }
+      }
+      
+      // Optional explicit preflight profile (org-scoped)
+      const profileId = fields.profileId?.trim() || null;
+      if (profileId) {
+        const parsedId = z.string().uuid().safeParse(profileId);
+        const profile = parsedId.success ? await getPrepressProfile(organizationId, profileId) : null;
+        if (!profile) {
+          return res.status(400).json({
+            message: 'Preflight profile not found',
+          });
+        }
+      }
+      
+      // Optional auto-fix selection (comma-separated catalog keys; check_and_fix only)
+      const requested = parseRequestedFixes(fields.fixes);
+      if (requested.error) {
+        return res.status(400).json({
+          message: requested.error,
+        });
+      }
+      const requestedFixes = mode === 'check_and_fix' ? requested.fixes : null;
       
       const [job] = await db.insert(prepressJobs).values({
         organizationId,
@@ -175,6 +235,9 @@ export function registerPrepressRoutes(app: Express): void {
         contentType: file.mimeType,
         sizeBytes: file.buffer.length,
         expiresAt,
+        orderLineItemId,
+        profileId,
+        requestedFixes,
       }).returning();
       
       // Initialize job directory and write input file
@@ -201,19 +264,15 @@ export function registerPrepressRoutes(app: Express): void {
   });
   
   // GET /api/prepress/jobs/:jobId - Get job status
-  app.get('/api/prepress/jobs/:jobId', async (req: Request, res: Response) => {
+  app.get('/api/prepress/jobs/:jobId', isAuthenticated, tenantContext, requireInternalUser, async (req: Request, res: Response) => {
     try {
       const { jobId } = req.params;
-      const organizationId = (req as any).organizationId || 'standalone';
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: 'Missing organization context' });
       
       // Multi-tenant scoped query: MUST filter by both jobId AND organizationId
       const job = await db.query.prepressJobs.findFirst({
-        where: organizationId !== 'standalone'
-          ? and(
-              eq(prepressJobs.id, jobId),
-              eq(prepressJobs.organizationId, organizationId)
-            )
-          : eq(prepressJobs.id, jobId),
+        where: and(eq(prepressJobs.id, jobId), eq(prepressJobs.organizationId, organizationId)),
       });
       
       if (!job) {
@@ -236,6 +295,9 @@ export function registerPrepressRoutes(app: Express): void {
         outputManifest: job.outputManifest,
         error: job.error,
         progressMessage: job.progressMessage,
+        orderLineItemId: job.orderLineItemId,
+        profileId: job.profileId,
+        requestedFixes: job.requestedFixes,
       });
       
     } catch (error: any) {
@@ -247,19 +309,15 @@ export function registerPrepressRoutes(app: Express): void {
   });
   
   // GET /api/prepress/jobs/:jobId/report - Get full report JSON
-  app.get('/api/prepress/jobs/:jobId/report', async (req: Request, res: Response) => {
+  app.get('/api/prepress/jobs/:jobId/report', isAuthenticated, tenantContext, requireInternalUser, async (req: Request, res: Response) => {
     try {
       const { jobId } = req.params;
-      const organizationId = (req as any).organizationId || 'standalone';
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: 'Missing organization context' });
       
       // Multi-tenant scoped query
       const job = await db.query.prepressJobs.findFirst({
-        where: organizationId !== 'standalone'
-          ? and(
-              eq(prepressJobs.id, jobId),
-              eq(prepressJobs.organizationId, organizationId)
-            )
-          : eq(prepressJobs.id, jobId),
+        where: and(eq(prepressJobs.id, jobId), eq(prepressJobs.organizationId, organizationId)),
       });
       
       if (!job) {
@@ -298,14 +356,108 @@ export function registerPrepressRoutes(app: Express): void {
     }
   });
   
+  // GET /api/prepress/jobs/:jobId/report/v2 - Report with per-page view (v1 stays at /report)
+  app.get('/api/prepress/jobs/:jobId/report/v2', isAuthenticated, tenantContext, requireInternalUser, async (req: Request, res: Response) => {
+    try {
+      const { jobId } = req.params;
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: 'Missing organization context' });
+      
+      // Multi-tenant scoped query
+      const job = await db.query.prepressJobs.findFirst({
+        where: and(eq(prepressJobs.id, jobId), eq(prepressJobs.organizationId, organizationId)),
+      });
+      
+      if (!job) {
+        return res.status(404).json({
+          message: 'Job not found',
+        });
+      }
+      
+      if (job.status !== 'succeeded') {
+        return res.status(409).json({
+          message: `Report not available. Job status: ${job.status}`,
+        });
+      }
+      
+      const paths = getJobPaths(job.id);
+      if (await fileExists(paths.reportV2Json)) {
+        const reportBuffer = await readFile(paths.reportV2Json);
+        return res.json(JSON.parse(reportBuffer.toString('utf-8')));
+      }
+      
+      // Jobs finished before v2 existed: derive it from v1 (no page previews)
+      if (!(await fileExists(paths.reportJson))) {
+        return res.status(404).json({
+          message: 'Report file not found',
+        });
+      }
+      const reportBuffer = await readFile(paths.reportJson);
+      return res.json(buildReportV2(JSON.parse(reportBuffer.toString('utf-8'))));
+      
+    } catch (error: any) {
+      console.error('[Prepress API] Failed to fetch v2 report:', error);
+      return res.status(500).json({
+        message: `Failed to fetch report: ${error.message}`,
+      });
+    }
+  });
+  
+  // GET /api/prepress/jobs/:jobId/pages/:page/preview - Page preview PNG for the v2 viewer
+  app.get('/api/prepress/jobs/:jobId/pages/:page/preview', isAuthenticated, tenantContext, requireInternalUser, async (req: Request, res: Response) => {
+    try {
+      const { jobId } = req.params;
+      const page = parseInt(req.params.page, 10);
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: 'Missing organization context' });
+      
+      if (!Number.isInteger(page) || page < 1) {
+        return res.status(400).json({
+          message: 'Invalid page number',
+        });
+      }
+      
+      // Multi-tenant scoped query
+      const job = await db.query.prepressJobs.findFirst({
+        where: and(eq(prepressJobs.id, jobId), eq(prepressJobs.organizationId, organizationId)),
+      });
+      
+      if (!job) {
+        return res.status(404).json({
+          message: 'Job not found',
+        });
+      }
+      
+      const filePath = getPagePreviewPath(job.id, page);
+      if (!(await fileExists(filePath))) {
+        return res.status(404).json({
+          message: `No preview for page ${page}`,
+        });
+      }
+      
+      const fileBuffer = await readFile(filePath);
+      res.setHeader('Content-Type', 'image/png');
+      res.setHeader('Content-Length', fileBuffer.length);
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      return res.send(fileBuffer);
+      
+    } catch (error: any) {
+      console.error('[Prepress API] Failed to fetch page preview:', error);
+      return res.status(500).json({
+        message: `Failed to fetch page preview: ${error.message}`,
+      });
+    }
+  });
+  
   // GET /api/prepress/jobs/:jobId/download/:kind - Download output files
-  app.get('/api/prepress/jobs/:jobId/download/:kind', async (req: Request, res: Response) => {
+  app.get('/api/prepress/jobs/:jobId/download/:kind', isAuthenticated, tenantContext, requireInternalUser, async (req: Request, res: Response) => {
     try {
       const { jobId, kind } = req.params;
-      const organizationId = (req as any).organizationId || 'standalone';
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: 'Missing organization context' });
       
       // Validate kind
-      const validKinds = ['report_json', 'proof_png', 'fixed_pdf'];
+      const validKinds = ['report_json', 'proof_png', 'heatmap_png', 'cut_svg', 'cut_dxf', 'fixed_pdf'];
       if (!validKinds.includes(kind)) {
         return res.status(400).json({
           message: `Invalid download kind. Must be one of: ${validKinds.join(', ')}`,
@@ -314,12 +466,7 @@ export function registerPrepressRoutes(app: Express): void {
       
       // Multi-tenant scoped query
       const job = await db.query.prepressJobs.findFirst({
-        where: organizationId !== 'standalone'
-          ? and(
-              eq(prepressJobs.id, jobId),
-              eq(prepressJobs.organizationId, organizationId)
-            )
-          : eq(prepressJobs.id, jobId),
+        where: and(eq(prepressJobs.id, jobId), eq(prepressJobs.organizationId, organizationId)),
       });
       
       if (!job) {
@@ -352,6 +499,21 @@ export function registerPrepressRoutes(app: Express): void {
           filename = `${job.id}-proof.png`;
           contentType = 'image/png';
           break;
+        case 'heatmap_png':
+          filePath = paths.heatmapPng;
+          filename = `${job.id}-ink-heatmap.png`;
+          contentType = 'image/png';
+          break;
+        case 'cut_svg':
+          filePath = paths.cutSvg;
+          filename = `${job.id}-cut.svg`;
+          contentType = 'image/svg+xml';
+          break;
+        case 'cut_dxf':
+          filePath = paths.cutDxf;
+          filename = `${job.id}-cut.dxf`;
+          contentType = 'application/dxf';
+          break;
         case 'fixed_pdf':
           filePath = paths.fixedPdf;
           filename = `${job.id}-fixed.pdf`;
@@ -387,19 +549,15 @@ export function registerPrepressRoutes(app: Express): void {
   });
   
   // GET /api/prepress/jobs/:jobId/findings - Get all findings for a job
-  app.get('/api/prepress/jobs/:jobId/findings', async (req: Request, res: Response) => {
+  app.get('/api/prepress/jobs/:jobId/findings', isAuthenticated, tenantContext, requireInternalUser, async (req: Request, res: Response) => {
     try {
       const { jobId } = req.params;
-      const organizationId = (req as any).organizationId || 'standalone';
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: 'Missing organization context' });
       
       // Verify job exists with org-scoped query
       const job = await db.query.prepressJobs.findFirst({
-        where: organizationId !== 'standalone'
-          ? and(
-              eq(prepressJobs.id, jobId),
-              eq(prepressJobs.organizationId, organizationId)
-            )
-          : eq(prepressJobs.id, jobId),
+        where: and(eq(prepressJobs.id, jobId), eq(prepressJobs.organizationId, organizationId)),
       });
       
       if (!job) {
@@ -425,19 +583,15 @@ export function registerPrepressRoutes(app: Express): void {
   });
   
   // GET /api/prepress/jobs/:jobId/fixes - Get all fix logs for a job
-  app.get('/api/prepress/jobs/:jobId/fixes', async (req: Request, res: Response) => {
+  app.get('/api/prepress/jobs/:jobId/fixes', isAuthenticated, tenantContext, requireInternalUser, async (req: Request, res: Response) => {
     try {
       const { jobId } = req.params;
-      const organizationId = (req as any).organizationId || 'standalone';
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: 'Missing organization context' });
       
       // Verify job exists with org-scoped query
       const job = await db.query.prepressJobs.findFirst({
-        where: organizationId !== 'standalone'
-          ? and(
-              eq(prepressJobs.id, jobId),
-              eq(prepressJobs.organizationId, organizationId)
-            )
-          : eq(prepressJobs.id, jobId),
+        where: and(eq(prepressJobs.id, jobId), eq(prepressJobs.organizationId, organizationId)),
       });
       
       if (!job) {
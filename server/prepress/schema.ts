@@ -1,4 +1,4 @@
-import { pgTable, varchar, text, bigint, uuid, timestamp, pgEnum, jsonb, index, integer } from "drizzle-orm/pg-core";
+import { pgTable, varchar, text, bigint, uuid, timestamp, pgEnum, jsonb, index, uniqueIndex, integer, boolean } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -45,9 +45,94 @@ export const prepressFixTypeEnum = pgEnum('prepress_fix_type', [
   'embed_fonts',
   'remove_spot_color',
   'pdf_normalize',
+  'add_bleed',
+  'scale_to_trim',
+  'outline_fonts',
+  'rotate_pages',
   'other'
 ]);
 
+/**
+ * Auto-fix catalog keys (selectable per check_and_fix job, applied in this order)
+ */
+export const PREPRESS_FIX_KEYS = [
+  'rotate_to_orientation',
+  'scale_to_trim',
+  'add_bleed_mirror',
+  'add_bleed_stretch',
+  'rgb_to_cmyk',
+  'flatten_transparency',
+  'embed_fonts',
+  'outline_fonts',
+  'normalize_via_ghostscript',
+] as const;
+export type PrepressFixKey = typeof PREPRESS_FIX_KEYS[number];
+
+/**
+ * Preflight profile rules
+ * 
+ * What a job is checked against and how issues are weighted in the score.
+ * Every field has a default, so `{}` is the built-in profile (the checks every
+ * job ran before profiles existed).
+ */
+export const PREFLIGHT_COLOR_SPACES = ['cmyk', 'rgb', 'gray'] as const;
+export type PreflightColorSpace = typeof PREFLIGHT_COLOR_SPACES[number];
+
+export const prepressProfileRulesSchema = z.object({
+  // Images below this effective (placed) resolution are flagged; null = not checked
+  minEffectiveDpi: z.number().int().min(1).max(2400).nullable().default(null),
+  // Process color spaces the file may use; null = any
+  allowedColorSpaces: z.array(z.enum(PREFLIGHT_COLOR_SPACES)).min(1).nullable().default(null),
+  spotColorsAllowed: z.boolean().default(true),
+  // Total area coverage limit (C+M+Y+K, percent); null = not checked
+  maxInkCoveragePercent: z.number().min(100).max(400).nullable().default(null),
+  // true escalates unembedded fonts to BLOCKER, false downgrades them to INFO, null leaves them as WARNING
+  fontEmbeddingRequired: z.boolean().nullable().default(null),
+  // Contour-cut products: a path in a cut separation (CutContour, DieLine, ...) must exist
+  cutContourRequired: z.boolean().default(false),
+  // PNG/TIF with transparency: trace a cut path this far (inches) outside the artwork; null = off
+  cutContourOffsetIn: z.number().min(0).max(2).nullable().default(null),
+  pageCount: z.object({
+    min: z.number().int().min(1).nullable().default(null),
+    max: z.number().int().min(1).nullable().default(null),
+    multipleOf: z.number().int().min(1).nullable().default(null),
+  }).default({}),
+  // Score = 100 - sum(count * penalty)
+  scoring: z.object({
+    blockerPenalty: z.number().min(0).max(100).default(10),
+    warningPenalty: z.number().min(0).max(100).default(2),
+    infoPenalty: z.number().min(0).max(100).default(0.5),
+  }).default({}),
+});
+
+export type PrepressProfileRules = z.infer<typeof prepressProfileRulesSchema>;
+
+// Org-defined preflight profiles (per product type, org default, or picked per job)
+export const prepressProfiles = pgTable("prepress_profiles", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  
+  // Applied automatically to jobs whose linked line item's product has this type
+  productTypeId: varchar("product_type_id"),
+  // Applied when nothing more specific matches (at most one per org)
+  isDefault: boolean("is_default").notNull().default(false),
+  
+  rules: jsonb("rules").$type<PrepressProfileRules>().notNull(),
+  
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("prepress_profiles_org_idx").on(table.organizationId),
+  uniqueIndex("prepress_profiles_org_product_type_uidx")
+    .on(table.organizationId, table.productTypeId)
+    .where(sql`${table.productTypeId} IS NOT NULL`),
+  uniqueIndex("prepress_profiles_org_default_uidx")
+    .on(table.organizationId)
+    .where(sql`${table.isDefault}`),
+]);
+
 // Table definition
 export const prepressJobs = pgTable("prepress_jobs", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -79,6 +164,9 @@ export const prepressJobs = pgTable("prepress_jobs", {
   outputManifest: jsonb("output_manifest").$type<{
     proof_png?: boolean;
     fixed_pdf?: boolean;
+    heatmap_png?: boolean;
+    cut_svg?: boolean;
+    cut_dxf?: boolean;
   } | null>(),
   error: jsonb("error").$type<{
     message: string;
@@ -88,8 +176,19 @@ export const prepressJobs = pgTable("prepress_jobs", {
   
   // Progress tracking
   progressMessage: text("progress_message"),
+  
+  // Optional order linkage: when set, artwork is verified against the ordered size
+  // (no FK here - this module stays independent of the TitanOS schema)
+  orderLineItemId: varchar("order_line_item_id"),
+  
+  // Explicit profile pick; otherwise resolved from product type / org default at run time
+  profileId: uuid("profile_id").references(() => prepressProfiles.id, { onDelete: 'set null' }),
+  
+  // Fixes picked at upload for check_and_fix; null runs the default normalize pass
+  requestedFixes: jsonb("requested_fixes").$type<PrepressFixKey[]>(),
 }, (table) => [
   index("prepress_jobs_org_idx").on(table.organizationId),
+  index("prepress_jobs_order_line_item_idx").on(table.orderLineItemId),
   index("prepress_jobs_status_idx").on(table.status),
   index("prepress_jobs_created_at_idx").on(table.createdAt),
   index("prepress_jobs_expires_at_idx").on(table.expiresAt),
@@ -109,6 +208,9 @@ export const insertPrepressJobSchema = createInsertSchema(prepressJobs).omit({
   status: z.enum(['queued']).default('queued'), // Jobs always start as queued
   mode: z.enum(['check', 'check_and_fix']).default('check'),
   organizationId: z.string().nullable().optional(),
+  orderLineItemId: z.string().nullable().optional(),
+  profileId: z.string().uuid().nullable().optional(),
+  requestedFixes: z.array(z.enum(PREPRESS_FIX_KEYS)).nullable().optional(),
   originalFilename: z.string().min(1).max(512),
   contentType: z.string().min(1).max(255),
   sizeBytes: z.number().int().positive(),
@@ -136,6 +238,9 @@ export const prepressOutputManifestSchema = z.object({
   report_json: z.boolean().optional(),
   proof_png: z.boolean().optional(),
   fixed_pdf: z.boolean().optional(),
+  heatmap_png: z.boolean().optional(),
+  cut_svg: z.boolean().optional(),
+  cut_dxf: z.boolean().optional(),
 });
 
 export const prepressErrorSchema = z.object({
@@ -228,6 +333,26 @@ export const insertPrepressFixLogSchema = createInsertSchema(prepressFixLogs).om
   createdAt: true,
 });
 
+export const insertPrepressProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(2000).nullable().optional(),
+  productTypeId: z.string().min(1).nullable().optional(),
+  isDefault: z.boolean().default(false),
+  rules: prepressProfileRulesSchema.default({}),
+});
+
+export const updatePrepressProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(2000).nullable(),
+  productTypeId: z.string().min(1).nullable(),
+  isDefault: z.boolean(),
+  rules: prepressProfileRulesSchema,
+}).partial();
+
+export type PrepressProfile = typeof prepressProfiles.$inferSelect;
+export type InsertPrepressProfile = z.infer<typeof insertPrepressProfileSchema>;
+export type UpdatePrepressProfile = z.infer<typeof updatePrepressProfileSchema>;
+
 export type PrepressFinding = typeof prepressFindings.$inferSelect;
 export type InsertPrepressFinding = z.infer<typeof insertPrepressFindingSchema>;
 export type PrepressFixLog = typeof prepressFixLogs.$inferSelect;
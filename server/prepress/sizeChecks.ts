@@ -0,0 +1,243 @@
+import type { PageBoxes, PdfRect, PreflightSizeProfile, PrepressIssue } from "./types";
+
+/**
+ * Trim / Bleed / Safe-Zone Checks
+ *
+ * Verifies page boxes against the size the customer ordered.
+ * Pure functions over PageBoxes so they can be tested without the toolchain.
+ *
+ * Issue bboxes are normalized to the MediaBox with a top-left origin (same
+ * orientation as the rendered proof PNG).
+ */
+
+const PT_PER_IN = 72;
+
+/** Default tolerance: 1/16" covers rounding in most design apps' exports */
+export const DEFAULT_SIZE_TOLERANCE_IN = 0.0625;
+
+type Side = "left" | "right" | "top" | "bottom";
+
+const SIDES: Side[] = ["left", "right", "top", "bottom"];
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function inset(rect: PdfRect, amount: number): PdfRect {
+  return {
+    x: rect.x + amount,
+    y: rect.y + amount,
+    width: rect.width - 2 * amount,
+    height: rect.height - 2 * amount,
+  };
+}
+
+/**
+ * Normalize a rect (PDF user space) to 0..1 of the MediaBox, top-left origin
+ */
+function normalizeToMedia(rect: PdfRect, media: PdfRect): NonNullable<PrepressIssue["bbox"]> {
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  const x1 = clamp((rect.x - media.x) / media.width);
+  const x2 = clamp((rect.x + rect.width - media.x) / media.width);
+  const top = clamp((media.y + media.height - (rect.y + rect.height)) / media.height);
+  const bottom = clamp((media.y + media.height - rect.y) / media.height);
+  return { x: round3(x1), y: round3(top), w: round3(x2 - x1), h: round3(bottom - top) };
+}
+
+function matchesSize(widthIn: number, heightIn: number, wantW: number, wantH: number, tol: number): boolean {
+  const direct = Math.abs(widthIn - wantW) <= tol && Math.abs(heightIn - wantH) <= tol;
+  const rotated = Math.abs(widthIn - wantH) <= tol && Math.abs(heightIn - wantW) <= tol;
+  return direct || rotated;
+}
+
+/**
+ * Work out where the trim is on a page.
+ *
+ * Declared TrimBox wins. Without one, a MediaBox that is exactly the ordered
+ * size plus bleed is taken as "bleed included" and the trim is inferred inside it;
+ * otherwise the CropBox (or MediaBox) is the trim.
+ */
+export function resolveTrim(
+  page: PageBoxes,
+  profile: PreflightSizeProfile
+): { rect: PdfRect; source: "TrimBox" | "inferred_from_bleed" | "CropBox" } {
+  if (page.hasTrimBox) {
+    return { rect: page.trimBox, source: "TrimBox" };
+  }
+
+  if (profile.bleedIn > 0) {
+    const media = page.mediaBox;
+    const bleedPt = profile.bleedIn * PT_PER_IN;
+    const matchesWithBleed = matchesSize(
+      media.width / PT_PER_IN,
+      media.height / PT_PER_IN,
+      profile.trimWidthIn + 2 * profile.bleedIn,
+      profile.trimHeightIn + 2 * profile.bleedIn,
+      profile.toleranceIn
+    );
+    if (matchesWithBleed) {
+      return { rect: inset(media, bleedPt), source: "inferred_from_bleed" };
+    }
+  }
+
+  return { rect: page.cropBox, source: "CropBox" };
+}
+
+/**
+ * Bleed available beyond the trim on each side, in inches.
+ * Uses the declared BleedBox when present, otherwise everything out to the MediaBox.
+ */
+function bleedBySide(page: PageBoxes, trim: PdfRect): Record<Side, number> {
+  const outer = page.hasBleedBox ? page.bleedBox : page.mediaBox;
+  return {
+    left: round3((trim.x - outer.x) / PT_PER_IN),
+    right: round3((outer.x + outer.width - (trim.x + trim.width)) / PT_PER_IN),
+    bottom: round3((trim.y - outer.y) / PT_PER_IN),
+    top: round3((outer.y + outer.height - (trim.y + trim.height)) / PT_PER_IN),
+  };
+}
+
+/**
+ * Margin band between the trim edge and the safe line on one side
+ */
+function safeBand(trim: PdfRect, safePt: number, side: Side): PdfRect {
+  switch (side) {
+    case "left":
+      return { x: trim.x, y: trim.y, width: safePt, height: trim.height };
+    case "right":
+      return { x: trim.x + trim.width - safePt, y: trim.y, width: safePt, height: trim.height };
+    case "bottom":
+      return { x: trim.x, y: trim.y, width: trim.width, height: safePt };
+    case "top":
+      return { x: trim.x, y: trim.y + trim.height - safePt, width: trim.width, height: safePt };
+  }
+}
+
+/**
+ * How far (points) content intrudes past the safe line on each side, and
+ * whether it reaches the trim (a full-bleed background does; type near the edge does not).
+ */
+function contentEdge(content: PdfRect, trim: PdfRect, side: Side): { intoBand: number; reachesTrim: boolean } {
+  switch (side) {
+    case "left":
+      return { intoBand: trim.x - content.x, reachesTrim: content.x <= trim.x };
+    case "right":
+      return {
+        intoBand: content.x + content.width - (trim.x + trim.width),
+        reachesTrim: content.x + content.width >= trim.x + trim.width,
+      };
+    case "bottom":
+      return { intoBand: trim.y - content.y, reachesTrim: content.y <= trim.y };
+    case "top":
+      return {
+        intoBand: content.y + content.height - (trim.y + trim.height),
+        reachesTrim: content.y + content.height >= trim.y + trim.height,
+      };
+  }
+}
+
+/**
+ * Verify every page against the ordered size profile
+ *
+ * - SIZE_MISMATCH (BLOCKER): trim is not the ordered width x height (either orientation)
+ * - MISSING_BLEED (BLOCKER when there is none, WARNING when short on some sides)
+ * - CONTENT_IN_SAFE_ZONE (WARNING): content stops between the safe line and the trim
+ */
+export function checkPageSizes(pages: PageBoxes[], profile: PreflightSizeProfile): PrepressIssue[] {
+  const issues: PrepressIssue[] = [];
+  const tol = profile.toleranceIn;
+  const expected = `${profile.trimWidthIn}" x ${profile.trimHeightIn}"`;
+
+  for (const page of pages) {
+    const media = page.mediaBox;
+    if (media.width <= 0 || media.height <= 0) continue;
+
+    const trim = resolveTrim(page, profile);
+    const trimWidthIn = round3(trim.rect.width / PT_PER_IN);
+    const trimHeightIn = round3(trim.rect.height / PT_PER_IN);
+
+    if (!matchesSize(trimWidthIn, trimHeightIn, profile.trimWidthIn, profile.trimHeightIn, tol)) {
+      const landscape = (trimWidthIn >= trimHeightIn) === (profile.trimWidthIn >= profile.trimHeightIn);
+      const wantW = landscape ? profile.trimWidthIn : profile.trimHeightIn;
+      const wantH = landscape ? profile.trimHeightIn : profile.trimWidthIn;
+      const scaleX = wantW / trimWidthIn;
+      const scaleY = wantH / trimHeightIn;
+
+      issues.push({
+        severity: "BLOCKER",
+        code: "SIZE_MISMATCH",
+        message: `Page ${page.page} trim is ${trimWidthIn}" x ${trimHeightIn}" but the order is ${expected}`,
+        page: page.page,
+        bbox: normalizeToMedia(trim.rect, media),
+        meta: {
+          expectedIn: { width: profile.trimWidthIn, height: profile.trimHeightIn },
+          actualIn: { width: trimWidthIn, height: trimHeightIn },
+          trimSource: trim.source,
+          // Proportional artwork can be scaled to fit instead of re-supplied
+          proportional: Math.abs(scaleX - scaleY) <= 0.01,
+          scale: round3(Math.min(scaleX, scaleY)),
+        },
+      });
+      // Bleed and safe-zone measurements are meaningless against the wrong trim
+      continue;
+    }
+
+    if (profile.bleedIn > 0) {
+      const sides = bleedBySide(page, trim.rect);
+      const shortSides = SIDES.filter((side) => sides[side] < profile.bleedIn - tol);
+
+      if (shortSides.length > 0) {
+        const noBleed = SIDES.every((side) => sides[side] <= tol);
+        issues.push({
+          severity: noBleed ? "BLOCKER" : "WARNING",
+          code: "MISSING_BLEED",
+          message: noBleed
+            ? `Page ${page.page} has no bleed; ${profile.bleedIn}" is required on all sides`
+            : `Page ${page.page} bleed is short on ${shortSides.join(", ")} (${profile.bleedIn}" required)`,
+          page: page.page,
+          bbox: normalizeToMedia(trim.rect, media),
+          meta: {
+            requiredIn: profile.bleedIn,
+            bleedIn: sides,
+            shortSides,
+            trimSource: trim.source,
+          },
+        });
+      }
+    }
+
+    // Content box comes from an unrotated render; skip rather than guess for rotated pages
+    if (profile.safeZoneIn > 0 && page.contentBox && page.rotation === 0) {
+      const safePt = profile.safeZoneIn * PT_PER_IN;
+      const tolPt = tol * PT_PER_IN;
+      const safe = inset(trim.rect, safePt);
+      const content: PdfRect = {
+        x: page.contentBox.x + media.x,
+        y: page.contentBox.y + media.y,
+        width: page.contentBox.width,
+        height: page.contentBox.height,
+      };
+
+      for (const side of SIDES) {
+        const edge = contentEdge(content, safe, side);
+        const reachesTrim = contentEdge(content, trim.rect, side).reachesTrim;
+        if (edge.intoBand > tolPt && !reachesTrim) {
+          issues.push({
+            severity: "WARNING",
+            code: "CONTENT_IN_SAFE_ZONE",
+            message: `Page ${page.page} has content within ${profile.safeZoneIn}" of the ${side} trim edge`,
+            page: page.page,
+            bbox: normalizeToMedia(safeBand(trim.rect, safePt, side), media),
+            meta: {
+              side,
+              safeZoneIn: profile.safeZoneIn,
+              intrusionIn: round3(edge.intoBand / PT_PER_IN),
+            },
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,111 @@
+import { db } from "../db";
+import { orderLineItems, orders, products } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import type { PrepressJob } from "./schema";
+import type { PreflightSizeProfile, PrepressIssue } from "./types";
+import { DEFAULT_SIZE_TOLERANCE_IN } from "./sizeChecks";
+
+/**
+ * Size Profile Resolver
+ *
+ * Builds the trim/bleed/safe-zone profile for a job from its linked
+ * order line item (ordered width x height) and that item's product.
+ * Fail-soft: an unresolvable link becomes an issue, never a job failure.
+ */
+
+export interface SizeProfileResult {
+  profile: PreflightSizeProfile | null;
+  issues: PrepressIssue[];
+}
+
+function toInches(value: string | null | undefined): number {
+  const parsed = value == null ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0;
+}
+
+/**
+ * Resolve the size profile for a job (null when the job is not linked to an order)
+ */
+export async function resolveSizeProfile(job: PrepressJob): Promise<SizeProfileResult> {
+  if (!job.orderLineItemId) {
+    return { profile: null, issues: [] };
+  }
+  // Line items are only looked up inside the job's own organization
+  if (!job.organizationId) {
+    return {
+      profile: null,
+      issues: [{
+        severity: 'WARNING',
+        code: 'SIZE_CHECK_SKIPPED',
+        message: 'Job has no organization; artwork was not checked against the ordered size',
+        meta: { orderLineItemId: job.orderLineItemId },
+      }],
+    };
+  }
+
+  try {
+    const [row] = await db
+      .select({
+        lineItemId: orderLineItems.id,
+        width: orderLineItems.width,
+        height: orderLineItems.height,
+        productId: products.id,
+        bleedIn: products.prepressBleedIn,
+        safeZoneIn: products.prepressSafeZoneIn,
+      })
+      .from(orderLineItems)
+      .innerJoin(orders, eq(orderLineItems.orderId, orders.id))
+      .leftJoin(products, eq(orderLineItems.productId, products.id))
+      .where(and(eq(orderLineItems.id, job.orderLineItemId), eq(orders.organizationId, job.organizationId)))
+      .limit(1);
+
+    if (!row) {
+      return {
+        profile: null,
+        issues: [{
+          severity: 'WARNING',
+          code: 'SIZE_CHECK_SKIPPED',
+          message: 'Linked order line item was not found; artwork was not checked against the ordered size',
+          meta: { orderLineItemId: job.orderLineItemId },
+        }],
+      };
+    }
+
+    const trimWidthIn = toInches(row.width);
+    const trimHeightIn = toInches(row.height);
+    if (!trimWidthIn || !trimHeightIn) {
+      return {
+        profile: null,
+        issues: [{
+          severity: 'INFO',
+          code: 'SIZE_CHECK_SKIPPED',
+          message: 'Linked order line item has no width/height; artwork was not checked against the ordered size',
+          meta: { orderLineItemId: row.lineItemId },
+        }],
+      };
+    }
+
+    return {
+      profile: {
+        source: { orderLineItemId: row.lineItemId, productId: row.productId },
+        trimWidthIn,
+        trimHeightIn,
+        bleedIn: toInches(row.bleedIn),
+        safeZoneIn: toInches(row.safeZoneIn),
+        toleranceIn: DEFAULT_SIZE_TOLERANCE_IN,
+      },
+      issues: [],
+    };
+
+  } catch (error: any) {
+    return {
+      profile: null,
+      issues: [{
+        severity: 'WARNING',
+        code: 'SIZE_CHECK_SKIPPED',
+        message: `Could not load the ordered size: ${error.message}`,
+        meta: { orderLineItemId: job.orderLineItemId },
+      }],
+    };
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Operational spot colors
+ * 
+ * Spot separations that drive finishing equipment or white ink rather than
+ * printing a brand color. They are never reported as spot color findings and
+ * never violate a "no spot colors" profile.
+ * - CutContour
+ * - SpotWhite
+ * - White
+ * - (add more as needed)
+ */
+const OPERATIONAL_SPOT_COLORS = [
+  'cutcontour',
+  'spotwhite',
+  'white',
+  'cut',
+  'dieline',
+];
+
+/**
+ * Cut-line separations: what cutters and RIPs read as the cut path.
+ * Compared with case, spaces, dashes and underscores ignored, so
+ * "Cut Contour", "Die-Line" and "THRU_CUT" all match.
+ */
+const CUT_CONTOUR_SPOT_COLORS = [
+  'cutcontour',
+  'contourcut',
+  'cut',
+  'cutline',
+  'dieline',
+  'diecut',
+  'thrucut',
+  'throughcut',
+  'kisscut',
+];
+
+export function isCutContourSpotColor(colorName: string): boolean {
+  return CUT_CONTOUR_SPOT_COLORS.includes(colorName.toLowerCase().replace(/[\s_-]+/g, ''));
+}
+
+export function isOperationalSpotColor(colorName: string): boolean {
+  return OPERATIONAL_SPOT_COLORS.includes(colorName.toLowerCase().trim()) || isCutContourSpotColor(colorName);
+}
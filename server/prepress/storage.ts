@@ -38,9 +38,21 @@ export function getJobPaths(jobId: string): PrepressPaths {
     reportJson: path.join(outputDir, 'report.json'),
     proofPng: path.join(outputDir, 'proof.png'),
     fixedPdf: path.join(outputDir, 'fixed.pdf'),
+    heatmapPng: path.join(outputDir, 'heatmap.png'),
+    cutSvg: path.join(outputDir, 'cut.svg'),
+    cutDxf: path.join(outputDir, 'cut.dxf'),
+    reportV2Json: path.join(outputDir, 'report_v2.json'),
+    pagesDir: path.join(outputDir, 'pages'),
   };
 }
 
+/**
+ * Path of a page preview PNG (1-indexed page)
+ */
+export function getPagePreviewPath(jobId: string, page: number): string {
+  return path.join(getJobPaths(jobId).pagesDir, `page-${page}.png`);
+}
+
 /**
  * Ensure a directory exists, creating it recursively if needed
  */
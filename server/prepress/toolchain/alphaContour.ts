@@ -0,0 +1,269 @@
+import sharp from "sharp";
+import { PDFDict, PDFDocument, PDFName, PDFNumber, PDFOperator, PDFOperatorNames, closePath, lineTo, moveTo, popGraphicsState, pushGraphicsState, setLineWidth, stroke } from "pdf-lib";
+
+/**
+ * Alpha Contour Tracer
+ *
+ * Builds a cut path for PNG/TIF artwork with a transparent background: the alpha channel is
+ * thresholded, grown by the requested offset and its outer boundary traced and simplified.
+ * The normalizer stamps the result onto the converted PDF as a CutContour spot stroke, so the
+ * rest of prepress (validation, cutter export) treats it like a designer-drawn cut line.
+ */
+
+export const GENERATED_CUT_SPOT_NAME = "CutContour";
+
+// Trace at most this many pixels on the long side; plenty for a cutter
+const MAX_TRACE_SIDE_PX = 1200;
+const ALPHA_THRESHOLD = 128;
+// Drop specks: outlines enclosing less than this many (traced) pixels
+const MIN_LOOP_AREA_PX = 16;
+// Simplification tolerance, traced pixels
+const SIMPLIFY_TOLERANCE_PX = 0.75;
+const CUT_LINE_WIDTH_PT = 0.25;
+
+export type ContourPoint = { x: number; y: number };
+
+export interface AlphaContour {
+  /** Outer outlines, normalized 0..1 over the image, top-left origin. */
+  loops: ContourPoint[][];
+  offsetIn: number;
+}
+
+/**
+ * Chamfer (3-4) distance of every pixel to the nearest opaque pixel, in units of 1/3 px
+ */
+function distanceToMask(mask: Uint8Array, width: number, height: number): Uint32Array {
+  const far = 0xffffffff;
+  const dist = new Uint32Array(width * height);
+  for (let i = 0; i < dist.length; i++) dist[i] = mask[i] ? 0 : far;
+
+  const relax = (i: number, j: number, cost: number) => {
+    if (dist[j] !== far && dist[j] + cost < dist[i]) dist[i] = dist[j] + cost;
+  };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) relax(i, i - 1, 3);
+      if (y > 0) {
+        relax(i, i - width, 3);
+        if (x > 0) relax(i, i - width - 1, 4);
+        if (x < width - 1) relax(i, i - width + 1, 4);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (x < width - 1) relax(i, i + 1, 3);
+      if (y < height - 1) {
+        relax(i, i + width, 3);
+        if (x < width - 1) relax(i, i + width + 1, 4);
+        if (x > 0) relax(i, i + width - 1, 4);
+      }
+    }
+  }
+  return dist;
+}
+
+/**
+ * Pixel-edge outlines of a mask. Edges run clockwise around filled pixels (y down), so outer
+ * outlines have positive shoelace area and holes negative; the image border counts as empty.
+ */
+function traceOutlines(mask: Uint8Array, width: number, height: number): ContourPoint[][] {
+  const stride = width + 1;
+  const outgoing = new Map<number, number[]>();
+  const filled = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+  const addEdge = (x1: number, y1: number, x2: number, y2: number) => {
+    const from = y1 * stride + x1;
+    const list = outgoing.get(from);
+    if (list) list.push(y2 * stride + x2);
+    else outgoing.set(from, [y2 * stride + x2]);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!filled(x, y)) continue;
+      if (!filled(x, y - 1)) addEdge(x, y, x + 1, y);
+      if (!filled(x + 1, y)) addEdge(x + 1, y, x + 1, y + 1);
+      if (!filled(x, y + 1)) addEdge(x + 1, y + 1, x, y + 1);
+      if (!filled(x - 1, y)) addEdge(x, y + 1, x, y);
+    }
+  }
+
+  const loops: ContourPoint[][] = [];
+  outgoing.forEach((_, startVertex) => {
+    while ((outgoing.get(startVertex)?.length ?? 0) > 0) {
+      const loop: ContourPoint[] = [];
+      let vertex = startVertex;
+      do {
+        loop.push({ x: vertex % stride, y: Math.floor(vertex / stride) });
+        const next = outgoing.get(vertex);
+        if (!next || next.length === 0) break;
+        vertex = next.pop()!;
+      } while (vertex !== startVertex);
+      loops.push(loop);
+    }
+  });
+  return loops;
+}
+
+function signedArea(loop: ContourPoint[]): number {
+  let sum = 0;
+  for (let i = 0; i < loop.length; i++) {
+    const a = loop[i];
+    const b = loop[(i + 1) % loop.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return sum / 2;
+}
+
+/** Ramer–Douglas–Peucker on an open polyline (endpoints kept). */
+function simplifyPolyline(points: ContourPoint[], tolerance: number): ContourPoint[] {
+  if (points.length < 3) return points;
+  const keep = new Uint8Array(points.length);
+  keep[0] = keep[points.length - 1] = 1;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    const a = points[first];
+    const b = points[last];
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const length = Math.hypot(dx, dy);
+    let maxDistance = 0;
+    let index = -1;
+    for (let i = first + 1; i < last; i++) {
+      const p = points[i];
+      const distance = length === 0
+        ? Math.hypot(p.x - a.x, p.y - a.y)
+        : Math.abs(dy * p.x - dx * p.y + b.x * a.y - b.y * a.x) / length;
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+    if (index >= 0 && maxDistance > tolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+/** Closed loop simplified by splitting it at its farthest point from the start. */
+function simplifyLoop(loop: ContourPoint[], tolerance: number): ContourPoint[] {
+  let far = 0;
+  let farDistance = -1;
+  loop.forEach((p, i) => {
+    const distance = Math.hypot(p.x - loop[0].x, p.y - loop[0].y);
+    if (distance > farDistance) {
+      farDistance = distance;
+      far = i;
+    }
+  });
+  const firstHalf = simplifyPolyline(loop.slice(0, far + 1), tolerance);
+  const secondHalf = simplifyPolyline([...loop.slice(far), loop[0]], tolerance);
+  return [...firstHalf, ...secondHalf.slice(1, -1)];
+}
+
+/**
+ * Trace the offset outline of an image's opaque area
+ *
+ * @param image - PNG/TIF bytes
+ * @param options.offsetIn - Distance outside the artwork, inches
+ * @param options.widthIn - Printed width of the image, inches (sets pixels per inch)
+ * @returns null when the image has no transparency to trace
+ */
+export async function traceAlphaContour(
+  image: Buffer,
+  options: { offsetIn: number; widthIn: number }
+): Promise<AlphaContour | null> {
+  const metadata = await sharp(image).metadata();
+  if (!metadata.hasAlpha || !metadata.width || !metadata.height) return null;
+
+  const scale = Math.min(1, MAX_TRACE_SIDE_PX / Math.max(metadata.width, metadata.height));
+  const { data, info } = await sharp(image)
+    .resize(Math.max(1, Math.round(metadata.width * scale)), Math.max(1, Math.round(metadata.height * scale)), { fit: "fill" })
+    .extractChannel("alpha")
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = info;
+
+  const mask = new Uint8Array(width * height);
+  let opaque = 0;
+  for (let i = 0; i < mask.length; i++) {
+    if (data[i * info.channels] >= ALPHA_THRESHOLD) {
+      mask[i] = 1;
+      opaque++;
+    }
+  }
+  // Nothing to cut around, or nothing transparent to cut through
+  if (opaque === 0 || opaque === mask.length) return null;
+
+  const offsetPx = (options.offsetIn * width) / options.widthIn;
+  if (offsetPx > 0) {
+    const dist = distanceToMask(mask, width, height);
+    const limit = offsetPx * 3;
+    for (let i = 0; i < mask.length; i++) mask[i] = dist[i] <= limit ? 1 : 0;
+  }
+
+  const loops = traceOutlines(mask, width, height)
+    .filter((loop) => signedArea(loop) >= MIN_LOOP_AREA_PX)
+    .map((loop) => simplifyLoop(loop, SIMPLIFY_TOLERANCE_PX))
+    .filter((loop) => loop.length >= 3)
+    .map((loop) => loop.map((p) => ({ x: p.x / width, y: p.y / height })));
+
+  return loops.length > 0 ? { loops, offsetIn: options.offsetIn } : null;
+}
+
+/**
+ * Stroke traced outlines onto page 1 of a PDF in a CutContour Separation
+ * (100% magenta alternate, the usual on-screen look of a cut line)
+ */
+export async function drawCutContour(pdfBuffer: Buffer, contour: AlphaContour): Promise<Buffer> {
+  const doc = await PDFDocument.load(pdfBuffer, { updateMetadata: false });
+  const page = doc.getPage(0);
+  const { x: left, y: bottom, width, height } = page.getMediaBox();
+
+  const tint = doc.context.obj({
+    FunctionType: 2,
+    Domain: [0, 1],
+    C0: [0, 0, 0, 0],
+    C1: [0, 1, 0, 0],
+    N: 1,
+  });
+  const separation = doc.context.register(
+    doc.context.obj([PDFName.of("Separation"), PDFName.of(GENERATED_CUT_SPOT_NAME), PDFName.of("DeviceCMYK"), tint])
+  );
+
+  const resources = page.node.Resources() ?? doc.context.obj({});
+  page.node.set(PDFName.of("Resources"), resources);
+  let colorSpaces = resources.lookupMaybe(PDFName.of("ColorSpace"), PDFDict);
+  if (!colorSpaces) {
+    colorSpaces = doc.context.obj({});
+    resources.set(PDFName.of("ColorSpace"), colorSpaces);
+  }
+  let key = "CSCut";
+  for (let n = 1; colorSpaces.has(PDFName.of(key)); n++) key = `CSCut${n}`;
+  colorSpaces.set(PDFName.of(key), separation);
+
+  const operators: PDFOperator[] = [
+    pushGraphicsState(),
+    PDFOperator.of(PDFOperatorNames.StrokingColorspace, [PDFName.of(key)]),
+    PDFOperator.of(PDFOperatorNames.StrokingColorN, [PDFNumber.of(1)]),
+    setLineWidth(CUT_LINE_WIDTH_PT),
+  ];
+  for (const loop of contour.loops) {
+    loop.forEach((p, i) => {
+      const x = left + p.x * width;
+      const y = bottom + height - p.y * height;
+      operators.push(i === 0 ? moveTo(x, y) : lineTo(x, y));
+    });
+    operators.push(closePath());
+  }
+  operators.push(stroke(), popGraphicsState());
+  page.pushOperators(...operators);
+
+  return Buffer.from(await doc.save());
+}
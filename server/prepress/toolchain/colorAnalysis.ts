@@ -0,0 +1,172 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+  type PDFObject,
+} from "pdf-lib";
+import type { ColorSpaceInfo, PrepressIssue } from "../types";
+
+/**
+ * Color Usage Analyzer
+ *
+ * Finds which process color spaces and spot colors a PDF uses, with pdf-lib:
+ * - color space resources, image and shading /ColorSpace entries
+ * - Separation / DeviceN colorants (spot names)
+ * - device color operators in page and form content (rg/RG, k/K, g/G)
+ */
+
+export interface ColorUsageResult {
+  colorSpace: ColorSpaceInfo | "not_analyzed";
+  issues: PrepressIssue[];
+}
+
+// Colorant names that are process inks (or special) rather than spot colors
+const NON_SPOT_COLORANTS = new Set(["Cyan", "Magenta", "Yellow", "Black", "All", "None"]);
+
+// Don't decode huge content streams; they are almost always image-heavy forms
+const MAX_CONTENT_BYTES = 20 * 1024 * 1024;
+
+const NUM = String.raw`[-+]?(?:\d+\.?\d*|\.\d+)`;
+const RGB_OPERATOR = new RegExp(String.raw`(?:^|\s)(?:${NUM}\s+){3}(?:rg|RG)(?=\s|$)`);
+const CMYK_OPERATOR = new RegExp(String.raw`(?:^|\s)(?:${NUM}\s+){4}(?:k|K)(?=\s|$)`);
+const GRAY_OPERATOR = new RegExp(String.raw`(?:^|\s)${NUM}\s+(?:g|G)(?=\s|$)`);
+
+interface ColorUsage {
+  rgb: boolean;
+  cmyk: boolean;
+  gray: boolean;
+  spots: Set<string>;
+}
+
+function nameOf(obj: PDFObject | undefined): string | null {
+  return obj instanceof PDFName ? obj.decodeText() : null;
+}
+
+function classifyColorSpace(doc: PDFDocument, raw: PDFObject | undefined, usage: ColorUsage, depth = 0): void {
+  if (!raw || depth > 4) return;
+  const obj = raw instanceof PDFRef ? doc.context.lookup(raw) : raw;
+
+  const name = nameOf(obj);
+  if (name) {
+    if (name === "DeviceRGB" || name === "CalRGB") usage.rgb = true;
+    else if (name === "DeviceCMYK") usage.cmyk = true;
+    else if (name === "DeviceGray" || name === "CalGray") usage.gray = true;
+    return;
+  }
+
+  if (!(obj instanceof PDFArray) || obj.size() === 0) return;
+  const family = nameOf(obj.get(0));
+
+  switch (family) {
+    case "ICCBased": {
+      const stream = doc.context.lookup(obj.get(1));
+      const components = stream instanceof PDFStream ? stream.dict.lookup(PDFName.of("N")) : undefined;
+      const n = components instanceof PDFNumber ? components.asNumber() : 0;
+      if (n === 3) usage.rgb = true;
+      else if (n === 4) usage.cmyk = true;
+      else if (n === 1) usage.gray = true;
+      return;
+    }
+    case "Separation": {
+      const colorant = nameOf(doc.context.lookup(obj.get(1)));
+      if (colorant && !NON_SPOT_COLORANTS.has(colorant)) usage.spots.add(colorant);
+      else if (colorant && colorant !== "All" && colorant !== "None") usage.cmyk = true;
+      return;
+    }
+    case "DeviceN": {
+      const colorants = doc.context.lookup(obj.get(1));
+      if (colorants instanceof PDFArray) {
+        for (let i = 0; i < colorants.size(); i++) {
+          const colorant = nameOf(doc.context.lookup(colorants.get(i)));
+          if (!colorant) continue;
+          if (!NON_SPOT_COLORANTS.has(colorant)) usage.spots.add(colorant);
+          else if (colorant !== "All" && colorant !== "None") usage.cmyk = true;
+        }
+      }
+      return;
+    }
+    case "Indexed":
+      classifyColorSpace(doc, obj.get(1), usage, depth + 1);
+      return;
+    default:
+      return;
+  }
+}
+
+function scanContent(stream: PDFObject | undefined, usage: ColorUsage): void {
+  if (!(stream instanceof PDFRawStream) || stream.contents.length > MAX_CONTENT_BYTES) return;
+  let text: string;
+  try {
+    text = Buffer.from(decodePDFRawStream(stream).decode()).toString("latin1");
+  } catch {
+    return; // Unsupported filter; resources still tell us most of the story
+  }
+  if (!usage.rgb && RGB_OPERATOR.test(text)) usage.rgb = true;
+  if (!usage.cmyk && CMYK_OPERATOR.test(text)) usage.cmyk = true;
+  if (!usage.gray && GRAY_OPERATOR.test(text)) usage.gray = true;
+}
+
+/**
+ * Analyze color usage across the whole document
+ */
+export async function analyzeColorUsage(pdfBuffer: Buffer): Promise<ColorUsageResult> {
+  try {
+    const doc = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true, updateMetadata: false });
+    const usage: ColorUsage = { rgb: false, cmyk: false, gray: false, spots: new Set() };
+    const colorSpaceKey = PDFName.of("ColorSpace");
+    const subtypeKey = PDFName.of("Subtype");
+
+    for (const [, obj] of doc.context.enumerateIndirectObjects()) {
+      const dict = obj instanceof PDFStream ? obj.dict : obj instanceof PDFDict ? obj : null;
+      if (!dict) continue;
+
+      // Resource dictionaries hold named color spaces; images/shadings hold one directly
+      const colorSpace = dict.get(colorSpaceKey);
+      const resolved = colorSpace instanceof PDFRef ? doc.context.lookup(colorSpace) : colorSpace;
+      if (resolved instanceof PDFDict) {
+        for (const value of resolved.values()) classifyColorSpace(doc, value, usage);
+      } else {
+        classifyColorSpace(doc, colorSpace, usage);
+      }
+
+      if (nameOf(dict.get(subtypeKey)) === "Form") scanContent(obj, usage);
+    }
+
+    for (const page of doc.getPages()) {
+      const contents = page.node.Contents();
+      if (contents instanceof PDFArray) {
+        for (let i = 0; i < contents.size(); i++) scanContent(doc.context.lookup(contents.get(i)), usage);
+      } else {
+        scanContent(contents, usage);
+      }
+    }
+
+    const spotColors = Array.from(usage.spots).sort();
+    return {
+      colorSpace: {
+        hasRGB: usage.rgb,
+        hasCMYK: usage.cmyk,
+        hasGray: usage.gray,
+        hasSpot: spotColors.length > 0,
+        spotColors,
+      },
+      issues: [],
+    };
+
+  } catch (error: any) {
+    return {
+      colorSpace: "not_analyzed",
+      issues: [{
+        severity: 'WARNING',
+        code: 'COLOR_ANALYSIS_FAILED',
+        message: `Could not analyze color usage: ${error.message}`,
+      }],
+    };
+  }
+}
@@ -0,0 +1,630 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  decodePDFRawStream,
+  type PDFObject,
+  type PDFPage,
+} from "pdf-lib";
+import { isCutContourSpotColor } from "../spotColors";
+import type { CutContourAnalysis, CutContourPage, PdfRect, PrepressIssue } from "../types";
+
+/**
+ * Cut Contour Extraction
+ *
+ * Finds the cut path of contour-cut products (stickers, decals, shaped signs) with pdf-lib:
+ * - cut-line spot separations (Separation / DeviceN colorants named CutContour, DieLine, ...)
+ * - every path stroked or filled while such a color space is selected, walking page content
+ *   and Form XObjects with the current transformation matrix applied
+ *
+ * The paths are kept so they can be exported for the cutter as SVG (curves kept) and DXF
+ * (curves flattened to polylines), both in the page's MediaBox space.
+ */
+
+export type CutSegment =
+  | { op: "M" | "L"; x: number; y: number }
+  | { op: "C"; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+  | { op: "Z" };
+
+export interface CutSubpath {
+  spotName: string;
+  segments: CutSegment[];
+}
+
+export interface CutContourPagePaths {
+  page: number;
+  mediaBox: PdfRect;
+  subpaths: CutSubpath[];
+}
+
+export interface CutContourResult {
+  cutContour: CutContourAnalysis | null;
+  pages: CutContourPagePaths[];
+  issues: PrepressIssue[];
+}
+
+// Same limit as the color analyzer: huge streams are image-heavy, not cut lines
+const MAX_CONTENT_BYTES = 20 * 1024 * 1024;
+// Stop collecting past this many segments; a cut path is never this detailed
+const MAX_CUT_SEGMENTS = 200_000;
+const MAX_FORM_DEPTH = 8;
+const CURVE_STEPS = 16;
+const PT_PER_IN = 72;
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** m × n in PDF's row-vector convention (apply m, then n). */
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function transform(m: Matrix, x: number, y: number): { x: number; y: number } {
+  return { x: m[0] * x + m[2] * y + m[4], y: m[1] * x + m[3] * y + m[5] };
+}
+
+function nameOf(obj: PDFObject | undefined): string | null {
+  return obj instanceof PDFName ? obj.decodeText() : null;
+}
+
+// ---------------------------------------------------------------------------
+// Content stream lexer (only what path and color operators need)
+// ---------------------------------------------------------------------------
+
+type Operand = number | { name: string } | null;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set("()<>[]{}/%".split("").map((c) => c.charCodeAt(0)));
+
+function isRegular(code: number): boolean {
+  return !WHITESPACE.has(code) && !DELIMITERS.has(code);
+}
+
+/**
+ * Tokenize `text` and call `onOperator` with the operands collected since the last operator.
+ * Strings, arrays and dictionaries become `null` operands; inline images are skipped.
+ */
+function lexContent(text: string, onOperator: (op: string, operands: Operand[]) => boolean | void): void {
+  let i = 0;
+  const n = text.length;
+  let operands: Operand[] = [];
+
+  while (i < n) {
+    const code = text.charCodeAt(i);
+    if (WHITESPACE.has(code)) {
+      i++;
+      continue;
+    }
+    const ch = text[i];
+
+    if (ch === "%") {
+      while (i < n && text[i] !== "\n" && text[i] !== "\r") i++;
+      continue;
+    }
+    if (ch === "(") {
+      let depth = 1;
+      i++;
+      while (i < n && depth > 0) {
+        const c = text[i];
+        if (c === "\\") i++;
+        else if (c === "(") depth++;
+        else if (c === ")") depth--;
+        i++;
+      }
+      operands.push(null);
+      continue;
+    }
+    if (ch === "<" || ch === ">") {
+      if (text[i + 1] === ch) {
+        i += 2; // << or >>
+      } else if (ch === "<") {
+        const end = text.indexOf(">", i);
+        i = end < 0 ? n : end + 1;
+        operands.push(null);
+      } else {
+        i++;
+      }
+      continue;
+    }
+    if (ch === "[" || ch === "]" || ch === "{" || ch === "}") {
+      i++;
+      continue;
+    }
+    if (ch === "/") {
+      let j = i + 1;
+      while (j < n && isRegular(text.charCodeAt(j))) j++;
+      const raw = text.slice(i + 1, j).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+      operands.push({ name: raw });
+      i = j;
+      continue;
+    }
+
+    let j = i;
+    while (j < n && isRegular(text.charCodeAt(j))) j++;
+    if (j === i) {
+      i++;
+      continue;
+    }
+    const word = text.slice(i, j);
+    i = j;
+
+    if (/^[+-]?(?:\d+\.?\d*|\.\d+)$/.test(word)) {
+      operands.push(parseFloat(word));
+      continue;
+    }
+    if (word === "true" || word === "false" || word === "null") {
+      operands.push(null);
+      continue;
+    }
+    if (word === "BI") {
+      // Inline image: skip the dictionary and binary data up to a standalone EI
+      const id = text.indexOf("ID", i);
+      const end = id < 0 ? -1 : text.slice(id + 3).search(/\sEI(?=\s|$)/);
+      i = end < 0 ? n : id + 3 + end + 3;
+      operands = [];
+      continue;
+    }
+
+    if (onOperator(word, operands) === false) return;
+    operands = [];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Interpreter
+// ---------------------------------------------------------------------------
+
+interface GraphicsState {
+  ctm: Matrix;
+  strokeCut: string | null; // cut separation selected for stroking, if any
+  fillCut: string | null;
+}
+
+interface WalkContext {
+  doc: PDFDocument;
+  subpaths: CutSubpath[];
+  spotNames: Set<string>;
+  segmentCount: number;
+  truncated: boolean;
+}
+
+/** Cut colorant a color space resolves to (Separation, or a DeviceN that includes one). */
+function cutColorantOf(doc: PDFDocument, raw: PDFObject | undefined): string | null {
+  const obj = raw instanceof PDFRef ? doc.context.lookup(raw) : raw;
+  if (!(obj instanceof PDFArray) || obj.size() < 2) return null;
+  const family = nameOf(obj.get(0));
+  if (family === "Separation") {
+    const colorant = nameOf(doc.context.lookup(obj.get(1)));
+    return colorant && isCutContourSpotColor(colorant) ? colorant : null;
+  }
+  if (family === "DeviceN") {
+    const colorants = doc.context.lookup(obj.get(1));
+    if (!(colorants instanceof PDFArray)) return null;
+    for (let i = 0; i < colorants.size(); i++) {
+      const colorant = nameOf(doc.context.lookup(colorants.get(i)));
+      if (colorant && isCutContourSpotColor(colorant)) return colorant;
+    }
+  }
+  return null;
+}
+
+function lookupDict(doc: PDFDocument, dict: PDFDict | undefined, key: string): PDFDict | undefined {
+  if (!dict) return undefined;
+  const value = doc.context.lookup(dict.get(PDFName.of(key)));
+  return value instanceof PDFDict ? value : undefined;
+}
+
+/** Cut colorant per color space resource name; also records every cut separation defined. */
+function cutColorSpaces(ctx: WalkContext, resources: PDFDict | undefined): Map<string, string> {
+  const map = new Map<string, string>();
+  const colorSpaces = lookupDict(ctx.doc, resources, "ColorSpace");
+  if (!colorSpaces) return map;
+  for (const [key, value] of colorSpaces.entries()) {
+    const colorant = cutColorantOf(ctx.doc, value);
+    if (!colorant) continue;
+    map.set(key.decodeText(), colorant);
+    ctx.spotNames.add(colorant);
+  }
+  return map;
+}
+
+function decodeContent(stream: PDFObject | undefined): string | null {
+  if (!(stream instanceof PDFRawStream) || stream.contents.length > MAX_CONTENT_BYTES) return null;
+  try {
+    return Buffer.from(decodePDFRawStream(stream).decode()).toString("latin1");
+  } catch {
+    return null; // Unsupported filter
+  }
+}
+
+function num(operands: Operand[], fromEnd: number): number {
+  const value = operands[operands.length - fromEnd];
+  return typeof value === "number" ? value : 0;
+}
+
+function walkContent(
+  ctx: WalkContext,
+  text: string,
+  resources: PDFDict | undefined,
+  initial: GraphicsState,
+  depth: number,
+  forms: Set<PDFObject>,
+): void {
+  const colorSpaces = cutColorSpaces(ctx, resources);
+  const xObjects = lookupDict(ctx.doc, resources, "XObject");
+  const stack: GraphicsState[] = [];
+  let gs: GraphicsState = { ...initial };
+
+  // Path under construction, in page space
+  let path: CutSegment[][] = [];
+  let current: CutSegment[] | null = null;
+  let point = { x: 0, y: 0 }; // current point, user space
+  let start = { x: 0, y: 0 };
+
+  const moveTo = (x: number, y: number) => {
+    current = [{ op: "M", ...transform(gs.ctm, x, y) }];
+    path.push(current);
+    point = start = { x, y };
+  };
+  const lineTo = (x: number, y: number) => {
+    if (!current) return moveTo(x, y);
+    current.push({ op: "L", ...transform(gs.ctm, x, y) });
+    point = { x, y };
+  };
+  const curveTo = (x1: number, y1: number, x2: number, y2: number, x: number, y: number) => {
+    if (!current) moveTo(x1, y1);
+    const c1 = transform(gs.ctm, x1, y1);
+    const c2 = transform(gs.ctm, x2, y2);
+    const end = transform(gs.ctm, x, y);
+    current!.push({ op: "C", x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+    point = { x, y };
+  };
+  const closePath = () => {
+    if (current && current.length > 0 && current[current.length - 1].op !== "Z") current.push({ op: "Z" });
+    current = null;
+    point = start;
+  };
+  const paint = (stroke: boolean, fill: boolean) => {
+    const spotName = (stroke ? gs.strokeCut : null) ?? (fill ? gs.fillCut : null);
+    if (spotName && !ctx.truncated) {
+      for (const segments of path) {
+        if (segments.length < 2) continue;
+        if (ctx.segmentCount + segments.length > MAX_CUT_SEGMENTS) {
+          ctx.truncated = true;
+          break;
+        }
+        ctx.segmentCount += segments.length;
+        ctx.subpaths.push({ spotName, segments });
+      }
+    }
+    path = [];
+    current = null;
+  };
+
+  lexContent(text, (op, operands) => {
+    switch (op) {
+      case "q":
+        stack.push({ ...gs });
+        break;
+      case "Q":
+        gs = stack.pop() ?? gs;
+        break;
+      case "cm":
+        gs.ctm = multiply([num(operands, 6), num(operands, 5), num(operands, 4), num(operands, 3), num(operands, 2), num(operands, 1)], gs.ctm);
+        break;
+      case "CS":
+      case "cs": {
+        const operand = operands[operands.length - 1];
+        const cut = operand && typeof operand === "object" ? colorSpaces.get(operand.name) ?? null : null;
+        if (op === "CS") gs.strokeCut = cut;
+        else gs.fillCut = cut;
+        break;
+      }
+      case "G":
+      case "RG":
+      case "K":
+        gs.strokeCut = null;
+        break;
+      case "g":
+      case "rg":
+      case "k":
+        gs.fillCut = null;
+        break;
+      case "m":
+        moveTo(num(operands, 2), num(operands, 1));
+        break;
+      case "l":
+        lineTo(num(operands, 2), num(operands, 1));
+        break;
+      case "c":
+        curveTo(num(operands, 6), num(operands, 5), num(operands, 4), num(operands, 3), num(operands, 2), num(operands, 1));
+        break;
+      case "v":
+        curveTo(point.x, point.y, num(operands, 4), num(operands, 3), num(operands, 2), num(operands, 1));
+        break;
+      case "y": {
+        const x = num(operands, 2);
+        const y = num(operands, 1);
+        curveTo(num(operands, 4), num(operands, 3), x, y, x, y);
+        break;
+      }
+      case "h":
+        closePath();
+        break;
+      case "re": {
+        const [x, y, w, h] = [num(operands, 4), num(operands, 3), num(operands, 2), num(operands, 1)];
+        moveTo(x, y);
+        lineTo(x + w, y);
+        lineTo(x + w, y + h);
+        lineTo(x, y + h);
+        closePath();
+        break;
+      }
+      case "S":
+        paint(true, false);
+        break;
+      case "s":
+        closePath();
+        paint(true, false);
+        break;
+      case "f":
+      case "F":
+      case "f*":
+        paint(false, true);
+        break;
+      case "B":
+      case "B*":
+        paint(true, true);
+        break;
+      case "b":
+      case "b*":
+        closePath();
+        paint(true, true);
+        break;
+      case "n":
+        paint(false, false);
+        break;
+      case "Do": {
+        const operand = operands[operands.length - 1];
+        if (!operand || typeof operand !== "object" || !xObjects || depth >= MAX_FORM_DEPTH) break;
+        const ref = xObjects.get(PDFName.of(operand.name));
+        const form = ctx.doc.context.lookup(ref);
+        if (!(form instanceof PDFStream) || nameOf(form.dict.get(PDFName.of("Subtype"))) !== "Form" || forms.has(form)) break;
+        const formText = decodeContent(form);
+        if (formText == null) break;
+
+        const matrixObj = form.dict.lookup(PDFName.of("Matrix"));
+        let matrix: Matrix = IDENTITY;
+        if (matrixObj instanceof PDFArray && matrixObj.size() === 6) {
+          matrix = Array.from({ length: 6 }, (_, k) => {
+            const value = matrixObj.lookup(k);
+            return value instanceof PDFNumber ? value.asNumber() : 0;
+          }) as Matrix;
+        }
+        const formResources = lookupDict(ctx.doc, form.dict, "Resources") ?? resources;
+        forms.add(form);
+        walkContent(ctx, formText, formResources, { ...gs, ctm: multiply(matrix, gs.ctm) }, depth + 1, forms);
+        forms.delete(form);
+        break;
+      }
+      default:
+        break;
+    }
+    return !ctx.truncated;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+/** Subpath as a polyline (curves flattened), page space. */
+export function flattenSubpath(segments: CutSegment[]): { points: Array<{ x: number; y: number }>; closed: boolean } {
+  const points: Array<{ x: number; y: number }> = [];
+  let closed = false;
+  for (const segment of segments) {
+    if (segment.op === "Z") {
+      closed = true;
+      continue;
+    }
+    if (segment.op === "C") {
+      const p0 = points[points.length - 1] ?? { x: segment.x1, y: segment.y1 };
+      for (let step = 1; step <= CURVE_STEPS; step++) {
+        const t = step / CURVE_STEPS;
+        const u = 1 - t;
+        points.push({
+          x: u * u * u * p0.x + 3 * u * u * t * segment.x1 + 3 * u * t * t * segment.x2 + t * t * t * segment.x,
+          y: u * u * u * p0.y + 3 * u * u * t * segment.y1 + 3 * u * t * t * segment.y2 + t * t * t * segment.y,
+        });
+      }
+      continue;
+    }
+    points.push({ x: segment.x, y: segment.y });
+  }
+  return { points, closed };
+}
+
+function boundsOf(subpaths: CutSubpath[]): PdfRect | null {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const subpath of subpaths) {
+    for (const point of flattenSubpath(subpath.segments).points) {
+      minX = Math.min(minX, point.x);
+      minY = Math.min(minY, point.y);
+      maxX = Math.max(maxX, point.x);
+      maxY = Math.max(maxY, point.y);
+    }
+  }
+  if (!Number.isFinite(minX)) return null;
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return { x: round(minX), y: round(minY), width: round(maxX - minX), height: round(maxY - minY) };
+}
+
+function toRect(box: { x: number; y: number; width: number; height: number }): PdfRect {
+  return { x: box.x, y: box.y, width: box.width, height: box.height };
+}
+
+function pageResources(doc: PDFDocument, page: PDFPage): PDFDict | undefined {
+  const resources = doc.context.lookup(page.node.getInheritableAttribute(PDFName.of("Resources")));
+  return resources instanceof PDFDict ? resources : undefined;
+}
+
+function pageContent(doc: PDFDocument, page: PDFPage): string {
+  const contents = page.node.Contents();
+  const streams: Array<PDFObject | undefined> = [];
+  if (contents instanceof PDFArray) {
+    for (let i = 0; i < contents.size(); i++) streams.push(doc.context.lookup(contents.get(i)));
+  } else {
+    streams.push(contents);
+  }
+  return streams.map(decodeContent).filter((text): text is string => text != null).join("\n");
+}
+
+/**
+ * Extract the cut path of every page
+ */
+export async function extractCutContour(pdfBuffer: Buffer): Promise<CutContourResult> {
+  try {
+    const doc = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true, updateMetadata: false });
+    const spotNames = new Set<string>();
+    const pages: CutContourPagePaths[] = [];
+    const summaries: CutContourPage[] = [];
+    let truncated = false;
+
+    doc.getPages().forEach((page, index) => {
+      const ctx: WalkContext = { doc, subpaths: [], spotNames, segmentCount: 0, truncated: false };
+      const initial: GraphicsState = { ctm: IDENTITY, strokeCut: null, fillCut: null };
+      walkContent(ctx, pageContent(doc, page), pageResources(doc, page), initial, 0, new Set());
+      truncated = truncated || ctx.truncated;
+
+      const mediaBox = toRect(page.getMediaBox());
+      pages.push({ page: index + 1, mediaBox, subpaths: ctx.subpaths });
+      summaries.push({
+        page: index + 1,
+        spotNames: Array.from(new Set(ctx.subpaths.map((s) => s.spotName))).sort(),
+        pathCount: ctx.subpaths.length,
+        bbox: boundsOf(ctx.subpaths),
+        mediaBox,
+        bleedBox: toRect(page.getBleedBox()),
+      });
+    });
+
+    const issues: PrepressIssue[] = [];
+    if (truncated) {
+      issues.push({
+        severity: "WARNING",
+        code: "CUT_CONTOUR_TRUNCATED",
+        message: `Cut path has more than ${MAX_CUT_SEGMENTS.toLocaleString()} segments; only part of it was read`,
+      });
+    }
+
+    const exportPage = summaries.find((page) => page.pathCount > 0)?.page;
+    return {
+      cutContour: { spotNames: Array.from(spotNames).sort(), pages: summaries, exportPage },
+      pages,
+      issues,
+    };
+
+  } catch (error: any) {
+    return {
+      cutContour: null,
+      pages: [],
+      issues: [{
+        severity: "WARNING",
+        code: "CUT_CONTOUR_ANALYSIS_FAILED",
+        message: `Could not read cut paths: ${error.message}`,
+      }],
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Cutter exports
+// ---------------------------------------------------------------------------
+
+function fmt(value: number): string {
+  return (Math.round(value * 1000) / 1000).toString();
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * Cut path of one page as SVG: MediaBox-sized, in points (width/height in inches),
+ * one <path> per cut separation with the separation name as id.
+ */
+export function cutContourToSvg(page: CutContourPagePaths): string {
+  const { x: left, y: bottom, width, height } = page.mediaBox;
+  const top = bottom + height;
+  const bySpot = new Map<string, string[]>();
+
+  for (const subpath of page.subpaths) {
+    const d: string[] = bySpot.get(subpath.spotName) ?? [];
+    for (const segment of subpath.segments) {
+      if (segment.op === "Z") d.push("Z");
+      else if (segment.op === "C") {
+        d.push(`C${fmt(segment.x1 - left)} ${fmt(top - segment.y1)} ${fmt(segment.x2 - left)} ${fmt(top - segment.y2)} ${fmt(segment.x - left)} ${fmt(top - segment.y)}`);
+      } else {
+        d.push(`${segment.op}${fmt(segment.x - left)} ${fmt(top - segment.y)}`);
+      }
+    }
+    bySpot.set(subpath.spotName, d);
+  }
+
+  const paths = Array.from(bySpot.entries()).map(
+    ([spotName, d]) =>
+      `  <path id="${escapeXml(spotName)}" d="${d.join(" ")}" fill="none" stroke="#ff00ff" stroke-width="0.5"/>`,
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${fmt(width / PT_PER_IN)}in" height="${fmt(height / PT_PER_IN)}in" viewBox="0 0 ${fmt(width)} ${fmt(height)}">`,
+    ...paths,
+    `</svg>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Cut path of one page as AutoCAD R12 DXF: one POLYLINE per subpath (curves flattened),
+ * inches from the MediaBox lower-left corner, layer named after the cut separation.
+ */
+export function cutContourToDxf(page: CutContourPagePaths): string {
+  const { x: left, y: bottom } = page.mediaBox;
+  const lines: Array<string | number> = [
+    0, "SECTION", 2, "HEADER",
+    9, "$ACADVER", 1, "AC1009",
+    9, "$INSUNITS", 70, 1,
+    0, "ENDSEC",
+    0, "SECTION", 2, "ENTITIES",
+  ];
+
+  for (const subpath of page.subpaths) {
+    const { points, closed } = flattenSubpath(subpath.segments);
+    if (points.length < 2) continue;
+    const layer = subpath.spotName.replace(/[^A-Za-z0-9_-]/g, "_");
+    lines.push(0, "POLYLINE", 8, layer, 66, 1, 70, closed ? 1 : 0);
+    for (const point of points) {
+      lines.push(0, "VERTEX", 8, layer, 10, fmt((point.x - left) / PT_PER_IN), 20, fmt((point.y - bottom) / PT_PER_IN));
+    }
+    lines.push(0, "SEQEND", 8, layer);
+  }
+
+  lines.push(0, "ENDSEC", 0, "EOF");
+  return lines.join("\n") + "\n";
+}
@@ -44,13 +44,14 @@ async function getToolVersion(command: string): Promise<string | undefined> {
  * @returns Object with boolean flags for each tool
  */
 export async function detectTools(): Promise<ToolAvailability> {
-  const [qpdf, pdfinfo, pdffonts, ghostscript, pdftocairo, imagemagick] = await Promise.all([
+  const [qpdf, pdfinfo, pdffonts, ghostscript, pdftocairo, imagemagick, pdfimages] = await Promise.all([
     commandExists('qpdf'),
     commandExists('pdfinfo'),
     commandExists('pdffonts'),
     commandExists('gs'), // Ghostscript command
     commandExists('pdftocairo'),
     commandExists('convert'), // ImageMagick command
+    commandExists('pdfimages'),
   ]);
   
   return {
@@ -60,6 +61,7 @@ export async function detectTools(): Promise<ToolAvailability> {
     ghostscript,
     pdftocairo,
     imagemagick,
+    pdfimages,
   };
 }
 
@@ -95,6 +97,10 @@ export async function detectToolVersions(availability: ToolAvailability): Promis
     versions.imagemagick = await getToolVersion('convert');
   }
   
+  if (availability.pdfimages) {
+    versions.pdfimages = await getToolVersion('pdfimages');
+  }
+  
   return versions;
 }
 
@@ -3,6 +3,7 @@ import { promisify } from "util";
 import { writeFile as fsWriteFile, readFile as fsReadFile } from "fs/promises";
 import * as path from "path";
 import * as os from "os";
+import type { PdfRect } from "../types";
 
 const execAsync = promisify(exec);
 
@@ -82,3 +83,172 @@ export async function normalizeViaGhostscript(pdfBuffer: Buffer): Promise<Buffer
     }
   }
 }
+
+/**
+ * Measure painted content per page via Ghostscript's bbox device
+ * 
+ * Returns one rectangle per page (points, relative to the MediaBox origin),
+ * or null for pages with nothing painted.
+ * 
+ * @param pdfBuffer - Input PDF as Buffer
+ * @returns Content bounding boxes, indexed by page
+ */
+export async function measureContentBoxes(pdfBuffer: Buffer): Promise<Array<PdfRect | null>> {
+  const tempDir = os.tmpdir();
+  const tempInput = path.join(tempDir, `gs-bbox-input-${Date.now()}.pdf`);
+  
+  try {
+    await fsWriteFile(tempInput, pdfBuffer);
+    
+    // bbox device writes %%HiResBoundingBox lines to stderr, one per page
+    const gsCommand = [
+      'gs',
+      '-dSAFER',
+      '-dBATCH',
+      '-dNOPAUSE',
+      '-dQUIET',
+      '-sDEVICE=bbox',
+      `"${tempInput}"`,
+    ].join(' ');
+    
+    const { stdout, stderr } = await execAsync(gsCommand, {
+      timeout: DEFAULT_TIMEOUT_MS,
+      maxBuffer: 5 * 1024 * 1024,
+    });
+    
+    return parseBBoxOutput(`${stdout}\n${stderr}`);
+    
+  } finally {
+    try {
+      const fs = await import('fs/promises');
+      await fs.unlink(tempInput).catch(() => {});
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+/**
+ * Parse bbox device output into per-page rectangles
+ */
+export function parseBBoxOutput(output: string): Array<PdfRect | null> {
+  const boxes: Array<PdfRect | null> = [];
+  const pattern = /%%HiResBoundingBox:\s+([-\d.]+)\s+([-\d.]+)\s+([-\d.]+)\s+([-\d.]+)/g;
+  
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(output)) !== null) {
+    const [x1, y1, x2, y2] = match.slice(1, 5).map(Number);
+    const width = x2 - x1;
+    const height = y2 - y1;
+    boxes.push(width > 0 && height > 0 ? { x: x1, y: y1, width, height } : null);
+  }
+  
+  return boxes;
+}
+
+/**
+ * Rewrite a PDF through pdfwrite with fix-specific switches
+ * 
+ * Shared by the auto-fix catalog; every fix starts from the same
+ * /prepress baseline as normalizeViaGhostscript.
+ */
+async function rewriteViaGhostscript(pdfBuffer: Buffer, label: string, switches: string[]): Promise<Buffer> {
+  const tempDir = os.tmpdir();
+  const timestamp = Date.now();
+  const tempInput = path.join(tempDir, `gs-${label}-input-${timestamp}.pdf`);
+  const tempOutput = path.join(tempDir, `gs-${label}-output-${timestamp}.pdf`);
+  
+  try {
+    await fsWriteFile(tempInput, pdfBuffer);
+    
+    const gsCommand = [
+      'gs',
+      '-dSAFER',
+      '-dBATCH',
+      '-dNOPAUSE',
+      '-dQUIET',
+      '-sDEVICE=pdfwrite',
+      '-dPDFSETTINGS=/prepress',
+      '-dAutoRotatePages=/None',
+      ...switches,
+      `-sOutputFile="${tempOutput}"`,
+      `"${tempInput}"`,
+    ].join(' ');
+    
+    await execAsync(gsCommand, {
+      timeout: DEFAULT_TIMEOUT_MS,
+      maxBuffer: 50 * 1024 * 1024,
+    });
+    
+    return await fsReadFile(tempOutput);
+    
+  } finally {
+    try {
+      const fs = await import('fs/promises');
+      await Promise.all([
+        fs.unlink(tempInput).catch(() => {}),
+        fs.unlink(tempOutput).catch(() => {}),
+      ]);
+    } catch {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+/**
+ * Convert all color to DeviceCMYK
+ * 
+ * Uses the given output ICC profile (e.g. GRACoL/FOGRA) when provided,
+ * otherwise Ghostscript's default CMYK profile.
+ * 
+ * @param pdfBuffer - Input PDF as Buffer
+ * @param options.iccProfilePath - Output intent ICC profile on disk
+ * @returns Converted PDF as Buffer
+ */
+export async function convertToCmykViaGhostscript(
+  pdfBuffer: Buffer,
+  options: { iccProfilePath?: string | null } = {}
+): Promise<Buffer> {
+  const icc = options.iccProfilePath;
+  return rewriteViaGhostscript(pdfBuffer, 'cmyk', [
+    '-dCompatibilityLevel=1.4',
+    '-sColorConversionStrategy=CMYK',
+    '-dProcessColorModel=/DeviceCMYK',
+    // -dSAFER blocks reading arbitrary files; allow just the profile
+    ...(icc ? [`--permit-file-read="${icc}"`, `-sOutputICCProfile="${icc}"`] : []),
+  ]);
+}
+
+/**
+ * Flatten live transparency (PDF 1.3 output cannot carry it)
+ */
+export async function flattenTransparencyViaGhostscript(pdfBuffer: Buffer): Promise<Buffer> {
+  return rewriteViaGhostscript(pdfBuffer, 'flatten', [
+    '-dCompatibilityLevel=1.3',
+    '-dColorConversionStrategy=/LeaveColorUnchanged',
+  ]);
+}
+
+/**
+ * Embed (subset) every font Ghostscript can resolve, including substitutes
+ * for missing base fonts
+ */
+export async function embedFontsViaGhostscript(pdfBuffer: Buffer): Promise<Buffer> {
+  return rewriteViaGhostscript(pdfBuffer, 'embed', [
+    '-dCompatibilityLevel=1.4',
+    '-dColorConversionStrategy=/LeaveColorUnchanged',
+    '-dEmbedAllFonts=true',
+    '-dSubsetFonts=true',
+  ]);
+}
+
+/**
+ * Convert all text to outlines (no fonts left to embed)
+ */
+export async function outlineFontsViaGhostscript(pdfBuffer: Buffer): Promise<Buffer> {
+  return rewriteViaGhostscript(pdfBuffer, 'outline', [
+    '-dCompatibilityLevel=1.4',
+    '-dColorConversionStrategy=/LeaveColorUnchanged',
+    '-dNoOutputFonts',
+  ]);
+}
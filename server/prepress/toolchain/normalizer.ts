@@ -3,6 +3,8 @@ import { promisify } from "util";
 import { writeFile, readFile, deleteFile } from "../storage";
 import path from "path";
 import os from "os";
+import { PDFDocument } from "pdf-lib";
+import { GENERATED_CUT_SPOT_NAME, drawCutContour, traceAlphaContour } from "./alphaContour";
 
 const execAsync = promisify(exec);
 const TOOL_TIMEOUT_MS = parseInt(process.env.PREPRESS_TOOL_TIMEOUT_MS || '180000');
@@ -11,7 +13,8 @@ const TOOL_TIMEOUT_MS = parseInt(process.env.PREPRESS_TOOL_TIMEOUT_MS || '180000
  * File Format Normalizer
  * 
  * Converts various print file formats (JPG, PNG, TIF, AI, PSD) into PDF
- * for downstream preflight processing.
+ * for downstream preflight processing. PNG/TIF with transparency can get a
+ * CutContour path traced around the artwork (see alphaContour.ts).
  * 
  * Fail-soft: Missing tools produce warnings, not crashes.
  */
@@ -41,6 +44,16 @@ export interface NormalizationResult {
     height?: number;
     colorSpace?: string;
   };
+  generatedCutContour?: {
+    spotName: string;
+    offsetIn: number;
+    pathCount: number;
+  };
+}
+
+export interface NormalizeOptions {
+  // Trace a cut path this far (inches) outside the opaque area of PNG/TIF inputs; null/undefined = off
+  cutContourOffsetIn?: number | null;
 }
 
 /**
@@ -159,7 +172,8 @@ async function getImageMetadata(inputPath: string): Promise<{
  */
 async function normalizeRasterToPdf(
   buffer: Buffer,
-  format: 'jpg' | 'jpeg' | 'png' | 'tif' | 'tiff'
+  format: 'jpg' | 'jpeg' | 'png' | 'tif' | 'tiff',
+  options: NormalizeOptions = {}
 ): Promise<NormalizationResult> {
   const tempDir = os.tmpdir();
   const inputPath = path.join(tempDir, `prepress-input-${Date.now()}.${format}`);
@@ -237,6 +251,10 @@ async function normalizeRasterToPdf(
       result.normalizedBuffer = normalizedBuffer;
       result.notes.push('Converted to PDF using ImageMagick');
       
+      if (options.cutContourOffsetIn != null && format !== 'jpg' && format !== 'jpeg') {
+        await addGeneratedCutContour(result, buffer, options.cutContourOffsetIn);
+      }
+      
     } catch (convertError: any) {
       // ImageMagick not available or conversion failed
       result.issues.push({
@@ -260,6 +278,49 @@ async function normalizeRasterToPdf(
   return result;
 }
 
+/**
+ * Trace the raster's alpha channel and stroke the offset outline onto the
+ * normalized PDF as CutContour. Fail-soft: the PDF is kept as converted.
+ */
+async function addGeneratedCutContour(
+  result: NormalizationResult,
+  image: Buffer,
+  offsetIn: number
+): Promise<void> {
+  try {
+    const pdf = await PDFDocument.load(result.normalizedBuffer!, { updateMetadata: false });
+    const widthIn = pdf.getPage(0).getMediaBox().width / 72;
+    const contour = await traceAlphaContour(image, { offsetIn, widthIn });
+    
+    if (!contour) {
+      result.issues.push({
+        severity: 'WARNING',
+        code: 'CUT_CONTOUR_NOT_GENERATED',
+        message: 'No cut path generated: the image has no transparent background to trace',
+        meta: { offsetIn },
+      });
+      return;
+    }
+    
+    result.normalizedBuffer = await drawCutContour(result.normalizedBuffer!, contour);
+    result.generatedCutContour = { spotName: GENERATED_CUT_SPOT_NAME, offsetIn, pathCount: contour.loops.length };
+    result.notes.push(`Generated ${GENERATED_CUT_SPOT_NAME} path ${offsetIn}" outside the artwork (${contour.loops.length} outline${contour.loops.length === 1 ? '' : 's'})`);
+    result.issues.push({
+      severity: 'INFO',
+      code: 'CUT_CONTOUR_GENERATED',
+      message: `Cut path generated from the image transparency, ${offsetIn}" outside the artwork`,
+      meta: { spotName: GENERATED_CUT_SPOT_NAME, offsetIn, pathCount: contour.loops.length },
+    });
+  } catch (error: any) {
+    result.issues.push({
+      severity: 'WARNING',
+      code: 'CUT_CONTOUR_NOT_GENERATED',
+      message: `Could not generate a cut path from the image transparency: ${error.message}`,
+      meta: { offsetIn },
+    });
+  }
+}
+
 /**
  * Normalize Adobe Illustrator file to PDF
  * AI files are PDF-based, so we can pass them through with validation
@@ -363,7 +424,8 @@ async function normalizePsdToPdf(buffer: Buffer): Promise<NormalizationResult> {
 export async function normalizeFile(
   buffer: Buffer,
   mimeType: string,
-  filename: string
+  filename: string,
+  options: NormalizeOptions = {}
 ): Promise<NormalizationResult> {
   const detection = detectFileFormat(buffer, mimeType, filename);
   
@@ -385,7 +447,7 @@ export async function normalizeFile(
     case 'png':
     case 'tif':
     case 'tiff':
-      return normalizeRasterToPdf(buffer, detection.format);
+      return normalizeRasterToPdf(buffer, detection.format, options);
     
     case 'ai':
       return normalizeAiToPdf(buffer);
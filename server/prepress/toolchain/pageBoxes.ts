@@ -0,0 +1,53 @@
+import { PDFDocument } from "pdf-lib";
+import type { PageBoxes, PdfRect, PrepressIssue } from "../types";
+
+/**
+ * Page Box Reader
+ *
+ * Reads MediaBox/CropBox/BleedBox/TrimBox for every page with pdf-lib.
+ * Pure JS, so it runs even when poppler/qpdf are not installed.
+ */
+
+export interface PageBoxesResult {
+  pages: PageBoxes[];
+  issues: PrepressIssue[];
+}
+
+function toRect(box: { x: number; y: number; width: number; height: number }): PdfRect {
+  return { x: box.x, y: box.y, width: box.width, height: box.height };
+}
+
+/**
+ * Read page boxes from a PDF buffer
+ */
+export async function readPageBoxes(pdfBuffer: Buffer): Promise<PageBoxesResult> {
+  try {
+    const pdf = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true, updateMetadata: false });
+
+    const pages = pdf.getPages().map((page, index): PageBoxes => {
+      const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+      return {
+        page: index + 1,
+        rotation,
+        mediaBox: toRect(page.getMediaBox()),
+        cropBox: toRect(page.getCropBox()),
+        bleedBox: toRect(page.getBleedBox()),
+        trimBox: toRect(page.getTrimBox()),
+        hasBleedBox: page.node.BleedBox() !== undefined,
+        hasTrimBox: page.node.TrimBox() !== undefined,
+      };
+    });
+
+    return { pages, issues: [] };
+
+  } catch (error: any) {
+    return {
+      pages: [],
+      issues: [{
+        severity: 'WARNING',
+        code: 'PAGE_BOXES_FAILED',
+        message: `Could not read page boxes: ${error.message}`,
+      }],
+    };
+  }
+}
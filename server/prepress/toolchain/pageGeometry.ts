@@ -0,0 +1,186 @@
+import { PDFDocument, degrees, type PDFEmbeddedPage, type PDFPage } from "pdf-lib";
+import type { PdfRect } from "../types";
+
+/**
+ * Page Geometry Fixes
+ *
+ * Auto-fixes that only move, scale or copy existing page content, done with
+ * pdf-lib so they run without Ghostscript:
+ * - rotate pages to the ordered orientation
+ * - scale the trim area to the ordered size
+ * - add bleed by mirroring or stretching the trim edges
+ *
+ * Each returns the rewritten PDF and the 1-based pages it changed.
+ */
+
+export interface GeometryFixResult {
+  buffer: Buffer;
+  changedPages: number[];
+}
+
+export type BleedMode = "mirror" | "stretch";
+
+// Width of the edge sliver stretched into the bleed
+const STRETCH_SLIVER_PT = 1;
+
+async function load(pdfBuffer: Buffer): Promise<PDFDocument> {
+  return PDFDocument.load(pdfBuffer, { ignoreEncryption: true, updateMetadata: false });
+}
+
+function rotationOf(page: PDFPage): number {
+  return ((page.getRotation().angle % 360) + 360) % 360;
+}
+
+/**
+ * Rebuild the document page by page. `build` draws a replacement page or
+ * returns false to keep the original page untouched.
+ */
+async function rebuildPages(
+  pdfBuffer: Buffer,
+  build: (source: PDFPage, target: PDFDocument, index: number) => Promise<PDFPage | false>
+): Promise<GeometryFixResult> {
+  const source = await load(pdfBuffer);
+  const target = await PDFDocument.create();
+  const changedPages: number[] = [];
+  const sourcePages = source.getPages();
+
+  for (let index = 0; index < sourcePages.length; index++) {
+    const rebuilt = await build(sourcePages[index], target, index);
+    if (rebuilt) {
+      rebuilt.setRotation(degrees(rotationOf(sourcePages[index])));
+      changedPages.push(index + 1);
+    } else {
+      const [copied] = await target.copyPages(source, [index]);
+      target.addPage(copied);
+    }
+  }
+
+  return { buffer: Buffer.from(await target.save()), changedPages };
+}
+
+async function embedRegion(target: PDFDocument, page: PDFPage, rect: PdfRect): Promise<PDFEmbeddedPage> {
+  return target.embedPage(page, {
+    left: rect.x,
+    bottom: rect.y,
+    right: rect.x + rect.width,
+    top: rect.y + rect.height,
+  });
+}
+
+/**
+ * Rotate pages whose (displayed) orientation differs from the ordered one
+ */
+export async function rotateToOrientation(pdfBuffer: Buffer, landscape: boolean): Promise<GeometryFixResult> {
+  const pdf = await load(pdfBuffer);
+  const changedPages: number[] = [];
+
+  pdf.getPages().forEach((page, index) => {
+    const { width, height } = page.getTrimBox();
+    if (width === height) return;
+    const rotation = rotationOf(page);
+    const shownLandscape = rotation % 180 === 0 ? width > height : height > width;
+    if (shownLandscape !== landscape) {
+      page.setRotation(degrees((rotation + 90) % 360));
+      changedPages.push(index + 1);
+    }
+  });
+
+  return { buffer: Buffer.from(await pdf.save()), changedPages };
+}
+
+/**
+ * Scale each page's trim area uniformly to the ordered trim size, centered.
+ * The ordered size is matched to the page's orientation. `trims[i]` null keeps page i.
+ */
+export async function scaleToTrim(
+  pdfBuffer: Buffer,
+  trims: Array<PdfRect | null>,
+  ordered: { widthPt: number; heightPt: number }
+): Promise<GeometryFixResult> {
+  return rebuildPages(pdfBuffer, async (page, target, index) => {
+    const trim = trims[index];
+    if (!trim) return false;
+
+    const long = Math.max(ordered.widthPt, ordered.heightPt);
+    const short = Math.min(ordered.widthPt, ordered.heightPt);
+    const [width, height] = trim.width >= trim.height ? [long, short] : [short, long];
+    const scale = Math.min(width / trim.width, height / trim.height);
+
+    const embedded = await embedRegion(target, page, trim);
+    const rebuilt = target.addPage([width, height]);
+    rebuilt.drawPage(embedded, {
+      x: (width - trim.width * scale) / 2,
+      y: (height - trim.height * scale) / 2,
+      xScale: scale,
+      yScale: scale,
+    });
+    rebuilt.setTrimBox(0, 0, width, height);
+    return rebuilt;
+  });
+}
+
+/**
+ * Add bleed around each page's trim by mirroring the content next to the
+ * trim edge, or stretching the outermost sliver. `trims[i]` null keeps page i.
+ */
+export async function addBleed(
+  pdfBuffer: Buffer,
+  trims: Array<PdfRect | null>,
+  bleedPt: number,
+  mode: BleedMode
+): Promise<GeometryFixResult> {
+  return rebuildPages(pdfBuffer, async (page, target, index) => {
+    const trim = trims[index];
+    if (!trim || bleedPt <= 0) return false;
+
+    const b = bleedPt;
+    const W = trim.width + 2 * b;
+    const H = trim.height + 2 * b;
+    const rebuilt = target.addPage([W, H]);
+
+    // Source strip along each edge: the bleed-wide band (mirror) or a thin sliver (stretch)
+    const bandW = mode === "mirror" ? Math.min(b, trim.width) : Math.min(STRETCH_SLIVER_PT, trim.width);
+    const bandH = mode === "mirror" ? Math.min(b, trim.height) : Math.min(STRETCH_SLIVER_PT, trim.height);
+    const left = trim.x;
+    const right = trim.x + trim.width - bandW;
+    const bottom = trim.y;
+    const top = trim.y + trim.height - bandH;
+
+    const pieces: Array<{ rect: PdfRect; x: number; y: number; xScale: number; yScale: number }> =
+      mode === "mirror"
+        ? [
+            // Edges, flipped across the trim line
+            { rect: { x: left, y: trim.y, width: bandW, height: trim.height }, x: b, y: b, xScale: -b / bandW, yScale: 1 },
+            { rect: { x: right, y: trim.y, width: bandW, height: trim.height }, x: W, y: b, xScale: -b / bandW, yScale: 1 },
+            { rect: { x: trim.x, y: bottom, width: trim.width, height: bandH }, x: b, y: b, xScale: 1, yScale: -b / bandH },
+            { rect: { x: trim.x, y: top, width: trim.width, height: bandH }, x: b, y: H, xScale: 1, yScale: -b / bandH },
+            // Corners, flipped both ways
+            { rect: { x: left, y: bottom, width: bandW, height: bandH }, x: b, y: b, xScale: -b / bandW, yScale: -b / bandH },
+            { rect: { x: right, y: bottom, width: bandW, height: bandH }, x: W, y: b, xScale: -b / bandW, yScale: -b / bandH },
+            { rect: { x: left, y: top, width: bandW, height: bandH }, x: b, y: H, xScale: -b / bandW, yScale: -b / bandH },
+            { rect: { x: right, y: top, width: bandW, height: bandH }, x: W, y: H, xScale: -b / bandW, yScale: -b / bandH },
+          ]
+        : [
+            { rect: { x: left, y: trim.y, width: bandW, height: trim.height }, x: 0, y: b, xScale: b / bandW, yScale: 1 },
+            { rect: { x: right, y: trim.y, width: bandW, height: trim.height }, x: b + trim.width, y: b, xScale: b / bandW, yScale: 1 },
+            { rect: { x: trim.x, y: bottom, width: trim.width, height: bandH }, x: b, y: 0, xScale: 1, yScale: b / bandH },
+            { rect: { x: trim.x, y: top, width: trim.width, height: bandH }, x: b, y: b + trim.height, xScale: 1, yScale: b / bandH },
+            { rect: { x: left, y: bottom, width: bandW, height: bandH }, x: 0, y: 0, xScale: b / bandW, yScale: b / bandH },
+            { rect: { x: right, y: bottom, width: bandW, height: bandH }, x: b + trim.width, y: 0, xScale: b / bandW, yScale: b / bandH },
+            { rect: { x: left, y: top, width: bandW, height: bandH }, x: 0, y: b + trim.height, xScale: b / bandW, yScale: b / bandH },
+            { rect: { x: right, y: top, width: bandW, height: bandH }, x: b + trim.width, y: b + trim.height, xScale: b / bandW, yScale: b / bandH },
+          ];
+
+    for (const piece of pieces) {
+      const embedded = await embedRegion(target, page, piece.rect);
+      rebuilt.drawPage(embedded, { x: piece.x, y: piece.y, xScale: piece.xScale, yScale: piece.yScale });
+    }
+
+    // Trim area last so it sits on top of any overlap
+    rebuilt.drawPage(await embedRegion(target, page, trim), { x: b, y: b });
+
+    rebuilt.setTrimBox(b, b, trim.width, trim.height);
+    rebuilt.setBleedBox(0, 0, W, H);
+    return rebuilt;
+  });
+}
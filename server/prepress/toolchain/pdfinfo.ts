@@ -3,7 +3,7 @@ import { promisify } from "util";
 import { writeFile as fsWriteFile } from "fs/promises";
 import * as path from "path";
 import * as os from "os";
-import type { PageSize, PrepressIssue } from "../types";
+import type { ImageAnalysis, PageSize, PrepressIssue } from "../types";
 
 const execAsync = promisify(exec);
 
@@ -176,3 +176,86 @@ export async function runPDFFonts(pdfBuffer: Buffer): Promise<PDFFontsResult> {
     }
   }
 }
+
+/**
+ * PDFImages Wrapper
+ * 
+ * Lists placed images with their effective resolution (pdfimages -list).
+ */
+
+export interface PDFImagesResult {
+  images: ImageAnalysis[];
+  issues: PrepressIssue[];
+}
+
+/**
+ * Parse `pdfimages -list` output
+ * 
+ * Columns: page num type width height color comp bpc enc interp object ID x-ppi y-ppi size ratio
+ * Masks and soft masks are skipped; only real images carry print resolution.
+ */
+export function parsePDFImagesList(stdout: string): ImageAnalysis[] {
+  const images: ImageAnalysis[] = [];
+  
+  for (const line of stdout.split('\n')) {
+    const parts = line.trim().split(/\s+/);
+    if (parts.length < 14 || !/^\d+$/.test(parts[0])) continue;
+    if (parts[2] !== 'image') continue;
+    
+    const xPpi = parseFloat(parts[12]);
+    const yPpi = parseFloat(parts[13]);
+    if (!Number.isFinite(xPpi) || !Number.isFinite(yPpi)) continue;
+    
+    images.push({
+      page: parseInt(parts[0], 10),
+      dpi: Math.min(xPpi, yPpi),
+      width: parseInt(parts[3], 10),
+      height: parseInt(parts[4], 10),
+      color: parts[5],
+    });
+  }
+  
+  return images;
+}
+
+/**
+ * Run pdfimages -list to measure effective image resolution
+ */
+export async function runPDFImages(pdfBuffer: Buffer): Promise<PDFImagesResult> {
+  const tempDir = os.tmpdir();
+  const tempInput = path.join(tempDir, `pdfimages-input-${Date.now()}.pdf`);
+  
+  try {
+    await fsWriteFile(tempInput, pdfBuffer);
+    
+    const { stdout } = await execAsync(
+      `pdfimages -list "${tempInput}"`,
+      {
+        timeout: DEFAULT_TIMEOUT_MS,
+        maxBuffer: 5 * 1024 * 1024,
+      }
+    );
+    
+    return {
+      images: parsePDFImagesList(stdout),
+      issues: [],
+    };
+    
+  } catch (error: any) {
+    return {
+      images: [],
+      issues: [{
+        severity: 'WARNING',
+        code: 'PDFIMAGES_FAILED',
+        message: `pdfimages failed: ${error.message}`,
+      }],
+    };
+  } finally {
+    try {
+      const fs = await import('fs/promises');
+      await fs.unlink(tempInput);
+    } catch {
+      // Ignore
+    }
+  }
+}
@@ -1,6 +1,6 @@
 import { exec } from "child_process";
 import { promisify } from "util";
-import { writeFile as fsWriteFile } from "fs/promises";
+import { writeFile as fsWriteFile, readFile as fsReadFile } from "fs/promises";
 import * as path from "path";
 import * as os from "os";
 import type { PrepressIssue } from "../types";
@@ -97,3 +97,33 @@ export async function runQPDF(pdfBuffer: Buffer): Promise<QPDFResult> {
   
   return result;
 }
+
+/**
+ * Rewrite a PDF through qpdf: removes encryption (owner-password "protected" files) and
+ * repairs broken xref tables so pdf-lib can copy and embed its pages.
+ *
+ * @param pdfBuffer - PDF file as Buffer
+ * @returns Rewritten PDF as Buffer
+ */
+export async function rewriteViaQPDF(pdfBuffer: Buffer): Promise<Buffer> {
+  const timestamp = Date.now();
+  const tempInput = path.join(os.tmpdir(), `qpdf-rewrite-in-${timestamp}.pdf`);
+  const tempOutput = path.join(os.tmpdir(), `qpdf-rewrite-out-${timestamp}.pdf`);
+
+  try {
+    await fsWriteFile(tempInput, pdfBuffer);
+    try {
+      await execAsync(`qpdf --decrypt "${tempInput}" "${tempOutput}"`, {
+        timeout: DEFAULT_TIMEOUT_MS,
+        maxBuffer: 10 * 1024 * 1024,
+      });
+    } catch (error: any) {
+      // Exit code 3 = succeeded with warnings (e.g. a repaired xref); output is usable
+      if (error?.code !== 3) throw error;
+    }
+    return await fsReadFile(tempOutput);
+  } finally {
+    const fs = await import('fs/promises');
+    await Promise.all([fs.unlink(tempInput).catch(() => {}), fs.unlink(tempOutput).catch(() => {})]);
+  }
+}
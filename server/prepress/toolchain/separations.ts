@@ -0,0 +1,271 @@
+import { exec } from "child_process";
+import { promisify } from "util";
+import { writeFile as fsWriteFile, mkdtemp, readdir, rm } from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import sharp from "sharp";
+import { PDFDocument } from "pdf-lib";
+import type { PageSeparations, PrepressIssue, SeparationsAnalysis } from "../types";
+
+const execAsync = promisify(exec);
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.PREPRESS_TOOL_TIMEOUT_MS || '180000');
+
+/**
+ * Separations / Total Area Coverage Analyzer
+ *
+ * Renders every page with Ghostscript's tiffsep device (one 8-bit plane per
+ * process and spot colorant) at low resolution, then measures:
+ * - average coverage per colorant per page
+ * - peak TAC (C+M+Y+K per pixel; spots print on their own unit so don't count)
+ * - where TAC exceeds the limit (normalized bbox, top-left origin)
+ * and renders a TAC heatmap of page 1.
+ */
+
+export const PROCESS_COLORANTS = ["Cyan", "Magenta", "Yellow", "Black"] as const;
+
+// Heatmap/analysis reference when the profile sets no limit (typical coated offset)
+export const DEFAULT_TAC_LIMIT_PERCENT = 300;
+
+// Keep rasters small: large-format pages get a lower resolution
+const MAX_RASTER_PX = 1500;
+const MAX_DPI = 72;
+
+export interface SeparationsResult {
+  separations: SeparationsAnalysis | null;
+  heatmapPng: Buffer | null;
+  issues: PrepressIssue[];
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Resolution that keeps the largest page under MAX_RASTER_PX on its long side
+ */
+export function separationDpi(maxPageSidePt: number): number {
+  if (maxPageSidePt <= 0) return MAX_DPI;
+  const longSideIn = maxPageSidePt / 72;
+  return Math.max(4, Math.min(MAX_DPI, Math.floor(MAX_RASTER_PX / longSideIn)));
+}
+
+/**
+ * Ink amount of a decoded plane pixel (decoded planes are luminance: dark = ink)
+ */
+function inkOf(value: number): number {
+  return 255 - value;
+}
+
+/**
+ * Average coverage of one separation plane, percent
+ */
+export function planeCoveragePercent(pixels: Uint8Array): number {
+  if (pixels.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < pixels.length; i++) sum += inkOf(pixels[i]);
+  return round1((sum / (pixels.length * 255)) * 100);
+}
+
+/**
+ * Add one process plane into a running TAC raster (0..1020 per pixel)
+ */
+export function addPlaneToTac(tac: Uint16Array, pixels: Uint8Array): void {
+  const n = Math.min(tac.length, pixels.length);
+  for (let i = 0; i < n; i++) tac[i] += inkOf(pixels[i]);
+}
+
+/**
+ * Peak TAC and the normalized bbox of pixels over the limit
+ */
+export function summarizeTac(
+  tac: Uint16Array,
+  width: number,
+  height: number,
+  limitPercent: number
+): { maxTacPercent: number; overLimitBBox: PageSeparations["overLimitBBox"] } {
+  const limit = (limitPercent / 100) * 255;
+  let max = 0;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = tac[y * width + x];
+      if (value > max) max = value;
+      if (value > limit) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+
+  const round3 = (v: number) => Math.round(v * 1000) / 1000;
+  return {
+    maxTacPercent: round1((max / 255) * 100),
+    overLimitBBox: maxX < 0
+      ? null
+      : {
+          x: round3(minX / width),
+          y: round3(minY / height),
+          w: round3((maxX - minX + 1) / width),
+          h: round3((maxY - minY + 1) / height),
+        },
+  };
+}
+
+/**
+ * Heatmap colors: light gray ramp by coverage, yellow within 10% of the limit,
+ * red above it. Returns raw RGB (3 bytes per pixel).
+ */
+export function renderTacHeatmap(tac: Uint16Array, width: number, height: number, limitPercent: number): Buffer {
+  const limit = (limitPercent / 100) * 255;
+  const warn = limit * 0.9;
+  const out = Buffer.alloc(width * height * 3);
+
+  for (let i = 0; i < width * height; i++) {
+    const value = tac[i];
+    let r: number, g: number, b: number;
+    if (value > limit) {
+      [r, g, b] = [220, 38, 38];
+    } else if (value >= warn) {
+      [r, g, b] = [250, 204, 21];
+    } else {
+      const shade = Math.round(245 - (value / 1020) * 160);
+      [r, g, b] = [shade, shade, shade];
+    }
+    out[i * 3] = r;
+    out[i * 3 + 1] = g;
+    out[i * 3 + 2] = b;
+  }
+  return out;
+}
+
+async function decodePlane(file: string): Promise<{ pixels: Uint8Array; width: number; height: number }> {
+  const { data, info } = await sharp(file).extractChannel(0).raw().toBuffer({ resolveWithObject: true });
+  return { pixels: new Uint8Array(data.buffer, data.byteOffset, data.length), width: info.width, height: info.height };
+}
+
+/**
+ * Run tiffsep and analyze coverage
+ *
+ * @param pdfBuffer - Input PDF as Buffer
+ * @param options.limitPercent - TAC limit for the over-limit box and heatmap
+ */
+export async function analyzeSeparations(
+  pdfBuffer: Buffer,
+  options: { limitPercent?: number | null } = {}
+): Promise<SeparationsResult> {
+  const limitPercent = options.limitPercent ?? DEFAULT_TAC_LIMIT_PERCENT;
+  let workDir: string | null = null;
+
+  try {
+    const pdf = await PDFDocument.load(pdfBuffer, { ignoreEncryption: true, updateMetadata: false });
+    const maxSide = Math.max(0, ...pdf.getPages().map((p) => Math.max(p.getWidth(), p.getHeight())));
+    const dpi = separationDpi(maxSide);
+
+    workDir = await mkdtemp(path.join(os.tmpdir(), 'gs-sep-'));
+    const tempInput = path.join(workDir, 'input.pdf');
+    await fsWriteFile(tempInput, pdfBuffer);
+
+    // Writes p<N>.tif (composite) and p<N>(<Colorant>).tif per separation
+    const gsCommand = [
+      'gs',
+      '-dSAFER',
+      '-dBATCH',
+      '-dNOPAUSE',
+      '-dQUIET',
+      '-sDEVICE=tiffsep',
+      '-sCompression=lzw',
+      `-r${dpi}`,
+      `-sOutputFile="${path.join(workDir, 'p%d.tif')}"`,
+      `"${tempInput}"`,
+    ].join(' ');
+
+    await execAsync(gsCommand, {
+      timeout: DEFAULT_TIMEOUT_MS,
+      maxBuffer: 5 * 1024 * 1024,
+    });
+
+    const planesByPage = new Map<number, Array<{ colorant: string; file: string }>>();
+    for (const name of await readdir(workDir)) {
+      const match = /^p(\d+)\((.+)\)\.tif$/.exec(name);
+      if (!match) continue;
+      const page = parseInt(match[1], 10);
+      const planes = planesByPage.get(page) ?? [];
+      planes.push({ colorant: match[2], file: path.join(workDir, name) });
+      planesByPage.set(page, planes);
+    }
+
+    const pages: PageSeparations[] = [];
+    const colorants = new Set<string>();
+    let heatmapPng: Buffer | null = null;
+
+    for (const page of Array.from(planesByPage.keys()).sort((a, b) => a - b)) {
+      const coverage: Record<string, number> = {};
+      let tac: Uint16Array | null = null;
+      let width = 0;
+      let height = 0;
+
+      // One plane in memory at a time
+      for (const plane of planesByPage.get(page)!) {
+        const decoded = await decodePlane(plane.file);
+        coverage[plane.colorant] = planeCoveragePercent(decoded.pixels);
+        colorants.add(plane.colorant);
+        if ((PROCESS_COLORANTS as readonly string[]).includes(plane.colorant)) {
+          if (!tac) {
+            width = decoded.width;
+            height = decoded.height;
+            tac = new Uint16Array(width * height);
+          }
+          addPlaneToTac(tac, decoded.pixels);
+        }
+      }
+
+      const summary = tac ? summarizeTac(tac, width, height, limitPercent) : { maxTacPercent: 0, overLimitBBox: null };
+      pages.push({ page, coverage, ...summary });
+
+      if (page === 1 && tac) {
+        heatmapPng = await sharp(renderTacHeatmap(tac, width, height, limitPercent), {
+          raw: { width, height, channels: 3 },
+        }).png().toBuffer();
+      }
+    }
+
+    if (pages.length === 0) {
+      throw new Error('Ghostscript produced no separations');
+    }
+
+    return {
+      separations: {
+        dpi,
+        limitPercent,
+        colorants: Array.from(colorants),
+        maxTacPercent: Math.max(...pages.map((p) => p.maxTacPercent)),
+        pages,
+      },
+      heatmapPng,
+      issues: [],
+    };
+
+  } catch (error: any) {
+    return {
+      separations: null,
+      heatmapPng: null,
+      issues: [{
+        severity: 'WARNING',
+        code: 'SEPARATIONS_FAILED',
+        message: `Could not analyze separations / ink coverage: ${error.message}`,
+      }],
+    };
+
+  } finally {
+    if (workDir) {
+      await rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
@@ -1,8 +1,10 @@
+import type { PrepressProfileRules } from "./schema";
+
 /**
  * Prepress Service Type Definitions
  * 
  * Stable contracts for PDF preflight reports and analysis results.
- * Version: prepress_report_v1
+ * Version: prepress_report_v1 (v2 adds per-page previews, see PrepressReportV2)
  */
 
 export type IssueSeverity = "BLOCKER" | "WARNING" | "INFO";
@@ -35,15 +37,18 @@ export interface PageSize {
 
 export interface ImageAnalysis {
   page: number;
-  dpi: number;
+  dpi: number; // effective (placed) resolution, lower of x/y
   width: number;
   height: number;
+  color?: string; // as reported by pdfimages: rgb, cmyk, gray, icc, index, sep, ...
 }
 
 export interface ColorSpaceInfo {
   hasRGB: boolean;
   hasCMYK: boolean;
   hasSpot: boolean;
+  hasGray?: boolean;
+  spotColors?: string[];
 }
 
 export interface ToolAvailability {
@@ -53,6 +58,7 @@ export interface ToolAvailability {
   ghostscript: boolean;
   pdftocairo: boolean;
   imagemagick: boolean;
+  pdfimages?: boolean;
 }
 
 export interface ToolVersions {
@@ -62,6 +68,51 @@ export interface ToolVersions {
   ghostscript?: string;
   pdftocairo?: string;
   imagemagick?: string;
+  pdfimages?: string;
+}
+
+/**
+ * PDF rectangle in points, lower-left origin (PDF user space)
+ */
+export interface PdfRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Page boxes for one page. Bleed/trim fall back per the PDF spec
+ * (BleedBox/TrimBox -> CropBox -> MediaBox); the `has*` flags say whether
+ * the file actually declared them.
+ */
+export interface PageBoxes {
+  page: number; // 1-based
+  rotation: number; // 0, 90, 180, 270
+  mediaBox: PdfRect;
+  cropBox: PdfRect;
+  bleedBox: PdfRect;
+  trimBox: PdfRect;
+  hasBleedBox: boolean;
+  hasTrimBox: boolean;
+  /** Bounding box of painted content (Ghostscript bbox device), relative to MediaBox origin */
+  contentBox?: PdfRect;
+}
+
+/**
+ * Size profile a job is verified against, resolved from the linked order line item
+ * (trim size) and its product (bleed / safe zone). All values in inches.
+ */
+export interface PreflightSizeProfile {
+  source: {
+    orderLineItemId: string;
+    productId: string | null;
+  };
+  trimWidthIn: number;
+  trimHeightIn: number;
+  bleedIn: number;
+  safeZoneIn: number;
+  toleranceIn: number;
 }
 
 export interface PrepressAnalysis {
@@ -70,6 +121,63 @@ export interface PrepressAnalysis {
   fontsEmbedded: boolean | "unknown";
   images: ImageAnalysis[] | "not_analyzed";
   colorSpace: ColorSpaceInfo | "not_analyzed";
+  pageBoxes?: PageBoxes[];
+  maxInkCoveragePercent?: number; // peak C+M+Y+K (from separations when Ghostscript is available)
+  separations?: SeparationsAnalysis;
+  cutContour?: CutContourAnalysis;
+}
+
+/**
+ * Per-page separation coverage (Ghostscript tiffsep)
+ */
+export interface PageSeparations {
+  page: number;
+  coverage: Record<string, number>; // colorant name -> average coverage percent (process + spots)
+  maxTacPercent: number; // peak C+M+Y+K at any pixel, 0-400
+  overLimitBBox: {
+    x: number; // normalized 0..1, top-left origin
+    y: number;
+    w: number;
+    h: number;
+  } | null; // area where TAC exceeds limitPercent
+}
+
+export interface SeparationsAnalysis {
+  dpi: number; // raster resolution used for the measurement
+  limitPercent: number; // TAC limit used for overLimitBBox and the heatmap
+  colorants: string[];
+  maxTacPercent: number;
+  pages: PageSeparations[];
+  heatmapPage?: number; // page rendered to heatmap_png
+}
+
+/**
+ * Cut path of one page: everything stroked or filled in a cut-line spot
+ * separation (CutContour, DieLine, ...). Rects in points, PDF user space.
+ */
+export interface CutContourPage {
+  page: number;
+  spotNames: string[]; // cut separations the path was painted in
+  pathCount: number; // closed or open subpaths
+  bbox: PdfRect | null; // extent of the cut path; null when the page has none
+  mediaBox: PdfRect;
+  bleedBox: PdfRect; // falls back to CropBox/MediaBox like PageBoxes
+}
+
+export interface CutContourAnalysis {
+  spotNames: string[]; // cut separations defined anywhere in the file, painted or not
+  pages: CutContourPage[];
+  exportPage?: number; // page written to cut_svg / cut_dxf
+}
+
+/**
+ * Preflight profile applied to a job, as recorded in the report
+ */
+export interface AppliedPreflightProfile {
+  id: string | null; // null for the built-in profile
+  name: string;
+  source: "job" | "product_type" | "org_default" | "builtin";
+  rules: PrepressProfileRules;
 }
 
 export interface PrepressReportSummary {
@@ -88,6 +196,16 @@ export interface PrepressFixResult {
     counts: IssueCounts;
   };
   applied: string[]; // e.g., ["normalize_via_ghostscript"]
+  // Per-fix outcome in the order the catalog ran them (absent in older reports)
+  steps?: PrepressFixStep[];
+}
+
+export interface PrepressFixStep {
+  fix: string; // catalog key
+  status: "applied" | "skipped" | "failed";
+  note?: string; // skip/failure reason or what changed
+  before?: { score: number; counts: IssueCounts };
+  after?: { score: number; counts: IssueCounts };
 }
 
 /**
@@ -103,6 +221,14 @@ export interface NormalizationInfo {
     height?: number;
     colorSpace?: string;
   };
+  // Cut path traced from the raster's alpha channel (PNG/TIF with cutContourOffsetIn)
+  generatedCutContour?: GeneratedCutContour;
+}
+
+export interface GeneratedCutContour {
+  spotName: string;
+  offsetIn: number;
+  pathCount: number;
 }
 
 /**
@@ -139,10 +265,42 @@ export interface PrepressReport {
   // Normalization info (for non-PDF inputs)
   normalization?: NormalizationInfo;
   
+  // Only present when the job is linked to an order line item
+  sizeProfile?: PreflightSizeProfile;
+  
+  // Rules and score weights the job was checked with
+  profile?: AppliedPreflightProfile;
+  
   // Only present when mode === "check_and_fix"
   fix?: PrepressFixResult;
 }
 
+/**
+ * Report JSON Contract (v2)
+ * 
+ * v1 plus a per-page view for the issue viewer. v1 is still written and served
+ * unchanged; v2 lives alongside it.
+ */
+export interface PrepressReportV2 extends Omit<PrepressReport, "version"> {
+  version: "prepress_report_v2";
+  pages: PrepressReportPage[];
+}
+
+export interface PrepressReportPage {
+  page: number;
+  // As displayed (after /Rotate), in points
+  widthPt: number;
+  heightPt: number;
+  rotation: number;
+  previewAvailable: boolean; // GET /api/prepress/jobs/:jobId/pages/:page/preview
+  issues: PrepressPageIssue[];
+}
+
+export interface PrepressPageIssue extends PrepressIssue {
+  index: number; // position in the top-level issues array
+  displayBbox?: PrepressIssue["bbox"]; // bbox mapped onto the rotated page preview
+}
+
 /**
  * Output manifest tracks which downloadable outputs exist for a job
  */
@@ -150,6 +308,9 @@ export interface OutputManifest {
   report_json: boolean;
   proof_png: boolean;
   fixed_pdf?: boolean; // Only for check_and_fix mode
+  heatmap_png?: boolean; // TAC heatmap of page 1 (when separations were analyzed)
+  cut_svg?: boolean; // Cut path for the cutter (when a cut separation was painted)
+  cut_dxf?: boolean;
 }
 
 /**
@@ -173,4 +334,9 @@ export interface PrepressPaths {
   reportJson: string; // {tempRoot}/{jobId}/output/report.json
   proofPng: string; // {tempRoot}/{jobId}/output/proof.png
   fixedPdf: string; // {tempRoot}/{jobId}/output/fixed.pdf
+  heatmapPng: string; // {tempRoot}/{jobId}/output/heatmap.png
+  cutSvg: string; // {tempRoot}/{jobId}/output/cut.svg
+  cutDxf: string; // {tempRoot}/{jobId}/output/cut.dxf
+  reportV2Json: string; // {tempRoot}/{jobId}/output/report_v2.json
+  pagesDir: string; // {tempRoot}/{jobId}/output/pages (page-{n}.png previews)
 }
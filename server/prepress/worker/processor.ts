@@ -12,6 +12,7 @@ import {
 import { eq, sql } from "drizzle-orm";
 import { runPreflightPipeline, buildReportSummary, buildOutputManifest } from "../pipeline";
 import { cleanupScratchFiles } from "../storage";
+import { syncAttachmentPreflight } from "../attachments-service";
 
 /**
  * Prepress Job Processor
@@ -59,6 +60,21 @@ export async function claimJob(): Promise<PrepressJob | null> {
   }
 }
 
+/**
+ * Attachment sync must never fail the job itself
+ */
+async function syncAttachmentPreflightSafe(
+  jobId: string,
+  status: 'succeeded' | 'failed',
+  summary: PrepressReportSummary | null
+): Promise<void> {
+  try {
+    await syncAttachmentPreflight(jobId, status, summary);
+  } catch (error) {
+    console.error(`[Prepress Worker] Failed to sync attachment preflight for job ${jobId}:`, error);
+  }
+}
+
 /**
  * Process a claimed job
  * 
@@ -107,6 +123,9 @@ export async function processJob(job: PrepressJob): Promise<void> {
     
     console.log(`[Prepress Worker] Job ${job.id} completed successfully. Score: ${reportSummary.score}`);
     
+    // Surface the result on line item artwork this job was queued for
+    await syncAttachmentPreflightSafe(job.id, 'succeeded', validatedSummary.success ? validatedSummary.data : null);
+    
     // Clean up scratch files (keep outputs until TTL)
     await cleanupScratchFiles(job.id);
     
@@ -144,6 +163,8 @@ export async function processJob(job: PrepressJob): Promise<void> {
       })
       .where(eq(prepressJobs.id, job.id));
     
+    await syncAttachmentPreflightSafe(job.id, 'failed', null);
+    
     // Still clean up scratch files even on failure
     try {
       await cleanupScratchFiles(job.id);
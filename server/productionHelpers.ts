@@ -109,7 +109,7 @@ export async function loadProductionLineItemStatusRulesForOrganization(organizat
   };
 }
 
-type ProductionEventType = "intake" | "routing_override" | "timer_started" | "timer_stopped" | "note" | "reprint_incremented" | "media_used_set";
+type ProductionEventType = "intake" | "routing_override" | "timer_started" | "timer_stopped" | "note" | "reprint_incremented" | "media_used_set" | "operation_completed";
 
 export async function appendEvent(args: {
   tx: any;
@@ -117,6 +117,7 @@ export async function appendEvent(args: {
   productionJobId: string;
   type: ProductionEventType;
   payload?: any;
+  operatorUserId?: string | null;
 }) {
   const payload = args.payload ?? {};
   await args.tx.insert(productionEvents).values({
@@ -124,5 +125,6 @@ export async function appendEvent(args: {
     productionJobId: args.productionJobId,
     type: args.type,
     payload,
+    operatorUserId: args.operatorUserId ?? null,
   });
 }
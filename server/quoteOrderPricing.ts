@@ -9,6 +9,7 @@ import type { Customer, Product, ProductVariant } from "@shared/schema";
 import {
   resolveTaxRate,
   calculateLineTax,
+  applyCustomerModifiers,
   type TaxResolutionContext,
   type TaxAddress,
 } from "./pricingService";
@@ -162,3 +163,161 @@ export function getOrganizationTaxSettings(org: {
     taxEnabled: org.taxEnabled ?? true,
   };
 }
+
+/**
+ * Customer contract price rule (subset of the customer_price_rules row used for pricing)
+ */
+export interface CustomerPriceRuleInput {
+  id: string;
+  productId: string;
+  ruleType: "FIXED_UNIT" | "PER_SQFT" | "PERCENT_OFF";
+  value: string | number;
+  minQuantity: number;
+  startsAt: Date | string;
+  endsAt?: Date | string | null;
+}
+
+/**
+ * Which rule produced a line's price (returned by /api/quotes/calculate and kept in priceBreakdown)
+ */
+export interface LinePricingRule {
+  source: "contract" | "customer_modifier" | "base";
+  ruleId?: string;
+  ruleType?: CustomerPriceRuleInput["ruleType"];
+  modifier?: "discount" | "markup";
+  value?: number;
+  label: string;
+}
+
+function toTime(value: Date | string): number {
+  return value instanceof Date ? value.getTime() : Date.parse(value);
+}
+
+/**
+ * Pick the contract rule for a product at `at`.
+ *
+ * A rule applies when `startsAt <= at < endsAt` (open-ended when endsAt is null) and
+ * `quantity >= minQuantity`. Among applicable rules the highest minQuantity wins (quantity
+ * breaks), then the latest startsAt.
+ */
+export function selectCustomerPriceRule<T extends CustomerPriceRuleInput>(
+  rules: readonly T[],
+  params: { productId: string; quantity: number; at: Date }
+): T | null {
+  const atMs = params.at.getTime();
+  let best: T | null = null;
+
+  for (const rule of rules) {
+    if (rule.productId !== params.productId) continue;
+    const startMs = toTime(rule.startsAt);
+    if (!Number.isFinite(startMs) || startMs > atMs) continue;
+    if (rule.endsAt != null && toTime(rule.endsAt) <= atMs) continue;
+    if (params.quantity < (rule.minQuantity ?? 1)) continue;
+
+    if (
+      !best ||
+      rule.minQuantity > best.minQuantity ||
+      (rule.minQuantity === best.minQuantity && startMs > toTime(best.startsAt))
+    ) {
+      best = rule;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Apply customer-specific pricing to a calculated line.
+ *
+ * Precedence (only one applies):
+ * 1. Contract rule (customer price list)
+ *    - FIXED_UNIT / PER_SQFT replace the base price; option charges still apply
+ *    - PERCENT_OFF discounts the whole line
+ * 2. Customer markup/discount (see applyCustomerModifiers)
+ * 3. Calculated price as-is
+ *
+ * @param options.baseCents - Base portion of the calculated line (cents)
+ * @param options.optionsCents - Option portion of the calculated line (cents)
+ * @param options.rule - Contract rule from selectCustomerPriceRule (nullable)
+ * @param options.customer - Customer with tier modifiers (nullable)
+ */
+export function applyCustomerLinePricing(options: {
+  baseCents: number;
+  optionsCents: number;
+  quantity: number;
+  widthIn: number;
+  heightIn: number;
+  rule?: CustomerPriceRuleInput | null;
+  customer?: Pick<Customer, "defaultDiscountPercent" | "defaultMarkupPercent"> | null;
+}): { lineTotalCents: number; baseCents: number; optionsCents: number; pricingRule: LinePricingRule } {
+  const { baseCents, optionsCents, quantity, rule } = options;
+
+  if (rule) {
+    const value = Number(rule.value);
+    if (Number.isFinite(value) && value >= 0) {
+      if (rule.ruleType === "PERCENT_OFF") {
+        const factor = 1 - Math.min(value, 100) / 100;
+        const discountedBase = Math.round(baseCents * factor);
+        const discountedOptions = Math.round(optionsCents * factor);
+        return {
+          lineTotalCents: discountedBase + discountedOptions,
+          baseCents: discountedBase,
+          optionsCents: discountedOptions,
+          pricingRule: { source: "contract", ruleId: rule.id, ruleType: rule.ruleType, value, label: `Contract: ${value}% off` },
+        };
+      }
+
+      const sqftPerItem = (options.widthIn * options.heightIn) / 144;
+      const contractBaseCents = rule.ruleType === "PER_SQFT"
+        ? Math.round(value * sqftPerItem * quantity * 100)
+        : Math.round(value * quantity * 100);
+      const label = rule.ruleType === "PER_SQFT"
+        ? `Contract: $${value.toFixed(2)}/sq ft`
+        : `Contract: $${value.toFixed(2)}/ea`;
+      return {
+        lineTotalCents: contractBaseCents + optionsCents,
+        baseCents: contractBaseCents,
+        optionsCents,
+        pricingRule: { source: "contract", ruleId: rule.id, ruleType: rule.ruleType, value, label },
+      };
+    }
+  }
+
+  const lineCents = baseCents + optionsCents;
+  if (options.customer) {
+    // Margin needs unit cost, which the PBV2 calculator does not expose; only markup/discount apply here.
+    const modified = applyCustomerModifiers({
+      basePrice: lineCents,
+      minCharge: null,
+      customer: {
+        defaultDiscountPercent: options.customer.defaultDiscountPercent,
+        defaultMarkupPercent: options.customer.defaultMarkupPercent,
+      },
+    });
+    if (modified.effectiveRule === "discount" || modified.effectiveRule === "markup") {
+      const lineTotalCents = Math.round(modified.finalPrice);
+      const factor = lineCents > 0 ? lineTotalCents / lineCents : 1;
+      const adjustedBase = Math.round(baseCents * factor);
+      return {
+        lineTotalCents,
+        baseCents: adjustedBase,
+        optionsCents: lineTotalCents - adjustedBase,
+        pricingRule: {
+          source: "customer_modifier",
+          modifier: modified.effectiveRule,
+          value: modified.appliedValue,
+          label: modified.effectiveRule === "discount"
+            ? `Customer discount ${modified.appliedValue}%`
+            : `Customer markup ${modified.appliedValue}%`,
+        },
+      };
+    }
+  }
+
+  return {
+    lineTotalCents: lineCents,
+    baseCents,
+    optionsCents,
+    pricingRule: { source: "base", label: "Standard pricing" },
+  };
+}
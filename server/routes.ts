@@ -21,7 +21,8 @@ import { assertStripeServerConfig, getStripeClient } from "./lib/stripe";
 import * as syncWorker from "./workers/syncProcessor";
 import { tenantContext, getUserOrganizations, setDefaultOrganization, getRequestOrganizationId, optionalTenantContext, ensureUserOrganization, DEFAULT_ORGANIZATION_ID, portalContext, getPortalCustomer } from "./tenantContext";
 import { getProfile, profileRequiresDimensions, type FlatGoodsConfig, type RollMaterialConfig, flatGoodsCalculator, buildFlatGoodsInput } from "@shared/pricingProfiles";
-import { calculateQuoteOrderTotals, getOrganizationTaxSettings, type LineItemInput } from "./quoteOrderPricing";
+import { applyCustomerLinePricing, calculateQuoteOrderTotals, getOrganizationTaxSettings, selectCustomerPriceRule, type LineItemInput } from "./quoteOrderPricing";
+import { loadCustomerPriceRulesForProduct } from "./services/customerPriceRules";
 import {
   getEffectiveWorkflowState,
   isValidTransition,
@@ -39,6 +40,43 @@ import {
 } from "@shared/quoteWorkflow";
 import { registerAttachmentRoutes } from "./routes/attachments.routes";
 import { registerOrderRoutes } from "./routes/orders.routes";
+import { registerPbv2TreeVersionRoutes } from "./routes/pbv2TreeVersions.routes";
+import { registerPricebookRoutes } from "./routes/pricebook.routes";
+import { registerCustomerPriceRuleRoutes } from "./routes/customerPriceRules.routes";
+import { registerPromotionRoutes } from "./routes/promotions.routes";
+import { registerProductionNestingRoutes } from "./routes/productionNesting.routes";
+import { registerProductionImpositionRoutes } from "./routes/productionImposition.routes";
+import { registerProductionScheduleRoutes } from "./routes/productionSchedule.routes";
+import { registerProductionRoutingRoutes } from "./routes/productionRoutings.routes";
+import { registerProductionKioskRoutes } from "./routes/productionKiosk.routes";
+import { registerJobCostingRoutes } from "./routes/jobCosting.routes";
+import { registerPrepressProfileRoutes } from "./routes/prepressProfiles.routes";
+import { registerProofRoutes } from "./routes/proofs.routes";
+import { registerAnnotationRoutes } from "./routes/annotations.routes";
+import { getLineItemProofGate } from "./services/proofs";
+import {
+  completeJob,
+  getTimerStateForJob,
+  startJobTimer,
+  stopJobTimer,
+  stopRunningTimer,
+  type ProductionActor,
+} from "./services/productionJobTimers";
+import {
+  completeJobOperation,
+  createJobOperations,
+  listJobOperations,
+  reopenJobOperation,
+  resolveLineItemRouting,
+  startJobOperation,
+} from "./services/productionRoutings";
+import { listPricebookKeys } from "./services/pricebook";
+import {
+  activateDueScheduledPbv2TreeVersions,
+  insertPbv2LifecycleAuditLog,
+  schedulePbv2TreeVersion,
+} from "./services/pbv2TreeVersionLifecycle";
+import { parsePbv2PublishEffectiveFrom, resolvePbv2PricingAt } from "./lib/pbv2EffectiveVersion";
 import { registerPrepressRoutes } from "./prepress/routes";
 import { DEFAULT_VALIDATE_OPTS, validateTreeForPublish } from "@shared/pbv2/validator";
 import { resolveInventoryPolicyFromOrgPreferences } from "@shared/inventoryPolicy";
@@ -541,11 +579,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Order routes extracted to ./routes/orders.routes.ts (do NOT re-add here)
   await registerOrderRoutes(app, { isAuthenticated, tenantContext, isAdmin, isAdminOrOwner });
 
+  // PBV2 tree version history + diff (./routes/pbv2TreeVersions.routes.ts)
+  await registerPbv2TreeVersionRoutes(app, { isAuthenticated, tenantContext });
+
+  // Org pricebook behind PBV2 pricebookRef (./routes/pricebook.routes.ts)
+  await registerPricebookRoutes(app, { isAuthenticated, tenantContext, isAdmin });
+
+  // Customer price lists / contract pricing (./routes/customerPriceRules.routes.ts)
+  await registerCustomerPriceRuleRoutes(app, { isAuthenticated, tenantContext, isAdmin });
+
+  // Promotions / coupon codes and quote discount lines (./routes/promotions.routes.ts)
+  await registerPromotionRoutes(app, { isAuthenticated, tenantContext, portalContext, isAdmin });
+
+  // Gang sheet and roll run nesting (./routes/productionNesting.routes.ts)
+  await registerProductionNestingRoutes(app, { isAuthenticated, tenantContext });
+
+  // Small-format imposition of job artwork (./routes/productionImposition.routes.ts)
+  await registerProductionImpositionRoutes(app, { isAuthenticated, tenantContext });
+
+  // Production machines, calendars and capacity schedule (./routes/productionSchedule.routes.ts)
+  await registerProductionScheduleRoutes(app, { isAuthenticated, tenantContext, isAdmin });
+
+  // Multi-step production routings per product / product type (./routes/productionRoutings.routes.ts)
+  await registerProductionRoutingRoutes(app, { isAuthenticated, tenantContext, isAdmin });
+
+  // Shop-floor kiosk and barcode job tickets (./routes/productionKiosk.routes.ts)
+  await registerProductionKioskRoutes(app, { isAuthenticated, tenantContext, isAdmin });
+
+  // Labor time entries, labor/machine rates and job costing (./routes/jobCosting.routes.ts)
+  await registerJobCostingRoutes(app, { isAuthenticated, tenantContext, isAdmin });
+
   // MVP Invoicing + Payments + Billing Ready (mounted, minimal changes in routes.ts)
   await registerMvpInvoicingRoutes(app, { isAuthenticated, tenantContext });
 
-  // Prepress routes (standalone PDF preflight service)
-  registerPrepressRoutes(app);
+  // Org preflight profiles (./routes/prepressProfiles.routes.ts)
+  await registerPrepressProfileRoutes(app, { isAuthenticated, tenantContext, isAdmin });
+
+  // Customer proof approval, staff + tokenized public review (./routes/proofs.routes.ts)
+  await registerProofRoutes(app, { isAuthenticated, tenantContext });
+
+  // Attachment markup + comment threads + flattened PDF export (./routes/annotations.routes.ts)
+  await registerAnnotationRoutes(app, { isAuthenticated, tenantContext });
+
+  // Prepress PDF preflight jobs, staff-only and org-scoped (./prepress/routes.ts)
+  registerPrepressRoutes(app, { isAuthenticated, tenantContext });
 
   // Dev-only debug: verify status pills exist per org/state
   if (nodeEnv === 'development') {
@@ -1864,6 +1941,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .orderBy(desc(pbv2TreeVersions.updatedAt))
         .limit(1);
 
+      // Scheduled versions that are now due become ACTIVE before we read the pointer.
+      await activateDueScheduledPbv2TreeVersions(organizationId, productId);
+
       // Read ACTIVE tree using products.pbv2ActiveTreeVersionId
       let active = null;
       const [productWithActiveId] = await db
@@ -2181,7 +2261,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             console.log('[PBV2_AUTO_ACTIVATE] blocked by base pricing validation', { draftId: draft.id });
           } else {
             const { validateTreeForPublish, DEFAULT_VALIDATE_OPTS } = await import("../shared/pbv2/validator");
-            const publishValidation = validateTreeForPublish((draft as any).treeJson as any, DEFAULT_VALIDATE_OPTS);
+            const publishValidation = validateTreeForPublish((draft as any).treeJson as any, { ...DEFAULT_VALIDATE_OPTS, pricebookKeys: await listPricebookKeys(organizationId) });
             
             if (publishValidation.errors.length > 0) {
               activationResult = {
@@ -2226,6 +2306,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   .set({
                     status: "ACTIVE",
                     publishedAt,
+                    effectiveFrom: publishedAt,
                     updatedAt: publishedAt,
                     updatedByUserId: userId ?? null,
                     treeJson: nextTreeJson,
@@ -2237,6 +2318,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
                   .update(products)
                   .set({ pbv2ActiveTreeVersionId: draft.id, updatedAt: publishedAt })
                   .where(and(eq(products.id, productId), eq(products.organizationId, organizationId)));
+
+                await insertPbv2LifecycleAuditLog(tx, {
+                  organizationId,
+                  productId,
+                  actor: { userId: userId ?? null, userName: req.user?.email || req.user?.name || null },
+                  actionType: "pbv2.publish",
+                  description: `Published PBV2 tree version ${draft.id} (auto-activate on save)`,
+                  oldValues: { pbv2ActiveTreeVersionId: previousActiveId ?? null },
+                  newValues: { pbv2ActiveTreeVersionId: draft.id, effectiveFrom: publishedAt.toISOString() },
+                });
               });
 
               activationResult = {
@@ -2284,6 +2375,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { id } = req.params;
       const confirmWarnings = String((req.query as any)?.confirmWarnings ?? "").toLowerCase() === "true";
       const userId = getUserId(req.user);
+      const actor = { userId: userId ?? null, userName: req.user?.email || req.user?.name || null };
+
+      // Optional future effectiveFrom => scheduled publish (see services/pbv2TreeVersionLifecycle.ts)
+      let schedule: ReturnType<typeof parsePbv2PublishEffectiveFrom>;
+      try {
+        schedule = parsePbv2PublishEffectiveFrom((req.body as any)?.effectiveFrom, new Date());
+      } catch (e: any) {
+        return res.status(400).json({ success: false, message: e.message });
+      }
 
       const [draft] = await db
         .select()
@@ -2352,7 +2452,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Validate publish gate (Appendix 5)
-      const validation = validateTreeForPublish(treeJson, DEFAULT_VALIDATE_OPTS);
+      const validation = validateTreeForPublish(treeJson, { ...DEFAULT_VALIDATE_OPTS, pricebookKeys: await listPricebookKeys(organizationId) });
       if (validation.errors.length > 0) {
         return res.status(400).json({
           success: false,
@@ -2369,6 +2469,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      if (schedule.mode === "scheduled") {
+        const scheduled = await schedulePbv2TreeVersion({
+          organizationId,
+          draftId: draft.id,
+          effectiveFrom: schedule.effectiveFrom,
+          actor,
+        });
+        console.log(`[PBV2_PUBLISH_SCHEDULED] orgId=${organizationId} productId=${draft.productId} treeVersionId=${draft.id} effectiveFrom=${schedule.effectiveFrom.toISOString()}`);
+        return res.json({
+          success: true,
+          scheduled: true,
+          data: scheduled,
+          productId: draft.productId,
+          effectiveFrom: schedule.effectiveFrom.toISOString(),
+          findings: validation.findings,
+        });
+      }
+
       const publishedAt = new Date();
 
       const result = await db.transaction(async (tx) => {
@@ -2401,6 +2519,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .set({
             status: "ACTIVE",
             publishedAt,
+            effectiveFrom: publishedAt,
             updatedAt: publishedAt,
             updatedByUserId: userId ?? null,
             treeJson: nextTreeJson,
@@ -2413,6 +2532,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .set({ pbv2ActiveTreeVersionId: draft.id, updatedAt: publishedAt })
           .where(and(eq(products.id, draft.productId), eq(products.organizationId, organizationId)));
 
+        await insertPbv2LifecycleAuditLog(tx, {
+          organizationId,
+          productId: draft.productId,
+          actor,
+          actionType: "pbv2.publish",
+          description: `Published PBV2 tree version ${draft.id}`,
+          oldValues: { pbv2ActiveTreeVersionId: previousActiveId ?? null },
+          newValues: { pbv2ActiveTreeVersionId: draft.id, effectiveFrom: publishedAt.toISOString() },
+        });
+
         console.log(`[PBV2_PUBLISH_SUCCESS] orgId=${organizationId} productId=${draft.productId} treeVersionId=${draft.id} previousActiveId=${previousActiveId || 'none'}`);
 
         return { 
@@ -2430,8 +2559,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         findings: validation.findings 
       });
     } catch (error: any) {
-      if (error?.statusCode === 404) {
-        return res.status(404).json({ success: false, message: error.message });
+      if (error?.statusCode === 404 || error?.statusCode === 409) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
       }
       console.error("Error publishing PBV2 tree version:", error);
       return res.status(500).json({ success: false, message: "Failed to publish PBV2 tree version" });
@@ -2488,6 +2617,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/products/:productId/pbv2/override/validate", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
     try {
+      const organizationId = getRequestOrganizationId(req);
       const treeJsonText = String((req.body as any)?.treeJsonText ?? "");
       let parsed: any;
       try {
@@ -2507,7 +2637,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const validation = validateTreeForPublish(parsed as any, DEFAULT_VALIDATE_OPTS);
+      const validation = validateTreeForPublish(parsed as any, {
+        ...DEFAULT_VALIDATE_OPTS,
+        pricebookKeys: organizationId ? await listPricebookKeys(organizationId) : undefined,
+      });
       const ok = validation.errors.length === 0;
 
       return res.json({
@@ -2558,7 +2691,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const validation = validateTreeForPublish(parsed as any, DEFAULT_VALIDATE_OPTS);
+      const validation = validateTreeForPublish(parsed as any, { ...DEFAULT_VALIDATE_OPTS, pricebookKeys: await listPricebookKeys(organizationId) });
       if (validation.errors.length > 0) {
         return res.status(400).json({
           success: false,
@@ -2664,7 +2797,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(409).json({ success: false, message: "Cannot enable override: override tree version not found" });
         }
 
-        const validation = validateTreeForPublish((tv as any).treeJson as any, DEFAULT_VALIDATE_OPTS);
+        const validation = validateTreeForPublish((tv as any).treeJson as any, { ...DEFAULT_VALIDATE_OPTS, pricebookKeys: await listPricebookKeys(organizationId) });
         if (validation.errors.length > 0) {
           return res.status(400).json({
             success: false,
@@ -3080,6 +3213,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
                       schemaVersion: updatedActiveTree.schemaVersion ?? 2,
                       treeJson: updatedActiveTree,
                       publishedAt: new Date(),
+                      effectiveFrom: new Date(),
                       createdByUserId: userId ?? null,
                       updatedByUserId: userId ?? null,
                     })
@@ -3098,6 +3232,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
                         eq(products.organizationId, organizationId)
                       )
                     );
+
+                  await insertPbv2LifecycleAuditLog(tx, {
+                    organizationId,
+                    productId,
+                    actor: { userId: userId ?? null, userName: req.user?.email || req.user?.name || null },
+                    actionType: "pbv2.publish",
+                    description: `Published PBV2 tree version ${newVersion.id} (base pricing propagated from draft)`,
+                    oldValues: { pbv2ActiveTreeVersionId: activeTreeVersion.id },
+                    newValues: { pbv2ActiveTreeVersionId: newVersion.id, effectiveFrom: newVersion.effectiveFrom?.toISOString() ?? null },
+                  });
                   
                   return newVersion;
                 });
@@ -3549,6 +3693,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         quantity,
         optionSelectionsJson, // PBV2 selections
         pbv2TreeVersionIdOverride, // Optional: specific tree version to use
+        pricingAt, // Optional: ISO time to resolve the effective PBV2 version (default: parent quote/order date, else now)
+        quoteId,
+        orderId,
+        customerId, // Optional (staff only): applies the customer's contract price list, else tier discount/markup
       } = req.body;
 
       // Validation: required fields
@@ -3619,6 +3767,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      // Relevant pricing time: explicit pricingAt, else the parent quote/order date (price as of that document).
+      let documentCreatedAt: Date | string | null = null;
+      if (typeof orderId === "string" && orderId) {
+        const [orderRow] = await db
+          .select({ createdAt: orders.createdAt })
+          .from(orders)
+          .where(and(eq(orders.id, orderId), eq(orders.organizationId, organizationId)))
+          .limit(1);
+        documentCreatedAt = orderRow?.createdAt ?? null;
+      } else if (typeof quoteId === "string" && quoteId) {
+        const [quoteRow] = await db
+          .select({ createdAt: quotes.createdAt })
+          .from(quotes)
+          .where(and(eq(quotes.id, quoteId), eq(quotes.organizationId, organizationId)))
+          .limit(1);
+        documentCreatedAt = quoteRow?.createdAt ?? null;
+      }
+
+      const effectivePricingAt = resolvePbv2PricingAt({ pricingAt, documentCreatedAt });
+
       // Call unified PricingService with error handling
       let pricingResult;
       try {
@@ -3630,6 +3798,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           heightIn: height,
           pbv2ExplicitSelections,
           pbv2TreeVersionIdOverride,
+          pricingAt: effectivePricingAt,
         });
       } catch (pricingError: any) {
         // Convert PBV2 schema version errors to 400 with friendly message
@@ -3664,18 +3833,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
         variant = variants.find(v => v.id === variantId) ?? null;
       }
 
+      // Customer pricing: contract price list first, then the customer's discount/markup.
+      // Staff may price as any customer; a portal customer always prices as themselves.
+      const userRole = req.user?.role || "";
+      let pricingCustomerId: string | null = null;
+      if (userRole === "customer") {
+        const [ownCustomer] = await db
+          .select({ id: customers.id })
+          .from(customers)
+          .where(and(eq(customers.userId, req.user.id), eq(customers.organizationId, organizationId)))
+          .limit(1);
+        pricingCustomerId = ownCustomer?.id ?? null;
+      } else if (['owner', 'admin', 'manager', 'employee'].includes(userRole) && typeof customerId === "string" && customerId) {
+        pricingCustomerId = customerId;
+      }
+
+      let customer: { defaultDiscountPercent: string | null; defaultMarkupPercent: string | null } | null = null;
+      let contractRules: Awaited<ReturnType<typeof loadCustomerPriceRulesForProduct>> = [];
+      if (pricingCustomerId) {
+        const [customerRow] = await db
+          .select({
+            defaultDiscountPercent: customers.defaultDiscountPercent,
+            defaultMarkupPercent: customers.defaultMarkupPercent,
+          })
+          .from(customers)
+          .where(and(eq(customers.id, pricingCustomerId), eq(customers.organizationId, organizationId)))
+          .limit(1);
+        if (customerRow) {
+          customer = customerRow;
+          contractRules = await loadCustomerPriceRulesForProduct(organizationId, pricingCustomerId, productId);
+        }
+      }
+      const customerPricing = applyCustomerLinePricing({
+        baseCents: pricingResult.breakdown.baseCents,
+        optionsCents: pricingResult.breakdown.optionsCents,
+        quantity,
+        widthIn: width,
+        heightIn: height,
+        rule: selectCustomerPriceRule(contractRules, { productId, quantity, at: effectivePricingAt ?? new Date() }),
+        customer,
+      });
+
       // Format response (convert cents to dollars for legacy compatibility)
       res.json({
         success: true,
-        linePrice: pricingResult.lineTotalCents / 100,
+        linePrice: customerPricing.lineTotalCents / 100,
         priceBreakdown: {
-          basePriceCents: pricingResult.breakdown.baseCents,
-          optionsPriceCents: pricingResult.breakdown.optionsCents,
-          lineTotalCents: pricingResult.lineTotalCents,
-          basePrice: pricingResult.breakdown.baseCents / 100,
-          optionsPrice: pricingResult.breakdown.optionsCents / 100,
-          total: pricingResult.lineTotalCents / 100,
+          basePriceCents: customerPricing.baseCents,
+          optionsPriceCents: customerPricing.optionsCents,
+          lineTotalCents: customerPricing.lineTotalCents,
+          basePrice: customerPricing.baseCents / 100,
+          optionsPrice: customerPricing.optionsCents / 100,
+          total: customerPricing.lineTotalCents / 100,
+          calculatedTotalCents: pricingResult.lineTotalCents,
+          pricingRule: customerPricing.pricingRule,
         },
+        pricingRule: customerPricing.pricingRule,
         // PBV2 snapshot fields (for storage in quote/order line items)
         pbv2TreeVersionId: pricingResult.pbv2TreeVersionId,
         pbv2SnapshotJson: pricingResult.pbv2SnapshotJson,
@@ -8596,6 +8809,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     "note",
     "reprint_incremented",
     "media_used_set",
+    "operation_completed",
   ]);
 
   const productionLineItemStatusRuleSchema = z
@@ -8775,34 +8989,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const toSeconds = (ms: number) => Math.max(0, Math.floor(ms / 1000));
 
-  const getTimerStateForJob = async (
-    organizationId: string,
-    productionJobId: string,
-    tx: any = db,
-  ) => {
-    const rows = await tx
-      .select({
-        type: productionEvents.type,
-        createdAt: productionEvents.createdAt,
-      })
-      .from(productionEvents)
-      .where(
-        and(
-          eq(productionEvents.organizationId, organizationId),
-          eq(productionEvents.productionJobId, productionJobId),
-          inArray(productionEvents.type, ["timer_started", "timer_stopped"]),
-        ),
-      )
-      .orderBy(desc(productionEvents.createdAt))
-      .limit(1);
-
-    const last = rows[0];
-    const isRunning = last?.type === "timer_started";
-    return {
-      isRunning,
-      runningSince: isRunning ? (last!.createdAt as any) : null,
-    };
-  };
+  const productionActorFromRequest = (req: any): ProductionActor => ({
+    userId: getUserId(req.user) ?? null,
+    userName: req.user?.email || req.user?.name || null,
+    ipAddress: req.ip || null,
+    userAgent: req.headers["user-agent"] || null,
+  });
 
   const appendEvent = async (args: {
     tx: any;
@@ -8810,6 +9002,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     productionJobId: string;
     type: z.infer<typeof productionEventTypeSchema>;
     payload?: any;
+    operatorUserId?: string | null;
   }) => {
     const payload = args.payload ?? {};
     await args.tx.insert(productionEvents).values({
@@ -8817,6 +9010,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       productionJobId: args.productionJobId,
       type: args.type,
       payload,
+      operatorUserId: args.operatorUserId ?? null,
     });
   };
 
@@ -8961,14 +9155,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
             .limit(1);
 
           if (!existing[0]) {
+            // A product routing (multi-step) starts the job at its first operation
+            const routed = await resolveLineItemRouting(tx, organizationId, li.id);
+            const jobStationKey = routed ? routed.operations[0].stationKey : stationKey;
+            const jobStepKey = routed ? routed.operations[0].key : stepKey;
+
             const [inserted] = await tx
               .insert(productionJobs)
               .values({
                 organizationId,
                 orderId: li.orderId,
                 lineItemId: li.id,
-                stationKey,
-                stepKey,
+                stationKey: jobStationKey,
+                stepKey: jobStepKey,
                 status: "queued",
                 totalSeconds: 0,
               })
@@ -8981,6 +9180,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
                 status: productionJobs.status,
               });
 
+            if (routed) {
+              await createJobOperations(tx, { organizationId, productionJobId: inserted.id, routing: routed });
+            }
+
             await appendEvent({
               tx,
               organizationId,
@@ -8989,8 +9192,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
               payload: {
                 fromStatus: null,
                 toStatus: li.status,
-                stationKey,
-                stepKey,
+                stationKey: jobStationKey,
+                stepKey: jobStepKey,
+                routingId: routed?.routingId ?? null,
               },
             });
 
@@ -9060,7 +9264,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // =============================
 
   // Import the service function
-  const { scheduleOrderLineItemsForProduction } = await import("./services/productionScheduling");
+  const { scheduleOrderLineItemsForProduction, queueProductionReschedule } = await import("./services/productionScheduling");
 
   // 12) Schedule line items for production (Option A: all items, or selected items)
   app.post(
@@ -10025,9 +10229,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           id: productionEvents.id,
           type: productionEvents.type,
           payload: productionEvents.payload,
+          operatorUserId: productionEvents.operatorUserId,
+          operatorFirstName: users.firstName,
+          operatorLastName: users.lastName,
+          operatorEmail: users.email,
           createdAt: productionEvents.createdAt,
         })
         .from(productionEvents)
+        .leftJoin(users, eq(productionEvents.operatorUserId, users.id))
         .where(and(eq(productionEvents.organizationId, organizationId), eq(productionEvents.productionJobId, jobId)))
         .orderBy(desc(productionEvents.createdAt))
         .limit(250);
@@ -10391,6 +10600,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             currentSeconds,
           },
           reprintCount: Number(reprintCountRows[0]?.count) || 0,
+          // Multi-step routing: every operation with its status; empty for single-step jobs
+          operations: await listJobOperations(organizationId, jobId),
           // LIVE LINE ITEM FIELDS (top-level for operator UI)
           qty,
           jobDescription,
@@ -10423,7 +10634,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             sides: artworkBasedSides,
           },
           otherJobsInOrder,
-          events,
+          events: events.map(({ operatorFirstName, operatorLastName, operatorEmail, ...event }) => ({
+            ...event,
+            operatorName: event.operatorUserId
+              ? [operatorFirstName, operatorLastName].filter(Boolean).join(" ") || operatorEmail || null
+              : null,
+          })),
           createdAt: job.createdAt,
           updatedAt: job.updatedAt,
         },
@@ -10558,6 +10774,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return updatedRows[0];
         });
 
+        queueProductionReschedule(organizationId);
         res.json({ success: true, data: result });
       } catch (error: any) {
         const status = error?.statusCode || 500;
@@ -10574,43 +10791,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const organizationId = getRequestOrganizationId(req);
       if (!organizationId) return res.status(500).json({ error: "Missing organization context" });
 
-      const jobId = req.params.jobId;
-      const now = new Date();
-
-      const result = await db.transaction(async (tx) => {
-        const jobRows = await tx
-          .select()
-          .from(productionJobs)
-          .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
-          .limit(1);
-        const job = jobRows[0];
-        if (!job) throw Object.assign(new Error("Production job not found"), { statusCode: 404 });
-        if (job.status === "done") throw Object.assign(new Error("Job is done; reopen first"), { statusCode: 400 });
-
-        const timerState = await getTimerStateForJob(organizationId, jobId, tx);
-        if (timerState.isRunning) {
-          return job;
-        }
-
-        await appendEvent({ tx, organizationId, productionJobId: jobId, type: "timer_started" });
-
-        await tx
-          .update(productionJobs)
-          .set({
-            status: job.status === "queued" ? "in_progress" : job.status,
-            startedAt: job.startedAt ?? now,
-            updatedAt: now,
-          })
-          .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
-
-        const updatedRows = await tx
-          .select()
-          .from(productionJobs)
-          .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
-          .limit(1);
-        return updatedRows[0];
-      });
-
+      const result = await startJobTimer(organizationId, req.params.jobId, productionActorFromRequest(req));
       res.json({ success: true, data: result });
     } catch (error: any) {
       const status = error?.statusCode || 500;
@@ -10626,63 +10807,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const organizationId = getRequestOrganizationId(req);
       if (!organizationId) return res.status(500).json({ error: "Missing organization context" });
 
-      const jobId = req.params.jobId;
-      const now = new Date();
-
-      const result = await db.transaction(async (tx) => {
-        const jobRows = await tx
-          .select()
-          .from(productionJobs)
-          .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
-          .limit(1);
-        const job = jobRows[0];
-        if (!job) throw Object.assign(new Error("Production job not found"), { statusCode: 404 });
-
-        const lastStartRows = await tx
-          .select({ createdAt: productionEvents.createdAt, type: productionEvents.type })
-          .from(productionEvents)
-          .where(
-            and(
-              eq(productionEvents.organizationId, organizationId),
-              eq(productionEvents.productionJobId, jobId),
-              inArray(productionEvents.type, ["timer_started", "timer_stopped"]),
-            ),
-          )
-          .orderBy(desc(productionEvents.createdAt))
-          .limit(1);
-
-        const last = lastStartRows[0];
-        if (!last || last.type !== "timer_started") {
-          return job;
-        }
-
-        const startedAtMs = new Date(last.createdAt as any).getTime();
-        const deltaSeconds = toSeconds(now.getTime() - startedAtMs);
-
-        await appendEvent({
-          tx,
-          organizationId,
-          productionJobId: jobId,
-          type: "timer_stopped",
-          payload: { seconds: deltaSeconds },
-        });
-
-        await tx
-          .update(productionJobs)
-          .set({
-            totalSeconds: (Number(job.totalSeconds) || 0) + deltaSeconds,
-            updatedAt: now,
-          })
-          .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
-
-        const updatedRows = await tx
-          .select()
-          .from(productionJobs)
-          .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
-          .limit(1);
-        return updatedRows[0];
-      });
-
+      const result = await stopJobTimer(organizationId, req.params.jobId, productionActorFromRequest(req));
       res.json({ success: true, data: result });
     } catch (error: any) {
       const status = error?.statusCode || 500;
@@ -10697,85 +10822,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!assertInternalUser(req, res)) return;
       const organizationId = getRequestOrganizationId(req);
       if (!organizationId) return res.status(500).json({ error: "Missing organization context" });
-      const userId = getUserId(req.user);
-
-      const jobId = req.params.jobId;
-      const now = new Date();
-      const skipProduction = req.body?.skipProduction === true;
-
-      const result = await db.transaction(async (tx) => {
-        const jobRows = await tx
-          .select()
-          .from(productionJobs)
-          .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
-          .limit(1);
-        const job = jobRows[0];
-        if (!job) throw Object.assign(new Error("Production job not found"), { statusCode: 404 });
-        if (job.status === "done") return job;
-
-        // queued -> done requires explicit skipProduction
-        if (job.status === "queued" && !skipProduction) {
-          throw Object.assign(new Error("Cannot complete from queued without skipProduction"), { statusCode: 400 });
-        }
 
-        // If timer is running, stop it first.
-        const lastTimer = await tx
-          .select({ createdAt: productionEvents.createdAt, type: productionEvents.type })
-          .from(productionEvents)
-          .where(
-            and(
-              eq(productionEvents.organizationId, organizationId),
-              eq(productionEvents.productionJobId, jobId),
-              inArray(productionEvents.type, ["timer_started", "timer_stopped"]),
-            ),
-          )
-          .orderBy(desc(productionEvents.createdAt))
-          .limit(1);
-        const last = lastTimer[0];
-        if (last?.type === "timer_started") {
-          const startedAtMs = new Date(last.createdAt as any).getTime();
-          const deltaSeconds = toSeconds(now.getTime() - startedAtMs);
-          await appendEvent({
-            tx,
-            organizationId,
-            productionJobId: jobId,
-            type: "timer_stopped",
-            payload: { seconds: deltaSeconds },
-          });
-          await tx
-            .update(productionJobs)
-            .set({ totalSeconds: (Number(job.totalSeconds) || 0) + deltaSeconds })
-            .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
-        }
-
-        await tx
-          .update(productionJobs)
-          .set({ status: "done", completedAt: now, updatedAt: now })
-          .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
-
-        await tx.insert(auditLogs).values({
-          organizationId,
-          userId: userId ?? null,
-          userName: req.user?.email || req.user?.name || null,
-          actionType: "UPDATE",
-          entityType: "production_job",
-          entityId: jobId,
-          entityName: jobId,
-          description: skipProduction ? "Production job completed (skip production)" : "Production job completed",
-          oldValues: { status: job.status },
-          newValues: { status: "done" },
-          ipAddress: req.ip || null,
-          userAgent: req.headers["user-agent"] || null,
-        } as any);
-
-        const updatedRows = await tx
-          .select()
-          .from(productionJobs)
-          .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
-          .limit(1);
-        return updatedRows[0];
+      const result = await completeJob(organizationId, req.params.jobId, {
+        skipProduction: req.body?.skipProduction === true,
+        actor: productionActorFromRequest(req),
       });
 
+      queueProductionReschedule(organizationId);
       res.json({ success: true, data: result });
     } catch (error: any) {
       const status = error?.statusCode || 500;
@@ -10811,6 +10864,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .update(productionJobs)
           .set({ status: "in_progress", completedAt: null, updatedAt: now })
           .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
+        await reopenJobOperation(tx, organizationId, jobId, now);
 
         await appendEvent({
           tx,
@@ -10843,6 +10897,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return updatedRows[0];
       });
 
+      queueProductionReschedule(organizationId);
       res.json({ success: true, data: result });
     } catch (error: any) {
       const status = error?.statusCode || 500;
@@ -11102,34 +11157,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
 
         // If setting to done, stop timer if running
+        let totalSeconds = Number(job.totalSeconds) || 0;
         if (newStatus === "done") {
-          const lastTimer = await tx
-            .select({ createdAt: productionEvents.createdAt, type: productionEvents.type })
-            .from(productionEvents)
-            .where(
-              and(
-                eq(productionEvents.organizationId, organizationId),
-                eq(productionEvents.productionJobId, jobId),
-                inArray(productionEvents.type, ["timer_started", "timer_stopped"]),
-              ),
-            )
-            .orderBy(desc(productionEvents.createdAt))
-            .limit(1);
-          const last = lastTimer[0];
-          if (last?.type === "timer_started") {
-            const startedAtMs = new Date(last.createdAt as any).getTime();
-            const deltaSeconds = toSeconds(now.getTime() - startedAtMs);
-            await appendEvent({
-              tx,
+          totalSeconds += await stopRunningTimer(tx, job, now, userId ?? null);
+
+          // Multi-step routing: done on a routed job finishes its current operation; the job only
+          // finishes after the last one and otherwise moves on to the next station.
+          const advance = await completeJobOperation(tx, {
+            organizationId,
+            productionJobId: jobId,
+            jobTotalSeconds: totalSeconds,
+            now,
+            operatorUserId: userId ?? null,
+          });
+          if (advance?.next) {
+            await tx.insert(auditLogs).values({
               organizationId,
-              productionJobId: jobId,
-              type: "timer_stopped",
-              payload: { seconds: deltaSeconds },
-            });
-            await tx
-              .update(productionJobs)
-              .set({ totalSeconds: (Number(job.totalSeconds) || 0) + deltaSeconds })
-              .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
+              userId: userId ?? null,
+              userName: req.user?.email || req.user?.name || null,
+              actionType: "UPDATE",
+              entityType: "production_job",
+              entityId: jobId,
+              entityName: jobId,
+              description: `Production operation "${advance.completed.name}" completed; moved to ${advance.next.stationKey}`,
+              oldValues: { status: job.status, stationKey: job.stationKey, stepKey: job.stepKey },
+              newValues: { status: "queued", stationKey: advance.next.stationKey, stepKey: advance.next.operationKey },
+              ipAddress: req.ip || null,
+              userAgent: req.headers["user-agent"] || null,
+            } as any);
+
+            const [advanced] = await tx
+              .select()
+              .from(productionJobs)
+              .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
+              .limit(1);
+            return advanced;
           }
         }
 
@@ -11144,6 +11206,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           updateData.completedAt = null; // Reopening
         }
         if (newStatus === "in_progress" && !job.startedAt) {
+          if (job.lineItemId) {
+            const gate = await getLineItemProofGate(organizationId, job.lineItemId, tx);
+            if (!gate.open) throw Object.assign(new Error(gate.reason ?? "Proof not approved"), { statusCode: 409 });
+          }
           updateData.startedAt = now;
         }
 
@@ -11151,6 +11217,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           .update(productionJobs)
           .set(updateData)
           .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
+        if ((job.status as string) === "done" && (newStatus as string) !== "done") {
+          await reopenJobOperation(tx, organizationId, jobId, now);
+        }
+        if (newStatus === "in_progress") await startJobOperation(tx, organizationId, jobId, now);
 
         await tx.insert(auditLogs).values({
           organizationId,
@@ -11175,6 +11245,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return updatedRows[0];
       });
 
+      queueProductionReschedule(organizationId);
       res.json({ success: true, data: result });
     } catch (error: any) {
       const status = error?.statusCode || 500;
@@ -0,0 +1,129 @@
+/**
+ * Attachment Annotation Routes Module
+ *
+ * Pin / rectangle / freehand markup on a page of an order attachment, quote attachment or
+ * asset, each with a comment thread. Internal users only; annotations marked visible to the
+ * customer are surfaced on the proof page by the proofs service.
+ */
+
+import type { Express } from "express";
+import {
+  createAnnotationCommentSchema,
+  createAttachmentAnnotationSchema,
+  updateAttachmentAnnotationSchema,
+  type AnnotationTargetType,
+} from "@shared/schema";
+import { getRequestOrganizationId } from "../tenantContext";
+import {
+  ANNOTATION_TARGET_TYPES,
+  addAnnotationComment,
+  createAnnotation,
+  deleteAnnotation,
+  exportAnnotatedPdf,
+  listAnnotations,
+  updateAnnotation,
+  type AnnotationAuthor,
+  type AnnotationTarget,
+} from "../services/attachmentAnnotations";
+import { httpError, sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser } from "../lib/staffAccess";
+
+function getAuthor(req: any): AnnotationAuthor {
+  const user = req.user;
+  const userName = `${user?.firstName || ""} ${user?.lastName || ""}`.trim() || user?.email || null;
+  return { userId: user?.id || user?.claims?.sub || null, userName };
+}
+
+function parseTarget(req: any): AnnotationTarget {
+  const type = req.params.targetType as AnnotationTargetType;
+  if (!ANNOTATION_TARGET_TYPES.includes(type)) {
+    throw httpError(400, `Unknown annotation target: ${req.params.targetType}`);
+  }
+  return { type, id: req.params.targetId };
+}
+
+export async function registerAnnotationRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+  }
+) {
+  const { isAuthenticated, tenantContext } = deps;
+
+  app.get("/api/annotation-targets/:targetType/:targetId/annotations", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listAnnotations(organizationId, parseTarget(req)) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch annotations");
+    }
+  });
+
+  app.post("/api/annotation-targets/:targetType/:targetId/annotations", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const target = parseTarget(req);
+      const input = createAttachmentAnnotationSchema.parse(req.body ?? {});
+      const data = await createAnnotation(organizationId, target, input, getAuthor(req));
+      return res.status(201).json({ success: true, data });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to create annotation");
+    }
+  });
+
+  app.get("/api/annotation-targets/:targetType/:targetId/export.pdf", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const { bytes, fileName } = await exportAnnotatedPdf(organizationId, parseTarget(req));
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName.replace(/"/g, "")}"`);
+      return res.send(Buffer.from(bytes));
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to export annotations");
+    }
+  });
+
+  app.patch("/api/annotations/:id", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = updateAttachmentAnnotationSchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await updateAnnotation(organizationId, req.params.id, input) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to update annotation");
+    }
+  });
+
+  app.delete("/api/annotations/:id", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      await deleteAnnotation(organizationId, req.params.id);
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to delete annotation");
+    }
+  });
+
+  app.post("/api/annotations/:id/comments", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const { body } = createAnnotationCommentSchema.parse(req.body ?? {});
+      const data = await addAnnotationComment(organizationId, req.params.id, body, getAuthor(req));
+      return res.status(201).json({ success: true, data });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to add comment");
+    }
+  });
+}
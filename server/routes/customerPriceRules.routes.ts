@@ -0,0 +1,91 @@
+/**
+ * Customer Price List Routes Module
+ *
+ * Negotiated per-customer, per-product contract prices (fixed unit price, per-sqft rate or
+ * percent off) with start/end dates. `/api/quotes/calculate` applies a matching rule before the
+ * customer's tier discount/markup. Editing is admin-only; staff can read them.
+ */
+
+import type { Express } from "express";
+import { insertCustomerPriceRuleSchema, updateCustomerPriceRuleSchema } from "@shared/schema";
+import { getRequestOrganizationId } from "../tenantContext";
+import {
+  createCustomerPriceRule,
+  deleteCustomerPriceRule,
+  listCustomerPriceRules,
+  updateCustomerPriceRule,
+} from "../services/customerPriceRules";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser } from "../lib/staffAccess";
+
+function getUserId(user: any): string | null {
+  if (!user) return null;
+  return user.id || user.claims?.sub || null;
+}
+
+export async function registerCustomerPriceRuleRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+    isAdmin: any;
+  }
+) {
+  const { isAuthenticated, tenantContext, isAdmin } = deps;
+
+  /**
+   * GET /api/customers/:customerId/price-rules
+   * All rules for the customer (past, current and future), with product names.
+   */
+  app.get("/api/customers/:customerId/price-rules", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const rules = await listCustomerPriceRules(organizationId, req.params.customerId);
+      return res.json({ success: true, data: rules });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch customer price rules");
+    }
+  });
+
+  app.post("/api/customers/:customerId/price-rules", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = insertCustomerPriceRuleSchema.parse(req.body ?? {});
+      const rule = await createCustomerPriceRule(organizationId, req.params.customerId, input, getUserId(req.user));
+      return res.json({ success: true, data: rule });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to create customer price rule");
+    }
+  });
+
+  app.patch("/api/customers/:customerId/price-rules/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = updateCustomerPriceRuleSchema.parse(req.body ?? {});
+      const rule = await updateCustomerPriceRule(organizationId, req.params.customerId, req.params.id, input, getUserId(req.user));
+      if (!rule) return res.status(404).json({ success: false, message: "Price rule not found" });
+      return res.json({ success: true, data: rule });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to update customer price rule");
+    }
+  });
+
+  app.delete("/api/customers/:customerId/price-rules/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const deleted = await deleteCustomerPriceRule(organizationId, req.params.customerId, req.params.id);
+      if (!deleted) return res.status(404).json({ success: false, message: "Price rule not found" });
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to delete customer price rule");
+    }
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * Job Costing Routes Module
+ *
+ * Labor time entries per production job (booked by the timers, added or corrected by admins),
+ * operator labor rates, station machine-hour rates, and the cost rollups: per order line item
+ * on the order page and across jobs in the job-profitability report. Costs are visible to
+ * managers and up only; rates and entries are changed by admins.
+ */
+
+import type { Express } from "express";
+import { getRequestOrganizationId } from "../tenantContext";
+import {
+  insertProductionTimeEntrySchema,
+  productionLaborRateSchema,
+  productionStationRateSchema,
+  updateProductionTimeEntrySchema,
+} from "@shared/schema";
+import {
+  createTimeEntry,
+  deleteStationRate,
+  deleteTimeEntry,
+  getJobProfitabilityReport,
+  getOrderJobCosting,
+  jobProfitabilityQuerySchema,
+  listJobTimeEntries,
+  listStationRates,
+  setLaborRate,
+  setStationRate,
+  updateTimeEntry,
+} from "../services/jobCosting";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser, requireManager } from "../lib/staffAccess";
+
+export async function registerJobCostingRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+    isAdmin: any;
+  }
+) {
+  const { isAuthenticated, tenantContext, isAdmin } = deps;
+
+  /**
+   * GET /api/production/station-rates
+   * Machine-hour rate per station key.
+   */
+  app.get("/api/production/station-rates", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listStationRates(organizationId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch station rates");
+    }
+  });
+
+  /**
+   * PUT /api/production/station-rates/:stationKey
+   * Body: { machineRatePerHour }. Applies to time recorded from now on.
+   */
+  app.put("/api/production/station-rates/:stationKey", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const { machineRatePerHour } = productionStationRateSchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await setStationRate(organizationId, req.params.stationKey, machineRatePerHour) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to save station rate");
+    }
+  });
+
+  app.delete("/api/production/station-rates/:stationKey", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      await deleteStationRate(organizationId, req.params.stationKey);
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to delete station rate");
+    }
+  });
+
+  /**
+   * PUT /api/production/operators/:userId/labor-rate
+   * Body: { laborRatePerHour: number | null }. null clears; the operator's time is then unrated.
+   */
+  app.put("/api/production/operators/:userId/labor-rate", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const { laborRatePerHour } = productionLaborRateSchema.parse(req.body ?? {});
+      await setLaborRate(organizationId, req.params.userId, laborRatePerHour);
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to save labor rate");
+    }
+  });
+
+  /**
+   * GET /api/production/jobs/:jobId/time-entries
+   * The job's time entries, newest first, with operator names and labor/machine cost.
+   */
+  app.get("/api/production/jobs/:jobId/time-entries", isAuthenticated, tenantContext, requireManager, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listJobTimeEntries(organizationId, req.params.jobId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch time entries");
+    }
+  });
+
+  /**
+   * POST /api/production/jobs/:jobId/time-entries
+   * Body: { operatorUserId, startedAt, minutes, stationKey?, note? }. A manual entry for work
+   * done off the timer. Entries cost the job; they don't change its logged timer total.
+   * PATCH/DELETE /api/production/time-entries/:entryId correct or remove an entry. Admin only.
+   */
+  app.post("/api/production/jobs/:jobId/time-entries", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = insertProductionTimeEntrySchema.parse(req.body ?? {});
+      const entry = await createTimeEntry(organizationId, req.params.jobId, input, req.user?.id ?? null);
+      return res.status(201).json({ success: true, data: entry });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to add time entry");
+    }
+  });
+
+  app.patch("/api/production/time-entries/:entryId", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = updateProductionTimeEntrySchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await updateTimeEntry(organizationId, req.params.entryId, input) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to update time entry");
+    }
+  });
+
+  app.delete("/api/production/time-entries/:entryId", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      await deleteTimeEntry(organizationId, req.params.entryId);
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to delete time entry");
+    }
+  });
+
+  /**
+   * GET /api/orders/:orderId/job-costing
+   * Material, labor and machine cost per line item against its sell price, with order totals.
+   */
+  app.get("/api/orders/:orderId/job-costing", isAuthenticated, tenantContext, requireManager, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await getOrderJobCosting(organizationId, req.params.orderId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch job costing");
+    }
+  });
+
+  /**
+   * GET /api/reports/job-profitability?from=&to=&status=done|all
+   * Costed line items that finished production in the range (status=done, the default) or
+   * started it (status=all). Defaults to the last 30 days.
+   */
+  app.get("/api/reports/job-profitability", isAuthenticated, tenantContext, requireManager, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const query = jobProfitabilityQuerySchema.parse(req.query ?? {});
+      return res.json({ success: true, data: await getJobProfitabilityReport(organizationId, query) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to build job profitability report");
+    }
+  });
+}
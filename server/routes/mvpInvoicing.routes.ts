@@ -8,6 +8,7 @@ import { getValidAccessTokenForOrganization, syncSingleInvoiceToQuickBooksForOrg
 import { computeInvoicePaymentRollup, getInvoicePaymentStatusLabel } from "../../shared/rollups/invoicePaymentRollup";
 import { createInvoicePaymentIntent, getStripeClient, getStripeWebhookSecret } from "../lib/stripe";
 import { generateInvoicePdfBytes } from "../services/invoicePdf";
+import { listDocumentDiscountLines } from "../services/promotions";
 import { z } from "zod";
 import { integrationConnections } from "../../shared/schema";
 import { resolveQuickBooksPreferencesFromOrgPreferences, type QuickBooksSyncPolicy } from "../../shared/quickBooksPreferences";
@@ -631,6 +632,7 @@ export async function registerMvpInvoicingRoutes(
           statusLabel,
         },
         lineItems: lineItems as any,
+        discountLines: await listDocumentDiscountLines(organizationId, { invoiceId: inv.id }),
         job,
       });
 
@@ -1731,7 +1733,8 @@ export async function registerMvpInvoicingRoutes(
       const nextSubtotalCents = req.body.subtotalCents !== undefined ? Number(req.body.subtotalCents) : Number(existing.subtotalCents || 0);
       const nextTaxCents = req.body.taxCents !== undefined ? Number(req.body.taxCents) : Number(existing.taxCents || 0);
       const nextShippingCents = req.body.shippingCents !== undefined ? Number(req.body.shippingCents) : Number(existing.shippingCents || 0);
-      const computedNextTotalCents = Math.max(0, Math.round(nextSubtotalCents) + Math.round(nextTaxCents) + Math.round(nextShippingCents));
+      const discountCents = Number(existing.discountCents || 0);
+      const computedNextTotalCents = Math.max(0, Math.round(nextSubtotalCents) - discountCents + Math.round(nextTaxCents) + Math.round(nextShippingCents));
 
       const financialOrCustomerVisibleChanged =
         (hasFinancialBody && (
@@ -1912,6 +1915,7 @@ export async function registerMvpInvoicingRoutes(
           statusLabel,
         },
         lineItems: lineItems as any,
+        discountLines: await listDocumentDiscountLines(organizationId, { invoiceId: inv.id }),
         job,
       });
 
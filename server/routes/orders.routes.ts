@@ -53,6 +53,9 @@ import { pickPbv2EnvExtras } from "@shared/pbv2/pbv2InputSignature";
 import { selectPbv2TreeVersionIdForEvaluation } from "../lib/pbv2OverrideConfig";
 import { assignEffectIndexFallback, buildOrderLineItemComponentUpsertValues } from "../lib/pbv2ComponentUpsert";
 import { assertPbv2TreeVersionNotDraft } from "../lib/pbv2TreeVersionGuards";
+import { resolvePbv2TreeVersionIdAt } from "../services/pbv2TreeVersionLifecycle";
+import { loadPricebookValues } from "../services/pricebook";
+import { createJobOperations, resolveLineItemRouting } from "../services/productionRoutings";
 import { normalizePbv2DiffComponent, pbv2DiffComponents } from "@shared/pbv2/pbv2ComponentDiff";
 import { buildOrderPbv2Rollup } from "@shared/pbv2/pbv2OrderRollup";
 import { buildPbv2OrderRollupResponse } from "../lib/pbv2OrderRollupResponse";
@@ -243,6 +246,8 @@ async function evaluatePbv2SnapshotForProduct(args: {
     env: Record<string, unknown>;
     pricingContext?: { customerTier?: 'default' | 'wholesale' | 'retail' };
     context?: 'persist' | 'recompute';
+    /** Resolve the tree version effective at this time (e.g. the order date). Default: now. */
+    pricingAt?: Date | string | null;
 }): Promise<{ treeVersionId: string; snapshotJson: Pbv2OrderLineItemSnapshot } | null> {
     const { organizationId, productId, explicitSelections, env } = args;
     const context = args.context ?? 'persist';
@@ -255,8 +260,10 @@ async function evaluatePbv2SnapshotForProduct(args: {
 
     if (!product?.pbv2ActiveTreeVersionId) return null;
 
+    const effectiveTreeVersionId = await resolvePbv2TreeVersionIdAt({ organizationId, productId, at: args.pricingAt ?? null });
+
     const treeVersionIdToUse = selectPbv2TreeVersionIdForEvaluation({
-        activeTreeVersionId: product.pbv2ActiveTreeVersionId,
+        activeTreeVersionId: effectiveTreeVersionId ?? product.pbv2ActiveTreeVersionId,
         pricingProfileConfig: (product as any).pricingProfileConfig,
     });
     if (!treeVersionIdToUse) return null;
@@ -271,16 +278,19 @@ async function evaluatePbv2SnapshotForProduct(args: {
     assertPbv2TreeVersionNotDraft(treeVersion.status, context);
 
     const evaluatedAt = new Date().toISOString();
+    // Pricebook values effective at the same time as the tree version.
+    const pricebook = await loadPricebookValues(organizationId, args.pricingAt ?? null);
 
     let pricing;
     let materials;
     let childItems;
     try {
         const pricingRes = pbv2ToPricingAddons(treeVersion.treeJson as any, explicitSelections, env as any, {
+            pricebook,
             pricingContext: args.pricingContext,
         });
-        const materialsRes = pbv2ToMaterialEffects(treeVersion.treeJson as any, explicitSelections, env as any);
-        const childItemsRes = pbv2ToChildItemProposals(treeVersion.treeJson as any, explicitSelections, env as any);
+        const materialsRes = pbv2ToMaterialEffects(treeVersion.treeJson as any, explicitSelections, env as any, { pricebook });
+        const childItemsRes = pbv2ToChildItemProposals(treeVersion.treeJson as any, explicitSelections, env as any, { pricebook });
         pricing = { addOnCents: pricingRes.addOnCents, breakdown: pricingRes.breakdown };
         materials = materialsRes.materials;
         childItems = childItemsRes.childItems;
@@ -1541,6 +1551,16 @@ export async function registerOrderRoutes(
 
             const orgPreferences = await getOrgPreferences(organizationId);
 
+            let preflightBlockerCount = 0;
+            if (toStatus === 'in_production') {
+                try {
+                    const { countOrderPreflightBlockers } = await import('../prepress/attachments-service');
+                    preflightBlockerCount = await countOrderPreflightBlockers(orderId);
+                } catch (err) {
+                    console.warn('[OrderTransition] Could not load preflight blockers:', err);
+                }
+            }
+
             if (toStatus === 'completed') {
                 const requireLineItemsDone = orgPreferences?.orders?.requireLineItemsDoneToComplete ?? true;
                 if (requireLineItemsDone) {
@@ -1564,6 +1584,7 @@ export async function registerOrderRoutes(
                 fulfillmentStatus: order.fulfillmentStatus,
                 jobsCount,
                 hasShippedAt: !!order.shippedAt,
+                preflightBlockerCount,
                 orgPreferences,
             });
 
@@ -3610,6 +3631,18 @@ export async function registerOrderRoutes(
                 metadata: { fileId: attachment.id, fileName: originalFilename || fileName, role, side } as any,
             });
 
+            // Line item artwork: queue automatic preflight (fail-soft, never blocks the upload)
+            if (attachment.orderLineItemId) {
+                setImmediate(async () => {
+                    try {
+                        const { queueAttachmentPreflight } = await import('../prepress/attachments-service');
+                        await queueAttachmentPreflight(organizationId, attachment);
+                    } catch (err) {
+                        console.error('[OrderFiles:POST] Preflight queueing failed (non-blocking):', err);
+                    }
+                });
+            }
+
             res.json({ success: true, data: attachment });
         } catch (error) {
             console.error('Error attaching file to order:', error);
@@ -3730,7 +3763,7 @@ export async function registerOrderRoutes(
 
             const orderId = String(req.params.orderId);
             const [order] = await db
-                .select({ id: orders.id })
+                .select({ id: orders.id, createdAt: orders.createdAt })
                 .from(orders)
                 .where(and(eq(orders.id, orderId), eq(orders.organizationId, organizationId)))
                 .limit(1);
@@ -3738,15 +3771,12 @@ export async function registerOrderRoutes(
 
             const lineItems = await storage.getOrderLineItems(orderId);
 
-            // Enrich with product PBV2 active tree version id for staleness detection.
+            // Enrich with the PBV2 tree version effective at the order date for staleness detection
+            // (same version recompute evaluates against).
             const productIds = Array.from(new Set(lineItems.map((li: any) => String((li as any).productId || '')).filter(Boolean)));
             const productTreeById = new Map<string, string | null>();
-            if (productIds.length > 0) {
-                const rows = await db
-                    .select({ id: products.id, pbv2ActiveTreeVersionId: products.pbv2ActiveTreeVersionId })
-                    .from(products)
-                    .where(and(eq(products.organizationId, organizationId), inArray(products.id, productIds as any)));
-                for (const r of rows) productTreeById.set(String(r.id), (r as any).pbv2ActiveTreeVersionId ? String((r as any).pbv2ActiveTreeVersionId) : null);
+            for (const productId of productIds) {
+                productTreeById.set(productId, await resolvePbv2TreeVersionIdAt({ organizationId, productId, at: order.createdAt }));
             }
 
             const components = await db
@@ -3783,7 +3813,7 @@ export async function registerOrderRoutes(
 
             const lineItemId = String(req.params.id);
             const [li] = await db
-                .select({ id: orderLineItems.id })
+                .select({ id: orderLineItems.id, orderCreatedAt: orders.createdAt })
                 .from(orderLineItems)
                 .innerJoin(orders, eq(orders.id, orderLineItems.orderId))
                 .where(and(eq(orderLineItems.id, lineItemId), eq(orders.organizationId, organizationId)))
@@ -3794,11 +3824,9 @@ export async function registerOrderRoutes(
             const lineItem = await storage.getOrderLineItemById(lineItemId);
             if (!lineItem) return res.status(404).json({ message: "Order line item not found" });
 
-            const [productRow] = await db
-                .select({ pbv2ActiveTreeVersionId: products.pbv2ActiveTreeVersionId })
-                .from(products)
-                .where(and(eq(products.organizationId, organizationId), eq(products.id, String((lineItem as any).productId))))
-                .limit(1);
+            const effectiveTreeVersionId = (lineItem as any).productId
+                ? await resolvePbv2TreeVersionIdAt({ organizationId, productId: String((lineItem as any).productId), at: li.orderCreatedAt })
+                : null;
 
             const components = await db
                 .select()
@@ -3809,7 +3837,7 @@ export async function registerOrderRoutes(
                     eq(orderLineItemComponents.status, 'ACCEPTED')
                 ));
 
-            res.json({ ...(lineItem as any), pbv2ActiveTreeVersionId: productRow?.pbv2ActiveTreeVersionId ? String(productRow.pbv2ActiveTreeVersionId) : null, components });
+            res.json({ ...(lineItem as any), pbv2ActiveTreeVersionId: effectiveTreeVersionId, components });
         } catch (error) {
             res.status(500).json({ message: "Failed to fetch order line item" });
         }
@@ -4187,6 +4215,7 @@ export async function registerOrderRoutes(
                     height: orderLineItems.height,
                     quantity: orderLineItems.quantity,
                     customerId: orders.customerId,
+                    orderCreatedAt: orders.createdAt,
                 })
                 .from(orderLineItems)
                 .innerJoin(orders, eq(orders.id, orderLineItems.orderId))
@@ -4218,7 +4247,7 @@ export async function registerOrderRoutes(
                 if (tier === 'default' || tier === 'wholesale' || tier === 'retail') customerTier = tier;
             }
 
-            // Evaluate using the PRODUCT ACTIVE tree version (must not be DRAFT).
+            // Evaluate using the tree version effective at the order date (must not be DRAFT).
             const pbv2 = await evaluatePbv2SnapshotForProduct({
                 organizationId,
                 productId: String((li as any).productId),
@@ -4226,6 +4255,7 @@ export async function registerOrderRoutes(
                 env,
                 pricingContext: { customerTier },
                 context: 'recompute',
+                pricingAt: (li as any).orderCreatedAt ?? null,
             }).catch((e: any) => {
                 if (e?.statusCode) throw e;
                 throw Object.assign(new Error(e?.message || 'PBV2 recompute failed'), { statusCode: 400 });
@@ -4316,6 +4346,7 @@ export async function registerOrderRoutes(
                     quantity: orderLineItems.quantity,
                     pbv2SnapshotJson: orderLineItems.pbv2SnapshotJson,
                     pbv2TreeVersionId: orderLineItems.pbv2TreeVersionId,
+                    orderCreatedAt: orders.createdAt,
                 })
                 .from(orderLineItems)
                 .innerJoin(orders, eq(orders.id, orderLineItems.orderId))
@@ -4363,13 +4394,14 @@ export async function registerOrderRoutes(
                 return res.status(400).json({ message: `Snapshot missing inputs (${missing.join(", ")}); cannot apply updates.` });
             }
 
-            const [productRow] = await db
-                .select({ pbv2ActiveTreeVersionId: products.pbv2ActiveTreeVersionId })
-                .from(products)
-                .where(and(eq(products.organizationId, organizationId), eq(products.id, String((li as any).productId))))
-                .limit(1);
+            // Same version recompute would use: effective at the order date.
+            const effectiveTreeVersionId = await resolvePbv2TreeVersionIdAt({
+                organizationId,
+                productId: String((li as any).productId),
+                at: (li as any).orderCreatedAt ?? null,
+            });
 
-            const activeTreeVersionId = productRow?.pbv2ActiveTreeVersionId ? String(productRow.pbv2ActiveTreeVersionId) : "";
+            const activeTreeVersionId = effectiveTreeVersionId ? String(effectiveTreeVersionId) : "";
 
             const snapshotSig =
                 typeof (snapshot as any).pbv2InputSignature === "string" && (snapshot as any).pbv2InputSignature.length
@@ -4689,7 +4721,8 @@ export async function registerOrderRoutes(
                     return res.status(400).json({ message: `Snapshot missing inputs (${missing.join(', ')}); cannot accept components.` });
                 }
 
-                const recomputed = pbv2ToChildItemProposals(treeVersion.treeJson as any, selections as any, env as any);
+                const pricebook = await loadPricebookValues(organizationId, typeof (snapshot as any).evaluatedAt === 'string' ? (snapshot as any).evaluatedAt : null);
+                const recomputed = pbv2ToChildItemProposals(treeVersion.treeJson as any, selections as any, env as any, { pricebook });
                 const recomputedItems = (Array.isArray((recomputed as any)?.childItems) ? (recomputed as any).childItems : [])
                     .filter((ci: any) => ci && typeof ci === 'object' && typeof ci.sourceNodeId === 'string')
                     .map((ci: any) => ({
@@ -4929,6 +4962,13 @@ export async function registerOrderRoutes(
                             let ignoredDueToExistingRouting = false;
 
                             if (!existing[0]) {
+                                // A product routing (multi-step) starts the job at its first operation
+                                const routed = await resolveLineItemRouting(tx, organizationId, lineItemId);
+                                if (routed) {
+                                    appliedStationKey = routed.operations[0].stationKey;
+                                    appliedStepKey = routed.operations[0].key;
+                                }
+
                                 // New job MUST be line-item backed.
                                 const [inserted] = await tx
                                     .insert(productionJobs)
@@ -4936,14 +4976,18 @@ export async function registerOrderRoutes(
                                         organizationId,
                                         orderId,
                                         lineItemId,
-                                        stationKey,
-                                        stepKey,
+                                        stationKey: appliedStationKey,
+                                        stepKey: appliedStepKey,
                                         status: 'queued',
                                         totalSeconds: 0,
                                     })
                                     .returning({ id: productionJobs.id });
                                 jobId = inserted.id;
                                 created = true;
+
+                                if (routed) {
+                                    await createJobOperations(tx, { organizationId, productionJobId: jobId, routing: routed });
+                                }
                             } else {
                                 jobId = existing[0].id;
 
@@ -0,0 +1,422 @@
+/**
+ * PBV2 Tree Version Routes Module
+ *
+ * Version history and review tooling for PBV2 option trees:
+ * - List tree versions for a product
+ * - Structural diff between two tree versions (default: against the product's ACTIVE version)
+ * - "What-if" price impact: replay recent quote/order line items through a candidate tree
+ * - Rollback to a prior published version; cancel a scheduled publish
+ *
+ * Publish itself (immediate or scheduled via `effectiveFrom`) stays in routes.ts (/api/pbv2/tree-versions/:id/publish).
+ */
+
+import type { Express } from "express";
+import { and, desc, eq, inArray, ne, sql } from "drizzle-orm";
+import { db } from "../db";
+import { orderLineItems, orders, pbv2TreeVersions, products, quoteLineItems, quotes } from "@shared/schema";
+import { getRequestOrganizationId } from "../tenantContext";
+import { diffPbv2Trees } from "@shared/pbv2/treeVersionDiff";
+import {
+  buildPbv2PriceImpactReport,
+  extractPbv2ReplayInputs,
+  type Pbv2PriceImpactSample,
+} from "@shared/pbv2/priceImpact";
+import {
+  activateDueScheduledPbv2TreeVersions,
+  rollbackPbv2TreeVersion,
+  unschedulePbv2TreeVersion,
+} from "../services/pbv2TreeVersionLifecycle";
+import { loadPricebookValues } from "../services/pricebook";
+
+const PRICE_IMPACT_DEFAULT_LIMIT = 50;
+const PRICE_IMPACT_MAX_LIMIT = 500;
+
+function countTreeEntities(treeJson: unknown): { nodeCount: number; edgeCount: number } {
+  const tree = (treeJson ?? {}) as any;
+  const count = (v: unknown) => (Array.isArray(v) ? v.length : v && typeof v === "object" ? Object.keys(v).length : 0);
+  return { nodeCount: count(tree.nodes), edgeCount: count(tree.edges) };
+}
+
+function dollarsToCents(value: unknown): number | null {
+  if (value === null || value === undefined) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.round(n * 100) : null;
+}
+
+function toIso(value: unknown): string | null {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === "string" ? value : null;
+}
+
+type PriceImpactCandidate = { sample: Pbv2PriceImpactSample; pricedAt: Date | null; createdAt: Date };
+
+/** pricedAt desc nulls last, then createdAt desc: the order both sample queries use. */
+function compareNewestPriced(a: PriceImpactCandidate, b: PriceImpactCandidate): number {
+  if (a.pricedAt && b.pricedAt && a.pricedAt.getTime() !== b.pricedAt.getTime()) {
+    return b.pricedAt.getTime() - a.pricedAt.getTime();
+  }
+  if (!a.pricedAt !== !b.pricedAt) return a.pricedAt ? -1 : 1;
+  return b.createdAt.getTime() - a.createdAt.getTime();
+}
+
+function getUserId(user: any): string | null {
+  if (!user) return null;
+  return user.id || user.claims?.sub || null;
+}
+
+function toVersionSummary(row: typeof pbv2TreeVersions.$inferSelect, activeId: string | null) {
+  return {
+    id: row.id,
+    productId: row.productId,
+    status: row.status,
+    schemaVersion: row.schemaVersion,
+    publishedAt: row.publishedAt,
+    effectiveFrom: row.effectiveFrom,
+    sourceTreeVersionId: row.sourceTreeVersionId,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    createdByUserId: row.createdByUserId,
+    updatedByUserId: row.updatedByUserId,
+    isActive: !!activeId && row.id === activeId,
+    ...countTreeEntities(row.treeJson),
+  };
+}
+
+export async function registerPbv2TreeVersionRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+  }
+) {
+  const { isAuthenticated, tenantContext } = deps;
+
+  /**
+   * GET /api/products/:productId/pbv2/tree-versions
+   * Newest first. ARCHIVED rows (override trees) are excluded unless ?includeArchived=true.
+   */
+  app.get("/api/products/:productId/pbv2/tree-versions", isAuthenticated, tenantContext, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const { productId } = req.params;
+      const includeArchived = String(req.query.includeArchived ?? "").toLowerCase() === "true";
+
+      const [product] = await db
+        .select({ id: products.id, pbv2ActiveTreeVersionId: products.pbv2ActiveTreeVersionId })
+        .from(products)
+        .where(and(eq(products.id, productId), eq(products.organizationId, organizationId)))
+        .limit(1);
+
+      if (!product) return res.status(404).json({ success: false, message: "Product not found" });
+
+      const activatedId = await activateDueScheduledPbv2TreeVersions(organizationId, productId);
+      const activeTreeVersionId = activatedId ?? product.pbv2ActiveTreeVersionId ?? null;
+
+      const rows = await db
+        .select()
+        .from(pbv2TreeVersions)
+        .where(and(eq(pbv2TreeVersions.organizationId, organizationId), eq(pbv2TreeVersions.productId, productId)))
+        .orderBy(desc(pbv2TreeVersions.updatedAt));
+
+      const versions = rows
+        .filter((r) => includeArchived || r.status !== "ARCHIVED")
+        .map((r) => toVersionSummary(r, activeTreeVersionId));
+
+      return res.json({ success: true, data: { versions, activeTreeVersionId } });
+    } catch (error: any) {
+      console.error("Error listing PBV2 tree versions:", error);
+      return res.status(500).json({ success: false, message: "Failed to list PBV2 tree versions" });
+    }
+  });
+
+  /**
+   * GET /api/pbv2/tree-versions/:id/diff?against=<treeVersionId>
+   * Diff is base (against) → target (:id). When `against` is omitted the product's ACTIVE version is the base.
+   */
+  app.get("/api/pbv2/tree-versions/:id/diff", isAuthenticated, tenantContext, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const { id } = req.params;
+      const againstParam = typeof req.query.against === "string" ? req.query.against.trim() : "";
+
+      const [target] = await db
+        .select()
+        .from(pbv2TreeVersions)
+        .where(and(eq(pbv2TreeVersions.organizationId, organizationId), eq(pbv2TreeVersions.id, id)))
+        .limit(1);
+
+      if (!target) return res.status(404).json({ success: false, message: "Tree version not found" });
+
+      const [product] = await db
+        .select({ pbv2ActiveTreeVersionId: products.pbv2ActiveTreeVersionId })
+        .from(products)
+        .where(and(eq(products.id, target.productId), eq(products.organizationId, organizationId)))
+        .limit(1);
+
+      const activeId = product?.pbv2ActiveTreeVersionId ?? null;
+      const baseId = againstParam || activeId;
+
+      let base: typeof pbv2TreeVersions.$inferSelect | null = null;
+      if (baseId) {
+        const [row] = await db
+          .select()
+          .from(pbv2TreeVersions)
+          .where(and(eq(pbv2TreeVersions.organizationId, organizationId), eq(pbv2TreeVersions.id, baseId)))
+          .limit(1);
+
+        if (!row) return res.status(404).json({ success: false, message: "Comparison tree version not found" });
+        if (row.productId !== target.productId) {
+          return res.status(400).json({ success: false, message: "Tree versions belong to different products" });
+        }
+        base = row;
+      }
+
+      // No ACTIVE version yet: everything in the target shows as added.
+      const diff = diffPbv2Trees(base?.treeJson ?? {}, target.treeJson);
+
+      return res.json({
+        success: true,
+        data: {
+          base: base ? toVersionSummary(base, activeId) : null,
+          target: toVersionSummary(target, activeId),
+          baseTreeJson: base?.treeJson ?? null,
+          targetTreeJson: target.treeJson,
+          diff,
+        },
+      });
+    } catch (error: any) {
+      console.error("Error diffing PBV2 tree versions:", error);
+      return res.status(500).json({ success: false, message: "Failed to diff PBV2 tree versions" });
+    }
+  });
+
+  /**
+   * POST /api/products/:productId/pbv2/price-impact
+   * Body: { treeJson?, treeVersionId?, limit?, source?: "all" | "quotes" | "orders" }
+   * Candidate tree: body.treeJson (unsaved editor state) > body.treeVersionId > the product's latest DRAFT.
+   * Read-only: nothing is repriced or persisted.
+   */
+  app.post("/api/products/:productId/pbv2/price-impact", isAuthenticated, tenantContext, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const { productId } = req.params;
+      const body = (req.body ?? {}) as Record<string, any>;
+
+      const limitRaw = Number(body.limit ?? PRICE_IMPACT_DEFAULT_LIMIT);
+      const limit = Number.isFinite(limitRaw) ? Math.min(Math.max(Math.floor(limitRaw), 1), PRICE_IMPACT_MAX_LIMIT) : PRICE_IMPACT_DEFAULT_LIMIT;
+      const source = body.source === "quotes" || body.source === "orders" ? body.source : "all";
+
+      const [product] = await db
+        .select({ id: products.id })
+        .from(products)
+        .where(and(eq(products.id, productId), eq(products.organizationId, organizationId)))
+        .limit(1);
+
+      if (!product) return res.status(404).json({ success: false, message: "Product not found" });
+
+      let candidateTree: unknown = null;
+      let candidateTreeVersionId: string | null = null;
+      if (body.treeJson !== undefined) {
+        if (!body.treeJson || typeof body.treeJson !== "object" || Array.isArray(body.treeJson)) {
+          return res.status(400).json({ success: false, message: "treeJson must be an object" });
+        }
+        candidateTree = body.treeJson;
+      } else {
+        const conditions = [eq(pbv2TreeVersions.organizationId, organizationId), eq(pbv2TreeVersions.productId, productId)];
+        if (typeof body.treeVersionId === "string" && body.treeVersionId) {
+          conditions.push(eq(pbv2TreeVersions.id, body.treeVersionId));
+        } else {
+          conditions.push(eq(pbv2TreeVersions.status, "DRAFT"));
+        }
+        const [row] = await db
+          .select({ id: pbv2TreeVersions.id, treeJson: pbv2TreeVersions.treeJson })
+          .from(pbv2TreeVersions)
+          .where(and(...conditions))
+          .orderBy(desc(pbv2TreeVersions.updatedAt))
+          .limit(1);
+
+        if (!row) return res.status(404).json({ success: false, message: "No candidate tree version found" });
+        candidateTree = row.treeJson;
+        candidateTreeVersionId = row.id;
+      }
+
+      const candidates: PriceImpactCandidate[] = [];
+
+      if (source !== "orders") {
+        const rows = await db
+          .select({
+            id: quoteLineItems.id,
+            quoteId: quoteLineItems.quoteId,
+            quoteNumber: quotes.quoteNumber,
+            width: quoteLineItems.width,
+            height: quoteLineItems.height,
+            quantity: quoteLineItems.quantity,
+            linePrice: quoteLineItems.linePrice,
+            pricedAt: quoteLineItems.pricedAt,
+            createdAt: quoteLineItems.createdAt,
+            pbv2TreeVersionId: quoteLineItems.pbv2TreeVersionId,
+            pbv2SnapshotJson: quoteLineItems.pbv2SnapshotJson,
+          })
+          .from(quoteLineItems)
+          .innerJoin(quotes, eq(quotes.id, quoteLineItems.quoteId))
+          .where(
+            and(
+              eq(quotes.organizationId, organizationId),
+              eq(quoteLineItems.productId, productId),
+              ne(quoteLineItems.status, "canceled"),
+              eq(quoteLineItems.isTemporary, false)
+            )
+          )
+          .orderBy(sql`${quoteLineItems.pricedAt} desc nulls last`, desc(quoteLineItems.createdAt))
+          .limit(limit);
+
+        for (const r of rows) {
+          const inputs = extractPbv2ReplayInputs({ snapshot: r.pbv2SnapshotJson, widthIn: r.width, heightIn: r.height, quantity: r.quantity });
+          if (!inputs) continue;
+          candidates.push({
+            pricedAt: r.pricedAt,
+            createdAt: r.createdAt,
+            sample: {
+              lineItemId: r.id,
+              source: "quote",
+              parentId: r.quoteId,
+              parentNumber: r.quoteNumber != null ? String(r.quoteNumber) : null,
+              pricedAt: toIso(r.pricedAt),
+              linePriceCents: dollarsToCents(r.linePrice),
+              treeVersionId: inputs.treeVersionId ?? r.pbv2TreeVersionId,
+              explicitSelections: inputs.explicitSelections,
+              env: inputs.env,
+              storedAddOnCents: inputs.storedAddOnCents,
+            },
+          });
+        }
+      }
+
+      if (source !== "quotes") {
+        const rows = await db
+          .select({
+            id: orderLineItems.id,
+            orderId: orderLineItems.orderId,
+            orderNumber: orders.orderNumber,
+            width: orderLineItems.width,
+            height: orderLineItems.height,
+            quantity: orderLineItems.quantity,
+            totalPrice: orderLineItems.totalPrice,
+            pricedAt: orderLineItems.pricedAt,
+            createdAt: orderLineItems.createdAt,
+            pbv2TreeVersionId: orderLineItems.pbv2TreeVersionId,
+            pbv2SnapshotJson: orderLineItems.pbv2SnapshotJson,
+          })
+          .from(orderLineItems)
+          .innerJoin(orders, eq(orders.id, orderLineItems.orderId))
+          .where(
+            and(
+              eq(orders.organizationId, organizationId),
+              eq(orderLineItems.productId, productId),
+              ne(orderLineItems.status, "canceled")
+            )
+          )
+          .orderBy(sql`${orderLineItems.pricedAt} desc nulls last`, desc(orderLineItems.createdAt))
+          .limit(limit);
+
+        for (const r of rows) {
+          const inputs = extractPbv2ReplayInputs({ snapshot: r.pbv2SnapshotJson, widthIn: r.width, heightIn: r.height, quantity: r.quantity });
+          if (!inputs) continue;
+          candidates.push({
+            pricedAt: r.pricedAt,
+            createdAt: r.createdAt,
+            sample: {
+              lineItemId: r.id,
+              source: "order",
+              parentId: r.orderId,
+              parentNumber: r.orderNumber ?? null,
+              pricedAt: toIso(r.pricedAt ?? r.createdAt),
+              linePriceCents: dollarsToCents(r.totalPrice),
+              treeVersionId: inputs.treeVersionId ?? r.pbv2TreeVersionId ?? null,
+              explicitSelections: inputs.explicitSelections,
+              env: inputs.env,
+              storedAddOnCents: inputs.storedAddOnCents,
+            },
+          });
+        }
+      }
+
+      // Most recent first across both sources (same key as the queries), then cap to N.
+      const selected = candidates.sort(compareNewestPriced).slice(0, limit).map((c) => c.sample);
+
+      const baselineIds = Array.from(new Set(selected.map((s) => s.treeVersionId).filter((id): id is string => !!id)));
+      const baselineTrees: Record<string, unknown> = {};
+      if (baselineIds.length > 0) {
+        const treeRows = await db
+          .select({ id: pbv2TreeVersions.id, treeJson: pbv2TreeVersions.treeJson })
+          .from(pbv2TreeVersions)
+          .where(and(eq(pbv2TreeVersions.organizationId, organizationId), inArray(pbv2TreeVersions.id, baselineIds)));
+        for (const t of treeRows) baselineTrees[t.id] = t.treeJson;
+      }
+
+      const pricebook = await loadPricebookValues(organizationId);
+      const report = buildPbv2PriceImpactReport({ candidateTree, samples: selected, baselineTrees, pricebook });
+
+      return res.json({
+        success: true,
+        data: { productId, candidateTreeVersionId, limit, source, ...report },
+      });
+    } catch (error: any) {
+      console.error("Error computing PBV2 price impact:", error);
+      return res.status(500).json({ success: false, message: "Failed to compute PBV2 price impact" });
+    }
+  });
+
+  /**
+   * POST /api/pbv2/tree-versions/:id/rollback
+   * Re-activates a prior published (DEPRECATED) version as a new ACTIVE copy effective now.
+   */
+  app.post("/api/pbv2/tree-versions/:id/rollback", isAuthenticated, tenantContext, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const actor = { userId: getUserId(req.user), userName: req.user?.email || req.user?.name || null };
+      const { version, previousActiveId } = await rollbackPbv2TreeVersion({ organizationId, targetId: req.params.id, actor });
+
+      return res.json({
+        success: true,
+        data: { version: toVersionSummary(version, version.id), previousActiveId },
+      });
+    } catch (error: any) {
+      if (error?.statusCode === 404 || error?.statusCode === 409) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Error rolling back PBV2 tree version:", error);
+      return res.status(500).json({ success: false, message: "Failed to roll back PBV2 tree version" });
+    }
+  });
+
+  /**
+   * POST /api/pbv2/tree-versions/:id/unschedule
+   * Cancels a scheduled publish; the version returns to DRAFT.
+   */
+  app.post("/api/pbv2/tree-versions/:id/unschedule", isAuthenticated, tenantContext, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const actor = { userId: getUserId(req.user), userName: req.user?.email || req.user?.name || null };
+      const version = await unschedulePbv2TreeVersion({ organizationId, treeVersionId: req.params.id, actor });
+
+      return res.json({ success: true, data: toVersionSummary(version, null) });
+    } catch (error: any) {
+      if (error?.statusCode === 404 || error?.statusCode === 409) {
+        return res.status(error.statusCode).json({ success: false, message: error.message });
+      }
+      console.error("Error unscheduling PBV2 tree version:", error);
+      return res.status(500).json({ success: false, message: "Failed to cancel scheduled PBV2 publish" });
+    }
+  });
+}
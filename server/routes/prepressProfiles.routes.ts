@@ -0,0 +1,81 @@
+/**
+ * Preflight Profile Routes Module
+ *
+ * Org-defined preflight rule sets (min DPI, color spaces, spot colors, ink coverage, font
+ * embedding, page count, score weights). The prepress pipeline picks the job's explicit profile,
+ * else the one for the product type, else the org default. Editing is admin-only.
+ */
+
+import type { Express } from "express";
+import { insertPrepressProfileSchema, updatePrepressProfileSchema } from "@shared/schema";
+import { getRequestOrganizationId } from "../tenantContext";
+import {
+  createPrepressProfile,
+  deletePrepressProfile,
+  listPrepressProfiles,
+  updatePrepressProfile,
+} from "../prepress/profiles-service";
+import { sendServiceError } from "../lib/httpErrors";
+
+export async function registerPrepressProfileRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+    isAdmin: any;
+  }
+) {
+  const { isAuthenticated, tenantContext, isAdmin } = deps;
+
+  app.get("/api/prepress/profiles", isAuthenticated, tenantContext, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const profiles = await listPrepressProfiles(organizationId);
+      return res.json({ success: true, data: profiles });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch preflight profiles");
+    }
+  });
+
+  app.post("/api/prepress/profiles", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = insertPrepressProfileSchema.parse(req.body ?? {});
+      const profile = await createPrepressProfile(organizationId, input);
+      return res.json({ success: true, data: profile });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to create preflight profile");
+    }
+  });
+
+  app.patch("/api/prepress/profiles/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = updatePrepressProfileSchema.parse(req.body ?? {});
+      const profile = await updatePrepressProfile(organizationId, req.params.id, input);
+      if (!profile) return res.status(404).json({ success: false, message: "Preflight profile not found" });
+      return res.json({ success: true, data: profile });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to update preflight profile");
+    }
+  });
+
+  app.delete("/api/prepress/profiles/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const deleted = await deletePrepressProfile(organizationId, req.params.id);
+      if (!deleted) return res.status(404).json({ success: false, message: "Preflight profile not found" });
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to delete preflight profile");
+    }
+  });
+}
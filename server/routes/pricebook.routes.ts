@@ -0,0 +1,113 @@
+/**
+ * Pricebook Routes Module
+ *
+ * Org-managed, effective-dated values referenced from PBV2 trees via `pricebookRef`
+ * (e.g. `ink.cost_per_sqft`, `labor.hourly`). Editing is admin-only; reads are open to
+ * staff because the product builder previews with the resolved values. Entries are internal
+ * costs, so portal customers can't read them.
+ */
+
+import type { Express } from "express";
+import { insertPricebookEntrySchema, updatePricebookEntrySchema } from "@shared/schema";
+import { getRequestOrganizationId } from "../tenantContext";
+import {
+  createPricebookEntry,
+  deletePricebookEntry,
+  listPricebookEntries,
+  loadPricebookValues,
+  updatePricebookEntry,
+} from "../services/pricebook";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser } from "../lib/staffAccess";
+
+function getUserId(user: any): string | null {
+  if (!user) return null;
+  return user.id || user.claims?.sub || null;
+}
+
+export async function registerPricebookRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+    isAdmin: any;
+  }
+) {
+  const { isAuthenticated, tenantContext, isAdmin } = deps;
+
+  /**
+   * GET /api/pricebook
+   * All entries (every effective date), ordered by key then newest first.
+   */
+  app.get("/api/pricebook", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const entries = await listPricebookEntries(organizationId);
+      return res.json({ success: true, data: entries });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch pricebook");
+    }
+  });
+
+  /**
+   * GET /api/pricebook/values?at=<ISO>
+   * Resolved `key -> value` as of `at` (default: now) plus every defined key.
+   */
+  app.get("/api/pricebook/values", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const at = typeof req.query.at === "string" && req.query.at ? req.query.at : null;
+      const entries = await listPricebookEntries(organizationId);
+      const values = await loadPricebookValues(organizationId, at);
+      const keys = Array.from(new Set(entries.map((e) => e.key))).sort();
+
+      return res.json({ success: true, data: { values, keys } });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to resolve pricebook values");
+    }
+  });
+
+  app.post("/api/pricebook", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = insertPricebookEntrySchema.parse(req.body ?? {});
+      const entry = await createPricebookEntry(organizationId, input, getUserId(req.user));
+      return res.json({ success: true, data: entry });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to create pricebook entry");
+    }
+  });
+
+  app.patch("/api/pricebook/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = updatePricebookEntrySchema.parse(req.body ?? {});
+      const entry = await updatePricebookEntry(organizationId, req.params.id, input, getUserId(req.user));
+      if (!entry) return res.status(404).json({ success: false, message: "Pricebook entry not found" });
+      return res.json({ success: true, data: entry });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to update pricebook entry");
+    }
+  });
+
+  app.delete("/api/pricebook/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const deleted = await deletePricebookEntry(organizationId, req.params.id);
+      if (!deleted) return res.status(404).json({ success: false, message: "Pricebook entry not found" });
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to delete pricebook entry");
+    }
+  });
+}
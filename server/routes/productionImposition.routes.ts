@@ -0,0 +1,58 @@
+/**
+ * Production Imposition Routes Module
+ *
+ * Step-and-repeat, n-up and cut-and-stack imposition of a job's line item artwork onto the
+ * product's press sheet, with crop marks and a slug line. The plan endpoint feeds the job
+ * page summary; the PDF endpoint is the press-ready download. Computed on demand, not stored.
+ */
+
+import type { Express } from "express";
+import { getRequestOrganizationId } from "../tenantContext";
+import { getJobImposition, impositionQuerySchema, renderJobImpositionPdf } from "../services/imposition";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser } from "../lib/staffAccess";
+
+export async function registerProductionImpositionRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+  }
+) {
+  const { isAuthenticated, tenantContext } = deps;
+
+  /**
+   * GET /api/production/jobs/:jobId/imposition[.pdf]
+   * Query: mode (step_and_repeat | n_up | cut_and_stack), duplex, allowRotation, gutterIn, bleedIn,
+   * marginIn, sheetWidthIn + sheetHeightIn (override the product sheet), quantity, download=1 (PDF)
+   */
+  app.get("/api/production/jobs/:jobId/imposition", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const query = impositionQuerySchema.parse(req.query ?? {});
+      return res.json({ success: true, data: await getJobImposition(organizationId, req.params.jobId, query) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to plan imposition");
+    }
+  });
+
+  app.get("/api/production/jobs/:jobId/imposition.pdf", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const query = impositionQuerySchema.parse(req.query ?? {});
+      const { bytes, fileBase } = await renderJobImpositionPdf(organizationId, req.params.jobId, query);
+
+      const wantsDownload = String(req.query.download || "") === "1";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Content-Disposition", `${wantsDownload ? "attachment" : "inline"}; filename="${fileBase}.pdf"`);
+      return res.send(Buffer.from(bytes));
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to export imposition");
+    }
+  });
+}
@@ -0,0 +1,153 @@
+/**
+ * Production Kiosk Routes Module
+ *
+ * Shop-floor kiosk: printable job tickets with a barcode of the production job id, operator
+ * sign-in by badge or PIN on a shared station login, and ticket scans that start, pause or
+ * complete the job as that operator. Admins set operators' PINs and badges.
+ */
+
+import type { Express } from "express";
+import { getRequestOrganizationId } from "../tenantContext";
+import {
+  identifyKioskOperator,
+  kioskCredentialsSchema,
+  kioskIdentifySchema,
+  kioskScan,
+  kioskScanSchema,
+  listKioskOperators,
+  listProductionOperators,
+  setOperatorCredentials,
+} from "../services/productionKiosk";
+import { renderProductionTicketsPdf } from "../services/productionTickets";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser } from "../lib/staffAccess";
+
+export async function registerProductionKioskRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+    isAdmin: any;
+  }
+) {
+  const { isAuthenticated, tenantContext, isAdmin } = deps;
+
+  const sendTicketsPdf = async (req: any, res: any, jobIds: string[]) => {
+    const organizationId = getRequestOrganizationId(req);
+    if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+    const { bytes, fileBase } = await renderProductionTicketsPdf(organizationId, jobIds);
+    const wantsDownload = String(req.query.download || "") === "1";
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Cache-Control", "no-store");
+    res.setHeader("Content-Disposition", `${wantsDownload ? "attachment" : "inline"}; filename="${fileBase}.pdf"`);
+    return res.send(Buffer.from(bytes));
+  };
+
+  /**
+   * GET /api/production/jobs/:jobId/ticket.pdf
+   * GET /api/production/tickets.pdf?jobIds=a,b,c
+   * Job tickets, one page each. Query: download=1 for an attachment.
+   */
+  app.get("/api/production/jobs/:jobId/ticket.pdf", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      return await sendTicketsPdf(req, res, [req.params.jobId]);
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to print job ticket");
+    }
+  });
+
+  app.get("/api/production/tickets.pdf", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const jobIds = String(req.query.jobIds || "")
+        .split(",")
+        .map((id) => id.trim())
+        .filter(Boolean);
+      return await sendTicketsPdf(req, res, jobIds);
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to print job tickets");
+    }
+  });
+
+  /**
+   * GET /api/production/kiosk/operators
+   * Operators with a PIN, for the kiosk's sign-in picker.
+   */
+  app.get("/api/production/kiosk/operators", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listKioskOperators(organizationId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch kiosk operators");
+    }
+  });
+
+  /**
+   * POST /api/production/kiosk/identify
+   * Body: { badgeCode } or { userId, pin }. Returns { operator, operatorToken, expiresAt }; the
+   * token is good for 15 minutes and each scan renews it. Five wrong PINs lock the operator out
+   * for five minutes; ten unrecognized badges within five minutes lock badge sign-in on the
+   * station for five minutes.
+   */
+  app.post("/api/production/kiosk/identify", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = kioskIdentifySchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await identifyKioskOperator(organizationId, input, req.user.id) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to sign in operator");
+    }
+  });
+
+  /**
+   * POST /api/production/kiosk/scan
+   * Body: { operatorToken, code, action: start | pause | complete }. `code` is the scanned
+   * ticket barcode (the job id). Returns the job after the action and a renewed token.
+   */
+  app.post("/api/production/kiosk/scan", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = kioskScanSchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await kioskScan(organizationId, input) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to apply kiosk scan");
+    }
+  });
+
+  /**
+   * GET /api/production/operators
+   * Staff with their kiosk credential status (hasPin, badgeCode). Admin only.
+   */
+  app.get("/api/production/operators", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listProductionOperators(organizationId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch production operators");
+    }
+  });
+
+  /**
+   * PUT /api/production/operators/:userId/kiosk-credentials
+   * Body: { pin?: "4-8 digits" | null, badgeCode?: string | null }. null clears; omitted keeps.
+   */
+  app.put("/api/production/operators/:userId/kiosk-credentials", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = kioskCredentialsSchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await setOperatorCredentials(organizationId, req.params.userId, input) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to update kiosk credentials");
+    }
+  });
+}
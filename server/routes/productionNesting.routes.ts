@@ -0,0 +1,127 @@
+/**
+ * Production Nesting Routes Module
+ *
+ * Gang sheet planning: nests several order line items that share a sheet material onto
+ * common sheets and returns the layout with yield %. Roll run planning packs roll jobs into
+ * lanes across one roll and can record each job's media share. Either layout exports as SVG
+ * or PDF for the cutter/RIP. Plans are computed on demand and not stored; operators re-run
+ * them as the queue changes.
+ */
+
+import type { Express } from "express";
+import { getRequestOrganizationId } from "../tenantContext";
+import { planGangSheetForLineItems, sheetNestingRequestSchema } from "../services/sheetNesting";
+import { planRollRunForJobs, recordRollRunMediaUsage, rollNestingRequestSchema, rollRunMediaUsedRequestSchema } from "../services/rollNesting";
+import { buildNestingLayoutForJobs, nestingLayoutQuerySchema } from "../services/nestingLayout";
+import { generateNestingLayoutPdfBytes, renderNestingLayoutSvg } from "../lib/nestingLayoutExport";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser } from "../lib/staffAccess";
+
+export async function registerProductionNestingRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+  }
+) {
+  const { isAuthenticated, tenantContext } = deps;
+
+  /**
+   * POST /api/production/nesting/sheet-plan
+   * Body: { lineItemIds, mode?, allowRotation?, gutterIn?, bleedIn?, marginIn?, sheetWidthIn?, sheetHeightIn? }
+   * Sheet size defaults to the shared material's width × height.
+   */
+  app.post("/api/production/nesting/sheet-plan", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = sheetNestingRequestSchema.parse(req.body ?? {});
+      const plan = await planGangSheetForLineItems(organizationId, input);
+      return res.json({ success: true, data: plan });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to plan gang sheet");
+    }
+  });
+
+  /**
+   * POST /api/production/nesting/roll-plan
+   * Body: { jobIds, allowRotation?, gutterIn? } - roll jobs on one material; roll width, edge,
+   * lead and tail waste come from the material.
+   */
+  app.post("/api/production/nesting/roll-plan", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = rollNestingRequestSchema.parse(req.body ?? {});
+      const plan = await planRollRunForJobs(organizationId, input);
+      return res.json({ success: true, data: plan });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to plan roll run");
+    }
+  });
+
+  /**
+   * POST /api/production/nesting/roll-plan/media-used
+   * Same body as roll-plan plus `runId`; records each job's linear-foot share as a media_used_set
+   * event once per run (jobs already recorded for that run come back in skippedJobIds).
+   */
+  app.post("/api/production/nesting/roll-plan/media-used", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = rollRunMediaUsedRequestSchema.parse(req.body ?? {});
+      const result = await recordRollRunMediaUsage(organizationId, input);
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to record roll media usage");
+    }
+  });
+
+  /**
+   * GET /api/production/nesting/layout.svg|.pdf?jobIds=a,b[&kind=sheet|roll][&sheet=0][&download=1]
+   * Sheet options (mode, allowRotation, gutterIn, bleedIn, marginIn, sheetWidthIn, sheetHeightIn)
+   * match the plan endpoints. SVG is one sheet at true size; PDF has every sheet.
+   */
+  app.get("/api/production/nesting/layout.svg", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const query = nestingLayoutQuerySchema.parse(req.query ?? {});
+      const { document, fileBase } = await buildNestingLayoutForJobs(organizationId, query);
+      const page = document.pages[query.sheet];
+      if (!page) return res.status(404).json({ success: false, message: "No layout for that sheet" });
+
+      const filename = document.pages.length > 1 ? `${fileBase}-sheet${query.sheet + 1}.svg` : `${fileBase}.svg`;
+      const wantsDownload = String(req.query.download || "") === "1";
+      res.setHeader("Content-Type", "image/svg+xml");
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Content-Disposition", `${wantsDownload ? "attachment" : "inline"}; filename="${filename}"`);
+      return res.send(renderNestingLayoutSvg(page));
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to export nesting layout");
+    }
+  });
+
+  app.get("/api/production/nesting/layout.pdf", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const query = nestingLayoutQuerySchema.parse(req.query ?? {});
+      const { document, fileBase } = await buildNestingLayoutForJobs(organizationId, query);
+      const pdfBytes = await generateNestingLayoutPdfBytes(document);
+
+      const wantsDownload = String(req.query.download || "") === "1";
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Cache-Control", "no-store");
+      res.setHeader("Content-Disposition", `${wantsDownload ? "attachment" : "inline"}; filename="${fileBase}.pdf"`);
+      return res.send(Buffer.from(pdfBytes));
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to export nesting layout");
+    }
+  });
+}
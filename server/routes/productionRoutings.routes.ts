@@ -0,0 +1,87 @@
+/**
+ * Production Routings Routes Module
+ *
+ * Multi-step routing templates (print → laminate → cut → …) and the products and product types
+ * they are attached to. New jobs for those products get one operation per applicable step and
+ * move station to station as operations are completed. Edits are admin-only and apply to jobs
+ * created afterwards.
+ */
+
+import type { Express } from "express";
+import { insertProductionRoutingSchema, updateProductionRoutingSchema } from "@shared/schema";
+import { getRequestOrganizationId } from "../tenantContext";
+import {
+  createProductionRouting,
+  deleteProductionRouting,
+  listProductionRoutings,
+  updateProductionRouting,
+} from "../services/productionRoutings";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser } from "../lib/staffAccess";
+
+export async function registerProductionRoutingRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+    isAdmin: any;
+  }
+) {
+  const { isAuthenticated, tenantContext, isAdmin } = deps;
+
+  /**
+   * GET /api/production/routings
+   * Routing templates with their operations and the productIds / productTypeIds using them.
+   */
+  app.get("/api/production/routings", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listProductionRoutings(organizationId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch production routings");
+    }
+  });
+
+  /**
+   * POST /api/production/routings
+   * Body: { name, description?, operations[], isActive?, productIds?, productTypeIds? }. A listed
+   * product or type moves to this routing from any other.
+   */
+  app.post("/api/production/routings", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = insertProductionRoutingSchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await createProductionRouting(organizationId, input) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to create production routing");
+    }
+  });
+
+  app.patch("/api/production/routings/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = updateProductionRoutingSchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await updateProductionRouting(organizationId, req.params.id, input) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to update production routing");
+    }
+  });
+
+  app.delete("/api/production/routings/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      await deleteProductionRouting(organizationId, req.params.id);
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to delete production routing");
+    }
+  });
+}
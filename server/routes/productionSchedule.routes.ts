@@ -0,0 +1,132 @@
+/**
+ * Production Schedule Routes Module
+ *
+ * Machines behind each production station (throughput rate, setup time, shift calendar) and
+ * the capacity schedule built on them: every open job gets a machine, a run-time estimate and
+ * a start/finish slot, and is flagged when it will finish after its order's production due
+ * date. The schedule board drags jobs between machines and times (a placement the scheduler
+ * keeps). Machine edits are admin-only; staff can read and re-run the schedule, and managers
+ * and up rearrange it.
+ */
+
+import type { Express } from "express";
+import { insertProductionMachineSchema, moveScheduledJobSchema, updateProductionMachineSchema } from "@shared/schema";
+import { getRequestOrganizationId } from "../tenantContext";
+import {
+  createProductionMachine,
+  deleteProductionMachine,
+  listProductionMachines,
+  updateProductionMachine,
+} from "../services/productionMachines";
+import { getProductionSchedule, moveScheduledJob, rescheduleProduction } from "../services/productionScheduling";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser, requireManager } from "../lib/staffAccess";
+
+export async function registerProductionScheduleRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+    isAdmin: any;
+  }
+) {
+  const { isAuthenticated, tenantContext, isAdmin } = deps;
+
+  app.get("/api/production/machines", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listProductionMachines(organizationId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch production machines");
+    }
+  });
+
+  app.post("/api/production/machines", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = insertProductionMachineSchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await createProductionMachine(organizationId, input) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to create production machine");
+    }
+  });
+
+  app.patch("/api/production/machines/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = updateProductionMachineSchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await updateProductionMachine(organizationId, req.params.id, input) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to update production machine");
+    }
+  });
+
+  app.delete("/api/production/machines/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      await deleteProductionMachine(organizationId, req.params.id);
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to delete production machine");
+    }
+  });
+
+  /**
+   * GET /api/production/schedule
+   * Machines plus open jobs with their stored slot (machineId, estimatedMinutes, scheduledStartAt,
+   * scheduledEndAt, scheduledLate), board placement (plannedStartAt, scheduleSequence,
+   * scheduleConflict) and dueAt, soonest start first.
+   */
+  app.get("/api/production/schedule", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await getProductionSchedule(organizationId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch production schedule");
+    }
+  });
+
+  /**
+   * POST /api/production/schedule/run
+   * Re-plan all open jobs from now. Jobs are also re-planned when jobs are created, completed
+   * or re-routed and when machines change.
+   */
+  app.post("/api/production/schedule/run", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await rescheduleProduction(organizationId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to run production scheduler");
+    }
+  });
+
+  /**
+   * PATCH /api/production/schedule/jobs/:jobId
+   * Body: { machineId, plannedStartAt } pins a queued job to a machine on its station, starting
+   * no earlier than plannedStartAt; plannedStartAt null returns it to the scheduler. Re-plans
+   * and returns the run summary (late and conflicting placements).
+   */
+  app.patch("/api/production/schedule/jobs/:jobId", isAuthenticated, tenantContext, requireManager, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = moveScheduledJobSchema.parse(req.body ?? {});
+      return res.json({ success: true, data: await moveScheduledJob(organizationId, req.params.jobId, input) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to move scheduled job");
+    }
+  });
+}
@@ -0,0 +1,211 @@
+/**
+ * Promotions Routes Module
+ *
+ * Coupon codes with eligibility rules (product types, customer tiers, minimum subtotal, date
+ * window, usage limits). Applying a code to a quote adds an explicit discount line that is
+ * re-evaluated on read and carried onto the order and invoice at conversion.
+ * Promotion definitions are admin-only; staff apply codes to quotes, portal customers to their own.
+ */
+
+import type { Express } from "express";
+import { insertPromotionSchema, updatePromotionSchema } from "@shared/schema";
+import { getPortalCustomer, getRequestOrganizationId } from "../tenantContext";
+import {
+  applyPromotionToQuote,
+  createPromotion,
+  deletePromotion,
+  listDocumentDiscountLines,
+  listPromotions,
+  refreshPortalQuoteDiscountLines,
+  refreshQuoteDiscountLines,
+  removeQuoteDiscountLine,
+  updatePromotion,
+} from "../services/promotions";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser } from "../lib/staffAccess";
+
+function getUserId(user: any): string | null {
+  if (!user) return null;
+  return user.id || user.claims?.sub || null;
+}
+
+export async function registerPromotionRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+    portalContext: any;
+    isAdmin: any;
+  }
+) {
+  const { isAuthenticated, tenantContext, portalContext, isAdmin } = deps;
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Promotion definitions (admin)
+  // ────────────────────────────────────────────────────────────────────────────
+
+  app.get("/api/promotions", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listPromotions(organizationId) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch promotions");
+    }
+  });
+
+  app.post("/api/promotions", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = insertPromotionSchema.parse(req.body ?? {});
+      const promotion = await createPromotion(organizationId, input, getUserId(req.user));
+      return res.json({ success: true, data: promotion });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to create promotion");
+    }
+  });
+
+  app.patch("/api/promotions/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = updatePromotionSchema.parse(req.body ?? {});
+      const promotion = await updatePromotion(organizationId, req.params.id, input, getUserId(req.user));
+      if (!promotion) return res.status(404).json({ success: false, message: "Promotion not found" });
+      return res.json({ success: true, data: promotion });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to update promotion");
+    }
+  });
+
+  app.delete("/api/promotions/:id", isAuthenticated, tenantContext, isAdmin, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const deleted = await deletePromotion(organizationId, req.params.id);
+      if (!deleted) return res.status(404).json({ success: false, message: "Promotion not found" });
+      return res.json({ success: true });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to delete promotion");
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Quote discount lines (staff)
+  // ────────────────────────────────────────────────────────────────────────────
+
+  /**
+   * GET /api/quotes/:id/promotions
+   * Re-evaluates applied promotions against the current line items; `removed` lists any that
+   * no longer qualify so the editor can tell the user.
+   */
+  app.get("/api/quotes/:id/promotions", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await refreshQuoteDiscountLines(organizationId, req.params.id) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch quote promotions");
+    }
+  });
+
+  app.post("/api/quotes/:id/promotions", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const result = await applyPromotionToQuote(organizationId, req.params.id, req.body?.code);
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to apply promotion");
+    }
+  });
+
+  app.delete("/api/quotes/:id/promotions/:lineId", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const result = await removeQuoteDiscountLine(organizationId, req.params.id, req.params.lineId);
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to remove promotion");
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Order / invoice discount lines (read-only copies)
+  // ────────────────────────────────────────────────────────────────────────────
+
+  app.get("/api/orders/:id/discount-lines", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listDocumentDiscountLines(organizationId, { orderId: req.params.id }) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch order discounts");
+    }
+  });
+
+  app.get("/api/invoices/:id/discount-lines", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      return res.json({ success: true, data: await listDocumentDiscountLines(organizationId, { invoiceId: req.params.id }) });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch invoice discounts");
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Customer portal checkout
+  // ────────────────────────────────────────────────────────────────────────────
+
+  app.get("/api/portal/quotes/:id/promotions", isAuthenticated, portalContext, async (req: any, res) => {
+    try {
+      const portalCustomer = getPortalCustomer(req);
+      if (!portalCustomer) return res.status(403).json({ success: false, message: "No customer account linked to this user" });
+
+      const result = await refreshPortalQuoteDiscountLines(portalCustomer.organizationId, req.params.id, portalCustomer.id);
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch quote promotions");
+    }
+  });
+
+  app.post("/api/portal/quotes/:id/promotions", isAuthenticated, portalContext, async (req: any, res) => {
+    try {
+      const portalCustomer = getPortalCustomer(req);
+      if (!portalCustomer) return res.status(403).json({ success: false, message: "No customer account linked to this user" });
+
+      const result = await applyPromotionToQuote(portalCustomer.organizationId, req.params.id, req.body?.code, {
+        customerId: portalCustomer.id,
+      });
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to apply promotion");
+    }
+  });
+
+  app.delete("/api/portal/quotes/:id/promotions/:lineId", isAuthenticated, portalContext, async (req: any, res) => {
+    try {
+      const portalCustomer = getPortalCustomer(req);
+      if (!portalCustomer) return res.status(403).json({ success: false, message: "No customer account linked to this user" });
+
+      const result = await removeQuoteDiscountLine(portalCustomer.organizationId, req.params.id, req.params.lineId, {
+        customerId: portalCustomer.id,
+      });
+      return res.json({ success: true, data: result });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to remove promotion");
+    }
+  });
+}
@@ -0,0 +1,126 @@
+/**
+ * Proof Approval Routes Module
+ *
+ * Staff send versioned proofs for an order line item and follow their audit trail.
+ * Customers review a proof through a tokenized link (no login): view the file, then
+ * approve or request changes with annotated comments. The latest proof gates production
+ * jobs for the line (see getLineItemProofGate).
+ */
+
+import type { Express } from "express";
+import { z } from "zod";
+import { createProofVersionSchema, proofDecisionSchema } from "@shared/schema";
+import { getRequestOrganizationId } from "../tenantContext";
+import {
+  createProofVersion,
+  decideProof,
+  getPublicProof,
+  getPublicProofFile,
+  listLineItemProofs,
+  resendProofVersion,
+  type ProofActor,
+  type ProofRequestMeta,
+} from "../services/proofs";
+import { sendServiceError } from "../lib/httpErrors";
+import { requireInternalUser } from "../lib/staffAccess";
+
+function getActor(req: any): ProofActor {
+  const user = req.user;
+  const userName = `${user?.firstName || ""} ${user?.lastName || ""}`.trim() || user?.email || null;
+  return { userId: user?.id || user?.claims?.sub || null, userName };
+}
+
+function getRequestMeta(req: any): ProofRequestMeta {
+  return { ip: req.ip || null, userAgent: req.get("user-agent") || null };
+}
+
+const resendProofSchema = z.object({
+  recipientEmail: z.string().email().optional().nullable(),
+});
+
+export async function registerProofRoutes(
+  app: Express,
+  deps: {
+    isAuthenticated: any;
+    tenantContext: any;
+  }
+) {
+  const { isAuthenticated, tenantContext } = deps;
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Staff
+  // ────────────────────────────────────────────────────────────────────────────
+
+  app.get("/api/orders/:orderId/line-items/:lineItemId/proofs", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const data = await listLineItemProofs(organizationId, req.params.orderId, req.params.lineItemId);
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to fetch proofs");
+    }
+  });
+
+  app.post("/api/orders/:orderId/line-items/:lineItemId/proofs", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = createProofVersionSchema.parse(req.body ?? {});
+      const data = await createProofVersion(organizationId, req.params.orderId, req.params.lineItemId, input, getActor(req));
+      return res.status(201).json({ success: true, data });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to send proof");
+    }
+  });
+
+  app.post("/api/proofs/:proofId/resend", isAuthenticated, tenantContext, requireInternalUser, async (req: any, res) => {
+    try {
+      const organizationId = getRequestOrganizationId(req);
+      if (!organizationId) return res.status(500).json({ success: false, message: "Missing organization context" });
+
+      const input = resendProofSchema.parse(req.body ?? {});
+      const data = await resendProofVersion(organizationId, req.params.proofId, input, getActor(req));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to resend proof");
+    }
+  });
+
+  // ────────────────────────────────────────────────────────────────────────────
+  // Customer (public, authorized by the review token)
+  // ────────────────────────────────────────────────────────────────────────────
+
+  app.get("/api/public/proofs/:token", async (req: any, res) => {
+    try {
+      const data = await getPublicProof(req.params.token, getRequestMeta(req));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to load proof");
+    }
+  });
+
+  app.get("/api/public/proofs/:token/file", async (req: any, res) => {
+    try {
+      const { buffer, fileName, mimeType } = await getPublicProofFile(req.params.token);
+      res.setHeader("Content-Type", mimeType);
+      res.setHeader("Content-Disposition", `inline; filename="${fileName.replace(/"/g, "")}"`);
+      res.setHeader("Cache-Control", "private, no-store");
+      return res.send(buffer);
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to load proof file");
+    }
+  });
+
+  app.post("/api/public/proofs/:token/decision", async (req: any, res) => {
+    try {
+      const input = proofDecisionSchema.parse(req.body ?? {});
+      const data = await decideProof(req.params.token, input, getRequestMeta(req));
+      return res.json({ success: true, data });
+    } catch (error: any) {
+      return sendServiceError(res, error, "Failed to record proof decision");
+    }
+  });
+}
@@ -219,7 +219,7 @@ export class AssetPreviewGenerator {
     return { bucketName: parts[1], objectName: parts.slice(2).join('/') };
   }
 
-  private async readSourceBytes(args: {
+  async readSourceBytes(args: {
     assetId: string;
     organizationId: string;
     fileKey: string;
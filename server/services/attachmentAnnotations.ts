@@ -0,0 +1,237 @@
+import { db } from "../db";
+import {
+  assets,
+  attachmentAnnotationComments,
+  attachmentAnnotations,
+  orderAttachments,
+  orders,
+  quoteAttachments,
+  type AnnotationTargetType,
+  type AttachmentAnnotation,
+  type AttachmentAnnotationComment,
+  type CreateAttachmentAnnotation,
+  type UpdateAttachmentAnnotation,
+} from "@shared/schema";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { flattenAnnotationsToPdf, isImageSource, isPdfSource, type FlattenSource } from "../lib/annotationPdfExport";
+import { downloadOriginalFile } from "./thumbnailGenerator";
+import { assetPreviewGenerator } from "./assets/AssetPreviewGenerator";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Attachment annotations.
+ *
+ * Staff mark up a page of an order attachment, quote attachment or asset with pins, rectangles
+ * or freehand strokes; each annotation opens a comment thread. Annotations flagged visible to the
+ * customer also show on the proof page for that file. The whole set can be exported as a
+ * flattened PDF for the designer.
+ */
+
+export const ANNOTATION_TARGET_TYPES: AnnotationTargetType[] = ["order_attachment", "quote_attachment", "asset"];
+
+export type AnnotationTarget = { type: AnnotationTargetType; id: string };
+
+export type AnnotationAuthor = { userId: string | null; userName: string | null };
+
+export type AnnotationWithThread = AttachmentAnnotation & { comments: AttachmentAnnotationComment[] };
+
+type ResolvedTarget = Pick<FlattenSource, "fileName" | "mimeType"> & { fetch: () => Promise<Buffer | null> };
+
+/**
+ * Resolve a target within the organization and describe how to read its file.
+ * Order attachments carry no organization id of their own; scope through the order.
+ */
+async function resolveTarget(organizationId: string, target: AnnotationTarget): Promise<ResolvedTarget> {
+  if (target.type === "order_attachment") {
+    const [row] = await db
+      .select({ attachment: orderAttachments })
+      .from(orderAttachments)
+      .innerJoin(orders, eq(orders.id, orderAttachments.orderId))
+      .where(and(eq(orders.organizationId, organizationId), eq(orderAttachments.id, target.id)))
+      .limit(1);
+    if (!row) throw httpError(404, "Attachment not found");
+    const a = row.attachment;
+    return {
+      fileName: a.originalFilename || a.fileName,
+      mimeType: a.mimeType,
+      fetch: () => downloadOriginalFile(a.relativePath || a.fileUrl, a.storageProvider || "local"),
+    };
+  }
+
+  if (target.type === "quote_attachment") {
+    const [a] = await db
+      .select()
+      .from(quoteAttachments)
+      .where(and(eq(quoteAttachments.organizationId, organizationId), eq(quoteAttachments.id, target.id)))
+      .limit(1);
+    if (!a) throw httpError(404, "Attachment not found");
+    return {
+      fileName: a.originalFilename || a.fileName,
+      mimeType: a.mimeType,
+      fetch: () => downloadOriginalFile(a.relativePath || a.fileUrl, a.storageProvider || "local"),
+    };
+  }
+
+  const [asset] = await db
+    .select()
+    .from(assets)
+    .where(and(eq(assets.organizationId, organizationId), eq(assets.id, target.id)))
+    .limit(1);
+  if (!asset) throw httpError(404, "Asset not found");
+  return {
+    fileName: asset.fileName,
+    mimeType: asset.mimeType,
+    fetch: () => assetPreviewGenerator.readSourceBytes({ assetId: asset.id, organizationId, fileKey: asset.fileKey }),
+  };
+}
+
+async function withThreads(rows: AttachmentAnnotation[]): Promise<AnnotationWithThread[]> {
+  if (rows.length === 0) return [];
+  const comments = await db
+    .select()
+    .from(attachmentAnnotationComments)
+    .where(inArray(attachmentAnnotationComments.annotationId, rows.map((r) => r.id)))
+    .orderBy(asc(attachmentAnnotationComments.createdAt));
+  return rows.map((r) => ({ ...r, comments: comments.filter((c) => c.annotationId === r.id) }));
+}
+
+async function getAnnotation(organizationId: string, annotationId: string): Promise<AttachmentAnnotation> {
+  const [row] = await db
+    .select()
+    .from(attachmentAnnotations)
+    .where(and(eq(attachmentAnnotations.organizationId, organizationId), eq(attachmentAnnotations.id, annotationId)))
+    .limit(1);
+  if (!row) throw httpError(404, "Annotation not found");
+  return row;
+}
+
+export async function listAnnotations(
+  organizationId: string,
+  target: AnnotationTarget,
+  options: { customerVisibleOnly?: boolean } = {}
+): Promise<AnnotationWithThread[]> {
+  const rows = await db
+    .select()
+    .from(attachmentAnnotations)
+    .where(
+      and(
+        eq(attachmentAnnotations.organizationId, organizationId),
+        eq(attachmentAnnotations.targetType, target.type),
+        eq(attachmentAnnotations.targetId, target.id),
+        options.customerVisibleOnly ? eq(attachmentAnnotations.visibleToCustomer, true) : undefined
+      )
+    )
+    .orderBy(asc(attachmentAnnotations.pageIndex), asc(attachmentAnnotations.createdAt));
+  return withThreads(rows);
+}
+
+export async function createAnnotation(
+  organizationId: string,
+  target: AnnotationTarget,
+  input: CreateAttachmentAnnotation,
+  author: AnnotationAuthor
+): Promise<AnnotationWithThread> {
+  await resolveTarget(organizationId, target);
+
+  return db.transaction(async (tx) => {
+    const [annotation] = await tx
+      .insert(attachmentAnnotations)
+      .values({
+        organizationId,
+        targetType: target.type,
+        targetId: target.id,
+        pageIndex: input.pageIndex,
+        kind: input.kind,
+        geometry: input.geometry,
+        color: input.color,
+        visibleToCustomer: input.visibleToCustomer ?? false,
+        createdByUserId: author.userId,
+        createdByName: author.userName,
+      })
+      .returning();
+
+    const [comment] = await tx
+      .insert(attachmentAnnotationComments)
+      .values({
+        organizationId,
+        annotationId: annotation.id,
+        authorUserId: author.userId,
+        authorName: author.userName,
+        body: input.body,
+      })
+      .returning();
+
+    return { ...annotation, comments: [comment] };
+  });
+}
+
+export async function updateAnnotation(
+  organizationId: string,
+  annotationId: string,
+  input: UpdateAttachmentAnnotation
+): Promise<AnnotationWithThread> {
+  const existing = await getAnnotation(organizationId, annotationId);
+
+  const updates: Partial<typeof attachmentAnnotations.$inferInsert> = { updatedAt: new Date() };
+  if (input.visibleToCustomer !== undefined) updates.visibleToCustomer = input.visibleToCustomer;
+  if (input.color !== undefined) updates.color = input.color;
+  if (input.resolved !== undefined) updates.resolvedAt = input.resolved ? existing.resolvedAt ?? new Date() : null;
+
+  const [updated] = await db
+    .update(attachmentAnnotations)
+    .set(updates)
+    .where(eq(attachmentAnnotations.id, annotationId))
+    .returning();
+  const [withThread] = await withThreads([updated]);
+  return withThread;
+}
+
+export async function deleteAnnotation(organizationId: string, annotationId: string): Promise<void> {
+  await getAnnotation(organizationId, annotationId);
+  await db.delete(attachmentAnnotations).where(eq(attachmentAnnotations.id, annotationId));
+}
+
+export async function addAnnotationComment(
+  organizationId: string,
+  annotationId: string,
+  body: string,
+  author: AnnotationAuthor
+): Promise<AttachmentAnnotationComment> {
+  await getAnnotation(organizationId, annotationId);
+  const [comment] = await db
+    .insert(attachmentAnnotationComments)
+    .values({ organizationId, annotationId, authorUserId: author.userId, authorName: author.userName, body })
+    .returning();
+  await db
+    .update(attachmentAnnotations)
+    .set({ updatedAt: new Date() })
+    .where(eq(attachmentAnnotations.id, annotationId));
+  return comment;
+}
+
+export async function exportAnnotatedPdf(
+  organizationId: string,
+  target: AnnotationTarget
+): Promise<{ bytes: Uint8Array; fileName: string }> {
+  const file = await resolveTarget(organizationId, target);
+  if (!isPdfSource(file) && !isImageSource(file)) throw httpError(400, "Markup export supports PDF and image files only");
+  const annotations = await listAnnotations(organizationId, target);
+
+  const buffer = await file.fetch();
+  if (!buffer) throw httpError(404, "The original file is not available");
+
+  const bytes = await flattenAnnotationsToPdf(
+    { bytes: buffer, mimeType: file.mimeType, fileName: file.fileName },
+    annotations.map((a) => ({
+      pageIndex: a.pageIndex,
+      kind: a.kind,
+      geometry: a.geometry,
+      color: a.color,
+      resolved: !!a.resolvedAt,
+      comments: a.comments.map((c) => ({ authorName: c.authorName, body: c.body, createdAt: c.createdAt })),
+    }))
+  );
+
+  const baseName = file.fileName.replace(/\.[^.]+$/, "");
+  return { bytes, fileName: `${baseName}-markup.pdf` };
+}
@@ -0,0 +1,168 @@
+import { db } from "../db";
+import {
+  customerPriceRules,
+  customers,
+  products,
+  type CustomerPriceRule,
+  type InsertCustomerPriceRule,
+  type UpdateCustomerPriceRule,
+} from "@shared/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Customer price lists (contract pricing).
+ * Rule selection and line pricing are pure and live in quoteOrderPricing.ts.
+ */
+
+export type CustomerPriceRuleWithProduct = CustomerPriceRule & { productName: string | null };
+
+function validateRuleShape(rule: {
+  ruleType: CustomerPriceRule["ruleType"];
+  value: number;
+  startsAt: Date;
+  endsAt: Date | null;
+}) {
+  if (!Number.isFinite(rule.value) || rule.value < 0) throw httpError(400, "Value must be a non-negative number");
+  if (rule.ruleType === "PERCENT_OFF" && rule.value > 100) throw httpError(400, "Percent off cannot exceed 100");
+  if (rule.endsAt && rule.endsAt.getTime() <= rule.startsAt.getTime()) {
+    throw httpError(400, "End date must be after the start date");
+  }
+}
+
+async function assertCustomerInOrg(organizationId: string, customerId: string) {
+  const [row] = await db
+    .select({ id: customers.id })
+    .from(customers)
+    .where(and(eq(customers.id, customerId), eq(customers.organizationId, organizationId)))
+    .limit(1);
+  if (!row) throw httpError(404, "Customer not found");
+}
+
+export async function listCustomerPriceRules(organizationId: string, customerId: string): Promise<CustomerPriceRuleWithProduct[]> {
+  await assertCustomerInOrg(organizationId, customerId);
+
+  const rows = await db
+    .select({ rule: customerPriceRules, productName: products.name })
+    .from(customerPriceRules)
+    .leftJoin(products, eq(products.id, customerPriceRules.productId))
+    .where(and(eq(customerPriceRules.organizationId, organizationId), eq(customerPriceRules.customerId, customerId)))
+    .orderBy(asc(products.name), asc(customerPriceRules.minQuantity), desc(customerPriceRules.startsAt));
+
+  return rows.map((r) => ({ ...r.rule, productName: r.productName ?? null }));
+}
+
+/** Every rule for a customer/product pair; pick with selectCustomerPriceRule. */
+export async function loadCustomerPriceRulesForProduct(
+  organizationId: string,
+  customerId: string,
+  productId: string
+): Promise<CustomerPriceRule[]> {
+  return await db
+    .select()
+    .from(customerPriceRules)
+    .where(
+      and(
+        eq(customerPriceRules.organizationId, organizationId),
+        eq(customerPriceRules.customerId, customerId),
+        eq(customerPriceRules.productId, productId)
+      )
+    );
+}
+
+export async function createCustomerPriceRule(
+  organizationId: string,
+  customerId: string,
+  input: InsertCustomerPriceRule,
+  userId: string | null
+): Promise<CustomerPriceRule> {
+  await assertCustomerInOrg(organizationId, customerId);
+
+  const [product] = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(and(eq(products.id, input.productId), eq(products.organizationId, organizationId)))
+    .limit(1);
+  if (!product) throw httpError(400, "Product not found");
+
+  const startsAt = input.startsAt ?? new Date();
+  const endsAt = input.endsAt ?? null;
+  validateRuleShape({ ruleType: input.ruleType, value: input.value, startsAt, endsAt });
+
+  const [created] = await db
+    .insert(customerPriceRules)
+    .values({
+      organizationId,
+      customerId,
+      productId: input.productId,
+      ruleType: input.ruleType,
+      value: String(input.value),
+      minQuantity: input.minQuantity ?? 1,
+      startsAt,
+      endsAt,
+      notes: input.notes ?? null,
+      createdByUserId: userId,
+      updatedByUserId: userId,
+    })
+    .returning();
+  return created;
+}
+
+export async function updateCustomerPriceRule(
+  organizationId: string,
+  customerId: string,
+  id: string,
+  input: UpdateCustomerPriceRule,
+  userId: string | null
+): Promise<CustomerPriceRule | null> {
+  const [existing] = await db
+    .select()
+    .from(customerPriceRules)
+    .where(
+      and(
+        eq(customerPriceRules.organizationId, organizationId),
+        eq(customerPriceRules.customerId, customerId),
+        eq(customerPriceRules.id, id)
+      )
+    )
+    .limit(1);
+  if (!existing) return null;
+
+  validateRuleShape({
+    ruleType: input.ruleType ?? existing.ruleType,
+    value: input.value ?? Number(existing.value),
+    startsAt: input.startsAt ?? existing.startsAt,
+    endsAt: input.endsAt !== undefined ? input.endsAt : existing.endsAt,
+  });
+
+  const [updated] = await db
+    .update(customerPriceRules)
+    .set({
+      ...(input.ruleType !== undefined ? { ruleType: input.ruleType } : {}),
+      ...(input.value !== undefined ? { value: String(input.value) } : {}),
+      ...(input.minQuantity !== undefined ? { minQuantity: input.minQuantity } : {}),
+      ...(input.startsAt !== undefined ? { startsAt: input.startsAt } : {}),
+      ...(input.endsAt !== undefined ? { endsAt: input.endsAt } : {}),
+      ...(input.notes !== undefined ? { notes: input.notes } : {}),
+      updatedByUserId: userId,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(customerPriceRules.organizationId, organizationId), eq(customerPriceRules.id, id)))
+    .returning();
+
+  return updated ?? null;
+}
+
+export async function deleteCustomerPriceRule(organizationId: string, customerId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(customerPriceRules)
+    .where(
+      and(
+        eq(customerPriceRules.organizationId, organizationId),
+        eq(customerPriceRules.customerId, customerId),
+        eq(customerPriceRules.id, id)
+      )
+    )
+    .returning({ id: customerPriceRules.id });
+  return deleted.length > 0;
+}
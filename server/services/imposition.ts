@@ -0,0 +1,220 @@
+import { z } from "zod";
+import { db } from "../db";
+import { customers, orderAttachments, orderLineItems, orders, pricingFormulas, productionJobs, products } from "@shared/schema";
+import { IMPOSITION_MAX_SHEETS, IMPOSITION_MODES, planImposition, type ImpositionPlan } from "@shared/imposition";
+import { and, desc, eq, sql } from "drizzle-orm";
+import {
+  prepareArtworkPdf,
+  readArtworkInfo,
+  renderImpositionPdf,
+  type ImpositionArtworkInfo,
+  type ImpositionSlug,
+} from "../prepress/imposition";
+import { downloadOriginalFile } from "./thumbnailGenerator";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Imposition for small-format production jobs.
+ *
+ * Takes the job's line item artwork (primary `artwork` file), reads the trim size from its
+ * TrimBox and lays it out on the press sheet from the product's flat goods config
+ * (`FlatGoodsConfig.sheetWidth/sheetHeight`, then the linked pricing formula's config, then
+ * the legacy product sheet fields). Query-string driven like the nesting layout export so the
+ * job page can link straight to a download; nothing is stored.
+ */
+
+const optionalNumber = z.preprocess((value) => (value === "" ? undefined : value), z.coerce.number().optional());
+const booleanFlag = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((value) => (value == null ? undefined : value === "true"));
+
+export const impositionQuerySchema = z.object({
+  mode: z.enum(IMPOSITION_MODES).default("step_and_repeat"),
+  /** Artwork pages are front/back pairs; backs are imposed work-and-turn. */
+  duplex: booleanFlag,
+  allowRotation: booleanFlag,
+  gutterIn: optionalNumber.pipe(z.number().min(0).max(12).default(0.25)),
+  bleedIn: optionalNumber.pipe(z.number().min(0).max(2).default(0.125)),
+  marginIn: optionalNumber.pipe(z.number().min(0).max(12).default(0.375)),
+  sheetWidthIn: optionalNumber.pipe(z.number().positive().max(120).optional()),
+  sheetHeightIn: optionalNumber.pipe(z.number().positive().max(120).optional()),
+  /** Copies per design; defaults to the line item quantity. */
+  quantity: optionalNumber.pipe(z.number().int().min(1).max(1_000_000).optional()),
+});
+
+export type ImpositionQuery = z.infer<typeof impositionQuerySchema>;
+
+export type SheetSizeSource = "request" | "product" | "pricing_formula" | "product_legacy";
+
+export type JobImposition = {
+  plan: ImpositionPlan;
+  duplex: boolean;
+  sheetSource: SheetSizeSource;
+  artwork: { attachmentId: string; fileName: string; pageCount: number };
+  fileBase: string;
+};
+
+type SheetConfig = { sheetWidthIn: number; sheetHeightIn: number; allowRotation?: boolean };
+
+/** Sheet size from a FlatGoodsConfig-shaped jsonb, if it has one. */
+export function readFlatGoodsSheet(config: unknown): SheetConfig | null {
+  if (!config || typeof config !== "object") return null;
+  const { sheetWidth, sheetHeight, allowRotation } = config as Record<string, unknown>;
+  const w = Number(sheetWidth);
+  const h = Number(sheetHeight);
+  if (!(w > 0) || !(h > 0)) return null;
+  return { sheetWidthIn: w, sheetHeightIn: h, allowRotation: typeof allowRotation === "boolean" ? allowRotation : undefined };
+}
+
+async function resolveSheet(
+  organizationId: string,
+  product: { pricingProfileConfig: unknown; pricingFormulaId: string | null; sheetWidth: string | null; sheetHeight: string | null },
+  query: ImpositionQuery,
+): Promise<SheetConfig & { source: SheetSizeSource }> {
+  const fromProduct = readFlatGoodsSheet(product.pricingProfileConfig);
+
+  let fromFormula: SheetConfig | null = null;
+  if (!fromProduct && product.pricingFormulaId) {
+    const [formula] = await db
+      .select({ config: pricingFormulas.config })
+      .from(pricingFormulas)
+      .where(and(eq(pricingFormulas.organizationId, organizationId), eq(pricingFormulas.id, product.pricingFormulaId)))
+      .limit(1);
+    fromFormula = readFlatGoodsSheet(formula?.config);
+  }
+
+  const legacy = readFlatGoodsSheet({ sheetWidth: product.sheetWidth, sheetHeight: product.sheetHeight });
+  const configured = fromProduct
+    ? { ...fromProduct, source: "product" as const }
+    : fromFormula
+      ? { ...fromFormula, source: "pricing_formula" as const }
+      : legacy
+        ? { ...legacy, source: "product_legacy" as const }
+        : null;
+
+  if (query.sheetWidthIn && query.sheetHeightIn) {
+    return { sheetWidthIn: query.sheetWidthIn, sheetHeightIn: query.sheetHeightIn, allowRotation: configured?.allowRotation, source: "request" };
+  }
+  if (!configured) {
+    throw httpError(400, "Product has no sheet size; set it in the product's flat goods settings or pass sheetWidthIn and sheetHeightIn");
+  }
+  return configured;
+}
+
+async function loadJobImposition(organizationId: string, jobId: string, query: ImpositionQuery) {
+  const [row] = await db
+    .select({
+      lineItemId: productionJobs.lineItemId,
+      orderNumber: orders.orderNumber,
+      customerName: customers.companyName,
+      description: orderLineItems.description,
+      lineItemQuantity: orderLineItems.quantity,
+      pricingProfileConfig: products.pricingProfileConfig,
+      pricingFormulaId: products.pricingFormulaId,
+      sheetWidth: products.sheetWidth,
+      sheetHeight: products.sheetHeight,
+    })
+    .from(productionJobs)
+    .innerJoin(orders, eq(productionJobs.orderId, orders.id))
+    .leftJoin(customers, eq(orders.customerId, customers.id))
+    .leftJoin(orderLineItems, eq(productionJobs.lineItemId, orderLineItems.id))
+    .leftJoin(products, eq(orderLineItems.productId, products.id))
+    .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
+    .limit(1);
+
+  if (!row) throw httpError(404, "Production job not found");
+  if (!row.lineItemId) throw httpError(400, `Job for order ${row.orderNumber} has no line item to impose`);
+
+  const sheet = await resolveSheet(
+    organizationId,
+    {
+      pricingProfileConfig: row.pricingProfileConfig,
+      pricingFormulaId: row.pricingFormulaId,
+      sheetWidth: row.sheetWidth,
+      sheetHeight: row.sheetHeight,
+    },
+    query,
+  );
+
+  // Primary artwork first, fronts before backs, newest upload wins
+  const [attachment] = await db
+    .select()
+    .from(orderAttachments)
+    .where(and(eq(orderAttachments.orderLineItemId, row.lineItemId), eq(orderAttachments.role, "artwork")))
+    .orderBy(
+      desc(orderAttachments.isPrimary),
+      sql`case when ${orderAttachments.side} = 'back' then 1 else 0 end`,
+      desc(orderAttachments.createdAt),
+    )
+    .limit(1);
+  if (!attachment) throw httpError(400, "Line item has no artwork file to impose");
+
+  const original = await downloadOriginalFile(attachment.relativePath || attachment.fileUrl, attachment.storageProvider || "local");
+  if (!original) throw httpError(404, "Artwork file could not be read from storage");
+
+  let artworkPdf: Buffer;
+  let info: ImpositionArtworkInfo;
+  try {
+    artworkPdf = await prepareArtworkPdf(original, attachment.mimeType || "", attachment.fileName);
+    info = await readArtworkInfo(artworkPdf);
+  } catch (error: any) {
+    throw httpError(400, `Artwork ${attachment.fileName} could not be prepared for imposition: ${error.message}`);
+  }
+
+  const duplex = query.duplex ?? false;
+  if (duplex && info.pageCount % 2 !== 0) {
+    throw httpError(400, `Duplex imposition needs front/back page pairs; ${attachment.fileName} has ${info.pageCount} pages`);
+  }
+
+  const plan = planImposition({
+    sheetWidthIn: sheet.sheetWidthIn,
+    sheetHeightIn: sheet.sheetHeightIn,
+    trimWidthIn: info.trimWidthIn,
+    trimHeightIn: info.trimHeightIn,
+    mode: query.mode,
+    quantity: query.quantity ?? row.lineItemQuantity ?? 1,
+    designCount: duplex ? info.pageCount / 2 : info.pageCount,
+    allowRotation: query.allowRotation ?? sheet.allowRotation ?? true,
+    gutterIn: query.gutterIn,
+    bleedIn: query.bleedIn,
+    marginIn: query.marginIn,
+  });
+  if (info.mismatchedPages.length > 0) {
+    plan.warnings.push(`Pages ${info.mismatchedPages.join(", ")} have a different trim size than page 1`);
+  }
+  if (plan.sheets.length > IMPOSITION_MAX_SHEETS) {
+    throw httpError(400, `Imposition would produce ${plan.sheets.length} distinct sheets (max ${IMPOSITION_MAX_SHEETS})`);
+  }
+
+  const imposition: JobImposition = {
+    plan,
+    duplex,
+    sheetSource: sheet.source,
+    artwork: { attachmentId: attachment.id, fileName: attachment.fileName, pageCount: info.pageCount },
+    fileBase: `imposition-${row.orderNumber}-${query.mode}`.replace(/[^A-Za-z0-9._-]/g, "_"),
+  };
+  const slug: ImpositionSlug = {
+    orderNumber: row.orderNumber,
+    lineItem: row.description ?? "Line item",
+    customer: row.customerName ?? "",
+  };
+  return { imposition, artworkPdf, slug };
+}
+
+/** Plan only (sheet count, n-up, warnings) for the job page. */
+export async function getJobImposition(organizationId: string, jobId: string, query: ImpositionQuery): Promise<JobImposition> {
+  const { imposition } = await loadJobImposition(organizationId, jobId, query);
+  return imposition;
+}
+
+export async function renderJobImpositionPdf(
+  organizationId: string,
+  jobId: string,
+  query: ImpositionQuery,
+): Promise<{ bytes: Uint8Array; fileBase: string }> {
+  const { imposition, artworkPdf, slug } = await loadJobImposition(organizationId, jobId, query);
+  if (imposition.plan.sheets.length === 0) throw httpError(400, imposition.plan.warnings[0] ?? "Nothing to impose");
+  const bytes = await renderImpositionPdf(artworkPdf, imposition.plan, { duplex: imposition.duplex, slug });
+  return { bytes, fileBase: imposition.fileBase };
+}
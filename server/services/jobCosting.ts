@@ -0,0 +1,477 @@
+import { z } from "zod";
+import { db } from "../db";
+import {
+  customers,
+  materials,
+  orderLineItems,
+  orderMaterialUsage,
+  orders,
+  productionJobOperations,
+  productionJobs,
+  productionStationRates,
+  productionTimeEntries,
+  userOrganizations,
+  users,
+  type InsertProductionTimeEntry,
+  type ProductionStationRate,
+  type ProductionTimeEntry,
+  type UpdateProductionTimeEntry,
+} from "@shared/schema";
+import { and, asc, desc, eq, gte, inArray, lt } from "drizzle-orm";
+import { rollupJobCost, sumJobCosts, type JobCostRollup } from "@shared/jobCosting";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Labor time tracking and job costing.
+ *
+ * Every timer run becomes a time entry for the operator who started it, at the job's station
+ * and machine, with the operator's labor rate and the station's machine-hour rate snapshotted.
+ * Supervisors add or correct entries by hand. Costing rolls entries and material usage up per
+ * line item against its sell price, for the order page and the job-profitability report.
+ */
+
+const REPORT_MAX_LINE_ITEMS = 1000;
+
+function toNumber(value: string | number | null | undefined): number | null {
+  if (value == null) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function userName(user: { firstName: string | null; lastName: string | null; email: string | null }): string | null {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || null;
+}
+
+// ── Rates ───────────────────────────────────────────────────────────────────
+
+async function loadLaborRates(organizationId: string, executor: any = db): Promise<Map<string, number>> {
+  const rows = await executor
+    .select({ userId: userOrganizations.userId, rate: userOrganizations.laborRatePerHour })
+    .from(userOrganizations)
+    .where(eq(userOrganizations.organizationId, organizationId));
+  const rates = new Map<string, number>();
+  rows.forEach((row: { userId: string; rate: string | null }) => {
+    const rate = toNumber(row.rate);
+    if (rate != null) rates.set(row.userId, rate);
+  });
+  return rates;
+}
+
+async function loadStationRates(organizationId: string, executor: any = db): Promise<Map<string, number>> {
+  const rows = await executor
+    .select({ stationKey: productionStationRates.stationKey, rate: productionStationRates.machineRatePerHour })
+    .from(productionStationRates)
+    .where(eq(productionStationRates.organizationId, organizationId));
+  return new Map(rows.map((row: { stationKey: string; rate: string }) => [row.stationKey, Number(row.rate)]));
+}
+
+async function snapshotRates(executor: any, organizationId: string, operatorUserId: string | null, stationKey: string) {
+  const [labor] = operatorUserId
+    ? await executor
+        .select({ rate: userOrganizations.laborRatePerHour })
+        .from(userOrganizations)
+        .where(and(eq(userOrganizations.organizationId, organizationId), eq(userOrganizations.userId, operatorUserId)))
+        .limit(1)
+    : [];
+  const [machine] = await executor
+    .select({ rate: productionStationRates.machineRatePerHour })
+    .from(productionStationRates)
+    .where(and(eq(productionStationRates.organizationId, organizationId), eq(productionStationRates.stationKey, stationKey)))
+    .limit(1);
+  return {
+    laborRatePerHour: (labor?.rate as string | null | undefined) ?? null,
+    machineRatePerHour: (machine?.rate as string | undefined) ?? null,
+  };
+}
+
+export async function listStationRates(organizationId: string): Promise<ProductionStationRate[]> {
+  return db
+    .select()
+    .from(productionStationRates)
+    .where(eq(productionStationRates.organizationId, organizationId))
+    .orderBy(asc(productionStationRates.stationKey));
+}
+
+export async function setStationRate(organizationId: string, stationKey: string, machineRatePerHour: number): Promise<ProductionStationRate> {
+  const key = stationKey.trim();
+  if (!key || key.length > 40) throw httpError(400, "Invalid station key");
+  const now = new Date();
+  const [row] = await db
+    .insert(productionStationRates)
+    .values({ organizationId, stationKey: key, machineRatePerHour: String(machineRatePerHour) })
+    .onConflictDoUpdate({
+      target: [productionStationRates.organizationId, productionStationRates.stationKey],
+      set: { machineRatePerHour: String(machineRatePerHour), updatedAt: now },
+    })
+    .returning();
+  return row;
+}
+
+export async function deleteStationRate(organizationId: string, stationKey: string): Promise<void> {
+  const deleted = await db
+    .delete(productionStationRates)
+    .where(and(eq(productionStationRates.organizationId, organizationId), eq(productionStationRates.stationKey, stationKey)))
+    .returning({ stationKey: productionStationRates.stationKey });
+  if (deleted.length === 0) throw httpError(404, "Station rate not found");
+}
+
+export async function setLaborRate(organizationId: string, userId: string, laborRatePerHour: number | null): Promise<void> {
+  const updated = await db
+    .update(userOrganizations)
+    .set({ laborRatePerHour: laborRatePerHour == null ? null : String(laborRatePerHour), updatedAt: new Date() })
+    .where(and(eq(userOrganizations.organizationId, organizationId), eq(userOrganizations.userId, userId)))
+    .returning({ userId: userOrganizations.userId });
+  if (updated.length === 0) throw httpError(404, "Operator not found in this organization");
+}
+
+// ── Time entries ────────────────────────────────────────────────────────────
+
+/** Book a finished timer run for the operator who started it. Called inside the timer's transaction. */
+export async function recordTimerTimeEntry(
+  tx: any,
+  args: {
+    organizationId: string;
+    job: { id: string; stationKey: string; machineId: string | null };
+    operatorUserId: string | null;
+    startedAt: Date;
+    endedAt: Date;
+    seconds: number;
+  },
+): Promise<void> {
+  if (args.seconds <= 0) return;
+  const { organizationId, job } = args;
+  const [operation] = await tx
+    .select({ id: productionJobOperations.id })
+    .from(productionJobOperations)
+    .where(and(eq(productionJobOperations.productionJobId, job.id), eq(productionJobOperations.status, "in_progress")))
+    .orderBy(asc(productionJobOperations.sequence))
+    .limit(1);
+
+  await tx.insert(productionTimeEntries).values({
+    organizationId,
+    productionJobId: job.id,
+    jobOperationId: operation?.id ?? null,
+    operatorUserId: args.operatorUserId,
+    stationKey: job.stationKey,
+    machineId: job.machineId,
+    startedAt: args.startedAt,
+    endedAt: args.endedAt,
+    seconds: args.seconds,
+    ...(await snapshotRates(tx, organizationId, args.operatorUserId, job.stationKey)),
+    source: "timer",
+    createdByUserId: args.operatorUserId,
+  });
+}
+
+export type ProductionTimeEntryView = ProductionTimeEntry & {
+  operatorName: string | null;
+  laborCost: number | null;
+  machineCost: number | null;
+};
+
+export async function listJobTimeEntries(organizationId: string, productionJobId: string): Promise<ProductionTimeEntryView[]> {
+  const rows = await db
+    .select({
+      entry: productionTimeEntries,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+    })
+    .from(productionTimeEntries)
+    .leftJoin(users, eq(productionTimeEntries.operatorUserId, users.id))
+    .where(and(eq(productionTimeEntries.organizationId, organizationId), eq(productionTimeEntries.productionJobId, productionJobId)))
+    .orderBy(desc(productionTimeEntries.startedAt));
+  if (rows.length === 0) return [];
+
+  const laborRates = await loadLaborRates(organizationId);
+  const stationRates = await loadStationRates(organizationId);
+  return rows.map(({ entry, ...user }) => {
+    const hours = entry.seconds / 3600;
+    const laborRate = toNumber(entry.laborRatePerHour) ?? (entry.operatorUserId ? laborRates.get(entry.operatorUserId) : undefined);
+    const machineRate = toNumber(entry.machineRatePerHour) ?? stationRates.get(entry.stationKey);
+    return {
+      ...entry,
+      operatorName: entry.operatorUserId ? userName(user) : null,
+      laborCost: laborRate == null ? null : Math.round(hours * laborRate * 100) / 100,
+      machineCost: machineRate == null ? null : Math.round(hours * machineRate * 100) / 100,
+    };
+  });
+}
+
+async function requireMember(organizationId: string, userId: string) {
+  const [member] = await db
+    .select({ userId: userOrganizations.userId })
+    .from(userOrganizations)
+    .where(and(eq(userOrganizations.organizationId, organizationId), eq(userOrganizations.userId, userId)))
+    .limit(1);
+  if (!member) throw httpError(400, "Operator is not a member of this organization");
+}
+
+export async function createTimeEntry(
+  organizationId: string,
+  productionJobId: string,
+  input: InsertProductionTimeEntry,
+  createdByUserId: string | null,
+): Promise<ProductionTimeEntry> {
+  const [job] = await db
+    .select({ id: productionJobs.id, stationKey: productionJobs.stationKey, machineId: productionJobs.machineId })
+    .from(productionJobs)
+    .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, productionJobId)))
+    .limit(1);
+  if (!job) throw httpError(404, "Production job not found");
+  await requireMember(organizationId, input.operatorUserId);
+
+  const stationKey = input.stationKey ?? job.stationKey;
+  const seconds = input.minutes * 60;
+  const [entry] = await db
+    .insert(productionTimeEntries)
+    .values({
+      organizationId,
+      productionJobId,
+      operatorUserId: input.operatorUserId,
+      stationKey,
+      machineId: stationKey === job.stationKey ? job.machineId : null,
+      startedAt: input.startedAt,
+      endedAt: new Date(input.startedAt.getTime() + seconds * 1000),
+      seconds,
+      ...(await snapshotRates(db, organizationId, input.operatorUserId, stationKey)),
+      source: "manual",
+      note: input.note ?? null,
+      createdByUserId,
+    })
+    .returning();
+  return entry;
+}
+
+/** Edit an entry; a new operator or station takes that one's current rate. */
+export async function updateTimeEntry(
+  organizationId: string,
+  entryId: string,
+  input: UpdateProductionTimeEntry,
+): Promise<ProductionTimeEntry> {
+  const [existing] = await db
+    .select()
+    .from(productionTimeEntries)
+    .where(and(eq(productionTimeEntries.organizationId, organizationId), eq(productionTimeEntries.id, entryId)))
+    .limit(1);
+  if (!existing) throw httpError(404, "Time entry not found");
+  if (input.operatorUserId) await requireMember(organizationId, input.operatorUserId);
+
+  const operatorUserId = input.operatorUserId ?? existing.operatorUserId;
+  const stationKey = input.stationKey ?? existing.stationKey;
+  const startedAt = input.startedAt ?? existing.startedAt;
+  const seconds = input.minutes != null ? input.minutes * 60 : existing.seconds;
+  const rates = await snapshotRates(db, organizationId, operatorUserId, stationKey);
+
+  const [entry] = await db
+    .update(productionTimeEntries)
+    .set({
+      operatorUserId,
+      stationKey,
+      startedAt,
+      endedAt: new Date(startedAt.getTime() + seconds * 1000),
+      seconds,
+      laborRatePerHour: operatorUserId === existing.operatorUserId ? existing.laborRatePerHour : rates.laborRatePerHour,
+      machineRatePerHour: stationKey === existing.stationKey ? existing.machineRatePerHour : rates.machineRatePerHour,
+      note: input.note !== undefined ? input.note : existing.note,
+      updatedAt: new Date(),
+    })
+    .where(eq(productionTimeEntries.id, entryId))
+    .returning();
+  return entry;
+}
+
+export async function deleteTimeEntry(organizationId: string, entryId: string): Promise<void> {
+  const deleted = await db
+    .delete(productionTimeEntries)
+    .where(and(eq(productionTimeEntries.organizationId, organizationId), eq(productionTimeEntries.id, entryId)))
+    .returning({ id: productionTimeEntries.id });
+  if (deleted.length === 0) throw httpError(404, "Time entry not found");
+}
+
+// ── Costing ─────────────────────────────────────────────────────────────────
+
+export type LineItemCosting = JobCostRollup & {
+  lineItemId: string;
+  orderId: string;
+  orderNumber: string;
+  customerName: string | null;
+  description: string;
+  quantity: number;
+  productionJobIds: string[];
+  /** done when every production job of the line item is; null without production jobs. */
+  productionStatus: "queued" | "in_progress" | "done" | null;
+  completedAt: Date | null;
+};
+
+type LineItemToCost = {
+  lineItemId: string;
+  orderId: string;
+  orderNumber: string;
+  customerName: string | null;
+  description: string;
+  quantity: number;
+  totalPrice: string;
+};
+
+async function costLineItems(organizationId: string, items: LineItemToCost[]): Promise<LineItemCosting[]> {
+  if (items.length === 0) return [];
+  const lineItemIds = items.map((item) => item.lineItemId);
+
+  const jobs = await db
+    .select({
+      id: productionJobs.id,
+      lineItemId: productionJobs.lineItemId,
+      status: productionJobs.status,
+      completedAt: productionJobs.completedAt,
+    })
+    .from(productionJobs)
+    .where(and(eq(productionJobs.organizationId, organizationId), inArray(productionJobs.lineItemId, lineItemIds)));
+  const jobIds = jobs.map((job) => job.id);
+
+  const entries = jobIds.length
+    ? await db
+        .select({
+          productionJobId: productionTimeEntries.productionJobId,
+          operatorUserId: productionTimeEntries.operatorUserId,
+          stationKey: productionTimeEntries.stationKey,
+          seconds: productionTimeEntries.seconds,
+          laborRatePerHour: productionTimeEntries.laborRatePerHour,
+          machineRatePerHour: productionTimeEntries.machineRatePerHour,
+        })
+        .from(productionTimeEntries)
+        .where(and(eq(productionTimeEntries.organizationId, organizationId), inArray(productionTimeEntries.productionJobId, jobIds)))
+    : [];
+
+  const usage = await db
+    .select({
+      lineItemId: orderMaterialUsage.orderLineItemId,
+      quantityUsed: orderMaterialUsage.quantityUsed,
+      costPerUnit: materials.costPerUnit,
+    })
+    .from(orderMaterialUsage)
+    .innerJoin(materials, eq(orderMaterialUsage.materialId, materials.id))
+    .where(and(eq(materials.organizationId, organizationId), inArray(orderMaterialUsage.orderLineItemId, lineItemIds)));
+
+  const laborRates = await loadLaborRates(organizationId);
+  const stationRates = await loadStationRates(organizationId);
+
+  return items.map((item) => {
+    const itemJobs = jobs.filter((job) => job.lineItemId === item.lineItemId);
+    const itemJobIds = new Set(itemJobs.map((job) => job.id));
+    const rollup = rollupJobCost({
+      timeEntries: entries
+        .filter((entry) => itemJobIds.has(entry.productionJobId))
+        .map((entry) => ({
+          seconds: entry.seconds,
+          laborRatePerHour:
+            toNumber(entry.laborRatePerHour) ?? (entry.operatorUserId ? laborRates.get(entry.operatorUserId) ?? null : null),
+          machineRatePerHour: toNumber(entry.machineRatePerHour) ?? stationRates.get(entry.stationKey) ?? null,
+        })),
+      materials: usage
+        .filter((u) => u.lineItemId === item.lineItemId)
+        .map((u) => ({ quantityUsed: Number(u.quantityUsed) || 0, costPerUnit: Number(u.costPerUnit) || 0 })),
+      sellPrice: Number(item.totalPrice) || 0,
+    });
+
+    const done = itemJobs.length > 0 && itemJobs.every((job) => job.status === "done");
+    const completedAt = done
+      ? itemJobs.reduce<Date | null>((latest, job) => (job.completedAt && (!latest || job.completedAt > latest) ? job.completedAt : latest), null)
+      : null;
+
+    return {
+      ...rollup,
+      lineItemId: item.lineItemId,
+      orderId: item.orderId,
+      orderNumber: item.orderNumber,
+      customerName: item.customerName,
+      description: item.description,
+      quantity: item.quantity,
+      productionJobIds: itemJobs.map((job) => job.id),
+      productionStatus:
+        itemJobs.length === 0 ? null : done ? "done" : itemJobs.some((job) => job.status !== "queued") ? "in_progress" : "queued",
+      completedAt,
+    };
+  });
+}
+
+const lineItemColumns = {
+  lineItemId: orderLineItems.id,
+  orderId: orders.id,
+  orderNumber: orders.orderNumber,
+  customerName: customers.companyName,
+  description: orderLineItems.description,
+  quantity: orderLineItems.quantity,
+  totalPrice: orderLineItems.totalPrice,
+};
+
+export type JobCostingSummary = { lineItems: LineItemCosting[]; totals: JobCostRollup };
+
+/** Cost of every line item on an order, with the order total. */
+export async function getOrderJobCosting(organizationId: string, orderId: string): Promise<JobCostingSummary> {
+  const [order] = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(and(eq(orders.organizationId, organizationId), eq(orders.id, orderId)))
+    .limit(1);
+  if (!order) throw httpError(404, "Order not found");
+
+  const items = await db
+    .select(lineItemColumns)
+    .from(orderLineItems)
+    .innerJoin(orders, eq(orderLineItems.orderId, orders.id))
+    .leftJoin(customers, eq(orders.customerId, customers.id))
+    .where(eq(orderLineItems.orderId, orderId))
+    .orderBy(asc(orderLineItems.createdAt));
+
+  const lineItems = await costLineItems(organizationId, items);
+  return { lineItems, totals: sumJobCosts(lineItems) };
+}
+
+export const jobProfitabilityQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // done: line items whose production finished in the range; all: production started in the range
+  status: z.enum(["done", "all"]).default("done"),
+});
+
+export type JobProfitabilityReport = JobCostingSummary & { from: Date; to: Date; truncated: boolean };
+
+/** Line items that went through production in a date range (default the last 30 days), costed. */
+export async function getJobProfitabilityReport(
+  organizationId: string,
+  query: z.infer<typeof jobProfitabilityQuerySchema>,
+): Promise<JobProfitabilityReport> {
+  const to = query.to ?? new Date();
+  const from = query.from ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+  if (from >= to) throw httpError(400, "The report start must be before its end");
+
+  const dateColumn = query.status === "done" ? productionJobs.completedAt : productionJobs.createdAt;
+  const conditions = [eq(productionJobs.organizationId, organizationId), gte(dateColumn, from), lt(dateColumn, to)];
+  if (query.status === "done") conditions.push(eq(productionJobs.status, "done"));
+
+  const jobRows = await db
+    .selectDistinct({ lineItemId: productionJobs.lineItemId })
+    .from(productionJobs)
+    .where(and(...conditions))
+    .limit(REPORT_MAX_LINE_ITEMS + 1);
+  const lineItemIds = jobRows.map((row) => row.lineItemId).filter((id): id is string => !!id);
+  const truncated = lineItemIds.length > REPORT_MAX_LINE_ITEMS;
+
+  const items = lineItemIds.length
+    ? await db
+        .select(lineItemColumns)
+        .from(orderLineItems)
+        .innerJoin(orders, eq(orderLineItems.orderId, orders.id))
+        .leftJoin(customers, eq(orders.customerId, customers.id))
+        .where(and(eq(orders.organizationId, organizationId), inArray(orderLineItems.id, lineItemIds.slice(0, REPORT_MAX_LINE_ITEMS))))
+    : [];
+
+  // A line item with work still open is not finished, so leave it out of a "done" report
+  const costed = (await costLineItems(organizationId, items)).filter(
+    (item) => query.status === "all" || item.productionStatus === "done",
+  );
+  costed.sort((a, b) => (b.completedAt?.getTime() ?? 0) - (a.completedAt?.getTime() ?? 0) || a.orderNumber.localeCompare(b.orderNumber));
+
+  return { from, to, truncated, lineItems: costed, totals: sumJobCosts(costed) };
+}
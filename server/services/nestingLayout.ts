@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { db } from "../db";
+import { materials, orderLineItems, orders, productionJobs } from "@shared/schema";
+import { SHEET_NESTING_MODES } from "@shared/sheetNesting";
+import { and, eq, inArray } from "drizzle-orm";
+import { planGangSheetForLineItems, sheetNestingRequestSchema } from "./sheetNesting";
+import { planRollRunForJobs, rollNestingRequestSchema } from "./rollNesting";
+import { rollPlanToLayout, sheetPlanToLayout, type NestingLayoutDocument } from "../lib/nestingLayoutExport";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Nesting layout export.
+ *
+ * Resolves production jobs to a sheet or roll plan (by the shared material's type unless
+ * `kind` is given) and normalizes it for the SVG/PDF renderers. Query-string driven so the
+ * job detail page and the planning dialogs can link straight to a download.
+ */
+
+const optionalNumber = z.preprocess((value) => (value === "" ? undefined : value), z.coerce.number().optional());
+
+export const nestingLayoutQuerySchema = z.object({
+  jobIds: z
+    .string()
+    .transform((value) => value.split(",").map((id) => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).min(1).max(200)),
+  kind: z.enum(["sheet", "roll"]).optional(),
+  mode: z.enum(SHEET_NESTING_MODES).optional(),
+  allowRotation: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => (value == null ? undefined : value === "true")),
+  gutterIn: optionalNumber,
+  bleedIn: optionalNumber,
+  marginIn: optionalNumber,
+  sheetWidthIn: optionalNumber,
+  sheetHeightIn: optionalNumber,
+  /** SVG holds one page; picks which sheet (0-based). */
+  sheet: z.coerce.number().int().min(0).default(0),
+});
+
+export type NestingLayoutQuery = z.infer<typeof nestingLayoutQuerySchema>;
+
+export async function buildNestingLayoutForJobs(
+  organizationId: string,
+  query: NestingLayoutQuery,
+): Promise<{ document: NestingLayoutDocument; fileBase: string }> {
+  const jobIds = Array.from(new Set(query.jobIds));
+
+  const rows = await db
+    .select({
+      jobId: productionJobs.id,
+      lineItemId: productionJobs.lineItemId,
+      orderNumber: orders.orderNumber,
+      materialId: orderLineItems.materialId,
+    })
+    .from(productionJobs)
+    .innerJoin(orders, eq(productionJobs.orderId, orders.id))
+    .leftJoin(orderLineItems, eq(productionJobs.lineItemId, orderLineItems.id))
+    .where(and(eq(productionJobs.organizationId, organizationId), inArray(productionJobs.id, jobIds)));
+
+  if (rows.length !== jobIds.length) throw httpError(404, "One or more production jobs were not found");
+  const withoutLineItem = rows.find((row) => !row.lineItemId);
+  if (withoutLineItem) throw httpError(400, `Job for order ${withoutLineItem.orderNumber} has no line item to lay out`);
+
+  let materialType: string | null = null;
+  const materialId = rows[0].materialId;
+  if (materialId) {
+    const [material] = await db
+      .select({ type: materials.type })
+      .from(materials)
+      .where(and(eq(materials.organizationId, organizationId), eq(materials.id, materialId)))
+      .limit(1);
+    materialType = material?.type ?? null;
+  }
+  const kind = query.kind ?? (materialType === "roll" ? "roll" : "sheet");
+
+  const orderNumbers = Array.from(new Set(rows.map((row) => row.orderNumber)));
+  const title = orderNumbers.length === 1 ? `Order ${orderNumbers[0]}` : `Gang of ${rows.length} jobs`;
+  const fileBase = `nesting-${orderNumbers.length === 1 ? orderNumbers[0] : "gang"}-${kind}`.replace(/[^A-Za-z0-9._-]/g, "_");
+
+  if (kind === "roll") {
+    const plan = await planRollRunForJobs(
+      organizationId,
+      rollNestingRequestSchema.parse({ jobIds, allowRotation: query.allowRotation, gutterIn: query.gutterIn }),
+    );
+    return { document: rollPlanToLayout(plan, `${title} - ${plan.material.name}`), fileBase };
+  }
+
+  const plan = await planGangSheetForLineItems(
+    organizationId,
+    sheetNestingRequestSchema.parse({
+      lineItemIds: rows.map((row) => row.lineItemId),
+      mode: query.mode,
+      allowRotation: query.allowRotation,
+      gutterIn: query.gutterIn,
+      bleedIn: query.bleedIn,
+      marginIn: query.marginIn,
+      sheetWidthIn: query.sheetWidthIn,
+      sheetHeightIn: query.sheetHeightIn,
+    }),
+  );
+  const materialName = plan.material?.name;
+  return { document: sheetPlanToLayout(plan, materialName ? `${title} - ${materialName}` : title), fileBase };
+}
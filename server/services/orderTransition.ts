@@ -14,6 +14,7 @@ export interface OrgPreferences {
     requireDueDateForProduction?: boolean;
     requireBillingAddressForProduction?: boolean;
     requireShippingAddressForProduction?: boolean;
+    blockProductionOnPreflightBlockers?: boolean;
   };
 }
 
@@ -24,6 +25,7 @@ export interface TransitionContext {
   fulfillmentStatus?: string;
   jobsCount?: number;
   hasShippedAt?: boolean;
+  preflightBlockerCount?: number; // line item artwork files whose automatic preflight found blockers
   orgPreferences?: OrgPreferences;
 }
 
@@ -34,6 +36,25 @@ export interface TransitionResult {
   warnings?: string[];
 }
 
+/**
+ * Preflight blockers on line item artwork: a hard stop when the org opts in, otherwise a warning.
+ */
+function checkPreflightBlockers(ctx: TransitionContext, warnings: string[]): TransitionResult | null {
+  const count = ctx.preflightBlockerCount ?? 0;
+  if (count === 0) return null;
+
+  if (ctx.orgPreferences?.orders?.blockProductionOnPreflightBlockers ?? false) {
+    return {
+      ok: false,
+      code: 'PREFLIGHT_BLOCKERS',
+      message: `Cannot start production: ${count} artwork file(s) have preflight blockers. Fix or replace the artwork first.`,
+    };
+  }
+
+  warnings.push(`${count} artwork file(s) have preflight blockers.`);
+  return null;
+}
+
 /**
  * Validates if a status transition is allowed based on business rules.
  * Org preferences control which validations are enforced.
@@ -120,6 +141,10 @@ export function validateOrderTransition(
           };
         }
 
+        // Conditional validation: Preflight blockers (hard stop only when the org opts in)
+        const preflightResult = checkPreflightBlockers(ctx, warnings);
+        if (preflightResult) return preflightResult;
+
         // Soft warning: No attachments
         if (ctx.attachmentsCount === 0) {
           warnings.push('No artwork/files attached - production may be delayed.');
@@ -176,7 +201,9 @@ export function validateOrderTransition(
 
     case 'on_hold':
       if (to === 'in_production') {
-        return { ok: true };
+        const preflightResult = checkPreflightBlockers(ctx, warnings);
+        if (preflightResult) return preflightResult;
+        return { ok: true, warnings: warnings.length > 0 ? warnings : undefined };
       }
 
       if (to === 'canceled') {
@@ -0,0 +1,365 @@
+import { db } from "../db";
+import { auditLogs, pbv2TreeVersions, products } from "@shared/schema";
+import { and, asc, eq, inArray, isNotNull, lte } from "drizzle-orm";
+import { resolvePbv2PricingAt, selectEffectivePbv2TreeVersionId } from "../lib/pbv2EffectiveVersion";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * PBV2 tree version lifecycle beyond immediate publish (which stays in routes.ts):
+ * - scheduled publish (SCHEDULED + future effectiveFrom) and lazy activation once due
+ * - rollback (re-activate a prior published tree as a new ACTIVE copy)
+ * - as-of resolution for pricing paths
+ *
+ * Every lifecycle transition is written to auditLogs (entityType "product").
+ */
+
+export type Pbv2LifecycleActor = {
+  userId: string | null;
+  userName: string | null;
+};
+
+export type Pbv2LifecycleAuditAction =
+  | "pbv2.publish"
+  | "pbv2.publish_scheduled"
+  | "pbv2.schedule_canceled"
+  | "pbv2.scheduled_activated"
+  | "pbv2.rollback";
+
+export async function insertPbv2LifecycleAuditLog(
+  tx: any,
+  args: {
+    organizationId: string;
+    productId: string;
+    actor: Pbv2LifecycleActor;
+    actionType: Pbv2LifecycleAuditAction;
+    description: string;
+    oldValues?: Record<string, unknown>;
+    newValues?: Record<string, unknown>;
+  }
+): Promise<void> {
+  const [product] = await tx
+    .select({ name: products.name })
+    .from(products)
+    .where(and(eq(products.id, args.productId), eq(products.organizationId, args.organizationId)))
+    .limit(1);
+
+  await tx.insert(auditLogs).values({
+    organizationId: args.organizationId,
+    userId: args.actor.userId,
+    userName: args.actor.userName,
+    actionType: args.actionType,
+    entityType: "product",
+    entityId: args.productId,
+    entityName: product?.name ?? args.productId,
+    description: args.description,
+    oldValues: args.oldValues ?? null,
+    newValues: args.newValues ?? null,
+  });
+}
+
+/**
+ * Swap the product's ACTIVE pointer to `nextActiveId` inside `tx`, deprecating the previous ACTIVE row.
+ * Returns the previous ACTIVE id.
+ */
+async function swapActivePointer(
+  tx: any,
+  args: { organizationId: string; productId: string; nextActiveId: string; now: Date; userId: string | null }
+): Promise<string | null> {
+  const [product] = await tx
+    .select({ pbv2ActiveTreeVersionId: products.pbv2ActiveTreeVersionId })
+    .from(products)
+    .where(and(eq(products.id, args.productId), eq(products.organizationId, args.organizationId)))
+    .limit(1);
+
+  if (!product) throw httpError(404, "Product not found");
+
+  const previousActiveId: string | null = product.pbv2ActiveTreeVersionId ?? null;
+  if (previousActiveId && previousActiveId !== args.nextActiveId) {
+    await tx
+      .update(pbv2TreeVersions)
+      .set({ status: "DEPRECATED", updatedAt: args.now, updatedByUserId: args.userId })
+      .where(and(eq(pbv2TreeVersions.organizationId, args.organizationId), eq(pbv2TreeVersions.id, previousActiveId)));
+  }
+
+  await tx
+    .update(products)
+    .set({ pbv2ActiveTreeVersionId: args.nextActiveId, updatedAt: args.now })
+    .where(and(eq(products.id, args.productId), eq(products.organizationId, args.organizationId)));
+
+  return previousActiveId;
+}
+
+/**
+ * Mark a validated DRAFT as SCHEDULED for `effectiveFrom`. The ACTIVE pointer is untouched until it is due.
+ */
+export async function schedulePbv2TreeVersion(args: {
+  organizationId: string;
+  draftId: string;
+  effectiveFrom: Date;
+  actor: Pbv2LifecycleActor;
+}) {
+  const now = new Date();
+
+  return await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(pbv2TreeVersions)
+      .set({
+        status: "SCHEDULED",
+        publishedAt: now,
+        effectiveFrom: args.effectiveFrom,
+        updatedAt: now,
+        updatedByUserId: args.actor.userId,
+      })
+      .where(
+        and(
+          eq(pbv2TreeVersions.organizationId, args.organizationId),
+          eq(pbv2TreeVersions.id, args.draftId),
+          eq(pbv2TreeVersions.status, "DRAFT")
+        )
+      )
+      .returning();
+
+    if (!updated) throw httpError(409, "Only DRAFT tree versions can be scheduled");
+
+    await insertPbv2LifecycleAuditLog(tx, {
+      organizationId: args.organizationId,
+      productId: updated.productId,
+      actor: args.actor,
+      actionType: "pbv2.publish_scheduled",
+      description: `Scheduled PBV2 tree version ${updated.id} to take effect ${args.effectiveFrom.toISOString()}`,
+      newValues: { treeVersionId: updated.id, status: "SCHEDULED", effectiveFrom: args.effectiveFrom.toISOString() },
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Return a SCHEDULED version to DRAFT. Refused when the product already has another DRAFT
+ * (the editor assumes at most one).
+ */
+export async function unschedulePbv2TreeVersion(args: { organizationId: string; treeVersionId: string; actor: Pbv2LifecycleActor }) {
+  const now = new Date();
+
+  return await db.transaction(async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(pbv2TreeVersions)
+      .where(and(eq(pbv2TreeVersions.organizationId, args.organizationId), eq(pbv2TreeVersions.id, args.treeVersionId)))
+      .limit(1);
+
+    if (!row) throw httpError(404, "Tree version not found");
+    if (row.status !== "SCHEDULED") throw httpError(409, "Only SCHEDULED tree versions can be unscheduled");
+
+    const [existingDraft] = await tx
+      .select({ id: pbv2TreeVersions.id })
+      .from(pbv2TreeVersions)
+      .where(
+        and(
+          eq(pbv2TreeVersions.organizationId, args.organizationId),
+          eq(pbv2TreeVersions.productId, row.productId),
+          eq(pbv2TreeVersions.status, "DRAFT")
+        )
+      )
+      .limit(1);
+
+    if (existingDraft) {
+      throw httpError(409, "Product already has a draft; publish or discard it before unscheduling");
+    }
+
+    const [updated] = await tx
+      .update(pbv2TreeVersions)
+      .set({ status: "DRAFT", publishedAt: null, effectiveFrom: null, updatedAt: now, updatedByUserId: args.actor.userId })
+      .where(and(eq(pbv2TreeVersions.id, row.id), eq(pbv2TreeVersions.status, "SCHEDULED")))
+      .returning();
+
+    if (!updated) throw httpError(409, "Tree version is no longer scheduled");
+
+    await insertPbv2LifecycleAuditLog(tx, {
+      organizationId: args.organizationId,
+      productId: row.productId,
+      actor: args.actor,
+      actionType: "pbv2.schedule_canceled",
+      description: `Canceled scheduled PBV2 tree version ${row.id}`,
+      oldValues: { treeVersionId: row.id, status: "SCHEDULED", effectiveFrom: row.effectiveFrom?.toISOString() ?? null },
+      newValues: { treeVersionId: row.id, status: "DRAFT" },
+    });
+
+    return updated;
+  });
+}
+
+/**
+ * Activate SCHEDULED versions whose effectiveFrom has passed. The latest due one becomes ACTIVE;
+ * earlier due ones are DEPRECATED (their windows remain in history via effectiveFrom).
+ * Called lazily from pricing/editor reads, so no scheduler process is needed.
+ */
+export async function activateDueScheduledPbv2TreeVersions(organizationId: string, productId: string, now = new Date()): Promise<string | null> {
+  const due = await db
+    .select({ id: pbv2TreeVersions.id })
+    .from(pbv2TreeVersions)
+    .where(
+      and(
+        eq(pbv2TreeVersions.organizationId, organizationId),
+        eq(pbv2TreeVersions.productId, productId),
+        eq(pbv2TreeVersions.status, "SCHEDULED"),
+        lte(pbv2TreeVersions.effectiveFrom, now)
+      )
+    )
+    .limit(1);
+
+  if (due.length === 0) return null;
+
+  return await db.transaction(async (tx) => {
+    // Claim due rows atomically; a concurrent request that already activated them gets nothing back.
+    const claimed = await tx
+      .update(pbv2TreeVersions)
+      .set({ status: "DEPRECATED", updatedAt: now })
+      .where(
+        and(
+          eq(pbv2TreeVersions.organizationId, organizationId),
+          eq(pbv2TreeVersions.productId, productId),
+          eq(pbv2TreeVersions.status, "SCHEDULED"),
+          lte(pbv2TreeVersions.effectiveFrom, now)
+        )
+      )
+      .returning();
+
+    if (claimed.length === 0) return null;
+
+    claimed.sort((a, b) => (a.effectiveFrom?.getTime() ?? 0) - (b.effectiveFrom?.getTime() ?? 0));
+    const next = claimed[claimed.length - 1];
+
+    await tx
+      .update(pbv2TreeVersions)
+      .set({
+        status: "ACTIVE",
+        treeJson: { ...(next.treeJson as any), schemaVersion: 2, status: "ACTIVE" },
+        updatedAt: now,
+      })
+      .where(eq(pbv2TreeVersions.id, next.id));
+
+    const previousActiveId = await swapActivePointer(tx, { organizationId, productId, nextActiveId: next.id, now, userId: null });
+
+    await insertPbv2LifecycleAuditLog(tx, {
+      organizationId,
+      productId,
+      actor: { userId: null, userName: "System" },
+      actionType: "pbv2.scheduled_activated",
+      description: `Scheduled PBV2 tree version ${next.id} took effect`,
+      oldValues: { pbv2ActiveTreeVersionId: previousActiveId },
+      newValues: {
+        pbv2ActiveTreeVersionId: next.id,
+        effectiveFrom: next.effectiveFrom?.toISOString() ?? null,
+        supersededScheduledIds: claimed.slice(0, -1).map((r) => r.id),
+      },
+    });
+
+    console.log(`[PBV2_SCHEDULED_ACTIVATED] orgId=${organizationId} productId=${productId} treeVersionId=${next.id} previousActiveId=${previousActiveId || "none"}`);
+    return next.id;
+  });
+}
+
+/**
+ * Tree version effective for `productId` at `at` (default: now). Due scheduled versions are activated first.
+ * Falls back to the product's ACTIVE pointer when no published version had taken effect at `at`.
+ */
+export async function resolvePbv2TreeVersionIdAt(args: { organizationId: string; productId: string; at?: Date | string | null }): Promise<string | null> {
+  const { organizationId, productId } = args;
+  const now = new Date();
+  const at = resolvePbv2PricingAt({ documentCreatedAt: args.at ?? null });
+
+  await activateDueScheduledPbv2TreeVersions(organizationId, productId, now);
+
+  const [product] = await db
+    .select({ pbv2ActiveTreeVersionId: products.pbv2ActiveTreeVersionId })
+    .from(products)
+    .where(and(eq(products.id, productId), eq(products.organizationId, organizationId)))
+    .limit(1);
+
+  const activeId = product?.pbv2ActiveTreeVersionId ?? null;
+  if (!at || at.getTime() >= now.getTime()) return activeId;
+
+  const rows = await db
+    .select({ id: pbv2TreeVersions.id, status: pbv2TreeVersions.status, effectiveFrom: pbv2TreeVersions.effectiveFrom })
+    .from(pbv2TreeVersions)
+    .where(
+      and(
+        eq(pbv2TreeVersions.organizationId, organizationId),
+        eq(pbv2TreeVersions.productId, productId),
+        inArray(pbv2TreeVersions.status, ["ACTIVE", "DEPRECATED"]),
+        isNotNull(pbv2TreeVersions.effectiveFrom),
+        lte(pbv2TreeVersions.effectiveFrom, at)
+      )
+    )
+    .orderBy(asc(pbv2TreeVersions.effectiveFrom));
+
+  return selectEffectivePbv2TreeVersionId(rows, at) ?? activeId;
+}
+
+/**
+ * Re-activate a prior published version. The tree is copied into a new ACTIVE row (effective now)
+ * rather than flipping the old row back, so as-of lookups for past dates keep resolving correctly.
+ */
+export async function rollbackPbv2TreeVersion(args: { organizationId: string; targetId: string; actor: Pbv2LifecycleActor }) {
+  const [ref] = await db
+    .select({ productId: pbv2TreeVersions.productId })
+    .from(pbv2TreeVersions)
+    .where(and(eq(pbv2TreeVersions.organizationId, args.organizationId), eq(pbv2TreeVersions.id, args.targetId)))
+    .limit(1);
+
+  // Settle anything already due first so it cannot take over after the rollback.
+  if (ref) await activateDueScheduledPbv2TreeVersions(args.organizationId, ref.productId);
+
+  const now = new Date();
+
+  return await db.transaction(async (tx) => {
+    const [target] = await tx
+      .select()
+      .from(pbv2TreeVersions)
+      .where(and(eq(pbv2TreeVersions.organizationId, args.organizationId), eq(pbv2TreeVersions.id, args.targetId)))
+      .limit(1);
+
+    if (!target) throw httpError(404, "Tree version not found");
+    if (target.status !== "DEPRECATED" || !target.publishedAt) {
+      throw httpError(409, "Only previously published (DEPRECATED) tree versions can be rolled back to");
+    }
+
+    const [copy] = await tx
+      .insert(pbv2TreeVersions)
+      .values({
+        organizationId: args.organizationId,
+        productId: target.productId,
+        status: "ACTIVE",
+        schemaVersion: target.schemaVersion,
+        treeJson: { ...(target.treeJson as any), status: "ACTIVE" },
+        publishedAt: now,
+        effectiveFrom: now,
+        sourceTreeVersionId: target.id,
+        createdByUserId: args.actor.userId,
+        updatedByUserId: args.actor.userId,
+      })
+      .returning();
+
+    const previousActiveId = await swapActivePointer(tx, {
+      organizationId: args.organizationId,
+      productId: target.productId,
+      nextActiveId: copy.id,
+      now,
+      userId: args.actor.userId,
+    });
+
+    await insertPbv2LifecycleAuditLog(tx, {
+      organizationId: args.organizationId,
+      productId: target.productId,
+      actor: args.actor,
+      actionType: "pbv2.rollback",
+      description: `Rolled back PBV2 tree to version ${target.id}`,
+      oldValues: { pbv2ActiveTreeVersionId: previousActiveId },
+      newValues: { pbv2ActiveTreeVersionId: copy.id, sourceTreeVersionId: target.id },
+    });
+
+    console.log(`[PBV2_ROLLBACK] orgId=${args.organizationId} productId=${target.productId} sourceTreeVersionId=${target.id} newActiveId=${copy.id} previousActiveId=${previousActiveId || "none"}`);
+    return { version: copy, previousActiveId };
+  });
+}
@@ -0,0 +1,135 @@
+import { db } from "../db";
+import { pricebookEntries, type InsertPricebookEntry, type PricebookEntry, type UpdatePricebookEntry } from "@shared/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { isValidPricebookKey, resolvePricebookAt, validatePricebookValue, type PricebookValueType } from "@shared/pbv2/pricebook";
+import { resolvePbv2PricingAt } from "../lib/pbv2EffectiveVersion";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Org pricebook store (values behind PBV2 `pricebookRef`).
+ * Pure resolution lives in shared/pbv2/pricebook so the builder preview resolves the same way.
+ */
+
+export async function listPricebookEntries(organizationId: string): Promise<PricebookEntry[]> {
+  return await db
+    .select()
+    .from(pricebookEntries)
+    .where(eq(pricebookEntries.organizationId, organizationId))
+    .orderBy(asc(pricebookEntries.key), desc(pricebookEntries.effectiveFrom));
+}
+
+/** `key -> value` as of `at` (default: now); pass as `opts.pricebook` to the PBV2 pricing adapter. */
+export async function loadPricebookValues(organizationId: string, at?: Date | string | null): Promise<Record<string, number>> {
+  const rows = await db
+    .select({ key: pricebookEntries.key, value: pricebookEntries.value, effectiveFrom: pricebookEntries.effectiveFrom })
+    .from(pricebookEntries)
+    .where(eq(pricebookEntries.organizationId, organizationId));
+
+  return resolvePricebookAt(rows, resolvePbv2PricingAt({ documentCreatedAt: at ?? null }) ?? new Date());
+}
+
+/** Every key defined for the org (any effective date); used by the publish validator. */
+export async function listPricebookKeys(organizationId: string): Promise<string[]> {
+  const rows = await db
+    .selectDistinct({ key: pricebookEntries.key })
+    .from(pricebookEntries)
+    .where(eq(pricebookEntries.organizationId, organizationId));
+  return rows.map((r) => r.key).sort();
+}
+
+async function getKeyValueType(organizationId: string, key: string): Promise<PricebookValueType | null> {
+  const [row] = await db
+    .select({ valueType: pricebookEntries.valueType })
+    .from(pricebookEntries)
+    .where(and(eq(pricebookEntries.organizationId, organizationId), eq(pricebookEntries.key, key)))
+    .limit(1);
+  return row?.valueType ?? null;
+}
+
+/**
+ * Add an entry. Adding to an existing key creates a new effective-dated value;
+ * the key's type is fixed by its first entry.
+ */
+export async function createPricebookEntry(organizationId: string, input: InsertPricebookEntry, userId: string | null): Promise<PricebookEntry> {
+  if (!isValidPricebookKey(input.key)) {
+    throw httpError(400, "Key must be dot-separated letters, digits and underscores (e.g. ink.cost_per_sqft)");
+  }
+
+  const existingType = await getKeyValueType(organizationId, input.key);
+  if (existingType && existingType !== input.valueType) {
+    throw httpError(400, `Pricebook key '${input.key}' is ${existingType}`);
+  }
+
+  const valueError = validatePricebookValue(input.valueType, input.value);
+  if (valueError) throw httpError(400, valueError);
+
+  const [created] = await db
+    .insert(pricebookEntries)
+    .values({
+      organizationId,
+      key: input.key,
+      label: input.label ?? null,
+      description: input.description ?? null,
+      valueType: input.valueType,
+      value: String(input.value),
+      effectiveFrom: input.effectiveFrom ?? new Date(),
+      createdByUserId: userId,
+      updatedByUserId: userId,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!created) {
+    throw httpError(409, `'${input.key}' already has a value effective at that time`);
+  }
+  return created;
+}
+
+export async function updatePricebookEntry(
+  organizationId: string,
+  id: string,
+  input: UpdatePricebookEntry,
+  userId: string | null
+): Promise<PricebookEntry | null> {
+  const [existing] = await db
+    .select()
+    .from(pricebookEntries)
+    .where(and(eq(pricebookEntries.organizationId, organizationId), eq(pricebookEntries.id, id)))
+    .limit(1);
+  if (!existing) return null;
+
+  if (input.value !== undefined) {
+    const valueError = validatePricebookValue(existing.valueType, input.value);
+    if (valueError) throw httpError(400, valueError);
+  }
+
+  const [updated] = await db
+    .update(pricebookEntries)
+    .set({
+      ...(input.label !== undefined ? { label: input.label } : {}),
+      ...(input.description !== undefined ? { description: input.description } : {}),
+      ...(input.value !== undefined ? { value: String(input.value) } : {}),
+      ...(input.effectiveFrom !== undefined ? { effectiveFrom: input.effectiveFrom } : {}),
+      updatedByUserId: userId,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(pricebookEntries.organizationId, organizationId), eq(pricebookEntries.id, id)))
+    .returning()
+    .catch((error: any) => {
+      // Unique (org, key, effective_from)
+      if (error?.code === "23505") {
+        throw httpError(409, `'${existing.key}' already has a value effective at that time`);
+      }
+      throw error;
+    });
+
+  return updated ?? null;
+}
+
+export async function deletePricebookEntry(organizationId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(pricebookEntries)
+    .where(and(eq(pricebookEntries.organizationId, organizationId), eq(pricebookEntries.id, id)))
+    .returning({ id: pricebookEntries.id });
+  return deleted.length > 0;
+}
@@ -9,6 +9,7 @@ import { db } from '../../db';
 import { products, pbv2TreeVersions } from '../../../shared/schema';
 import { eq, and } from 'drizzle-orm';
 import { evaluateOptionTreeV2 } from '../optionTreeV2Evaluator';
+import { resolvePbv2TreeVersionIdAt } from '../pbv2TreeVersionLifecycle';
 import type { 
   OptionTreeV2, 
   LineItemOptionSelectionsV2
@@ -26,6 +27,7 @@ export type PricingInput = {
   heightIn?: number;
   pbv2ExplicitSelections: Record<string, any>; // Option selections from frontend
   pbv2TreeVersionIdOverride?: string; // Optional: use specific tree version
+  pricingAt?: Date | null; // Optional: price with the version effective at this time (default: now)
 };
 
 export type PricingOutput = {
@@ -76,14 +78,17 @@ export async function priceLineItem(input: PricingInput): Promise<PricingOutput>
     heightIn,
     pbv2ExplicitSelections,
     pbv2TreeVersionIdOverride,
+    pricingAt,
   } = input;
 
   // Step 1: Load product (with org scoping)
   const product = await loadProduct(organizationId, productId);
 
   // Step 2: Determine which tree version to use
+  // Effective-dated resolution also activates scheduled versions that are now due.
   const treeVersionId = pbv2TreeVersionIdOverride 
     || resolvePbv2Override(product)
+    || await resolvePbv2TreeVersionIdAt({ organizationId, productId, at: pricingAt ?? null })
     || product.pbv2ActiveTreeVersionId;
 
   if (!treeVersionId) {
@@ -0,0 +1,211 @@
+import { db } from "../db";
+import { auditLogs, productionEvents, productionJobs, type ProductionJob } from "@shared/schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { appendEvent } from "../productionHelpers";
+import { recordTimerTimeEntry } from "./jobCosting";
+import { completeJobOperation, startJobOperation } from "./productionRoutings";
+import { getLineItemProofGate } from "./proofs";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Production job timers: start, pause (stop) and complete.
+ *
+ * Shared by the job page buttons (`/api/production/jobs/:jobId/start|stop|complete`) and the
+ * shop-floor kiosk, so both go through the same proof gate, routing advance and audit trail.
+ * Each timer event records the operator who triggered it, and each finished run is booked as
+ * a time entry for the operator who started it.
+ */
+
+/** Who is acting, for the event's operator and the audit log. */
+export type ProductionActor = {
+  userId: string | null;
+  userName: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+};
+
+const toSeconds = (ms: number) => Math.max(0, Math.floor(ms / 1000));
+
+export async function getTimerStateForJob(organizationId: string, productionJobId: string, tx: any = db) {
+  const rows = await tx
+    .select({
+      type: productionEvents.type,
+      createdAt: productionEvents.createdAt,
+      operatorUserId: productionEvents.operatorUserId,
+    })
+    .from(productionEvents)
+    .where(
+      and(
+        eq(productionEvents.organizationId, organizationId),
+        eq(productionEvents.productionJobId, productionJobId),
+        inArray(productionEvents.type, ["timer_started", "timer_stopped"]),
+      ),
+    )
+    .orderBy(desc(productionEvents.createdAt))
+    .limit(1);
+
+  const last = rows[0];
+  const isRunning = last?.type === "timer_started";
+  return {
+    isRunning,
+    runningSince: isRunning ? (last!.createdAt as Date) : null,
+    startedByUserId: isRunning ? ((last!.operatorUserId as string | null) ?? null) : null,
+  };
+}
+
+async function loadJob(tx: any, organizationId: string, jobId: string): Promise<ProductionJob | undefined> {
+  const [job] = await tx
+    .select()
+    .from(productionJobs)
+    .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
+    .limit(1);
+  return job;
+}
+
+/**
+ * Stop a running timer, booking its seconds on the job and as a time entry for the operator
+ * who started it (or, for runs started before operators were recorded, who stopped it).
+ * Returns the seconds booked (0 if none was running).
+ */
+export async function stopRunningTimer(tx: any, job: ProductionJob, now: Date, operatorUserId: string | null): Promise<number> {
+  const timerState = await getTimerStateForJob(job.organizationId, job.id, tx);
+  if (!timerState.isRunning || !timerState.runningSince) return 0;
+
+  const deltaSeconds = toSeconds(now.getTime() - new Date(timerState.runningSince).getTime());
+  await appendEvent({
+    tx,
+    organizationId: job.organizationId,
+    productionJobId: job.id,
+    type: "timer_stopped",
+    payload: { seconds: deltaSeconds },
+    operatorUserId,
+  });
+  await tx
+    .update(productionJobs)
+    .set({ totalSeconds: (Number(job.totalSeconds) || 0) + deltaSeconds, updatedAt: now })
+    .where(and(eq(productionJobs.organizationId, job.organizationId), eq(productionJobs.id, job.id)));
+  await recordTimerTimeEntry(tx, {
+    organizationId: job.organizationId,
+    job,
+    operatorUserId: timerState.startedByUserId ?? operatorUserId,
+    startedAt: new Date(timerState.runningSince),
+    endedAt: now,
+    seconds: deltaSeconds,
+  });
+  return deltaSeconds;
+}
+
+/** Start the job's timer (no-op if running); a queued job goes in progress behind the proof gate. */
+export async function startJobTimer(organizationId: string, jobId: string, actor: ProductionActor): Promise<ProductionJob> {
+  const now = new Date();
+  return db.transaction(async (tx) => {
+    const job = await loadJob(tx, organizationId, jobId);
+    if (!job) throw httpError(404, "Production job not found");
+    if (job.status === "done") throw httpError(400, "Job is done; reopen first");
+
+    const timerState = await getTimerStateForJob(organizationId, jobId, tx);
+    if (timerState.isRunning) return job;
+
+    // Proof gate: a line that has been proofed can't start until its latest proof is approved
+    if (!job.startedAt && job.lineItemId) {
+      const gate = await getLineItemProofGate(organizationId, job.lineItemId, tx);
+      if (!gate.open) throw httpError(409, gate.reason ?? "Proof not approved");
+    }
+
+    await appendEvent({ tx, organizationId, productionJobId: jobId, type: "timer_started", operatorUserId: actor.userId });
+
+    await tx
+      .update(productionJobs)
+      .set({
+        status: job.status === "queued" ? "in_progress" : job.status,
+        startedAt: job.startedAt ?? now,
+        updatedAt: now,
+      })
+      .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
+    await startJobOperation(tx, organizationId, jobId, now);
+
+    return (await loadJob(tx, organizationId, jobId))!;
+  });
+}
+
+/** Pause the job's timer (no-op if not running). */
+export async function stopJobTimer(organizationId: string, jobId: string, actor: ProductionActor): Promise<ProductionJob> {
+  const now = new Date();
+  return db.transaction(async (tx) => {
+    const job = await loadJob(tx, organizationId, jobId);
+    if (!job) throw httpError(404, "Production job not found");
+
+    const seconds = await stopRunningTimer(tx, job, now, actor.userId);
+    if (seconds === 0) return job;
+    return (await loadJob(tx, organizationId, jobId))!;
+  });
+}
+
+/**
+ * Complete the job's current operation, stopping a running timer first. A routed job with
+ * operations left moves to the next station as queued; otherwise the job is done. Completing
+ * a queued job needs `skipProduction`, which also skips any remaining operations. The caller
+ * reschedules.
+ */
+export async function completeJob(
+  organizationId: string,
+  jobId: string,
+  options: { skipProduction?: boolean; actor: ProductionActor },
+): Promise<ProductionJob> {
+  const { actor } = options;
+  const skipProduction = options.skipProduction === true;
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    const job = await loadJob(tx, organizationId, jobId);
+    if (!job) throw httpError(404, "Production job not found");
+    if (job.status === "done") return job;
+
+    // queued -> done requires explicit skipProduction
+    if (job.status === "queued" && !skipProduction) {
+      throw httpError(400, "Cannot complete from queued without skipProduction");
+    }
+
+    const totalSeconds = (Number(job.totalSeconds) || 0) + (await stopRunningTimer(tx, job, now, actor.userId));
+
+    // Multi-step routing: completing the current operation moves the job to the next station
+    const advance = await completeJobOperation(tx, {
+      organizationId,
+      productionJobId: jobId,
+      jobTotalSeconds: totalSeconds,
+      now,
+      skipRemaining: skipProduction,
+      operatorUserId: actor.userId,
+    });
+
+    if (!advance?.next) {
+      await tx
+        .update(productionJobs)
+        .set({ status: "done", completedAt: now, updatedAt: now })
+        .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
+    }
+
+    await tx.insert(auditLogs).values({
+      organizationId,
+      userId: actor.userId,
+      userName: actor.userName,
+      actionType: "UPDATE",
+      entityType: "production_job",
+      entityId: jobId,
+      entityName: jobId,
+      description: advance?.next
+        ? `Production operation "${advance.completed.name}" completed; moved to ${advance.next.stationKey}`
+        : skipProduction
+          ? "Production job completed (skip production)"
+          : "Production job completed",
+      oldValues: { status: job.status, stationKey: job.stationKey, stepKey: job.stepKey },
+      newValues: advance?.next
+        ? { status: "queued", stationKey: advance.next.stationKey, stepKey: advance.next.operationKey }
+        : { status: "done" },
+      ipAddress: actor.ipAddress ?? null,
+      userAgent: actor.userAgent ?? null,
+    } as any);
+
+    return (await loadJob(tx, organizationId, jobId))!;
+  });
+}
@@ -0,0 +1,292 @@
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { db } from "../db";
+import { customers, orderLineItems, orders, productionJobs, userOrganizations, users } from "@shared/schema";
+import { and, asc, eq, ne } from "drizzle-orm";
+import { buildOperatorToken, parseJobTicketCode, parseOperatorToken } from "../lib/kioskTokens";
+import { completeJob, getTimerStateForJob, startJobTimer, stopJobTimer, type ProductionActor } from "./productionJobTimers";
+import { listJobOperations } from "./productionRoutings";
+import { queueProductionReschedule } from "./productionScheduling";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Shop-floor kiosk.
+ *
+ * The kiosk runs on a shared station login. Operators sign in on it with their badge barcode
+ * or a PIN (kept per organization membership) and get a short-lived signed operator token;
+ * scanning a job ticket with that token starts, pauses or completes the job's current
+ * operation as that operator, so the production events carry who did the work.
+ */
+
+const MAX_PIN_FAILURES = 5;
+const PIN_LOCKOUT_MS = 5 * 60 * 1000;
+// Badge misreads happen, so allow more of them, but within a window
+const MAX_BADGE_FAILURES = 10;
+const BADGE_FAILURE_WINDOW_MS = 5 * 60 * 1000;
+const MIN_BADGE_CODE_LENGTH = 8;
+
+export const KIOSK_ACTIONS = ["start", "pause", "complete"] as const;
+export type KioskAction = (typeof KIOSK_ACTIONS)[number];
+
+export const kioskCredentialsSchema = z.object({
+  // null clears; omitted leaves as is
+  pin: z.string().regex(/^\d{4,8}$/, "PIN must be 4 to 8 digits").nullable().optional(),
+  badgeCode: z
+    .string()
+    .trim()
+    .min(MIN_BADGE_CODE_LENGTH, `Badge code must be at least ${MIN_BADGE_CODE_LENGTH} characters`)
+    .max(64)
+    .nullable()
+    .optional(),
+});
+
+export const kioskIdentifySchema = z.union([
+  z.object({ badgeCode: z.string().trim().min(1).max(64) }),
+  z.object({ userId: z.string().min(1), pin: z.string().min(1).max(8) }),
+]);
+
+export const kioskScanSchema = z.object({
+  operatorToken: z.string().min(1),
+  code: z.string().trim().min(1).max(200),
+  action: z.enum(KIOSK_ACTIONS),
+});
+
+export type KioskOperator = { userId: string; name: string };
+
+export type ProductionOperator = KioskOperator & {
+  email: string | null;
+  role: string;
+  hasPin: boolean;
+  badgeCode: string | null;
+  laborRatePerHour: string | null;
+};
+
+function operatorName(user: { firstName: string | null; lastName: string | null; email: string | null }): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Operator";
+}
+
+// ── Operators and credentials ───────────────────────────────────────────────
+
+async function loadMembers(organizationId: string) {
+  return db
+    .select({
+      userId: users.id,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+      role: users.role,
+      kioskPinHash: userOrganizations.kioskPinHash,
+      kioskBadgeCode: userOrganizations.kioskBadgeCode,
+      laborRatePerHour: userOrganizations.laborRatePerHour,
+    })
+    .from(userOrganizations)
+    .innerJoin(users, eq(userOrganizations.userId, users.id))
+    .where(and(eq(userOrganizations.organizationId, organizationId), ne(users.role, "customer")))
+    .orderBy(asc(users.firstName), asc(users.lastName), asc(users.email));
+}
+
+/** Staff of the organization with their kiosk credential status (admin view; never the PIN). */
+export async function listProductionOperators(organizationId: string): Promise<ProductionOperator[]> {
+  const members = await loadMembers(organizationId);
+  return members.map((m) => ({
+    userId: m.userId,
+    name: operatorName(m),
+    email: m.email,
+    role: m.role,
+    hasPin: !!m.kioskPinHash,
+    badgeCode: m.kioskBadgeCode,
+    laborRatePerHour: m.laborRatePerHour,
+  }));
+}
+
+/** Operators that can sign in at the kiosk with a PIN, for the kiosk's name picker. */
+export async function listKioskOperators(organizationId: string): Promise<KioskOperator[]> {
+  const members = await loadMembers(organizationId);
+  return members.filter((m) => !!m.kioskPinHash).map((m) => ({ userId: m.userId, name: operatorName(m) }));
+}
+
+export async function setOperatorCredentials(
+  organizationId: string,
+  userId: string,
+  input: z.infer<typeof kioskCredentialsSchema>,
+): Promise<ProductionOperator> {
+  const [member] = (await loadMembers(organizationId)).filter((m) => m.userId === userId);
+  if (!member) throw httpError(404, "Operator not found in this organization");
+
+  const patch: Partial<typeof userOrganizations.$inferInsert> = { updatedAt: new Date() };
+  if (input.pin !== undefined) patch.kioskPinHash = input.pin === null ? null : await bcrypt.hash(input.pin, 10);
+  if (input.badgeCode !== undefined) {
+    if (input.badgeCode) {
+      const [taken] = await db
+        .select({ userId: userOrganizations.userId })
+        .from(userOrganizations)
+        .where(and(eq(userOrganizations.organizationId, organizationId), eq(userOrganizations.kioskBadgeCode, input.badgeCode)))
+        .limit(1);
+      if (taken && taken.userId !== userId) throw httpError(409, "That badge is already assigned to another operator");
+    }
+    patch.kioskBadgeCode = input.badgeCode;
+  }
+
+  await db
+    .update(userOrganizations)
+    .set(patch)
+    .where(and(eq(userOrganizations.organizationId, organizationId), eq(userOrganizations.userId, userId)));
+  pinFailures.delete(`${organizationId}:${userId}`);
+
+  const [updated] = (await listProductionOperators(organizationId)).filter((o) => o.userId === userId);
+  return updated;
+}
+
+// ── Sign-in ─────────────────────────────────────────────────────────────────
+
+// Failed PIN attempts per org:user; in memory, so a restart clears lockouts
+const pinFailures = new Map<string, { count: number; lockedUntil: number }>();
+
+// Unrecognized badges per org:station login. A good scan doesn't clear it, so an operator's own
+// badge can't be used to reset the count between guesses.
+const badgeFailures = new Map<string, { count: number; since: number; lockedUntil: number }>();
+
+export type KioskSession = { operator: KioskOperator; operatorToken: string; expiresAt: Date };
+
+/** `stationUserId` is the shared station login the kiosk runs under. */
+export async function identifyKioskOperator(
+  organizationId: string,
+  input: z.infer<typeof kioskIdentifySchema>,
+  stationUserId: string,
+): Promise<KioskSession> {
+  const members = await loadMembers(organizationId);
+
+  let member: (typeof members)[number] | undefined;
+  if ("badgeCode" in input) {
+    const key = `${organizationId}:${stationUserId}`;
+    const now = Date.now();
+    const failures = badgeFailures.get(key);
+    if (failures && failures.lockedUntil > now) {
+      throw httpError(429, "Too many unrecognized badges; try again in a few minutes");
+    }
+
+    member = members.find((m) => m.kioskBadgeCode === input.badgeCode);
+    if (!member) {
+      const current =
+        failures && now - failures.since < BADGE_FAILURE_WINDOW_MS
+          ? { ...failures, count: failures.count + 1 }
+          : { count: 1, since: now, lockedUntil: 0 };
+      badgeFailures.set(
+        key,
+        current.count >= MAX_BADGE_FAILURES ? { count: 0, since: now, lockedUntil: now + PIN_LOCKOUT_MS } : current
+      );
+      throw httpError(401, "Badge not recognized");
+    }
+  } else {
+    const key = `${organizationId}:${input.userId}`;
+    const failures = pinFailures.get(key);
+    if (failures && failures.lockedUntil > Date.now()) {
+      throw httpError(429, "Too many wrong PINs; try again in a few minutes");
+    }
+
+    member = members.find((m) => m.userId === input.userId);
+    const ok = !!member?.kioskPinHash && (await bcrypt.compare(input.pin, member.kioskPinHash));
+    if (!ok) {
+      const count = (failures?.count ?? 0) + 1;
+      pinFailures.set(key, { count, lockedUntil: count >= MAX_PIN_FAILURES ? Date.now() + PIN_LOCKOUT_MS : 0 });
+      throw httpError(401, "Wrong PIN");
+    }
+    pinFailures.delete(key);
+  }
+
+  const operator = { userId: member!.userId, name: operatorName(member!) };
+  const { token, expiresAt } = buildOperatorToken(organizationId, operator.userId);
+  return { operator, operatorToken: token, expiresAt };
+}
+
+async function requireOperator(organizationId: string, operatorToken: string): Promise<KioskOperator> {
+  const userId = parseOperatorToken(organizationId, operatorToken);
+  if (!userId) throw httpError(401, "Operator session expired; sign in again");
+  const member = (await loadMembers(organizationId)).find((m) => m.userId === userId);
+  if (!member) throw httpError(401, "Operator is no longer a member of this organization");
+  return { userId, name: operatorName(member) };
+}
+
+// ── Scanning ────────────────────────────────────────────────────────────────
+
+export type KioskJob = {
+  id: string;
+  orderNumber: string | null;
+  customerName: string | null;
+  description: string | null;
+  quantity: number | null;
+  stationKey: string;
+  stepKey: string;
+  status: string;
+  isRunning: boolean;
+  totalSeconds: number;
+  operation: { name: string; sequence: number; count: number } | null;
+};
+
+async function loadKioskJob(organizationId: string, jobId: string): Promise<KioskJob> {
+  const [row] = await db
+    .select({
+      id: productionJobs.id,
+      orderNumber: orders.orderNumber,
+      customerName: customers.companyName,
+      description: orderLineItems.description,
+      quantity: orderLineItems.quantity,
+      stationKey: productionJobs.stationKey,
+      stepKey: productionJobs.stepKey,
+      status: productionJobs.status,
+      totalSeconds: productionJobs.totalSeconds,
+    })
+    .from(productionJobs)
+    .innerJoin(orders, eq(productionJobs.orderId, orders.id))
+    .leftJoin(customers, eq(orders.customerId, customers.id))
+    .leftJoin(orderLineItems, eq(productionJobs.lineItemId, orderLineItems.id))
+    .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
+    .limit(1);
+  if (!row) throw httpError(404, "No production job for this ticket");
+
+  const timer = await getTimerStateForJob(organizationId, jobId);
+  const operations = (await listJobOperations(organizationId, jobId)).filter((op) => op.status !== "skipped");
+  const currentIndex = operations.findIndex((op) => op.status !== "done");
+
+  return {
+    ...row,
+    quantity: row.quantity == null ? null : Number(row.quantity),
+    isRunning: timer.isRunning,
+    operation:
+      currentIndex === -1
+        ? null
+        : { name: operations[currentIndex].name, sequence: currentIndex + 1, count: operations.length },
+  };
+}
+
+export type KioskScanResult = KioskSession & { action: KioskAction; job: KioskJob };
+
+/** Apply a kiosk action to the scanned job as the signed-in operator. */
+export async function kioskScan(organizationId: string, input: z.infer<typeof kioskScanSchema>): Promise<KioskScanResult> {
+  const operator = await requireOperator(organizationId, input.operatorToken);
+  const jobId = parseJobTicketCode(input.code);
+  const before = await loadKioskJob(organizationId, jobId);
+  const actor: ProductionActor = { userId: operator.userId, userName: `${operator.name} (kiosk)` };
+
+  if (input.action === "start") {
+    await startJobTimer(organizationId, jobId, actor);
+  } else if (input.action === "pause") {
+    if (!before.isRunning) throw httpError(400, "This job is not running");
+    await stopJobTimer(organizationId, jobId, actor);
+  } else {
+    if (before.status === "done") throw httpError(400, "This job is already complete");
+    if (before.status === "queued") throw httpError(400, "Start this job before completing it");
+    await completeJob(organizationId, jobId, { actor });
+    queueProductionReschedule(organizationId);
+  }
+
+  // Each scan extends the operator's session
+  const { token, expiresAt } = buildOperatorToken(organizationId, operator.userId);
+  return {
+    operator,
+    operatorToken: token,
+    expiresAt,
+    action: input.action,
+    job: await loadKioskJob(organizationId, jobId),
+  };
+}
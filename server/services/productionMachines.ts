@@ -0,0 +1,83 @@
+import { db } from "../db";
+import {
+  productionMachines,
+  type InsertProductionMachine,
+  type ProductionMachine,
+  type UpdateProductionMachine,
+} from "@shared/schema";
+import { and, asc, eq } from "drizzle-orm";
+import { queueProductionReschedule } from "./productionScheduling";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Production machines: the capacity behind each station (rate, setup time, shift calendar).
+ * Any change re-plans the shop so stored job slots match the machines that exist.
+ */
+
+export async function listProductionMachines(organizationId: string): Promise<ProductionMachine[]> {
+  return await db
+    .select()
+    .from(productionMachines)
+    .where(eq(productionMachines.organizationId, organizationId))
+    .orderBy(asc(productionMachines.stationKey), asc(productionMachines.name));
+}
+
+export async function createProductionMachine(organizationId: string, input: InsertProductionMachine): Promise<ProductionMachine> {
+  const [created] = await db
+    .insert(productionMachines)
+    .values({
+      organizationId,
+      stationKey: input.stationKey,
+      name: input.name,
+      throughputUnit: input.throughputUnit,
+      throughputRate: String(input.throughputRate),
+      setupMinutes: input.setupMinutes,
+      timezone: input.timezone || null,
+      workingHours: input.workingHours,
+      closedDates: input.closedDates,
+      isActive: input.isActive,
+    })
+    .returning();
+
+  queueProductionReschedule(organizationId);
+  return created;
+}
+
+export async function updateProductionMachine(
+  organizationId: string,
+  id: string,
+  input: UpdateProductionMachine
+): Promise<ProductionMachine> {
+  const [updated] = await db
+    .update(productionMachines)
+    .set({
+      ...(input.stationKey !== undefined ? { stationKey: input.stationKey } : {}),
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.throughputUnit !== undefined ? { throughputUnit: input.throughputUnit } : {}),
+      ...(input.throughputRate !== undefined ? { throughputRate: String(input.throughputRate) } : {}),
+      ...(input.setupMinutes !== undefined ? { setupMinutes: input.setupMinutes } : {}),
+      ...(input.timezone !== undefined ? { timezone: input.timezone || null } : {}),
+      ...(input.workingHours !== undefined ? { workingHours: input.workingHours } : {}),
+      ...(input.closedDates !== undefined ? { closedDates: input.closedDates } : {}),
+      ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+      updatedAt: new Date(),
+    })
+    .where(and(eq(productionMachines.organizationId, organizationId), eq(productionMachines.id, id)))
+    .returning();
+  if (!updated) throw httpError(404, "Machine not found");
+
+  queueProductionReschedule(organizationId);
+  return updated;
+}
+
+export async function deleteProductionMachine(organizationId: string, id: string): Promise<void> {
+  const deleted = await db
+    .delete(productionMachines)
+    .where(and(eq(productionMachines.organizationId, organizationId), eq(productionMachines.id, id)))
+    .returning({ id: productionMachines.id });
+  if (deleted.length === 0) throw httpError(404, "Machine not found");
+
+  // Jobs lose the machine via ON DELETE SET NULL; their slots are re-planned on what is left
+  queueProductionReschedule(organizationId);
+}
+
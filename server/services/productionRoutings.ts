@@ -0,0 +1,386 @@
+import { db } from "../db";
+import {
+  orderLineItems,
+  orders,
+  productTypes,
+  productionJobOperations,
+  productionJobs,
+  productionRoutings,
+  products,
+  type InsertProductionRouting,
+  type ProductionJobOperation,
+  type ProductionRouting,
+  type UpdateProductionRouting,
+} from "@shared/schema";
+import { and, asc, eq, inArray, notInArray } from "drizzle-orm";
+import {
+  currentJobOperation,
+  lineItemOptionValues,
+  resolveRoutingOperations,
+  type ResolvedRoutingOperation,
+} from "@shared/productionRouting";
+import { appendEvent } from "../productionHelpers";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Production routings: templates of ordered operations attached to products or product types,
+ * instantiated as operation rows on each new job. The job's stationKey/stepKey follow its
+ * current operation; completing an operation moves the job to the next station.
+ */
+
+export type ProductionRoutingWithAssignments = ProductionRouting & {
+  productIds: string[];
+  productTypeIds: string[];
+};
+
+export async function listProductionRoutings(organizationId: string): Promise<ProductionRoutingWithAssignments[]> {
+  const routings = await db
+    .select()
+    .from(productionRoutings)
+    .where(eq(productionRoutings.organizationId, organizationId))
+    .orderBy(asc(productionRoutings.name));
+  if (routings.length === 0) return [];
+
+  const ids = routings.map((r) => r.id);
+  const productRows = await db
+    .select({ id: products.id, routingId: products.productionRoutingId })
+    .from(products)
+    .where(and(eq(products.organizationId, organizationId), inArray(products.productionRoutingId, ids)));
+  const typeRows = await db
+    .select({ id: productTypes.id, routingId: productTypes.productionRoutingId })
+    .from(productTypes)
+    .where(and(eq(productTypes.organizationId, organizationId), inArray(productTypes.productionRoutingId, ids)));
+
+  return routings.map((routing) => ({
+    ...routing,
+    productIds: productRows.filter((p) => p.routingId === routing.id).map((p) => p.id),
+    productTypeIds: typeRows.filter((t) => t.routingId === routing.id).map((t) => t.id),
+  }));
+}
+
+/** Point the listed products and product types at the routing and detach the ones left out. */
+async function assignRouting(
+  tx: any,
+  organizationId: string,
+  routingId: string,
+  input: Pick<InsertProductionRouting, "productIds" | "productTypeIds">
+) {
+  if (input.productIds !== undefined) {
+    const ids = Array.from(new Set(input.productIds));
+    if (ids.length > 0) {
+      const found = await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(and(eq(products.organizationId, organizationId), inArray(products.id, ids)));
+      if (found.length !== ids.length) throw httpError(400, "Unknown product in routing assignment");
+    }
+    await tx
+      .update(products)
+      .set({ productionRoutingId: null })
+      .where(
+        and(
+          eq(products.organizationId, organizationId),
+          eq(products.productionRoutingId, routingId),
+          ids.length > 0 ? notInArray(products.id, ids) : undefined
+        )
+      );
+    if (ids.length > 0) {
+      await tx
+        .update(products)
+        .set({ productionRoutingId: routingId })
+        .where(and(eq(products.organizationId, organizationId), inArray(products.id, ids)));
+    }
+  }
+
+  if (input.productTypeIds !== undefined) {
+    const ids = Array.from(new Set(input.productTypeIds));
+    if (ids.length > 0) {
+      const found = await tx
+        .select({ id: productTypes.id })
+        .from(productTypes)
+        .where(and(eq(productTypes.organizationId, organizationId), inArray(productTypes.id, ids)));
+      if (found.length !== ids.length) throw httpError(400, "Unknown product type in routing assignment");
+    }
+    await tx
+      .update(productTypes)
+      .set({ productionRoutingId: null })
+      .where(
+        and(
+          eq(productTypes.organizationId, organizationId),
+          eq(productTypes.productionRoutingId, routingId),
+          ids.length > 0 ? notInArray(productTypes.id, ids) : undefined
+        )
+      );
+    if (ids.length > 0) {
+      await tx
+        .update(productTypes)
+        .set({ productionRoutingId: routingId })
+        .where(and(eq(productTypes.organizationId, organizationId), inArray(productTypes.id, ids)));
+    }
+  }
+}
+
+async function getRoutingWithAssignments(organizationId: string, id: string): Promise<ProductionRoutingWithAssignments> {
+  const routing = (await listProductionRoutings(organizationId)).find((r) => r.id === id);
+  if (!routing) throw httpError(404, "Routing not found");
+  return routing;
+}
+
+export async function createProductionRouting(
+  organizationId: string,
+  input: InsertProductionRouting
+): Promise<ProductionRoutingWithAssignments> {
+  const id = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(productionRoutings)
+      .values({
+        organizationId,
+        name: input.name,
+        description: input.description || null,
+        operations: input.operations,
+        isActive: input.isActive,
+      })
+      .returning({ id: productionRoutings.id });
+    await assignRouting(tx, organizationId, created.id, input);
+    return created.id;
+  });
+  return await getRoutingWithAssignments(organizationId, id);
+}
+
+/** Template edits apply to jobs created afterwards; existing jobs keep their operations. */
+export async function updateProductionRouting(
+  organizationId: string,
+  id: string,
+  input: UpdateProductionRouting
+): Promise<ProductionRoutingWithAssignments> {
+  await db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(productionRoutings)
+      .set({
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.description !== undefined ? { description: input.description || null } : {}),
+        ...(input.operations !== undefined ? { operations: input.operations } : {}),
+        ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(productionRoutings.organizationId, organizationId), eq(productionRoutings.id, id)))
+      .returning({ id: productionRoutings.id });
+    if (!updated) throw httpError(404, "Routing not found");
+    await assignRouting(tx, organizationId, id, input);
+  });
+  return await getRoutingWithAssignments(organizationId, id);
+}
+
+export async function deleteProductionRouting(organizationId: string, id: string): Promise<void> {
+  const deleted = await db
+    .delete(productionRoutings)
+    .where(and(eq(productionRoutings.organizationId, organizationId), eq(productionRoutings.id, id)))
+    .returning({ id: productionRoutings.id });
+  if (deleted.length === 0) throw httpError(404, "Routing not found");
+}
+
+export type ResolvedLineItemRouting = {
+  routingId: string;
+  routingName: string;
+  operations: ResolvedRoutingOperation[];
+};
+
+/**
+ * The routing a line item's job should follow: the product's, else its product type's, with
+ * option-gated operations resolved against the line item's selections. Null when there is no
+ * active routing or none of its operations apply (the job then uses status-rule routing).
+ */
+export async function resolveLineItemRouting(
+  tx: any,
+  organizationId: string,
+  lineItemId: string
+): Promise<ResolvedLineItemRouting | null> {
+  const [item] = await tx
+    .select({
+      selectedOptions: orderLineItems.selectedOptions,
+      pbv2SnapshotJson: orderLineItems.pbv2SnapshotJson,
+      productRoutingId: products.productionRoutingId,
+      productTypeId: products.productTypeId,
+    })
+    .from(orderLineItems)
+    .innerJoin(orders, eq(orderLineItems.orderId, orders.id))
+    .innerJoin(products, eq(orderLineItems.productId, products.id))
+    .where(and(eq(orders.organizationId, organizationId), eq(orderLineItems.id, lineItemId)))
+    .limit(1);
+  if (!item) return null;
+
+  let routingId: string | null = item.productRoutingId;
+  if (!routingId && item.productTypeId) {
+    const [type] = await tx
+      .select({ routingId: productTypes.productionRoutingId })
+      .from(productTypes)
+      .where(and(eq(productTypes.organizationId, organizationId), eq(productTypes.id, item.productTypeId)))
+      .limit(1);
+    routingId = type?.routingId ?? null;
+  }
+  if (!routingId) return null;
+
+  const [routing] = await tx
+    .select()
+    .from(productionRoutings)
+    .where(
+      and(
+        eq(productionRoutings.organizationId, organizationId),
+        eq(productionRoutings.id, routingId),
+        eq(productionRoutings.isActive, true)
+      )
+    )
+    .limit(1);
+  if (!routing) return null;
+
+  const operations = resolveRoutingOperations(routing.operations ?? [], lineItemOptionValues(item));
+  if (operations.length === 0) return null;
+  return { routingId: routing.id, routingName: routing.name, operations };
+}
+
+/** Store a new job's resolved operations; the first is current. */
+export async function createJobOperations(
+  tx: any,
+  args: { organizationId: string; productionJobId: string; routing: ResolvedLineItemRouting }
+): Promise<void> {
+  await tx.insert(productionJobOperations).values(
+    args.routing.operations.map((op) => ({
+      organizationId: args.organizationId,
+      productionJobId: args.productionJobId,
+      routingId: args.routing.routingId,
+      sequence: op.sequence,
+      operationKey: op.key,
+      name: op.name,
+      stationKey: op.stationKey,
+      setupMinutes: op.setupMinutes,
+      runRate: op.runRate === null ? null : String(op.runRate),
+      runRateUnit: op.runRateUnit,
+      status: "queued" as const,
+    }))
+  );
+}
+
+export async function listJobOperations(organizationId: string, productionJobId: string, tx: any = db): Promise<ProductionJobOperation[]> {
+  return await tx
+    .select()
+    .from(productionJobOperations)
+    .where(
+      and(
+        eq(productionJobOperations.organizationId, organizationId),
+        eq(productionJobOperations.productionJobId, productionJobId)
+      )
+    )
+    .orderBy(asc(productionJobOperations.sequence));
+}
+
+/** Mark the job's current operation started (first timer start or move to in progress). */
+export async function startJobOperation(tx: any, organizationId: string, productionJobId: string, now: Date): Promise<void> {
+  const current = currentJobOperation(await listJobOperations(organizationId, productionJobId, tx));
+  if (!current || current.status === "in_progress") return;
+  await tx
+    .update(productionJobOperations)
+    .set({ status: "in_progress", startedAt: current.startedAt ?? now, updatedAt: now })
+    .where(eq(productionJobOperations.id, current.id));
+}
+
+export type JobOperationAdvance = {
+  completed: ProductionJobOperation;
+  next: ProductionJobOperation | null;
+};
+
+/**
+ * Complete the job's current operation, booking the timer seconds logged since the previous
+ * one. When another operation follows, the job moves to its station and step as queued (and
+ * off its machine, for the scheduler to place) and `next` is returned; the caller finishes
+ * the job otherwise. `skipRemaining` marks every later operation skipped. Null for jobs
+ * without a routing.
+ */
+export async function completeJobOperation(
+  tx: any,
+  args: {
+    organizationId: string;
+    productionJobId: string;
+    jobTotalSeconds: number;
+    now: Date;
+    skipRemaining?: boolean;
+    operatorUserId?: string | null;
+  }
+): Promise<JobOperationAdvance | null> {
+  const { organizationId, productionJobId, now } = args;
+  const operations = await listJobOperations(organizationId, productionJobId, tx);
+  const current = currentJobOperation(operations);
+  if (!current) return null;
+
+  const bookedSeconds = operations
+    .filter((op) => op.id !== current.id && op.status === "done")
+    .reduce((sum, op) => sum + op.totalSeconds, 0);
+  const [completed] = await tx
+    .update(productionJobOperations)
+    .set({
+      status: "done",
+      startedAt: current.startedAt ?? now,
+      completedAt: now,
+      totalSeconds: Math.max(0, args.jobTotalSeconds - bookedSeconds),
+      updatedAt: now,
+    })
+    .where(eq(productionJobOperations.id, current.id))
+    .returning();
+
+  const later = operations.filter((op) => op.sequence > current.sequence && op.status === "queued");
+  if (args.skipRemaining && later.length > 0) {
+    await tx
+      .update(productionJobOperations)
+      .set({ status: "skipped", updatedAt: now })
+      .where(inArray(productionJobOperations.id, later.map((op) => op.id)));
+  }
+  const next = args.skipRemaining ? null : later[0] ?? null;
+
+  await appendEvent({
+    tx,
+    organizationId,
+    productionJobId,
+    type: "operation_completed",
+    payload: {
+      operationKey: completed.operationKey,
+      stationKey: completed.stationKey,
+      seconds: completed.totalSeconds,
+      next: next ? { operationKey: next.operationKey, stationKey: next.stationKey } : null,
+      skippedRemaining: args.skipRemaining ? later.length : 0,
+    },
+    operatorUserId: args.operatorUserId,
+  });
+
+  if (next) {
+    await tx
+      .update(productionJobs)
+      .set({
+        stationKey: next.stationKey,
+        stepKey: next.operationKey,
+        status: "queued",
+        machineId: null,
+        plannedStartAt: null,
+        scheduleSequence: null,
+        scheduleConflict: false,
+        updatedAt: now,
+      })
+      .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, productionJobId)));
+  }
+
+  return { completed, next };
+}
+
+/** Reopening a finished job reopens its last completed operation. */
+export async function reopenJobOperation(tx: any, organizationId: string, productionJobId: string, now: Date): Promise<void> {
+  const operations = await listJobOperations(organizationId, productionJobId, tx);
+  const done = operations.filter((op) => op.status === "done");
+  if (done.length === 0) return;
+  const last = done[done.length - 1];
+  await tx
+    .update(productionJobOperations)
+    .set({ status: "in_progress", completedAt: null, updatedAt: now })
+    .where(eq(productionJobOperations.id, last.id));
+  await tx
+    .update(productionJobs)
+    .set({ stationKey: last.stationKey, stepKey: last.operationKey })
+    .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, productionJobId)));
+}
@@ -1,6 +1,19 @@
 import { db } from "../db";
-import { orderLineItems, products, productionJobs, productionEvents, orders, materials } from "@shared/schema";
-import { eq, and, inArray } from "drizzle-orm";
+import { orderLineItems, products, productionJobs, productionEvents, orders, materials, customers, organizations, productionMachines, productionJobOperations, type MoveScheduledJob } from "@shared/schema";
+import { eq, and, inArray, asc, isNotNull, sql } from "drizzle-orm";
+import { planImposition } from "@shared/imposition";
+import {
+  lineItemWork,
+  planProductionSchedule,
+  productionDeadline,
+  type CapacityMachine,
+  type JobWork,
+  type SchedulableJob,
+} from "@shared/productionCapacity";
+import { currentJobOperation } from "@shared/productionRouting";
+import { readFlatGoodsSheet } from "./imposition";
+import { createJobOperations, resolveLineItemRouting } from "./productionRoutings";
+import { httpError } from "../lib/httpErrors";
 
 /**
  * scheduleOrderLineItemsForProduction
@@ -22,7 +35,7 @@ export async function scheduleOrderLineItemsForProduction(args: {
   orderId: string;
   lineItemIds?: string[];
   loadRoutingRules: (orgId: string) => Promise<{ source: string; rules: any[] }>;
-  appendEvent: (args: { tx: any; organizationId: string; productionJobId: string; type: "intake" | "routing_override" | "timer_started" | "timer_stopped" | "note" | "reprint_incremented" | "media_used_set"; payload?: any }) => Promise<void>;
+  appendEvent: (args: { tx: any; organizationId: string; productionJobId: string; type: "intake" | "routing_override" | "timer_started" | "timer_stopped" | "note" | "reprint_incremented" | "media_used_set" | "operation_completed"; payload?: any }) => Promise<void>;
 }): Promise<{
   success: boolean;
   data: {
@@ -39,7 +52,7 @@ export async function scheduleOrderLineItemsForProduction(args: {
     console.log(`[ProductionScheduling] Starting schedule for orderId=${orderId}, targetLineItems=${lineItemIds?.length ?? 'ALL'}`);
   }
 
-  return await db.transaction(async (tx) => {
+  const result = await db.transaction(async (tx) => {
     // Load order to verify it exists and belongs to this org
     const [orderRecord] = await tx
       .select({ id: orders.id })
@@ -195,6 +208,14 @@ export async function scheduleOrderLineItemsForProduction(args: {
         }
       }
 
+      // A product routing (multi-step) decides station and step from its first operation
+      const routed = await resolveLineItemRouting(tx, organizationId, item.lineItemId);
+      if (routed) {
+        stationKey = routed.operations[0].stationKey;
+        stepKey = routed.operations[0].key;
+        usedDefaults = false;
+      }
+
       // Create production job
       const [inserted] = await tx
         .insert(productionJobs)
@@ -209,6 +230,10 @@ export async function scheduleOrderLineItemsForProduction(args: {
         })
         .returning({ id: productionJobs.id });
 
+      if (routed) {
+        await createJobOperations(tx, { organizationId, productionJobId: inserted.id, routing: routed });
+      }
+
       // Log intake event
       await appendEvent({
         tx,
@@ -222,6 +247,7 @@ export async function scheduleOrderLineItemsForProduction(args: {
           stepKey,
           source: "bulk_schedule",
           usedDefaultRouting: usedDefaults,
+          routingId: routed?.routingId ?? null,
         },
       });
 
@@ -263,4 +289,384 @@ export async function scheduleOrderLineItemsForProduction(args: {
       message,
     };
   });
+
+  // New jobs take capacity; re-plan the shop so they get slots (fail-soft)
+  if (result.data.createdJobCount > 0) {
+    queueProductionReschedule(organizationId);
+  }
+
+  return result;
+}
+
+// ============================================================
+// Capacity scheduling (machines, calendars, start/finish slots)
+// ============================================================
+
+export type ProductionScheduleRun = {
+  ranAt: string;
+  scheduledCount: number;
+  lateCount: number;
+  conflictCount: number;
+  unscheduled: Array<{ jobId: string; reason: string }>;
+};
+
+async function loadOrganizationTimeZone(organizationId: string): Promise<string> {
+  const [org] = await db
+    .select({ settings: organizations.settings })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+  return org?.settings?.timezone || "UTC";
+}
+
+async function loadCapacityMachines(organizationId: string, fallbackTimeZone: string): Promise<CapacityMachine[]> {
+  const rows = await db
+    .select()
+    .from(productionMachines)
+    .where(and(eq(productionMachines.organizationId, organizationId), eq(productionMachines.isActive, true)))
+    .orderBy(asc(productionMachines.name));
+
+  return rows.map((m) => ({
+    id: m.id,
+    stationKey: m.stationKey,
+    throughputUnit: m.throughputUnit,
+    throughputRate: Number(m.throughputRate),
+    setupMinutes: m.setupMinutes,
+    timezone: m.timezone || fallbackTimeZone,
+    workingHours: m.workingHours ?? [],
+    closedDates: m.closedDates ?? [],
+  }));
+}
+
+/** Press sheets for a line item when its product has a sheet size; otherwise one per piece. */
+function impositionSheets(item: { widthIn: number; heightIn: number; quantity: number; sheet: ReturnType<typeof readFlatGoodsSheet> }): number | null {
+  if (!item.sheet || !(item.widthIn > 0) || !(item.heightIn > 0)) return null;
+  const plan = planImposition({
+    sheetWidthIn: item.sheet.sheetWidthIn,
+    sheetHeightIn: item.sheet.sheetHeightIn,
+    allowRotation: item.sheet.allowRotation,
+    trimWidthIn: item.widthIn,
+    trimHeightIn: item.heightIn,
+    mode: "step_and_repeat",
+    quantity: item.quantity,
+  });
+  return plan.totalSheets > 0 ? plan.totalSheets : null;
+}
+
+/**
+ * Re-plan every open production job onto the organization's machines and store each job's
+ * machine, estimate and start/finish slot. Jobs that cannot be placed have their slot cleared.
+ */
+export async function rescheduleProduction(organizationId: string, now = new Date()): Promise<ProductionScheduleRun> {
+  const timeZone = await loadOrganizationTimeZone(organizationId);
+  const machines = await loadCapacityMachines(organizationId, timeZone);
+
+  const rows = await db
+    .select({
+      id: productionJobs.id,
+      stationKey: productionJobs.stationKey,
+      status: productionJobs.status,
+      totalSeconds: productionJobs.totalSeconds,
+      machineId: productionJobs.machineId,
+      estimatedMinutes: productionJobs.estimatedMinutes,
+      scheduledStartAt: productionJobs.scheduledStartAt,
+      scheduledEndAt: productionJobs.scheduledEndAt,
+      scheduledLate: productionJobs.scheduledLate,
+      scheduleConflict: productionJobs.scheduleConflict,
+      plannedStartAt: productionJobs.plannedStartAt,
+      scheduleSequence: productionJobs.scheduleSequence,
+      createdAt: productionJobs.createdAt,
+      priority: orders.priority,
+      productionDueDate: orders.productionDueDate,
+      width: orderLineItems.width,
+      height: orderLineItems.height,
+      quantity: orderLineItems.quantity,
+      sqft: orderLineItems.sqft,
+      pricingProfileConfig: products.pricingProfileConfig,
+      sheetWidth: products.sheetWidth,
+      sheetHeight: products.sheetHeight,
+    })
+    .from(productionJobs)
+    .innerJoin(orders, eq(productionJobs.orderId, orders.id))
+    .leftJoin(orderLineItems, eq(productionJobs.lineItemId, orderLineItems.id))
+    .leftJoin(products, eq(orderLineItems.productId, products.id))
+    .where(and(eq(productionJobs.organizationId, organizationId), inArray(productionJobs.status, ["queued", "in_progress"])));
+
+  // Routed jobs are estimated at their current operation's rate, with time booked on earlier operations taken off
+  const operationRows =
+    rows.length > 0
+      ? await db
+          .select({
+            productionJobId: productionJobOperations.productionJobId,
+            sequence: productionJobOperations.sequence,
+            status: productionJobOperations.status,
+            setupMinutes: productionJobOperations.setupMinutes,
+            runRate: productionJobOperations.runRate,
+            runRateUnit: productionJobOperations.runRateUnit,
+            totalSeconds: productionJobOperations.totalSeconds,
+          })
+          .from(productionJobOperations)
+          .where(
+            and(
+              eq(productionJobOperations.organizationId, organizationId),
+              inArray(productionJobOperations.productionJobId, rows.map((r) => r.id))
+            )
+          )
+      : [];
+
+  const operationsByJob = new Map<string, typeof operationRows>();
+  for (const op of operationRows) {
+    const list = operationsByJob.get(op.productionJobId);
+    if (list) list.push(op);
+    else operationsByJob.set(op.productionJobId, [op]);
+  }
+
+  const jobs: SchedulableJob[] = rows.map((row) => {
+    const operations = operationsByJob.get(row.id) ?? [];
+    const current = currentJobOperation(operations);
+    const bookedSeconds = operations.filter((op) => op.status === "done").reduce((sum, op) => sum + op.totalSeconds, 0);
+    const widthIn = Number(row.width) || 0;
+    const heightIn = Number(row.height) || 0;
+    const quantity = row.quantity ?? 1;
+    const sheet =
+      readFlatGoodsSheet(row.pricingProfileConfig) ?? readFlatGoodsSheet({ sheetWidth: row.sheetWidth, sheetHeight: row.sheetHeight });
+    const work: JobWork = lineItemWork({
+      widthIn,
+      heightIn,
+      quantity,
+      sqft: row.sqft === null ? null : Number(row.sqft),
+      sheets: impositionSheets({ widthIn, heightIn, quantity, sheet }),
+    });
+    return {
+      id: row.id,
+      stationKey: row.stationKey,
+      status: row.status === "in_progress" ? "in_progress" : "queued",
+      work,
+      elapsedMinutes: Math.max(0, (Number(row.totalSeconds) || 0) - bookedSeconds) / 60,
+      priority: row.priority,
+      dueAt: productionDeadline(row.productionDueDate, timeZone),
+      createdAt: row.createdAt,
+      machineId: row.machineId,
+      plannedStartAt: row.plannedStartAt,
+      sequence: row.scheduleSequence,
+      operation: current
+        ? {
+            setupMinutes: current.setupMinutes,
+            throughputUnit: current.runRateUnit,
+            throughputRate: current.runRate === null ? null : Number(current.runRate),
+          }
+        : null,
+    };
+  });
+
+  const slots = planProductionSchedule({ machines, jobs, now });
+
+  // Most jobs keep their slot from one run to the next; only write the ones that moved
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  const changedSlots = slots.filter((slot) => {
+    const row = rowsById.get(slot.jobId);
+    return (
+      !row ||
+      row.machineId !== slot.machineId ||
+      row.estimatedMinutes !== slot.estimatedMinutes ||
+      row.scheduledStartAt?.getTime() !== slot.startAt?.getTime() ||
+      row.scheduledEndAt?.getTime() !== slot.endAt?.getTime() ||
+      row.scheduledLate !== slot.late ||
+      row.scheduleConflict !== slot.conflict
+    );
+  });
+
+  await db.transaction(async (tx) => {
+    for (const slot of changedSlots) {
+      await tx
+        .update(productionJobs)
+        .set({
+          machineId: slot.machineId,
+          estimatedMinutes: slot.estimatedMinutes,
+          scheduledStartAt: slot.startAt,
+          scheduledEndAt: slot.endAt,
+          scheduledLate: slot.late,
+          scheduleConflict: slot.conflict,
+        })
+        .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, slot.jobId)));
+    }
+  });
+
+  return {
+    ranAt: now.toISOString(),
+    scheduledCount: slots.filter((s) => s.machineId !== null).length,
+    lateCount: slots.filter((s) => s.late).length,
+    conflictCount: slots.filter((s) => s.conflict).length,
+    unscheduled: slots.filter((s) => s.machineId === null).map((s) => ({ jobId: s.jobId, reason: s.reason ?? "Not scheduled" })),
+  };
+}
+
+// Orgs with a background reschedule queued or running. Requests while one is queued share it;
+// requests while one is running get one more pass after it.
+const queuedReschedules = new Map<string, { running: boolean; rerun: boolean }>();
+
+async function runQueuedReschedule(organizationId: string): Promise<void> {
+  const state = queuedReschedules.get(organizationId)!;
+  state.running = true;
+  try {
+    await rescheduleProduction(organizationId);
+  } catch (error) {
+    console.error(`[ProductionScheduling] Reschedule failed for org ${organizationId}:`, error);
+  }
+  queuedReschedules.delete(organizationId);
+  if (state.rerun) queueProductionReschedule(organizationId);
+}
+
+/**
+ * rescheduleProduction for side paths (job created/completed, machine edited): runs after the
+ * response on setImmediate and never throws.
+ */
+export function queueProductionReschedule(organizationId: string): void {
+  const state = queuedReschedules.get(organizationId);
+  if (state) {
+    if (state.running) state.rerun = true;
+    return;
+  }
+  queuedReschedules.set(organizationId, { running: false, rerun: false });
+  setImmediate(() => void runQueuedReschedule(organizationId));
+}
+
+export type ProductionScheduleEntry = {
+  jobId: string;
+  orderId: string;
+  orderNumber: string;
+  customerName: string | null;
+  lineItemId: string | null;
+  description: string | null;
+  stationKey: string;
+  status: string;
+  priority: string;
+  productionDueDate: string | null;
+  machineId: string | null;
+  estimatedMinutes: number | null;
+  scheduledStartAt: Date | null;
+  scheduledEndAt: Date | null;
+  scheduledLate: boolean;
+  plannedStartAt: Date | null;
+  scheduleSequence: number | null;
+  /** When the production due date is met (date-only due dates mean end of that day). */
+  dueAt: Date | null;
+  /** Placed on the board but cannot start at the planned time. */
+  scheduleConflict: boolean;
+};
+
+/** Stored schedule of open jobs, soonest start first (unscheduled last), with the org's machines. */
+export async function getProductionSchedule(organizationId: string) {
+  const timeZone = await loadOrganizationTimeZone(organizationId);
+  const machines = await db
+    .select()
+    .from(productionMachines)
+    .where(eq(productionMachines.organizationId, organizationId))
+    .orderBy(asc(productionMachines.stationKey), asc(productionMachines.name));
+
+  const rows = await db
+    .select({
+      jobId: productionJobs.id,
+      orderId: productionJobs.orderId,
+      orderNumber: orders.orderNumber,
+      customerName: customers.companyName,
+      lineItemId: productionJobs.lineItemId,
+      description: orderLineItems.description,
+      stationKey: productionJobs.stationKey,
+      status: productionJobs.status,
+      priority: orders.priority,
+      productionDueDate: orders.productionDueDate,
+      machineId: productionJobs.machineId,
+      estimatedMinutes: productionJobs.estimatedMinutes,
+      scheduledStartAt: productionJobs.scheduledStartAt,
+      scheduledEndAt: productionJobs.scheduledEndAt,
+      scheduledLate: productionJobs.scheduledLate,
+      plannedStartAt: productionJobs.plannedStartAt,
+      scheduleSequence: productionJobs.scheduleSequence,
+      scheduleConflict: productionJobs.scheduleConflict,
+    })
+    .from(productionJobs)
+    .innerJoin(orders, eq(productionJobs.orderId, orders.id))
+    .leftJoin(customers, eq(orders.customerId, customers.id))
+    .leftJoin(orderLineItems, eq(productionJobs.lineItemId, orderLineItems.id))
+    .where(and(eq(productionJobs.organizationId, organizationId), inArray(productionJobs.status, ["queued", "in_progress"])))
+    .orderBy(asc(productionJobs.scheduledStartAt), asc(productionJobs.createdAt));
+
+  const jobs: ProductionScheduleEntry[] = rows.map((row) => ({
+    ...row,
+    dueAt: productionDeadline(row.productionDueDate, timeZone),
+  }));
+
+  return {
+    machines,
+    jobs,
+    lateCount: jobs.filter((j) => j.scheduledLate).length,
+    conflictCount: jobs.filter((j) => j.scheduleConflict).length,
+  };
+}
+
+/**
+ * Place a job from the schedule board: pin it to a machine on its station with a planned
+ * start, or (plannedStartAt null) hand it back to the scheduler. Placed jobs on the machine
+ * are renumbered in start order, the moved job after others planned for the same time.
+ */
+export async function moveScheduledJob(
+  organizationId: string,
+  jobId: string,
+  input: MoveScheduledJob
+): Promise<ProductionScheduleRun> {
+  await db.transaction(async (tx) => {
+    const [job] = await tx
+      .select({ id: productionJobs.id, status: productionJobs.status, stationKey: productionJobs.stationKey })
+      .from(productionJobs)
+      .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)))
+      .limit(1);
+    if (!job) throw httpError(404, "Production job not found");
+    if (job.status !== "queued") throw httpError(409, "Only queued jobs can be moved; running jobs stay on their machine");
+
+    if (input.plannedStartAt === null) {
+      await tx
+        .update(productionJobs)
+        .set({ plannedStartAt: null, scheduleSequence: null, updatedAt: new Date() })
+        .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
+      return;
+    }
+
+    const [machine] = await tx
+      .select({ id: productionMachines.id, stationKey: productionMachines.stationKey, isActive: productionMachines.isActive })
+      .from(productionMachines)
+      .where(and(eq(productionMachines.organizationId, organizationId), eq(productionMachines.id, input.machineId)))
+      .limit(1);
+    if (!machine) throw httpError(404, "Machine not found");
+    if (!machine.isActive) throw httpError(409, "Machine is inactive");
+    if (machine.stationKey !== job.stationKey) {
+      throw httpError(409, `Job is routed to station "${job.stationKey}"; change its routing to move it to "${machine.stationKey}"`);
+    }
+
+    await tx
+      .update(productionJobs)
+      .set({ machineId: machine.id, plannedStartAt: input.plannedStartAt, scheduleSequence: null, updatedAt: new Date() })
+      .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, jobId)));
+
+    const placed = await tx
+      .select({ id: productionJobs.id })
+      .from(productionJobs)
+      .where(
+        and(
+          eq(productionJobs.organizationId, organizationId),
+          eq(productionJobs.machineId, machine.id),
+          eq(productionJobs.status, "queued"),
+          isNotNull(productionJobs.plannedStartAt)
+        )
+      )
+      .orderBy(asc(productionJobs.plannedStartAt), sql`${productionJobs.scheduleSequence} ASC NULLS LAST`);
+    for (let i = 0; i < placed.length; i++) {
+      await tx
+        .update(productionJobs)
+        .set({ scheduleSequence: i + 1 })
+        .where(and(eq(productionJobs.organizationId, organizationId), eq(productionJobs.id, placed[i].id)));
+    }
+  });
+
+  return await rescheduleProduction(organizationId);
 }
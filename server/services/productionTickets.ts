@@ -0,0 +1,77 @@
+import { db } from "../db";
+import { customers, orderLineItems, orders, productionJobOperations, productionJobs } from "@shared/schema";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { renderJobTicketsPdf, type JobTicket } from "../lib/jobTicketsPdf";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Printable job tickets for the shop-floor kiosk.
+ *
+ * Loads each job's order, customer, line item and routing steps and renders them as ticket pages
+ * (layout in ../lib/jobTicketsPdf). The ticket's barcode is what the kiosk scans to start, pause
+ * or complete the job; it travels with the work from station to station.
+ */
+
+export const MAX_TICKETS_PER_PDF = 200;
+
+export async function loadJobTickets(organizationId: string, jobIds: string[]): Promise<JobTicket[]> {
+  const ids = Array.from(new Set(jobIds.filter(Boolean)));
+  if (ids.length === 0) throw httpError(400, "No production jobs selected");
+  if (ids.length > MAX_TICKETS_PER_PDF) throw httpError(400, `At most ${MAX_TICKETS_PER_PDF} tickets can be printed at once`);
+
+  const rows = await db
+    .select({
+      jobId: productionJobs.id,
+      orderNumber: orders.orderNumber,
+      customerName: customers.companyName,
+      description: orderLineItems.description,
+      quantity: orderLineItems.quantity,
+      dueDate: orders.dueDate,
+      priority: orders.priority,
+      stationKey: productionJobs.stationKey,
+      stepKey: productionJobs.stepKey,
+    })
+    .from(productionJobs)
+    .innerJoin(orders, eq(productionJobs.orderId, orders.id))
+    .leftJoin(customers, eq(orders.customerId, customers.id))
+    .leftJoin(orderLineItems, eq(productionJobs.lineItemId, orderLineItems.id))
+    .where(and(eq(productionJobs.organizationId, organizationId), inArray(productionJobs.id, ids)));
+  if (rows.length === 0) throw httpError(404, "Production job not found");
+
+  const operationRows = await db
+    .select({
+      productionJobId: productionJobOperations.productionJobId,
+      sequence: productionJobOperations.sequence,
+      name: productionJobOperations.name,
+      stationKey: productionJobOperations.stationKey,
+      status: productionJobOperations.status,
+    })
+    .from(productionJobOperations)
+    .where(and(eq(productionJobOperations.organizationId, organizationId), inArray(productionJobOperations.productionJobId, ids)))
+    .orderBy(asc(productionJobOperations.sequence));
+
+  // Requested order, so a batch prints the way the list showed it
+  const byId = new Map(rows.map((row) => [row.jobId, row]));
+  return ids
+    .filter((id) => byId.has(id))
+    .map((id) => {
+      const row = byId.get(id)!;
+      return {
+        ...row,
+        quantity: row.quantity == null ? null : Number(row.quantity),
+        operations: operationRows
+          .filter((op) => op.productionJobId === id)
+          .map(({ productionJobId: _jobId, ...op }) => op),
+      };
+    });
+}
+
+export async function renderProductionTicketsPdf(
+  organizationId: string,
+  jobIds: string[],
+): Promise<{ bytes: Uint8Array; fileBase: string }> {
+  const tickets = await loadJobTickets(organizationId, jobIds);
+  const bytes = await renderJobTicketsPdf(tickets);
+  const fileBase = tickets.length === 1 ? `job-ticket-${tickets[0].orderNumber}` : `job-tickets-${tickets.length}`;
+  return { bytes, fileBase: fileBase.replace(/[^A-Za-z0-9._-]/g, "_") };
+}
@@ -0,0 +1,536 @@
+import { db } from "../db";
+import {
+  customers,
+  discountLines,
+  orders,
+  organizations,
+  products,
+  promotions,
+  quoteLineItems,
+  quotes,
+  type DiscountLine,
+  type InsertPromotion,
+  type Promotion,
+  type UpdatePromotion,
+} from "@shared/schema";
+import {
+  evaluatePromotion,
+  normalizePromotionCode,
+  type PromotionEvaluation,
+  type PromotionLine,
+} from "@shared/promotions";
+import { calculateQuoteOrderTotals, getOrganizationTaxSettings } from "../quoteOrderPricing";
+import { and, asc, desc, eq, inArray, ne, sql } from "drizzle-orm";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Promotions / coupon codes.
+ *
+ * A promotion applied to a quote becomes a discount line on that quote. Discount lines are
+ * re-evaluated whenever they are read (line items, dates and usage change underneath them),
+ * copied onto the order when the quote converts and from the order onto its invoice.
+ * A redemption is an order carrying the promotion's discount line; canceled orders give theirs back.
+ */
+
+/** Orders that count as redemptions: not canceled (legacy status or workflow state). */
+const redeemingOrder = () => and(ne(orders.status, "canceled"), ne(orders.state, "canceled"));
+
+export type PromotionWithUsage = Promotion & { redemptionCount: number };
+
+export type QuoteDiscountLinesResult = {
+  discountLines: DiscountLine[];
+  /** Lines dropped during re-evaluation, with the reason shown to the user. */
+  removed: Array<{ code: string | null; reason: string }>;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Promotion definitions
+// ────────────────────────────────────────────────────────────────────────────
+
+export async function listPromotions(organizationId: string): Promise<PromotionWithUsage[]> {
+  const rows = await db.select().from(promotions).where(eq(promotions.organizationId, organizationId)).orderBy(desc(promotions.createdAt));
+  if (rows.length === 0) return [];
+
+  const usage = await db
+    .select({
+      promotionId: discountLines.promotionId,
+      count: sql<number>`count(distinct ${discountLines.orderId})::int`,
+    })
+    .from(discountLines)
+    .innerJoin(orders, eq(orders.id, discountLines.orderId))
+    .where(
+      and(
+        eq(discountLines.organizationId, organizationId),
+        redeemingOrder(),
+        inArray(
+          discountLines.promotionId,
+          rows.map((r) => r.id)
+        )
+      )
+    )
+    .groupBy(discountLines.promotionId);
+  const usageById = new Map(usage.map((u) => [u.promotionId, Number(u.count)]));
+
+  return rows.map((row) => ({ ...row, redemptionCount: usageById.get(row.id) ?? 0 }));
+}
+
+function toPromotionValues(input: Partial<InsertPromotion>) {
+  return {
+    ...(input.code !== undefined ? { code: normalizePromotionCode(input.code) } : {}),
+    ...(input.name !== undefined ? { name: input.name } : {}),
+    ...(input.description !== undefined ? { description: input.description } : {}),
+    ...(input.discountType !== undefined ? { discountType: input.discountType } : {}),
+    ...(input.discountValue !== undefined ? { discountValue: String(input.discountValue) } : {}),
+    ...(input.optionName !== undefined ? { optionName: input.optionName || null } : {}),
+    ...(input.productTypeIds !== undefined ? { productTypeIds: input.productTypeIds } : {}),
+    ...(input.customerTiers !== undefined ? { customerTiers: input.customerTiers } : {}),
+    ...(input.minSubtotal !== undefined ? { minSubtotal: input.minSubtotal == null ? null : String(input.minSubtotal) } : {}),
+    ...(input.minQuantity !== undefined ? { minQuantity: input.minQuantity } : {}),
+    ...(input.startsAt !== undefined ? { startsAt: input.startsAt } : {}),
+    ...(input.endsAt !== undefined ? { endsAt: input.endsAt } : {}),
+    ...(input.maxRedemptions !== undefined ? { maxRedemptions: input.maxRedemptions } : {}),
+    ...(input.maxRedemptionsPerCustomer !== undefined ? { maxRedemptionsPerCustomer: input.maxRedemptionsPerCustomer } : {}),
+    ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+  };
+}
+
+async function assertCodeAvailable(organizationId: string, code: string, exceptId?: string) {
+  const [existing] = await db
+    .select({ id: promotions.id })
+    .from(promotions)
+    .where(
+      and(
+        eq(promotions.organizationId, organizationId),
+        eq(promotions.code, code),
+        ...(exceptId ? [ne(promotions.id, exceptId)] : [])
+      )
+    )
+    .limit(1);
+  if (existing) throw httpError(409, `Promotion code ${code} already exists`);
+}
+
+export async function createPromotion(organizationId: string, input: InsertPromotion, userId: string | null): Promise<Promotion> {
+  const code = normalizePromotionCode(input.code);
+  await assertCodeAvailable(organizationId, code);
+
+  const [created] = await db
+    .insert(promotions)
+    .values({
+      organizationId,
+      code,
+      name: input.name,
+      discountType: input.discountType,
+      ...toPromotionValues(input),
+      createdByUserId: userId,
+      updatedByUserId: userId,
+    })
+    .returning();
+  return created;
+}
+
+export async function updatePromotion(
+  organizationId: string,
+  id: string,
+  input: UpdatePromotion,
+  userId: string | null
+): Promise<Promotion | null> {
+  const [existing] = await db
+    .select()
+    .from(promotions)
+    .where(and(eq(promotions.organizationId, organizationId), eq(promotions.id, id)))
+    .limit(1);
+  if (!existing) return null;
+
+  if (input.code !== undefined) await assertCodeAvailable(organizationId, normalizePromotionCode(input.code), id);
+
+  const discountType = input.discountType ?? existing.discountType;
+  const optionName = input.optionName !== undefined ? input.optionName : existing.optionName;
+  if (discountType === "FREE_OPTION" && !optionName) throw httpError(400, "Option name is required for free option promotions");
+  const discountValue = input.discountValue ?? Number(existing.discountValue);
+  if (discountType === "PERCENT_OFF" && discountValue > 100) throw httpError(400, "Percent off cannot exceed 100");
+  const startsAt = input.startsAt !== undefined ? input.startsAt : existing.startsAt;
+  const endsAt = input.endsAt !== undefined ? input.endsAt : existing.endsAt;
+  if (startsAt && endsAt && endsAt.getTime() <= startsAt.getTime()) throw httpError(400, "End must be after start");
+
+  const [updated] = await db
+    .update(promotions)
+    .set({ ...toPromotionValues(input), updatedByUserId: userId, updatedAt: new Date() })
+    .where(and(eq(promotions.organizationId, organizationId), eq(promotions.id, id)))
+    .returning();
+  return updated ?? null;
+}
+
+/** Discount lines already carried onto orders/invoices keep their code and amount. */
+export async function deletePromotion(organizationId: string, id: string): Promise<boolean> {
+  const deleted = await db
+    .delete(promotions)
+    .where(and(eq(promotions.organizationId, organizationId), eq(promotions.id, id)))
+    .returning({ id: promotions.id });
+  return deleted.length > 0;
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Quote discount lines
+// ────────────────────────────────────────────────────────────────────────────
+
+type QuoteRecord = typeof quotes.$inferSelect;
+
+type QuotePromotionContext = {
+  quote: QuoteRecord;
+  /** Active (non-canceled) line items. */
+  lineItems: Array<typeof quoteLineItems.$inferSelect>;
+  lines: PromotionLine[];
+  customerTier: string | null;
+};
+
+function lineTotalCents(line: typeof quoteLineItems.$inferSelect): number {
+  const fromBreakdown = Number((line.priceBreakdown as any)?.lineTotalCents);
+  if (Number.isFinite(fromBreakdown)) return Math.round(fromBreakdown);
+  const linePrice = Number(line.linePrice);
+  return Number.isFinite(linePrice) ? Math.round(linePrice * 100) : 0;
+}
+
+async function loadQuote(organizationId: string, quoteId: string, executor: any = db): Promise<QuoteRecord> {
+  const [quote] = await executor
+    .select()
+    .from(quotes)
+    .where(and(eq(quotes.id, quoteId), eq(quotes.organizationId, organizationId)))
+    .limit(1);
+  if (!quote) throw httpError(404, "Quote not found");
+  return quote;
+}
+
+async function loadQuotePromotionContext(
+  organizationId: string,
+  quote: QuoteRecord,
+  executor: any = db
+): Promise<QuotePromotionContext> {
+  const rows: Array<{ line: typeof quoteLineItems.$inferSelect; productTypeId: string | null }> = await executor
+    .select({ line: quoteLineItems, productTypeId: products.productTypeId })
+    .from(quoteLineItems)
+    .leftJoin(products, eq(products.id, quoteLineItems.productId))
+    .where(and(eq(quoteLineItems.quoteId, quote.id), ne(quoteLineItems.status, "canceled")));
+
+  const lines: PromotionLine[] = rows.map(({ line, productTypeId }) => ({
+    productTypeId: productTypeId ?? null,
+    quantity: line.quantity,
+    lineTotalCents: lineTotalCents(line),
+    options: (line.selectedOptions ?? []).map((option) => ({
+      name: String(option.optionName ?? ""),
+      amountCents: Math.round(Number(option.calculatedCost ?? 0) * 100),
+    })),
+  }));
+
+  let customerTier: string | null = null;
+  if (quote.customerId) {
+    const [customer] = await executor
+      .select({ pricingTier: customers.pricingTier })
+      .from(customers)
+      .where(and(eq(customers.id, quote.customerId), eq(customers.organizationId, organizationId)))
+      .limit(1);
+    customerTier = customer?.pricingTier ?? null;
+  }
+
+  return { quote, lineItems: rows.map(({ line }) => line), lines, customerTier };
+}
+
+async function countRedemptions(organizationId: string, promotionId: string, customerId: string | null, executor: any = db) {
+  const [all] = await executor
+    .select({ count: sql<number>`count(distinct ${discountLines.orderId})::int` })
+    .from(discountLines)
+    .innerJoin(orders, eq(orders.id, discountLines.orderId))
+    .where(
+      and(
+        eq(discountLines.organizationId, organizationId),
+        eq(discountLines.promotionId, promotionId),
+        redeemingOrder()
+      )
+    );
+
+  let customerCount = 0;
+  if (customerId) {
+    const [forCustomer] = await executor
+      .select({ count: sql<number>`count(distinct ${discountLines.orderId})::int` })
+      .from(discountLines)
+      .innerJoin(orders, eq(orders.id, discountLines.orderId))
+      .where(
+        and(
+          eq(discountLines.organizationId, organizationId),
+          eq(discountLines.promotionId, promotionId),
+          eq(orders.customerId, customerId),
+          redeemingOrder()
+        )
+      );
+    customerCount = Number(forCustomer?.count ?? 0);
+  }
+
+  return { redemptionCount: Number(all?.count ?? 0), customerRedemptionCount: customerCount };
+}
+
+async function evaluateForQuote(
+  organizationId: string,
+  promotion: Promotion,
+  context: QuotePromotionContext,
+  at: Date,
+  executor: any = db
+): Promise<PromotionEvaluation> {
+  const usage = await countRedemptions(organizationId, promotion.id, context.quote.customerId, executor);
+  return evaluatePromotion(promotion, {
+    lines: context.lines,
+    customerTier: context.customerTier,
+    at,
+    ...usage,
+  });
+}
+
+function listQuoteDiscountLines(organizationId: string, quoteId: string, executor: any = db): Promise<DiscountLine[]> {
+  return listDocumentDiscountLines(organizationId, { quoteId }, executor);
+}
+
+/**
+ * Recompute quote totals with the current discount lines. Tax comes from
+ * calculateQuoteOrderTotals (line taxability, customer exemption and rate override), as when
+ * the quote is saved; the discount (manual + promotions, capped at the subtotal) then reduces
+ * the subtotal, and the taxable subtotal and tax pro rata.
+ */
+async function syncQuoteTotals(
+  organizationId: string,
+  context: QuotePromotionContext,
+  lineRows: DiscountLine[],
+  executor: any = db
+) {
+  const { quote } = context;
+  const [org] = await executor.select().from(organizations).where(eq(organizations.id, organizationId)).limit(1);
+  const [customer] = quote.customerId
+    ? await executor
+        .select()
+        .from(customers)
+        .where(and(eq(customers.id, quote.customerId), eq(customers.organizationId, organizationId)))
+        .limit(1)
+    : [];
+
+  const totals = await calculateQuoteOrderTotals(
+    context.lineItems.map((line) => ({
+      productId: line.productId,
+      variantId: line.variantId,
+      linePrice: lineTotalCents(line) / 100,
+      isTaxable: line.isTaxableSnapshot,
+    })),
+    getOrganizationTaxSettings(org ?? { id: organizationId }),
+    customer ?? null
+  );
+
+  const subtotalCents = Math.round(totals.subtotal * 100);
+  const promotionCents = sumDiscountLineCents(lineRows);
+  const manualCents = Math.round(Number(quote.discountAmount ?? 0) * 100);
+  const discountCents = Math.min(manualCents + promotionCents, subtotalCents);
+  const remaining = subtotalCents > 0 ? (subtotalCents - discountCents) / subtotalCents : 0;
+  const taxableSubtotalCents = Math.round(totals.taxableSubtotal * 100 * remaining);
+  const taxCents = Math.round(totals.taxAmount * 100 * remaining);
+  const totalCents = subtotalCents - discountCents + taxCents + (quote.shippingCents ?? 0);
+
+  await executor
+    .update(quotes)
+    .set({
+      subtotal: (subtotalCents / 100).toFixed(2),
+      taxableSubtotal: (taxableSubtotalCents / 100).toFixed(2),
+      taxRate: totals.taxRate.toFixed(4),
+      taxAmount: (taxCents / 100).toFixed(2),
+      totalPrice: (totalCents / 100).toFixed(2),
+    })
+    .where(and(eq(quotes.id, quote.id), eq(quotes.organizationId, organizationId)));
+}
+
+/**
+ * Re-evaluate every promotion on a quote: amounts follow the current line items and lines
+ * that no longer qualify (expired, usage limit reached, items removed) are dropped.
+ * Quote totals are rewritten only when something changed. `executor` is the caller's
+ * db/transaction.
+ */
+export async function refreshQuoteDiscountLines(
+  organizationId: string,
+  quoteId: string,
+  executor: any = db
+): Promise<QuoteDiscountLinesResult> {
+  const quote = await loadQuote(organizationId, quoteId, executor);
+  const existing = await listQuoteDiscountLines(organizationId, quoteId, executor);
+  // Converted quotes are a historical record; the order owns the discount now.
+  if (existing.length === 0 || quote.convertedToOrderId) return { discountLines: existing, removed: [] };
+
+  const context = await loadQuotePromotionContext(organizationId, quote, executor);
+  const promotionIds = existing.map((line) => line.promotionId).filter((id): id is string => !!id);
+  const promotionRows: Promotion[] = promotionIds.length
+    ? await executor
+        .select()
+        .from(promotions)
+        .where(and(eq(promotions.organizationId, organizationId), inArray(promotions.id, promotionIds)))
+    : [];
+  const promotionsById = new Map(promotionRows.map((p) => [p.id, p]));
+
+  const now = new Date();
+  const kept: DiscountLine[] = [];
+  const removed: QuoteDiscountLinesResult["removed"] = [];
+  let changed = false;
+
+  for (const line of existing) {
+    const promotion = line.promotionId ? promotionsById.get(line.promotionId) : undefined;
+    const evaluation: PromotionEvaluation = promotion
+      ? await evaluateForQuote(organizationId, promotion, context, now, executor)
+      : { ok: false, reason: "This promotion no longer exists" };
+
+    if (!evaluation.ok) {
+      await executor.delete(discountLines).where(eq(discountLines.id, line.id));
+      removed.push({ code: line.code, reason: evaluation.reason });
+      changed = true;
+      continue;
+    }
+
+    if (evaluation.discountCents !== line.amountCents || evaluation.description !== line.description) {
+      const [updated] = await executor
+        .update(discountLines)
+        .set({ amountCents: evaluation.discountCents, description: evaluation.description })
+        .where(eq(discountLines.id, line.id))
+        .returning();
+      kept.push(updated);
+      changed = true;
+    } else {
+      kept.push(line);
+    }
+  }
+
+  if (changed) await syncQuoteTotals(organizationId, context, kept, executor);
+  return { discountLines: kept, removed };
+}
+
+/**
+ * Apply a promotion code to a quote. `customerId` restricts the quote to a portal customer.
+ */
+export async function applyPromotionToQuote(
+  organizationId: string,
+  quoteId: string,
+  rawCode: unknown,
+  options: { customerId?: string } = {}
+): Promise<QuoteDiscountLinesResult> {
+  const code = normalizePromotionCode(rawCode);
+  if (!code) throw httpError(400, "Enter a promotion code");
+
+  const quote = await loadQuote(organizationId, quoteId);
+  if (options.customerId && quote.customerId !== options.customerId) throw httpError(404, "Quote not found");
+  if (quote.convertedToOrderId) throw httpError(409, "Promotions cannot be changed after the quote is converted");
+
+  const [promotion] = await db
+    .select()
+    .from(promotions)
+    .where(and(eq(promotions.organizationId, organizationId), eq(promotions.code, code)))
+    .limit(1);
+  if (!promotion) throw httpError(400, `${code} is not a valid promotion code`);
+
+  const existing = await listQuoteDiscountLines(organizationId, quoteId);
+  if (existing.some((line) => line.promotionId === promotion.id)) throw httpError(409, `${code} is already applied to this quote`);
+
+  const context = await loadQuotePromotionContext(organizationId, quote);
+  const evaluation = await evaluateForQuote(organizationId, promotion, context, new Date());
+  if (!evaluation.ok) throw httpError(400, evaluation.reason);
+
+  await db.insert(discountLines).values({
+    organizationId,
+    quoteId,
+    promotionId: promotion.id,
+    code: promotion.code,
+    description: evaluation.description,
+    amountCents: evaluation.discountCents,
+    sortOrder: existing.length,
+  });
+
+  const lines = await listQuoteDiscountLines(organizationId, quoteId);
+  await syncQuoteTotals(organizationId, context, lines);
+  return { discountLines: lines, removed: [] };
+}
+
+export async function removeQuoteDiscountLine(
+  organizationId: string,
+  quoteId: string,
+  discountLineId: string,
+  options: { customerId?: string } = {}
+): Promise<QuoteDiscountLinesResult> {
+  const quote = await loadQuote(organizationId, quoteId);
+  if (options.customerId && quote.customerId !== options.customerId) throw httpError(404, "Quote not found");
+  if (quote.convertedToOrderId) throw httpError(409, "Promotions cannot be changed after the quote is converted");
+
+  const deleted = await db
+    .delete(discountLines)
+    .where(
+      and(
+        eq(discountLines.organizationId, organizationId),
+        eq(discountLines.quoteId, quoteId),
+        eq(discountLines.id, discountLineId)
+      )
+    )
+    .returning({ id: discountLines.id });
+  if (deleted.length === 0) throw httpError(404, "Discount not found");
+
+  const context = await loadQuotePromotionContext(organizationId, quote);
+  const lines = await listQuoteDiscountLines(organizationId, quoteId);
+  await syncQuoteTotals(organizationId, context, lines);
+  return { discountLines: lines, removed: [] };
+}
+
+/** Portal read: same as refresh, scoped to the customer's own quote. */
+export async function refreshPortalQuoteDiscountLines(
+  organizationId: string,
+  quoteId: string,
+  customerId: string
+): Promise<QuoteDiscountLinesResult> {
+  const quote = await loadQuote(organizationId, quoteId);
+  if (quote.customerId !== customerId) throw httpError(404, "Quote not found");
+  return refreshQuoteDiscountLines(organizationId, quoteId);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Orders and invoices
+// ────────────────────────────────────────────────────────────────────────────
+
+type DiscountLineDocument = { quoteId: string } | { orderId: string } | { invoiceId: string };
+
+/** `executor` is the caller's db/transaction. */
+export async function listDocumentDiscountLines(
+  organizationId: string,
+  document: DiscountLineDocument,
+  executor: any = db
+): Promise<DiscountLine[]> {
+  const match =
+    "quoteId" in document
+      ? eq(discountLines.quoteId, document.quoteId)
+      : "orderId" in document
+        ? eq(discountLines.orderId, document.orderId)
+        : eq(discountLines.invoiceId, document.invoiceId);
+  return await executor
+    .select()
+    .from(discountLines)
+    .where(and(eq(discountLines.organizationId, organizationId), match))
+    .orderBy(asc(discountLines.sortOrder), asc(discountLines.createdAt));
+}
+
+export function sumDiscountLineCents(lines: readonly Pick<DiscountLine, "amountCents">[]): number {
+  return lines.reduce((sum, line) => sum + line.amountCents, 0);
+}
+
+/** Carry discount lines forward (quote → order → invoice) as explicit copies. */
+export async function copyDiscountLines(
+  lines: readonly DiscountLine[],
+  target: { orderId: string } | { invoiceId: string },
+  executor: any = db
+): Promise<void> {
+  if (lines.length === 0) return;
+  await executor.insert(discountLines).values(
+    lines.map((line) => ({
+      organizationId: line.organizationId,
+      promotionId: line.promotionId,
+      code: line.code,
+      description: line.description,
+      amountCents: line.amountCents,
+      sortOrder: line.sortOrder,
+      ...target,
+    }))
+  );
+}
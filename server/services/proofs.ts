@@ -0,0 +1,557 @@
+import crypto from "crypto";
+import { db } from "../db";
+import {
+  customerContacts,
+  customers,
+  orderAttachments,
+  orderAuditLog,
+  orderLineItems,
+  orders,
+  organizations,
+  proofComments,
+  proofEvents,
+  proofVersions,
+  users,
+  type CreateProofVersion,
+  type ProofComment,
+  type ProofDecision,
+  type ProofEvent,
+  type ProofVersion,
+  type AttachmentAnnotation,
+  type AttachmentAnnotationComment,
+} from "@shared/schema";
+import { buildProofReviewUrl, evaluateProofGate, hashProofToken, type ProofGate } from "../lib/proofs";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { emailService } from "../emailService";
+import { downloadOriginalFile } from "./thumbnailGenerator";
+import { listAnnotations } from "./attachmentAnnotations";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Customer proof approval.
+ *
+ * Staff send a proof (an order attachment with role 'proof') for a line item; each send is a new
+ * version and supersedes the pending one before it. The customer opens a tokenized link, reviews
+ * the file and approves or requests changes with comments pinned to regions of the page. Every
+ * send, view and decision is kept as a proof event with actor, IP and time. Production jobs for
+ * the line stay gated until the latest version is approved.
+ */
+
+const TOKEN_TTL_DAYS = parseInt(process.env.PROOF_TOKEN_TTL_DAYS || "30");
+
+export type ProofActor = { userId: string | null; userName: string | null };
+
+export type ProofRequestMeta = { ip: string | null; userAgent: string | null };
+
+export type ProofVersionWithHistory = ProofVersion & {
+  isLatest: boolean;
+  events: ProofEvent[];
+  comments: ProofComment[];
+};
+
+export type ProofSendResult = {
+  proof: ProofVersion;
+  reviewUrl: string;
+  emailSent: boolean;
+};
+
+export type PublicProof = {
+  id: string;
+  version: number;
+  status: ProofVersion["status"];
+  isLatest: boolean;
+  fileName: string;
+  mimeType: string | null;
+  message: string | null;
+  organizationName: string;
+  orderNumber: string;
+  lineItemDescription: string;
+  decidedAt: Date | null;
+  signerName: string | null;
+  comments: Array<Pick<ProofComment, "id" | "authorType" | "authorName" | "body" | "annotation" | "createdAt">>;
+  /** Staff markup on the proof file that was shared with the customer */
+  markup: Array<
+    Pick<AttachmentAnnotation, "id" | "pageIndex" | "kind" | "geometry" | "color"> & {
+      comments: Array<Pick<AttachmentAnnotationComment, "authorName" | "body">>;
+    }
+  >;
+};
+
+// ────────────────────────────────────────────────────────────────────────────
+// Tokens
+// ────────────────────────────────────────────────────────────────────────────
+
+function issueProofToken(now: Date): { token: string; tokenHash: string; tokenExpiresAt: Date } {
+  const token = crypto.randomBytes(32).toString("hex");
+  return {
+    token,
+    tokenHash: hashProofToken(token),
+    tokenExpiresAt: new Date(now.getTime() + TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+  };
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Staff
+// ────────────────────────────────────────────────────────────────────────────
+
+async function loadLineItem(organizationId: string, orderId: string, lineItemId: string) {
+  const [row] = await db
+    .select({ order: orders, lineItem: orderLineItems })
+    .from(orderLineItems)
+    .innerJoin(orders, eq(orders.id, orderLineItems.orderId))
+    .where(and(eq(orders.organizationId, organizationId), eq(orders.id, orderId), eq(orderLineItems.id, lineItemId)))
+    .limit(1);
+  if (!row) throw httpError(404, "Line item not found");
+  return row;
+}
+
+async function latestProofVersion(executor: any, lineItemId: string): Promise<ProofVersion | null> {
+  const [latest] = await executor
+    .select()
+    .from(proofVersions)
+    .where(eq(proofVersions.orderLineItemId, lineItemId))
+    .orderBy(desc(proofVersions.version))
+    .limit(1);
+  return latest ?? null;
+}
+
+export async function listLineItemProofs(
+  organizationId: string,
+  orderId: string,
+  lineItemId: string
+): Promise<ProofVersionWithHistory[]> {
+  await loadLineItem(organizationId, orderId, lineItemId);
+
+  const versions = await db
+    .select()
+    .from(proofVersions)
+    .where(and(eq(proofVersions.organizationId, organizationId), eq(proofVersions.orderLineItemId, lineItemId)))
+    .orderBy(desc(proofVersions.version));
+  if (versions.length === 0) return [];
+
+  const ids = versions.map((v) => v.id);
+  const [events, comments] = await Promise.all([
+    db.select().from(proofEvents).where(inArray(proofEvents.proofVersionId, ids)).orderBy(asc(proofEvents.createdAt)),
+    db.select().from(proofComments).where(inArray(proofComments.proofVersionId, ids)).orderBy(asc(proofComments.createdAt)),
+  ]);
+
+  return versions.map((v, i) => ({
+    ...v,
+    isLatest: i === 0,
+    events: events.filter((e) => e.proofVersionId === v.id),
+    comments: comments.filter((c) => c.proofVersionId === v.id),
+  }));
+}
+
+async function defaultRecipientEmail(order: typeof orders.$inferSelect): Promise<string | null> {
+  if (order.contactId) {
+    const [contact] = await db
+      .select({ email: customerContacts.email })
+      .from(customerContacts)
+      .where(eq(customerContacts.id, order.contactId))
+      .limit(1);
+    if (contact?.email) return contact.email;
+  }
+  const [customer] = await db
+    .select({ email: customers.email })
+    .from(customers)
+    .where(eq(customers.id, order.customerId))
+    .limit(1);
+  return customer?.email ?? null;
+}
+
+export async function createProofVersion(
+  organizationId: string,
+  orderId: string,
+  lineItemId: string,
+  input: CreateProofVersion,
+  actor: ProofActor
+): Promise<ProofSendResult> {
+  const { order, lineItem } = await loadLineItem(organizationId, orderId, lineItemId);
+
+  const [attachment] = await db
+    .select()
+    .from(orderAttachments)
+    .where(and(eq(orderAttachments.id, input.orderAttachmentId), eq(orderAttachments.orderId, orderId)))
+    .limit(1);
+  if (!attachment) throw httpError(404, "Proof file not found on this order");
+  if (attachment.orderLineItemId && attachment.orderLineItemId !== lineItemId) {
+    throw httpError(400, "Proof file belongs to a different line item");
+  }
+  if (attachment.role !== "proof") throw httpError(400, "Only files with the 'proof' role can be sent as proofs");
+
+  const recipientEmail = input.recipientEmail?.trim() || (await defaultRecipientEmail(order));
+  const now = new Date();
+  const { token, tokenHash, tokenExpiresAt } = issueProofToken(now);
+  const actorFields = { actorType: "staff", actorName: actor.userName };
+
+  const proof = await db.transaction(async (tx) => {
+    const latest = await latestProofVersion(tx, lineItemId);
+
+    if (latest?.status === "pending") {
+      await tx
+        .update(proofVersions)
+        .set({ status: "superseded", updatedAt: now })
+        .where(eq(proofVersions.id, latest.id));
+      await tx.insert(proofEvents).values({
+        organizationId,
+        proofVersionId: latest.id,
+        type: "superseded",
+        ...actorFields,
+        payload: { byVersion: latest.version + 1 },
+      });
+    }
+
+    const [created] = await tx
+      .insert(proofVersions)
+      .values({
+        organizationId,
+        orderId,
+        orderLineItemId: lineItemId,
+        version: (latest?.version ?? 0) + 1,
+        status: "pending",
+        orderAttachmentId: attachment.id,
+        fileName: attachment.originalFilename || attachment.fileName,
+        message: input.message?.trim() || null,
+        tokenHash,
+        tokenExpiresAt,
+        recipientEmail,
+        createdByUserId: actor.userId,
+        createdByName: actor.userName,
+      })
+      .returning();
+
+    await tx.insert(proofEvents).values({
+      organizationId,
+      proofVersionId: created.id,
+      type: "created",
+      ...actorFields,
+      payload: { orderAttachmentId: attachment.id, fileName: created.fileName },
+    });
+
+    await tx.insert(orderAuditLog).values({
+      orderId,
+      userId: actor.userId,
+      userName: actor.userName,
+      actionType: "proof_sent",
+      fromStatus: null,
+      toStatus: null,
+      note: `Proof v${created.version} for "${lineItem.description}" sent${recipientEmail ? ` to ${recipientEmail}` : ""}`,
+      metadata: { proofVersionId: created.id, orderLineItemId: lineItemId, version: created.version },
+    });
+
+    return created;
+  });
+
+  const emailSent = await sendProofEmail(organizationId, proof, token, {
+    orderNumber: order.orderNumber,
+    lineItemDescription: lineItem.description,
+  });
+  return { proof: emailSent ? await markSent(proof, actor) : proof, reviewUrl: buildProofReviewUrl(token), emailSent };
+}
+
+/**
+ * Re-issue the review link for the latest pending version (the previous link stops working)
+ * and email it again, optionally to a different recipient.
+ */
+export async function resendProofVersion(
+  organizationId: string,
+  proofId: string,
+  input: { recipientEmail?: string | null },
+  actor: ProofActor
+): Promise<ProofSendResult> {
+  const [row] = await db
+    .select({ proof: proofVersions, order: orders, lineItem: orderLineItems })
+    .from(proofVersions)
+    .innerJoin(orders, eq(orders.id, proofVersions.orderId))
+    .innerJoin(orderLineItems, eq(orderLineItems.id, proofVersions.orderLineItemId))
+    .where(and(eq(proofVersions.organizationId, organizationId), eq(proofVersions.id, proofId)))
+    .limit(1);
+  if (!row) throw httpError(404, "Proof not found");
+  if (row.proof.status !== "pending") throw httpError(409, "Only a proof awaiting approval can be resent");
+
+  const now = new Date();
+  const { token, tokenHash, tokenExpiresAt } = issueProofToken(now);
+  const recipientEmail = input.recipientEmail?.trim() || row.proof.recipientEmail;
+
+  const [proof] = await db
+    .update(proofVersions)
+    .set({ tokenHash, tokenExpiresAt, recipientEmail, updatedAt: now })
+    .where(eq(proofVersions.id, proofId))
+    .returning();
+
+  const emailSent = await sendProofEmail(organizationId, proof, token, {
+    orderNumber: row.order.orderNumber,
+    lineItemDescription: row.lineItem.description,
+  });
+  return { proof: emailSent ? await markSent(proof, actor) : proof, reviewUrl: buildProofReviewUrl(token), emailSent };
+}
+
+async function markSent(proof: ProofVersion, actor: ProofActor): Promise<ProofVersion> {
+  const now = new Date();
+  const [updated] = await db
+    .update(proofVersions)
+    .set({ sentAt: now, updatedAt: now })
+    .where(eq(proofVersions.id, proof.id))
+    .returning();
+  await db.insert(proofEvents).values({
+    organizationId: proof.organizationId,
+    proofVersionId: proof.id,
+    type: "sent",
+    actorType: "staff",
+    actorName: actor.userName,
+    payload: { to: proof.recipientEmail },
+  });
+  return updated;
+}
+
+async function getOrganizationName(organizationId: string): Promise<string> {
+  const [org] = await db
+    .select({ name: organizations.name })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+  return org?.name ?? "";
+}
+
+/**
+ * Email the review link to the customer. Fail-soft: returns false when there is no recipient
+ * or email is not configured, and staff can copy the link instead.
+ */
+async function sendProofEmail(
+  organizationId: string,
+  proof: ProofVersion,
+  token: string,
+  context: { orderNumber: string; lineItemDescription: string }
+): Promise<boolean> {
+  if (!proof.recipientEmail) return false;
+  try {
+    const organizationName = await getOrganizationName(organizationId);
+    const reviewUrl = buildProofReviewUrl(token);
+    await emailService.sendEmail(organizationId, {
+      to: proof.recipientEmail,
+      subject: `Proof ready for review - Order #${context.orderNumber}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Your proof is ready</h2>
+          <p>${escapeHtml(organizationName)} has sent proof v${proof.version} for <strong>${escapeHtml(context.lineItemDescription)}</strong> on order #${escapeHtml(context.orderNumber)}.</p>
+          ${proof.message ? `<p style="white-space: pre-wrap;">${escapeHtml(proof.message)}</p>` : ""}
+          <p style="margin: 24px 0;">
+            <a href="${reviewUrl}" style="background-color: #2563eb; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+              Review Proof
+            </a>
+          </p>
+          <p>Production starts once the proof is approved.</p>
+          <p style="color: #71717a; font-size: 14px; margin-top: 32px;">
+            This link expires on ${proof.tokenExpiresAt.toDateString()}.
+          </p>
+        </div>
+      `,
+    });
+    return true;
+  } catch (error) {
+    console.error(`[Proofs] Failed to email proof ${proof.id}:`, error);
+    return false;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+export async function getLineItemProofGate(organizationId: string, lineItemId: string, executor: any = db): Promise<ProofGate> {
+  const [latest] = await executor
+    .select({ version: proofVersions.version, status: proofVersions.status })
+    .from(proofVersions)
+    .where(and(eq(proofVersions.organizationId, organizationId), eq(proofVersions.orderLineItemId, lineItemId)))
+    .orderBy(desc(proofVersions.version))
+    .limit(1);
+  return evaluateProofGate(latest ?? null);
+}
+
+// ────────────────────────────────────────────────────────────────────────────
+// Customer (tokenized, no login)
+// ────────────────────────────────────────────────────────────────────────────
+
+async function loadProofByToken(token: string) {
+  const [row] = await db
+    .select({ proof: proofVersions, order: orders, lineItem: orderLineItems, attachment: orderAttachments })
+    .from(proofVersions)
+    .innerJoin(orders, eq(orders.id, proofVersions.orderId))
+    .innerJoin(orderLineItems, eq(orderLineItems.id, proofVersions.orderLineItemId))
+    .leftJoin(orderAttachments, eq(orderAttachments.id, proofVersions.orderAttachmentId))
+    .where(eq(proofVersions.tokenHash, hashProofToken(token)))
+    .limit(1);
+  if (!row) throw httpError(404, "This proof link is invalid");
+  if (row.proof.tokenExpiresAt.getTime() < Date.now()) throw httpError(404, "This proof link has expired");
+  return row;
+}
+
+export async function getPublicProof(token: string, meta: ProofRequestMeta): Promise<PublicProof> {
+  const { proof, order, lineItem, attachment } = await loadProofByToken(token);
+
+  const [latest, comments, organizationName, [viewed], markup] = await Promise.all([
+    latestProofVersion(db, proof.orderLineItemId),
+    db.select().from(proofComments).where(eq(proofComments.proofVersionId, proof.id)).orderBy(asc(proofComments.createdAt)),
+    getOrganizationName(proof.organizationId),
+    db
+      .select({ id: proofEvents.id })
+      .from(proofEvents)
+      .where(and(eq(proofEvents.proofVersionId, proof.id), eq(proofEvents.type, "viewed")))
+      .limit(1),
+    proof.orderAttachmentId
+      ? listAnnotations(proof.organizationId, { type: "order_attachment", id: proof.orderAttachmentId }, { customerVisibleOnly: true })
+      : Promise.resolve([]),
+  ]);
+
+  // Only the first open is recorded; the audit trail needs "seen", not every refresh
+  if (!viewed) {
+    await db.insert(proofEvents).values({
+      organizationId: proof.organizationId,
+      proofVersionId: proof.id,
+      type: "viewed",
+      actorType: "customer",
+      ip: meta.ip,
+      userAgent: meta.userAgent,
+    });
+  }
+
+  return {
+    id: proof.id,
+    version: proof.version,
+    status: proof.status,
+    isLatest: latest?.id === proof.id,
+    fileName: proof.fileName,
+    mimeType: attachment?.mimeType ?? null,
+    message: proof.message,
+    organizationName,
+    orderNumber: order.orderNumber,
+    lineItemDescription: lineItem.description,
+    decidedAt: proof.decidedAt,
+    signerName: proof.signerName,
+    comments: comments.map(({ id, authorType, authorName, body, annotation, createdAt }) => ({
+      id,
+      authorType,
+      authorName,
+      body,
+      annotation,
+      createdAt,
+    })),
+    markup: markup.map((a) => ({
+      id: a.id,
+      pageIndex: a.pageIndex,
+      kind: a.kind,
+      geometry: a.geometry,
+      color: a.color,
+      comments: a.comments.map(({ authorName, body }) => ({ authorName, body })),
+    })),
+  };
+}
+
+export async function getPublicProofFile(token: string): Promise<{ buffer: Buffer; fileName: string; mimeType: string }> {
+  const { proof, attachment } = await loadProofByToken(token);
+  if (!attachment) throw httpError(404, "The proof file is no longer available");
+
+  const fileKey = attachment.relativePath || attachment.fileUrl;
+  const buffer = await downloadOriginalFile(fileKey, attachment.storageProvider || "local");
+  if (!buffer) throw httpError(404, "The proof file is no longer available");
+
+  return { buffer, fileName: proof.fileName, mimeType: attachment.mimeType || "application/octet-stream" };
+}
+
+export async function decideProof(token: string, input: ProofDecision, meta: ProofRequestMeta): Promise<PublicProof> {
+  const { proof, order } = await loadProofByToken(token);
+  if (proof.status === "superseded") throw httpError(409, "A newer proof has been sent; please review the latest version");
+  if (proof.status !== "pending") throw httpError(409, "This proof has already been reviewed");
+
+  const status = input.decision === "approve" ? "approved" : "changes_requested";
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    // Guard against a concurrent decision or a new version sent in the meantime
+    const [updated] = await tx
+      .update(proofVersions)
+      .set({
+        status,
+        decidedAt: now,
+        signerName: input.signerName,
+        signerIp: meta.ip,
+        signerUserAgent: meta.userAgent,
+        updatedAt: now,
+      })
+      .where(and(eq(proofVersions.id, proof.id), eq(proofVersions.status, "pending")))
+      .returning({ id: proofVersions.id });
+    if (!updated) throw httpError(409, "This proof has already been reviewed");
+
+    if (input.comments.length > 0) {
+      await tx.insert(proofComments).values(
+        input.comments.map((c) => ({
+          organizationId: proof.organizationId,
+          proofVersionId: proof.id,
+          authorType: "customer",
+          authorName: input.signerName,
+          body: c.body,
+          annotation: c.annotation ?? null,
+        }))
+      );
+    }
+
+    await tx.insert(proofEvents).values({
+      organizationId: proof.organizationId,
+      proofVersionId: proof.id,
+      type: status,
+      actorType: "customer",
+      actorName: input.signerName,
+      ip: meta.ip,
+      userAgent: meta.userAgent,
+      payload: { commentCount: input.comments.length },
+    });
+
+    await tx.insert(orderAuditLog).values({
+      orderId: order.id,
+      userId: null,
+      userName: input.signerName,
+      actionType: status === "approved" ? "proof_approved" : "proof_changes_requested",
+      fromStatus: null,
+      toStatus: null,
+      note:
+        status === "approved"
+          ? `Proof v${proof.version} approved by ${input.signerName}`
+          : `Changes requested on proof v${proof.version} by ${input.signerName}`,
+      metadata: { proofVersionId: proof.id, orderLineItemId: proof.orderLineItemId, ip: meta.ip },
+    });
+  });
+
+  await notifyProofCreator(proof, order.orderNumber, status, input);
+  return getPublicProof(token, meta);
+}
+
+/**
+ * Let the staff member who sent the proof know it was decided. Fail-soft.
+ */
+async function notifyProofCreator(
+  proof: ProofVersion,
+  orderNumber: string,
+  status: "approved" | "changes_requested",
+  input: ProofDecision
+): Promise<void> {
+  if (!proof.createdByUserId) return;
+  try {
+    const [creator] = await db.select({ email: users.email }).from(users).where(eq(users.id, proof.createdByUserId)).limit(1);
+    if (!creator?.email) return;
+
+    const verb = status === "approved" ? "approved" : "requested changes on";
+    await emailService.sendEmail(proof.organizationId, {
+      to: creator.email,
+      subject: `Proof v${proof.version} ${status === "approved" ? "approved" : "changes requested"} - Order #${orderNumber}`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <p>${escapeHtml(input.signerName)} ${verb} proof v${proof.version} (${escapeHtml(proof.fileName)}) on order #${escapeHtml(orderNumber)}.</p>
+          ${input.comments.length > 0 ? `<ul>${input.comments.map((c) => `<li>${escapeHtml(c.body)}</li>`).join("")}</ul>` : ""}
+        </div>
+      `,
+    });
+  } catch (error) {
+    console.error(`[Proofs] Failed to notify proof creator for ${proof.id}:`, error);
+  }
+}
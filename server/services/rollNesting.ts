@@ -0,0 +1,203 @@
+import { z } from "zod";
+import { db } from "../db";
+import { customers, materials, orderLineItems, orders, productionEvents, productionJobs } from "@shared/schema";
+import { planRollNesting, type RollNestingItem, type RollNestingPlan } from "@shared/rollNesting";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { appendEvent } from "../productionHelpers";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Roll run planning for production.
+ *
+ * Packs queued roll production jobs on one material across the roll's printable width and
+ * reports the linear feet the run needs. Recording a run writes a `media_used_set` event on
+ * each job with its area-proportional share of the run (lead/tail waste included).
+ */
+
+export const rollNestingRequestSchema = z.object({
+  jobIds: z.array(z.string().min(1)).min(1).max(200),
+  allowRotation: z.boolean().default(true),
+  gutterIn: z.coerce.number().min(0).max(12).default(0.25),
+});
+
+export type RollNestingRequest = z.infer<typeof rollNestingRequestSchema>;
+
+/** Recording a run carries the id the client minted for that plan, so a retry records nothing new. */
+export const rollRunMediaUsedRequestSchema = rollNestingRequestSchema.extend({
+  runId: z.string().min(1).max(100),
+});
+
+export type RollRunMediaUsedRequest = z.infer<typeof rollRunMediaUsedRequestSchema>;
+
+export type RollRunPlan = RollNestingPlan & {
+  material: { id: string; name: string; sku: string; rollLengthFt: number | null };
+  jobs: Array<{
+    jobId: string;
+    orderId: string;
+    orderNumber: string;
+    customerName: string;
+    description: string;
+    widthIn: number | null;
+    heightIn: number | null;
+    quantity: number;
+  }>;
+};
+
+function toNumber(value: string | null | undefined): number | null {
+  if (value == null) return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export async function planRollRunForJobs(organizationId: string, input: RollNestingRequest): Promise<RollRunPlan> {
+  const jobIds = Array.from(new Set(input.jobIds));
+
+  const rows = await db
+    .select({
+      jobId: productionJobs.id,
+      orderId: productionJobs.orderId,
+      lineItemId: productionJobs.lineItemId,
+      orderNumber: orders.orderNumber,
+      customerName: customers.companyName,
+      description: orderLineItems.description,
+      width: orderLineItems.width,
+      height: orderLineItems.height,
+      quantity: orderLineItems.quantity,
+      materialId: orderLineItems.materialId,
+    })
+    .from(productionJobs)
+    .innerJoin(orders, eq(productionJobs.orderId, orders.id))
+    .innerJoin(customers, eq(orders.customerId, customers.id))
+    .leftJoin(orderLineItems, eq(productionJobs.lineItemId, orderLineItems.id))
+    .where(and(eq(productionJobs.organizationId, organizationId), inArray(productionJobs.id, jobIds)));
+
+  if (rows.length !== jobIds.length) throw httpError(404, "One or more production jobs were not found");
+
+  const withoutLineItem = rows.find((row) => !row.lineItemId || row.quantity == null);
+  if (withoutLineItem) throw httpError(400, `Job for order ${withoutLineItem.orderNumber} has no line item to nest`);
+
+  const materialIds = new Set(rows.map((row) => row.materialId ?? null));
+  if (materialIds.size > 1) throw httpError(400, "Jobs in a roll run must share the same material");
+  const materialId = rows[0].materialId;
+  if (!materialId) throw httpError(400, "These jobs have no material assigned");
+
+  const [material] = await db
+    .select()
+    .from(materials)
+    .where(and(eq(materials.organizationId, organizationId), eq(materials.id, materialId)))
+    .limit(1);
+  if (!material) throw httpError(404, "Material not found");
+  if (material.type !== "roll") throw httpError(400, `${material.name} is not a roll material`);
+
+  const rollWidthIn = toNumber(material.width);
+  if (!rollWidthIn || rollWidthIn <= 0) throw httpError(400, `${material.name} has no roll width`);
+
+  const byJobId = new Map(rows.map((row) => [row.jobId, row]));
+  const ordered = jobIds.map((id) => byJobId.get(id)!);
+
+  const items: RollNestingItem[] = ordered.map((row) => ({
+    id: row.jobId,
+    label: `${row.orderNumber} · ${row.description ?? ""}`.slice(0, 80),
+    widthIn: toNumber(row.width) ?? 0,
+    heightIn: toNumber(row.height) ?? 0,
+    quantity: row.quantity ?? 0,
+  }));
+
+  let plan: RollNestingPlan;
+  try {
+    plan = planRollNesting(items, {
+      rollWidthIn,
+      edgeWasteInPerSide: toNumber(material.edgeWasteInPerSide) ?? 0,
+      leadWasteFt: toNumber(material.leadWasteFt) ?? 0,
+      tailWasteFt: toNumber(material.tailWasteFt) ?? 0,
+      rollLengthFt: toNumber(material.rollLengthFt),
+      gutterIn: input.gutterIn,
+      allowRotation: input.allowRotation,
+    });
+  } catch (error: any) {
+    throw httpError(400, error?.message || "Unable to plan this roll run");
+  }
+
+  return {
+    ...plan,
+    material: { id: material.id, name: material.name, sku: material.sku, rollLengthFt: toNumber(material.rollLengthFt) },
+    jobs: ordered.map((row) => ({
+      jobId: row.jobId,
+      orderId: row.orderId,
+      orderNumber: row.orderNumber,
+      customerName: row.customerName ?? "",
+      description: row.description ?? "",
+      widthIn: toNumber(row.width),
+      heightIn: toNumber(row.height),
+      quantity: row.quantity ?? 0,
+    })),
+  };
+}
+
+/**
+ * Re-plan the run server-side (never trusting client numbers) and record each job's share as
+ * a `media_used_set` production event in linear feet. Events carry the run id; jobs that already
+ * have an event for this run are skipped, so a double click or retry doesn't count media twice.
+ */
+export async function recordRollRunMediaUsage(
+  organizationId: string,
+  input: RollRunMediaUsedRequest,
+): Promise<{ plan: RollRunPlan; recordedJobIds: string[]; skippedJobIds: string[] }> {
+  const { runId, ...planInput } = input;
+  const plan = await planRollRunForJobs(organizationId, planInput);
+  if (plan.totalLinearFt <= 0) throw httpError(400, "Nothing in this run fits the roll");
+
+  const placedJobIds = plan.items.filter((item) => item.placed > 0).map((item) => item.itemId);
+  const recordedJobIds: string[] = [];
+  const skippedJobIds: string[] = [];
+  await db.transaction(async (tx) => {
+    // Lock the jobs so a concurrent post of the same run waits and then sees these events
+    await tx
+      .select({ id: productionJobs.id })
+      .from(productionJobs)
+      .where(and(eq(productionJobs.organizationId, organizationId), inArray(productionJobs.id, placedJobIds)))
+      .for("update");
+    const alreadyRecorded = await tx
+      .select({ productionJobId: productionEvents.productionJobId })
+      .from(productionEvents)
+      .where(
+        and(
+          eq(productionEvents.organizationId, organizationId),
+          inArray(productionEvents.productionJobId, placedJobIds),
+          eq(productionEvents.type, "media_used_set"),
+          sql`${productionEvents.payload}->>'runId' = ${runId}`,
+        ),
+      );
+    const recordedForRun = new Set(alreadyRecorded.map((row) => row.productionJobId));
+
+    for (const item of plan.items) {
+      if (item.placed === 0) continue;
+      if (recordedForRun.has(item.itemId)) {
+        skippedJobIds.push(item.itemId);
+        continue;
+      }
+      await appendEvent({
+        tx,
+        organizationId,
+        productionJobId: item.itemId,
+        type: "media_used_set",
+        payload: {
+          text: `${plan.material.name}: roll run share (${plan.totalLinearFt} ft run, ${plan.lanes.length} lane${plan.lanes.length === 1 ? "" : "s"}, ${plan.wastePercent}% waste)`,
+          qty: item.linearFt,
+          unit: "linear_ft",
+          source: "roll_plan",
+          runId,
+        },
+      });
+      recordedJobIds.push(item.itemId);
+    }
+    if (recordedJobIds.length > 0) {
+      await tx
+        .update(productionJobs)
+        .set({ updatedAt: new Date() })
+        .where(and(eq(productionJobs.organizationId, organizationId), inArray(productionJobs.id, recordedJobIds)));
+    }
+  });
+
+  return { plan, recordedJobIds, skippedJobIds };
+}
@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { db } from "../db";
+import { materials, orderLineItems, orders } from "@shared/schema";
+import {
+  planSheetNesting,
+  SHEET_NESTING_MODES,
+  type SheetNestingItem,
+  type SheetNestingPlan,
+} from "@shared/sheetNesting";
+import { and, eq, inArray } from "drizzle-orm";
+import { httpError } from "../lib/httpErrors";
+
+/**
+ * Gang sheet planning for production.
+ *
+ * Loads order line items that share one sheet material and nests them together with the
+ * shared engine. The material's width/height is the default sheet size (the shop's 48x96
+ * stock); the operator can override it along with mode, rotation and spacing.
+ */
+
+const positiveInches = z.coerce.number().positive().max(1200);
+const spacingInches = z.coerce.number().min(0).max(12);
+
+export const sheetNestingRequestSchema = z.object({
+  lineItemIds: z.array(z.string().min(1)).min(1).max(200),
+  mode: z.enum(SHEET_NESTING_MODES).default("free_rect"),
+  allowRotation: z.boolean().default(true),
+  gutterIn: spacingInches.default(0.25),
+  bleedIn: spacingInches.default(0),
+  marginIn: spacingInches.default(0),
+  sheetWidthIn: positiveInches.optional(),
+  sheetHeightIn: positiveInches.optional(),
+});
+
+export type SheetNestingRequest = z.infer<typeof sheetNestingRequestSchema>;
+
+export type GangSheetPlan = SheetNestingPlan & {
+  material: { id: string; name: string; sku: string } | null;
+  lineItems: Array<{
+    id: string;
+    orderId: string;
+    orderNumber: string;
+    description: string;
+    widthIn: number | null;
+    heightIn: number | null;
+    quantity: number;
+  }>;
+};
+
+function toInches(value: string | null): number | null {
+  if (value == null) return null;
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export async function planGangSheetForLineItems(organizationId: string, input: SheetNestingRequest): Promise<GangSheetPlan> {
+  const lineItemIds = Array.from(new Set(input.lineItemIds));
+
+  const rows = await db
+    .select({
+      id: orderLineItems.id,
+      orderId: orderLineItems.orderId,
+      orderNumber: orders.orderNumber,
+      description: orderLineItems.description,
+      width: orderLineItems.width,
+      height: orderLineItems.height,
+      quantity: orderLineItems.quantity,
+      materialId: orderLineItems.materialId,
+    })
+    .from(orderLineItems)
+    .innerJoin(orders, eq(orderLineItems.orderId, orders.id))
+    .where(and(eq(orders.organizationId, organizationId), inArray(orderLineItems.id, lineItemIds)));
+
+  if (rows.length !== lineItemIds.length) throw httpError(404, "One or more line items were not found");
+
+  const materialIds = new Set(rows.map((row) => row.materialId ?? null));
+  if (materialIds.size > 1) throw httpError(400, "Line items on a gang sheet must share the same material");
+  const materialId = rows[0].materialId;
+
+  let material: typeof materials.$inferSelect | undefined;
+  if (materialId) {
+    [material] = await db
+      .select()
+      .from(materials)
+      .where(and(eq(materials.organizationId, organizationId), eq(materials.id, materialId)))
+      .limit(1);
+  }
+
+  const sheetWidthIn = input.sheetWidthIn ?? toInches(material?.width ?? null);
+  const sheetHeightIn = input.sheetHeightIn ?? toInches(material?.height ?? null);
+  if (!sheetWidthIn || !sheetHeightIn) {
+    throw httpError(400, material ? `${material.name} has no sheet size; enter the sheet width and height` : "Enter the sheet width and height");
+  }
+
+  // Keep the request order so the plan legend matches the operator's selection
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  const ordered = lineItemIds.map((id) => byId.get(id)!);
+
+  const items: SheetNestingItem[] = ordered.map((row) => ({
+    id: row.id,
+    label: `${row.orderNumber} · ${row.description}`.slice(0, 80),
+    widthIn: toInches(row.width) ?? 0,
+    heightIn: toInches(row.height) ?? 0,
+    quantity: row.quantity,
+  }));
+
+  let plan: SheetNestingPlan;
+  try {
+    plan = planSheetNesting(items, {
+      sheetWidthIn,
+      sheetHeightIn,
+      mode: input.mode,
+      allowRotation: input.allowRotation,
+      gutterIn: input.gutterIn,
+      bleedIn: input.bleedIn,
+      marginIn: input.marginIn,
+    });
+  } catch (error: any) {
+    throw httpError(400, error?.message || "Unable to nest these line items");
+  }
+
+  return {
+    ...plan,
+    material: material ? { id: material.id, name: material.name, sku: material.sku } : null,
+    lineItems: ordered.map((row) => ({
+      id: row.id,
+      orderId: row.orderId,
+      orderNumber: row.orderNumber,
+      description: row.description,
+      widthIn: toInches(row.width),
+      heightIn: toInches(row.height),
+      quantity: row.quantity,
+    })),
+  };
+}
@@ -130,7 +130,7 @@ function generateDerivativeKey(args: {
 /**
  * Download original file from storage
  */
-async function downloadOriginalFile(fileKey: string, storageProvider: string): Promise<Buffer | null> {
+export async function downloadOriginalFile(fileKey: string, storageProvider: string): Promise<Buffer | null> {
   try {
     if (isSupabaseConfigured() && storageProvider === 'supabase') {
       // Supabase storage (preferred for supabase provider)
@@ -37,6 +37,7 @@ import {
     type InsertJobStatusLog,
 } from "@shared/schema";
 import { eq, and, or, ilike, gte, lte, desc, sql, isNull, inArray } from "drizzle-orm";
+import { copyDiscountLines, listDocumentDiscountLines, refreshQuoteDiscountLines, sumDiscountLineCents } from "../services/promotions";
 
 const ORDER_ATTACHMENT_SAFE_SELECT = {
     id: orderAttachments.id,
@@ -65,6 +66,9 @@ const ORDER_ATTACHMENT_SAFE_SELECT = {
     side: orderAttachments.side,
     isPrimary: orderAttachments.isPrimary,
     thumbnailUrl: orderAttachments.thumbnailUrl,
+    prepressJobId: orderAttachments.prepressJobId,
+    prepressStatus: orderAttachments.prepressStatus,
+    prepressSummary: orderAttachments.prepressSummary,
     createdAt: orderAttachments.createdAt,
     updatedAt: orderAttachments.updatedAt,
 } as const;
@@ -736,89 +740,107 @@ export class OrdersRepository {
         priority?: string;
         notesInternal?: Date;
     }): Promise<OrderWithRelations> {
-        // Fetch the quote with line items
-        const [quote] = await this.dbInstance.select().from(quotes).where(and(eq(quotes.id, quoteId), eq(quotes.organizationId, organizationId)));
-        if (!quote) throw new Error('Quote not found');
+        // One transaction: promotion refresh, order insert, discount-line copy and the quote link.
+        // The quote row is locked so a concurrent conversion waits and then sees it converted.
+        const { quote, createdOrder } = await this.dbInstance.transaction(async (tx) => {
+            // Fetch the quote with line items
+            const [quote] = await tx.select().from(quotes).where(and(eq(quotes.id, quoteId), eq(quotes.organizationId, organizationId))).for('update');
+            if (!quote) throw new Error('Quote not found');
         
-        // Prevent double conversion
-        if (quote.convertedToOrderId) {
-            throw new Error('Quote is already converted to an order');
-        }
+            // Prevent double conversion
+            if (quote.convertedToOrderId) {
+                throw new Error('Quote is already converted to an order');
+            }
         
-        const quoteLines = await this.dbInstance.select().from(quoteLineItems).where(eq(quoteLineItems.quoteId, quoteId));
-        if (quoteLines.length === 0) throw new Error('Quote has no line items');
-
-        // Convert quote line items to order line items
-        const orderLineItemsData: Omit<InsertOrderLineItem, 'orderId'>[] = quoteLines.map((ql, index) => ({
-            quoteLineItemId: ql.id,
-            productId: ql.productId,
-            productVariantId: ql.variantId,
-            productType: ql.productType,
-            description: ql.productName,
-            width: ql.width ? Number(ql.width) : 0,
-            height: ql.height ? Number(ql.height) : 0,
-            quantity: ql.quantity,
-            sqft: null,
-            unitPrice: parseFloat(ql.linePrice) / ql.quantity,
-            totalPrice: parseFloat(ql.linePrice),
-            status: 'queued',
-            specsJson: ql.specsJson,
-            selectedOptions: ql.selectedOptions,
-            optionSelectionsJson: (ql as any).optionSelectionsJson ?? null,
-            // PBV2 snapshot fields (copied from quote line item - no repricing during conversion)
-            pbv2TreeVersionId: (ql as any).pbv2TreeVersionId ?? null,
-            pbv2SnapshotJson: (ql as any).pbv2SnapshotJson ?? null,
-            pricedAt: (ql as any).pricedAt ?? null, // Preserve pricing timestamp from quote
-            nestingConfigSnapshot: null,
-            requiresInventory: false,
-            materialId: null,
-            sortOrder: ql.displayOrder ?? index, // Use quote displayOrder or default to index
-            taxAmount: ql.taxAmount || '0',
-            isTaxableSnapshot: ql.isTaxableSnapshot,
-        }));
+            const quoteLines = await tx.select().from(quoteLineItems).where(eq(quoteLineItems.quoteId, quoteId));
+            if (quoteLines.length === 0) throw new Error('Quote has no line items');
 
-        // Create the order
-        const orderData = {
-            customerId: quote.customerId!,
-            contactId: quote.contactId,
-            quoteId: quote.id,
-            label: quote.label || null, // Copy jobLabel from quote
-            status: 'new',
-            priority: options?.priority || 'normal',
-            dueDate: options?.dueDate || null,
-            promisedDate: options?.promisedDate || null,
-            discount: 0,
-            notesInternal: options?.notesInternal ? String(options.notesInternal) : null,
-            createdByUserId,
-            lineItems: orderLineItemsData,
-            taxRate: quote.taxRate ? parseFloat(quote.taxRate.toString()) : undefined,
-            taxAmount: quote.taxAmount ? parseFloat(quote.taxAmount) : undefined,
-            taxableSubtotal: quote.taxableSubtotal ? parseFloat(quote.taxableSubtotal) : undefined,
-        };
+            // Promotions are re-checked at conversion; lines that no longer qualify are dropped.
+            const { removed: droppedPromotions } = await refreshQuoteDiscountLines(organizationId, quoteId, tx);
+            if (droppedPromotions.length > 0) {
+                console.log('[CONVERT QUOTE TO ORDER] Dropped promotions that no longer qualify:', droppedPromotions);
+            }
+            // The refresh may have rewritten the quote's totals
+            const [pricedQuote] = await tx.select().from(quotes).where(eq(quotes.id, quoteId));
+            const quoteDiscountLines = await listDocumentDiscountLines(organizationId, { quoteId }, tx);
+            const promotionDiscount = sumDiscountLineCents(quoteDiscountLines) / 100;
+
+            // Convert quote line items to order line items
+            const orderLineItemsData: Omit<InsertOrderLineItem, 'orderId'>[] = quoteLines.map((ql, index) => ({
+                quoteLineItemId: ql.id,
+                productId: ql.productId,
+                productVariantId: ql.variantId,
+                productType: ql.productType,
+                description: ql.productName,
+                width: ql.width ? Number(ql.width) : 0,
+                height: ql.height ? Number(ql.height) : 0,
+                quantity: ql.quantity,
+                sqft: null,
+                unitPrice: parseFloat(ql.linePrice) / ql.quantity,
+                totalPrice: parseFloat(ql.linePrice),
+                status: 'queued',
+                specsJson: ql.specsJson,
+                selectedOptions: ql.selectedOptions,
+                optionSelectionsJson: (ql as any).optionSelectionsJson ?? null,
+                // PBV2 snapshot fields (copied from quote line item - no repricing during conversion)
+                pbv2TreeVersionId: (ql as any).pbv2TreeVersionId ?? null,
+                pbv2SnapshotJson: (ql as any).pbv2SnapshotJson ?? null,
+                pricedAt: (ql as any).pricedAt ?? null, // Preserve pricing timestamp from quote
+                nestingConfigSnapshot: null,
+                requiresInventory: false,
+                materialId: null,
+                sortOrder: ql.displayOrder ?? index, // Use quote displayOrder or default to index
+                taxAmount: ql.taxAmount || '0',
+                isTaxableSnapshot: ql.isTaxableSnapshot,
+            }));
+
+            // Create the order
+            const orderData = {
+                customerId: quote.customerId!,
+                contactId: quote.contactId,
+                quoteId: quote.id,
+                label: quote.label || null, // Copy jobLabel from quote
+                status: 'new',
+                priority: options?.priority || 'normal',
+                dueDate: options?.dueDate || null,
+                promisedDate: options?.promisedDate || null,
+                discount: promotionDiscount,
+                notesInternal: options?.notesInternal ? String(options.notesInternal) : null,
+                createdByUserId,
+                lineItems: orderLineItemsData,
+                taxRate: pricedQuote.taxRate ? parseFloat(pricedQuote.taxRate.toString()) : undefined,
+                taxAmount: pricedQuote.taxAmount ? parseFloat(pricedQuote.taxAmount) : undefined,
+                taxableSubtotal: pricedQuote.taxableSubtotal ? parseFloat(pricedQuote.taxableSubtotal) : undefined,
+            };
 
-        console.log('[CONVERT QUOTE TO ORDER] Creating order:', {
-            organizationId,
-            quoteId,
-            quoteNumber: quote.quoteNumber,
-            quoteLabel: quote.label,
-            lineItemsCount: orderLineItemsData.length,
-        });
+            console.log('[CONVERT QUOTE TO ORDER] Creating order:', {
+                organizationId,
+                quoteId,
+                quoteNumber: quote.quoteNumber,
+                quoteLabel: quote.label,
+                lineItemsCount: orderLineItemsData.length,
+            });
 
-        const createdOrder = await this.createOrder(organizationId, orderData);
+            const createdOrder = await new OrdersRepository(tx as any).createOrder(organizationId, orderData);
         
-        console.log('[CONVERT QUOTE TO ORDER] Order created:', {
-            orderId: createdOrder.id,
-            orderNumber: createdOrder.orderNumber,
-            orderLabel: createdOrder.label,
-        });
+            console.log('[CONVERT QUOTE TO ORDER] Order created:', {
+                orderId: createdOrder.id,
+                orderNumber: createdOrder.orderNumber,
+                orderLabel: createdOrder.label,
+            });
 
-        // Update quote to link to the created order (marks it as converted)
-        await this.dbInstance
-            .update(quotes)
-            .set({ 
-                convertedToOrderId: createdOrder.id
-            })
-            .where(and(eq(quotes.id, quoteId), eq(quotes.organizationId, organizationId)));
+            await copyDiscountLines(quoteDiscountLines, { orderId: createdOrder.id }, tx);
+
+            // Update quote to link to the created order (marks it as converted)
+            await tx
+                .update(quotes)
+                .set({ 
+                    convertedToOrderId: createdOrder.id
+                })
+                .where(and(eq(quotes.id, quoteId), eq(quotes.organizationId, organizationId)));
+
+            return { quote, createdOrder };
+        });
 
         // PHASE 2: Copy asset_links from quote line items to order line items (fail-soft)
         try {
@@ -518,6 +518,7 @@ export class SharedRepository {
                                 .set({
                                     status: 'ACTIVE' as any,
                                     publishedAt,
+                                    effectiveFrom: publishedAt,
                                     updatedAt: publishedAt,
                                     updatedByUserId: userId,
                                     treeJson: nextTreeJson as any,
@@ -0,0 +1,67 @@
+import { PDFDocument } from 'pdf-lib';
+import sharp from 'sharp';
+import { createAttachmentAnnotationSchema } from '@shared/schema';
+import { annotationAnchor, flattenAnnotationsToPdf, type FlattenAnnotation } from '../lib/annotationPdfExport';
+
+describe('Attachment annotations', () => {
+  const comment = (body: string) => ({ authorName: 'Sam Ortiz', body, createdAt: new Date('2026-01-05T10:00:00Z') });
+
+  const annotations: FlattenAnnotation[] = [
+    { pageIndex: 0, kind: 'pin', geometry: { x: 0.5, y: 0.5 }, color: '#ef4444', resolved: false, comments: [comment('Bleed too tight')] },
+    {
+      pageIndex: 1,
+      kind: 'rect',
+      geometry: { x: 0.1, y: 0.1, w: 0.3, h: 0.2 },
+      color: '#2563eb',
+      resolved: true,
+      comments: [comment('Swap logo → vector'), comment('Done')],
+    },
+    {
+      pageIndex: 5,
+      kind: 'freehand',
+      geometry: { points: [[0.2, 0.8], [0.3, 0.7], [0.4, 0.8]] },
+      color: '#16a34a',
+      resolved: false,
+      comments: [comment('Off the end of the file')],
+    },
+  ];
+
+  test('PDF source keeps its pages and page size, and gains a comment list', async () => {
+    const source = await PDFDocument.create();
+    source.addPage([288, 432]);
+    source.addPage([288, 432]);
+    const bytes = await source.save();
+
+    const out = await PDFDocument.load(
+      await flattenAnnotationsToPdf({ bytes, mimeType: 'application/pdf', fileName: 'card.pdf' }, annotations)
+    );
+    expect(out.getPageCount()).toBe(3);
+    expect(out.getPage(0).getSize()).toEqual({ width: 288, height: 432 });
+    expect(out.getPage(2).getSize()).toEqual({ width: 612, height: 792 });
+  });
+
+  test('image source becomes a page of its pixel size', async () => {
+    const png = await sharp({ create: { width: 300, height: 200, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+    const out = await PDFDocument.load(
+      await flattenAnnotationsToPdf({ bytes: png, mimeType: 'image/png', fileName: 'banner.png' }, [annotations[0]])
+    );
+    expect(out.getPageCount()).toBe(2);
+    expect(out.getPage(0).getSize()).toEqual({ width: 300, height: 200 });
+  });
+
+  test('shapes are validated against the normalized page and need an opening comment', () => {
+    expect(annotationAnchor({ points: [[0.4, 0.9], [0.2, 0.3]] })).toEqual({ x: 0.2, y: 0.3 });
+
+    const pin = createAttachmentAnnotationSchema.parse({ kind: 'pin', geometry: { x: 0.2, y: 0.4 }, body: 'Check this' });
+    expect(pin.pageIndex).toBe(0);
+
+    expect(createAttachmentAnnotationSchema.safeParse({ kind: 'pin', geometry: { x: 0.2, y: 0.4 }, body: '' }).success).toBe(false);
+    expect(
+      createAttachmentAnnotationSchema.safeParse({ kind: 'rect', geometry: { x: 0.9, y: 0, w: 1.2, h: 0.1 }, body: 'Too wide' }).success
+    ).toBe(false);
+    expect(
+      createAttachmentAnnotationSchema.safeParse({ kind: 'freehand', geometry: { points: [[0.1, 0.1]] }, body: 'Single point' }).success
+    ).toBe(false);
+  });
+});
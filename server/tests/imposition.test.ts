@@ -0,0 +1,74 @@
+import { PDFDocument } from 'pdf-lib';
+import { planImposition } from '@shared/imposition';
+import { readArtworkInfo, renderImpositionPdf } from '../prepress/imposition';
+
+describe('Imposition', () => {
+  const businessCards = {
+    sheetWidthIn: 12,
+    sheetHeightIn: 18,
+    trimWidthIn: 3.5,
+    trimHeightIn: 2,
+    gutterIn: 0.25,
+    bleedIn: 0.125,
+    marginIn: 0.375,
+  };
+
+  test('step and repeat fills the sheet once and runs it as many times as needed', () => {
+    const plan = planImposition({ ...businessCards, mode: 'step_and_repeat', quantity: 500 });
+
+    expect(plan).toMatchObject({ columns: 3, rows: 7, rotated: false, totalSheets: 24, overs: 4 });
+    expect(plan.sheets).toHaveLength(1);
+    expect(plan.sheets[0].copies).toBe(24);
+    // Grid is centred; outside bleed in full, inside bleed capped at half the gutter
+    expect(plan.slots[0]).toMatchObject({ x: 0.5, bleed: { left: 0.125, right: 0.125, top: 0.125 } });
+    expect(plan.slots[plan.slots.length - 1].x + plan.slots[0].width).toBeCloseTo(11.5, 3);
+  });
+
+  test('n-up runs designs across the sheet; cut and stack runs them down each stack', () => {
+    const small = { sheetWidthIn: 8, sheetHeightIn: 5, trimWidthIn: 3.5, trimHeightIn: 2, marginIn: 0.25, allowRotation: false };
+
+    const nUp = planImposition({ ...small, mode: 'n_up', quantity: 2, designCount: 3 });
+    expect(nUp.slots).toHaveLength(4);
+    expect(nUp.sheets.map((s) => s.designs)).toEqual([
+      [0, 0, 1, 1],
+      [2, 2, null, null],
+    ]);
+
+    const stacked = planImposition({ ...small, mode: 'cut_and_stack', quantity: 2, designCount: 3 });
+    expect(stacked.sheets).toEqual([{ index: 0, copies: 2, designs: [0, 1, 2, null] }]);
+    expect(stacked.totalSheets).toBe(2);
+  });
+
+  test('rotates when that fits more pieces and reports when nothing fits', () => {
+    const plan = planImposition({ sheetWidthIn: 8.5, sheetHeightIn: 11, trimWidthIn: 5, trimHeightIn: 3, mode: 'step_and_repeat', quantity: 10 });
+    expect(plan).toMatchObject({ rotated: true, columns: 2, rows: 2 });
+    expect(plan.slots[0]).toMatchObject({ width: 3, height: 5 });
+
+    const tooBig = planImposition({ ...businessCards, trimWidthIn: 20, trimHeightIn: 20, mode: 'n_up', quantity: 1 });
+    expect(tooBig.sheets).toHaveLength(0);
+    expect(tooBig.warnings[0]).toMatch(/does not fit/);
+  });
+
+  test('renders fronts and work-and-turn backs at sheet size', async () => {
+    const artwork = await PDFDocument.create();
+    for (const color of [0.2, 0.8]) {
+      const page = artwork.addPage([270, 162]);
+      page.setTrimBox(9, 9, 252, 144);
+      page.drawRectangle({ x: 0, y: 0, width: 270, height: 162, opacity: color });
+    }
+    const artworkPdf = Buffer.from(await artwork.save());
+
+    const info = await readArtworkInfo(artworkPdf);
+    expect(info).toEqual({ pageCount: 2, trimWidthIn: 3.5, trimHeightIn: 2, mismatchedPages: [] });
+
+    const plan = planImposition({ ...businessCards, sheetWidthIn: 8.5, sheetHeightIn: 11, mode: 'step_and_repeat', quantity: 100 });
+    const bytes = await renderImpositionPdf(artworkPdf, plan, {
+      duplex: true,
+      slug: { orderNumber: '1042', lineItem: 'Business cards – matte', customer: 'Acme Co' },
+    });
+
+    const out = await PDFDocument.load(bytes);
+    expect(out.getPageCount()).toBe(2);
+    expect(out.getPage(1).getSize()).toEqual({ width: 612, height: 792 });
+  });
+});
@@ -0,0 +1,67 @@
+import { rollupJobCost, sumJobCosts } from '@shared/jobCosting';
+
+describe('Job costing', () => {
+  test('costs material, labor and machine time against the sell price', () => {
+    const cost = rollupJobCost({
+      timeEntries: [
+        // 1.5 h printing at $24/h labor and $40/h machine
+        { seconds: 5400, laborRatePerHour: 24, machineRatePerHour: 40 },
+        // 30 min finishing by an operator without a rate, at a station without one
+        { seconds: 1800, laborRatePerHour: null, machineRatePerHour: null },
+      ],
+      materials: [
+        { quantityUsed: 32, costPerUnit: 0.4125 },
+        { quantityUsed: 8, costPerUnit: 0.35 },
+      ],
+      sellPrice: 250,
+    });
+
+    expect(cost).toEqual({
+      laborSeconds: 7200,
+      unratedLaborSeconds: 1800,
+      laborCost: 36,
+      machineCost: 60,
+      materialCost: 16,
+      totalCost: 112,
+      sellPrice: 250,
+      margin: 138,
+      marginPercent: 55.2,
+    });
+  });
+
+  test('a line item sold at no charge has a negative margin and no margin percent', () => {
+    const cost = rollupJobCost({
+      timeEntries: [{ seconds: 1000, laborRatePerHour: 30, machineRatePerHour: null }],
+      materials: [],
+      sellPrice: 0,
+    });
+
+    expect(cost.laborCost).toBe(8.33);
+    expect(cost.margin).toBe(-8.33);
+    expect(cost.marginPercent).toBeNull();
+  });
+
+  test('sums line items into order totals', () => {
+    const a = rollupJobCost({
+      timeEntries: [{ seconds: 3600, laborRatePerHour: 20, machineRatePerHour: 10 }],
+      materials: [{ quantityUsed: 10, costPerUnit: 1.5 }],
+      sellPrice: 100,
+    });
+    const b = rollupJobCost({
+      timeEntries: [{ seconds: 600, laborRatePerHour: null, machineRatePerHour: null }],
+      materials: [],
+      sellPrice: 20,
+    });
+
+    const totals = sumJobCosts([a, b]);
+    expect(totals).toMatchObject({
+      laborSeconds: 4200,
+      unratedLaborSeconds: 600,
+      totalCost: 45,
+      sellPrice: 120,
+      margin: 75,
+      marginPercent: 62.5,
+    });
+    expect(sumJobCosts([]).marginPercent).toBeNull();
+  });
+});
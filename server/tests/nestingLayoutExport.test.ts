@@ -0,0 +1,59 @@
+import { PDFDocument } from 'pdf-lib';
+import { planSheetNesting } from '@shared/sheetNesting';
+import { planRollNesting } from '@shared/rollNesting';
+import {
+  generateNestingLayoutPdfBytes,
+  renderNestingLayoutSvg,
+  rollPlanToLayout,
+  sheetPlanToLayout,
+} from '../lib/nestingLayoutExport';
+
+describe('Nesting layout export', () => {
+  const sheetPlan = planSheetNesting(
+    [
+      { id: 'li-1', label: 'Yard signs <A&B>', widthIn: 24, heightIn: 18, quantity: 10 },
+      { id: 'li-2', label: 'Door panel', widthIn: 12, heightIn: 36, quantity: 1 },
+    ],
+    { sheetWidthIn: 48, sheetHeightIn: 96, marginIn: 0.5 }
+  );
+
+  test('SVG is true size with sheet border, piece outlines, labels and four registration marks', () => {
+    const doc = sheetPlanToLayout(sheetPlan, 'Order 1001');
+    expect(doc.pages).toHaveLength(sheetPlan.totalSheets);
+
+    const svg = renderNestingLayoutSvg(doc.pages[0]);
+    expect(svg).toContain('width="48in" height="96in" viewBox="0 0 48 96"');
+    expect(svg).toContain('id="sheet-border"');
+    expect(svg.match(/stroke="#e6007e"/g)).toHaveLength(doc.pages[0].pieces.length);
+    expect(svg.match(/<circle /g)).toHaveLength(4);
+    expect(svg).toContain('Yard signs &lt;A&amp;B&gt; #1');
+    expect(svg).not.toContain('<A&B>');
+  });
+
+  test('PDF has one 1:1 page per sheet and is deterministic', async () => {
+    const doc = sheetPlanToLayout(sheetPlan, 'Order 1001 → gang');
+    const bytesA = await generateNestingLayoutPdfBytes(doc);
+    const bytesB = await generateNestingLayoutPdfBytes(doc);
+    expect(Buffer.from(bytesA).equals(Buffer.from(bytesB))).toBe(true);
+
+    const pdf = await PDFDocument.load(bytesA);
+    expect(pdf.getPageCount()).toBe(sheetPlan.totalSheets);
+    expect(pdf.getPage(0).getSize()).toEqual({ width: 48 * 72, height: 96 * 72 });
+  });
+
+  test('long roll runs are scaled to fit the PDF page limit', async () => {
+    const rollPlan = planRollNesting([{ id: 'job-1', label: 'Banner', widthIn: 48, heightIn: 120, quantity: 3 }], {
+      rollWidthIn: 54,
+      leadWasteFt: 1,
+      tailWasteFt: 1,
+    });
+    const doc = rollPlanToLayout(rollPlan, 'Order 1002');
+    expect(doc.pages[0].heightIn).toBe(384);
+    expect(doc.pages[0].guides.map((g) => g.label)).toEqual(['LEAD 1 ft', 'TAIL 1 ft']);
+
+    const pdf = await PDFDocument.load(await generateNestingLayoutPdfBytes(doc));
+    const { width, height } = pdf.getPage(0).getSize();
+    expect(height).toBeCloseTo(14400, 3);
+    expect(width).toBeCloseTo((54 / 384) * 14400, 3);
+  });
+});
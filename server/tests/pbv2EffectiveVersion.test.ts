@@ -0,0 +1,52 @@
+import { describe, expect, test } from "@jest/globals";
+import {
+  parsePbv2PublishEffectiveFrom,
+  resolvePbv2PricingAt,
+  selectEffectivePbv2TreeVersionId,
+} from "../lib/pbv2EffectiveVersion";
+
+describe("PBV2 effective-dated tree versions", () => {
+  const rows = [
+    { id: "tv_1", status: "DEPRECATED", effectiveFrom: "2026-01-01T00:00:00.000Z" },
+    { id: "tv_2", status: "DEPRECATED", effectiveFrom: new Date("2026-02-01T00:00:00.000Z") },
+    { id: "tv_3", status: "ACTIVE", effectiveFrom: "2026-03-01T00:00:00.000Z" },
+    { id: "tv_4", status: "SCHEDULED", effectiveFrom: "2026-04-01T00:00:00.000Z" },
+    { id: "tv_draft", status: "DRAFT", effectiveFrom: null },
+    { id: "tv_archived", status: "ARCHIVED", effectiveFrom: "2026-02-15T00:00:00.000Z" },
+  ];
+
+  test("selectEffectivePbv2TreeVersionId picks the latest published version at the given time", () => {
+    expect(selectEffectivePbv2TreeVersionId(rows, new Date("2025-12-31T00:00:00.000Z"))).toBeNull();
+    expect(selectEffectivePbv2TreeVersionId(rows, new Date("2026-01-15T00:00:00.000Z"))).toBe("tv_1");
+    expect(selectEffectivePbv2TreeVersionId(rows, new Date("2026-02-01T00:00:00.000Z"))).toBe("tv_2");
+    expect(selectEffectivePbv2TreeVersionId(rows, new Date("2026-02-20T00:00:00.000Z"))).toBe("tv_2");
+    expect(selectEffectivePbv2TreeVersionId(rows, new Date("2026-03-15T00:00:00.000Z"))).toBe("tv_3");
+    expect(selectEffectivePbv2TreeVersionId(rows, new Date("2026-05-01T00:00:00.000Z"))).toBe("tv_4");
+  });
+
+  test("parsePbv2PublishEffectiveFrom publishes now unless effectiveFrom is meaningfully in the future", () => {
+    const now = new Date("2026-03-01T12:00:00.000Z");
+
+    expect(parsePbv2PublishEffectiveFrom(undefined, now)).toEqual({ mode: "now", effectiveFrom: now });
+    expect(parsePbv2PublishEffectiveFrom("", now).mode).toBe("now");
+    expect(parsePbv2PublishEffectiveFrom("2026-02-01T00:00:00.000Z", now).mode).toBe("now");
+    expect(parsePbv2PublishEffectiveFrom("2026-03-01T12:00:30.000Z", now).mode).toBe("now");
+
+    const scheduled = parsePbv2PublishEffectiveFrom("2026-03-02T09:00:00.000Z", now);
+    expect(scheduled.mode).toBe("scheduled");
+    expect(scheduled.effectiveFrom.toISOString()).toBe("2026-03-02T09:00:00.000Z");
+
+    expect(() => parsePbv2PublishEffectiveFrom("next tuesday", now)).toThrow("effectiveFrom must be an ISO date-time");
+    expect(() => parsePbv2PublishEffectiveFrom(42, now)).toThrow();
+  });
+
+  test("resolvePbv2PricingAt prefers explicit pricingAt, then the document date", () => {
+    expect(resolvePbv2PricingAt({ pricingAt: "2026-01-05T00:00:00.000Z", documentCreatedAt: "2026-01-01T00:00:00.000Z" })?.toISOString())
+      .toBe("2026-01-05T00:00:00.000Z");
+    expect(resolvePbv2PricingAt({ pricingAt: "bogus", documentCreatedAt: "2026-01-01T00:00:00.000Z" })?.toISOString())
+      .toBe("2026-01-01T00:00:00.000Z");
+    expect(resolvePbv2PricingAt({ documentCreatedAt: new Date("2026-01-02T00:00:00.000Z") })?.toISOString())
+      .toBe("2026-01-02T00:00:00.000Z");
+    expect(resolvePbv2PricingAt({})).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+import { deriveLineItemFlags } from '@shared/lineItemFlags';
+import { countAttachmentsWithBlockers, isPreflightableAttachment } from '../prepress/attachments-service';
+import { validateOrderTransition, type TransitionContext } from '../services/orderTransition';
+import type { Order } from '@shared/schema';
+
+const summary = (BLOCKER: number, WARNING = 0) => ({ score: 100 - BLOCKER * 10, counts: { BLOCKER, WARNING, INFO: 0 }, pageCount: 1 });
+
+function transitionContext(overrides: Partial<TransitionContext> = {}): TransitionContext {
+  const order = {
+    id: 'order-1',
+    status: 'new',
+    dueDate: '2026-11-01',
+    billToName: 'Acme',
+    billToCompany: null,
+    shipToName: null,
+    shipToCompany: null,
+  } as unknown as Order;
+  return { order, lineItemsCount: 1, attachmentsCount: 1, ...overrides };
+}
+
+describe('Automatic preflight of line item artwork', () => {
+  test('only line item artwork in a supported format is preflighted', () => {
+    const base = { orderLineItemId: 'li-1', fileName: 'front.PDF', originalFilename: null, role: 'other' as const };
+    expect(isPreflightableAttachment(base)).toBe(true);
+    expect(isPreflightableAttachment({ ...base, role: 'artwork' })).toBe(true);
+    expect(isPreflightableAttachment({ ...base, fileName: 'notes.docx' })).toBe(false);
+    expect(isPreflightableAttachment({ ...base, role: 'customer_po' })).toBe(false);
+    expect(isPreflightableAttachment({ ...base, orderLineItemId: null })).toBe(false);
+  });
+
+  test('counts attachments whose finished preflight found blockers', () => {
+    expect(
+      countAttachmentsWithBlockers([
+        { prepressStatus: 'succeeded', prepressSummary: summary(2) },
+        { prepressStatus: 'succeeded', prepressSummary: summary(0, 3) },
+        { prepressStatus: 'queued', prepressSummary: null },
+        { prepressStatus: 'failed', prepressSummary: null },
+      ])
+    ).toBe(1);
+  });
+
+  test('line item flag surfaces blockers unless suppressed', () => {
+    const items = [
+      { prepressStatus: 'succeeded', prepressSummary: summary(2) },
+      { prepressStatus: 'succeeded', prepressSummary: summary(1) },
+      { prepressStatus: 'succeeded', prepressSummary: summary(0, 4) },
+    ];
+    const ctx = { artwork: { lineItemAttachments: { associationKnown: true, count: items.length, items } } };
+
+    const flags = deriveLineItemFlags({}, ctx);
+    expect(flags).toEqual([
+      {
+        key: 'preflight_blockers',
+        label: 'Preflight blockers',
+        tone: 'danger',
+        tooltip: '3 preflight blockers in 2 artwork files — see artwork list',
+        onClick: null,
+      },
+    ]);
+
+    const suppressed = { specsJson: { flags: { suppressed: { preflight_blockers: { reason: 'Customer approved', at: '2026-10-01T00:00:00Z' } } } } };
+    expect(deriveLineItemFlags(suppressed, ctx)).toEqual([]);
+  });
+
+  test('blockers warn by default and block production when the org opts in', () => {
+    const warned = validateOrderTransition('new', 'in_production', transitionContext({ preflightBlockerCount: 2 }));
+    expect(warned.ok).toBe(true);
+    expect(warned.warnings).toEqual(['2 artwork file(s) have preflight blockers.']);
+
+    const blocked = validateOrderTransition(
+      'on_hold',
+      'in_production',
+      transitionContext({ preflightBlockerCount: 1, orgPreferences: { orders: { blockProductionOnPreflightBlockers: true } } })
+    );
+    expect(blocked).toMatchObject({ ok: false, code: 'PREFLIGHT_BLOCKERS' });
+
+    const clean = validateOrderTransition(
+      'new',
+      'in_production',
+      transitionContext({ preflightBlockerCount: 0, orgPreferences: { orders: { blockProductionOnPreflightBlockers: true } } })
+    );
+    expect(clean).toEqual({ ok: true });
+  });
+});
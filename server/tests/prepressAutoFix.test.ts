@@ -0,0 +1,89 @@
+import { PDFDocument, rgb } from 'pdf-lib';
+import { fixSkipReason, orderRequestedFixes, parseRequestedFixes, type FixState } from '../prepress/autoFix';
+import { addBleed, rotateToOrientation, scaleToTrim } from '../prepress/toolchain/pageGeometry';
+import { readPageBoxes } from '../prepress/toolchain/pageBoxes';
+import { checkPageSizes, DEFAULT_SIZE_TOLERANCE_IN } from '../prepress/sizeChecks';
+import type { PreflightSizeProfile } from '../prepress/types';
+
+const profile: PreflightSizeProfile = {
+  source: { orderLineItemId: 'li-1', productId: 'prod-1' },
+  trimWidthIn: 4,
+  trimHeightIn: 2,
+  bleedIn: 0.125,
+  safeZoneIn: 0,
+  toleranceIn: DEFAULT_SIZE_TOLERANCE_IN,
+};
+
+async function makePdf(sizes: Array<[number, number]>): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  for (const [width, height] of sizes) {
+    const page = pdf.addPage([width, height]);
+    page.drawRectangle({ x: 0, y: 0, width, height, color: rgb(0.2, 0.4, 0.8) });
+  }
+  return Buffer.from(await pdf.save());
+}
+
+function state(overrides: Partial<FixState> = {}): FixState {
+  return { issues: [], fontsEmbedded: 'unknown', colorSpace: 'not_analyzed', pageBoxes: [], ...overrides };
+}
+
+describe('Prepress auto-fix catalog', () => {
+  test('requested fixes are validated and run in catalog order; none requested keeps normalize', () => {
+    expect(orderRequestedFixes(null)).toEqual(['normalize_via_ghostscript']);
+    expect(parseRequestedFixes(' rgb_to_cmyk, add_bleed_mirror,rotate_to_orientation ')).toEqual({
+      fixes: ['rotate_to_orientation', 'add_bleed_mirror', 'rgb_to_cmyk'],
+    });
+    expect(parseRequestedFixes('')).toEqual({ fixes: null });
+    expect(parseRequestedFixes('rgb_to_cmyk,sharpen').error).toBe('Unknown fix: sharpen');
+    expect(parseRequestedFixes('add_bleed_mirror,add_bleed_stretch').error).toMatch(/either mirrored or stretched/);
+  });
+
+  test('fixes are skipped when the file does not need them', () => {
+    expect(fixSkipReason('add_bleed_mirror', state(), null)).toBe('No bleed required for this item');
+    expect(fixSkipReason('add_bleed_mirror', state(), profile)).toBe('Bleed already present');
+    expect(
+      fixSkipReason('add_bleed_mirror', state({ issues: [{ severity: 'BLOCKER', code: 'MISSING_BLEED', message: '' }] }), profile)
+    ).toBeNull();
+    expect(
+      fixSkipReason('rgb_to_cmyk', state({ colorSpace: { hasRGB: false, hasCMYK: true, hasSpot: false } }), null)
+    ).toBe('No RGB color found');
+    expect(fixSkipReason('embed_fonts', state({ fontsEmbedded: true }), null)).toBe('All fonts are already embedded');
+    expect(fixSkipReason('flatten_transparency', state(), null)).toBeNull();
+  });
+
+  test.each(['mirror', 'stretch'] as const)('%s bleed turns a trim-size page into trim + bleed that passes', async (mode) => {
+    const input = await makePdf([[288, 144]]);
+    const before = await readPageBoxes(input);
+    expect(checkPageSizes(before.pages, profile).map((i) => i.code)).toEqual(['MISSING_BLEED']);
+
+    const result = await addBleed(input, [before.pages[0].mediaBox], 9, mode);
+    expect(result.changedPages).toEqual([1]);
+
+    const after = await readPageBoxes(result.buffer);
+    expect(after.pages[0].mediaBox).toEqual({ x: 0, y: 0, width: 306, height: 162 });
+    expect(after.pages[0].trimBox).toEqual({ x: 9, y: 9, width: 288, height: 144 });
+    expect(after.pages[0].hasBleedBox).toBe(true);
+    expect(checkPageSizes(after.pages, profile)).toEqual([]);
+  });
+
+  test('scale to trim fits the page to the ordered size in its own orientation', async () => {
+    const input = await makePdf([[144, 72], [72, 144]]);
+    const { pages } = await readPageBoxes(input);
+
+    const result = await scaleToTrim(input, pages.map((p) => p.mediaBox), { widthPt: 288, heightPt: 144 });
+    expect(result.changedPages).toEqual([1, 2]);
+
+    const after = await readPageBoxes(result.buffer);
+    expect(after.pages.map((p) => [p.mediaBox.width, p.mediaBox.height])).toEqual([[288, 144], [144, 288]]);
+    expect(checkPageSizes(after.pages, { ...profile, bleedIn: 0 })).toEqual([]);
+  });
+
+  test('rotate to orientation only turns pages that differ', async () => {
+    const input = await makePdf([[144, 288], [288, 144]]);
+    const result = await rotateToOrientation(input, true);
+    expect(result.changedPages).toEqual([1]);
+
+    const after = await readPageBoxes(result.buffer);
+    expect(after.pages.map((p) => p.rotation)).toEqual([90, 0]);
+  });
+});
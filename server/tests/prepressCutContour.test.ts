@@ -0,0 +1,112 @@
+import sharp from 'sharp';
+import { PDFDocument, PDFName } from 'pdf-lib';
+import { checkProfileRules } from '../prepress/profileChecks';
+import { prepressProfileRulesSchema } from '../prepress/schema';
+import { isCutContourSpotColor, isOperationalSpotColor } from '../prepress/spotColors';
+import { cutContourToDxf, cutContourToSvg, extractCutContour } from '../prepress/toolchain/cutContour';
+import { drawCutContour, traceAlphaContour } from '../prepress/toolchain/alphaContour';
+
+const sticker = prepressProfileRulesSchema.parse({ cutContourRequired: true });
+const noRules = { pageCount: 1, images: 'not_analyzed' as const, colorSpace: 'not_analyzed' as const };
+
+/** 300 x 300 pt page, bleed box inset 9 pt, with `content` drawn after a process-color background */
+async function pdfWithContent(content: string): Promise<Buffer> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([300, 300]);
+  page.setBleedBox(9, 9, 282, 282);
+  page.setTrimBox(18, 18, 264, 264);
+
+  const tint = doc.context.obj({ FunctionType: 2, Domain: [0, 1], C0: [0, 0, 0, 0], C1: [0, 1, 0, 0], N: 1 });
+  const cutContour = doc.context.obj([PDFName.of('Separation'), PDFName.of('CutContour'), PDFName.of('DeviceCMYK'), tint]);
+  page.node.Resources()!.set(PDFName.of('ColorSpace'), doc.context.obj({ CS0: cutContour }));
+
+  const form = doc.context.stream('/CS0 CS 1 SCN 0 0 50 50 re S', {
+    Type: 'XObject',
+    Subtype: 'Form',
+    BBox: [0, 0, 50, 50],
+    Matrix: [1, 0, 0, 1, 200, 200],
+    Resources: { ColorSpace: { CS0: cutContour } },
+  });
+  page.node.Resources()!.set(PDFName.of('XObject'), doc.context.obj({ Fm1: doc.context.register(form) }));
+
+  const body = `0 0 1 0 k 0 0 300 300 re f\n${content}`;
+  page.node.addContentStream(doc.context.register(doc.context.stream(body)));
+  return Buffer.from(await doc.save());
+}
+
+describe('Prepress cut contour', () => {
+  test('recognizes cut-line separation names', () => {
+    expect(['CutContour', 'Cut Contour', 'DIE-LINE', 'thru_cut', 'KissCut'].every(isCutContourSpotColor)).toBe(true);
+    expect(isCutContourSpotColor('PANTONE 185 C')).toBe(false);
+    expect(isOperationalSpotColor('Die Cut')).toBe(true);
+  });
+
+  test('finds stroked cut paths through the CTM and form XObjects, within the bleed', async () => {
+    const pdf = await pdfWithContent('q 1 0 0 1 20 20 cm /CS0 CS 1 SCN 0.5 w 0 0 m 100 0 l 100 100 0 100 0 0 c h S Q\nq /Fm1 Do Q');
+    const result = await extractCutContour(pdf);
+
+    expect(result.issues).toEqual([]);
+    expect(result.cutContour).toMatchObject({ spotNames: ['CutContour'], exportPage: 1 });
+    expect(result.cutContour!.pages[0]).toMatchObject({
+      pathCount: 2,
+      spotNames: ['CutContour'],
+      bbox: { x: 20, y: 20, width: 230, height: 230 },
+    });
+    expect(checkProfileRules(sticker, { ...noRules, cutContour: result.cutContour! })).toEqual([]);
+
+    const svg = cutContourToSvg(result.pages[0]);
+    expect(svg).toContain('width="4.167in"');
+    expect(svg).toContain('<path id="CutContour" d="M20 280 L120 280 C');
+    const dxf = cutContourToDxf(result.pages[0]);
+    expect(dxf.match(/\nPOLYLINE\n/g)).toHaveLength(2);
+    expect(dxf).toContain('\nCutContour\n');
+    expect(dxf.trimEnd().endsWith('EOF')).toBe(true);
+  });
+
+  test('flags cut paths past the bleed, unused cut separations and missing cut paths', async () => {
+    const outside = await extractCutContour(await pdfWithContent('/CS0 CS 1 SCN 2 2 150 150 re S'));
+    const [issue, ...rest] = checkProfileRules(sticker, { ...noRules, cutContour: outside.cutContour! });
+    expect(rest).toEqual([]);
+    expect(issue).toMatchObject({ severity: 'BLOCKER', code: 'CUT_CONTOUR_OUTSIDE_BLEED', page: 1 });
+    expect(issue.bbox!.x).toBeCloseTo(2 / 300, 5);
+    expect(issue.bbox!.y).toBeCloseTo(148 / 300, 5);
+
+    // Separation defined (and used by the unpainted form) but nothing stroked in it
+    const unused = await extractCutContour(await pdfWithContent('/CS0 CS 1 SCN 20 20 100 100 re n'));
+    expect(checkProfileRules(sticker, { ...noRules, cutContour: unused.cutContour! }).map((i) => `${i.severity}:${i.code}`))
+      .toEqual(['BLOCKER:CUT_CONTOUR_EMPTY']);
+
+    const doc = await PDFDocument.create();
+    doc.addPage([200, 200]).drawRectangle({ x: 10, y: 10, width: 50, height: 50 });
+    const plain = await extractCutContour(Buffer.from(await doc.save()));
+    expect(plain.cutContour).toMatchObject({ spotNames: [], exportPage: undefined });
+    expect(checkProfileRules(sticker, { ...noRules, cutContour: plain.cutContour! }).map((i) => i.code)).toEqual(['CUT_CONTOUR_MISSING']);
+    expect(checkProfileRules(prepressProfileRulesSchema.parse({}), { ...noRules, cutContour: plain.cutContour! })).toEqual([]);
+  });
+
+  test('traces an offset contour from PNG alpha and stamps it as CutContour', async () => {
+    // 200 x 100 px at 100 px/in: a 60 px opaque disc centred at (100, 50) on transparency
+    const png = await sharp(Buffer.from(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="200" height="100"><circle cx="100" cy="50" r="30" fill="#0a0"/></svg>'
+    )).png().toBuffer();
+
+    const contour = await traceAlphaContour(png, { offsetIn: 0.1, widthIn: 2 });
+    expect(contour!.loops).toHaveLength(1);
+    const xs = contour!.loops[0].map((p) => p.x * 200);
+    const ys = contour!.loops[0].map((p) => p.y * 100);
+    // Disc radius 30 px grown by 10 px
+    expect(Math.min(...xs)).toBeCloseTo(60, -0.5);
+    expect(Math.max(...xs)).toBeCloseTo(140, -0.5);
+    expect(Math.min(...ys)).toBeCloseTo(10, -0.5);
+
+    const opaque = await sharp({ create: { width: 20, height: 20, channels: 3, background: '#fff' } }).png().toBuffer();
+    expect(await traceAlphaContour(opaque, { offsetIn: 0.1, widthIn: 1 })).toBeNull();
+
+    const doc = await PDFDocument.create();
+    doc.addPage([144, 72]);
+    const stamped = await drawCutContour(Buffer.from(await doc.save()), contour!);
+    const result = await extractCutContour(stamped);
+    expect(result.cutContour!.pages[0]).toMatchObject({ pathCount: 1, spotNames: ['CutContour'] });
+    expect(result.cutContour!.pages[0].bbox!.width).toBeCloseTo(57.6, -0.5);
+  });
+});
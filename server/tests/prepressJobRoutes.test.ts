@@ -0,0 +1,109 @@
+/**
+ * Prepress job routes: jobs are created in the caller's organization, so an org preflight
+ * profile picked at upload is accepted and stored on the job.
+ *
+ * PREREQUISITES: DATABASE_URL in .env with migrations applied.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import express from 'express';
+import request from 'supertest';
+import os from 'os';
+import path from 'path';
+import { db } from '../db';
+import { organizations } from '@shared/schema';
+import { insertPrepressProfileSchema, prepressJobs, prepressProfiles } from '../prepress/schema';
+import { registerPrepressRoutes } from '../prepress/routes';
+import { createPrepressProfile } from '../prepress/profiles-service';
+import { deleteJobDirectory } from '../prepress/storage';
+import { eq, inArray } from 'drizzle-orm';
+
+const PDF_BYTES = Buffer.from('%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF\n');
+
+function createTestApp(opts: { organizationId: string; role?: string }) {
+  const app = express();
+  // Minimal auth/org context injection (avoid full localAuth/replitAuth wiring)
+  const isAuthenticated = (req: any, _res: any, next: any) => {
+    req.user = { id: 'user_test_prepress', role: opts.role ?? 'employee' };
+    next();
+  };
+  const tenantContext = (req: any, _res: any, next: any) => {
+    req.organizationId = opts.organizationId;
+    next();
+  };
+  registerPrepressRoutes(app, { isAuthenticated, tenantContext });
+  return app;
+}
+
+function uploadJob(app: express.Express, fields: Record<string, string>) {
+  const req = request(app).post('/api/prepress/jobs');
+  for (const [name, value] of Object.entries(fields)) req.field(name, value);
+  return req.attach('file', PDF_BYTES, { filename: 'artwork.pdf', contentType: 'application/pdf' });
+}
+
+describe('POST /api/prepress/jobs', () => {
+  const stamp = Date.now();
+  const orgId = `org_test_prepress_${stamp}`;
+  const otherOrgId = `org_test_prepress_other_${stamp}`;
+  const jobIds: string[] = [];
+  let profileId = '';
+  let otherProfileId = '';
+
+  beforeAll(async () => {
+    process.env.PREPRESS_TEMP_DIR = path.join(os.tmpdir(), `prepress-routes-${stamp}`);
+    await db.insert(organizations).values([
+      { id: orgId, name: 'Test Org (prepress routes)', slug: `test-prepress-${stamp}` },
+      { id: otherOrgId, name: 'Other Org (prepress routes)', slug: `test-prepress-other-${stamp}` },
+    ] as any);
+    const profile = await createPrepressProfile(
+      orgId,
+      insertPrepressProfileSchema.parse({ name: 'Banner 150dpi', rules: { minEffectiveDpi: 150 } })
+    );
+    const otherProfile = await createPrepressProfile(otherOrgId, insertPrepressProfileSchema.parse({ name: 'Other org' }));
+    profileId = profile.id;
+    otherProfileId = otherProfile.id;
+  });
+
+  afterAll(async () => {
+    // Best-effort cleanup
+    for (const jobId of jobIds) {
+      try {
+        await deleteJobDirectory(jobId);
+      } catch {}
+    }
+    try {
+      if (jobIds.length > 0) await db.delete(prepressJobs).where(inArray(prepressJobs.id, jobIds));
+    } catch {}
+    try {
+      await db.delete(prepressProfiles).where(inArray(prepressProfiles.organizationId, [orgId, otherOrgId]));
+    } catch {}
+    try {
+      await db.delete(organizations).where(inArray(organizations.id, [orgId, otherOrgId]));
+    } catch {}
+  });
+
+  test('creates the job in the caller org with the chosen profile', async () => {
+    const res = await uploadJob(createTestApp({ organizationId: orgId }), { mode: 'check', profileId });
+
+    expect(res.status).toBe(201);
+    const jobId = res.body.data.jobId as string;
+    jobIds.push(jobId);
+
+    const job = await db.query.prepressJobs.findFirst({ where: eq(prepressJobs.id, jobId) });
+    expect(job?.organizationId).toBe(orgId);
+    expect(job?.profileId).toBe(profileId);
+  });
+
+  test("rejects another org's profile", async () => {
+    const res = await uploadJob(createTestApp({ organizationId: orgId }), { mode: 'check', profileId: otherProfileId });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Preflight profile not found');
+  });
+
+  test('rejects non-staff callers', async () => {
+    const res = await uploadJob(createTestApp({ organizationId: orgId, role: 'customer' }), { mode: 'check', profileId });
+
+    expect(res.status).toBe(403);
+  });
+});
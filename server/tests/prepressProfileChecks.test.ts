@@ -0,0 +1,114 @@
+import { PDFDocument, cmyk, rgb } from 'pdf-lib';
+import {
+  applyFontPolicy,
+  BUILTIN_PREFLIGHT_PROFILE,
+  checkProfileRules,
+  computeProfileScore,
+} from '../prepress/profileChecks';
+import { prepressProfileRulesSchema } from '../prepress/schema';
+import { analyzeColorUsage } from '../prepress/toolchain/colorAnalysis';
+import { parsePDFImagesList } from '../prepress/toolchain/pdfinfo';
+import type { PrepressIssue } from '../prepress/types';
+
+const businessCard = prepressProfileRulesSchema.parse({
+  minEffectiveDpi: 300,
+  allowedColorSpaces: ['cmyk', 'gray'],
+  spotColorsAllowed: false,
+  maxInkCoveragePercent: 300,
+  fontEmbeddingRequired: true,
+  pageCount: { min: 1, max: 2 },
+  scoring: { blockerPenalty: 25, warningPenalty: 5 },
+});
+
+const banner = prepressProfileRulesSchema.parse({
+  minEffectiveDpi: 100,
+  fontEmbeddingRequired: false,
+  scoring: { blockerPenalty: 10, warningPenalty: 1, infoPenalty: 0 },
+});
+
+describe('Prepress preflight profiles', () => {
+  test('built-in profile keeps the original rules off and the original score weights', () => {
+    expect(BUILTIN_PREFLIGHT_PROFILE.rules).toMatchObject({
+      minEffectiveDpi: null,
+      allowedColorSpaces: null,
+      spotColorsAllowed: true,
+      maxInkCoveragePercent: null,
+      fontEmbeddingRequired: null,
+    });
+    const counts = { BLOCKER: 1, WARNING: 2, INFO: 3 };
+    expect(computeProfileScore(counts, BUILTIN_PREFLIGHT_PROFILE.rules.scoring)).toBe(84.5);
+    expect(computeProfileScore({ BLOCKER: 20, WARNING: 0, INFO: 0 }, BUILTIN_PREFLIGHT_PROFILE.rules.scoring)).toBe(0);
+  });
+
+  test('the same file scores differently under a banner and a business-card profile', () => {
+    const input = {
+      pageCount: 1,
+      images: [{ page: 1, dpi: 150, width: 1500, height: 900 }],
+      colorSpace: { hasRGB: true, hasCMYK: true, hasGray: false, hasSpot: false, spotColors: [] },
+    };
+    const fontIssue: PrepressIssue = { severity: 'WARNING', code: 'FONT_NOT_EMBEDDED', message: 'Font not embedded' };
+
+    const score = (rules: typeof banner) => {
+      const issues = [...applyFontPolicy([fontIssue], rules), ...checkProfileRules(rules, input)];
+      const counts = { BLOCKER: 0, WARNING: 0, INFO: 0 };
+      for (const issue of issues) counts[issue.severity]++;
+      return { codes: issues.map((i) => `${i.severity}:${i.code}`), score: computeProfileScore(counts, rules.scoring) };
+    };
+
+    expect(score(banner)).toEqual({ codes: ['INFO:FONT_NOT_EMBEDDED'], score: 100 });
+    expect(score(businessCard)).toEqual({
+      codes: ['BLOCKER:FONT_NOT_EMBEDDED', 'WARNING:LOW_RESOLUTION_IMAGE', 'BLOCKER:COLOR_SPACE_NOT_ALLOWED'],
+      score: 45,
+    });
+  });
+
+  test('page count, spot colors and ink coverage rules', () => {
+    const issues = checkProfileRules(businessCard, {
+      pageCount: 3,
+      images: [{ page: 1, dpi: 120, width: 400, height: 400 }],
+      colorSpace: { hasRGB: false, hasCMYK: true, hasGray: false, hasSpot: true, spotColors: ['CutContour', 'PANTONE 186 C'] },
+      maxInkCoveragePercent: 340,
+    });
+    expect(issues.map((i) => [i.severity, i.code])).toEqual([
+      ['BLOCKER', 'PAGE_COUNT_MISMATCH'],
+      ['BLOCKER', 'LOW_RESOLUTION_IMAGE'],
+      ['BLOCKER', 'SPOT_COLOR_NOT_ALLOWED'],
+      ['BLOCKER', 'INK_COVERAGE_EXCEEDED'],
+    ]);
+    expect(issues[2].meta).toEqual({ spotColors: ['PANTONE 186 C'] });
+
+    // Finishing spots alone are not printed inks
+    const cutOnly = checkProfileRules(businessCard, {
+      pageCount: 2,
+      images: [],
+      colorSpace: { hasRGB: false, hasCMYK: true, hasGray: false, hasSpot: true, spotColors: ['CutContour'] },
+      maxInkCoveragePercent: 280,
+    });
+    expect(cutOnly).toEqual([]);
+  });
+
+  test('parses pdfimages -list output', () => {
+    const stdout = [
+      'page   num  type   width height color comp bpc  enc interp  object ID x-ppi y-ppi size ratio',
+      '--------------------------------------------------------------------------------------------',
+      '   1     0 image    1200   800  rgb     3   8  jpeg   no        12  0   300   298  150K 5.3%',
+      '   1     1 smask    1200   800  gray    1   8  image  no        12  0   300   298  20K 2.1%',
+      '   2     2 image     400   400  cmyk    4   8  image  no        20  0    72    72  60K 9.4%',
+    ].join('\n');
+    expect(parsePDFImagesList(stdout)).toEqual([
+      { page: 1, dpi: 298, width: 1200, height: 800, color: 'rgb' },
+      { page: 2, dpi: 72, width: 400, height: 400, color: 'cmyk' },
+    ]);
+  });
+
+  test('detects RGB and CMYK drawing operators in page content', async () => {
+    const pdf = await PDFDocument.create();
+    const page = pdf.addPage([200, 200]);
+    page.drawRectangle({ x: 10, y: 10, width: 50, height: 50, color: rgb(1, 0, 0) });
+    page.drawRectangle({ x: 80, y: 80, width: 50, height: 50, color: cmyk(0, 1, 1, 0) });
+
+    const { colorSpace, issues } = await analyzeColorUsage(Buffer.from(await pdf.save()));
+    expect(issues).toEqual([]);
+    expect(colorSpace).toMatchObject({ hasRGB: true, hasCMYK: true, hasGray: false, hasSpot: false, spotColors: [] });
+  });
+});
@@ -0,0 +1,70 @@
+import { buildReportV2, displayBBox } from '../prepress/reportV2';
+import type { PageBoxes, PrepressReport } from '../prepress/types';
+
+const rect = (width: number, height: number) => ({ x: 0, y: 0, width, height });
+
+function pageBoxes(page: number, rotation: number, width: number, height: number): PageBoxes {
+  const box = rect(width, height);
+  return { page, rotation, mediaBox: box, cropBox: box, bleedBox: box, trimBox: box, hasBleedBox: false, hasTrimBox: false };
+}
+
+function makeReport(overrides: Partial<PrepressReport> = {}): PrepressReport {
+  return {
+    version: 'prepress_report_v1',
+    jobId: 'job-1',
+    mode: 'check',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    input: { filename: 'art.pdf', sizeBytes: 1000, pageCount: 2 },
+    summary: { score: 80, counts: { BLOCKER: 1, WARNING: 1, INFO: 1 } },
+    issues: [
+      { severity: 'INFO', code: 'PDF_VERSION', message: 'PDF 1.4' },
+      { severity: 'BLOCKER', code: 'CONTENT_OUTSIDE_SAFE_ZONE', message: 'Text near trim', page: 2, bbox: { x: 0.1, y: 0.2, w: 0.3, h: 0.1 } },
+      { severity: 'WARNING', code: 'LOW_RESOLUTION_IMAGE', message: 'Image at 150 dpi', page: 1 },
+    ],
+    analysis: {
+      pageCount: 2,
+      pageSizes: [
+        { width: 612, height: 792, unit: 'pt' },
+        { width: 612, height: 792, unit: 'pt' },
+      ],
+      fontsEmbedded: true,
+      images: 'not_analyzed',
+      colorSpace: 'not_analyzed',
+    },
+    toolAvailability: { qpdf: false, pdfinfo: false, pdffonts: false, ghostscript: false, pdftocairo: false, imagemagick: false },
+    toolVersions: {},
+    ...overrides,
+  };
+}
+
+describe('Prepress report v2', () => {
+  test('maps bboxes onto the rotated page', () => {
+    const bbox = { x: 0.1, y: 0.2, w: 0.3, h: 0.1 };
+    expect(displayBBox(bbox, 0)).toEqual(bbox);
+    expect(displayBBox(bbox, 90)).toEqual({ x: 0.7, y: 0.1, w: 0.1, h: 0.3 });
+    expect(displayBBox(bbox, 180)).toEqual({ x: 0.6, y: 0.7, w: 0.3, h: 0.1 });
+    expect(displayBBox(bbox, 270)).toEqual({ x: 0.2, y: 0.6, w: 0.1, h: 0.3 });
+    expect(displayBBox(bbox, -90)).toEqual(displayBBox(bbox, 270));
+  });
+
+  test('assigns page issues with their v1 index and marks stored previews', () => {
+    const v2 = buildReportV2(makeReport(), { previewPages: [1] });
+
+    expect(v2.version).toBe('prepress_report_v2');
+    expect(v2.issues).toHaveLength(3);
+    expect(v2.pages.map((p) => [p.page, p.previewAvailable, p.widthPt, p.heightPt, p.rotation])).toEqual([
+      [1, true, 612, 792, 0],
+      [2, false, 612, 792, 0],
+    ]);
+    expect(v2.pages[0].issues).toMatchObject([{ code: 'LOW_RESOLUTION_IMAGE', index: 2, displayBbox: undefined }]);
+    expect(v2.pages[1].issues).toMatchObject([{ code: 'CONTENT_OUTSIDE_SAFE_ZONE', index: 1, displayBbox: { x: 0.1, y: 0.2 } }]);
+  });
+
+  test('uses page boxes for displayed size and rotation', () => {
+    const v2 = buildReportV2(makeReport(), { pageBoxes: [pageBoxes(1, 0, 612, 792), pageBoxes(2, 90, 612, 792)] });
+
+    expect(v2.pages[1]).toMatchObject({ widthPt: 792, heightPt: 612, rotation: 90, previewAvailable: false });
+    expect(v2.pages[1].issues[0].bbox).toEqual({ x: 0.1, y: 0.2, w: 0.3, h: 0.1 });
+    expect(v2.pages[1].issues[0].displayBbox).toEqual({ x: 0.7, y: 0.1, w: 0.1, h: 0.3 });
+  });
+});
@@ -0,0 +1,84 @@
+import sharp from 'sharp';
+import {
+  addPlaneToTac,
+  planeCoveragePercent,
+  renderTacHeatmap,
+  separationDpi,
+  summarizeTac,
+} from '../prepress/toolchain/separations';
+import { checkProfileRules } from '../prepress/profileChecks';
+import { prepressProfileRulesSchema } from '../prepress/schema';
+import type { SeparationsAnalysis } from '../prepress/types';
+
+// Decoded separation planes are luminance: 255 = no ink, 0 = solid
+const plane = (...inks: number[]) => new Uint8Array(inks.map((ink) => 255 - ink));
+
+describe('Prepress separations / TAC', () => {
+  test('per-plane coverage and peak TAC with the over-limit area', () => {
+    // 4x2 raster; the right column is a rich black (C60 M40 Y40 K100 = 240%) and one pixel is 400%
+    const cyan = plane(0, 0, 0, 153, 0, 0, 255, 153);
+    const magenta = plane(0, 0, 0, 102, 0, 0, 255, 102);
+    const yellow = plane(0, 0, 0, 102, 0, 0, 255, 102);
+    const black = plane(0, 0, 0, 255, 0, 0, 255, 255);
+
+    expect(planeCoveragePercent(black)).toBe(37.5);
+    expect(planeCoveragePercent(plane())).toBe(0);
+
+    const tac = new Uint16Array(8);
+    for (const p of [cyan, magenta, yellow, black]) addPlaneToTac(tac, p);
+
+    expect(summarizeTac(tac, 4, 2, 300)).toEqual({
+      maxTacPercent: 400,
+      overLimitBBox: { x: 0.5, y: 0.5, w: 0.25, h: 0.5 },
+    });
+    expect(summarizeTac(tac, 4, 2, 200)).toEqual({
+      maxTacPercent: 400,
+      overLimitBBox: { x: 0.5, y: 0, w: 0.5, h: 1 },
+    });
+  });
+
+  test('heatmap marks over-limit pixels red and near-limit pixels yellow', async () => {
+    const tac = new Uint16Array([0, 700, 780]); // 0%, ~275%, ~306%
+    const rgb = renderTacHeatmap(tac, 3, 1, 300);
+    expect(Array.from(rgb.subarray(0, 3))).toEqual([245, 245, 245]);
+    expect(Array.from(rgb.subarray(3, 6))).toEqual([250, 204, 21]);
+    expect(Array.from(rgb.subarray(6, 9))).toEqual([220, 38, 38]);
+
+    const png = await sharp(rgb, { raw: { width: 3, height: 1, channels: 3 } }).png().toBuffer();
+    expect((await sharp(png).metadata()).format).toBe('png');
+  });
+
+  test('raster resolution drops for large-format pages', () => {
+    expect(separationDpi(612)).toBe(72);
+    expect(separationDpi(120 * 72)).toBe(12);
+  });
+
+  test('TAC limit issues are per page with the over-limit area', () => {
+    const rules = prepressProfileRulesSchema.parse({ maxInkCoveragePercent: 300 });
+    const separations: SeparationsAnalysis = {
+      dpi: 36,
+      limitPercent: 300,
+      colorants: ['Cyan', 'Magenta', 'Yellow', 'Black', 'PANTONE 186 C'],
+      maxTacPercent: 340,
+      pages: [
+        { page: 1, coverage: { Cyan: 10 }, maxTacPercent: 280, overLimitBBox: null },
+        { page: 2, coverage: { Cyan: 60 }, maxTacPercent: 340, overLimitBBox: { x: 0.1, y: 0.2, w: 0.3, h: 0.4 } },
+      ],
+    };
+
+    const issues = checkProfileRules(rules, {
+      pageCount: 2,
+      images: 'not_analyzed',
+      colorSpace: 'not_analyzed',
+      maxInkCoveragePercent: 340,
+      separations,
+    });
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'BLOCKER',
+      code: 'INK_COVERAGE_EXCEEDED',
+      page: 2,
+      bbox: { x: 0.1, y: 0.2, w: 0.3, h: 0.4 },
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { PDFDocument } from 'pdf-lib';
+import { checkPageSizes, DEFAULT_SIZE_TOLERANCE_IN } from '../prepress/sizeChecks';
+import { readPageBoxes } from '../prepress/toolchain/pageBoxes';
+import { parseBBoxOutput } from '../prepress/toolchain/ghostscript';
+import type { PageBoxes, PdfRect, PreflightSizeProfile } from '../prepress/types';
+
+const profile: PreflightSizeProfile = {
+  source: { orderLineItemId: 'li-1', productId: 'prod-1' },
+  trimWidthIn: 24,
+  trimHeightIn: 18,
+  bleedIn: 0.125,
+  safeZoneIn: 0.5,
+  toleranceIn: DEFAULT_SIZE_TOLERANCE_IN,
+};
+
+function rect(xIn: number, yIn: number, wIn: number, hIn: number): PdfRect {
+  return { x: xIn * 72, y: yIn * 72, width: wIn * 72, height: hIn * 72 };
+}
+
+function page(media: PdfRect, overrides: Partial<PageBoxes> = {}): PageBoxes {
+  return {
+    page: 1,
+    rotation: 0,
+    mediaBox: media,
+    cropBox: media,
+    bleedBox: media,
+    trimBox: media,
+    hasBleedBox: false,
+    hasTrimBox: false,
+    ...overrides,
+  };
+}
+
+describe('Prepress trim/bleed checks', () => {
+  test('artwork with declared trim and full bleed passes in either orientation', () => {
+    const landscape = page(rect(0, 0, 24.25, 18.25), { trimBox: rect(0.125, 0.125, 24, 18), hasTrimBox: true });
+    const portrait = page(rect(0, 0, 18.25, 24.25), { trimBox: rect(0.125, 0.125, 18, 24), hasTrimBox: true });
+    expect(checkPageSizes([landscape, portrait], profile)).toEqual([]);
+  });
+
+  test('trim is inferred when the MediaBox is the ordered size plus bleed', () => {
+    expect(checkPageSizes([page(rect(0, 0, 24.25, 18.25))], profile)).toEqual([]);
+  });
+
+  test('wrong size is a BLOCKER with the trim bbox and a proportional scale hint', () => {
+    const issues = checkPageSizes([page(rect(0, 0, 12, 9))], profile);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'BLOCKER',
+      code: 'SIZE_MISMATCH',
+      page: 1,
+      bbox: { x: 0, y: 0, w: 1, h: 1 },
+      meta: { actualIn: { width: 12, height: 9 }, proportional: true, scale: 2 },
+    });
+  });
+
+  test('missing bleed is a BLOCKER; partial bleed is a WARNING naming the short sides', () => {
+    const none = checkPageSizes([page(rect(0, 0, 24, 18))], profile);
+    expect(none).toHaveLength(1);
+    expect(none[0]).toMatchObject({ severity: 'BLOCKER', code: 'MISSING_BLEED' });
+
+    const partial = checkPageSizes(
+      [page(rect(0, 0, 24.125, 18.25), { trimBox: rect(0, 0.125, 24, 18), hasTrimBox: true })],
+      profile
+    );
+    expect(partial).toHaveLength(1);
+    expect(partial[0]).toMatchObject({ severity: 'WARNING', code: 'MISSING_BLEED', meta: { shortSides: ['left'] } });
+    expect(partial[0].bbox).toEqual({ x: 0, y: 0.007, w: 0.995, h: 0.986 });
+  });
+
+  test('content stopping inside the safe margin is flagged; full-bleed content is not', () => {
+    const media = rect(0, 0, 24.25, 18.25);
+    const nearTop = page(media, { contentBox: rect(2, 2, 20, 16.05) });
+    const issues = checkPageSizes([nearTop], profile);
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({
+      severity: 'WARNING',
+      code: 'CONTENT_IN_SAFE_ZONE',
+      meta: { side: 'top', intrusionIn: 0.425 },
+    });
+    // Top band of the trim: from the trim edge down to the safe line
+    expect(issues[0].bbox).toEqual({ x: 0.005, y: 0.007, w: 0.99, h: 0.027 });
+
+    const fullBleed = page(media, { contentBox: rect(0, 0, 24.25, 18.25) });
+    expect(checkPageSizes([fullBleed], profile)).toEqual([]);
+  });
+
+  test('reads declared boxes from a PDF and parses Ghostscript bbox output', async () => {
+    const pdf = await PDFDocument.create();
+    const withTrim = pdf.addPage([24.25 * 72, 18.25 * 72]);
+    withTrim.setTrimBox(9, 9, 24 * 72, 18 * 72);
+    pdf.addPage([612, 792]);
+    const { pages, issues } = await readPageBoxes(Buffer.from(await pdf.save()));
+
+    expect(issues).toEqual([]);
+    expect(pages.map((p) => [p.page, p.hasTrimBox, p.hasBleedBox])).toEqual([[1, true, false], [2, false, false]]);
+    expect(pages[0].trimBox).toEqual({ x: 9, y: 9, width: 1728, height: 1296 });
+    expect(pages[1].trimBox).toEqual(pages[1].mediaBox);
+
+    const boxes = parseBBoxOutput(
+      '%%BoundingBox: 10 20 110 220\n%%HiResBoundingBox: 10.5 20.25 110.5 220.25\n%%BoundingBox: 0 0 0 0\n%%HiResBoundingBox: 0.000000 0.000000 0.000000 0.000000\n'
+    );
+    expect(boxes).toEqual([{ x: 10.5, y: 20.25, width: 100, height: 200 }, null]);
+  });
+});
@@ -0,0 +1,130 @@
+import {
+  estimateRunMinutes,
+  lineItemWork,
+  placeOnCalendar,
+  planProductionSchedule,
+  productionDeadline,
+  scheduleRisk,
+  type CapacityMachine,
+  type SchedulableJob,
+} from '@shared/productionCapacity';
+
+const weekdays = [1, 2, 3, 4, 5].map((day) => ({ day, start: '08:00', end: '17:00' }));
+
+const flatbed: CapacityMachine = {
+  id: 'm1',
+  stationKey: 'flatbed',
+  throughputUnit: 'sqft_per_hour',
+  throughputRate: 100,
+  setupMinutes: 15,
+  timezone: 'America/Chicago',
+  workingHours: weekdays,
+  closedDates: [],
+};
+
+function job(overrides: Partial<SchedulableJob> & { id: string }): SchedulableJob {
+  return {
+    stationKey: 'flatbed',
+    status: 'queued',
+    work: { sqft: 100, sheets: 1, pieces: 1 },
+    elapsedMinutes: 0,
+    priority: 'normal',
+    dueAt: null,
+    createdAt: new Date('2026-03-01T00:00:00Z'),
+    machineId: null,
+    plannedStartAt: null,
+    sequence: null,
+    ...overrides,
+  };
+}
+
+describe('Production capacity', () => {
+  test('estimates run time from line item size and quantity in the machine unit', () => {
+    const work = lineItemWork({ widthIn: 48, heightIn: 96, quantity: 10, sqft: 1 });
+    expect(work).toEqual({ sqft: 320, sheets: 10, pieces: 10 });
+    expect(estimateRunMinutes(flatbed, work)).toBe(15 + 192);
+
+    const press = { throughputUnit: 'sheets_per_hour' as const, throughputRate: 1200, setupMinutes: 0 };
+    expect(estimateRunMinutes(press, lineItemWork({ widthIn: 3.5, heightIn: 2, quantity: 500, sheets: 24 }))).toBe(2);
+    expect(estimateRunMinutes({ ...flatbed, throughputRate: 0 }, work)).toBeNull();
+  });
+
+  test('places work inside shifts in the machine timezone, skipping nights, weekends and closed dates', () => {
+    // Friday 2026-03-06 16:00 Chicago (CST, UTC-6): one hour left in the shift, Monday is closed
+    const from = new Date('2026-03-06T22:00:00Z');
+    const slot = placeOnCalendar({ ...flatbed, closedDates: ['2026-03-09'] }, from, 120);
+    expect(slot!.startAt.toISOString()).toBe('2026-03-06T22:00:00.000Z');
+    // Tuesday 09:00 CDT (UTC-5) after the DST change on Sunday
+    expect(slot!.endAt.toISOString()).toBe('2026-03-10T14:00:00.000Z');
+
+    expect(placeOnCalendar({ ...flatbed, workingHours: [] }, from, 10)).toBeNull();
+  });
+
+  test('runs rush jobs first, spreads work over machines and flags jobs that miss their due date', () => {
+    const second = { ...flatbed, id: 'm2', throughputRate: 50 };
+    const now = new Date('2026-03-02T14:00:00Z'); // Monday 08:00 CST
+    const slots = planProductionSchedule({
+      machines: [flatbed, second],
+      now,
+      jobs: [
+        job({ id: 'normal', dueAt: productionDeadline('2026-03-02T00:00:00.000Z', 'America/Chicago') }),
+        job({ id: 'rush', priority: 'rush', createdAt: new Date('2026-03-02T00:00:00Z') }),
+        job({ id: 'running', status: 'in_progress', machineId: 'm2', elapsedMinutes: 60, work: { sqft: 100, sheets: 1, pieces: 1 } }),
+        job({ id: 'other', stationKey: 'router' }),
+      ],
+    });
+    const byId = Object.fromEntries(slots.map((s) => [s.jobId, s]));
+
+    // Running job stays on m2: 15 + 120 estimate, 60 already logged
+    expect(byId.running).toMatchObject({ machineId: 'm2', estimatedMinutes: 135 });
+    expect(byId.running.endAt!.toISOString()).toBe('2026-03-02T15:15:00.000Z');
+    expect(slots.map((s) => s.jobId).slice(0, 3)).toEqual(['running', 'rush', 'normal']);
+    expect(byId.rush).toMatchObject({ machineId: 'm1', estimatedMinutes: 75, late: false });
+    // Both machines free at 09:15; the faster m1 finishes normal at 10:30, well inside its due day
+    expect(byId.normal.machineId).toBe('m1');
+    expect(byId.normal.endAt!.toISOString()).toBe('2026-03-02T16:30:00.000Z');
+    expect(byId.normal.late).toBe(false);
+    expect(productionDeadline('2026-03-02T00:00:00.000Z', 'America/Chicago')!.toISOString()).toBe('2026-03-03T06:00:00.000Z');
+
+    const tight = planProductionSchedule({ machines: [flatbed], now, jobs: [job({ id: 'late', dueAt: new Date('2026-03-02T15:00:00Z') })] });
+    expect(tight[0]).toMatchObject({ late: true });
+    expect(byId.other).toMatchObject({ machineId: null, reason: expect.stringMatching(/router/) });
+  });
+
+  test('keeps board placements, fills the gaps before them and flags placements that cannot start on time', () => {
+    const second = { ...flatbed, id: 'm2' };
+    const now = new Date('2026-03-02T14:00:00Z'); // Monday 08:00 CST
+    const slots = planProductionSchedule({
+      machines: [flatbed, second],
+      now,
+      jobs: [
+        // Placed on m2 at 11:00 and a second one right behind it at the same planned time
+        job({ id: 'placed', machineId: 'm2', plannedStartAt: new Date('2026-03-02T17:00:00Z'), sequence: 1 }),
+        job({ id: 'behind', machineId: 'm2', plannedStartAt: new Date('2026-03-02T17:00:00Z'), sequence: 2 }),
+        // A machine from another station is ignored: scheduled like any other job
+        job({ id: 'wrongStation', machineId: 'router-1', plannedStartAt: new Date('2026-03-02T14:00:00Z') }),
+        job({ id: 'a', priority: 'rush' }),
+        job({ id: 'b', priority: 'rush' }),
+        job({ id: 'c', priority: 'low', work: { sqft: 300, sheets: 1, pieces: 1 } }),
+      ],
+    });
+    const byId = Object.fromEntries(slots.map((s) => [s.jobId, s]));
+
+    expect(byId.placed).toMatchObject({ machineId: 'm2', conflict: false });
+    expect(byId.placed.startAt!.toISOString()).toBe('2026-03-02T17:00:00.000Z');
+    expect(byId.behind).toMatchObject({ machineId: 'm2', conflict: true });
+    expect(byId.behind.startAt!.toISOString()).toBe('2026-03-02T18:15:00.000Z');
+    // Rush jobs take both machines from 08:00 (m2's 08:00-09:15 gap is before the placement)
+    expect([byId.a.machineId, byId.b.machineId].sort()).toEqual(['m1', 'm2']);
+    expect(byId.b.startAt!.toISOString()).toBe('2026-03-02T14:00:00.000Z');
+    // 195 min does not fit m2's remaining gap before 11:00, so m1 runs it after its two jobs
+    expect(byId.c.machineId).toBe('m1');
+    expect(byId.wrongStation.conflict).toBe(false);
+
+    const end = new Date('2026-03-02T20:00:00Z');
+    expect(scheduleRisk({ endAt: end, dueAt: new Date('2026-03-02T19:00:00Z') }, now)).toBe('late');
+    expect(scheduleRisk({ endAt: end, dueAt: new Date('2026-03-02T22:00:00Z') }, now)).toBe('at_risk');
+    expect(scheduleRisk({ endAt: end, dueAt: new Date('2026-03-03T20:00:00Z') }, now)).toBe('on_track');
+    expect(scheduleRisk({ endAt: null, dueAt: null }, now)).toBe('unscheduled');
+  });
+});
@@ -0,0 +1,62 @@
+import { PDFDocument } from 'pdf-lib';
+import { code128Modules, code128Values, code128Width } from '@shared/code128';
+import { buildOperatorToken, parseJobTicketCode, parseOperatorToken } from '../lib/kioskTokens';
+import { renderJobTicketsPdf, type JobTicket } from '../lib/jobTicketsPdf';
+
+describe('Shop-floor kiosk', () => {
+  test('encodes Code 128 set B with the weighted mod-103 check symbol', () => {
+    // Start B (104) + P J J 1 2 3 C, check = 879 % 103 = 55, stop
+    expect(code128Values('PJJ123C')).toEqual([104, 48, 42, 42, 17, 18, 19, 35, 55, 106]);
+
+    const jobId = '3f2b8c1e-9a4d-4e2f-8b1a-0c5d7e9f1a2b';
+    const modules = code128Modules(jobId);
+    // 11 modules per symbol (start, 36 data, check) plus the 13-module stop, bars and spaces alternating
+    expect(code128Width(jobId)).toBe(11 * 38 + 13);
+    expect(modules).toHaveLength(6 * 38 + 7);
+    expect(modules.every((w) => w >= 1 && w <= 4)).toBe(true);
+
+    expect(() => code128Values('')).toThrow('empty');
+    expect(() => code128Values('tab\there')).toThrow('cannot be encoded');
+  });
+
+  test('operator tokens are bound to the organization and expire', () => {
+    process.env.SESSION_SECRET = 'kiosk-test-secret';
+    const now = Date.UTC(2026, 9, 19, 8, 0);
+    const { token, expiresAt } = buildOperatorToken('org-1', 'user-7', now);
+
+    expect(expiresAt.getTime()).toBe(now + 15 * 60 * 1000);
+    expect(parseOperatorToken('org-1', token, now + 60_000)).toBe('user-7');
+    expect(parseOperatorToken('org-2', token, now)).toBeNull();
+    expect(parseOperatorToken('org-1', token, now + 16 * 60 * 1000)).toBeNull();
+
+    const forged = token.replace(':user-7:', ':user-8:');
+    expect(parseOperatorToken('org-1', forged, now)).toBeNull();
+  });
+
+  test('reads the job id from a ticket barcode or a scanned job link, and prints one ticket per job', async () => {
+    expect(parseJobTicketCode('  3f2b8c1e-9a4d\n')).toBe('3f2b8c1e-9a4d');
+    expect(parseJobTicketCode('https://shop.example.com/production/jobs/abc-123?tab=events')).toBe('abc-123');
+
+    const ticket: JobTicket = {
+      jobId: '3f2b8c1e-9a4d-4e2f-8b1a-0c5d7e9f1a2b',
+      orderNumber: 'ORD-1042',
+      customerName: 'Acme Signs',
+      description: '13oz vinyl banner 3x8 ft',
+      quantity: 4,
+      dueDate: '2026-10-23T17:00:00.000Z',
+      priority: 'rush',
+      stationKey: 'roll',
+      stepKey: 'print',
+      operations: [
+        { sequence: 1, name: 'Print', stationKey: 'roll', status: 'done' },
+        { sequence: 2, name: 'Laminate', stationKey: 'laminator', status: 'skipped' },
+        { sequence: 3, name: 'Grommet', stationKey: 'finishing', status: 'queued' },
+      ],
+    };
+    const bytes = await renderJobTicketsPdf([ticket, { ...ticket, jobId: 'job-2', operations: [] }]);
+    const pdf = await PDFDocument.load(bytes);
+
+    expect(pdf.getPageCount()).toBe(2);
+    expect(pdf.getPage(0).getSize()).toEqual({ width: 612, height: 396 });
+  });
+});
@@ -0,0 +1,86 @@
+import {
+  currentJobOperation,
+  lineItemOptionValues,
+  resolveRoutingOperations,
+  type RoutingOperation,
+} from '@shared/productionRouting';
+import { estimateRunMinutes, operationRate } from '@shared/productionCapacity';
+
+function op(key: string, stationKey: string, overrides: Partial<RoutingOperation> = {}): RoutingOperation {
+  return {
+    key,
+    name: key,
+    stationKey,
+    setupMinutes: null,
+    runRate: null,
+    runRateUnit: 'sqft_per_hour',
+    condition: null,
+    ...overrides,
+  };
+}
+
+const banner: RoutingOperation[] = [
+  op('print', 'roll'),
+  op('laminate', 'laminator', { condition: { optionId: 'lam', values: ['Gloss', 'Matte'] } }),
+  op('cut', 'finishing'),
+  op('grommet', 'finishing', { condition: { optionId: 'grommets', values: [] } }),
+  op('pack', 'shipping'),
+];
+
+describe('Production routing', () => {
+  test('reads option selections from evaluated options, falling back to the PBV2 snapshot selections', () => {
+    expect(
+      lineItemOptionValues({
+        selectedOptions: [{ optionId: 'lam', value: 'Gloss' }],
+        pbv2SnapshotJson: { selections: { grommets: { value: true } } },
+      })
+    ).toEqual({ lam: 'Gloss' });
+
+    expect(
+      lineItemOptionValues({
+        selectedOptions: [],
+        pbv2SnapshotJson: { selections: { grommets: { value: true }, lam: 'matte' } },
+      })
+    ).toEqual({ grommets: true, lam: 'matte' });
+
+    expect(lineItemOptionValues({ selectedOptions: null, pbv2SnapshotJson: null })).toEqual({});
+  });
+
+  test('keeps option-gated operations only when their option is selected with a listed value', () => {
+    const plain = resolveRoutingOperations(banner, { lam: 'none', grommets: false });
+    expect(plain.map((o) => [o.key, o.sequence])).toEqual([
+      ['print', 1],
+      ['cut', 2],
+      ['pack', 3],
+    ]);
+
+    const full = resolveRoutingOperations(banner, { lam: 'matte', grommets: 'Every 2ft' });
+    expect(full.map((o) => o.key)).toEqual(['print', 'laminate', 'cut', 'grommet', 'pack']);
+
+    // Selected, but with a value the gate does not list
+    expect(resolveRoutingOperations(banner, { lam: 'Satin' }).map((o) => o.key)).not.toContain('laminate');
+  });
+
+  test('finds the current operation and estimates it at its own rate', () => {
+    const ops = [
+      { sequence: 1, status: 'done' },
+      { sequence: 3, status: 'queued' },
+      { sequence: 2, status: 'skipped' },
+      { sequence: 4, status: 'queued' },
+    ];
+    expect(currentJobOperation(ops)).toEqual({ sequence: 3, status: 'queued' });
+    expect(currentJobOperation([{ sequence: 1, status: 'done' }])).toBeNull();
+
+    const machine = { throughputUnit: 'sqft_per_hour' as const, throughputRate: 100, setupMinutes: 15 };
+    const work = { sqft: 200, sheets: 4, pieces: 20 };
+    expect(estimateRunMinutes(operationRate(machine, null), work)).toBe(135);
+    // Grommeting at 60 pieces/hr with no setup
+    expect(
+      estimateRunMinutes(operationRate(machine, { setupMinutes: 0, throughputUnit: 'pieces_per_hour', throughputRate: 60 }), work)
+    ).toBe(20);
+    // Setup override only: the machine's rate still applies
+    expect(
+      estimateRunMinutes(operationRate(machine, { setupMinutes: 5, throughputUnit: 'pieces_per_hour', throughputRate: null }), work)
+    ).toBe(125);
+  });
+});
@@ -0,0 +1,47 @@
+import { buildProofReviewUrl, evaluateProofGate, hashProofToken } from '../lib/proofs';
+import { proofDecisionSchema } from '@shared/schema';
+
+describe('Customer proof approval', () => {
+  test('production is gated until the latest proof is approved', () => {
+    expect(evaluateProofGate(null)).toEqual({ open: true, reason: null, latestVersion: null, latestStatus: null });
+    expect(evaluateProofGate({ version: 2, status: 'approved' }).open).toBe(true);
+
+    expect(evaluateProofGate({ version: 3, status: 'pending' })).toEqual({
+      open: false,
+      reason: 'Proof v3 is awaiting customer approval',
+      latestVersion: 3,
+      latestStatus: 'pending',
+    });
+    expect(evaluateProofGate({ version: 1, status: 'changes_requested' })).toMatchObject({
+      open: false,
+      reason: 'Customer requested changes on proof v1; send a new proof first',
+    });
+  });
+
+  test('requesting changes needs at least one comment; approving does not', () => {
+    expect(proofDecisionSchema.safeParse({ decision: 'approve', signerName: 'Pat Lee' }).success).toBe(true);
+    expect(proofDecisionSchema.safeParse({ decision: 'request_changes', signerName: 'Pat Lee' }).success).toBe(false);
+    expect(proofDecisionSchema.safeParse({ decision: 'approve', signerName: '  ' }).success).toBe(false);
+
+    const parsed = proofDecisionSchema.parse({
+      decision: 'request_changes',
+      signerName: 'Pat Lee',
+      comments: [{ body: 'Logo too small', annotation: { page: 1, x: 0.1, y: 0.2, w: 0.3, h: 0.1 } }],
+    });
+    expect(parsed.comments).toHaveLength(1);
+
+    const offPage = proofDecisionSchema.safeParse({
+      decision: 'request_changes',
+      signerName: 'Pat Lee',
+      comments: [{ body: 'Move this', annotation: { page: 1, x: 1.5, y: 0, w: 0.1, h: 0.1 } }],
+    });
+    expect(offPage.success).toBe(false);
+  });
+
+  test('review links carry the token; only its hash is stored', () => {
+    const token = 'a'.repeat(64);
+    expect(hashProofToken(token)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashProofToken(token)).not.toContain(token);
+    expect(buildProofReviewUrl(token)).toMatch(new RegExp(`/proof/${token}$`));
+  });
+});
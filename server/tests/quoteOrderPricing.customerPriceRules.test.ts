@@ -0,0 +1,53 @@
+import { describe, expect, test } from "@jest/globals";
+import { applyCustomerLinePricing, selectCustomerPriceRule, type CustomerPriceRuleInput } from "../quoteOrderPricing";
+
+describe("customer price lists (contract pricing)", () => {
+  const rules: CustomerPriceRuleInput[] = [
+    { id: "r_old", productId: "p1", ruleType: "FIXED_UNIT", value: "12.00", minQuantity: 1, startsAt: "2026-01-01T00:00:00.000Z", endsAt: "2026-03-01T00:00:00.000Z" },
+    { id: "r_cur", productId: "p1", ruleType: "FIXED_UNIT", value: "10.00", minQuantity: 1, startsAt: "2026-03-01T00:00:00.000Z", endsAt: null },
+    { id: "r_bulk", productId: "p1", ruleType: "FIXED_UNIT", value: "8.50", minQuantity: 100, startsAt: new Date("2026-03-01T00:00:00.000Z") },
+    { id: "r_future", productId: "p1", ruleType: "PERCENT_OFF", value: 30, minQuantity: 1, startsAt: "2027-01-01T00:00:00.000Z" },
+    { id: "r_other", productId: "p2", ruleType: "PER_SQFT", value: 3, minQuantity: 1, startsAt: "2026-01-01T00:00:00.000Z" },
+  ];
+
+  test("selectCustomerPriceRule honours dates, product and quantity breaks", () => {
+    const pick = (at: string, quantity: number, productId = "p1") =>
+      selectCustomerPriceRule(rules, { productId, quantity, at: new Date(at) })?.id ?? null;
+
+    expect(pick("2025-12-01T00:00:00.000Z", 10)).toBeNull();
+    expect(pick("2026-02-01T00:00:00.000Z", 10)).toBe("r_old");
+    // endsAt is exclusive
+    expect(pick("2026-03-01T00:00:00.000Z", 10)).toBe("r_cur");
+    expect(pick("2026-06-01T00:00:00.000Z", 100)).toBe("r_bulk");
+    expect(pick("2026-06-01T00:00:00.000Z", 99)).toBe("r_cur");
+    expect(pick("2026-06-01T00:00:00.000Z", 5, "p2")).toBe("r_other");
+    expect(pick("2026-06-01T00:00:00.000Z", 5, "p3")).toBeNull();
+  });
+
+  test("applyCustomerLinePricing prices contract rules before customer modifiers", () => {
+    const line = { baseCents: 20000, optionsCents: 1000, quantity: 10, widthIn: 24, heightIn: 36 };
+    const customer = { defaultDiscountPercent: "10.00", defaultMarkupPercent: null };
+
+    const fixed = applyCustomerLinePricing({ ...line, customer, rule: rules[1] });
+    expect(fixed.lineTotalCents).toBe(10000 + 1000);
+    expect(fixed.pricingRule).toMatchObject({ source: "contract", ruleId: "r_cur", ruleType: "FIXED_UNIT" });
+
+    // 24x36 = 6 sq ft per item, 10 items at $3/sq ft
+    const perSqft = applyCustomerLinePricing({ ...line, rule: rules[4] });
+    expect(perSqft.baseCents).toBe(18000);
+    expect(perSqft.lineTotalCents).toBe(19000);
+
+    const pct = applyCustomerLinePricing({ ...line, rule: { ...rules[3], value: 25 } });
+    expect(pct.lineTotalCents).toBe(15000 + 750);
+    expect(pct.pricingRule.label).toBe("Contract: 25% off");
+
+    const discounted = applyCustomerLinePricing({ ...line, customer, rule: null });
+    expect(discounted.lineTotalCents).toBe(18900);
+    expect(discounted.baseCents + discounted.optionsCents).toBe(18900);
+    expect(discounted.pricingRule).toMatchObject({ source: "customer_modifier", modifier: "discount", value: 10 });
+
+    const plain = applyCustomerLinePricing({ ...line, customer: null, rule: null });
+    expect(plain.lineTotalCents).toBe(21000);
+    expect(plain.pricingRule.source).toBe("base");
+  });
+});
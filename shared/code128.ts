@@ -0,0 +1,55 @@
+/**
+ * Code 128 (code set B) barcode encoding for printed job tickets.
+ *
+ * Set B covers printable ASCII, which is all a job id needs, and every handheld and USB
+ * scanner reads it. The encoder returns the bar/space module widths; renderers (the ticket
+ * PDF, an SVG preview) draw bars at even indexes and leave spaces at odd ones. Quiet zones
+ * (10 modules either side) are the renderer's job.
+ */
+
+// Bar/space widths of symbol values 0-105; value 106 is the stop pattern (with its final bar)
+const PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+  "221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+  "221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+  "212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+  "231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+  "231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+  "314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+  "111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+  "214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+  "114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+
+const START_B = 104;
+const STOP = 106;
+
+/** Module count of the quiet zone renderers leave on each side of the symbol. */
+export const CODE128_QUIET_ZONE = 10;
+
+/** Symbol values for `text` in code set B: start, data, mod-103 check, stop. */
+export function code128Values(text: string): number[] {
+  if (!text) throw new Error("Barcode text is empty");
+  const data = Array.from(text).map((char) => {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) throw new Error(`Character "${char}" cannot be encoded in Code 128 set B`);
+    return code - 32;
+  });
+  const checksum = data.reduce((sum, value, index) => sum + value * (index + 1), START_B) % 103;
+  return [START_B, ...data, checksum, STOP];
+}
+
+/** Alternating bar/space widths in modules, starting and ending with a bar. */
+export function code128Modules(text: string): number[] {
+  const widths: number[] = [];
+  for (const value of code128Values(text)) {
+    for (const digit of PATTERNS[value]) widths.push(Number(digit));
+  }
+  return widths;
+}
+
+/** Width of the symbol in modules, excluding quiet zones. */
+export function code128Width(text: string): number {
+  return code128Modules(text).reduce((sum, width) => sum + width, 0);
+}
@@ -0,0 +1,249 @@
+/**
+ * Small-format imposition (business cards, stickers, postcards).
+ *
+ * Lays one trim size out as a uniform grid on a press sheet and decides which design goes in
+ * each slot. Three modes:
+ * - `step_and_repeat`: every slot carries the same design; each design gets its own sheet.
+ * - `n_up`: designs fill the slots in reading order, sheet after sheet.
+ * - `cut_and_stack`: designs run down each slot's stack instead, so after the guillotine
+ *   cut, the stacks placed in slot order read in sequence.
+ *
+ * A design is one artwork page (one front/back page pair when duplex); each is printed
+ * `quantity` times. Consecutive identical sheets are collapsed into one sheet with `copies`,
+ * so a 500-card run is one page "× 50", not 50 pages.
+ *
+ * All dimensions are inches, origin top-left. Slot positions describe the trim box.
+ * Bleed is printed in full at the outside of the grid; between pieces it is limited to half
+ * the gutter so neighbours never overlap. `marginIn` is the gripper / unprintable border,
+ * and the outside bleed plus crop marks must sit inside the sheet. Pure so the server plan
+ * and any preview agree.
+ */
+
+export const IMPOSITION_MODES = ["step_and_repeat", "n_up", "cut_and_stack"] as const;
+export type ImpositionMode = (typeof IMPOSITION_MODES)[number];
+
+/** Hard cap on distinct sheets so one request cannot build a huge PDF. */
+export const IMPOSITION_MAX_SHEETS = 1000;
+
+export type ImpositionOptions = {
+  sheetWidthIn: number;
+  sheetHeightIn: number;
+  trimWidthIn: number;
+  trimHeightIn: number;
+  mode: ImpositionMode;
+  /** Copies of each design. */
+  quantity: number;
+  designCount?: number;
+  allowRotation?: boolean;
+  gutterIn?: number;
+  bleedIn?: number;
+  marginIn?: number;
+};
+
+export type ImpositionBleed = { left: number; right: number; top: number; bottom: number };
+
+export type ImpositionSlot = {
+  index: number;
+  column: number;
+  row: number;
+  /** Trim box on the sheet (already rotated when `rotated`). */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  bleed: ImpositionBleed;
+};
+
+export type ImpositionSheet = {
+  index: number;
+  /** Times this exact sheet is printed. */
+  copies: number;
+  /** Design index per slot; null leaves the slot blank. */
+  designs: Array<number | null>;
+};
+
+export type ImpositionPlan = {
+  mode: ImpositionMode;
+  sheetWidthIn: number;
+  sheetHeightIn: number;
+  trimWidthIn: number;
+  trimHeightIn: number;
+  gutterIn: number;
+  bleedIn: number;
+  marginIn: number;
+  rotated: boolean;
+  columns: number;
+  rows: number;
+  slots: ImpositionSlot[];
+  sheets: ImpositionSheet[];
+  quantity: number;
+  designCount: number;
+  /** Press sheets to run, counting copies. */
+  totalSheets: number;
+  /** Printed pieces beyond the ordered quantity (filled-out last sheets). */
+  overs: number;
+  /** Trim area of a full sheet over sheet area, 0-100. */
+  yieldPercent: number;
+  warnings: string[];
+};
+
+const EPSILON = 1e-6;
+
+function round3(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function nonNegative(value: number | undefined, fallback = 0): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function gridCount(usable: number, trim: number, gutter: number): number {
+  if (usable + EPSILON < trim) return 0;
+  return Math.floor((usable + gutter + EPSILON) / (trim + gutter));
+}
+
+function buildSlots(
+  options: { sheetWidthIn: number; sheetHeightIn: number; gutterIn: number; bleedIn: number },
+  pieceW: number,
+  pieceH: number,
+  columns: number,
+  rows: number,
+): ImpositionSlot[] {
+  const { sheetWidthIn, sheetHeightIn, gutterIn, bleedIn } = options;
+  const gridW = columns * pieceW + (columns - 1) * gutterIn;
+  const gridH = rows * pieceH + (rows - 1) * gutterIn;
+  const left = (sheetWidthIn - gridW) / 2;
+  const top = (sheetHeightIn - gridH) / 2;
+  const inner = Math.min(bleedIn, gutterIn / 2);
+
+  const slots: ImpositionSlot[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      slots.push({
+        index: slots.length,
+        column,
+        row,
+        x: round3(left + column * (pieceW + gutterIn)),
+        y: round3(top + row * (pieceH + gutterIn)),
+        width: pieceW,
+        height: pieceH,
+        bleed: {
+          left: column === 0 ? bleedIn : inner,
+          right: column === columns - 1 ? bleedIn : inner,
+          top: row === 0 ? bleedIn : inner,
+          bottom: row === rows - 1 ? bleedIn : inner,
+        },
+      });
+    }
+  }
+  return slots;
+}
+
+/** Design index for each slot of each sheet, in press order, before identical sheets are collapsed. */
+function forEachSheet(
+  mode: ImpositionMode,
+  slotCount: number,
+  designCount: number,
+  quantity: number,
+  visit: (designs: Array<number | null>) => void,
+) {
+  if (mode === "step_and_repeat") {
+    const perDesign = Math.ceil(quantity / slotCount);
+    for (let design = 0; design < designCount; design++) {
+      for (let s = 0; s < perDesign; s++) visit(Array.from({ length: slotCount }, () => design));
+    }
+    return;
+  }
+
+  const total = designCount * quantity;
+  const sheetCount = Math.ceil(total / slotCount);
+  const designOf = (item: number) => (item < total ? Math.floor(item / quantity) : null);
+  for (let s = 0; s < sheetCount; s++) {
+    visit(Array.from({ length: slotCount }, (_, k) => designOf(mode === "n_up" ? s * slotCount + k : k * sheetCount + s)));
+  }
+}
+
+export function planImposition(options: ImpositionOptions): ImpositionPlan {
+  const { sheetWidthIn, sheetHeightIn, trimWidthIn, trimHeightIn, mode } = options;
+  const gutterIn = nonNegative(options.gutterIn);
+  const bleedIn = nonNegative(options.bleedIn);
+  const marginIn = nonNegative(options.marginIn);
+  const quantity = Math.max(1, Math.floor(options.quantity));
+  const designCount = Math.max(1, Math.floor(options.designCount ?? 1));
+  const allowRotation = options.allowRotation ?? true;
+  const warnings: string[] = [];
+
+  // Outside bleed must stay inside the margin area
+  const usableW = sheetWidthIn - 2 * (marginIn + bleedIn);
+  const usableH = sheetHeightIn - 2 * (marginIn + bleedIn);
+
+  const upright = { columns: gridCount(usableW, trimWidthIn, gutterIn), rows: gridCount(usableH, trimHeightIn, gutterIn) };
+  let rotated = false;
+  let { columns, rows } = upright;
+  if (allowRotation && Math.abs(trimWidthIn - trimHeightIn) > EPSILON) {
+    const turned = { columns: gridCount(usableW, trimHeightIn, gutterIn), rows: gridCount(usableH, trimWidthIn, gutterIn) };
+    if (turned.columns * turned.rows > columns * rows) {
+      rotated = true;
+      ({ columns, rows } = turned);
+    }
+  }
+
+  const pieceW = rotated ? trimHeightIn : trimWidthIn;
+  const pieceH = rotated ? trimWidthIn : trimHeightIn;
+  const slotCount = columns * rows;
+
+  const base = {
+    mode,
+    sheetWidthIn,
+    sheetHeightIn,
+    trimWidthIn,
+    trimHeightIn,
+    gutterIn,
+    bleedIn,
+    marginIn,
+    rotated,
+    columns,
+    rows,
+    quantity,
+    designCount,
+  };
+
+  if (slotCount === 0) {
+    warnings.push(
+      `A ${trimWidthIn} x ${trimHeightIn} in piece with ${bleedIn} in bleed does not fit a ${sheetWidthIn} x ${sheetHeightIn} in sheet inside a ${marginIn} in margin`,
+    );
+    return { ...base, slots: [], sheets: [], totalSheets: 0, overs: 0, yieldPercent: 0, warnings };
+  }
+
+  const slots = buildSlots({ sheetWidthIn, sheetHeightIn, gutterIn, bleedIn }, pieceW, pieceH, columns, rows);
+  const sheets: ImpositionSheet[] = [];
+  let totalSheets = 0;
+  let printed = 0;
+  forEachSheet(mode, slotCount, designCount, quantity, (designs) => {
+    totalSheets += 1;
+    printed += designs.filter((d) => d !== null).length;
+    const last = sheets[sheets.length - 1];
+    if (last && last.designs.every((d, i) => d === designs[i])) {
+      last.copies += 1;
+    } else {
+      sheets.push({ index: sheets.length, copies: 1, designs });
+    }
+  });
+
+  if (bleedIn > gutterIn / 2 && gutterIn > 0 && slotCount > 1) {
+    warnings.push(`Gutter ${gutterIn} in is narrower than two bleeds; inside bleed is cut to ${round3(gutterIn / 2)} in`);
+  }
+  if (mode !== "step_and_repeat" && designCount * quantity < slotCount) {
+    warnings.push(`Only ${designCount * quantity} pieces for ${slotCount} slots; the rest of the sheet is left blank`);
+  }
+
+  return {
+    ...base,
+    slots,
+    sheets,
+    totalSheets,
+    overs: printed - designCount * quantity,
+    yieldPercent: Math.round(((slotCount * trimWidthIn * trimHeightIn) / (sheetWidthIn * sheetHeightIn)) * 1000) / 10,
+    warnings,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Job costing.
+ *
+ * A line item's production cost is the material recorded against it (`orderMaterialUsage`
+ * quantity × the material's cost per unit), plus labor and machine time from its production
+ * time entries: each entry's seconds at the operator's hourly labor rate and at the
+ * machine-hour rate of the station it was worked at. Rates are snapshotted on the entry when
+ * it is recorded; entries recorded before a rate existed are costed at the current rate.
+ * Comparing the total with the line item's sell price gives its margin.
+ */
+
+export type CostingTimeEntry = {
+  seconds: number;
+  laborRatePerHour: number | null;
+  machineRatePerHour: number | null;
+};
+
+export type CostingMaterial = {
+  quantityUsed: number;
+  costPerUnit: number;
+};
+
+export type JobCostRollup = {
+  laborSeconds: number;
+  /** Seconds logged by operators without a labor rate, so not in laborCost. */
+  unratedLaborSeconds: number;
+  laborCost: number;
+  machineCost: number;
+  materialCost: number;
+  totalCost: number;
+  sellPrice: number;
+  margin: number;
+  /** Margin as a percentage of the sell price; null when nothing was sold. */
+  marginPercent: number | null;
+};
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function withMargin(cost: Omit<JobCostRollup, "totalCost" | "margin" | "marginPercent">): JobCostRollup {
+  const totalCost = roundMoney(cost.laborCost + cost.machineCost + cost.materialCost);
+  const margin = roundMoney(cost.sellPrice - totalCost);
+  return {
+    ...cost,
+    totalCost,
+    margin,
+    marginPercent: cost.sellPrice > 0 ? Math.round((margin / cost.sellPrice) * 1000) / 10 : null,
+  };
+}
+
+export function rollupJobCost(input: {
+  timeEntries: CostingTimeEntry[];
+  materials: CostingMaterial[];
+  sellPrice: number;
+}): JobCostRollup {
+  let laborSeconds = 0;
+  let unratedLaborSeconds = 0;
+  let laborCost = 0;
+  let machineCost = 0;
+  for (const entry of input.timeEntries) {
+    const hours = entry.seconds / 3600;
+    laborSeconds += entry.seconds;
+    if (entry.laborRatePerHour == null) unratedLaborSeconds += entry.seconds;
+    else laborCost += hours * entry.laborRatePerHour;
+    if (entry.machineRatePerHour != null) machineCost += hours * entry.machineRatePerHour;
+  }
+  const materialCost = input.materials.reduce((sum, m) => sum + m.quantityUsed * m.costPerUnit, 0);
+
+  return withMargin({
+    laborSeconds,
+    unratedLaborSeconds,
+    laborCost: roundMoney(laborCost),
+    machineCost: roundMoney(machineCost),
+    materialCost: roundMoney(materialCost),
+    sellPrice: roundMoney(input.sellPrice),
+  });
+}
+
+/** Totals across line items (an order, a report). */
+export function sumJobCosts(rollups: JobCostRollup[]): JobCostRollup {
+  const sum = (key: "laborSeconds" | "unratedLaborSeconds" | "laborCost" | "machineCost" | "materialCost" | "sellPrice") =>
+    rollups.reduce((total, r) => total + r[key], 0);
+  return withMargin({
+    laborSeconds: sum("laborSeconds"),
+    unratedLaborSeconds: sum("unratedLaborSeconds"),
+    laborCost: roundMoney(sum("laborCost")),
+    machineCost: roundMoney(sum("machineCost")),
+    materialCost: roundMoney(sum("materialCost")),
+    sellPrice: roundMoney(sum("sellPrice")),
+  });
+}
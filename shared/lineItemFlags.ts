@@ -47,6 +47,20 @@ function hasGenerationFailure(items: unknown[]): boolean {
   return false;
 }
 
+function countPreflightBlockers(items: unknown[]): { files: number; blockers: number } {
+  let files = 0;
+  let blockers = 0;
+  for (const it of items) {
+    if (safeString((it as any)?.prepressStatus).toLowerCase() !== "succeeded") continue;
+    const count = Number((it as any)?.prepressSummary?.counts?.BLOCKER) || 0;
+    if (count > 0) {
+      files++;
+      blockers += count;
+    }
+  }
+  return { files, blockers };
+}
+
 export function deriveLineItemFlags(
   lineItem: unknown,
   ctx?: {
@@ -121,5 +135,21 @@ export function deriveLineItemFlags(
     }
   }
 
+  // preflight_blockers: automatic preflight of line item artwork found blockers.
+  // Only attachments carry preflight results; omit when none were inspected.
+  if (!isSuppressed(lineItem, "preflight_blockers")) {
+    const attachmentItems = Array.isArray(attachments?.items) ? attachments!.items! : [];
+    const { files, blockers } = countPreflightBlockers(attachmentItems);
+    if (files > 0) {
+      flags.unshift({
+        key: "preflight_blockers",
+        label: "Preflight blockers",
+        tone: "danger",
+        tooltip: `${blockers} preflight blocker${blockers === 1 ? "" : "s"} in ${files} artwork file${files === 1 ? "" : "s"} — see artwork list`,
+        onClick: null,
+      });
+    }
+  }
+
   return flags;
 }
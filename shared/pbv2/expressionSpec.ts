@@ -28,10 +28,32 @@ export type ExprOp =
   | "exists"
   | "coalesce"
   | "concat"
-  | "strlen";
+  | "strlen"
+  | "lookup"
+  | "interpolate";
 
 export type ExpressionLiteral = number | boolean | string | null;
 
+/**
+ * One axis of a lookup table.
+ * - exact: the key expression must equal one of `keys` (TEXT or NUMBER keys, not mixed).
+ * - band: `breakpoints` are ascending lower bounds; the last breakpoint <= x wins.
+ */
+export type LookupAxisSpec =
+  | { mode: "exact"; keys: Array<string | number> }
+  | { mode: "band"; breakpoints: number[] };
+
+export type LookupTableSpec = {
+  rows: LookupAxisSpec;
+  cols?: LookupAxisSpec;
+  /** values[rowIndex][colIndex]; tables without `cols` use a single column. */
+  values: number[][];
+};
+
+export type InterpolatePoint = { x: number; y: number };
+
+export type InterpolateExtrapolation = "clamp" | "linear";
+
 export type ExpressionSpec =
   | { op: "literal"; value: ExpressionLiteral }
   | { op: "ref"; ref: Ref }
@@ -60,7 +82,16 @@ export type ExpressionSpec =
   | { op: "exists"; x: ExpressionSpec }
   | { op: "coalesce"; args: ExpressionSpec[] }
   | { op: "concat"; args: ExpressionSpec[] }
-  | { op: "strlen"; x: ExpressionSpec };
+  | { op: "strlen"; x: ExpressionSpec }
+  | {
+      op: "lookup";
+      /** Inline table, or the key of an entry in the tree-level `lookupTables` record. */
+      table: LookupTableSpec | string;
+      row: ExpressionSpec;
+      col?: ExpressionSpec;
+      default?: ExpressionSpec;
+    }
+  | { op: "interpolate"; x: ExpressionSpec; points: InterpolatePoint[]; extrapolate?: InterpolateExtrapolation };
 
 export type ConditionOp = "AND" | "OR" | "NOT" | "EQ" | "NEQ" | "GT" | "GTE" | "LT" | "LTE" | "IN" | "EXISTS";
 
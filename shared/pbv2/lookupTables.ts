@@ -0,0 +1,340 @@
+import { errorFinding, pathJoin, type Finding } from "./findings";
+import type { InterpolateExtrapolation, InterpolatePoint, LookupAxisSpec, LookupTableSpec } from "./expressionSpec";
+
+type AnyRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): AnyRecord | null {
+  if (!value || typeof value !== "object") return null;
+  return value as AnyRecord;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export const INTERPOLATE_EXTRAPOLATION_MODES: readonly InterpolateExtrapolation[] = ["clamp", "linear"] as const;
+
+/**
+ * Reads the tree-level `lookupTables` record (tableKey -> LookupTableSpec).
+ * Values are returned raw; shape is validated separately via validateLookupTableSpec.
+ */
+export function extractLookupTables(treeVersion: unknown): Record<string, unknown> {
+  const tv = asRecord(treeVersion);
+  const raw = tv ? asRecord(tv.lookupTables) : null;
+  if (!raw || Array.isArray(raw)) return {};
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!key.trim()) continue;
+    out[key] = value;
+  }
+  return out;
+}
+
+/** Key type of an exact axis ("NUMBER" | "TEXT"), or null when keys are empty/mixed/invalid. */
+export function exactAxisKeyType(axis: LookupAxisSpec): "NUMBER" | "TEXT" | null {
+  if (axis.mode !== "exact" || !Array.isArray(axis.keys) || axis.keys.length === 0) return null;
+  if (axis.keys.every((k) => isNumber(k))) return "NUMBER";
+  if (axis.keys.every((k) => typeof k === "string")) return "TEXT";
+  return null;
+}
+
+function axisLength(axis: unknown): number | null {
+  const rec = asRecord(axis);
+  if (!rec) return null;
+  if (rec.mode === "exact" && Array.isArray(rec.keys)) return rec.keys.length;
+  if (rec.mode === "band" && Array.isArray(rec.breakpoints)) return rec.breakpoints.length;
+  return null;
+}
+
+function validateAxis(axis: unknown, path: string, entityId?: string): Finding[] {
+  const findings: Finding[] = [];
+  const rec = asRecord(axis);
+
+  if (!rec || (rec.mode !== "exact" && rec.mode !== "band")) {
+    findings.push(
+      errorFinding({
+        code: "PBV2_E_LOOKUP_TABLE_INVALID",
+        message: "Lookup axis mode must be 'exact' or 'band'",
+        path,
+        entityId,
+      })
+    );
+    return findings;
+  }
+
+  if (rec.mode === "exact") {
+    const keys = rec.keys;
+    if (!Array.isArray(keys) || keys.length === 0) {
+      findings.push(
+        errorFinding({
+          code: "PBV2_E_LOOKUP_TABLE_INVALID",
+          message: "Exact lookup axis requires at least one key",
+          path: pathJoin(path, "keys"),
+          entityId,
+        })
+      );
+      return findings;
+    }
+
+    if (exactAxisKeyType(rec as LookupAxisSpec) === null) {
+      findings.push(
+        errorFinding({
+          code: "PBV2_E_LOOKUP_TABLE_INVALID",
+          message: "Exact lookup axis keys must all be TEXT or all be finite NUMBER",
+          path: pathJoin(path, "keys"),
+          entityId,
+        })
+      );
+      return findings;
+    }
+
+    const seen = new Set<string>();
+    keys.forEach((k, i) => {
+      const id = `${typeof k}:${String(k)}`;
+      if (seen.has(id)) {
+        findings.push(
+          errorFinding({
+            code: "PBV2_E_LOOKUP_TABLE_INVALID",
+            message: `Duplicate lookup key '${String(k)}'`,
+            path: pathJoin(path, `keys[${i}]`),
+            entityId,
+            context: { key: k },
+          })
+        );
+      }
+      seen.add(id);
+    });
+    return findings;
+  }
+
+  const breakpoints = rec.breakpoints;
+  if (!Array.isArray(breakpoints) || breakpoints.length === 0) {
+    findings.push(
+      errorFinding({
+        code: "PBV2_E_LOOKUP_TABLE_INVALID",
+        message: "Band lookup axis requires at least one breakpoint",
+        path: pathJoin(path, "breakpoints"),
+        entityId,
+      })
+    );
+    return findings;
+  }
+
+  for (let i = 0; i < breakpoints.length; i++) {
+    const b = breakpoints[i];
+    if (!isNumber(b)) {
+      findings.push(
+        errorFinding({
+          code: "PBV2_E_LOOKUP_TABLE_INVALID",
+          message: "Band breakpoints must be finite numbers",
+          path: pathJoin(path, `breakpoints[${i}]`),
+          entityId,
+          context: { value: b },
+        })
+      );
+      return findings;
+    }
+    if (i > 0 && !(b > (breakpoints[i - 1] as number))) {
+      findings.push(
+        errorFinding({
+          code: "PBV2_E_LOOKUP_TABLE_INVALID",
+          message: "Band breakpoints must be strictly ascending",
+          path: pathJoin(path, `breakpoints[${i}]`),
+          entityId,
+          context: { previous: breakpoints[i - 1], value: b },
+        })
+      );
+      return findings;
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Structural validation of a lookup table: axes are well-formed and `values` is a
+ * rows × cols grid of finite numbers.
+ */
+export function validateLookupTableSpec(table: unknown, opts?: { pathBase?: string; entityId?: string }): Finding[] {
+  const path = opts?.pathBase ?? "table";
+  const entityId = opts?.entityId;
+  const findings: Finding[] = [];
+
+  const rec = asRecord(table);
+  if (!rec || Array.isArray(rec)) {
+    return [
+      errorFinding({
+        code: "PBV2_E_LOOKUP_TABLE_INVALID",
+        message: "Lookup table must be an object with rows/values",
+        path,
+        entityId,
+      }),
+    ];
+  }
+
+  findings.push(...validateAxis(rec.rows, pathJoin(path, "rows"), entityId));
+  if (rec.cols !== undefined) findings.push(...validateAxis(rec.cols, pathJoin(path, "cols"), entityId));
+  if (findings.length > 0) return findings;
+
+  const rowCount = axisLength(rec.rows)!;
+  const colCount = rec.cols === undefined ? 1 : axisLength(rec.cols)!;
+
+  const values = rec.values;
+  if (!Array.isArray(values) || values.length !== rowCount) {
+    findings.push(
+      errorFinding({
+        code: "PBV2_E_LOOKUP_TABLE_INVALID",
+        message: `Lookup values must have exactly ${rowCount} row(s)`,
+        path: pathJoin(path, "values"),
+        entityId,
+        context: { expectedRows: rowCount, actualRows: Array.isArray(values) ? values.length : null },
+      })
+    );
+    return findings;
+  }
+
+  values.forEach((row, r) => {
+    if (!Array.isArray(row) || row.length !== colCount) {
+      findings.push(
+        errorFinding({
+          code: "PBV2_E_LOOKUP_TABLE_INVALID",
+          message: `Lookup row ${r} must have exactly ${colCount} value(s)`,
+          path: pathJoin(path, `values[${r}]`),
+          entityId,
+          context: { expectedCols: colCount, actualCols: Array.isArray(row) ? row.length : null },
+        })
+      );
+      return;
+    }
+    row.forEach((v, c) => {
+      if (!isNumber(v)) {
+        findings.push(
+          errorFinding({
+            code: "PBV2_E_LOOKUP_TABLE_INVALID",
+            message: "Lookup values must be finite numbers",
+            path: pathJoin(path, `values[${r}][${c}]`),
+            entityId,
+            context: { value: v },
+          })
+        );
+      }
+    });
+  });
+
+  return findings;
+}
+
+/** Structural validation of interpolate() breakpoints: >= 2 finite points with strictly ascending x. */
+export function validateInterpolatePoints(
+  points: unknown,
+  extrapolate: unknown,
+  opts?: { pathBase?: string; entityId?: string }
+): Finding[] {
+  const path = opts?.pathBase ?? "expr";
+  const entityId = opts?.entityId;
+  const findings: Finding[] = [];
+
+  if (extrapolate !== undefined && !INTERPOLATE_EXTRAPOLATION_MODES.includes(extrapolate as InterpolateExtrapolation)) {
+    findings.push(
+      errorFinding({
+        code: "PBV2_E_INTERPOLATE_POINTS_INVALID",
+        message: "interpolate() extrapolate must be 'clamp' or 'linear'",
+        path: pathJoin(path, "extrapolate"),
+        entityId,
+        context: { value: extrapolate },
+      })
+    );
+  }
+
+  if (!Array.isArray(points) || points.length < 2) {
+    findings.push(
+      errorFinding({
+        code: "PBV2_E_INTERPOLATE_POINTS_INVALID",
+        message: "interpolate() requires at least two points",
+        path: pathJoin(path, "points"),
+        entityId,
+      })
+    );
+    return findings;
+  }
+
+  for (let i = 0; i < points.length; i++) {
+    const p = asRecord(points[i]);
+    if (!p || !isNumber(p.x) || !isNumber(p.y)) {
+      findings.push(
+        errorFinding({
+          code: "PBV2_E_INTERPOLATE_POINTS_INVALID",
+          message: "interpolate() points must have finite numeric x and y",
+          path: pathJoin(path, `points[${i}]`),
+          entityId,
+        })
+      );
+      return findings;
+    }
+    const prev = i > 0 ? asRecord(points[i - 1]) : null;
+    if (prev && !((p.x as number) > (prev.x as number))) {
+      findings.push(
+        errorFinding({
+          code: "PBV2_E_INTERPOLATE_POINTS_INVALID",
+          message: "interpolate() point x values must be strictly ascending",
+          path: pathJoin(path, `points[${i}].x`),
+          entityId,
+          context: { previous: prev.x, value: p.x },
+        })
+      );
+      return findings;
+    }
+  }
+
+  return findings;
+}
+
+/** Returns the matching axis index for a key, or -1 when the key misses the axis. */
+export function lookupAxisIndex(axis: LookupAxisSpec, key: unknown): number {
+  if (axis.mode === "exact") {
+    return axis.keys.findIndex((k) => k === key);
+  }
+  if (!isNumber(key)) return -1;
+  let idx = -1;
+  for (let i = 0; i < axis.breakpoints.length; i++) {
+    if (axis.breakpoints[i] <= key) idx = i;
+    else break;
+  }
+  return idx;
+}
+
+/** Evaluates a lookup table cell; returns null on a miss. */
+export function lookupTableValue(table: LookupTableSpec, rowKey: unknown, colKey?: unknown): number | null {
+  const r = lookupAxisIndex(table.rows, rowKey);
+  if (r < 0) return null;
+  const c = table.cols ? lookupAxisIndex(table.cols, colKey) : 0;
+  if (c < 0) return null;
+  const v = table.values[r]?.[c];
+  return isNumber(v) ? v : null;
+}
+
+/**
+ * Piecewise-linear interpolation over ascending points.
+ * Outside the breakpoint range: "clamp" (default) holds the end value, "linear" extends the end segment.
+ */
+export function interpolatePiecewise(
+  points: InterpolatePoint[],
+  x: number,
+  extrapolate: InterpolateExtrapolation = "clamp"
+): number {
+  if (points.length === 0) throw new Error("interpolate(): no points");
+  if (points.length === 1) return points[0].y;
+
+  const first = points[0];
+  const last = points[points.length - 1];
+
+  const lerp = (a: InterpolatePoint, b: InterpolatePoint) => a.y + ((x - a.x) * (b.y - a.y)) / (b.x - a.x);
+
+  if (x <= first.x) return extrapolate === "linear" ? lerp(first, points[1]) : first.y;
+  if (x >= last.x) return extrapolate === "linear" ? lerp(points[points.length - 2], last) : last.y;
+
+  for (let i = 1; i < points.length; i++) {
+    if (x <= points[i].x) return lerp(points[i - 1], points[i]);
+  }
+  return last.y;
+}
@@ -0,0 +1,263 @@
+/**
+ * PBV2 "what-if" price impact: replay historical line items through a candidate (usually DRAFT) tree.
+ *
+ * Old price = the line replayed through the tree version it was priced with, so deltas isolate the tree edit
+ * (engine changes since the line was priced do not show up as impact). When that tree is unavailable the
+ * stored snapshot `pricing.addOnCents` is used instead.
+ */
+
+import { pbv2ToPricingAddons, type Pbv2PricingContext } from "./pricingAdapter";
+import { pickPbv2EnvExtras } from "./pbv2InputSignature";
+
+export type Pbv2PriceImpactSource = "quote" | "order";
+
+export type Pbv2PriceImpactSample = {
+  lineItemId: string;
+  source: Pbv2PriceImpactSource;
+  parentId: string | null;
+  /** Quote # / order # for display. */
+  parentNumber: string | null;
+  pricedAt: string | null;
+  /** Stored line total (cents). */
+  linePriceCents: number | null;
+  /** Tree version the line was priced with. */
+  treeVersionId: string | null;
+  explicitSelections: Record<string, unknown>;
+  env: Record<string, unknown>;
+  /** `pricing.addOnCents` from a PBV2 line snapshot, when present. */
+  storedAddOnCents: number | null;
+};
+
+export type Pbv2PriceImpactLine = {
+  lineItemId: string;
+  source: Pbv2PriceImpactSource;
+  parentId: string | null;
+  parentNumber: string | null;
+  pricedAt: string | null;
+  treeVersionId: string | null;
+  oldBasis: "replay" | "snapshot" | null;
+  oldAddOnCents: number | null;
+  newAddOnCents: number | null;
+  deltaCents: number | null;
+  oldLinePriceCents: number | null;
+  newLinePriceCents: number | null;
+  /** Delta relative to the old line price (percent). Null when the old price is 0/unknown. */
+  deltaPct: number | null;
+  outlier: boolean;
+  error: string | null;
+};
+
+export type Pbv2PriceImpactBucket = {
+  key: string;
+  label: string;
+  count: number;
+};
+
+export type Pbv2PriceImpactReport = {
+  lines: Pbv2PriceImpactLine[];
+  stats: {
+    sampleCount: number;
+    evaluatedCount: number;
+    failedCount: number;
+    unchangedCount: number;
+    increasedCount: number;
+    decreasedCount: number;
+    totalDeltaCents: number;
+    meanDeltaCents: number | null;
+    medianDeltaCents: number | null;
+    minDeltaCents: number | null;
+    maxDeltaCents: number | null;
+  };
+  distribution: Pbv2PriceImpactBucket[];
+  /** Lines outside the Tukey fences (1.5 × IQR) on deltaCents, largest |delta| first. */
+  outliers: Pbv2PriceImpactLine[];
+  outlierFences: { lowCents: number; highCents: number } | null;
+};
+
+/** Percent-change buckets for the delta distribution; `max` is exclusive. */
+export const PRICE_IMPACT_BUCKETS: ReadonlyArray<{ key: string; label: string; min: number; max: number }> = [
+  { key: "lt_-25", label: "< -25%", min: -Infinity, max: -25 },
+  { key: "-25_-10", label: "-25% to -10%", min: -25, max: -10 },
+  { key: "-10_-1", label: "-10% to -1%", min: -10, max: -1 },
+  { key: "-1_1", label: "±1%", min: -1, max: 1 },
+  { key: "1_10", label: "1% to 10%", min: 1, max: 10 },
+  { key: "10_25", label: "10% to 25%", min: 10, max: 25 },
+  { key: "gte_25", label: "≥ 25%", min: 25, max: Infinity },
+];
+
+// Minimum evaluated lines before outliers are flagged; quartiles of 2-3 points are meaningless.
+const MIN_LINES_FOR_OUTLIERS = 4;
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+function finiteOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const n = typeof value === "number" ? value : Number(String(value));
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * Rebuild PBV2 evaluation inputs for a stored line item.
+ *
+ * Supports both snapshot shapes in the tree:
+ * - order line snapshots: `{ explicitSelections, env, pricing: { addOnCents } }`
+ * - quote line snapshots (PricingService): `{ selections, dimensions, quantity }`
+ *
+ * Env is computed from the line's current dimensions/quantity plus non-computed env extras,
+ * mirroring how the recompute/apply routes build `pbv2InputSignature` env.
+ */
+export function extractPbv2ReplayInputs(args: {
+  snapshot: unknown;
+  widthIn: unknown;
+  heightIn: unknown;
+  quantity: unknown;
+}): { explicitSelections: Record<string, unknown>; env: Record<string, unknown>; storedAddOnCents: number | null; treeVersionId: string | null } | null {
+  const snapshot = asRecord(args.snapshot);
+  if (!snapshot) return null;
+
+  const explicitSelections = asRecord(snapshot.explicitSelections) ?? asRecord(snapshot.selections);
+  if (!explicitSelections) return null;
+
+  const dims = asRecord(snapshot.dimensions);
+  const widthIn = finiteOrNull(args.widthIn) ?? finiteOrNull(dims?.widthIn);
+  const heightIn = finiteOrNull(args.heightIn) ?? finiteOrNull(dims?.heightIn);
+  const quantity = finiteOrNull(args.quantity) ?? finiteOrNull(snapshot.quantity);
+
+  const env: Record<string, unknown> = {};
+  if (widthIn !== null) env.widthIn = widthIn;
+  if (heightIn !== null) env.heightIn = heightIn;
+  if (quantity !== null) env.quantity = quantity;
+  if (widthIn !== null && heightIn !== null) {
+    env.sqft = (widthIn * heightIn) / 144;
+    env.perimeterIn = 2 * (widthIn + heightIn);
+  }
+  Object.assign(env, pickPbv2EnvExtras(asRecord(snapshot.env)));
+
+  const pricing = asRecord(snapshot.pricing);
+  const storedAddOnCents = finiteOrNull(pricing?.addOnCents);
+  const treeVersionId = typeof snapshot.treeVersionId === "string" && snapshot.treeVersionId ? snapshot.treeVersionId : null;
+
+  return { explicitSelections, env, storedAddOnCents, treeVersionId };
+}
+
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 1) return sorted[0];
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function bucketFor(pct: number): string {
+  for (const b of PRICE_IMPACT_BUCKETS) {
+    if (pct >= b.min && pct < b.max) return b.key;
+  }
+  return PRICE_IMPACT_BUCKETS[PRICE_IMPACT_BUCKETS.length - 1].key;
+}
+
+export function buildPbv2PriceImpactReport(args: {
+  candidateTree: unknown;
+  samples: Pbv2PriceImpactSample[];
+  /** treeVersionId -> treeJson for the versions the samples were priced with. */
+  baselineTrees: Record<string, unknown>;
+  pricingContext?: Pbv2PricingContext;
+  /** Resolved org pricebook; applied to both sides so only the tree edit shows up as impact. */
+  pricebook?: Record<string, number>;
+}): Pbv2PriceImpactReport {
+  const { candidateTree, samples, baselineTrees } = args;
+  const opts = args.pricingContext || args.pricebook ? { pricingContext: args.pricingContext, pricebook: args.pricebook } : undefined;
+
+  const lines: Pbv2PriceImpactLine[] = samples.map((s) => {
+    const line: Pbv2PriceImpactLine = {
+      lineItemId: s.lineItemId,
+      source: s.source,
+      parentId: s.parentId,
+      parentNumber: s.parentNumber,
+      pricedAt: s.pricedAt,
+      treeVersionId: s.treeVersionId,
+      oldBasis: null,
+      oldAddOnCents: null,
+      newAddOnCents: null,
+      deltaCents: null,
+      oldLinePriceCents: s.linePriceCents,
+      newLinePriceCents: null,
+      deltaPct: null,
+      outlier: false,
+      error: null,
+    };
+
+    try {
+      const baseline = s.treeVersionId ? baselineTrees[s.treeVersionId] : undefined;
+      if (baseline) {
+        line.oldAddOnCents = pbv2ToPricingAddons(baseline, s.explicitSelections, s.env, opts).addOnCents;
+        line.oldBasis = "replay";
+      } else if (s.storedAddOnCents !== null) {
+        line.oldAddOnCents = s.storedAddOnCents;
+        line.oldBasis = "snapshot";
+      } else {
+        line.error = "No baseline tree or stored PBV2 price for this line";
+        return line;
+      }
+
+      line.newAddOnCents = pbv2ToPricingAddons(candidateTree, s.explicitSelections, s.env, opts).addOnCents;
+    } catch (e: any) {
+      line.error = e?.message || "PBV2 evaluation failed";
+      return line;
+    }
+
+    line.deltaCents = line.newAddOnCents - line.oldAddOnCents;
+    const oldTotal = s.linePriceCents ?? line.oldAddOnCents;
+    line.newLinePriceCents = oldTotal + line.deltaCents;
+    line.deltaPct = oldTotal !== 0 ? (line.deltaCents / Math.abs(oldTotal)) * 100 : null;
+    return line;
+  });
+
+  const evaluated = lines.filter((l) => l.deltaCents !== null);
+  const deltas = evaluated.map((l) => l.deltaCents as number).sort((a, b) => a - b);
+  const totalDeltaCents = deltas.reduce((acc, d) => acc + d, 0);
+
+  const counts: Record<string, number> = {};
+  for (const l of evaluated) {
+    // Lines with no old price still count as "new charge" in the top bucket when they went up.
+    const pct = l.deltaPct ?? (l.deltaCents === 0 ? 0 : (l.deltaCents as number) > 0 ? Infinity : -Infinity);
+    const key = bucketFor(pct);
+    counts[key] = (counts[key] ?? 0) + 1;
+  }
+
+  let outlierFences: Pbv2PriceImpactReport["outlierFences"] = null;
+  if (deltas.length >= MIN_LINES_FOR_OUTLIERS) {
+    const q1 = quantile(deltas, 0.25);
+    const q3 = quantile(deltas, 0.75);
+    const iqr = q3 - q1;
+    outlierFences = { lowCents: q1 - 1.5 * iqr, highCents: q3 + 1.5 * iqr };
+    for (const l of evaluated) {
+      const d = l.deltaCents as number;
+      l.outlier = d !== 0 && (d < outlierFences.lowCents || d > outlierFences.highCents);
+    }
+  }
+
+  return {
+    lines,
+    stats: {
+      sampleCount: lines.length,
+      evaluatedCount: evaluated.length,
+      failedCount: lines.length - evaluated.length,
+      unchangedCount: deltas.filter((d) => d === 0).length,
+      increasedCount: deltas.filter((d) => d > 0).length,
+      decreasedCount: deltas.filter((d) => d < 0).length,
+      totalDeltaCents,
+      meanDeltaCents: deltas.length ? Math.round(totalDeltaCents / deltas.length) : null,
+      medianDeltaCents: deltas.length ? Math.round(quantile(deltas, 0.5)) : null,
+      minDeltaCents: deltas.length ? deltas[0] : null,
+      maxDeltaCents: deltas.length ? deltas[deltas.length - 1] : null,
+    },
+    distribution: PRICE_IMPACT_BUCKETS.map((b) => ({ key: b.key, label: b.label, count: counts[b.key] ?? 0 })),
+    outliers: evaluated
+      .filter((l) => l.outlier)
+      .sort((a, b) => Math.abs(b.deltaCents as number) - Math.abs(a.deltaCents as number)),
+    outlierFences,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Org pricebook: shared, effective-dated values referenced from PBV2 trees via `pricebookRef`.
+ *
+ * A key (e.g. `ink.cost_per_sqft`) can have several entries; the one with the latest
+ * `effectiveFrom <= at` is its value at `at`. The resolved map is what the pricing adapter
+ * takes as `opts.pricebook`.
+ */
+
+export const PRICEBOOK_VALUE_TYPES = ["CENTS", "NUMBER"] as const;
+export type PricebookValueType = (typeof PRICEBOOK_VALUE_TYPES)[number];
+
+/** Dot-separated segments of letters, digits and underscores, e.g. `labor.hourly`, `banner.grommets.unitPriceCents`. */
+export const PRICEBOOK_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*(\.[A-Za-z][A-Za-z0-9_]*)*$/;
+export const PRICEBOOK_KEY_MAX_LENGTH = 150;
+
+export type PricebookEntryLike = {
+  key: string;
+  value: number | string;
+  effectiveFrom: Date | string;
+};
+
+export function isValidPricebookKey(key: unknown): key is string {
+  return typeof key === "string" && key.length <= PRICEBOOK_KEY_MAX_LENGTH && PRICEBOOK_KEY_PATTERN.test(key);
+}
+
+/** Returns an error message, or null when `value` is valid for `valueType`. CENTS must be whole cents. */
+export function validatePricebookValue(valueType: PricebookValueType, value: unknown): string | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) return "Value must be a finite number";
+  if (valueType === "CENTS" && !Number.isInteger(value)) return "CENTS values must be whole cents";
+  return null;
+}
+
+function toTime(value: Date | string): number {
+  return value instanceof Date ? value.getTime() : Date.parse(value);
+}
+
+/**
+ * Resolve `key -> value` as of `at`. Keys whose entries are all in the future are omitted,
+ * so pricebookRef evaluation treats them as missing.
+ */
+export function resolvePricebookAt(entries: readonly PricebookEntryLike[], at: Date): Record<string, number> {
+  const atMs = at.getTime();
+  const best: Record<string, { t: number; value: number }> = {};
+
+  for (const e of entries) {
+    const t = toTime(e.effectiveFrom);
+    if (!Number.isFinite(t) || t > atMs) continue;
+    const value = typeof e.value === "number" ? e.value : Number(e.value);
+    if (!Number.isFinite(value)) continue;
+    const prev = best[e.key];
+    if (!prev || t > prev.t) best[e.key] = { t, value };
+  }
+
+  const out: Record<string, number> = {};
+  for (const key of Object.keys(best).sort()) out[key] = best[key].value;
+  return out;
+}
@@ -1,9 +1,10 @@
-import type { ConditionRule, ExpressionLiteral, ExpressionSpec } from "./expressionSpec";
+import type { ConditionRule, ExpressionLiteral, ExpressionSpec, LookupTableSpec } from "./expressionSpec";
 import {
   applyDiscountToPbv2ComponentAmounts,
   type Pbv2ComponentDiscountConfig,
   type PricingTier,
 } from "./componentDiscounts";
+import { extractLookupTables, interpolatePiecewise, lookupTableValue } from "./lookupTables";
 import { buildSymbolTable } from "./symbolTable";
 import { typeCheckCondition, typeCheckExpression } from "./typeChecker";
 
@@ -280,6 +281,7 @@ type EvalCtx = {
   computeOutputsByNodeId: Record<string, Record<string, unknown>>;
   env: Record<string, unknown>;
   pricebook?: Record<string, number>;
+  lookupTables: Record<string, unknown>;
 };
 
 function isNumber(value: unknown): value is number {
@@ -527,6 +529,23 @@ function evalExpression(expr: ExpressionSpec, ctx: EvalCtx): ExpressionLiteral {
     case "strlen":
       return String(evalExpression(expr.x, ctx) ?? "").length;
 
+    case "lookup": {
+      const spec = typeof expr.table === "string" ? ctx.lookupTables[expr.table] : expr.table;
+      if (!spec || typeof spec !== "object") throw new Error(`lookup(): unknown table '${String(expr.table)}'`);
+      const rowKey = evalExpression(expr.row, ctx);
+      const colKey = expr.col ? evalExpression(expr.col, ctx) : undefined;
+      const hit = lookupTableValue(spec as LookupTableSpec, rowKey, colKey);
+      if (hit !== null) return hit;
+      return expr.default ? evalExpression(expr.default, ctx) : null;
+    }
+
+    case "interpolate":
+      return interpolatePiecewise(
+        expr.points,
+        toNumberOrThrow(evalExpression(expr.x, ctx), "interpolate(): x must be NUMBER"),
+        expr.extrapolate
+      );
+
     default: {
       const _exhaustive: never = expr;
       return _exhaustive as any;
@@ -900,6 +919,7 @@ export function pbv2ToPricingAddons(
     computeOutputsByNodeId: {},
     env: envMap,
     pricebook: opts?.pricebook,
+    lookupTables: extractLookupTables(tree),
   };
 
   const activeNodeIds = resolveActiveNodeIds(tree, nodesById, edges, evalCtx);
@@ -1096,6 +1116,7 @@ export function pbv2ToMaterialEffects(
     computeOutputsByNodeId: {},
     env: envMap,
     pricebook: opts?.pricebook,
+    lookupTables: extractLookupTables(tree),
   };
 
   const activeNodeIds = resolveActiveNodeIds(tree, nodesById, edges, evalCtx);
@@ -1210,6 +1231,7 @@ export function pbv2ToChildItemProposals(
     computeOutputsByNodeId: {},
     env: envMap,
     pricebook: opts?.pricebook,
+    lookupTables: extractLookupTables(tree),
   };
 
   const activeNodeIds = resolveActiveNodeIds(tree, nodesById, edges, evalCtx);
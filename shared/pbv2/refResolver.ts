@@ -356,6 +356,18 @@ export function resolveExpressionRefs(
         return;
       }
 
+      case "lookup": {
+        walk(node.row, pathJoin(path, "row"));
+        if (node.col) walk(node.col, pathJoin(path, "col"));
+        if (node.default) walk(node.default, pathJoin(path, "default"));
+        return;
+      }
+
+      case "interpolate": {
+        walk(node.x, pathJoin(path, "x"));
+        return;
+      }
+
       default:
         findings.push(
           errorFinding({
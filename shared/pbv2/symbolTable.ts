@@ -1,6 +1,7 @@
 import { DEFAULT_ENV_KEYS } from "./refContract";
 import type { PBV2Type } from "./refContract";
 import { errorFinding, type Finding } from "./findings";
+import { extractLookupTables } from "./lookupTables";
 
 export type PBV2NodeType = "INPUT" | "COMPUTE" | "PRICE" | "EFFECT" | "GROUP";
 export type PBV2Status = "ENABLED" | "DISABLED" | "DELETED";
@@ -28,6 +29,8 @@ export type SymbolTable = {
   inputBySelectionKey: Record<string, InputSymbol>;
   computeByNodeId: Record<string, ComputeSymbol>;
   envKeys: ReadonlySet<string>;
+  /** Tree-level named lookup tables (raw specs) addressable from lookup() by key. */
+  lookupTablesByKey: Record<string, unknown>;
 };
 
 type AnyRecord = Record<string, unknown>;
@@ -230,6 +233,7 @@ export function buildSymbolTable(treeVersion: unknown, opts?: { pathBase?: strin
     inputBySelectionKey,
     computeByNodeId,
     envKeys: new Set<string>(DEFAULT_ENV_KEYS),
+    lookupTablesByKey: extractLookupTables(treeVersion),
   };
 
   return { table, findings };
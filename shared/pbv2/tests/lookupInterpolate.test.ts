@@ -0,0 +1,131 @@
+import { describe, test, expect } from "@jest/globals";
+import { buildSymbolTable } from "../symbolTable";
+import { typeCheckExpression } from "../typeChecker";
+import { pbv2ToPricingAddons } from "../pricingAdapter";
+import { validateTreeForPublish, DEFAULT_VALIDATE_OPTS } from "../validator";
+
+const sqftByMaterialTable = {
+  rows: { mode: "band", breakpoints: [0, 10, 50] },
+  cols: { mode: "exact", keys: ["13oz", "18oz"] },
+  values: [
+    [500, 700],
+    [400, 600],
+    [300, 500],
+  ],
+};
+
+function makeTree(priceExpr: unknown, extra?: Record<string, unknown>) {
+  return {
+    status: "DRAFT",
+    rootNodeIds: ["in_mat", "p1"],
+    lookupTables: { bannerSqft: sqftByMaterialTable },
+    nodes: [
+      {
+        id: "in_mat",
+        type: "INPUT",
+        status: "ENABLED",
+        key: "material",
+        input: {
+          selectionKey: "material",
+          valueType: "ENUM",
+          defaultValue: "13oz",
+          constraints: { enum: { options: [{ value: "13oz" }, { value: "18oz" }] } },
+        },
+      },
+      {
+        id: "p1",
+        type: "PRICE",
+        status: "ENABLED",
+        key: "p1",
+        price: { components: [{ kind: "FLAT", unitPriceRef: priceExpr }] },
+      },
+    ],
+    edges: [],
+    ...(extra ?? {}),
+  };
+}
+
+const lookupExpr = {
+  op: "lookup",
+  table: "bannerSqft",
+  row: { op: "ref", ref: { kind: "envRef", envKey: "sqft" } },
+  col: { op: "ref", ref: { kind: "effectiveRef", selectionKey: "material" } },
+  default: { op: "literal", value: 0 },
+};
+
+describe("pbv2/lookup + interpolate ops", () => {
+  test("lookup() resolves named tables and types as non-null NUMBER with default", () => {
+    const { table } = buildSymbolTable(makeTree(lookupExpr));
+    const res = typeCheckExpression(lookupExpr, "PRICE", table, { pathBase: "expr" });
+    expect(res.findings).toHaveLength(0);
+    expect(res.inferred).toEqual({ type: "NUMBER", nullable: false });
+  });
+
+  test("lookup() without default is nullable; unknown table is unresolved", () => {
+    const { table } = buildSymbolTable(makeTree(lookupExpr));
+
+    const noDefault = { ...lookupExpr, default: undefined };
+    expect(typeCheckExpression(noDefault, "PRICE", table).inferred.nullable).toBe(true);
+
+    const missing = { ...lookupExpr, table: "nope" };
+    const res = typeCheckExpression(missing, "PRICE", table);
+    expect(res.findings.some((f) => f.code === "PBV2_E_EXPR_REF_UNRESOLVED")).toBe(true);
+  });
+
+  test("lookup() key type must match axis", () => {
+    const { table } = buildSymbolTable(makeTree(lookupExpr));
+    const bad = { ...lookupExpr, col: { op: "literal", value: 13 } };
+    const res = typeCheckExpression(bad, "PRICE", table);
+    expect(res.findings.some((f) => f.code === "PBV2_E_EXPR_TYPE_MISMATCH")).toBe(true);
+  });
+
+  test("lookup() evaluates band × exact cells in the pricing adapter", () => {
+    const tree = makeTree(lookupExpr);
+    expect(validateTreeForPublish(tree as any, DEFAULT_VALIDATE_OPTS).errors).toHaveLength(0);
+
+    expect(pbv2ToPricingAddons(tree, { material: "18oz" }, { sqft: 12 }).addOnCents).toBe(600);
+    expect(pbv2ToPricingAddons(tree, {}, { sqft: 75 }).addOnCents).toBe(300);
+    // Below the first band => default
+    expect(pbv2ToPricingAddons(tree, {}, { sqft: -1 }).addOnCents).toBe(0);
+  });
+
+  test("interpolate() is piecewise-linear and clamps by default", () => {
+    const expr = {
+      op: "interpolate",
+      x: { op: "ref", ref: { kind: "envRef", envKey: "sqft" } },
+      points: [
+        { x: 0, y: 1000 },
+        { x: 10, y: 2000 },
+        { x: 30, y: 3000 },
+      ],
+    };
+    const tree = makeTree(expr);
+    expect(validateTreeForPublish(tree as any, DEFAULT_VALIDATE_OPTS).errors).toHaveLength(0);
+
+    expect(pbv2ToPricingAddons(tree, {}, { sqft: 5 }).addOnCents).toBe(1500);
+    expect(pbv2ToPricingAddons(tree, {}, { sqft: 20 }).addOnCents).toBe(2500);
+    expect(pbv2ToPricingAddons(tree, {}, { sqft: 100 }).addOnCents).toBe(3000);
+
+    const linear = makeTree({ ...expr, extrapolate: "linear" });
+    expect(pbv2ToPricingAddons(linear, {}, { sqft: 40 }).addOnCents).toBe(3500);
+  });
+
+  test("malformed tables and points are publish blockers", () => {
+    const raggedTree = makeTree(lookupExpr, {
+      lookupTables: { bannerSqft: { ...sqftByMaterialTable, values: [[500, 700], [400]] } },
+    });
+    const ragged = validateTreeForPublish(raggedTree as any, DEFAULT_VALIDATE_OPTS);
+    expect(ragged.errors.some((f) => f.code === "PBV2_E_LOOKUP_TABLE_INVALID")).toBe(true);
+
+    const unsortedTree = makeTree({
+      op: "interpolate",
+      x: { op: "ref", ref: { kind: "envRef", envKey: "sqft" } },
+      points: [
+        { x: 10, y: 1 },
+        { x: 5, y: 2 },
+      ],
+    });
+    const unsorted = validateTreeForPublish(unsortedTree as any, DEFAULT_VALIDATE_OPTS);
+    expect(unsorted.errors.some((f) => f.code === "PBV2_E_INTERPOLATE_POINTS_INVALID")).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect } from "@jest/globals";
+import { buildPbv2PriceImpactReport, extractPbv2ReplayInputs, type Pbv2PriceImpactSample } from "../priceImpact";
+
+function flatTree(amountCents: number) {
+  return {
+    status: "ACTIVE",
+    rootNodeIds: ["p1"],
+    nodes: [
+      {
+        id: "p1",
+        type: "PRICE",
+        status: "ENABLED",
+        key: "p1",
+        price: {
+          components: [
+            {
+              kind: "PER_UNIT",
+              unitPriceRef: { op: "literal", value: amountCents },
+              quantityRef: { op: "ref", ref: { kind: "envRef", envKey: "quantity" } },
+            },
+          ],
+        },
+      },
+    ],
+    edges: [],
+  };
+}
+
+function sample(id: string, quantity: number, overrides?: Partial<Pbv2PriceImpactSample>): Pbv2PriceImpactSample {
+  return {
+    lineItemId: id,
+    source: "order",
+    parentId: `o_${id}`,
+    parentNumber: id,
+    pricedAt: "2026-01-01T00:00:00.000Z",
+    linePriceCents: null,
+    treeVersionId: "tv_active",
+    explicitSelections: {},
+    env: { quantity },
+    storedAddOnCents: null,
+    ...overrides,
+  };
+}
+
+describe("pbv2/priceImpact", () => {
+  test("extractPbv2ReplayInputs handles order and quote snapshot shapes", () => {
+    const order = extractPbv2ReplayInputs({
+      snapshot: {
+        treeVersionId: "tv1",
+        explicitSelections: { material: "13oz" },
+        env: { widthIn: 999, customerTier: "wholesale" },
+        pricing: { addOnCents: 1234 },
+      },
+      widthIn: "24.00",
+      heightIn: "36.00",
+      quantity: 2,
+    });
+    expect(order).toEqual({
+      explicitSelections: { material: "13oz" },
+      env: { widthIn: 24, heightIn: 36, quantity: 2, sqft: 6, perimeterIn: 120, customerTier: "wholesale" },
+      storedAddOnCents: 1234,
+      treeVersionId: "tv1",
+    });
+
+    const quote = extractPbv2ReplayInputs({
+      snapshot: { treeVersionId: "tv2", selections: { grommets: true }, dimensions: { widthIn: 12, heightIn: 12 }, quantity: 5 },
+      widthIn: null,
+      heightIn: null,
+      quantity: null,
+    });
+    expect(quote?.explicitSelections).toEqual({ grommets: true });
+    expect(quote?.env).toMatchObject({ widthIn: 12, heightIn: 12, quantity: 5, sqft: 1 });
+    expect(quote?.storedAddOnCents).toBeNull();
+
+    expect(extractPbv2ReplayInputs({ snapshot: {}, widthIn: 1, heightIn: 1, quantity: 1 })).toBeNull();
+  });
+
+  test("replays old vs new per line and summarizes deltas", () => {
+    const report = buildPbv2PriceImpactReport({
+      candidateTree: flatTree(150),
+      baselineTrees: { tv_active: flatTree(100) },
+      samples: [sample("a", 1, { linePriceCents: 1000 }), sample("b", 4, { linePriceCents: 2000 })],
+    });
+
+    expect(report.lines.map((l) => [l.oldAddOnCents, l.newAddOnCents, l.deltaCents, l.newLinePriceCents])).toEqual([
+      [100, 150, 50, 1050],
+      [400, 600, 200, 2200],
+    ]);
+    expect(report.lines[0].deltaPct).toBeCloseTo(5);
+    expect(report.lines[0].oldBasis).toBe("replay");
+    expect(report.stats).toMatchObject({
+      evaluatedCount: 2,
+      increasedCount: 2,
+      totalDeltaCents: 250,
+      medianDeltaCents: 125,
+      minDeltaCents: 50,
+      maxDeltaCents: 200,
+    });
+    // +5% and +10% (bucket upper bounds are exclusive)
+    expect(report.distribution.find((b) => b.key === "1_10")?.count).toBe(1);
+    expect(report.distribution.find((b) => b.key === "10_25")?.count).toBe(1);
+    // Too few lines to flag outliers
+    expect(report.outlierFences).toBeNull();
+  });
+
+  test("falls back to stored addOnCents and reports lines it cannot replay", () => {
+    const report = buildPbv2PriceImpactReport({
+      candidateTree: flatTree(150),
+      baselineTrees: {},
+      samples: [
+        sample("a", 1, { treeVersionId: "tv_gone", storedAddOnCents: 120 }),
+        sample("b", 1, { treeVersionId: null }),
+      ],
+    });
+
+    expect(report.lines[0]).toMatchObject({ oldBasis: "snapshot", oldAddOnCents: 120, deltaCents: 30 });
+    expect(report.lines[1].error).toBeTruthy();
+    expect(report.stats.failedCount).toBe(1);
+  });
+
+  test("flags outliers outside the IQR fences", () => {
+    const samples = [1, 1, 1, 1, 1, 40].map((q, i) => sample(String(i), q, { env: { quantity: q + (i % 2) } }));
+    const report = buildPbv2PriceImpactReport({
+      candidateTree: flatTree(110),
+      baselineTrees: { tv_active: flatTree(100) },
+      samples,
+    });
+
+    expect(report.outlierFences).not.toBeNull();
+    expect(report.outliers.map((l) => l.lineItemId)).toEqual(["5"]);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, test, expect } from "@jest/globals";
+import { isValidPricebookKey, resolvePricebookAt, validatePricebookValue } from "../pricebook";
+import { pbv2ToPricingAddons } from "../pricingAdapter";
+
+describe("pbv2/pricebook", () => {
+  test("isValidPricebookKey accepts dotted identifiers only", () => {
+    expect(isValidPricebookKey("ink.cost_per_sqft")).toBe(true);
+    expect(isValidPricebookKey("labor.hourly")).toBe(true);
+    expect(isValidPricebookKey("banner.grommets.unitPriceCents")).toBe(true);
+    expect(isValidPricebookKey("setup")).toBe(true);
+
+    expect(isValidPricebookKey("")).toBe(false);
+    expect(isValidPricebookKey("ink..cost")).toBe(false);
+    expect(isValidPricebookKey("ink.cost per sqft")).toBe(false);
+    expect(isValidPricebookKey("1ink.cost")).toBe(false);
+    expect(isValidPricebookKey(42)).toBe(false);
+  });
+
+  test("validatePricebookValue requires whole cents for CENTS", () => {
+    expect(validatePricebookValue("CENTS", 125)).toBeNull();
+    expect(validatePricebookValue("CENTS", 1.5)).toMatch(/whole cents/);
+    expect(validatePricebookValue("NUMBER", 1.5)).toBeNull();
+    expect(validatePricebookValue("NUMBER", Number.NaN)).toMatch(/finite/);
+  });
+
+  test("resolvePricebookAt picks the latest effective value per key", () => {
+    const entries = [
+      { key: "labor.hourly", value: "4500.000000", effectiveFrom: "2026-01-01T00:00:00.000Z" },
+      { key: "labor.hourly", value: "5000", effectiveFrom: new Date("2026-03-01T00:00:00.000Z") },
+      { key: "labor.hourly", value: 5500, effectiveFrom: "2026-06-01T00:00:00.000Z" },
+      { key: "ink.cost_per_sqft", value: 12, effectiveFrom: "2026-02-01T00:00:00.000Z" },
+    ];
+
+    expect(resolvePricebookAt(entries, new Date("2025-12-31T00:00:00.000Z"))).toEqual({});
+    expect(resolvePricebookAt(entries, new Date("2026-01-15T00:00:00.000Z"))).toEqual({ "labor.hourly": 4500 });
+    expect(resolvePricebookAt(entries, new Date("2026-04-01T00:00:00.000Z"))).toEqual({
+      "ink.cost_per_sqft": 12,
+      "labor.hourly": 5000,
+    });
+    expect(resolvePricebookAt(entries, new Date("2026-06-01T00:00:00.000Z"))["labor.hourly"]).toBe(5500);
+  });
+
+  test("pricing adapter resolves pricebookRef from opts.pricebook", () => {
+    const tree = {
+      status: "ACTIVE",
+      rootNodeIds: ["p1"],
+      nodes: [
+        {
+          id: "p1",
+          type: "PRICE",
+          status: "ENABLED",
+          key: "p1",
+          price: {
+            components: [
+              {
+                kind: "PER_UNIT",
+                unitPriceRef: { op: "ref", ref: { kind: "pricebookRef", key: "ink.cost_per_sqft" } },
+                quantityRef: { op: "ref", ref: { kind: "envRef", envKey: "quantity" } },
+              },
+            ],
+          },
+        },
+      ],
+      edges: [],
+    };
+
+    const pricebook = resolvePricebookAt([{ key: "ink.cost_per_sqft", value: 12, effectiveFrom: "2026-01-01T00:00:00.000Z" }], new Date("2026-02-01T00:00:00.000Z"));
+    expect(pbv2ToPricingAddons(tree, {}, { quantity: 10 }, { pricebook }).addOnCents).toBe(120);
+    expect(() => pbv2ToPricingAddons(tree, {}, { quantity: 10 }, { pricebook: {} })).toThrow();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect } from "@jest/globals";
+import { diffPbv2Trees } from "../treeVersionDiff";
+
+const baseTree = {
+  status: "ACTIVE",
+  rootNodeIds: ["in_size"],
+  nodes: [
+    { id: "in_size", type: "INPUT", status: "ENABLED", key: "size", label: "Size" },
+    {
+      id: "p_base",
+      type: "PRICE",
+      status: "ENABLED",
+      key: "base",
+      price: {
+        components: [
+          { kind: "FLAT", amountCents: 500 },
+          {
+            kind: "PER_QTY",
+            unitPriceRef: { op: "literal", value: 25 },
+            appliesWhen: { op: "literal", value: true },
+          },
+        ],
+      },
+    },
+  ],
+  edges: [
+    { id: "e1", status: "ENABLED", fromNodeId: "in_size", toNodeId: "p_base", priority: 0, condition: { op: "literal", value: true } },
+  ],
+};
+
+function clone<T>(v: T): T {
+  return JSON.parse(JSON.stringify(v));
+}
+
+describe("pbv2/treeVersionDiff", () => {
+  test("identical trees have no changes (key order does not matter)", () => {
+    const reordered = clone(baseTree);
+    reordered.nodes[0] = { label: "Size", key: "size", status: "ENABLED", type: "INPUT", id: "in_size" };
+    const diff = diffPbv2Trees(baseTree, reordered);
+    expect(diff.summary.hasChanges).toBe(false);
+  });
+
+  test("added/removed/modified nodes", () => {
+    const after = clone(baseTree) as any;
+    after.nodes[0].label = "Finished size";
+    after.nodes.push({ id: "in_qty", type: "INPUT", status: "ENABLED", key: "qty" });
+
+    const diff = diffPbv2Trees(baseTree, after);
+    expect(diff.nodes.added.map((n) => n.nodeId)).toEqual(["in_qty"]);
+    expect(diff.nodes.removed).toHaveLength(0);
+    expect(diff.nodes.modified).toHaveLength(1);
+    expect(diff.nodes.modified[0].changedFields).toEqual(["label"]);
+
+    const reverse = diffPbv2Trees(after, baseTree);
+    expect(reverse.nodes.removed.map((n) => n.nodeId)).toEqual(["in_qty"]);
+  });
+
+  test("price component edits are reported per component, not as node field changes", () => {
+    const after = clone(baseTree) as any;
+    after.nodes[1].price.components[0].amountCents = 750;
+    after.nodes[1].price.components.push({ kind: "FLAT", amountCents: 100 });
+
+    const diff = diffPbv2Trees(baseTree, after);
+    expect(diff.nodes.modified).toHaveLength(0);
+    expect(diff.priceComponents).toEqual([
+      expect.objectContaining({ nodeId: "p_base", componentIndex: 0, change: "modified", changedFields: ["amountCents"] }),
+      expect.objectContaining({ nodeId: "p_base", componentIndex: 2, change: "added", kindAfter: "FLAT" }),
+    ]);
+  });
+
+  test("rewired edges and condition edits", () => {
+    const after = clone(baseTree) as any;
+    after.nodes.push({ id: "p_alt", type: "PRICE", status: "ENABLED", key: "alt" });
+    after.edges[0].toNodeId = "p_alt";
+    after.edges[0].condition = { op: "literal", value: false };
+    after.nodes[1].price.components[1].appliesWhen = { op: "literal", value: false };
+
+    const diff = diffPbv2Trees(baseTree, after);
+    expect(diff.edges.modified).toHaveLength(1);
+    expect(diff.edges.modified[0].rewired).toBe(true);
+    expect(diff.edges.modified[0].changedFields).toEqual(["toNodeId", "condition"]);
+    expect(diff.summary.edgesRewired).toBe(1);
+
+    expect(diff.conditions.map((c) => [c.scope, c.entityId])).toEqual([
+      ["appliesWhen", "p_base#1"],
+      ["edge", "e1"],
+    ]);
+  });
+
+  test("empty base reports everything as added; tree-level fields are diffed", () => {
+    const diff = diffPbv2Trees({}, baseTree);
+    expect(diff.nodes.added).toHaveLength(2);
+    expect(diff.edges.added).toHaveLength(1);
+    expect(diff.priceComponents.every((c) => c.change === "added")).toBe(true);
+    expect(diff.tree.map((t) => t.path)).toEqual(["rootNodeIds"]);
+
+    const withTable = { ...clone(baseTree), lookupTables: { t: { rows: { mode: "band", breakpoints: [0] }, values: [[1]] } } };
+    expect(diffPbv2Trees(baseTree, withTable).tree.map((t) => t.path)).toEqual(["lookupTables.t"]);
+  });
+});
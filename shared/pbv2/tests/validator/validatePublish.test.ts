@@ -371,4 +371,42 @@ describe("pbv2/validator/validatePublish", () => {
     const result = validateTreeForPublish(tree as any, DEFAULT_VALIDATE_OPTS);
     expect(result.warnings.some((f) => f.code === "PBV2_W_WEIGHT_MISSING")).toBe(false);
   });
+
+  test("Unknown pricebook key => ERROR (WARNING when not strict); skipped without pricebookKeys", () => {
+    const tree = {
+      status: "DRAFT",
+      rootNodeIds: ["p1"],
+      nodes: [
+        {
+          id: "p1",
+          type: "PRICE",
+          status: "ENABLED",
+          key: "p1",
+          price: {
+            components: [
+              { kind: "FLAT", unitPriceRef: { op: "ref", ref: { kind: "pricebookRef", key: "ink.cost_per_sqft" } } },
+              { kind: "FLAT", unitPriceRef: { op: "ref", ref: { kind: "pricebookRef", key: "labor.hourly" } } },
+            ],
+          },
+        },
+      ],
+      edges: [],
+    };
+
+    const strict = validateTreeForPublish(tree as any, { ...DEFAULT_VALIDATE_OPTS, pricebookKeys: ["labor.hourly"] });
+    const unknown = strict.errors.filter((f) => f.code === "PBV2_E_PRICEBOOK_KEY_UNKNOWN");
+    expect(unknown).toHaveLength(1);
+    expect(unknown[0].context).toEqual({ key: "ink.cost_per_sqft" });
+
+    const lenient = validateTreeForPublish(tree as any, {
+      ...DEFAULT_VALIDATE_OPTS,
+      strictPricebookRefsAtPublish: false,
+      pricebookKeys: ["labor.hourly"],
+    });
+    expect(lenient.warnings.some((f) => f.code === "PBV2_W_PRICEBOOK_KEY_UNKNOWN")).toBe(true);
+    expect(lenient.errors.some((f) => f.code === "PBV2_E_PRICEBOOK_KEY_UNKNOWN")).toBe(false);
+
+    const unchecked = validateTreeForPublish(tree as any, DEFAULT_VALIDATE_OPTS);
+    expect(unchecked.findings.some((f) => f.code.includes("PRICEBOOK_KEY_UNKNOWN"))).toBe(false);
+  });
 });
@@ -0,0 +1,420 @@
+/**
+ * Structural diff between two PBV2 option trees (e.g. ACTIVE vs DRAFT).
+ *
+ * Node/edge identity is by id. Price components are keyed by (nodeId, componentIndex),
+ * matching Pbv2PricingBreakdownLine so the diff lines up with pricing previews.
+ */
+
+type AnyRecord = Record<string, unknown>;
+
+export type Pbv2TreeDiffNodeSummary = {
+  nodeId: string;
+  type: string;
+  status: string;
+  key: string | null;
+  label: string | null;
+};
+
+export type Pbv2TreeDiffNodeChange = {
+  nodeId: string;
+  before: Pbv2TreeDiffNodeSummary;
+  after: Pbv2TreeDiffNodeSummary;
+  /** Top-level node fields whose values differ (price.components are reported separately). */
+  changedFields: string[];
+};
+
+export type Pbv2TreeDiffEdgeSummary = {
+  edgeId: string;
+  fromNodeId: string | null;
+  toNodeId: string | null;
+  status: string;
+  priority: number | null;
+};
+
+export type Pbv2TreeDiffEdgeChange = {
+  edgeId: string;
+  before: Pbv2TreeDiffEdgeSummary;
+  after: Pbv2TreeDiffEdgeSummary;
+  changedFields: Array<"fromNodeId" | "toNodeId" | "status" | "priority" | "condition">;
+  /** True when either endpoint moved. */
+  rewired: boolean;
+};
+
+export type Pbv2TreeDiffPriceComponentChange = {
+  nodeId: string;
+  componentIndex: number;
+  change: "added" | "removed" | "modified";
+  kindBefore: string | null;
+  kindAfter: string | null;
+  changedFields: string[];
+  before: unknown;
+  after: unknown;
+};
+
+export type Pbv2TreeDiffConditionChange = {
+  scope: "edge" | "appliesWhen";
+  /** edgeId for edge conditions; `${nodeId}#${componentIndex}` for appliesWhen. */
+  entityId: string;
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type Pbv2TreeDiffTreeChange = {
+  /** rootNodeIds, meta.<key> or lookupTables.<key> */
+  path: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type Pbv2TreeDiff = {
+  nodes: {
+    added: Pbv2TreeDiffNodeSummary[];
+    removed: Pbv2TreeDiffNodeSummary[];
+    modified: Pbv2TreeDiffNodeChange[];
+  };
+  edges: {
+    added: Pbv2TreeDiffEdgeSummary[];
+    removed: Pbv2TreeDiffEdgeSummary[];
+    modified: Pbv2TreeDiffEdgeChange[];
+  };
+  priceComponents: Pbv2TreeDiffPriceComponentChange[];
+  conditions: Pbv2TreeDiffConditionChange[];
+  tree: Pbv2TreeDiffTreeChange[];
+  summary: {
+    nodesAdded: number;
+    nodesRemoved: number;
+    nodesModified: number;
+    edgesAdded: number;
+    edgesRemoved: number;
+    edgesRewired: number;
+    priceComponentsChanged: number;
+    conditionsChanged: number;
+    hasChanges: boolean;
+  };
+};
+
+// Fields that never carry pricing/structure meaning and are ignored when comparing nodes.
+const IGNORED_NODE_FIELDS = new Set(["id", "nodeId", "updatedAt", "createdAt"]);
+
+function asRecord(value: unknown): AnyRecord | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return value as AnyRecord;
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "undefined";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const keys = Object.keys(value as AnyRecord)
+    .filter((k) => (value as AnyRecord)[k] !== undefined)
+    .sort();
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify((value as AnyRecord)[k])}`).join(",")}}`;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function collectById(value: unknown, idKeys: string[]): Map<string, AnyRecord> {
+  const out = new Map<string, AnyRecord>();
+  const pickId = (rec: AnyRecord, fallback?: string): string => {
+    for (const k of idKeys) {
+      if (isNonEmptyString(rec[k])) return String(rec[k]);
+    }
+    return fallback ?? "";
+  };
+
+  if (Array.isArray(value)) {
+    for (const raw of value) {
+      const rec = asRecord(raw);
+      if (!rec) continue;
+      const id = pickId(rec);
+      if (id) out.set(id, rec);
+    }
+    return out;
+  }
+
+  const record = asRecord(value);
+  if (record) {
+    for (const [key, raw] of Object.entries(record)) {
+      const rec = asRecord(raw);
+      if (!rec) continue;
+      const id = pickId(rec, key);
+      if (id) out.set(id, rec);
+    }
+  }
+  return out;
+}
+
+function normalizeUpper(value: unknown, fallback: string): string {
+  return typeof value === "string" && value.trim() ? value.toUpperCase() : fallback;
+}
+
+function summarizeNode(nodeId: string, node: AnyRecord): Pbv2TreeDiffNodeSummary {
+  const label = (node as any).label ?? (node as any).title ?? (node as any).name;
+  return {
+    nodeId,
+    type: normalizeUpper((node as any).type ?? (node as any).nodeType ?? (node as any).kind, ""),
+    status: normalizeUpper((node as any).status, "ENABLED"),
+    key: isNonEmptyString((node as any).key) ? String((node as any).key) : null,
+    label: isNonEmptyString(label) ? String(label) : null,
+  };
+}
+
+function summarizeEdge(edgeId: string, edge: AnyRecord): Pbv2TreeDiffEdgeSummary {
+  return {
+    edgeId,
+    fromNodeId: isNonEmptyString((edge as any).fromNodeId) ? String((edge as any).fromNodeId) : null,
+    toNodeId: isNonEmptyString((edge as any).toNodeId) ? String((edge as any).toNodeId) : null,
+    status: normalizeUpper((edge as any).status, "ENABLED"),
+    priority: Number.isInteger((edge as any).priority) ? (edge as any).priority : null,
+  };
+}
+
+function extractPricePayload(node: AnyRecord): AnyRecord | null {
+  return asRecord((node as any).price) ?? asRecord((node as any).data);
+}
+
+function extractPriceComponents(node: AnyRecord | undefined): unknown[] {
+  if (!node) return [];
+  const price = extractPricePayload(node);
+  const comps = price ? (price as any).components : undefined;
+  return Array.isArray(comps) ? comps : [];
+}
+
+/** Node copy with price.components removed so component edits are not double-reported as a node field change. */
+function withoutComponents(node: AnyRecord): AnyRecord {
+  const copy: AnyRecord = { ...node };
+  for (const payloadKey of ["price", "data"]) {
+    const payload = asRecord(copy[payloadKey]);
+    if (payload && Object.prototype.hasOwnProperty.call(payload, "components")) {
+      const { components: _components, ...rest } = payload as any;
+      copy[payloadKey] = rest;
+    }
+  }
+  return copy;
+}
+
+function changedKeys(before: AnyRecord, after: AnyRecord, ignored: ReadonlySet<string> = new Set()): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys)
+    .filter((k) => !ignored.has(k))
+    .filter((k) => !same(before[k], after[k]))
+    .sort();
+}
+
+function diffPriceComponents(
+  nodeId: string,
+  beforeNode: AnyRecord | undefined,
+  afterNode: AnyRecord | undefined,
+  priceOut: Pbv2TreeDiffPriceComponentChange[],
+  conditionsOut: Pbv2TreeDiffConditionChange[]
+): void {
+  const before = extractPriceComponents(beforeNode);
+  const after = extractPriceComponents(afterNode);
+  const count = Math.max(before.length, after.length);
+
+  for (let i = 0; i < count; i++) {
+    const b = asRecord(before[i]);
+    const a = asRecord(after[i]);
+    if (!b && !a) continue;
+
+    const kindOf = (c: AnyRecord | null) => (c && typeof (c as any).kind === "string" ? String((c as any).kind).toUpperCase() : null);
+
+    if (!b || !a) {
+      priceOut.push({
+        nodeId,
+        componentIndex: i,
+        change: b ? "removed" : "added",
+        kindBefore: kindOf(b),
+        kindAfter: kindOf(a),
+        changedFields: [],
+        before: b ?? null,
+        after: a ?? null,
+      });
+      if (!same(b?.appliesWhen, a?.appliesWhen)) {
+        conditionsOut.push({
+          scope: "appliesWhen",
+          entityId: `${nodeId}#${i}`,
+          path: `tree.nodes[${nodeId}].price.components[${i}].appliesWhen`,
+          before: b?.appliesWhen ?? null,
+          after: a?.appliesWhen ?? null,
+        });
+      }
+      continue;
+    }
+
+    const fields = changedKeys(b, a);
+    if (fields.length === 0) continue;
+
+    priceOut.push({
+      nodeId,
+      componentIndex: i,
+      change: "modified",
+      kindBefore: kindOf(b),
+      kindAfter: kindOf(a),
+      changedFields: fields,
+      before: b,
+      after: a,
+    });
+
+    if (fields.includes("appliesWhen")) {
+      conditionsOut.push({
+        scope: "appliesWhen",
+        entityId: `${nodeId}#${i}`,
+        path: `tree.nodes[${nodeId}].price.components[${i}].appliesWhen`,
+        before: b.appliesWhen ?? null,
+        after: a.appliesWhen ?? null,
+      });
+    }
+  }
+}
+
+function diffRecordKeys(prefix: string, before: unknown, after: unknown, out: Pbv2TreeDiffTreeChange[]): void {
+  const b = asRecord(before) ?? {};
+  const a = asRecord(after) ?? {};
+  for (const key of changedKeys(b, a)) {
+    out.push({ path: `${prefix}.${key}`, before: b[key] ?? null, after: a[key] ?? null });
+  }
+}
+
+const byId = <T extends { nodeId?: string; edgeId?: string }>(x: T, y: T) =>
+  String(x.nodeId ?? x.edgeId).localeCompare(String(y.nodeId ?? y.edgeId));
+
+/**
+ * Diff `before` → `after`. Both inputs are raw treeJson values; malformed inputs are treated as empty trees.
+ */
+export function diffPbv2Trees(beforeTree: unknown, afterTree: unknown): Pbv2TreeDiff {
+  const before = asRecord(beforeTree) ?? {};
+  const after = asRecord(afterTree) ?? {};
+
+  const beforeNodes = collectById(before.nodes, ["id", "nodeId"]);
+  const afterNodes = collectById(after.nodes, ["id", "nodeId"]);
+  const beforeEdges = collectById(before.edges, ["id", "edgeId"]);
+  const afterEdges = collectById(after.edges, ["id", "edgeId"]);
+
+  const diff: Pbv2TreeDiff = {
+    nodes: { added: [], removed: [], modified: [] },
+    edges: { added: [], removed: [], modified: [] },
+    priceComponents: [],
+    conditions: [],
+    tree: [],
+    summary: {
+      nodesAdded: 0,
+      nodesRemoved: 0,
+      nodesModified: 0,
+      edgesAdded: 0,
+      edgesRemoved: 0,
+      edgesRewired: 0,
+      priceComponentsChanged: 0,
+      conditionsChanged: 0,
+      hasChanges: false,
+    },
+  };
+
+  // Nodes
+  const nodeIds = Array.from(new Set([...Array.from(beforeNodes.keys()), ...Array.from(afterNodes.keys())])).sort();
+  for (const nodeId of nodeIds) {
+    const b = beforeNodes.get(nodeId);
+    const a = afterNodes.get(nodeId);
+
+    if (!b && a) diff.nodes.added.push(summarizeNode(nodeId, a));
+    else if (b && !a) diff.nodes.removed.push(summarizeNode(nodeId, b));
+    else if (b && a) {
+      const fields = changedKeys(withoutComponents(b), withoutComponents(a), IGNORED_NODE_FIELDS);
+      if (fields.length > 0) {
+        diff.nodes.modified.push({
+          nodeId,
+          before: summarizeNode(nodeId, b),
+          after: summarizeNode(nodeId, a),
+          changedFields: fields,
+        });
+      }
+    }
+
+    diffPriceComponents(nodeId, b, a, diff.priceComponents, diff.conditions);
+  }
+
+  // Edges
+  const edgeIds = Array.from(new Set([...Array.from(beforeEdges.keys()), ...Array.from(afterEdges.keys())])).sort();
+  for (const edgeId of edgeIds) {
+    const b = beforeEdges.get(edgeId);
+    const a = afterEdges.get(edgeId);
+
+    if (!b && a) {
+      diff.edges.added.push(summarizeEdge(edgeId, a));
+    } else if (b && !a) {
+      diff.edges.removed.push(summarizeEdge(edgeId, b));
+    } else if (b && a) {
+      const bs = summarizeEdge(edgeId, b);
+      const as = summarizeEdge(edgeId, a);
+      const changedFields: Pbv2TreeDiffEdgeChange["changedFields"] = [];
+      if (bs.fromNodeId !== as.fromNodeId) changedFields.push("fromNodeId");
+      if (bs.toNodeId !== as.toNodeId) changedFields.push("toNodeId");
+      if (bs.status !== as.status) changedFields.push("status");
+      if (bs.priority !== as.priority) changedFields.push("priority");
+      if (!same(b.condition, a.condition)) changedFields.push("condition");
+
+      if (changedFields.length > 0) {
+        diff.edges.modified.push({
+          edgeId,
+          before: bs,
+          after: as,
+          changedFields,
+          rewired: changedFields.includes("fromNodeId") || changedFields.includes("toNodeId"),
+        });
+      }
+    }
+
+    if (!same(b?.condition, a?.condition)) {
+      diff.conditions.push({
+        scope: "edge",
+        entityId: edgeId,
+        path: `tree.edges[${edgeId}].condition`,
+        before: b?.condition ?? null,
+        after: a?.condition ?? null,
+      });
+    }
+  }
+
+  // Tree-level fields
+  if (!same(before.rootNodeIds, after.rootNodeIds)) {
+    diff.tree.push({ path: "rootNodeIds", before: before.rootNodeIds ?? null, after: after.rootNodeIds ?? null });
+  }
+  diffRecordKeys("meta", before.meta, after.meta, diff.tree);
+  diffRecordKeys("lookupTables", before.lookupTables, after.lookupTables, diff.tree);
+
+  diff.nodes.added.sort(byId);
+  diff.nodes.removed.sort(byId);
+  diff.edges.added.sort(byId);
+  diff.edges.removed.sort(byId);
+
+  diff.summary = {
+    nodesAdded: diff.nodes.added.length,
+    nodesRemoved: diff.nodes.removed.length,
+    nodesModified: diff.nodes.modified.length,
+    edgesAdded: diff.edges.added.length,
+    edgesRemoved: diff.edges.removed.length,
+    edgesRewired: diff.edges.modified.filter((e) => e.rewired).length,
+    priceComponentsChanged: diff.priceComponents.length,
+    conditionsChanged: diff.conditions.length,
+    hasChanges:
+      diff.nodes.added.length +
+        diff.nodes.removed.length +
+        diff.nodes.modified.length +
+        diff.edges.added.length +
+        diff.edges.removed.length +
+        diff.edges.modified.length +
+        diff.priceComponents.length +
+        diff.conditions.length +
+        diff.tree.length >
+      0,
+  };
+
+  return diff;
+}
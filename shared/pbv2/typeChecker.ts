@@ -1,6 +1,7 @@
 import { errorFinding, pathJoin, type Finding } from "./findings";
-import type { ConditionRule, ExpressionSpec } from "./expressionSpec";
+import type { ConditionRule, ExpressionSpec, LookupAxisSpec } from "./expressionSpec";
 import { isConditionRule, isExpressionSpec } from "./expressionSpec";
+import { exactAxisKeyType } from "./lookupTables";
 import type { RefContext, Ref, PBV2Type } from "./refContract";
 import { constantValueToType } from "./refContract";
 import type { SymbolTable } from "./symbolTable";
@@ -60,6 +61,12 @@ function requireNonNullableBase(
   return [];
 }
 
+function asLookupAxis(value: unknown): LookupAxisSpec | null {
+  if (!value || typeof value !== "object") return null;
+  const mode = (value as any).mode;
+  return mode === "exact" || mode === "band" ? (value as LookupAxisSpec) : null;
+}
+
 function refTypeInfo(ref: Ref, ctx: RefContext, table: SymbolTable): TypeInfo {
   switch (ref.kind) {
     case "constant": {
@@ -445,6 +452,124 @@ function typeCheckExpressionInternal(
       return { t: ti("NUMBER", false), findings };
     }
 
+    case "lookup": {
+      let spec: unknown = expr.table;
+      if (typeof expr.table === "string") {
+        spec = table.lookupTablesByKey[expr.table];
+        if (spec === undefined) {
+          findings.push(
+            errorFinding({
+              code: "PBV2_E_EXPR_REF_UNRESOLVED",
+              message: `Unresolved lookup table '${expr.table}'`,
+              path: pathJoin(path, "table"),
+              entityId,
+              context: { tableKey: expr.table },
+            })
+          );
+        }
+      }
+
+      // Table shape is validated at publish; here we only type the key/default expressions.
+      const rowsAxis = asLookupAxis((spec as any)?.rows);
+      const colsAxis = asLookupAxis((spec as any)?.cols);
+
+      const checkKey = (keyExpr: ExpressionSpec, axis: LookupAxisSpec | null, segment: "row" | "col") => {
+        const r = typeCheckExpressionInternal(keyExpr, ctx, table, pathJoin(path, segment), entityId);
+        findings.push(...r.findings);
+        if (!axis) return;
+
+        if (axis.mode === "band") {
+          findings.push(
+            ...requireNonNullableBase(
+              r.t,
+              "NUMBER",
+              "PBV2_E_EXPR_TYPE_MISMATCH",
+              `lookup() ${segment} key for a band axis must be NUMBER (use coalesce for nullable refs)`,
+              pathJoin(path, segment),
+              entityId,
+              { op: "lookup" }
+            )
+          );
+          return;
+        }
+
+        // Exact axes accept nullable keys: a NULL key misses and falls through to default.
+        const keyType = exactAxisKeyType(axis);
+        if (keyType && r.t.base !== null && r.t.base !== keyType) {
+          findings.push(
+            errorFinding({
+              code: "PBV2_E_EXPR_TYPE_MISMATCH",
+              message: `lookup() ${segment} key type must match the axis keys`,
+              path: pathJoin(path, segment),
+              entityId,
+              context: { expected: keyType, actual: typeName(r.t), op: "lookup" },
+            })
+          );
+        }
+      };
+
+      checkKey(expr.row, rowsAxis, "row");
+
+      if (expr.col) {
+        if (spec !== undefined && !colsAxis) {
+          findings.push(
+            errorFinding({
+              code: "PBV2_E_EXPR_PARSE_FAIL",
+              message: "lookup() has a col key but the table has no cols axis",
+              path: pathJoin(path, "col"),
+              entityId,
+            })
+          );
+        }
+        checkKey(expr.col, colsAxis, "col");
+      } else if (colsAxis) {
+        findings.push(
+          errorFinding({
+            code: "PBV2_E_EXPR_PARSE_FAIL",
+            message: "lookup() on a 2D table requires a col key",
+            path,
+            entityId,
+          })
+        );
+      }
+
+      if (expr.default) {
+        const d = typeCheckExpressionInternal(expr.default, ctx, table, pathJoin(path, "default"), entityId);
+        findings.push(...d.findings);
+        findings.push(
+          ...requireNonNullableBase(
+            d.t,
+            "NUMBER",
+            "PBV2_E_EXPR_TYPE_MISMATCH",
+            "lookup() default must be NUMBER",
+            pathJoin(path, "default"),
+            entityId,
+            { op: "lookup" }
+          )
+        );
+      }
+
+      // Without a default, a key miss yields NULL.
+      return { t: ti("NUMBER", !expr.default), findings };
+    }
+
+    case "interpolate": {
+      const x = typeCheckExpressionInternal(expr.x, ctx, table, pathJoin(path, "x"), entityId);
+      findings.push(...x.findings);
+      findings.push(
+        ...requireNonNullableBase(
+          x.t,
+          "NUMBER",
+          "PBV2_E_EXPR_TYPE_MISMATCH",
+          "interpolate() requires NUMBER x (use coalesce for nullable refs)",
+          pathJoin(path, "x"),
+          entityId,
+          { op: "interpolate" }
+        )
+      );
+      return { t: ti("NUMBER", false), findings };
+    }
+
     default:
       findings.push(
         errorFinding({
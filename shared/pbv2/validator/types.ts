@@ -8,6 +8,11 @@ export type ValidateOpts = {
   negativeQuantityStrict: boolean;
   ambiguousEdgesStrict: boolean;
   outOfRangeSelectionsStrict: boolean;
+  /**
+   * Org pricebook keys. When provided, pricebookRef keys not in this list produce findings
+   * (ERROR when strictPricebookRefsAtPublish, else WARNING). Omit to skip the check.
+   */
+  pricebookKeys?: readonly string[];
 };
 
 export const DEFAULT_VALIDATE_OPTS: ValidateOpts = {
@@ -2,6 +2,7 @@ import { buildSymbolTable } from "../symbolTable";
 import { typeCheckCondition, typeCheckExpression } from "../typeChecker";
 import { errorFinding, warningFinding, infoFinding, type Finding } from "../findings";
 import type { ConditionRule, ExpressionSpec } from "../expressionSpec";
+import { extractLookupTables, validateInterpolatePoints, validateLookupTableSpec } from "../lookupTables";
 import { DEFAULT_VALIDATE_OPTS, type ProductOptionTreeV2Json, type ValidateOpts, type ValidationResult } from "./types";
 
 type PBV2Status = "ENABLED" | "DISABLED" | "DELETED";
@@ -406,6 +407,65 @@ function findDivByZeroFindings(expr: unknown, opts: { strict: boolean; pathBase:
   return findings;
 }
 
+/** Inline lookup() tables and interpolate() points must be well-formed; named tables are checked once at tree level. */
+function findTableOpFindings(expr: unknown, opts: { pathBase: string; entityId?: string }): Finding[] {
+  const findings: Finding[] = [];
+
+  const walk = (node: any, path: string) => {
+    if (!node || typeof node !== "object") return;
+
+    if (node.op === "lookup" && node.table && typeof node.table === "object") {
+      findings.push(...validateLookupTableSpec(node.table, { pathBase: `${path}.table`, entityId: opts.entityId }));
+    }
+
+    if (node.op === "interpolate") {
+      findings.push(...validateInterpolatePoints(node.points, node.extrapolate, { pathBase: path, entityId: opts.entityId }));
+    }
+
+    for (const [k, v] of Object.entries(node)) {
+      if (k === "op" || k === "table" || k === "points") continue;
+      if (v && typeof v === "object") {
+        if (Array.isArray(v)) v.forEach((x, i) => walk(x, `${path}.${k}[${i}]`));
+        else walk(v, `${path}.${k}`);
+      }
+    }
+  };
+
+  walk(expr as any, opts.pathBase);
+  return findings;
+}
+
+/** Every pricebookRef key in the tree must exist in the org pricebook (checked only when keys are supplied). */
+function findUnknownPricebookKeyFindings(tree: unknown, keys: readonly string[], strict: boolean): Finding[] {
+  const known = new Set(keys);
+  const findings: Finding[] = [];
+
+  const walk = (node: any, path: string) => {
+    if (!node || typeof node !== "object") return;
+
+    if (node.kind === "pricebookRef" && typeof node.key === "string" && node.key.trim() && !known.has(node.key)) {
+      const args = {
+        message: `Unknown pricebook key '${node.key}'`,
+        path,
+        context: { key: node.key },
+      };
+      findings.push(strict ? errorFinding({ code: "PBV2_E_PRICEBOOK_KEY_UNKNOWN", ...args }) : warningFinding({ code: "PBV2_W_PRICEBOOK_KEY_UNKNOWN", ...args }));
+      return;
+    }
+
+    if (Array.isArray(node)) {
+      node.forEach((x, i) => walk(x, `${path}[${i}]`));
+      return;
+    }
+    for (const [k, v] of Object.entries(node)) {
+      if (v && typeof v === "object") walk(v, `${path}.${k}`);
+    }
+  };
+
+  walk(tree, "tree");
+  return findings;
+}
+
 function detectDirectedCycle(nodes: string[], edges: Array<[string, string]>): string[] | null {
   const adj: Record<string, string[]> = {};
   for (const n of nodes) adj[n] = [];
@@ -948,6 +1008,11 @@ export function validateTreeForPublish(tree: ProductOptionTreeV2Json, opts: Vali
     );
   }
 
+  // Named lookup tables (tree.lookupTables)
+  for (const [tableKey, spec] of Object.entries(extractLookupTables(t))) {
+    findings.push(...validateLookupTableSpec(spec, { pathBase: `tree.lookupTables[${tableKey}]` }));
+  }
+
   // Expression + Condition validation on nodes
   for (const n of nodes) {
     if (n.status === "DELETED") continue;
@@ -958,6 +1023,7 @@ export function validateTreeForPublish(tree: ProductOptionTreeV2Json, opts: Vali
       const res = typeCheckExpression(expr, "COMPUTE", symbol.table, { pathBase, entityId: n.id });
       findings.push(...res.findings);
       findings.push(...findDivByZeroFindings(expr, { strict: policy.divByZeroStrict, pathBase, entityId: n.id }));
+      findings.push(...findTableOpFindings(expr, { pathBase, entityId: n.id }));
     }
 
     if (n.type === "PRICE") {
@@ -1334,6 +1400,7 @@ export function validateTreeForPublish(tree: ProductOptionTreeV2Json, opts: Vali
           const r = typeCheckExpression(value, "PRICE", symbol.table, { pathBase: `${cPath}.${field}`, entityId: n.id });
           findings.push(...r.findings);
           findings.push(...findDivByZeroFindings(value, { strict: policy.divByZeroStrict, pathBase: `${cPath}.${field}`, entityId: n.id }));
+          findings.push(...findTableOpFindings(value, { pathBase: `${cPath}.${field}`, entityId: n.id }));
 
           if (r.inferred.type !== "NUMBER" || r.inferred.nullable) {
             findings.push(
@@ -1450,6 +1517,7 @@ export function validateTreeForPublish(tree: ProductOptionTreeV2Json, opts: Vali
           const r = typeCheckExpression(qtyRef, "COMPUTE", symbol.table, { pathBase: `${ePath}.qtyRef`, entityId: n.id });
           findings.push(...r.findings);
           findings.push(...findDivByZeroFindings(qtyRef, { strict: policy.divByZeroStrict, pathBase: `${ePath}.qtyRef`, entityId: n.id }));
+          findings.push(...findTableOpFindings(qtyRef, { pathBase: `${ePath}.qtyRef`, entityId: n.id }));
 
           if (r.inferred.type !== "NUMBER" || r.inferred.nullable) {
             findings.push(
@@ -1599,6 +1667,7 @@ export function validateTreeForPublish(tree: ProductOptionTreeV2Json, opts: Vali
           const r = typeCheckExpression(qtyRef, "COMPUTE", symbol.table, { pathBase: `${ePath}.qtyRef`, entityId: n.id });
           findings.push(...r.findings);
           findings.push(...findDivByZeroFindings(qtyRef, { strict: policy.divByZeroStrict, pathBase: `${ePath}.qtyRef`, entityId: n.id }));
+          findings.push(...findTableOpFindings(qtyRef, { pathBase: `${ePath}.qtyRef`, entityId: n.id }));
 
           if (r.inferred.type !== "NUMBER" || r.inferred.nullable) {
             findings.push(
@@ -1640,6 +1709,7 @@ export function validateTreeForPublish(tree: ProductOptionTreeV2Json, opts: Vali
           const r = typeCheckExpression(unitPriceRef, "PRICE", symbol.table, { pathBase: `${ePath}.unitPriceRef`, entityId: n.id });
           findings.push(...r.findings);
           findings.push(...findDivByZeroFindings(unitPriceRef, { strict: policy.divByZeroStrict, pathBase: `${ePath}.unitPriceRef`, entityId: n.id }));
+          findings.push(...findTableOpFindings(unitPriceRef, { pathBase: `${ePath}.unitPriceRef`, entityId: n.id }));
           if (r.inferred.type !== "NUMBER" || r.inferred.nullable) {
             findings.push(
               errorFinding({
@@ -1716,6 +1786,7 @@ export function validateTreeForPublish(tree: ProductOptionTreeV2Json, opts: Vali
         const r = typeCheckExpression(valueRef, "EFFECT", symbol.table, { pathBase: `${oPath}.valueRef`, entityId: n.id });
         findings.push(...r.findings);
         findings.push(...findDivByZeroFindings(valueRef, { strict: policy.divByZeroStrict, pathBase: `${oPath}.valueRef`, entityId: n.id }));
+        findings.push(...findTableOpFindings(valueRef, { pathBase: `${oPath}.valueRef`, entityId: n.id }));
       }
     }
 
@@ -2010,5 +2081,9 @@ export function validateTreeForPublish(tree: ProductOptionTreeV2Json, opts: Vali
     );
   }
 
+  if (policy.pricebookKeys) {
+    findings.push(...findUnknownPricebookKeyFindings(t, policy.pricebookKeys, policy.strictPricebookRefsAtPublish));
+  }
+
   return toResult(findings);
 }
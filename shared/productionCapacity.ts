@@ -0,0 +1,372 @@
+/**
+ * Production capacity planning (machine calendars, run-time estimates, finite-capacity scheduling).
+ *
+ * A station (`productionJobs.stationKey`) is worked by one or more machines. Each machine has a
+ * throughput rate in one unit (sq ft, press sheets or pieces per hour), a fixed setup time per
+ * job, and a weekly calendar of shifts in its own IANA timezone with closed dates on top.
+ *
+ * The scheduler is a greedy list scheduler: running jobs keep their machine and go first, then
+ * jobs a supervisor placed on the board (machine + planned start, in sequence), then the rest
+ * in priority order (rush, normal, low), earliest production due date, then age. Unplaced jobs
+ * take the machine on their station that would finish them soonest, filling gaps before
+ * placed jobs when they fit. A job is late when its finish is after the order's production
+ * due date. Pure so the server run and the board preview agree.
+ */
+
+export const MACHINE_THROUGHPUT_UNITS = ["sqft_per_hour", "sheets_per_hour", "pieces_per_hour"] as const;
+export type MachineThroughputUnit = (typeof MACHINE_THROUGHPUT_UNITS)[number];
+
+/** 0 = Sunday, like Date#getDay. Times are "HH:MM" local to the machine; end may be "24:00". */
+export type MachineShift = { day: number; start: string; end: string };
+
+export const DEFAULT_MACHINE_SHIFTS: MachineShift[] = [1, 2, 3, 4, 5].map((day) => ({ day, start: "08:00", end: "17:00" }));
+
+/** How far ahead the calendar walk looks for working time before giving up. */
+export const CALENDAR_LOOKAHEAD_DAYS = 366;
+
+export type MachineCalendar = {
+  timezone: string;
+  workingHours: MachineShift[];
+  /** "YYYY-MM-DD" local dates the machine does not run (holidays, maintenance). */
+  closedDates: string[];
+};
+
+export type CapacityMachine = MachineCalendar & {
+  id: string;
+  stationKey: string;
+  throughputUnit: MachineThroughputUnit;
+  throughputRate: number;
+  setupMinutes: number;
+};
+
+/** Amount of work in a job, in every unit a machine may be rated in. */
+export type JobWork = { sqft: number; sheets: number; pieces: number };
+
+export type SchedulableJob = {
+  id: string;
+  stationKey: string;
+  status: "queued" | "in_progress";
+  work: JobWork;
+  /** Time already logged on the job; taken off the estimate for running jobs. */
+  elapsedMinutes: number;
+  priority: string;
+  dueAt: Date | null;
+  createdAt: Date;
+  /** Machine a running or placed job is on; it is not moved. */
+  machineId: string | null;
+  /** Supervisor's planned start; with machineId, the job is placed and not re-planned. */
+  plannedStartAt: Date | null;
+  /** Order among placed jobs starting at the same time. */
+  sequence: number | null;
+  /** Current routing operation's setup and run rate (shared/productionRouting.ts); null fields use the machine's. */
+  operation?: JobOperationRate | null;
+};
+
+export type JobOperationRate = {
+  setupMinutes: number | null;
+  throughputUnit: MachineThroughputUnit;
+  throughputRate: number | null;
+};
+
+export type ScheduledSlot = {
+  jobId: string;
+  machineId: string | null;
+  estimatedMinutes: number | null;
+  startAt: Date | null;
+  endAt: Date | null;
+  late: boolean;
+  /** Placed job that cannot start at its planned start (machine busy or not working then). */
+  conflict: boolean;
+  /** Why the job could not be placed, when machineId is null. */
+  reason?: string;
+};
+
+export type ScheduleRisk = "late" | "at_risk" | "on_track" | "no_due_date" | "unscheduled";
+
+/** Less slack than this before the due date counts as at risk. */
+export const AT_RISK_SLACK_MINUTES = 4 * 60;
+
+const PRIORITY_RANK: Record<string, number> = { rush: 0, normal: 1, low: 2 };
+const MINUTE_MS = 60_000;
+
+function positive(value: number | null | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Work in a line item. Square footage comes from width x height (inches) x quantity, falling
+ * back to the stored sqft; press sheets from the imposed sheet count when known, else one
+ * sheet per piece.
+ */
+export function lineItemWork(item: {
+  widthIn: number | null;
+  heightIn: number | null;
+  quantity: number;
+  sqft?: number | null;
+  sheets?: number | null;
+}): JobWork {
+  const pieces = Math.max(1, Math.floor(positive(item.quantity)) || 1);
+  const area = positive(item.widthIn) * positive(item.heightIn);
+  const sqft = area > 0 ? (area * pieces) / 144 : positive(item.sqft);
+  const sheets = Math.ceil(positive(item.sheets)) || pieces;
+  return { sqft, sheets, pieces };
+}
+
+/** Whole minutes for a machine to run the work, setup included; null when the machine has no rate. */
+export function estimateRunMinutes(
+  machine: Pick<CapacityMachine, "throughputUnit" | "throughputRate" | "setupMinutes">,
+  work: JobWork,
+): number | null {
+  const rate = positive(machine.throughputRate);
+  if (rate === 0) return null;
+  const amount =
+    machine.throughputUnit === "sqft_per_hour" ? work.sqft : machine.throughputUnit === "sheets_per_hour" ? work.sheets : work.pieces;
+  return Math.ceil((amount / rate) * 60 + positive(machine.setupMinutes));
+}
+
+/** The machine's rate and setup with a routing operation's own values on top. */
+export function operationRate(
+  machine: Pick<CapacityMachine, "throughputUnit" | "throughputRate" | "setupMinutes">,
+  operation: JobOperationRate | null | undefined,
+): Pick<CapacityMachine, "throughputUnit" | "throughputRate" | "setupMinutes"> {
+  if (!operation) return machine;
+  const hasRate = positive(operation.throughputRate) > 0;
+  return {
+    throughputUnit: hasRate ? operation.throughputUnit : machine.throughputUnit,
+    throughputRate: hasRate ? operation.throughputRate! : machine.throughputRate,
+    setupMinutes: operation.setupMinutes ?? machine.setupMinutes,
+  };
+}
+
+// ---- Timezone math (Intl only; offsets re-derived per instant so DST is handled) ----
+
+type LocalDate = { year: number; month: number; day: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Milliseconds the zone is ahead of UTC at `instant`. */
+function zoneOffsetMs(instant: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour % 24, parts.minute, parts.second);
+  return asUtc - Math.floor(instant / 1000) * 1000;
+}
+
+function localDateOf(instant: number, timeZone: string): LocalDate {
+  const shifted = new Date(instant + zoneOffsetMs(instant, timeZone));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+/** The instant a local wall-clock time happens (a skipped DST hour resolves forward). */
+function zonedTimeToInstant(date: LocalDate, minuteOfDay: number, timeZone: string): number {
+  const wall = Date.UTC(date.year, date.month - 1, date.day) + minuteOfDay * MINUTE_MS;
+  const guess = wall - zoneOffsetMs(wall, timeZone);
+  return wall - zoneOffsetMs(guess, timeZone);
+}
+
+function addDays(date: LocalDate, days: number): LocalDate & { weekday: number } {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), weekday: d.getUTCDay() };
+}
+
+function isoDate(date: LocalDate): string {
+  return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+export function parseShiftTime(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return Number(match[2]) < 60 && minutes <= 24 * 60 ? minutes : null;
+}
+
+/**
+ * Place `minutes` of work on the calendar no earlier than `from`. Work may span shifts and
+ * days. Returns null when the calendar has no working time within the lookahead.
+ */
+export function placeOnCalendar(
+  calendar: MachineCalendar,
+  from: Date,
+  minutes: number,
+): { startAt: Date; endAt: Date } | null {
+  const closed = new Set(calendar.closedDates);
+  const shiftsByDay = new Map<number, Array<[number, number]>>();
+  for (const shift of calendar.workingHours) {
+    const start = parseShiftTime(shift.start);
+    const end = parseShiftTime(shift.end);
+    if (start === null || end === null || end <= start) continue;
+    const list = shiftsByDay.get(shift.day) ?? [];
+    list.push([start, end]);
+    shiftsByDay.set(shift.day, list);
+  }
+  shiftsByDay.forEach((list) => list.sort((a, b) => a[0] - b[0]));
+  if (shiftsByDay.size === 0) return null;
+
+  const cursor = from.getTime();
+  const firstDay = localDateOf(cursor, calendar.timezone);
+  let remaining = Math.max(0, minutes) * MINUTE_MS;
+  let startAt: number | null = null;
+
+  for (let offset = 0; offset <= CALENDAR_LOOKAHEAD_DAYS; offset++) {
+    const day = addDays(firstDay, offset);
+    if (closed.has(isoDate(day))) continue;
+
+    for (const [startMinute, endMinute] of shiftsByDay.get(day.weekday) ?? []) {
+      const windowEnd = zonedTimeToInstant(day, endMinute, calendar.timezone);
+      const windowStart = Math.max(cursor, zonedTimeToInstant(day, startMinute, calendar.timezone));
+      if (windowEnd <= windowStart) continue;
+
+      if (startAt === null) startAt = windowStart;
+      const used = Math.min(remaining, windowEnd - windowStart);
+      remaining -= used;
+      if (remaining === 0) return { startAt: new Date(startAt), endAt: new Date(windowStart + used) };
+    }
+  }
+  return null;
+}
+
+/**
+ * When a production due date is met. Dates picked without a time are stored as midnight UTC;
+ * those mean "by the end of that day" in the shop's timezone.
+ */
+export function productionDeadline(dueDate: string | Date | null, timeZone: string): Date | null {
+  if (!dueDate) return null;
+  const due = new Date(dueDate);
+  if (Number.isNaN(due.getTime())) return null;
+  const dateOnly =
+    (typeof dueDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(dueDate.trim())) ||
+    (due.getUTCHours() === 0 && due.getUTCMinutes() === 0 && due.getUTCSeconds() === 0 && due.getUTCMilliseconds() === 0);
+  if (!dateOnly) return due;
+  const nextDay = addDays({ year: due.getUTCFullYear(), month: due.getUTCMonth() + 1, day: due.getUTCDate() }, 1);
+  return new Date(zonedTimeToInstant(nextDay, 0, timeZone));
+}
+
+/**
+ * Earliest placement no earlier than `from` that does not overlap the machine's busy
+ * intervals (sorted by start). Work never splits around another job.
+ */
+export function placeBetween(
+  calendar: MachineCalendar,
+  busy: Array<{ startAt: Date; endAt: Date }>,
+  from: Date,
+  minutes: number,
+): { startAt: Date; endAt: Date } | null {
+  let cursor = from;
+  for (const interval of busy) {
+    if (interval.endAt.getTime() <= cursor.getTime()) continue;
+    const placed = placeOnCalendar(calendar, cursor, minutes);
+    if (!placed) return null;
+    if (placed.endAt.getTime() <= interval.startAt.getTime()) return placed;
+    cursor = interval.endAt;
+  }
+  return placeOnCalendar(calendar, cursor, minutes);
+}
+
+/** Due-date risk of a slot at `now`. */
+export function scheduleRisk(slot: { endAt: Date | null; dueAt: Date | null }, now = new Date()): ScheduleRisk {
+  if (!slot.endAt) return "unscheduled";
+  if (!slot.dueAt) return "no_due_date";
+  if (slot.endAt.getTime() > slot.dueAt.getTime() || slot.dueAt.getTime() < now.getTime()) return "late";
+  return slot.dueAt.getTime() - slot.endAt.getTime() < AT_RISK_SLACK_MINUTES * MINUTE_MS ? "at_risk" : "on_track";
+}
+
+function compareJobs(a: SchedulableJob, b: SchedulableJob): number {
+  const rank = (PRIORITY_RANK[a.priority] ?? 1) - (PRIORITY_RANK[b.priority] ?? 1);
+  if (rank !== 0) return rank;
+  if (a.dueAt && b.dueAt && a.dueAt.getTime() !== b.dueAt.getTime()) return a.dueAt.getTime() - b.dueAt.getTime();
+  if (a.dueAt && !b.dueAt) return -1;
+  if (!a.dueAt && b.dueAt) return 1;
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+function comparePlaced(a: SchedulableJob, b: SchedulableJob): number {
+  const start = a.plannedStartAt!.getTime() - b.plannedStartAt!.getTime();
+  if (start !== 0) return start;
+  return (a.sequence ?? 0) - (b.sequence ?? 0) || compareJobs(a, b);
+}
+
+/** Assign every open job a machine and start/finish slot, machines free from `now`. */
+export function planProductionSchedule(args: { machines: CapacityMachine[]; jobs: SchedulableJob[]; now: Date }): ScheduledSlot[] {
+  const { machines, now } = args;
+  const busy = new Map(machines.map((m) => [m.id, [] as Array<{ startAt: Date; endAt: Date }>]));
+  const slots: ScheduledSlot[] = [];
+
+  const ownMachine = (job: SchedulableJob) =>
+    machines.find((m) => m.id === job.machineId && m.stationKey === job.stationKey) ?? null;
+  const running = args.jobs.filter((j) => j.status === "in_progress");
+  const placed = args.jobs.filter((j) => j.status === "queued" && j.plannedStartAt && ownMachine(j)).sort(comparePlaced);
+  const rest = args.jobs.filter((j) => !running.includes(j) && !placed.includes(j)).sort(compareJobs);
+
+  const unscheduled = (job: SchedulableJob, reason: string) =>
+    slots.push({ jobId: job.id, machineId: null, estimatedMinutes: null, startAt: null, endAt: null, late: false, conflict: false, reason });
+
+  for (const job of [...running, ...placed, ...rest]) {
+    const onStation = machines.filter((m) => m.stationKey === job.stationKey);
+    const own = ownMachine(job);
+    const isPlaced = job.status === "queued" && !!job.plannedStartAt && own !== null;
+    const keepsMachine = (job.status === "in_progress" || isPlaced) && own !== null;
+    const candidates = keepsMachine ? [own!] : onStation;
+    if (candidates.length === 0) {
+      unscheduled(job, `No active machine for station "${job.stationKey}"`);
+      continue;
+    }
+
+    const notBefore = isPlaced && job.plannedStartAt!.getTime() > now.getTime() ? job.plannedStartAt! : now;
+    let best: { machine: CapacityMachine; minutes: number; startAt: Date; endAt: Date } | null = null;
+    for (const machine of candidates) {
+      const estimate = estimateRunMinutes(operationRate(machine, job.operation), job.work);
+      if (estimate === null) continue;
+      const minutes = job.status === "in_progress" ? Math.max(0, estimate - Math.floor(job.elapsedMinutes)) : estimate;
+      const slot = placeBetween(machine, busy.get(machine.id) ?? [], notBefore, minutes);
+      if (slot && (!best || slot.endAt.getTime() < best.endAt.getTime())) best = { machine, minutes: estimate, ...slot };
+    }
+
+    if (!best) {
+      unscheduled(job, "No machine on this station has a rate and working hours");
+      continue;
+    }
+
+    const intervals = busy.get(best.machine.id)!;
+    intervals.push({ startAt: best.startAt, endAt: best.endAt });
+    intervals.sort((a, b) => a.startAt.getTime() - b.startAt.getTime());
+    slots.push({
+      jobId: job.id,
+      machineId: best.machine.id,
+      estimatedMinutes: best.minutes,
+      startAt: best.startAt,
+      endAt: best.endAt,
+      late: !!job.dueAt && best.endAt.getTime() > job.dueAt.getTime(),
+      conflict: isPlaced && best.startAt.getTime() - job.plannedStartAt!.getTime() >= MINUTE_MS,
+    });
+  }
+  return slots;
+}
@@ -0,0 +1,102 @@
+/**
+ * Production routings (multi-step jobs).
+ *
+ * A routing is an ordered list of operations (print → laminate → cut → grommet → pack), each
+ * worked at a station with its own setup time and optional run rate. Routings attach to a
+ * product, or to a product type for every product of that type without its own.
+ *
+ * When a job is created the routing is resolved against the line item's PBV2 option
+ * selections: an operation with a condition is kept only when its option is selected (and,
+ * if values are listed, set to one of them). The kept operations become the job's operation
+ * records; the job sits at the station of its current operation and moves to the next one
+ * when that operation is completed, so a station only sees work that cleared the step before.
+ */
+
+import type { MachineThroughputUnit } from "./productionCapacity";
+
+/** Include an operation only when a PBV2 option node is selected, optionally with one of these values. */
+export type RoutingOperationCondition = { optionId: string; values: string[] };
+
+export type RoutingOperation = {
+  /** Becomes the job's stepKey while this operation is current. */
+  key: string;
+  name: string;
+  stationKey: string;
+  /** Overrides the machine's setup time; null uses the machine's. */
+  setupMinutes: number | null;
+  /** Overrides the machine's rate for this operation; null uses the machine's. */
+  runRate: number | null;
+  runRateUnit: MachineThroughputUnit;
+  condition: RoutingOperationCondition | null;
+};
+
+export type ResolvedRoutingOperation = RoutingOperation & { sequence: number };
+
+export const JOB_OPERATION_STATUSES = ["queued", "in_progress", "done", "skipped"] as const;
+export type JobOperationStatus = (typeof JOB_OPERATION_STATUSES)[number];
+
+type OptionEntry = { optionId?: unknown; value?: unknown };
+
+function asRecord(value: unknown): Record<string, any> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, any>) : null;
+}
+
+/**
+ * Selected option values of a line item, by PBV2 option node id. Uses the evaluated
+ * `selectedOptions` (visible, selected nodes only) when present, else the raw snapshot
+ * selections, which hold either the value or `{ value }` per node.
+ */
+export function lineItemOptionValues(item: { selectedOptions?: unknown; pbv2SnapshotJson?: unknown }): Record<string, unknown> {
+  const snapshot = asRecord(item.pbv2SnapshotJson);
+  const evaluated = [item.selectedOptions, snapshot?.selectedOptions].find((list) => Array.isArray(list) && list.length > 0) as
+    | OptionEntry[]
+    | undefined;
+
+  const values: Record<string, unknown> = {};
+  if (evaluated) {
+    for (const entry of evaluated) {
+      if (typeof entry?.optionId === "string") values[entry.optionId] = entry.value;
+    }
+    return values;
+  }
+
+  const selections = asRecord(snapshot?.explicitSelections) ?? asRecord(snapshot?.selections);
+  if (!selections) return values;
+  Object.keys(selections).forEach((nodeId) => {
+    const raw = selections[nodeId];
+    const entry = asRecord(raw);
+    values[nodeId] = entry && "value" in entry ? entry.value : raw;
+  });
+  return values;
+}
+
+function isSelected(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === "") return false;
+  if (typeof value === "string" && ["false", "none", "no"].includes(value.trim().toLowerCase())) return false;
+  return true;
+}
+
+export function operationApplies(operation: Pick<RoutingOperation, "condition">, optionValues: Record<string, unknown>): boolean {
+  const condition = operation.condition;
+  if (!condition) return true;
+  const value = optionValues[condition.optionId];
+  if (!isSelected(value)) return false;
+  if (condition.values.length === 0) return true;
+  const actual = String(value).trim().toLowerCase();
+  return condition.values.some((v) => v.trim().toLowerCase() === actual);
+}
+
+/** Operations of a routing that apply to a line item, numbered from 1 in routing order. */
+export function resolveRoutingOperations(
+  operations: RoutingOperation[],
+  optionValues: Record<string, unknown>,
+): ResolvedRoutingOperation[] {
+  return operations.filter((op) => operationApplies(op, optionValues)).map((op, index) => ({ ...op, sequence: index + 1 }));
+}
+
+/** The operation a job is at: the first one, by sequence, that is not done or skipped. */
+export function currentJobOperation<T extends { sequence: number; status: string }>(operations: T[]): T | null {
+  const open = operations.filter((op) => op.status !== "done" && op.status !== "skipped");
+  if (open.length === 0) return null;
+  return open.reduce((first, op) => (op.sequence < first.sequence ? op : first));
+}
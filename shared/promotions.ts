@@ -0,0 +1,164 @@
+/**
+ * Promotions / coupon codes.
+ *
+ * Pure eligibility + discount evaluation shared by the server (quote totals, conversion to
+ * orders) and any client preview. Amounts are integer cents; promotion definitions keep the
+ * dollar/percent values they are stored with.
+ */
+
+export const PROMOTION_DISCOUNT_TYPES = ["PERCENT_OFF", "AMOUNT_OFF", "FREE_OPTION"] as const;
+export type PromotionDiscountType = (typeof PROMOTION_DISCOUNT_TYPES)[number];
+
+export type PromotionDefinition = {
+  code: string;
+  name: string;
+  discountType: PromotionDiscountType;
+  /** PERCENT_OFF: percent (0-100); AMOUNT_OFF: dollars; FREE_OPTION: unused. */
+  discountValue: number | string;
+  /** FREE_OPTION: option name to waive (case-insensitive substring, e.g. "grommet"). */
+  optionName?: string | null;
+  /** Eligible product type ids; empty/null = every product. */
+  productTypeIds?: readonly string[] | null;
+  /** Eligible customer pricing tiers; empty/null = every customer. */
+  customerTiers?: readonly string[] | null;
+  /** Minimum eligible subtotal, in dollars. */
+  minSubtotal?: number | string | null;
+  /** Minimum quantity for a line to qualify. */
+  minQuantity?: number | null;
+  startsAt?: Date | string | null;
+  endsAt?: Date | string | null;
+  maxRedemptions?: number | null;
+  maxRedemptionsPerCustomer?: number | null;
+  isActive: boolean;
+};
+
+export type PromotionLine = {
+  productTypeId: string | null;
+  quantity: number;
+  lineTotalCents: number;
+  /** Option charges on the line (from the selectedOptions snapshot). */
+  options?: ReadonlyArray<{ name: string; amountCents: number }>;
+};
+
+export type PromotionContext = {
+  lines: readonly PromotionLine[];
+  customerTier?: string | null;
+  at: Date;
+  /** Orders already placed with this promotion (all customers / this customer). */
+  redemptionCount: number;
+  customerRedemptionCount: number;
+};
+
+export type PromotionEvaluation =
+  | { ok: true; discountCents: number; eligibleSubtotalCents: number; description: string }
+  | { ok: false; reason: string };
+
+/** Codes are case-insensitive; stored and compared upper-cased. */
+export const PROMOTION_CODE_PATTERN = /^[A-Z0-9][A-Z0-9_-]{1,49}$/;
+
+export function normalizePromotionCode(code: unknown): string {
+  return typeof code === "string" ? code.trim().toUpperCase() : "";
+}
+
+function toTime(value: Date | string): number {
+  return value instanceof Date ? value.getTime() : Date.parse(value);
+}
+
+function toNumber(value: number | string | null | undefined): number | null {
+  if (value == null || value === "") return null;
+  const n = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function formatDollars(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+export function describePromotion(promotion: Pick<PromotionDefinition, "code" | "discountType" | "discountValue" | "optionName">): string {
+  const value = toNumber(promotion.discountValue) ?? 0;
+  switch (promotion.discountType) {
+    case "PERCENT_OFF":
+      return `${promotion.code}: ${value}% off`;
+    case "AMOUNT_OFF":
+      return `${promotion.code}: ${formatDollars(Math.round(value * 100))} off`;
+    case "FREE_OPTION":
+      return `${promotion.code}: free ${promotion.optionName || "option"}`;
+    default:
+      return promotion.code;
+  }
+}
+
+/**
+ * Check eligibility and compute the discount for a document.
+ *
+ * Order of checks: active flag, date window (`startsAt <= at < endsAt`), usage limits,
+ * customer tier, qualifying lines (product type + minQuantity), minimum eligible subtotal.
+ * The discount never exceeds the eligible subtotal.
+ */
+export function evaluatePromotion(promotion: PromotionDefinition, context: PromotionContext): PromotionEvaluation {
+  if (!promotion.isActive) return { ok: false, reason: "This promotion is not active" };
+
+  const atMs = context.at.getTime();
+  if (promotion.startsAt != null && toTime(promotion.startsAt) > atMs) {
+    return { ok: false, reason: "This promotion has not started yet" };
+  }
+  if (promotion.endsAt != null && toTime(promotion.endsAt) <= atMs) {
+    return { ok: false, reason: "This promotion has expired" };
+  }
+
+  if (promotion.maxRedemptions != null && context.redemptionCount >= promotion.maxRedemptions) {
+    return { ok: false, reason: "This promotion has reached its usage limit" };
+  }
+  if (promotion.maxRedemptionsPerCustomer != null && context.customerRedemptionCount >= promotion.maxRedemptionsPerCustomer) {
+    return { ok: false, reason: "This promotion has already been used the maximum number of times for this customer" };
+  }
+
+  const tiers = promotion.customerTiers ?? [];
+  if (tiers.length > 0 && !tiers.includes(context.customerTier || "default")) {
+    return { ok: false, reason: "This promotion is not available for this customer" };
+  }
+
+  const productTypeIds = promotion.productTypeIds ?? [];
+  const minQuantity = promotion.minQuantity ?? null;
+  const eligibleLines = context.lines.filter(
+    (line) =>
+      (productTypeIds.length === 0 || (line.productTypeId != null && productTypeIds.includes(line.productTypeId))) &&
+      (minQuantity == null || line.quantity >= minQuantity)
+  );
+  if (eligibleLines.length === 0) {
+    return { ok: false, reason: "No items qualify for this promotion" };
+  }
+
+  const eligibleSubtotalCents = eligibleLines.reduce((sum, line) => sum + Math.max(0, Math.round(line.lineTotalCents)), 0);
+  const minSubtotal = toNumber(promotion.minSubtotal);
+  if (minSubtotal != null && eligibleSubtotalCents < Math.round(minSubtotal * 100)) {
+    return { ok: false, reason: `Requires a qualifying subtotal of at least ${formatDollars(Math.round(minSubtotal * 100))}` };
+  }
+
+  const value = toNumber(promotion.discountValue) ?? 0;
+  let discountCents = 0;
+  if (promotion.discountType === "PERCENT_OFF") {
+    discountCents = Math.round((eligibleSubtotalCents * Math.min(Math.max(value, 0), 100)) / 100);
+  } else if (promotion.discountType === "AMOUNT_OFF") {
+    discountCents = Math.round(Math.max(value, 0) * 100);
+  } else if (promotion.discountType === "FREE_OPTION") {
+    const needle = (promotion.optionName || "").trim().toLowerCase();
+    if (needle) {
+      for (const line of eligibleLines) {
+        for (const option of line.options ?? []) {
+          if (option.name.toLowerCase().includes(needle)) discountCents += Math.max(0, Math.round(option.amountCents));
+        }
+      }
+    }
+    if (discountCents === 0) {
+      return { ok: false, reason: `No ${promotion.optionName || "option"} charges qualify for this promotion` };
+    }
+  }
+
+  return {
+    ok: true,
+    discountCents: Math.min(discountCents, eligibleSubtotalCents),
+    eligibleSubtotalCents,
+    description: describePromotion(promotion),
+  };
+}
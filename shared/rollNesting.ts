@@ -0,0 +1,310 @@
+/**
+ * Roll media run planning.
+ *
+ * Packs pieces from several roll jobs across the printable width of one roll in lanes
+ * (columns running down the roll) so the run uses as few linear feet as possible. The
+ * printable width is the roll width minus `edgeWasteInPerSide` on both edges; lead and tail
+ * waste are added to the run length. Dimensions are inches except roll length/waste (feet),
+ * matching the material record.
+ */
+
+export const ROLL_NESTING_MAX_PIECES = 5000;
+
+export type RollNestingItem = {
+  id: string;
+  label?: string | null;
+  widthIn: number;
+  heightIn: number;
+  quantity: number;
+  allowRotation?: boolean;
+};
+
+export type RollNestingOptions = {
+  rollWidthIn: number;
+  edgeWasteInPerSide?: number;
+  leadWasteFt?: number;
+  tailWasteFt?: number;
+  /** Remaining roll length; only used to warn when the run will not fit. */
+  rollLengthFt?: number | null;
+  gutterIn?: number;
+  allowRotation?: boolean;
+};
+
+export type RollNestingPlacement = {
+  itemId: string;
+  label: string;
+  copy: number;
+  lane: number;
+  /** Across the roll, from the roll edge (edge waste included). */
+  x: number;
+  /** Down the roll, from the end of the lead waste. */
+  y: number;
+  width: number;
+  height: number;
+  rotated: boolean;
+};
+
+export type RollNestingLane = {
+  index: number;
+  x: number;
+  widthIn: number;
+  lengthIn: number;
+  pieceCount: number;
+};
+
+export type RollNestingItemSummary = {
+  itemId: string;
+  label: string;
+  quantity: number;
+  placed: number;
+  unplaced: number;
+  printedAreaSqFt: number;
+  /** Share of the run's total linear feet, proportional to printed area. */
+  linearFt: number;
+};
+
+export type RollNestingPlan = {
+  rollWidthIn: number;
+  printableWidthIn: number;
+  edgeWasteInPerSide: number;
+  leadWasteFt: number;
+  tailWasteFt: number;
+  gutterIn: number;
+  allowRotation: boolean;
+  lanes: RollNestingLane[];
+  placements: RollNestingPlacement[];
+  items: RollNestingItemSummary[];
+  printedLengthIn: number;
+  /** Printed length plus lead and tail waste. */
+  totalLinearFt: number;
+  printedAreaSqFt: number;
+  mediaAreaSqFt: number;
+  wastePercent: number;
+  exceedsRollLength: boolean;
+  warnings: string[];
+};
+
+type Piece = {
+  itemId: string;
+  label: string;
+  copy: number;
+  across: number;
+  down: number;
+  rotated: boolean;
+};
+
+type LaneState = RollNestingLane & { pieces: Piece[] };
+
+const EPSILON = 1e-6;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function positive(value: number | null | undefined): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Orient a piece for the roll. `narrow` runs the long side down the roll so more lanes fit
+ * across; `wide` puts the long side across to shorten the run. Returns null if neither fits.
+ */
+function orient(
+  item: RollNestingItem,
+  printableWidthIn: number,
+  allowRotation: boolean,
+  strategy: "narrow" | "wide",
+): { across: number; down: number; rotated: boolean } | null {
+  const asGiven = { across: item.widthIn, down: item.heightIn, rotated: false };
+  const turned = { across: item.heightIn, down: item.widthIn, rotated: true };
+  const candidates = (allowRotation ? [asGiven, turned] : [asGiven]).filter((c) => c.across <= printableWidthIn + EPSILON);
+  if (candidates.length === 0) return null;
+  candidates.sort((a, b) => (strategy === "narrow" ? a.across - b.across : b.across - a.across));
+  return candidates[0];
+}
+
+function packLanes(pieces: Piece[], printableWidthIn: number, gutterIn: number): { lanes: LaneState[]; unplaced: Piece[] } {
+  const sorted = [...pieces].sort((a, b) => {
+    if (Math.abs(b.across - a.across) > EPSILON) return b.across - a.across;
+    if (Math.abs(b.down - a.down) > EPSILON) return b.down - a.down;
+    return a.itemId === b.itemId ? a.copy - b.copy : a.itemId.localeCompare(b.itemId);
+  });
+
+  const lanes: LaneState[] = [];
+  const unplaced: Piece[] = [];
+  let usedWidth = 0;
+
+  for (const piece of sorted) {
+    const newLaneX = lanes.length > 0 ? usedWidth + gutterIn : 0;
+    if (newLaneX + piece.across <= printableWidthIn + EPSILON) {
+      lanes.push({ index: lanes.length, x: newLaneX, widthIn: piece.across, lengthIn: piece.down, pieceCount: 1, pieces: [piece] });
+      usedWidth = newLaneX + piece.across;
+      continue;
+    }
+
+    // Width is used up: stack onto the shortest lane wide enough for the piece
+    let target: LaneState | null = null;
+    for (const lane of lanes) {
+      if (lane.widthIn + EPSILON < piece.across) continue;
+      if (!target || lane.lengthIn < target.lengthIn - EPSILON) target = lane;
+    }
+    if (!target) {
+      unplaced.push(piece);
+      continue;
+    }
+    target.lengthIn += gutterIn + piece.down;
+    target.pieceCount += 1;
+    target.pieces.push(piece);
+  }
+
+  return { lanes, unplaced };
+}
+
+/**
+ * Plan one run of a roll for every copy of every item.
+ *
+ * Pieces are laid widest-first; each opens a new lane while width remains, then stacks onto
+ * the shortest lane that is wide enough. When rotation is allowed both orientation strategies
+ * are tried and the shorter run wins. Pieces wider than the printable width in every allowed
+ * orientation are reported as unplaced.
+ */
+export function planRollNesting(items: readonly RollNestingItem[], options: RollNestingOptions): RollNestingPlan {
+  const rollWidthIn = positive(options.rollWidthIn);
+  const edgeWasteInPerSide = positive(options.edgeWasteInPerSide);
+  const leadWasteFt = positive(options.leadWasteFt);
+  const tailWasteFt = positive(options.tailWasteFt);
+  const gutterIn = positive(options.gutterIn);
+  const allowRotation = options.allowRotation ?? true;
+  const printableWidthIn = rollWidthIn - 2 * edgeWasteInPerSide;
+
+  if (!rollWidthIn) throw new Error("Roll width must be greater than zero");
+  if (printableWidthIn <= 0) throw new Error("Edge waste leaves no printable width on this roll");
+
+  const requestedPieces = items.reduce((sum, item) => sum + Math.floor(positive(item.quantity)), 0);
+  if (requestedPieces > ROLL_NESTING_MAX_PIECES) {
+    throw new Error(`Too many pieces to nest (${requestedPieces}); the limit is ${ROLL_NESTING_MAX_PIECES}`);
+  }
+
+  const warnings: string[] = [];
+  const validItems = items.filter((item) => {
+    if (positive(item.widthIn) && positive(item.heightIn)) return true;
+    warnings.push(`${item.label?.trim() || item.id}: missing width/height, skipped`);
+    return false;
+  });
+
+  const strategies: Array<"narrow" | "wide"> = allowRotation ? ["narrow", "wide"] : ["narrow"];
+  let best: { lanes: LaneState[]; unplaced: Piece[]; lengthIn: number } | null = null;
+
+  for (const strategy of strategies) {
+    const pieces: Piece[] = [];
+    const tooWide: Piece[] = [];
+    for (const item of validItems) {
+      const label = item.label?.trim() || item.id;
+      const orientation = orient(item, printableWidthIn, item.allowRotation ?? allowRotation, strategy);
+      for (let copy = 1; copy <= Math.floor(positive(item.quantity)); copy++) {
+        if (orientation) {
+          pieces.push({ itemId: item.id, label, copy, ...orientation });
+        } else {
+          tooWide.push({ itemId: item.id, label, copy, across: item.widthIn, down: item.heightIn, rotated: false });
+        }
+      }
+    }
+    const packed = packLanes(pieces, printableWidthIn, gutterIn);
+    const lengthIn = packed.lanes.reduce((max, lane) => Math.max(max, lane.lengthIn), 0);
+    const unplaced = [...tooWide, ...packed.unplaced];
+    if (
+      !best ||
+      unplaced.length < best.unplaced.length ||
+      (unplaced.length === best.unplaced.length && lengthIn < best.lengthIn - EPSILON)
+    ) {
+      best = { lanes: packed.lanes, unplaced, lengthIn };
+    }
+  }
+
+  const lanes = best?.lanes ?? [];
+  const placements: RollNestingPlacement[] = [];
+  for (const lane of lanes) {
+    let y = 0;
+    for (const piece of lane.pieces) {
+      placements.push({
+        itemId: piece.itemId,
+        label: piece.label,
+        copy: piece.copy,
+        lane: lane.index,
+        x: round2(edgeWasteInPerSide + lane.x),
+        y: round2(y),
+        width: piece.across,
+        height: piece.down,
+        rotated: piece.rotated,
+      });
+      y += piece.down + gutterIn;
+    }
+  }
+
+  const printedLengthIn = round2(best?.lengthIn ?? 0);
+  const totalLinearFt = placements.length > 0 ? round2(printedLengthIn / 12 + leadWasteFt + tailWasteFt) : 0;
+  const printedAreaSqIn = placements.reduce((sum, p) => sum + p.width * p.height, 0);
+  const mediaAreaSqIn = rollWidthIn * totalLinearFt * 12;
+
+  const unplacedByItem = new Map<string, number>();
+  for (const piece of best?.unplaced ?? []) {
+    unplacedByItem.set(piece.itemId, (unplacedByItem.get(piece.itemId) ?? 0) + 1);
+  }
+
+  const summaries = new Map<string, RollNestingItemSummary & { areaSqIn: number }>();
+  for (const item of items) {
+    const existing = summaries.get(item.id);
+    if (existing) {
+      existing.quantity += Math.floor(positive(item.quantity));
+      continue;
+    }
+    summaries.set(item.id, {
+      itemId: item.id,
+      label: item.label?.trim() || item.id,
+      quantity: Math.floor(positive(item.quantity)),
+      placed: 0,
+      unplaced: unplacedByItem.get(item.id) ?? 0,
+      printedAreaSqFt: 0,
+      linearFt: 0,
+      areaSqIn: 0,
+    });
+  }
+  for (const placement of placements) {
+    const summary = summaries.get(placement.itemId)!;
+    summary.placed += 1;
+    summary.areaSqIn += placement.width * placement.height;
+  }
+
+  const itemSummaries: RollNestingItemSummary[] = Array.from(summaries.values()).map(({ areaSqIn, ...summary }) => {
+    if (summary.unplaced > 0) warnings.push(`${summary.label}: ${summary.unplaced} piece(s) are wider than the printable width`);
+    return {
+      ...summary,
+      printedAreaSqFt: round2(areaSqIn / 144),
+      linearFt: printedAreaSqIn > 0 ? round2((areaSqIn / printedAreaSqIn) * totalLinearFt) : 0,
+    };
+  });
+
+  const rollLengthFt = positive(options.rollLengthFt ?? null);
+  const exceedsRollLength = rollLengthFt > 0 && totalLinearFt > rollLengthFt + EPSILON;
+  if (exceedsRollLength) warnings.push(`Run needs ${totalLinearFt} ft but the roll is ${rollLengthFt} ft`);
+
+  return {
+    rollWidthIn,
+    printableWidthIn: round2(printableWidthIn),
+    edgeWasteInPerSide,
+    leadWasteFt,
+    tailWasteFt,
+    gutterIn,
+    allowRotation,
+    lanes: lanes.map(({ pieces: _pieces, ...lane }) => ({ ...lane, x: round2(edgeWasteInPerSide + lane.x), lengthIn: round2(lane.lengthIn) })),
+    placements,
+    items: itemSummaries,
+    printedLengthIn,
+    totalLinearFt,
+    printedAreaSqFt: round2(printedAreaSqIn / 144),
+    mediaAreaSqFt: round2(mediaAreaSqIn / 144),
+    wastePercent: mediaAreaSqIn > 0 ? round2((1 - printedAreaSqIn / mediaAreaSqIn) * 100) : 0,
+    exceedsRollLength,
+    warnings,
+  };
+}
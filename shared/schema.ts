@@ -17,6 +17,9 @@ import {
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { PRICING_PROFILE_KEYS, type FlatGoodsConfig } from "./pricingProfiles";
+import { PROMOTION_CODE_PATTERN, PROMOTION_DISCOUNT_TYPES } from "./promotions";
+import { DEFAULT_MACHINE_SHIFTS, MACHINE_THROUGHPUT_UNITS, isValidTimeZone, parseShiftTime, type MachineShift } from "./productionCapacity";
+import type { JobOperationStatus, RoutingOperation } from "./productionRouting";
 
 // ============================================================
 // DOWNLOAD INTENT (Future-proofing for preflight/print variants)
@@ -124,6 +127,11 @@ export const userOrganizations = pgTable("user_organizations", {
   organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
   role: orgMemberRoleEnum("role").notNull().default('member'), // Role within this organization
   isDefault: boolean("is_default").notNull().default(false), // User's default/active organization
+  // Shop-floor kiosk sign-in (server/services/productionKiosk.ts): bcrypt PIN hash and badge barcode
+  kioskPinHash: text("kiosk_pin_hash"),
+  kioskBadgeCode: varchar("kiosk_badge_code", { length: 64 }),
+  // Hourly labor cost of this member's production time (shared/jobCosting.ts)
+  laborRatePerHour: decimal("labor_rate_per_hour", { precision: 10, scale: 2 }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
@@ -131,9 +139,13 @@ export const userOrganizations = pgTable("user_organizations", {
   index("user_organizations_user_id_idx").on(table.userId),
   index("user_organizations_organization_id_idx").on(table.organizationId),
   index("user_organizations_is_default_idx").on(table.isDefault),
+  uniqueIndex("user_organizations_org_kiosk_badge_unique").on(table.organizationId, table.kioskBadgeCode),
 ]);
 
 export const insertUserOrganizationSchema = createInsertSchema(userOrganizations).omit({
+  kioskPinHash: true,
+  kioskBadgeCode: true,
+  laborRatePerHour: true,
   createdAt: true,
   updatedAt: true,
 }).extend({
@@ -307,6 +319,8 @@ export const productTypes = pgTable("product_types", {
   name: varchar("name", { length: 100 }).notNull(),
   description: text("description"),
   sortOrder: integer("sort_order").default(0).notNull(),
+  // Production routing for products of this type without their own (FK to production_routings in migration 0051)
+  productionRoutingId: varchar("production_routing_id"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
@@ -381,6 +395,50 @@ export type InsertPricingFormula = z.infer<typeof insertPricingFormulaSchema>;
 export type UpdatePricingFormula = z.infer<typeof updatePricingFormulaSchema>;
 export type PricingFormula = typeof pricingFormulas.$inferSelect;
 
+// ============================================================
+// PRICEBOOK (org-managed values behind PBV2 `pricebookRef`)
+// ============================================================
+
+export const pricebookValueTypeEnum = pgEnum("pricebook_value_type", ["CENTS", "NUMBER"]);
+
+export const pricebookEntries = pgTable("pricebook_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+
+  // e.g. "ink.cost_per_sqft", "labor.hourly"; a key may have several effective-dated entries.
+  key: varchar("key", { length: 150 }).notNull(),
+  label: varchar("label", { length: 255 }),
+  description: text("description"),
+  valueType: pricebookValueTypeEnum("value_type").notNull().default("CENTS"),
+  value: decimal("value", { precision: 18, scale: 6 }).notNull(),
+  effectiveFrom: timestamp("effective_from", { withTimezone: true }).defaultNow().notNull(),
+
+  createdByUserId: varchar("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  updatedByUserId: varchar("updated_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("pricebook_entries_org_id_idx").on(table.organizationId),
+  uniqueIndex("pricebook_entries_org_key_effective_from_uidx").on(table.organizationId, table.key, table.effectiveFrom),
+]);
+
+export const insertPricebookEntrySchema = z.object({
+  key: z.string().trim().min(1).max(150),
+  label: z.string().max(255).optional().nullable(),
+  description: z.string().optional().nullable(),
+  valueType: z.enum(["CENTS", "NUMBER"]).default("CENTS"),
+  value: z.coerce.number(),
+  effectiveFrom: z.coerce.date().optional(),
+});
+
+export const updatePricebookEntrySchema = insertPricebookEntrySchema.omit({ key: true, valueType: true }).partial();
+
+export type InsertPricebookEntry = z.infer<typeof insertPricebookEntrySchema>;
+export type UpdatePricebookEntry = z.infer<typeof updatePricebookEntrySchema>;
+export type PricebookEntry = typeof pricebookEntries.$inferSelect;
+
 // ============================================================
 // PRODUCTS
 // ============================================================
@@ -577,6 +635,11 @@ export const products = pgTable("products", {
   }>().default(sql`'{"enabled":false,"tiers":[]}'::jsonb`).notNull(),
   // Production workflow flag
   requiresProductionJob: boolean("requires_production_job").default(true).notNull(),
+  // Multi-step production routing; null falls back to the product type's (FK in migration 0051)
+  productionRoutingId: varchar("production_routing_id"),
+  // Prepress: bleed and safe zone (inches) that artwork for this product must carry
+  prepressBleedIn: decimal("prepress_bleed_in", { precision: 6, scale: 3 }),
+  prepressSafeZoneIn: decimal("prepress_safe_zone_in", { precision: 6, scale: 3 }),
   // Tax system
   isTaxable: boolean("is_taxable").default(true).notNull(),
   isActive: boolean("is_active").default(true).notNull(),
@@ -598,6 +661,7 @@ export const pbv2TreeVersionStatusEnum = pgEnum("pbv2_tree_version_status", [
   "ACTIVE",
   "DEPRECATED",
   "ARCHIVED",
+  "SCHEDULED", // published with a future effectiveFrom; becomes ACTIVE once due
 ]);
 
 export const pbv2TreeVersions = pgTable(
@@ -612,6 +676,10 @@ export const pbv2TreeVersions = pgTable(
     treeJson: jsonb("tree_json").$type<Record<string, any>>().default(sql`'{}'::jsonb`).notNull(),
 
     publishedAt: timestamp("published_at", { withTimezone: true }),
+    // When this version starts pricing (migration 0039). Null for DRAFT/ARCHIVED.
+    effectiveFrom: timestamp("effective_from", { withTimezone: true }),
+    // Set on rollback copies: the prior published version whose tree was re-activated.
+    sourceTreeVersionId: varchar("source_tree_version_id"),
 
     createdByUserId: varchar("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
     updatedByUserId: varchar("updated_by_user_id").references(() => users.id, { onDelete: "set null" }),
@@ -625,6 +693,7 @@ export const pbv2TreeVersions = pgTable(
     index("pbv2_tree_versions_status_idx").on(table.status),
     index("pbv2_tree_versions_org_product_status_idx").on(table.organizationId, table.productId, table.status),
     index("pbv2_tree_versions_updated_at_idx").on(table.updatedAt),
+    index("pbv2_tree_versions_product_effective_from_idx").on(table.productId, table.effectiveFrom),
   ]
 );
 
@@ -633,6 +702,8 @@ export const insertPbv2TreeVersionSchema = createInsertSchema(pbv2TreeVersions).
   createdAt: true,
   updatedAt: true,
   publishedAt: true,
+  effectiveFrom: true,
+  sourceTreeVersionId: true,
   organizationId: true,
   createdByUserId: true,
   updatedByUserId: true,
@@ -822,6 +893,8 @@ export const insertProductSchema = createInsertSchema(products).omit({
   sheetHeight: z.coerce.number().positive().optional().nullable(),
   minPricePerItem: z.coerce.number().positive().optional().nullable(),
   requiresProductionJob: z.boolean().default(true),
+  prepressBleedIn: z.coerce.number().min(0).max(12).optional().nullable(),
+  prepressSafeZoneIn: z.coerce.number().min(0).max(12).optional().nullable(),
 });
 
 export const updateProductSchema = createInsertSchema(products).omit({
@@ -844,6 +917,8 @@ export const updateProductSchema = createInsertSchema(products).omit({
   sheetHeight: z.coerce.number().positive().optional().nullable(),
   minPricePerItem: z.coerce.number().positive().optional().nullable(),
   requiresProductionJob: z.boolean().optional(),
+  prepressBleedIn: z.coerce.number().min(0).max(12).optional().nullable(),
+  prepressSafeZoneIn: z.coerce.number().min(0).max(12).optional().nullable(),
 }).partial();
 
 export type InsertProduct = z.infer<typeof insertProductSchema>;
@@ -1862,6 +1937,51 @@ export const insertCustomerVisibleProductSchema = createInsertSchema(customerVis
 export type InsertCustomerVisibleProduct = z.infer<typeof insertCustomerVisibleProductSchema>;
 export type CustomerVisibleProduct = typeof customerVisibleProducts.$inferSelect;
 
+// Customer price rules - negotiated per-customer, per-product contract pricing.
+// Consulted by the quote calculator before the customer's tier discount/markup.
+export const customerPriceRuleTypeEnum = pgEnum("customer_price_rule_type", ["FIXED_UNIT", "PER_SQFT", "PERCENT_OFF"]);
+
+export const customerPriceRules = pgTable("customer_price_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  customerId: varchar("customer_id").notNull().references(() => customers.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+
+  // FIXED_UNIT: dollars per item; PER_SQFT: dollars per sq ft; PERCENT_OFF: percent off the calculated line.
+  ruleType: customerPriceRuleTypeEnum("rule_type").notNull(),
+  value: decimal("value", { precision: 12, scale: 4 }).notNull(),
+  minQuantity: integer("min_quantity").notNull().default(1),
+  startsAt: timestamp("starts_at", { withTimezone: true }).defaultNow().notNull(),
+  endsAt: timestamp("ends_at", { withTimezone: true }),
+  notes: text("notes"),
+
+  createdByUserId: varchar("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  updatedByUserId: varchar("updated_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("customer_price_rules_org_id_idx").on(table.organizationId),
+  index("customer_price_rules_customer_product_idx").on(table.customerId, table.productId),
+]);
+
+export const insertCustomerPriceRuleSchema = z.object({
+  productId: z.string().min(1),
+  ruleType: z.enum(["FIXED_UNIT", "PER_SQFT", "PERCENT_OFF"]),
+  value: z.coerce.number().nonnegative(),
+  minQuantity: z.coerce.number().int().positive().default(1),
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().optional().nullable(),
+  notes: z.string().optional().nullable(),
+});
+
+export const updateCustomerPriceRuleSchema = insertCustomerPriceRuleSchema.omit({ productId: true }).partial();
+
+export type InsertCustomerPriceRule = z.infer<typeof insertCustomerPriceRuleSchema>;
+export type UpdateCustomerPriceRule = z.infer<typeof updateCustomerPriceRuleSchema>;
+export type CustomerPriceRule = typeof customerPriceRules.$inferSelect;
+
 // Customer Contacts table
 export const customerContacts = pgTable("customer_contacts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -2435,7 +2555,68 @@ export type ProductionEventType =
   | "timer_stopped"
   | "note"
   | "reprint_incremented"
-  | "media_used_set";
+  | "media_used_set"
+  | "operation_completed";
+
+export const productionThroughputUnitEnum = pgEnum('production_throughput_unit', MACHINE_THROUGHPUT_UNITS);
+
+// A machine working a production station, with its rate and weekly calendar (see shared/productionCapacity.ts)
+export const productionMachines = pgTable("production_machines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  stationKey: varchar("station_key", { length: 40 }).notNull(),
+  name: varchar("name", { length: 120 }).notNull(),
+  throughputUnit: productionThroughputUnitEnum("throughput_unit").notNull().default("sqft_per_hour"),
+  throughputRate: decimal("throughput_rate", { precision: 10, scale: 2 }).notNull(),
+  setupMinutes: integer("setup_minutes").notNull().default(0),
+  // IANA zone; null uses the organization's timezone
+  timezone: varchar("timezone", { length: 64 }),
+  workingHours: jsonb("working_hours").$type<MachineShift[]>().notNull().default(sql`'[]'::jsonb`),
+  closedDates: jsonb("closed_dates").$type<string[]>().notNull().default(sql`'[]'::jsonb`),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("production_machines_org_station_idx").on(table.organizationId, table.stationKey),
+]);
+
+const machineShiftSchema = z
+  .object({
+    day: z.number().int().min(0).max(6),
+    start: z.string().refine((v) => parseShiftTime(v) !== null, "Use HH:MM"),
+    end: z.string().refine((v) => parseShiftTime(v) !== null, "Use HH:MM"),
+  })
+  .refine((s) => parseShiftTime(s.end)! > parseShiftTime(s.start)!, { message: "Shift must end after it starts", path: ["end"] });
+
+export const insertProductionMachineSchema = z.object({
+  stationKey: z.string().trim().min(1).max(40),
+  name: z.string().trim().min(1).max(120),
+  throughputUnit: z.enum(MACHINE_THROUGHPUT_UNITS).default("sqft_per_hour"),
+  throughputRate: z.coerce.number().positive(),
+  setupMinutes: z.coerce.number().int().min(0).max(24 * 60).default(0),
+  timezone: z
+    .string()
+    .trim()
+    .refine(isValidTimeZone, "Unknown timezone")
+    .optional()
+    .nullable(),
+  workingHours: z.array(machineShiftSchema).max(50).default(DEFAULT_MACHINE_SHIFTS),
+  closedDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD")).max(500).default([]),
+  isActive: z.boolean().default(true),
+});
+
+export const updateProductionMachineSchema = insertProductionMachineSchema.partial();
+
+// Drag on the schedule board: machine + planned start, or plannedStartAt null to hand back to the scheduler
+export const moveScheduledJobSchema = z.object({
+  machineId: z.string().min(1),
+  plannedStartAt: z.coerce.date().nullable(),
+});
+
+export type InsertProductionMachine = z.infer<typeof insertProductionMachineSchema>;
+export type UpdateProductionMachine = z.infer<typeof updateProductionMachineSchema>;
+export type ProductionMachine = typeof productionMachines.$inferSelect;
+export type MoveScheduledJob = z.infer<typeof moveScheduledJobSchema>;
 
 export const productionJobs = pgTable("production_jobs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()::text`),
@@ -2448,6 +2629,16 @@ export const productionJobs = pgTable("production_jobs", {
   startedAt: timestamp("started_at", { withTimezone: true }),
   completedAt: timestamp("completed_at", { withTimezone: true }),
   totalSeconds: integer("total_seconds").notNull().default(0),
+  // Capacity schedule, rewritten by each scheduler run (server/services/productionScheduling.ts)
+  machineId: varchar("machine_id").references(() => productionMachines.id, { onDelete: 'set null' }),
+  estimatedMinutes: integer("estimated_minutes"),
+  scheduledStartAt: timestamp("scheduled_start_at", { withTimezone: true }),
+  scheduledEndAt: timestamp("scheduled_end_at", { withTimezone: true }),
+  scheduledLate: boolean("scheduled_late").notNull().default(false),
+  // Supervisor placement from the schedule board: keeps machineId and starts no earlier than this
+  plannedStartAt: timestamp("planned_start_at", { withTimezone: true }),
+  scheduleSequence: integer("schedule_sequence"),
+  scheduleConflict: boolean("schedule_conflict").notNull().default(false),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
@@ -2455,6 +2646,7 @@ export const productionJobs = pgTable("production_jobs", {
   index("production_jobs_org_station_status_idx").on(table.organizationId, table.stationKey, table.status),
   index("production_jobs_order_id_idx").on(table.orderId),
   index("production_jobs_line_item_id_idx").on(table.lineItemId),
+  index("production_jobs_machine_planned_idx").on(table.machineId, table.plannedStartAt),
 ]);
 
 export const productionEvents = pgTable("production_events", {
@@ -2463,12 +2655,151 @@ export const productionEvents = pgTable("production_events", {
   productionJobId: varchar("production_job_id").notNull().references(() => productionJobs.id, { onDelete: 'cascade' }),
   type: varchar("type", { length: 40 }).notNull(),
   payload: jsonb("payload").$type<Record<string, any>>().default(sql`'{}'::jsonb`).notNull(),
+  // Who worked the job: the signed-in user in the app, the badge/PIN operator at the kiosk
+  operatorUserId: varchar("operator_user_id").references(() => users.id, { onDelete: 'set null' }),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
   index("production_events_org_job_created_idx").on(table.organizationId, table.productionJobId, table.createdAt),
   index("production_events_org_type_created_idx").on(table.organizationId, table.type, table.createdAt),
+  index("production_events_org_operator_created_idx").on(table.organizationId, table.operatorUserId, table.createdAt),
 ]);
 
+// Routing template: ordered operations a product goes through (see shared/productionRouting.ts)
+export const productionRoutings = pgTable("production_routings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  name: varchar("name", { length: 120 }).notNull(),
+  description: text("description"),
+  operations: jsonb("operations").$type<RoutingOperation[]>().notNull().default(sql`'[]'::jsonb`),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("production_routings_org_idx").on(table.organizationId),
+]);
+
+// One routing operation instantiated for a job; the job is at the first one not done or skipped
+export const productionJobOperations = pgTable("production_job_operations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  productionJobId: varchar("production_job_id").notNull().references(() => productionJobs.id, { onDelete: 'cascade' }),
+  routingId: varchar("routing_id").references(() => productionRoutings.id, { onDelete: 'set null' }),
+  sequence: integer("sequence").notNull(),
+  operationKey: varchar("operation_key", { length: 40 }).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  stationKey: varchar("station_key", { length: 40 }).notNull(),
+  setupMinutes: integer("setup_minutes"),
+  runRate: decimal("run_rate", { precision: 10, scale: 2 }),
+  runRateUnit: productionThroughputUnitEnum("run_rate_unit").notNull().default("sqft_per_hour"),
+  status: varchar("status", { length: 20 }).$type<JobOperationStatus>().notNull().default("queued"),
+  startedAt: timestamp("started_at", { withTimezone: true }),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  // Timer seconds logged on the job while this operation was current
+  totalSeconds: integer("total_seconds").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("production_job_operations_job_sequence_idx").on(table.productionJobId, table.sequence),
+  index("production_job_operations_org_station_status_idx").on(table.organizationId, table.stationKey, table.status),
+]);
+
+// Machine-hour cost of time worked at a station, for job costing (shared/jobCosting.ts)
+export const productionStationRates = pgTable("production_station_rates", {
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  stationKey: varchar("station_key", { length: 40 }).notNull(),
+  machineRatePerHour: decimal("machine_rate_per_hour", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.organizationId, table.stationKey] }),
+]);
+
+// Who worked a job, where and for how long: one row per timer run, plus manual corrections.
+// Rates are snapshotted when the entry is recorded.
+export const productionTimeEntries = pgTable("production_time_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  productionJobId: varchar("production_job_id").notNull().references(() => productionJobs.id, { onDelete: 'cascade' }),
+  jobOperationId: varchar("job_operation_id").references(() => productionJobOperations.id, { onDelete: 'set null' }),
+  operatorUserId: varchar("operator_user_id").references(() => users.id, { onDelete: 'set null' }),
+  stationKey: varchar("station_key", { length: 40 }).notNull(),
+  machineId: varchar("machine_id").references(() => productionMachines.id, { onDelete: 'set null' }),
+  startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
+  endedAt: timestamp("ended_at", { withTimezone: true }).notNull(),
+  seconds: integer("seconds").notNull(),
+  laborRatePerHour: decimal("labor_rate_per_hour", { precision: 10, scale: 2 }),
+  machineRatePerHour: decimal("machine_rate_per_hour", { precision: 10, scale: 2 }),
+  source: varchar("source", { length: 20 }).$type<"timer" | "manual">().notNull().default("timer"),
+  note: text("note"),
+  createdByUserId: varchar("created_by_user_id").references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("production_time_entries_org_job_idx").on(table.organizationId, table.productionJobId),
+  index("production_time_entries_org_operator_started_idx").on(table.organizationId, table.operatorUserId, table.startedAt),
+]);
+
+const routingOperationSchema = z.object({
+  key: z.string().trim().min(1).max(40),
+  name: z.string().trim().min(1).max(100),
+  stationKey: z.string().trim().min(1).max(40),
+  setupMinutes: z.coerce.number().int().min(0).max(24 * 60).nullable().default(null),
+  runRate: z.coerce.number().positive().nullable().default(null),
+  runRateUnit: z.enum(MACHINE_THROUGHPUT_UNITS).default("sqft_per_hour"),
+  condition: z
+    .object({
+      optionId: z.string().trim().min(1),
+      values: z.array(z.string().trim().min(1)).max(50).default([]),
+    })
+    .nullable()
+    .default(null),
+});
+
+export const insertProductionRoutingSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  description: z.string().trim().max(2000).optional().nullable(),
+  operations: z
+    .array(routingOperationSchema)
+    .min(1, "Add at least one operation")
+    .max(30)
+    .refine((ops) => new Set(ops.map((op) => op.key)).size === ops.length, "Operation keys must be unique"),
+  isActive: z.boolean().default(true),
+  // Products and product types that use this routing (replaces the current assignment)
+  productIds: z.array(z.string().min(1)).max(500).optional(),
+  productTypeIds: z.array(z.string().min(1)).max(100).optional(),
+});
+
+export const updateProductionRoutingSchema = insertProductionRoutingSchema.partial();
+
+export type InsertProductionRouting = z.infer<typeof insertProductionRoutingSchema>;
+export type UpdateProductionRouting = z.infer<typeof updateProductionRoutingSchema>;
+export type ProductionRouting = typeof productionRoutings.$inferSelect;
+export type ProductionJobOperation = typeof productionJobOperations.$inferSelect;
+
+export const productionStationRateSchema = z.object({
+  machineRatePerHour: z.coerce.number().min(0).max(100000),
+});
+
+export const productionLaborRateSchema = z.object({
+  laborRatePerHour: z.coerce.number().min(0).max(100000).nullable(),
+});
+
+// Manual time entry (corrections, work done off the timer)
+export const insertProductionTimeEntrySchema = z.object({
+  operatorUserId: z.string().min(1),
+  stationKey: z.string().trim().min(1).max(40).optional(),
+  startedAt: z.coerce.date(),
+  minutes: z.coerce.number().int().min(1).max(24 * 60),
+  note: z.string().trim().max(500).optional().nullable(),
+});
+
+export const updateProductionTimeEntrySchema = insertProductionTimeEntrySchema.partial();
+
+export type InsertProductionTimeEntry = z.infer<typeof insertProductionTimeEntrySchema>;
+export type UpdateProductionTimeEntry = z.infer<typeof updateProductionTimeEntrySchema>;
+export type ProductionTimeEntry = typeof productionTimeEntries.$inferSelect;
+export type ProductionStationRate = typeof productionStationRates.$inferSelect;
+
 export type ProductionJob = typeof productionJobs.$inferSelect;
 export type InsertProductionJob = typeof productionJobs.$inferInsert;
 export type ProductionEvent = typeof productionEvents.$inferSelect;
@@ -2498,11 +2829,13 @@ export const invoices = pgTable("invoices", {
   dueDate: timestamp("due_date", { withTimezone: true }),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull().default('0'),
   tax: decimal("tax", { precision: 10, scale: 2 }).notNull().default('0'),
+  discount: decimal("discount", { precision: 10, scale: 2 }).notNull().default('0'), // Promotion discounts carried from the order
   total: decimal("total", { precision: 10, scale: 2 }).notNull().default('0'),
   // Cents snapshot fields (MVP)
   subtotalCents: integer("subtotal_cents").notNull().default(0),
   taxCents: integer("tax_cents").notNull().default(0),
   shippingCents: integer("shipping_cents").notNull().default(0),
+  discountCents: integer("discount_cents").notNull().default(0),
   totalCents: integer("total_cents").notNull().default(0),
   currency: varchar("currency", { length: 8 }).notNull().default('USD'),
   amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).notNull().default('0'),
@@ -2646,6 +2979,105 @@ export type InsertInvoiceLineItem = z.infer<typeof insertInvoiceLineItemSchema>;
 export type UpdateInvoiceLineItem = z.infer<typeof updateInvoiceLineItemSchema>;
 export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
 
+// Promotions / coupon codes. Eligibility and discount math live in shared/promotions.ts.
+export const promotionDiscountTypeEnum = pgEnum("promotion_discount_type", PROMOTION_DISCOUNT_TYPES);
+
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  code: varchar("code", { length: 50 }).notNull(), // stored upper-case
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+
+  // PERCENT_OFF: percent of the eligible subtotal; AMOUNT_OFF: dollars; FREE_OPTION: waives optionName charges.
+  discountType: promotionDiscountTypeEnum("discount_type").notNull(),
+  discountValue: decimal("discount_value", { precision: 12, scale: 4 }).notNull().default("0"),
+  optionName: varchar("option_name", { length: 255 }),
+
+  // Eligibility (empty arrays = no restriction)
+  productTypeIds: jsonb("product_type_ids").$type<string[]>().default(sql`'[]'::jsonb`).notNull(),
+  customerTiers: jsonb("customer_tiers").$type<string[]>().default(sql`'[]'::jsonb`).notNull(),
+  minSubtotal: decimal("min_subtotal", { precision: 10, scale: 2 }),
+  minQuantity: integer("min_quantity"),
+  startsAt: timestamp("starts_at", { withTimezone: true }),
+  endsAt: timestamp("ends_at", { withTimezone: true }),
+  maxRedemptions: integer("max_redemptions"),
+  maxRedemptionsPerCustomer: integer("max_redemptions_per_customer"),
+  isActive: boolean("is_active").notNull().default(true),
+
+  createdByUserId: varchar("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  updatedByUserId: varchar("updated_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("promotions_org_id_idx").on(table.organizationId),
+  uniqueIndex("promotions_org_code_uidx").on(table.organizationId, table.code),
+]);
+
+const promotionFieldsSchema = z.object({
+  code: z.string().trim().toUpperCase().regex(PROMOTION_CODE_PATTERN, "Code must be 2-50 letters, numbers, dashes or underscores"),
+  name: z.string().trim().min(1),
+  description: z.string().optional().nullable(),
+  discountType: z.enum(PROMOTION_DISCOUNT_TYPES),
+  discountValue: z.coerce.number().nonnegative().default(0),
+  optionName: z.string().trim().optional().nullable(),
+  productTypeIds: z.array(z.string()).default([]),
+  customerTiers: z.array(z.enum(["default", "wholesale", "retail"])).default([]),
+  minSubtotal: z.coerce.number().nonnegative().optional().nullable(),
+  minQuantity: z.coerce.number().int().positive().optional().nullable(),
+  startsAt: z.coerce.date().optional().nullable(),
+  endsAt: z.coerce.date().optional().nullable(),
+  maxRedemptions: z.coerce.number().int().positive().optional().nullable(),
+  maxRedemptionsPerCustomer: z.coerce.number().int().positive().optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+function refinePromotion(value: Partial<z.infer<typeof promotionFieldsSchema>>, ctx: z.RefinementCtx) {
+  if (value.discountType === "PERCENT_OFF" && value.discountValue != null && value.discountValue > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["discountValue"], message: "Percent off cannot exceed 100" });
+  }
+  if (value.discountType === "FREE_OPTION" && !value.optionName) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["optionName"], message: "Option name is required for free option promotions" });
+  }
+  if (value.startsAt && value.endsAt && value.endsAt <= value.startsAt) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endsAt"], message: "End must be after start" });
+  }
+}
+
+export const insertPromotionSchema = promotionFieldsSchema.superRefine(refinePromotion);
+export const updatePromotionSchema = promotionFieldsSchema.partial().superRefine(refinePromotion);
+
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type UpdatePromotion = z.infer<typeof updatePromotionSchema>;
+export type Promotion = typeof promotions.$inferSelect;
+
+// Discount lines - explicit discounts attached to a quote, then copied onto the order and invoice.
+// Exactly one of quoteId / orderId / invoiceId is set per row.
+export const discountLines = pgTable("discount_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id")
+    .notNull()
+    .references(() => organizations.id, { onDelete: "cascade" }),
+  quoteId: varchar("quote_id").references(() => quotes.id, { onDelete: "cascade" }),
+  orderId: varchar("order_id").references(() => orders.id, { onDelete: "cascade" }),
+  invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "cascade" }),
+  promotionId: varchar("promotion_id").references(() => promotions.id, { onDelete: "set null" }),
+  code: varchar("code", { length: 50 }),
+  description: text("description").notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("discount_lines_quote_id_idx").on(table.quoteId),
+  index("discount_lines_order_id_idx").on(table.orderId),
+  index("discount_lines_invoice_id_idx").on(table.invoiceId),
+  index("discount_lines_promotion_id_idx").on(table.promotionId),
+]);
+
+export type DiscountLine = typeof discountLines.$inferSelect;
+
 // Payments table (applied to invoices)
 export const payments = pgTable("payments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -2933,6 +3365,10 @@ export const orderAttachments = pgTable("order_attachments", {
   side: fileSideEnum("side").default('na'), // front, back, or n/a
   isPrimary: boolean("is_primary").default(false).notNull(), // Primary artwork for this side/role
   thumbnailUrl: text("thumbnail_url"), // Optional thumbnail for quick preview (legacy GCS)
+  // Automatic preflight of line item artwork (migration 0046); summary outlives the prepress job TTL
+  prepressJobId: varchar("prepress_job_id"),
+  prepressStatus: varchar("prepress_status", { length: 20 }).$type<AttachmentPrepressStatus>(), // queued, succeeded, failed
+  prepressSummary: jsonb("prepress_summary").$type<AttachmentPrepressSummary>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => [
@@ -2941,11 +3377,24 @@ export const orderAttachments = pgTable("order_attachments", {
   index("order_attachments_quote_id_idx").on(table.quoteId),
   index("order_attachments_role_idx").on(table.role),
   index("order_attachments_thumb_status_idx").on(table.thumbStatus),
+  index("order_attachments_prepress_job_id_idx").on(table.prepressJobId),
 ]);
 
+export type AttachmentPrepressStatus = 'queued' | 'succeeded' | 'failed';
+
+export type AttachmentPrepressSummary = {
+  score: number;
+  counts: { BLOCKER: number; WARNING: number; INFO: number };
+  pageCount: number;
+};
+
 export const insertOrderAttachmentSchema = createInsertSchema(orderAttachments).omit({
   id: true,
   createdAt: true,
+  // Written by automatic preflight only
+  prepressJobId: true,
+  prepressStatus: true,
+  prepressSummary: true,
 }).extend({
   role: z.enum(['artwork', 'proof', 'reference', 'customer_po', 'setup', 'output', 'other']).default('other'),
   side: z.enum(['front', 'back', 'na']).default('na'),
@@ -2963,6 +3412,190 @@ export type InsertOrderAttachment = z.infer<typeof insertOrderAttachmentSchema>;
 export type UpdateOrderAttachment = z.infer<typeof updateOrderAttachmentSchema>;
 export type OrderAttachment = typeof orderAttachments.$inferSelect;
 
+// Proof versions - customer proof approval per order line item (migration 0047).
+// Each send creates a new version; the customer reviews it on a tokenized page.
+// Production jobs for the line can't start until the latest version is approved.
+export const proofStatusEnum = pgEnum("proof_status", ["pending", "approved", "changes_requested", "superseded"]);
+
+export const proofVersions = pgTable("proof_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  orderLineItemId: varchar("order_line_item_id").notNull().references(() => orderLineItems.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  status: proofStatusEnum("status").notNull().default("pending"),
+
+  // Proof file (an order attachment with role 'proof'); file name is a snapshot
+  orderAttachmentId: varchar("order_attachment_id").references(() => orderAttachments.id, { onDelete: "set null" }),
+  fileName: varchar("file_name", { length: 500 }).notNull(),
+  message: text("message"), // Note shown to the customer
+
+  // Review link: only the SHA256 hash of the token is stored
+  tokenHash: text("token_hash").notNull(),
+  tokenExpiresAt: timestamp("token_expires_at", { withTimezone: true }).notNull(),
+  recipientEmail: varchar("recipient_email", { length: 255 }),
+  sentAt: timestamp("sent_at", { withTimezone: true }),
+
+  // Customer decision (signer as typed on the proof page)
+  decidedAt: timestamp("decided_at", { withTimezone: true }),
+  signerName: varchar("signer_name", { length: 255 }),
+  signerIp: varchar("signer_ip", { length: 64 }),
+  signerUserAgent: text("signer_user_agent"),
+
+  createdByUserId: varchar("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  createdByName: varchar("created_by_name", { length: 255 }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("proof_versions_org_id_idx").on(table.organizationId),
+  index("proof_versions_order_id_idx").on(table.orderId),
+  uniqueIndex("proof_versions_line_item_version_unique").on(table.orderLineItemId, table.version),
+  uniqueIndex("proof_versions_token_hash_unique").on(table.tokenHash),
+]);
+
+// Approval audit trail: every send, view and decision with actor, IP and time
+export const proofEvents = pgTable("proof_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  proofVersionId: varchar("proof_version_id").notNull().references(() => proofVersions.id, { onDelete: "cascade" }),
+  type: varchar("type", { length: 40 }).notNull(), // created, sent, viewed, approved, changes_requested, superseded
+  actorType: varchar("actor_type", { length: 20 }).notNull(), // staff, customer
+  actorName: varchar("actor_name", { length: 255 }),
+  ip: varchar("ip", { length: 64 }),
+  userAgent: text("user_agent"),
+  payload: jsonb("payload").$type<Record<string, any>>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("proof_events_proof_version_id_idx").on(table.proofVersionId, table.createdAt),
+]);
+
+export type ProofAnnotation = {
+  page: number; // 1-based
+  x: number; // normalized 0..1, top-left origin
+  y: number;
+  w: number;
+  h: number;
+};
+
+// Customer comments on a proof, optionally pinned to a region of a page
+export const proofComments = pgTable("proof_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  proofVersionId: varchar("proof_version_id").notNull().references(() => proofVersions.id, { onDelete: "cascade" }),
+  authorType: varchar("author_type", { length: 20 }).notNull(), // staff, customer
+  authorName: varchar("author_name", { length: 255 }),
+  body: text("body").notNull(),
+  annotation: jsonb("annotation").$type<ProofAnnotation>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("proof_comments_proof_version_id_idx").on(table.proofVersionId),
+]);
+
+const proofAnnotationSchema = z.object({
+  page: z.number().int().positive(),
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  w: z.number().min(0).max(1),
+  h: z.number().min(0).max(1),
+});
+
+export const createProofVersionSchema = z.object({
+  orderAttachmentId: z.string().min(1),
+  recipientEmail: z.string().email().optional().nullable(),
+  message: z.string().max(5000).optional().nullable(),
+});
+
+export const proofDecisionSchema = z.object({
+  decision: z.enum(["approve", "request_changes"]),
+  signerName: z.string().trim().min(1).max(255),
+  comments: z.array(z.object({
+    body: z.string().trim().min(1).max(5000),
+    annotation: proofAnnotationSchema.optional().nullable(),
+  })).max(100).default([]),
+}).refine((d) => d.decision === "approve" || d.comments.length > 0, {
+  message: "Describe the changes you need",
+  path: ["comments"],
+});
+
+export type CreateProofVersion = z.infer<typeof createProofVersionSchema>;
+export type ProofDecision = z.infer<typeof proofDecisionSchema>;
+export type ProofVersion = typeof proofVersions.$inferSelect;
+export type ProofEvent = typeof proofEvents.$inferSelect;
+export type ProofComment = typeof proofComments.$inferSelect;
+
+// Attachment annotations - staff markup on a page of an attachment or asset (migration 0048).
+// Geometry is normalized 0..1 against the page preview (top-left origin). Each annotation
+// carries a comment thread; customer-visible annotations show on the proof page.
+export const annotationTargetTypeEnum = pgEnum("annotation_target_type", ["order_attachment", "quote_attachment", "asset"]);
+export const annotationKindEnum = pgEnum("annotation_kind", ["pin", "rect", "freehand"]);
+
+export type AttachmentAnnotationGeometry =
+  | { x: number; y: number } // pin
+  | { x: number; y: number; w: number; h: number } // rect
+  | { points: Array<[number, number]> }; // freehand
+
+export const attachmentAnnotations = pgTable("attachment_annotations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  targetType: annotationTargetTypeEnum("target_type").notNull(),
+  targetId: varchar("target_id").notNull(), // Polymorphic (like asset_links.parent_id)
+  pageIndex: integer("page_index").notNull().default(0), // 0-based
+  kind: annotationKindEnum("kind").notNull(),
+  geometry: jsonb("geometry").$type<AttachmentAnnotationGeometry>().notNull(),
+  color: varchar("color", { length: 20 }).notNull().default("#ef4444"),
+  visibleToCustomer: boolean("visible_to_customer").notNull().default(false),
+  resolvedAt: timestamp("resolved_at", { withTimezone: true }),
+  createdByUserId: varchar("created_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  createdByName: varchar("created_by_name", { length: 255 }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("attachment_annotations_target_idx").on(table.organizationId, table.targetType, table.targetId),
+]);
+
+export const attachmentAnnotationComments = pgTable("attachment_annotation_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  organizationId: varchar("organization_id").notNull().references(() => organizations.id, { onDelete: "cascade" }),
+  annotationId: varchar("annotation_id").notNull().references(() => attachmentAnnotations.id, { onDelete: "cascade" }),
+  authorUserId: varchar("author_user_id").references(() => users.id, { onDelete: "set null" }),
+  authorName: varchar("author_name", { length: 255 }),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("attachment_annotation_comments_annotation_id_idx").on(table.annotationId, table.createdAt),
+]);
+
+const normalizedCoord = z.number().min(0).max(1);
+
+const annotationShapeSchema = z.discriminatedUnion("kind", [
+  z.object({ kind: z.literal("pin"), geometry: z.object({ x: normalizedCoord, y: normalizedCoord }) }),
+  z.object({ kind: z.literal("rect"), geometry: z.object({ x: normalizedCoord, y: normalizedCoord, w: normalizedCoord, h: normalizedCoord }) }),
+  z.object({ kind: z.literal("freehand"), geometry: z.object({ points: z.array(z.tuple([normalizedCoord, normalizedCoord])).min(2).max(2000) }) }),
+]);
+
+export const createAttachmentAnnotationSchema = annotationShapeSchema.and(z.object({
+  pageIndex: z.number().int().min(0).default(0),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+  visibleToCustomer: z.boolean().optional(),
+  body: z.string().trim().min(1).max(5000), // Opens the comment thread
+}));
+
+export const updateAttachmentAnnotationSchema = z.object({
+  visibleToCustomer: z.boolean().optional(),
+  resolved: z.boolean().optional(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).optional(),
+});
+
+export const createAnnotationCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+export type AnnotationTargetType = (typeof annotationTargetTypeEnum.enumValues)[number];
+export type CreateAttachmentAnnotation = z.infer<typeof createAttachmentAnnotationSchema>;
+export type UpdateAttachmentAnnotation = z.infer<typeof updateAttachmentAnnotationSchema>;
+export type AttachmentAnnotation = typeof attachmentAnnotations.$inferSelect;
+export type AttachmentAnnotationComment = typeof attachmentAnnotationComments.$inferSelect;
+
 // Job Files table - links files to production jobs
 export const jobFiles = pgTable("job_files", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -3956,6 +4589,7 @@ export {
   prepressJobs,
   prepressFindings,
   prepressFixLogs,
+  prepressProfiles,
   prepressJobStatusEnum,
   prepressJobModeEnum,
   prepressFindingTypeEnum,
@@ -3968,6 +4602,17 @@ export {
   prepressReportSummarySchema,
   prepressOutputManifestSchema,
   prepressErrorSchema,
+  prepressProfileRulesSchema,
+  insertPrepressProfileSchema,
+  updatePrepressProfileSchema,
+  PREFLIGHT_COLOR_SPACES,
+  PREPRESS_FIX_KEYS,
+  type PrepressFixKey,
+  type PreflightColorSpace,
+  type PrepressProfileRules,
+  type PrepressProfile,
+  type InsertPrepressProfile,
+  type UpdatePrepressProfile,
   type PrepressJob,
   type InsertPrepressJob,
   type PrepressJobStatus,
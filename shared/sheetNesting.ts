@@ -0,0 +1,399 @@
+/**
+ * Mixed-size sheet nesting ("gang sheets").
+ *
+ * Packs pieces from several line items onto fixed-size sheets of one material. Two modes:
+ * - `guillotine`: every cut runs edge to edge (panel saw / flatbed cutter friendly).
+ * - `free_rect`: MaxRects best-short-side-fit; denser, but cuts may not be through-cuts.
+ *
+ * All dimensions are inches. Placements describe the trim box; each piece also occupies
+ * `bleedIn` on every side and keeps `gutterIn` clear to its neighbours. `marginIn` is the
+ * unprintable border at the sheet edge. Pure so the server plan and any preview agree.
+ */
+
+export const SHEET_NESTING_MODES = ["guillotine", "free_rect"] as const;
+export type SheetNestingMode = (typeof SHEET_NESTING_MODES)[number];
+
+/** Hard cap on expanded piece count so one request cannot pin the CPU. */
+export const SHEET_NESTING_MAX_PIECES = 5000;
+
+export type SheetNestingItem = {
+  id: string;
+  label?: string | null;
+  widthIn: number;
+  heightIn: number;
+  quantity: number;
+  /** Per-item override (e.g. directional grain); defaults to the plan-level setting. */
+  allowRotation?: boolean;
+};
+
+export type SheetNestingOptions = {
+  sheetWidthIn: number;
+  sheetHeightIn: number;
+  mode?: SheetNestingMode;
+  allowRotation?: boolean;
+  gutterIn?: number;
+  bleedIn?: number;
+  marginIn?: number;
+};
+
+export type SheetNestingPlacement = {
+  itemId: string;
+  label: string;
+  /** 1-based copy number within the item. */
+  copy: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotated: boolean;
+};
+
+export type SheetNestingSheet = {
+  index: number;
+  placements: SheetNestingPlacement[];
+  usedAreaSqIn: number;
+  yieldPercent: number;
+};
+
+export type SheetNestingItemSummary = {
+  itemId: string;
+  label: string;
+  quantity: number;
+  placed: number;
+  unplaced: number;
+  /** 0-based sheet indexes this item appears on. */
+  sheetIndexes: number[];
+};
+
+export type SheetNestingPlan = {
+  mode: SheetNestingMode;
+  sheetWidthIn: number;
+  sheetHeightIn: number;
+  gutterIn: number;
+  bleedIn: number;
+  marginIn: number;
+  allowRotation: boolean;
+  sheets: SheetNestingSheet[];
+  items: SheetNestingItemSummary[];
+  totalSheets: number;
+  totalPieces: number;
+  placedPieces: number;
+  /** Trim area of placed pieces over total sheet area, 0-100. */
+  yieldPercent: number;
+  warnings: string[];
+};
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+type Piece = {
+  itemId: string;
+  label: string;
+  copy: number;
+  width: number;
+  height: number;
+  allowRotation: boolean;
+};
+
+type Fit = { freeIndex: number; rotated: boolean; score1: number; score2: number };
+
+const EPSILON = 1e-6;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function nonNegative(value: number | undefined, fallback = 0): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function fitsIn(width: number, height: number, rect: Rect): boolean {
+  return width <= rect.width + EPSILON && height <= rect.height + EPSILON;
+}
+
+function containsRect(outer: Rect, inner: Rect): boolean {
+  return (
+    inner.x >= outer.x - EPSILON &&
+    inner.y >= outer.y - EPSILON &&
+    inner.x + inner.width <= outer.x + outer.width + EPSILON &&
+    inner.y + inner.height <= outer.y + outer.height + EPSILON
+  );
+}
+
+/** One sheet's free space. Footprints include bleed on both sides plus one gutter. */
+class SheetBin {
+  readonly placements: SheetNestingPlacement[] = [];
+  private freeRects: Rect[];
+
+  constructor(
+    private readonly mode: SheetNestingMode,
+    area: Rect,
+  ) {
+    this.freeRects = [area];
+  }
+
+  findFit(width: number, height: number, allowRotation: boolean): Fit | null {
+    let best: Fit | null = null;
+    const orientations: Array<[number, number, boolean]> = [[width, height, false]];
+    if (allowRotation && Math.abs(width - height) > EPSILON) orientations.push([height, width, true]);
+
+    this.freeRects.forEach((rect, freeIndex) => {
+      for (const [w, h, rotated] of orientations) {
+        if (!fitsIn(w, h, rect)) continue;
+        const leftoverW = rect.width - w;
+        const leftoverH = rect.height - h;
+        // guillotine: best area fit; free_rect: best short side fit. Ties fall to the other axis.
+        const score1 = this.mode === "guillotine" ? rect.width * rect.height - w * h : Math.min(leftoverW, leftoverH);
+        const score2 = this.mode === "guillotine" ? Math.min(leftoverW, leftoverH) : Math.max(leftoverW, leftoverH);
+        if (
+          !best ||
+          score1 < best.score1 - EPSILON ||
+          (Math.abs(score1 - best.score1) <= EPSILON && score2 < best.score2 - EPSILON)
+        ) {
+          best = { freeIndex, rotated, score1, score2 };
+        }
+      }
+    });
+    return best;
+  }
+
+  place(fit: Fit, footprintW: number, footprintH: number): Rect {
+    const rect = this.freeRects[fit.freeIndex];
+    const used: Rect = { x: rect.x, y: rect.y, width: footprintW, height: footprintH };
+    if (this.mode === "guillotine") {
+      this.splitGuillotine(fit.freeIndex, used);
+    } else {
+      this.splitMaxRects(used);
+    }
+    return used;
+  }
+
+  /** Split along the shorter leftover axis so the larger remainder stays whole. */
+  private splitGuillotine(freeIndex: number, used: Rect) {
+    const rect = this.freeRects[freeIndex];
+    this.freeRects.splice(freeIndex, 1);
+    const leftoverW = rect.width - used.width;
+    const leftoverH = rect.height - used.height;
+
+    let right: Rect;
+    let bottom: Rect;
+    if (leftoverW < leftoverH) {
+      right = { x: rect.x + used.width, y: rect.y, width: leftoverW, height: used.height };
+      bottom = { x: rect.x, y: rect.y + used.height, width: rect.width, height: leftoverH };
+    } else {
+      right = { x: rect.x + used.width, y: rect.y, width: leftoverW, height: rect.height };
+      bottom = { x: rect.x, y: rect.y + used.height, width: used.width, height: leftoverH };
+    }
+    for (const candidate of [right, bottom]) {
+      if (candidate.width > EPSILON && candidate.height > EPSILON) this.freeRects.push(candidate);
+    }
+  }
+
+  private splitMaxRects(used: Rect) {
+    const next: Rect[] = [];
+    for (const rect of this.freeRects) {
+      const overlaps =
+        used.x < rect.x + rect.width - EPSILON &&
+        used.x + used.width > rect.x + EPSILON &&
+        used.y < rect.y + rect.height - EPSILON &&
+        used.y + used.height > rect.y + EPSILON;
+      if (!overlaps) {
+        next.push(rect);
+        continue;
+      }
+      if (used.x > rect.x + EPSILON) {
+        next.push({ x: rect.x, y: rect.y, width: used.x - rect.x, height: rect.height });
+      }
+      if (used.x + used.width < rect.x + rect.width - EPSILON) {
+        next.push({
+          x: used.x + used.width,
+          y: rect.y,
+          width: rect.x + rect.width - (used.x + used.width),
+          height: rect.height,
+        });
+      }
+      if (used.y > rect.y + EPSILON) {
+        next.push({ x: rect.x, y: rect.y, width: rect.width, height: used.y - rect.y });
+      }
+      if (used.y + used.height < rect.y + rect.height - EPSILON) {
+        next.push({
+          x: rect.x,
+          y: used.y + used.height,
+          width: rect.width,
+          height: rect.y + rect.height - (used.y + used.height),
+        });
+      }
+    }
+    // Drop free rects fully covered by another one
+    this.freeRects = next.filter(
+      (rect, i) => !next.some((other, j) => j !== i && containsRect(other, rect) && (j < i || !containsRect(rect, other))),
+    );
+  }
+}
+
+/**
+ * Nest every copy of every item onto as few sheets as possible.
+ *
+ * Pieces are placed largest-first (longest side, then area) into the first open sheet they
+ * fit, opening a new sheet when none do. Pieces that cannot fit an empty sheet in any allowed
+ * orientation are reported as unplaced rather than failing the whole plan.
+ */
+export function planSheetNesting(items: readonly SheetNestingItem[], options: SheetNestingOptions): SheetNestingPlan {
+  const mode = options.mode ?? "free_rect";
+  const allowRotation = options.allowRotation ?? true;
+  const gutterIn = nonNegative(options.gutterIn);
+  const bleedIn = nonNegative(options.bleedIn);
+  const marginIn = nonNegative(options.marginIn);
+  const sheetWidthIn = nonNegative(options.sheetWidthIn);
+  const sheetHeightIn = nonNegative(options.sheetHeightIn);
+
+  if (!sheetWidthIn || !sheetHeightIn) {
+    throw new Error("Sheet width and height must be greater than zero");
+  }
+  if (!SHEET_NESTING_MODES.includes(mode)) {
+    throw new Error(`Unknown nesting mode: ${mode}`);
+  }
+
+  const requestedPieces = items.reduce((sum, item) => sum + Math.floor(nonNegative(item.quantity)), 0);
+  if (requestedPieces > SHEET_NESTING_MAX_PIECES) {
+    throw new Error(`Too many pieces to nest (${requestedPieces}); the limit is ${SHEET_NESTING_MAX_PIECES}`);
+  }
+
+  const warnings: string[] = [];
+  const pieces: Piece[] = [];
+  for (const item of items) {
+    const label = item.label?.trim() || item.id;
+    const quantity = Math.floor(nonNegative(item.quantity));
+    if (!nonNegative(item.widthIn) || !nonNegative(item.heightIn)) {
+      warnings.push(`${label}: missing width/height, skipped`);
+      continue;
+    }
+    for (let copy = 1; copy <= quantity; copy++) {
+      pieces.push({
+        itemId: item.id,
+        label,
+        copy,
+        width: item.widthIn,
+        height: item.heightIn,
+        allowRotation: item.allowRotation ?? allowRotation,
+      });
+    }
+  }
+  pieces.sort((a, b) => {
+    const side = Math.max(b.width, b.height) - Math.max(a.width, a.height);
+    if (Math.abs(side) > EPSILON) return side;
+    const area = b.width * b.height - a.width * a.height;
+    if (Math.abs(area) > EPSILON) return area;
+    return a.itemId === b.itemId ? a.copy - b.copy : a.itemId.localeCompare(b.itemId);
+  });
+
+  // The trailing gutter of the last piece in a row may run into the margin.
+  const usableArea: Rect = {
+    x: marginIn,
+    y: marginIn,
+    width: sheetWidthIn - 2 * marginIn + gutterIn,
+    height: sheetHeightIn - 2 * marginIn + gutterIn,
+  };
+  const padding = 2 * bleedIn + gutterIn;
+
+  const bins: SheetBin[] = [];
+  const unplacedByItem = new Map<string, number>();
+
+  for (const piece of pieces) {
+    const footprintW = piece.width + padding;
+    const footprintH = piece.height + padding;
+    let placed = false;
+
+    for (const bin of bins) {
+      const fit = bin.findFit(footprintW, footprintH, piece.allowRotation);
+      if (fit) {
+        commit(bin, fit, piece, footprintW, footprintH);
+        placed = true;
+        break;
+      }
+    }
+
+    if (!placed) {
+      const bin = new SheetBin(mode, { ...usableArea });
+      const fit = bin.findFit(footprintW, footprintH, piece.allowRotation);
+      if (fit) {
+        bins.push(bin);
+        commit(bin, fit, piece, footprintW, footprintH);
+      } else {
+        unplacedByItem.set(piece.itemId, (unplacedByItem.get(piece.itemId) ?? 0) + 1);
+      }
+    }
+  }
+
+  function commit(bin: SheetBin, fit: Fit, piece: Piece, footprintW: number, footprintH: number) {
+    const w = fit.rotated ? footprintH : footprintW;
+    const h = fit.rotated ? footprintW : footprintH;
+    const used = bin.place(fit, w, h);
+    bin.placements.push({
+      itemId: piece.itemId,
+      label: piece.label,
+      copy: piece.copy,
+      x: round2(used.x + bleedIn),
+      y: round2(used.y + bleedIn),
+      width: fit.rotated ? piece.height : piece.width,
+      height: fit.rotated ? piece.width : piece.height,
+      rotated: fit.rotated,
+    });
+  }
+
+  const sheetArea = sheetWidthIn * sheetHeightIn;
+  const sheets: SheetNestingSheet[] = bins.map((bin, index) => {
+    const usedAreaSqIn = bin.placements.reduce((sum, p) => sum + p.width * p.height, 0);
+    return {
+      index,
+      placements: bin.placements,
+      usedAreaSqIn: round2(usedAreaSqIn),
+      yieldPercent: round2((usedAreaSqIn / sheetArea) * 100),
+    };
+  });
+
+  const summaries = new Map<string, SheetNestingItemSummary>();
+  for (const item of items) {
+    if (summaries.has(item.id)) continue;
+    summaries.set(item.id, {
+      itemId: item.id,
+      label: item.label?.trim() || item.id,
+      quantity: 0,
+      placed: 0,
+      unplaced: unplacedByItem.get(item.id) ?? 0,
+      sheetIndexes: [],
+    });
+  }
+  for (const item of items) {
+    summaries.get(item.id)!.quantity += Math.floor(nonNegative(item.quantity));
+  }
+  for (const sheet of sheets) {
+    for (const placement of sheet.placements) {
+      const summary = summaries.get(placement.itemId)!;
+      summary.placed += 1;
+      if (!summary.sheetIndexes.includes(sheet.index)) summary.sheetIndexes.push(sheet.index);
+    }
+  }
+  Array.from(summaries.values()).forEach((summary) => {
+    if (summary.unplaced > 0) warnings.push(`${summary.label}: ${summary.unplaced} piece(s) do not fit the sheet`);
+  });
+
+  const placedPieces = sheets.reduce((sum, s) => sum + s.placements.length, 0);
+  const totalUsed = sheets.reduce((sum, s) => sum + s.usedAreaSqIn, 0);
+
+  return {
+    mode,
+    sheetWidthIn,
+    sheetHeightIn,
+    gutterIn,
+    bleedIn,
+    marginIn,
+    allowRotation,
+    sheets,
+    items: Array.from(summaries.values()),
+    totalSheets: sheets.length,
+    totalPieces: pieces.length,
+    placedPieces,
+    yieldPercent: sheets.length > 0 ? round2((totalUsed / (sheetArea * sheets.length)) * 100) : 0,
+    warnings,
+  };
+}
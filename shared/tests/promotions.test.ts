@@ -0,0 +1,70 @@
+import { describe, expect, test } from "@jest/globals";
+import { evaluatePromotion, normalizePromotionCode, type PromotionDefinition, type PromotionContext } from "../promotions";
+
+const AT = new Date("2026-03-10T12:00:00Z");
+
+function promo(overrides: Partial<PromotionDefinition> = {}): PromotionDefinition {
+  return {
+    code: "SIGNS10",
+    name: "10% off yard signs",
+    discountType: "PERCENT_OFF",
+    discountValue: "10",
+    isActive: true,
+    ...overrides,
+  };
+}
+
+function context(overrides: Partial<PromotionContext> = {}): PromotionContext {
+  return {
+    lines: [
+      { productTypeId: "yard-signs", quantity: 60, lineTotalCents: 30000, options: [{ name: "Grommets", amountCents: 1200 }] },
+      { productTypeId: "banners", quantity: 1, lineTotalCents: 10000 },
+    ],
+    customerTier: "default",
+    at: AT,
+    redemptionCount: 0,
+    customerRedemptionCount: 0,
+    ...overrides,
+  };
+}
+
+describe("evaluatePromotion", () => {
+  test("percent off applies only to eligible product types", () => {
+    const result = evaluatePromotion(promo({ productTypeIds: ["yard-signs"] }), context());
+    expect(result).toEqual({ ok: true, discountCents: 3000, eligibleSubtotalCents: 30000, description: "SIGNS10: 10% off" });
+  });
+
+  test("date window is start-inclusive and end-exclusive", () => {
+    expect(evaluatePromotion(promo({ startsAt: "2026-03-11T00:00:00Z" }), context())).toMatchObject({ ok: false });
+    expect(evaluatePromotion(promo({ endsAt: AT }), context())).toEqual({ ok: false, reason: "This promotion has expired" });
+    expect(evaluatePromotion(promo({ startsAt: AT, endsAt: "2026-03-17T00:00:00Z" }), context())).toMatchObject({ ok: true });
+  });
+
+  test("usage limits, customer tiers and minimum subtotal", () => {
+    expect(evaluatePromotion(promo({ maxRedemptions: 5 }), context({ redemptionCount: 5 }))).toMatchObject({ ok: false });
+    expect(evaluatePromotion(promo({ maxRedemptionsPerCustomer: 1 }), context({ customerRedemptionCount: 1 }))).toMatchObject({ ok: false });
+    expect(evaluatePromotion(promo({ customerTiers: ["wholesale"] }), context())).toMatchObject({ ok: false });
+    expect(evaluatePromotion(promo({ customerTiers: ["wholesale"] }), context({ customerTier: "wholesale" }))).toMatchObject({ ok: true });
+    expect(evaluatePromotion(promo({ minSubtotal: "500" }), context())).toMatchObject({ ok: false });
+  });
+
+  test("free option waives matching option charges on lines over the minimum quantity", () => {
+    const freeGrommets = promo({ code: "GROMMETS", discountType: "FREE_OPTION", discountValue: 0, optionName: "grommet", minQuantity: 50 });
+    expect(evaluatePromotion(freeGrommets, context())).toMatchObject({ ok: true, discountCents: 1200, description: "GROMMETS: free grommet" });
+
+    const smallRun = context({ lines: [{ productTypeId: "yard-signs", quantity: 20, lineTotalCents: 9000, options: [{ name: "Grommets", amountCents: 400 }] }] });
+    expect(evaluatePromotion(freeGrommets, smallRun)).toEqual({ ok: false, reason: "No items qualify for this promotion" });
+  });
+
+  test("amount off is capped at the eligible subtotal", () => {
+    const result = evaluatePromotion(promo({ discountType: "AMOUNT_OFF", discountValue: "500", productTypeIds: ["banners"] }), context());
+    expect(result).toMatchObject({ ok: true, discountCents: 10000 });
+  });
+});
+
+describe("normalizePromotionCode", () => {
+  test("trims and upper-cases", () => {
+    expect(normalizePromotionCode("  signs10 ")).toBe("SIGNS10");
+    expect(normalizePromotionCode(undefined)).toBe("");
+  });
+});
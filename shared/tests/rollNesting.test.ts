@@ -0,0 +1,73 @@
+import { describe, expect, test } from "@jest/globals";
+import { planRollNesting } from "../rollNesting";
+
+describe("planRollNesting", () => {
+  test("packs banners into lanes across the roll and totals linear feet with lead/tail waste", () => {
+    const plan = planRollNesting(
+      [
+        { id: "banner", label: "3x8 banner", widthIn: 36, heightIn: 96, quantity: 1 },
+        { id: "signs", label: "Vinyl signs", widthIn: 24, heightIn: 18, quantity: 2 },
+      ],
+      { rollWidthIn: 54, leadWasteFt: 1, tailWasteFt: 1 }
+    );
+
+    expect(plan.lanes.map((l) => [l.x, l.widthIn, l.lengthIn])).toEqual([
+      [0, 36, 96],
+      [36, 18, 48],
+    ]);
+    expect(plan.printedLengthIn).toBe(96);
+    expect(plan.totalLinearFt).toBe(10);
+    expect(plan.printedAreaSqFt).toBe(30);
+    expect(plan.mediaAreaSqFt).toBe(45);
+    expect(plan.wastePercent).toBe(33.33);
+    expect(plan.items.map((i) => [i.itemId, i.placed, i.linearFt])).toEqual([
+      ["banner", 1, 8],
+      ["signs", 2, 2],
+    ]);
+  });
+
+  test("keeps the gutter between lanes and stacks when width runs out", () => {
+    const items = [{ id: "panel", widthIn: 26, heightIn: 10, quantity: 2 }];
+
+    const twoLanes = planRollNesting(items, { rollWidthIn: 54, gutterIn: 1, allowRotation: false });
+    expect(twoLanes.placements.map((p) => [p.lane, p.x, p.y])).toEqual([
+      [0, 0, 0],
+      [1, 27, 0],
+    ]);
+    expect(twoLanes.printedLengthIn).toBe(10);
+
+    const stacked = planRollNesting(items, { rollWidthIn: 54, gutterIn: 3, allowRotation: false });
+    expect(stacked.lanes).toHaveLength(1);
+    expect(stacked.placements.map((p) => p.y)).toEqual([0, 13]);
+    expect(stacked.printedLengthIn).toBe(23);
+  });
+
+  test("offsets lanes by edge waste and reports pieces wider than the printable width", () => {
+    const plan = planRollNesting(
+      [
+        { id: "ok", widthIn: 20, heightIn: 20, quantity: 1 },
+        { id: "wide", widthIn: 60, heightIn: 70, quantity: 1 },
+      ],
+      { rollWidthIn: 54, edgeWasteInPerSide: 1 }
+    );
+    expect(plan.printableWidthIn).toBe(52);
+    expect(plan.placements[0]).toMatchObject({ itemId: "ok", x: 1, y: 0 });
+    expect(plan.items.find((i) => i.itemId === "wide")).toMatchObject({ placed: 0, unplaced: 1 });
+    expect(plan.warnings).toEqual(["wide: 1 piece(s) are wider than the printable width"]);
+  });
+
+  test("warns when the run is longer than the roll", () => {
+    const plan = planRollNesting([{ id: "long", widthIn: 50, heightIn: 120, quantity: 3 }], {
+      rollWidthIn: 54,
+      rollLengthFt: 25,
+    });
+    expect(plan.totalLinearFt).toBe(30);
+    expect(plan.exceedsRollLength).toBe(true);
+  });
+
+  test("an empty run uses no media", () => {
+    const plan = planRollNesting([], { rollWidthIn: 54, leadWasteFt: 2, tailWasteFt: 1 });
+    expect(plan.totalLinearFt).toBe(0);
+    expect(plan.wastePercent).toBe(0);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "@jest/globals";
+import { planSheetNesting, type SheetNestingPlacement } from "../sheetNesting";
+
+function overlaps(a: SheetNestingPlacement, b: SheetNestingPlacement, spacing: number) {
+  return (
+    a.x < b.x + b.width + spacing - 1e-6 &&
+    b.x < a.x + a.width + spacing - 1e-6 &&
+    a.y < b.y + b.height + spacing - 1e-6 &&
+    b.y < a.y + a.height + spacing - 1e-6
+  );
+}
+
+describe("planSheetNesting", () => {
+  test("gangs mixed sizes from several line items onto one 48x96 sheet", () => {
+    const plan = planSheetNesting(
+      [
+        { id: "li-1", label: "Yard signs", widthIn: 24, heightIn: 18, quantity: 6 },
+        { id: "li-2", label: "Door panel", widthIn: 12, heightIn: 36, quantity: 2 },
+      ],
+      { sheetWidthIn: 48, sheetHeightIn: 96, mode: "free_rect" }
+    );
+
+    expect(plan.totalSheets).toBe(1);
+    expect(plan.placedPieces).toBe(8);
+    expect(plan.items.map((i) => [i.itemId, i.placed, i.sheetIndexes])).toEqual([
+      ["li-1", 6, [0]],
+      ["li-2", 2, [0]],
+    ]);
+    // (6 * 432 + 2 * 432) / 4608
+    expect(plan.yieldPercent).toBe(75);
+  });
+
+  test("keeps gutter and bleed clearance and stays inside the margin", () => {
+    for (const mode of ["guillotine", "free_rect"] as const) {
+      const plan = planSheetNesting(
+        [
+          { id: "a", widthIn: 10, heightIn: 7, quantity: 9 },
+          { id: "b", widthIn: 5, heightIn: 3, quantity: 14 },
+        ],
+        { sheetWidthIn: 48, sheetHeightIn: 48, mode, gutterIn: 0.25, bleedIn: 0.125, marginIn: 0.5 }
+      );
+      const spacing = 0.25 + 2 * 0.125;
+      const placements = plan.sheets.flatMap((s) => s.placements);
+      expect(placements).toHaveLength(23);
+      for (const p of placements) {
+        expect(p.x - 0.125).toBeGreaterThanOrEqual(0.5 - 1e-6);
+        expect(p.y - 0.125).toBeGreaterThanOrEqual(0.5 - 1e-6);
+        expect(p.x + p.width + 0.125).toBeLessThanOrEqual(47.5 + 1e-6);
+        expect(p.y + p.height + 0.125).toBeLessThanOrEqual(47.5 + 1e-6);
+      }
+      for (const sheet of plan.sheets) {
+        sheet.placements.forEach((a, i) => {
+          sheet.placements.slice(i + 1).forEach((b) => expect(overlaps(a, b, spacing)).toBe(false));
+        });
+      }
+    }
+  });
+
+  test("rotates pieces only when allowed", () => {
+    const items = [{ id: "banner", widthIn: 90, heightIn: 40, quantity: 1 }];
+    const rotated = planSheetNesting(items, { sheetWidthIn: 48, sheetHeightIn: 96 });
+    expect(rotated.sheets[0].placements[0]).toMatchObject({ rotated: true, width: 40, height: 90 });
+
+    const fixed = planSheetNesting(items, { sheetWidthIn: 48, sheetHeightIn: 96, allowRotation: false });
+    expect(fixed.totalSheets).toBe(0);
+    expect(fixed.items[0]).toMatchObject({ placed: 0, unplaced: 1 });
+    expect(fixed.warnings).toEqual(["banner: 1 piece(s) do not fit the sheet"]);
+  });
+
+  test("opens additional sheets when the first is full", () => {
+    const plan = planSheetNesting([{ id: "x", widthIn: 24, heightIn: 48, quantity: 5 }], {
+      sheetWidthIn: 48,
+      sheetHeightIn: 96,
+      mode: "guillotine",
+    });
+    expect(plan.totalSheets).toBe(2);
+    expect(plan.sheets.map((s) => s.placements.length)).toEqual([4, 1]);
+    expect(plan.sheets[0].yieldPercent).toBe(100);
+    expect(plan.yieldPercent).toBe(62.5);
+  });
+
+  test("rejects oversized requests before expanding pieces", () => {
+    expect(() =>
+      planSheetNesting([{ id: "cards", widthIn: 2, heightIn: 3.5, quantity: 1_000_000 }], { sheetWidthIn: 48, sheetHeightIn: 96 })
+    ).toThrow(/Too many pieces/);
+  });
+});